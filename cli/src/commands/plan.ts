@@ -9,6 +9,7 @@ import { listPlanCommand } from './plan/list.js';
 import { showPlanCommand } from './plan/show.js';
 import { deletePlanCommand } from './plan/delete.js';
 import { scaffoldPlanCommand } from './plan/scaffold.js';
+import { runPlanCommand } from './plan/run.js';
 
 export const planCommand: CommandModule = {
   command: 'plan',
@@ -20,6 +21,7 @@ export const planCommand: CommandModule = {
       .command(showPlanCommand)
       .command(deletePlanCommand)
       .command(scaffoldPlanCommand)
+      .command(runPlanCommand)
       .demandCommand(1, 'You need at least one command. Try: recoder plan create')
       .version(false),
   handler: () => {},
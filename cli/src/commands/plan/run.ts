@@ -0,0 +1,137 @@
+/**
+ * 'recoder plan run' command
+ */
+
+import type { CommandModule } from 'yargs';
+import { PlanningService } from '../../services/PlanningService.js';
+import {
+  PlanRunner,
+  formatCheckLine,
+  formatStepLine,
+  type PlanRunEvent,
+} from '../../services/PlanRunner.js';
+
+interface RunArgs {
+  id: string;
+  output?: string;
+  restart?: boolean;
+  model?: string;
+  yolo?: boolean;
+  'permission-policy'?: string;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
+}
+
+function printEvent(event: PlanRunEvent): void {
+  switch (event.type) {
+    case 'start': {
+      const done = event.steps.filter((s) => s.status === 'completed').length;
+      console.log(`🚀 Running plan: ${event.plan.name} (${event.steps.length} steps${done > 0 ? `, resuming after ${done} completed` : ''})\n`);
+      break;
+    }
+    case 'step_skipped':
+      console.log(`  ⏭️  ${event.step.step}. ${event.step.description} (already completed)`);
+      break;
+    case 'step_start':
+      console.log(`  ▶️  [${event.index + 1}/${event.total}] ${event.step.description}`);
+      break;
+    case 'step_end':
+      console.log(`  ${formatStepLine(event.step, ` (${formatDuration(event.durationMs)})`)}`);
+      break;
+    case 'validation_start':
+      console.log(`\n🔍 Validation (${event.checks.length} checks)\n`);
+      break;
+    case 'validation_end':
+      console.log(`  ${formatCheckLine(event.check)}`);
+      break;
+  }
+}
+
+export const runPlanCommand: CommandModule<{}, RunArgs> = {
+  command: 'run <id>',
+  describe: 'Execute a plan step by step, resuming after completed steps',
+  builder: (yargs) =>
+    yargs
+      .positional('id', {
+        type: 'string',
+        description: 'Plan ID',
+        demandOption: true,
+      })
+      .option('output', {
+        alias: 'o',
+        type: 'string',
+        describe: 'Directory to build in (default: current)',
+      })
+      .option('restart', {
+        type: 'boolean',
+        describe: 'Run every step again instead of resuming',
+      })
+      .option('model', {
+        alias: 'm',
+        type: 'string',
+        describe: 'Model for the agent steps',
+      })
+      .option('yolo', {
+        alias: 'y',
+        type: 'boolean',
+        describe: 'Let the agent run shell commands without approval (default: file edits only)',
+      })
+      .option('permission-policy', {
+        type: 'string',
+        describe: 'Permission policy file for the agent steps',
+      }),
+  handler: async (argv) => {
+    const planningService = new PlanningService();
+    const plan = planningService.loadPlan(argv.id);
+
+    if (!plan) {
+      console.error(`❌ Plan not found: ${argv.id}`);
+      console.log('\n💡 List plans with: recoder plan list');
+      process.exit(1);
+    }
+
+    const abortController = new AbortController();
+    process.once('SIGINT', () => {
+      console.log('\n⏹️  Cancelling the current step...');
+      abortController.abort();
+    });
+
+    const runner = new PlanRunner(planningService, {
+      targetDir: argv.output || process.cwd(),
+      restart: argv.restart,
+      agent: {
+        model: argv.model,
+        yolo: argv.yolo,
+        permissionPolicy: argv['permission-policy'],
+      },
+      signal: abortController.signal,
+      onEvent: printEvent,
+    });
+
+    let result;
+    try {
+      result = await runner.run(plan);
+    } catch (error) {
+      console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+      process.exit(1);
+    }
+
+    console.log();
+    if (result.status === 'completed') {
+      console.log(`✅ Plan complete: ${result.completedSteps}/${result.totalSteps} steps`);
+      return;
+    }
+    if (result.status === 'cancelled') {
+      console.log(`⏹️  Cancelled after ${result.completedSteps}/${result.totalSteps} steps`);
+    } else if (result.failedStep) {
+      console.error(`❌ Step ${result.failedStep.step} failed after ${result.completedSteps}/${result.totalSteps} steps`);
+    } else {
+      console.error(`❌ ${result.failedChecks.length} validation check(s) failed`);
+    }
+    console.log(`\n💡 Resume with: recoder plan run ${plan.id}`);
+    process.exit(1);
+  },
+};
@@ -0,0 +1,239 @@
+/**
+ * Sessions command - Browse, search, export and delete recorded sessions
+ */
+
+import type { CommandModule, Argv } from 'yargs';
+import chalk from 'chalk';
+import {
+  deleteSessionRecord,
+  findSessions,
+  getSessionHistoryStats,
+  getSessionRecord,
+  type SessionHistoryQuery,
+} from 'recoder-code-core';
+import * as fs from 'node:fs';
+import {
+  formatSessionDetail,
+  formatSessionList,
+  formatSessionStats,
+  parseDateFilter,
+} from '../utils/sessionHistory.js';
+import {
+  exportSession,
+  formatFromFileName,
+  parseExportFormat,
+} from '../utils/sessionExport.js';
+
+const DEFAULT_LIMIT = 20;
+
+interface FilterArgs {
+  project?: string;
+  allProjects?: boolean;
+  since?: string;
+  until?: string;
+  model?: string;
+  limit?: number;
+}
+
+function withFilters<T>(yargs: Argv<T>) {
+  return yargs
+    .option('project', {
+      describe: 'Project directory to list sessions for (default: current directory)',
+      type: 'string',
+    })
+    .option('all-projects', {
+      alias: 'a',
+      describe: 'Include sessions from every project',
+      type: 'boolean',
+    })
+    .option('since', {
+      describe: 'Only sessions active since a date (YYYY-MM-DD, today, yesterday, 24h, 7d, 2w)',
+      type: 'string',
+    })
+    .option('until', {
+      describe: 'Only sessions active until a date',
+      type: 'string',
+    })
+    .option('model', {
+      describe: 'Only sessions that used a model (substring match)',
+      type: 'string',
+    })
+    .option('limit', {
+      alias: 'n',
+      describe: 'Maximum number of sessions to show',
+      type: 'number',
+    });
+}
+
+function toQuery(argv: FilterArgs, defaultLimit?: number): SessionHistoryQuery {
+  return {
+    projectRoot: argv.allProjects ? undefined : (argv.project ?? process.cwd()),
+    since: argv.since ? parseDateFilter(argv.since, 'start') : undefined,
+    until: argv.until ? parseDateFilter(argv.until, 'end') : undefined,
+    model: argv.model,
+    limit: argv.limit ?? defaultLimit,
+  };
+}
+
+function run(action: () => void) {
+  try {
+    action();
+    process.exit(0);
+  } catch (error) {
+    console.error(chalk.red(`\n✗ ${error instanceof Error ? error.message : String(error)}\n`));
+    process.exit(1);
+  }
+}
+
+function listSessions(argv: FilterArgs) {
+  run(() => {
+    const sessions = findSessions(toQuery(argv, DEFAULT_LIMIT));
+    console.log(formatSessionList(sessions, !!argv.allProjects));
+  });
+}
+
+const listCommand: CommandModule<{}, FilterArgs> = {
+  command: 'list',
+  describe: 'List recorded sessions, newest first',
+  builder: (yargs: Argv) => withFilters(yargs),
+  handler: listSessions,
+};
+
+const searchCommand: CommandModule<{}, FilterArgs & { query: string }> = {
+  command: 'search <query>',
+  describe: 'Full-text search prompts, responses and tool calls',
+  builder: (yargs: Argv) =>
+    withFilters(yargs).positional('query', {
+      describe: 'Text to search for, e.g. a file path',
+      type: 'string',
+      demandOption: true,
+    }) as Argv<FilterArgs & { query: string }>,
+  handler: (argv) =>
+    run(() => {
+      const sessions = findSessions({
+        ...toQuery(argv, DEFAULT_LIMIT),
+        text: argv.query,
+      });
+      console.log(formatSessionList(sessions, !!argv.allProjects));
+    }),
+};
+
+const showCommand: CommandModule<{}, FilterArgs & { id: string }> = {
+  command: 'show <id>',
+  describe: 'Show the transcript of a session',
+  builder: (yargs: Argv) =>
+    withFilters(yargs).positional('id', {
+      describe: 'Session ID or ID prefix',
+      type: 'string',
+      demandOption: true,
+    }) as Argv<FilterArgs & { id: string }>,
+  handler: (argv) =>
+    run(() => {
+      const session = getSessionRecord(argv.id, toQuery(argv).projectRoot);
+      if (!session) {
+        throw new Error(`No recorded session found matching "${argv.id}"`);
+      }
+      console.log(formatSessionDetail(session.filePath, session.conversation));
+    }),
+};
+
+const statsCommand: CommandModule<{}, FilterArgs> = {
+  command: 'stats',
+  describe: 'Show token, cost and tool usage totals',
+  builder: (yargs: Argv) => withFilters(yargs),
+  handler: (argv) =>
+    run(() => {
+      const stats = getSessionHistoryStats(findSessions(toQuery(argv)));
+      console.log(formatSessionStats(stats));
+    }),
+};
+
+const deleteCommand: CommandModule<{}, FilterArgs & { id: string }> = {
+  command: 'delete <id>',
+  describe: 'Delete a recorded session',
+  builder: (yargs: Argv) =>
+    withFilters(yargs).positional('id', {
+      describe: 'Session ID or ID prefix',
+      type: 'string',
+      demandOption: true,
+    }) as Argv<FilterArgs & { id: string }>,
+  handler: (argv) =>
+    run(() => {
+      const deleted = deleteSessionRecord(argv.id, toQuery(argv).projectRoot);
+      if (!deleted) {
+        throw new Error(`No recorded session found matching "${argv.id}"`);
+      }
+      console.log(chalk.green(`\n✓ Deleted session ${deleted}\n`));
+    }),
+};
+
+const exportCommand: CommandModule<
+  {},
+  FilterArgs & { id: string; format?: string; output?: string }
+> = {
+  command: 'export <id>',
+  describe: 'Export a session to Markdown, HTML or JSONL (use "latest" for the newest)',
+  builder: (yargs: Argv) =>
+    withFilters(yargs)
+      .positional('id', {
+        describe: 'Session ID, ID prefix or "latest"',
+        type: 'string',
+        demandOption: true,
+      })
+      .option('format', {
+        alias: 'f',
+        describe: 'md, html or jsonl (default: from --output, else md)',
+        type: 'string',
+      })
+      .option('output', {
+        alias: 'o',
+        describe: 'File to write (default: stdout)',
+        type: 'string',
+      }) as Argv<FilterArgs & { id: string; format?: string; output?: string }>,
+  handler: (argv) =>
+    run(() => {
+      const format = argv.format
+        ? parseExportFormat(argv.format)
+        : (argv.output && formatFromFileName(argv.output)) || 'markdown';
+      if (!format) {
+        throw new Error(`Unsupported format "${argv.format}". Use md, html or jsonl.`);
+      }
+
+      const { projectRoot } = toQuery(argv);
+      const sessionId =
+        argv.id === 'latest'
+          ? findSessions({ projectRoot, limit: 1 })[0]?.sessionId
+          : argv.id;
+      const session = sessionId
+        ? getSessionRecord(sessionId, projectRoot)
+        : undefined;
+      if (!session) {
+        throw new Error(`No recorded session found matching "${argv.id}"`);
+      }
+      const { conversation } = session;
+
+      const content = exportSession(conversation, format);
+      if (argv.output) {
+        fs.writeFileSync(argv.output, content, 'utf8');
+        console.error(chalk.green(`\n✓ Exported session ${conversation.sessionId} to ${argv.output}\n`));
+      } else {
+        process.stdout.write(content);
+      }
+    }),
+};
+
+export const sessionsCommand: CommandModule<{}, FilterArgs> = {
+  command: 'sessions',
+  describe: 'Browse, search, export and delete recorded sessions',
+  builder: (yargs: Argv) =>
+    withFilters(yargs)
+      .command(listCommand)
+      .command(searchCommand)
+      .command(showCommand)
+      .command(statsCommand)
+      .command(deleteCommand)
+      .command(exportCommand)
+      .demandCommand(0)
+      .version(false),
+  handler: listSessions,
+};
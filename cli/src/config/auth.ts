@@ -46,6 +46,13 @@ export const validateAuthMethod = (authMethod: string): string | null => {
     return null;
   }
 
+  if (authMethod === AuthType.USE_ANTHROPIC) {
+    if (!process.env['ANTHROPIC_API_KEY']) {
+      return 'ANTHROPIC_API_KEY environment variable not found. Add that to your environment and try again (no reload needed if using .env)!';
+    }
+    return null;
+  }
+
   if (authMethod === AuthType.QWEN_OAUTH) {
     // Qwen OAuth doesn't require any environment variables for basic setup
     // The OAuth flow will handle authentication
@@ -8,20 +8,31 @@ import type {
   ConfigParameters,
   FileFilteringOptions,
   MCPServerConfig,
+  OutputFormat,
+  PermissionPolicy,
+  PermissionRuleDecision,
   TelemetryTarget,
 } from 'recoder-code-core';
 import {
+  ApplyPatchTool,
   ApprovalMode,
   Config,
   DEFAULT_GEMINI_EMBEDDING_MODEL,
   DEFAULT_GEMINI_MODEL,
   DEFAULT_MEMORY_FILE_FILTERING_OPTIONS,
   EditTool,
+  FatalConfigError,
   FileDiscoveryService,
   getCurrentGeminiMdFilename,
+  getErrorMessage,
+  loadPermissionPolicy,
   loadServerHierarchicalMemory,
+  LspRenameTool,
+  NotebookEditTool,
+  parsePermissionRule,
   setGeminiMdFilename as setServerGeminiMdFilename,
   ShellTool,
+  validateHooks,
   WriteFileTool,
 } from 'recoder-code-core';
 import * as fs from 'node:fs';
@@ -40,8 +51,10 @@ import { planCommand } from '../commands/plan.js';
 import { providersCommand } from '../commands/providers.js';
 import { agentsCommand } from '../commands/agents.js';
 import { hintsCommand } from '../commands/hints.js';
+import { sessionsCommand } from '../commands/sessions.js';
 import { modelsCommand } from '../commands/models-cmd.js';
 import { configureCommand } from '../commands/configure.js';
+import { buildProviderFallback } from '../providers/fallback.js';
 import type { Settings } from './settings.js';
 
 import { resolvePath } from '../utils/resolvePath.js';
@@ -116,6 +129,7 @@ export interface CliArgs {
   allowedMcpServerNames: string[] | undefined;
   allowedTools: string[] | undefined;
   experimentalAcp: boolean | undefined;
+  ideMode: boolean | undefined;
   extensions: string[] | undefined;
   listExtensions: boolean | undefined;
   listModels: boolean | undefined;
@@ -134,6 +148,10 @@ export interface CliArgs {
   tavilyApiKey: string | undefined;
   screenReader: boolean | undefined;
   vlmSwitchMode: string | undefined;
+  resume: string | undefined;
+  continue: boolean | undefined;
+  outputFormat: string | undefined;
+  permissionPolicy: string | undefined;
 }
 
 export async function parseArguments(settings: Settings): Promise<CliArgs> {
@@ -243,6 +261,11 @@ export async function parseArguments(settings: Settings): Promise<CliArgs> {
           type: 'boolean',
           description: 'Starts the agent in ACP mode',
         })
+        .option('ide-mode', {
+          type: 'boolean',
+          description:
+            'Connect to the IDE companion extension. Overrides settings files.',
+        })
         .option('allowed-mcp-server-names', {
           type: 'array',
           string: true,
@@ -340,12 +363,38 @@ export async function parseArguments(settings: Settings): Promise<CliArgs> {
             'Default behavior when images are detected in input. Values: once (one-time switch), session (switch for entire session), persist (continue with current model). Overrides settings files.',
           default: process.env['VLM_SWITCH_MODE'],
         })
+        .option('resume', {
+          alias: 'r',
+          type: 'string',
+          description:
+            'Resume a recorded session by ID (or ID prefix). Without an ID, pick one from a list.',
+        })
+        .option('continue', {
+          type: 'boolean',
+          description: 'Resume the most recent session for this project.',
+        })
+        .option('output-format', {
+          alias: 'o',
+          type: 'string',
+          choices: ['text', 'json', 'stream-json'],
+          description:
+            'Output format for non-interactive mode: text, json (one result object) or stream-json (newline-delimited events).',
+          default: 'text',
+        })
+        .option('permission-policy', {
+          type: 'string',
+          description:
+            'JSON file of allow/deny/ask rules for tool calls (by tool, shell command or path). Lets non-interactive runs use tools without --yolo.',
+        })
         .check((argv) => {
           if (argv.prompt && argv['promptInteractive']) {
             throw new Error(
               'Cannot use both --prompt (-p) and --prompt-interactive (-i) together',
             );
           }
+          if (argv['resume'] !== undefined && argv['continue']) {
+            throw new Error('Cannot use both --resume and --continue together');
+          }
           if (argv.yolo && argv['approvalMode']) {
             throw new Error(
               'Cannot use both --yolo (-y) and --approval-mode together. Use --approval-mode=yolo instead.',
@@ -372,6 +421,8 @@ export async function parseArguments(settings: Settings): Promise<CliArgs> {
     .command(agentsCommand)
     // Register hints command for project context
     .command(hintsCommand)
+    // Register sessions command for browsing recorded sessions
+    .command(sessionsCommand)
     // Register models command for model management
     .command(modelsCommand)
     // Register configure command for interactive setup
@@ -463,7 +514,7 @@ export async function loadCliConfig(
     false;
   const memoryImportFormat = settings.context?.importFormat || 'tree';
 
-  const ideMode = settings.ide?.enabled ?? false;
+  const ideMode = argv.ideMode ?? settings.ide?.enabled ?? false;
 
   const folderTrustFeature =
     settings.security?.folderTrust?.featureEnabled ?? false;
@@ -562,16 +613,60 @@ export async function loadCliConfig(
     approvalMode = ApprovalMode.DEFAULT;
   }
 
+  let permissionPolicy: PermissionPolicy | undefined;
+  if (argv.permissionPolicy) {
+    try {
+      permissionPolicy = loadPermissionPolicy(
+        resolvePath(argv.permissionPolicy),
+      );
+    } catch (error) {
+      throw new FatalConfigError(getErrorMessage(error));
+    }
+  }
+
+  const permissionRules = {
+    allow: settings.permissions?.allow ?? [],
+    deny: settings.permissions?.deny ?? [],
+  };
+  for (const [decision, rules] of Object.entries(permissionRules)) {
+    for (const rule of rules) {
+      try {
+        parsePermissionRule(rule, decision as PermissionRuleDecision);
+      } catch (error) {
+        throw new FatalConfigError(
+          `Invalid permissions.${decision} setting: ${getErrorMessage(error)}`,
+        );
+      }
+    }
+  }
+
+  const hooks = settings.hooks ?? {};
+  try {
+    validateHooks(hooks);
+  } catch (error) {
+    throw new FatalConfigError(
+      `Invalid hooks setting: ${getErrorMessage(error)}`,
+    );
+  }
+
   const interactive =
     !!argv.promptInteractive || (process.stdin.isTTY && question.length === 0);
-  // In non-interactive mode, exclude tools that require a prompt.
+  // In non-interactive mode, exclude tools that require a prompt, unless a
+  // permission policy decides which calls may run.
   const extraExcludes: string[] = [];
-  if (!interactive && !argv.experimentalAcp) {
+  if (!interactive && !argv.experimentalAcp && !permissionPolicy) {
     switch (approvalMode) {
       case ApprovalMode.PLAN:
       case ApprovalMode.DEFAULT:
         // In default non-interactive mode, all tools that require approval are excluded.
-        extraExcludes.push(ShellTool.Name, EditTool.Name, WriteFileTool.Name);
+        extraExcludes.push(
+          ShellTool.Name,
+          EditTool.Name,
+          WriteFileTool.Name,
+          LspRenameTool.Name,
+          ApplyPatchTool.Name,
+          NotebookEditTool.Name,
+        );
         break;
       case ApprovalMode.AUTO_EDIT:
         // In auto-edit non-interactive mode, only tools that still require a prompt are excluded.
@@ -630,6 +725,7 @@ export async function loadCliConfig(
 
   const vlmSwitchMode =
     argv.vlmSwitchMode || settings.experimental?.vlmSwitchMode;
+  const model = argv.model || settings.model?.name || DEFAULT_GEMINI_MODEL;
   return new Config({
     sessionId,
     embeddingModel: DEFAULT_GEMINI_EMBEDDING_MODEL,
@@ -647,6 +743,7 @@ export async function loadCliConfig(
     toolDiscoveryCommand: settings.tools?.discoveryCommand,
     toolCallCommand: settings.tools?.callCommand,
     mcpServerCommand: settings.mcp?.serverCommand,
+    mcpSamplingMaxTokens: settings.mcp?.samplingMaxTokens,
     mcpServers,
     userMemory: memoryContent,
     geminiMdFileCount: fileCount,
@@ -693,7 +790,7 @@ export async function loadCliConfig(
     cwd,
     fileDiscoveryService: fileService,
     bugCommand: settings.advanced?.bugCommand,
-    model: argv.model || settings.model?.name || DEFAULT_GEMINI_MODEL,
+    model,
     extensionContextFilePaths,
     sessionTokenLimit: settings.sessionTokenLimit ?? -1,
     maxSessionTurns: settings.model?.maxSessionTurns ?? -1,
@@ -737,6 +834,13 @@ export async function loadCliConfig(
     enablePromptCompletion: settings.general?.enablePromptCompletion ?? false,
     skipLoopDetection: settings.skipLoopDetection ?? false,
     vlmSwitchMode,
+    providerFallback: buildProviderFallback(settings.model?.fallback, model),
+    chatRecording: settings.general?.chatRecording,
+    outputFormat: argv.outputFormat as OutputFormat | undefined,
+    permissionPolicy,
+    permissionRules,
+    hooks,
+    lsp: settings.lsp,
   });
 }
 
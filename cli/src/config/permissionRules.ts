@@ -0,0 +1,92 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  PermissionRuleDecision,
+  PermissionRules,
+} from 'recoder-code-core';
+import { parsePermissionRule } from 'recoder-code-core';
+import type { LoadedSettings } from './settings.js';
+import { SettingScope } from './settings.js';
+
+/** The scopes that can hold permission rules, as shown in /permissions */
+export const PERMISSION_RULE_SCOPES = [
+  SettingScope.Workspace,
+  SettingScope.User,
+] as const;
+
+export type PermissionRuleScope = (typeof PERMISSION_RULE_SCOPES)[number];
+
+/**
+ * "Always allow" answers are saved to the project, unless the folder is
+ * untrusted and project settings are ignored.
+ */
+export function getDefaultPermissionRuleScope(
+  settings: LoadedSettings,
+): PermissionRuleScope {
+  return settings.isTrusted ? SettingScope.Workspace : SettingScope.User;
+}
+
+export function getPermissionRules(
+  settings: LoadedSettings,
+  scope: PermissionRuleScope,
+): Required<PermissionRules> {
+  const permissions = settings.forScope(scope).settings.permissions;
+  return {
+    allow: permissions?.allow ?? [],
+    deny: permissions?.deny ?? [],
+  };
+}
+
+/**
+ * Checks a rule string.
+ * @returns an error message, or undefined if the rule is valid
+ */
+export function validatePermissionRule(rule: string): string | undefined {
+  try {
+    parsePermissionRule(rule, 'allow');
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+export function addPermissionRules(
+  settings: LoadedSettings,
+  scope: PermissionRuleScope,
+  decision: PermissionRuleDecision,
+  rules: string[],
+): void {
+  const existing = getPermissionRules(settings, scope)[decision];
+  const added = rules.filter((rule) => !existing.includes(rule));
+  if (added.length > 0) {
+    settings.setValue(scope, `permissions.${decision}`, [
+      ...existing,
+      ...added,
+    ]);
+  }
+}
+
+/**
+ * @returns true if the rule was found and removed
+ */
+export function removePermissionRule(
+  settings: LoadedSettings,
+  scope: PermissionRuleScope,
+  decision: PermissionRuleDecision,
+  rule: string,
+): boolean {
+  const existing = getPermissionRules(settings, scope)[decision];
+  if (!existing.includes(rule)) {
+    return false;
+  }
+  settings.setValue(
+    scope,
+    `permissions.${decision}`,
+    existing.filter((r) => r !== rule),
+  );
+  return true;
+}
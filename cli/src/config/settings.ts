@@ -8,6 +8,7 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import { homedir, platform } from 'node:os';
 import * as dotenv from 'dotenv';
+import type { HookEventName, HooksSettings } from 'recoder-code-core';
 import {
   GEMINI_CONFIG_DIR as GEMINI_DIR,
   getErrorMessage,
@@ -263,6 +264,18 @@ export function migrateSettingsToV1(
   return v1Settings;
 }
 
+/** Hooks from every scope run, in order from system defaults to system */
+function mergeHooks(scopes: Array<HooksSettings | undefined>): HooksSettings {
+  const merged: HooksSettings = {};
+  for (const hooks of scopes) {
+    for (const [event, definitions] of Object.entries(hooks ?? {})) {
+      const name = event as HookEventName;
+      merged[name] = [...(merged[name] ?? []), ...(definitions ?? [])];
+    }
+  }
+  return merged;
+}
+
 function mergeSettings(
   system: Settings,
   systemDefaults: Settings,
@@ -359,6 +372,42 @@ function mergeSettings(
       ...(safeWorkspaceWithoutFolderTrust.tools || {}),
       ...(system.tools || {}),
     },
+    permissions: {
+      allow: [
+        ...new Set([
+          ...(systemDefaults.permissions?.allow || []),
+          ...(user.permissions?.allow || []),
+          ...(safeWorkspaceWithoutFolderTrust.permissions?.allow || []),
+          ...(system.permissions?.allow || []),
+        ]),
+      ],
+      deny: [
+        ...new Set([
+          ...(systemDefaults.permissions?.deny || []),
+          ...(user.permissions?.deny || []),
+          ...(safeWorkspaceWithoutFolderTrust.permissions?.deny || []),
+          ...(system.permissions?.deny || []),
+        ]),
+      ],
+    },
+    hooks: mergeHooks([
+      systemDefaults.hooks,
+      user.hooks,
+      safeWorkspaceWithoutFolderTrust.hooks,
+      system.hooks,
+    ]),
+    lsp: {
+      ...(systemDefaults.lsp || {}),
+      ...(user.lsp || {}),
+      ...(safeWorkspaceWithoutFolderTrust.lsp || {}),
+      ...(system.lsp || {}),
+      servers: {
+        ...(systemDefaults.lsp?.servers || {}),
+        ...(user.lsp?.servers || {}),
+        ...(safeWorkspaceWithoutFolderTrust.lsp?.servers || {}),
+        ...(system.lsp?.servers || {}),
+      },
+    },
     context: {
       ...(systemDefaults.context || {}),
       ...(user.context || {}),
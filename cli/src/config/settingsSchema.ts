@@ -5,6 +5,8 @@
  */
 
 import type {
+  HooksSettings,
+  LspServerConfig,
   MCPServerConfig,
   BugCommandSettings,
   TelemetrySettings,
@@ -116,6 +118,16 @@ export const SETTINGS_SCHEMA = {
           },
         },
       },
+      chatRecording: {
+        type: 'boolean',
+        label: 'Chat Recording',
+        category: 'General',
+        requiresRestart: true,
+        default: true,
+        description:
+          'Journal every session to disk so it can be resumed with --resume or --continue.',
+        showInDialog: true,
+      },
       enablePromptCompletion: {
         type: 'boolean',
         label: 'Enable Prompt Completion',
@@ -370,6 +382,48 @@ export const SETTINGS_SCHEMA = {
         description: 'Skip the next speaker check.',
         showInDialog: true,
       },
+      fallback: {
+        type: 'object',
+        label: 'Provider Fallback',
+        category: 'Model',
+        requiresRestart: true,
+        default: {},
+        description:
+          'Ordered provider failover used when the primary provider errors or rate-limits.',
+        showInDialog: false,
+        properties: {
+          chain: {
+            type: 'array',
+            label: 'Fallback Chain',
+            category: 'Model',
+            requiresRestart: true,
+            default: undefined as string[] | undefined,
+            description:
+              'Models to fall back to, in order, as provider/model IDs (e.g. "anthropic/claude-sonnet-4-20250514", "ollama/llama3.1:8b").',
+            showInDialog: false,
+          },
+          failureThreshold: {
+            type: 'number',
+            label: 'Failure Threshold',
+            category: 'Model',
+            requiresRestart: true,
+            default: 3,
+            description:
+              'Consecutive failures before a provider is skipped for a cooldown period.',
+            showInDialog: false,
+          },
+          cooldownMs: {
+            type: 'number',
+            label: 'Cooldown (ms)',
+            category: 'Model',
+            requiresRestart: true,
+            default: 60000,
+            description:
+              'How long a failing provider is skipped before it is retried. Doubles after each failed retry.',
+            showInDialog: false,
+          },
+        },
+      },
     },
   },
 
@@ -566,6 +620,92 @@ export const SETTINGS_SCHEMA = {
     },
   },
 
+  permissions: {
+    type: 'object',
+    label: 'Permissions',
+    category: 'Tools',
+    requiresRestart: false,
+    default: {},
+    description:
+      'Allow/deny rules for tool calls, e.g. "run_shell_command(npm test:*)", "edit(src/**)" or "mcp:github/*". Manage them with /permissions.',
+    showInDialog: false,
+    properties: {
+      allow: {
+        type: 'array',
+        label: 'Allowed Tool Calls',
+        category: 'Tools',
+        requiresRestart: false,
+        default: undefined as string[] | undefined,
+        description: 'Rules for tool calls that run without confirmation.',
+        showInDialog: false,
+      },
+      deny: {
+        type: 'array',
+        label: 'Denied Tool Calls',
+        category: 'Tools',
+        requiresRestart: false,
+        default: undefined as string[] | undefined,
+        description:
+          'Rules for tool calls that are always refused. Deny rules win over allow rules.',
+        showInDialog: false,
+      },
+    },
+  },
+
+  hooks: {
+    type: 'object',
+    label: 'Hooks',
+    category: 'Advanced',
+    requiresRestart: true,
+    default: {} as HooksSettings,
+    description:
+      'Shell commands run at lifecycle events (UserPromptSubmit, PreToolUse, PostToolUse, PreCompact, SessionStart, Stop).',
+    showInDialog: false,
+  },
+
+  lsp: {
+    type: 'object',
+    label: 'Language Servers',
+    category: 'Advanced',
+    requiresRestart: true,
+    default: {},
+    description:
+      'Language servers used for diagnostics, go to definition, find references, rename and document symbols.',
+    showInDialog: false,
+    properties: {
+      enabled: {
+        type: 'boolean',
+        label: 'Enable Language Server Tools',
+        category: 'Advanced',
+        requiresRestart: true,
+        default: true,
+        description:
+          'Give the model tools backed by language servers. Servers are started when a tool first needs them.',
+        showInDialog: false,
+      },
+      diagnosticsAfterEdit: {
+        type: 'boolean',
+        label: 'Diagnostics After Edits',
+        category: 'Advanced',
+        requiresRestart: true,
+        default: false,
+        description:
+          'Report the errors and warnings of a file in the result of the edit and write_file tools that changed it.',
+        showInDialog: false,
+      },
+      servers: {
+        type: 'object',
+        label: 'Language Server Commands',
+        category: 'Advanced',
+        requiresRestart: true,
+        default: {} as Record<string, Partial<LspServerConfig>>,
+        description:
+          'Language servers by name, added to or overriding the built-in typescript, python, go and rust servers.',
+        showInDialog: false,
+      },
+    },
+  },
+
   mcp: {
     type: 'object',
     label: 'MCP',
@@ -602,6 +742,16 @@ export const SETTINGS_SCHEMA = {
         description: 'A blacklist of MCP servers to exclude.',
         showInDialog: false,
       },
+      samplingMaxTokens: {
+        type: 'number',
+        label: 'MCP Sampling Max Tokens',
+        category: 'MCP',
+        requiresRestart: true,
+        default: undefined as number | undefined,
+        description:
+          'The most tokens an MCP server may generate with the model in one sampling request.',
+        showInDialog: false,
+      },
     },
   },
 
@@ -836,6 +986,34 @@ export const SETTINGS_SCHEMA = {
         childKey: 'disableCacheControl',
         showInDialog: true,
       },
+      responseCache: {
+        type: 'object',
+        label: 'Response Cache',
+        category: 'Content Generator',
+        requiresRestart: true,
+        default: undefined as
+          | { enabled?: boolean; ttlMs?: number; maxEntries?: number }
+          | undefined,
+        description:
+          'Replay identical temperature-0 requests from an on-disk cache (enabled, ttlMs, maxEntries). RECODER_RESPONSE_CACHE=true enables it too.',
+        parentKey: 'contentGenerator',
+        childKey: 'responseCache',
+        showInDialog: false,
+      },
+      rateLimits: {
+        type: 'object',
+        label: 'Rate Limits',
+        category: 'Content Generator',
+        requiresRestart: true,
+        default: undefined as
+          | Record<string, { requestsPerMinute?: number; tokensPerMinute?: number }>
+          | undefined,
+        description:
+          'Per-provider request and token budgets, keyed by auth type, base URL host or "default". Requests over budget are queued.',
+        parentKey: 'contentGenerator',
+        childKey: 'rateLimits',
+        showInDialog: false,
+      },
     },
   },
   enableOpenAILogging: {
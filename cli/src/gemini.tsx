@@ -7,11 +7,14 @@
 import type { Config } from 'recoder-code-core';
 import {
   AuthType,
+  EXIT_CODES,
   FatalConfigError,
+  FatalInputError,
   getOauthClient,
   IdeConnectionEvent,
   IdeConnectionType,
   logIdeConnection,
+  loadSession,
   logUserPrompt,
   sessionId,
 } from 'recoder-code-core';
@@ -24,6 +27,10 @@ import v8 from 'node:v8';
 import React from 'react';
 import { validateAuthMethod } from './config/auth.js';
 import { loadCliConfig, parseArguments } from './config/config.js';
+import {
+  addPermissionRules,
+  getDefaultPermissionRuleScope,
+} from './config/permissionRules.js';
 import { loadExtensions } from './config/extension.js';
 import type { DnsResolutionOrder, LoadedSettings } from './config/settings.js';
 import { loadSettings, SettingScope } from './config/settings.js';
@@ -134,6 +141,7 @@ export async function startInteractiveUI(
   settings: LoadedSettings,
   startupWarnings: string[],
   workspaceRoot: string,
+  resumeSession?: string,
 ) {
   const version = await getCliVersion();
   // Detect and enable Kitty keyboard protocol once at startup
@@ -147,6 +155,7 @@ export async function startInteractiveUI(
           settings={settings}
           startupWarnings={startupWarnings}
           version={version}
+          resumeSession={resumeSession}
         />
       </SettingsContext.Provider>
     </React.StrictMode>,
@@ -295,6 +304,15 @@ export async function main() {
 
   setMaxSizedBoxDebugging(config.getDebugMode());
 
+  config.setPermissionRuleSaver((rules) =>
+    addPermissionRules(
+      settings,
+      getDefaultPermissionRuleScope(settings),
+      'allow',
+      rules,
+    ),
+  );
+
   await config.initialize();
 
   if (config.getIdeMode()) {
@@ -394,6 +412,8 @@ export async function main() {
   }
 
   let input = config.getQuestion();
+  // '' (bare --resume) asks for a session picker; non-interactive runs take the latest
+  const resumeSession = argv.continue ? 'latest' : argv.resume;
   const startupWarnings = [
     ...(await getStartupWarnings()),
     ...(await getUserStartupWarnings(workspaceRoot)),
@@ -401,7 +421,13 @@ export async function main() {
 
   // Render UI, passing necessary config values. Check that there is no command line question.
   if (config.isInteractive()) {
-    await startInteractiveUI(config, settings, startupWarnings, workspaceRoot);
+    await startInteractiveUI(
+      config,
+      settings,
+      startupWarnings,
+      workspaceRoot,
+      resumeSession,
+    );
     return;
   }
   // If not a TTY, read from stdin
@@ -435,12 +461,26 @@ export async function main() {
     config,
   );
 
+  if (resumeSession !== undefined) {
+    const resumed = loadSession(nonInteractiveConfig, resumeSession || 'latest');
+    if (!resumed) {
+      throw new FatalInputError(
+        `No recorded session found matching "${resumeSession || 'latest'}".`,
+      );
+    }
+    await nonInteractiveConfig.getGeminiClient().resumeSession(resumed);
+  }
+
   if (config.getDebugMode()) {
     console.log('Session ID: %s', sessionId);
   }
 
-  await runNonInteractive(nonInteractiveConfig, input, prompt_id);
-  process.exit(0);
+  const exitReason = await runNonInteractive(
+    nonInteractiveConfig,
+    input,
+    prompt_id,
+  );
+  process.exit(EXIT_CODES[exitReason]);
 }
 
 function setWindowTitle(title: string, settings: LoadedSettings) {
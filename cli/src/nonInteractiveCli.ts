@@ -4,7 +4,11 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import type { Config, ToolCallRequestInfo } from 'recoder-code-core';
+import type {
+  Config,
+  ExitReason,
+  ToolCallRequestInfo,
+} from 'recoder-code-core';
 import {
   executeToolCall,
   shutdownTelemetry,
@@ -13,21 +17,30 @@ import {
   parseAndFormatApiError,
   FatalInputError,
   FatalTurnLimitedError,
+  getErrorMessage,
 } from 'recoder-code-core';
 import type { Content, Part } from '@google/genai';
 
 import { ConsolePatcher } from './ui/utils/ConsolePatcher.js';
+import { NonInteractiveOutput } from './nonInteractiveOutput.js';
 import { handleAtCommand } from './ui/hooks/atCommandProcessor.js';
 
+/**
+ * Runs a prompt to completion without the UI.
+ * @returns why the run ended; an error the model reports mid-stream ends it
+ *   with 'error' without throwing
+ */
 export async function runNonInteractive(
   config: Config,
   input: string,
   prompt_id: string,
-): Promise<void> {
+): Promise<ExitReason> {
   const consolePatcher = new ConsolePatcher({
     stderr: true,
     debugMode: config.getDebugMode(),
   });
+  const output = new NonInteractiveOutput(config);
+  let exitReason: ExitReason = 'completed';
 
   try {
     consolePatcher.patch();
@@ -86,13 +99,47 @@ export async function runNonInteractive(
       for await (const event of responseStream) {
         if (abortController.signal.aborted) {
           console.error('Operation cancelled.');
-          return;
+          exitReason = 'cancelled';
+          output.finish(exitReason);
+          return exitReason;
         }
 
-        if (event.type === GeminiEventType.Content) {
-          process.stdout.write(event.value);
-        } else if (event.type === GeminiEventType.ToolCallRequest) {
-          toolCallRequests.push(event.value);
+        switch (event.type) {
+          case GeminiEventType.Content:
+            output.content(event.value);
+            break;
+          case GeminiEventType.ToolCallRequest:
+            output.toolCallRequest(event.value);
+            toolCallRequests.push(event.value);
+            break;
+          case GeminiEventType.Error:
+            output.reportError(event.value.error);
+            console.error(
+              parseAndFormatApiError(
+                event.value.error,
+                config.getContentGeneratorConfig()?.authType,
+              ),
+            );
+            exitReason = 'error';
+            break;
+          case GeminiEventType.MaxSessionTurns:
+            exitReason = 'max_turns';
+            break;
+          case GeminiEventType.SessionTokenLimitExceeded:
+            exitReason = 'session_token_limit';
+            break;
+          case GeminiEventType.LoopDetected:
+            exitReason = 'loop_detected';
+            break;
+          case GeminiEventType.HookBlocked: {
+            const message = `Prompt blocked by ${event.value.hookEventName} hook${event.value.reason ? `: ${event.value.reason}` : '.'}`;
+            console.error(message);
+            output.reportError({ message });
+            exitReason = 'hook_blocked';
+            break;
+          }
+          default:
+            break;
         }
       }
 
@@ -104,6 +151,15 @@ export async function runNonInteractive(
             requestInfo,
             abortController.signal,
           );
+          geminiClient.recordCompletedToolCalls([
+            {
+              status: toolResponse.error ? 'error' : 'success',
+              request: requestInfo,
+              response: toolResponse,
+              tool: config.getToolRegistry().getTool(requestInfo.name),
+            },
+          ]);
+          output.toolResult(requestInfo, toolResponse);
 
           if (toolResponse.error) {
             console.error(
@@ -117,11 +173,18 @@ export async function runNonInteractive(
         }
         currentMessages = [{ role: 'user', parts: toolResponseParts }];
       } else {
-        process.stdout.write('\n'); // Ensure a final newline
-        return;
+        output.finish(exitReason);
+        return exitReason;
       }
     }
   } catch (error) {
+    // The stream's own error event was already reported for this failure
+    if (exitReason !== 'error') {
+      output.reportError({ message: getErrorMessage(error) });
+    }
+    output.finish(
+      error instanceof FatalTurnLimitedError ? 'max_turns' : 'error',
+    );
     console.error(
       parseAndFormatApiError(
         error,
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  Config,
+  ExitReason,
+  JsonOutput,
+  OutputError,
+  OutputToolCall,
+  OutputUsage,
+  StreamJsonEvent,
+  ToolCallRequestInfo,
+  ToolCallResponseInfo,
+} from 'recoder-code-core';
+import {
+  getCostTracker,
+  OutputFormat,
+  uiTelemetryService,
+} from 'recoder-code-core';
+
+function toolResultText(response: ToolCallResponseInfo): string | undefined {
+  if (response.error) {
+    return response.error.message;
+  }
+  const display = response.resultDisplay;
+  if (typeof display === 'string') {
+    return display;
+  }
+  if (display && typeof display === 'object' && 'fileDiff' in display) {
+    return display.fileDiff;
+  }
+  return display === undefined ? undefined : JSON.stringify(display);
+}
+
+function getUsage(): OutputUsage {
+  const usage: OutputUsage = {
+    promptTokens: 0,
+    completionTokens: 0,
+    cachedTokens: 0,
+    thoughtsTokens: 0,
+    totalTokens: 0,
+    models: {},
+  };
+  for (const [model, metrics] of Object.entries(
+    uiTelemetryService.getMetrics().models,
+  )) {
+    usage.promptTokens += metrics.tokens.prompt;
+    usage.completionTokens += metrics.tokens.candidates;
+    usage.cachedTokens += metrics.tokens.cached;
+    usage.thoughtsTokens += metrics.tokens.thoughts;
+    usage.totalTokens += metrics.tokens.total;
+    usage.models[model] = {
+      requests: metrics.api.totalRequests,
+      totalTokens: metrics.tokens.total,
+    };
+  }
+  return usage;
+}
+
+/**
+ * Writes the results of a non-interactive run to stdout in the requested
+ * format. `text` streams the raw model text as before; `json` buffers
+ * everything into one object; `stream-json` writes one event per line.
+ */
+export class NonInteractiveOutput {
+  private readonly format: OutputFormat;
+  private response = '';
+  private readonly toolCalls: OutputToolCall[] = [];
+  private error: OutputError | undefined;
+
+  constructor(private readonly config: Config) {
+    this.format = config.getOutputFormat();
+  }
+
+  content(text: string): void {
+    if (this.format === OutputFormat.TEXT) {
+      process.stdout.write(text);
+      return;
+    }
+    this.response += text;
+    this.emit({ type: 'content', value: text });
+  }
+
+  toolCallRequest(request: ToolCallRequestInfo): void {
+    this.emit({
+      type: 'tool_call_request',
+      callId: request.callId,
+      name: request.name,
+      args: request.args,
+    });
+  }
+
+  toolResult(
+    request: ToolCallRequestInfo,
+    response: ToolCallResponseInfo,
+  ): void {
+    const toolCall: OutputToolCall = {
+      callId: request.callId,
+      name: request.name,
+      args: request.args,
+      status: response.error ? 'error' : 'success',
+      result: toolResultText(response),
+    };
+    this.toolCalls.push(toolCall);
+    this.emit({ type: 'tool_result', ...toolCall });
+  }
+
+  reportError(error: OutputError): void {
+    this.error = error;
+    this.emit({ type: 'error', ...error });
+  }
+
+  /**
+   * Writes the final result. In text mode this only terminates the output
+   * with a newline, and only when the run completed.
+   */
+  finish(exitReason: ExitReason): void {
+    if (this.format === OutputFormat.TEXT) {
+      if (exitReason === 'completed') {
+        process.stdout.write('\n');
+      }
+      return;
+    }
+
+    const result: JsonOutput = {
+      sessionId: this.config.getSessionId(),
+      response: this.response,
+      toolCalls: this.toolCalls,
+      usage: getUsage(),
+      cost: getCostTracker().getSessionStats().totalCost,
+      exitReason,
+      ...(this.error && { error: this.error }),
+    };
+    if (this.format === OutputFormat.JSON) {
+      process.stdout.write(`${JSON.stringify(result, null, 2)}\n`);
+    } else {
+      this.emit({ type: 'result', ...result });
+    }
+  }
+
+  private emit(event: StreamJsonEvent): void {
+    if (this.format === OutputFormat.STREAM_JSON) {
+      process.stdout.write(`${JSON.stringify(event)}\n`);
+    }
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Provider Fallback - Resolve the configured failover chain via the registry
+ */
+
+import { AuthType } from 'recoder-code-core';
+import type { FallbackCandidate, ProviderFallbackSettings } from 'recoder-code-core';
+import type { ProviderEngine } from './types.js';
+import { getModelConfig, parseModelId } from './model-parser.js';
+import { getProviderRegistry } from './registry.js';
+
+const ENGINE_AUTH_TYPES: Record<ProviderEngine, AuthType> = {
+  openai: AuthType.USE_OPENAI,
+  anthropic: AuthType.USE_ANTHROPIC,
+  ollama: AuthType.USE_OLLAMA,
+  google: AuthType.USE_GEMINI,
+};
+
+export interface FallbackSettings {
+  chain?: string[];
+  failureThreshold?: number;
+  cooldownMs?: number;
+}
+
+/**
+ * Resolve provider/model IDs into fallback candidates. Remote providers
+ * without an API key in the environment are skipped.
+ */
+export function resolveFallbackChain(chain: string[]): FallbackCandidate[] {
+  const registry = getProviderRegistry();
+  const candidates: FallbackCandidate[] = [];
+
+  for (const modelId of chain) {
+    try {
+      const modelConfig = getModelConfig(modelId);
+      const provider = registry.getProvider(modelConfig.provider);
+      if (!provider?.isLocal && provider?.apiKeyEnv && !modelConfig.apiKey) {
+        console.debug(`Skipping fallback ${modelId}: ${provider.apiKeyEnv} is not set`);
+        continue;
+      }
+      candidates.push({
+        id: modelConfig.provider,
+        model: modelConfig.model,
+        authType: ENGINE_AUTH_TYPES[modelConfig.engine as ProviderEngine] ?? AuthType.USE_OPENAI,
+        baseUrl: modelConfig.baseUrl,
+        apiKey: modelConfig.apiKey,
+      });
+    } catch (error) {
+      console.debug(`Skipping fallback ${modelId}:`, error);
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Build the core fallback settings from `model.fallback` in settings.json
+ */
+export function buildProviderFallback(
+  settings: FallbackSettings | undefined,
+  primaryModel: string,
+): ProviderFallbackSettings | undefined {
+  if (!settings?.chain || settings.chain.length === 0) {
+    return undefined;
+  }
+
+  const candidates = resolveFallbackChain(settings.chain);
+  if (candidates.length === 0) {
+    return undefined;
+  }
+
+  return {
+    // An OpenRouter key routes the primary through OpenRouter regardless of model
+    primaryId: process.env['OPENROUTER_API_KEY']
+      ? 'openrouter'
+      : parseModelId(primaryModel).provider,
+    candidates,
+    failureThreshold: settings.failureThreshold,
+    cooldownMs: settings.cooldownMs,
+  };
+}
@@ -15,3 +15,4 @@ export { GroqProvider, getGroqProvider } from './groq.js';
 // Registry and parser
 export { ProviderRegistry, getProviderRegistry } from './registry.js';
 export { parseModelId, getModelConfig, formatModelId, isValidModelId } from './model-parser.js';
+export { resolveFallbackChain, buildProviderFallback } from './fallback.js';
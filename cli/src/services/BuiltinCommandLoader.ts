@@ -22,13 +22,18 @@ import { corgiCommand } from '../ui/commands/corgiCommand.js';
 import { docsCommand } from '../ui/commands/docsCommand.js';
 import { directoryCommand } from '../ui/commands/directoryCommand.js';
 import { editorCommand } from '../ui/commands/editorCommand.js';
+import { exportCommand } from '../ui/commands/exportCommand.js';
 import { extensionsCommand } from '../ui/commands/extensionsCommand.js';
 import { helpCommand } from '../ui/commands/helpCommand.js';
+import { historyCommand } from '../ui/commands/historyCommand.js';
 import { ideCommand } from '../ui/commands/ideCommand.js';
 import { initCommand } from '../ui/commands/initCommand.js';
+import { jobsCommand } from '../ui/commands/jobsCommand.js';
 import { mcpCommand } from '../ui/commands/mcpCommand.js';
 import { memoryCommand } from '../ui/commands/memoryCommand.js';
 import { modelCommand } from '../ui/commands/modelCommand.js';
+import { permissionsCommand } from '../ui/commands/permissionsCommand.js';
+import { planCommand } from '../ui/commands/planCommand.js';
 import { privacyCommand } from '../ui/commands/privacyCommand.js';
 import { quitCommand, quitConfirmCommand } from '../ui/commands/quitCommand.js';
 import { restoreCommand } from '../ui/commands/restoreCommand.js';
@@ -97,16 +102,19 @@ export class BuiltinCommandLoader implements ICommandLoader {
       docsCommand,
       directoryCommand,
       editorCommand,
+      exportCommand,
       extensionsCommand,
       filesCommand,
       findCommand,
       helpCommand,
+      historyCommand,
       ideCommand(this.config),
       imageCommand,
       audioCommand,
       pdfCommand,
       byokCommand,
       initCommand,
+      jobsCommand,
       mcpCommand,
       memoryCommand,
       modelCommand,
@@ -114,6 +122,8 @@ export class BuiltinCommandLoader implements ICommandLoader {
       recentModelsCommand,
       compareModelsCommand,
       openrouterCommand,
+      permissionsCommand,
+      planCommand,
       privacyCommand,
       quitCommand,
       quitConfirmCommand,
@@ -0,0 +1,399 @@
+/**
+ * PlanRunner - Executes saved project plans step by step
+ * Walks the execution steps in dependency order, runs commands directly and
+ * hands everything else to a headless agent run, then evaluates the plan's
+ * validation checks. Progress is written back to the plan JSON so a failed
+ * run can be resumed.
+ */
+
+import { spawn } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { JsonOutput } from 'recoder-code-core';
+import type {
+  ExecutionStep,
+  ExecutionStepStatus,
+  PlanningService,
+  ProjectPlan,
+  ValidationCheck,
+} from './PlanningService.js';
+
+/** Longest a step or validation command may run */
+const COMMAND_TIMEOUT_MS = 10 * 60 * 1000;
+/** Output kept from a failed command for the error message */
+const MAX_ERROR_OUTPUT_CHARS = 2000;
+
+export interface StepOutcome {
+  success: boolean;
+  error?: string;
+}
+
+export interface AgentRunOptions {
+  cwd: string;
+  model?: string;
+  /** Let the agent run shell commands and other tools that need approval */
+  yolo?: boolean;
+  permissionPolicy?: string;
+  signal?: AbortSignal;
+}
+
+export type PlanRunEvent =
+  | { type: 'start'; plan: ProjectPlan; steps: ExecutionStep[] }
+  | { type: 'step_skipped'; step: ExecutionStep; index: number; total: number }
+  | { type: 'step_start'; step: ExecutionStep; index: number; total: number }
+  | { type: 'step_end'; step: ExecutionStep; index: number; total: number; durationMs: number }
+  | { type: 'validation_start'; checks: ValidationCheck[] }
+  | { type: 'validation_end'; check: ValidationCheck };
+
+export interface PlanRunOptions {
+  /** Directory the plan is built in */
+  targetDir: string;
+  /** Run every step again instead of resuming after the completed ones */
+  restart?: boolean;
+  agent?: Omit<AgentRunOptions, 'cwd' | 'signal'>;
+  signal?: AbortSignal;
+  onEvent?: (event: PlanRunEvent) => void;
+  /** Runs a step that needs the agent; defaults to a headless CLI run */
+  runAgent?: (prompt: string, options: AgentRunOptions) => Promise<StepOutcome>;
+}
+
+export interface PlanRunResult {
+  status: 'completed' | 'failed' | 'cancelled';
+  completedSteps: number;
+  totalSteps: number;
+  failedStep?: ExecutionStep;
+  failedChecks: ValidationCheck[];
+}
+
+/**
+ * Orders steps so that each comes after the steps it depends on, keeping
+ * the plan's order otherwise. Dependencies on unknown steps are ignored.
+ */
+export function orderExecutionSteps(steps: ExecutionStep[]): ExecutionStep[] {
+  const byNumber = new Map(steps.map((s) => [s.step, s]));
+  const ordered: ExecutionStep[] = [];
+  const done = new Set<number>();
+  const visiting = new Set<number>();
+
+  const visit = (step: ExecutionStep, chain: number[]) => {
+    if (done.has(step.step)) return;
+    if (visiting.has(step.step)) {
+      throw new Error(`Plan steps have a circular dependency: ${[...chain, step.step].join(' -> ')}`);
+    }
+    visiting.add(step.step);
+    for (const dep of step.dependencies || []) {
+      const depStep = byNumber.get(dep);
+      if (depStep) visit(depStep, [...chain, step.step]);
+    }
+    visiting.delete(step.step);
+    done.add(step.step);
+    ordered.push(step);
+  };
+
+  [...steps].sort((a, b) => a.step - b.step).forEach((s) => visit(s, []));
+  return ordered;
+}
+
+const STATUS_ICONS: Record<ExecutionStepStatus, string> = {
+  pending: '⬜',
+  'in-progress': '🔄',
+  completed: '✅',
+  failed: '❌',
+};
+
+/** One progress line for a step, e.g. `✅ 3. Create package.json`, followed by its error */
+export function formatStepLine(step: ExecutionStep, suffix = ''): string {
+  const icon = STATUS_ICONS[step.status || 'pending'];
+  const error = step.status === 'failed' && step.error ? `\n     ${step.error.split('\n').join('\n     ')}` : '';
+  return `${icon} ${step.step}. ${step.description}${suffix}${error}`;
+}
+
+/** One progress line for a validation check */
+export function formatCheckLine(check: ValidationCheck): string {
+  const icon = check.status === 'passed' ? '✅' : check.status === 'failed' ? '❌' : '⬜';
+  return `${icon} ${check.name}${check.status === 'failed' && check.error ? `: ${check.error.split('\n')[0]}` : ''}`;
+}
+
+function tail(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.length > MAX_ERROR_OUTPUT_CHARS ? `...${trimmed.slice(-MAX_ERROR_OUTPUT_CHARS)}` : trimmed;
+}
+
+/**
+ * Runs a shell command in `cwd`, failing on a non-zero exit, timeout or abort.
+ */
+export function runCommand(command: string, cwd: string, signal?: AbortSignal): Promise<StepOutcome & { output: string }> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve({ success: false, error: 'Cancelled', output: '' });
+      return;
+    }
+    const child = spawn(command, { cwd, shell: true, stdio: ['ignore', 'pipe', 'pipe'] });
+    let output = '';
+    const append = (data: Buffer) => {
+      output = (output + data.toString()).slice(-MAX_ERROR_OUTPUT_CHARS * 4);
+    };
+    child.stdout.on('data', append);
+    child.stderr.on('data', append);
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGTERM');
+    }, COMMAND_TIMEOUT_MS);
+    const onAbort = () => child.kill('SIGTERM');
+    signal?.addEventListener('abort', onAbort);
+
+    const finish = (result: StepOutcome) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      resolve({ ...result, output });
+    };
+    child.on('error', (err) => finish({ success: false, error: err.message }));
+    child.on('close', (code) => {
+      if (signal?.aborted) {
+        finish({ success: false, error: 'Cancelled' });
+      } else if (timedOut) {
+        finish({ success: false, error: `\`${command}\` timed out after ${COMMAND_TIMEOUT_MS / 60000} minutes` });
+      } else if (code !== 0) {
+        finish({ success: false, error: `\`${command}\` exited with code ${code}${output.trim() ? `\n${tail(output)}` : ''}` });
+      } else {
+        finish({ success: true });
+      }
+    });
+  });
+}
+
+/**
+ * Runs the agent on a prompt as a separate non-interactive CLI process with
+ * JSON output, so each step gets a fresh context.
+ */
+export function runAgentHeadless(prompt: string, options: AgentRunOptions): Promise<StepOutcome> {
+  const args = [...process.execArgv, process.argv[1], '--prompt', prompt, '--output-format', 'json'];
+  if (options.model) args.push('--model', options.model);
+  args.push('--approval-mode', options.yolo ? 'yolo' : 'auto-edit');
+  if (options.permissionPolicy) args.push('--permission-policy', options.permissionPolicy);
+
+  return new Promise((resolve) => {
+    const child = spawn(process.execPath, args, {
+      cwd: options.cwd,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      env: { ...process.env, GEMINI_CLI_NO_RELAUNCH: 'true' },
+    });
+    let stdout = '';
+    let stderr = '';
+    child.stdout.on('data', (data: Buffer) => (stdout += data.toString()));
+    child.stderr.on('data', (data: Buffer) => (stderr = (stderr + data.toString()).slice(-MAX_ERROR_OUTPUT_CHARS)));
+    const onAbort = () => child.kill('SIGTERM');
+    options.signal?.addEventListener('abort', onAbort);
+
+    child.on('error', (err) => resolve({ success: false, error: err.message }));
+    child.on('close', (code) => {
+      options.signal?.removeEventListener('abort', onAbort);
+      if (options.signal?.aborted) {
+        resolve({ success: false, error: 'Cancelled' });
+        return;
+      }
+      let result: JsonOutput | undefined;
+      try {
+        result = JSON.parse(stdout) as JsonOutput;
+      } catch {
+        // Fall through to the exit code and stderr
+      }
+      if (result && result.exitReason === 'completed' && code === 0) {
+        resolve({ success: true });
+      } else {
+        const reason = result?.error?.message || (result ? `Agent stopped: ${result.exitReason}` : tail(stderr) || `Agent exited with code ${code}`);
+        resolve({ success: false, error: reason });
+      }
+    });
+  });
+}
+
+function buildStepPrompt(plan: ProjectPlan, step: ExecutionStep): string {
+  let prompt = `${plan.aiInstructions.systemPrompt}\n\n`;
+  prompt += `You are carrying out one step of the project plan "${plan.name}". Other steps are handled separately, so complete only this one and do not ask questions.\n\n`;
+  prompt += `Step ${step.step} (${step.action}): ${step.description}\n`;
+  prompt += `Target: ${step.target}\n`;
+  if (step.content) {
+    prompt += step.action === 'create_file'
+      ? `\nUse this as the starting point for the file, replacing any placeholders with a complete implementation:\n\`\`\`\n${step.content}\n\`\`\`\n`
+      : `\nInstructions:\n${step.content}\n`;
+  }
+  if (step.validation) {
+    prompt += `\nThe step is done when: ${step.validation}\n`;
+  }
+  return prompt;
+}
+
+/**
+ * Executes a plan, saving step, task and phase status after every step.
+ */
+export class PlanRunner {
+  constructor(
+    private readonly planningService: PlanningService,
+    private readonly options: PlanRunOptions,
+  ) {}
+
+  async run(plan: ProjectPlan): Promise<PlanRunResult> {
+    const { targetDir, signal } = this.options;
+    // Saving regenerates the step objects, so steps are looked up by number
+    const order = orderExecutionSteps(plan.aiInstructions.executionOrder).map((s) => s.step);
+    const currentStep = (stepNumber: number) =>
+      plan.aiInstructions.executionOrder.find((s) => s.step === stepNumber)!;
+
+    if (this.options.restart) {
+      for (const step of plan.aiInstructions.executionOrder) {
+        this.setStepStatus(plan, step, 'pending');
+      }
+      for (const check of plan.aiInstructions.validationChecks) {
+        delete check.status;
+        delete check.error;
+        delete check.checkedAt;
+      }
+    }
+    plan.status = 'active';
+    this.planningService.savePlan(plan);
+    this.emit({ type: 'start', plan, steps: order.map(currentStep) });
+
+    const total = order.length;
+    let completedSteps = 0;
+    for (const [index, stepNumber] of order.entries()) {
+      if (currentStep(stepNumber).status === 'completed') {
+        completedSteps++;
+        this.emit({ type: 'step_skipped', step: currentStep(stepNumber), index, total });
+        continue;
+      }
+
+      this.setStepStatus(plan, currentStep(stepNumber), 'in-progress');
+      this.planningService.savePlan(plan);
+      this.emit({ type: 'step_start', step: currentStep(stepNumber), index, total });
+
+      const startTime = Date.now();
+      const outcome = await this.executeStep(plan, currentStep(stepNumber));
+
+      if (signal?.aborted) {
+        this.setStepStatus(plan, currentStep(stepNumber), 'pending');
+        this.planningService.savePlan(plan);
+        return { status: 'cancelled', completedSteps, totalSteps: total, failedChecks: [] };
+      }
+
+      this.setStepStatus(plan, currentStep(stepNumber), outcome.success ? 'completed' : 'failed', outcome.error);
+      this.planningService.savePlan(plan);
+      const step = currentStep(stepNumber);
+      this.emit({ type: 'step_end', step, index, total, durationMs: Date.now() - startTime });
+
+      if (!outcome.success) {
+        return { status: 'failed', completedSteps, totalSteps: total, failedStep: step, failedChecks: [] };
+      }
+      completedSteps++;
+    }
+
+    const checks = plan.aiInstructions.validationChecks;
+    const failedChecks: ValidationCheck[] = [];
+    if (checks.length > 0) {
+      this.emit({ type: 'validation_start', checks });
+      for (const check of checks) {
+        const outcome = await this.evaluateCheck(check, targetDir);
+        if (signal?.aborted) {
+          return { status: 'cancelled', completedSteps, totalSteps: total, failedChecks };
+        }
+        check.status = outcome.success ? 'passed' : 'failed';
+        check.error = outcome.error;
+        check.checkedAt = new Date().toISOString();
+        if (!outcome.success) failedChecks.push(check);
+        this.emit({ type: 'validation_end', check });
+      }
+    }
+
+    plan.status = failedChecks.length === 0 ? 'completed' : 'active';
+    this.planningService.savePlan(plan);
+    return {
+      status: failedChecks.length === 0 ? 'completed' : 'failed',
+      completedSteps,
+      totalSteps: total,
+      failedChecks,
+    };
+  }
+
+  private async executeStep(plan: ProjectPlan, step: ExecutionStep): Promise<StepOutcome> {
+    const { targetDir, signal } = this.options;
+    const targetPath = path.resolve(targetDir, step.target);
+
+    if (step.action === 'create_directory') {
+      try {
+        fs.mkdirSync(targetPath, { recursive: true });
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+
+    const command = step.command || (step.action === 'install_deps' ? 'npm install' : undefined);
+    if (command) {
+      // Command steps target the directory to run in
+      const cwd = fs.existsSync(targetPath) && fs.statSync(targetPath).isDirectory() ? targetPath : targetDir;
+      return runCommand(command, cwd, signal);
+    }
+
+    const runAgent = this.options.runAgent || runAgentHeadless;
+    const outcome = await runAgent(buildStepPrompt(plan, step), { ...this.options.agent, cwd: targetDir, signal });
+    if (outcome.success && step.action === 'create_file' && !fs.existsSync(targetPath)) {
+      return { success: false, error: `The agent finished but ${step.target} was not created` };
+    }
+    return outcome;
+  }
+
+  private async evaluateCheck(check: ValidationCheck, targetDir: string): Promise<StepOutcome> {
+    const targetPath = path.resolve(targetDir, check.target);
+    switch (check.type) {
+      case 'file_exists':
+        return fs.existsSync(targetPath) ? { success: true } : { success: false, error: `${check.target} does not exist` };
+      case 'contains_text': {
+        if (!fs.existsSync(targetPath)) {
+          return { success: false, error: `${check.target} does not exist` };
+        }
+        const content = fs.readFileSync(targetPath, 'utf-8');
+        return content.includes(check.expected || '')
+          ? { success: true }
+          : { success: false, error: `${check.target} does not contain "${check.expected}"` };
+      }
+      case 'command_succeeds':
+      case 'builds':
+      case 'tests_pass': {
+        const defaults = { command_succeeds: check.target, builds: 'npm run build', tests_pass: 'npm test' };
+        const command = check.target && check.target !== '.' ? check.target : defaults[check.type];
+        const result = await runCommand(command, targetDir, this.options.signal);
+        if (result.success && check.expected && !result.output.includes(check.expected)) {
+          return { success: false, error: `Output of \`${command}\` does not contain "${check.expected}"` };
+        }
+        return result;
+      }
+      default:
+        return { success: false, error: `Unknown validation type: ${(check as ValidationCheck).type}` };
+    }
+  }
+
+  /** Updates a step and the task and phase it belongs to */
+  private setStepStatus(plan: ProjectPlan, step: ExecutionStep, status: ExecutionStepStatus, error?: string): void {
+    step.status = status;
+    step.error = error;
+    step.completedAt = status === 'completed' ? new Date().toISOString() : undefined;
+
+    if (!step.taskId) return;
+    for (const phase of plan.phases) {
+      const task = phase.tasks.find((t) => t.id === step.taskId);
+      if (!task) continue;
+      task.status = status === 'completed' ? 'completed' : status === 'pending' ? 'pending' : 'in-progress';
+      phase.status = phase.tasks.every((t) => t.status === 'completed')
+        ? 'completed'
+        : phase.tasks.some((t) => t.status !== 'pending')
+          ? 'in-progress'
+          : 'pending';
+    }
+  }
+
+  private emit(event: PlanRunEvent): void {
+    this.options.onEvent?.(event);
+  }
+}
@@ -80,6 +80,8 @@ export interface AIExecutionPlan {
   validationChecks: ValidationCheck[];
 }
 
+export type ExecutionStepStatus = 'pending' | 'in-progress' | 'completed' | 'failed';
+
 export interface ExecutionStep {
   step: number;
   action: 'create_file' | 'create_directory' | 'run_command' | 'install_deps' | 'configure' | 'implement' | 'test';
@@ -89,6 +91,12 @@ export interface ExecutionStep {
   command?: string;
   dependencies?: number[]; // step numbers this depends on
   validation?: string;
+  taskId?: string; // phase task this step implements
+
+  // Run state, updated by `recoder plan run`
+  status?: ExecutionStepStatus;
+  error?: string;
+  completedAt?: string;
 }
 
 export interface CodeTemplate {
@@ -104,6 +112,11 @@ export interface ValidationCheck {
   type: 'file_exists' | 'command_succeeds' | 'contains_text' | 'builds' | 'tests_pass';
   target: string;
   expected?: string;
+
+  // Result of the last `recoder plan run`
+  status?: 'passed' | 'failed';
+  error?: string;
+  checkedAt?: string;
 }
 
 export interface ArchitectureComponent {
@@ -145,6 +158,7 @@ export interface ImplementationPhase {
   tasks: Task[];
   deliverables: string[];
   estimatedTime?: string;
+  status?: 'pending' | 'in-progress' | 'completed';
 }
 
 export interface Task {
@@ -317,6 +331,7 @@ export class PlanningService {
           target: task.files?.join(', ') || 'various',
           description: `${task.title}: ${task.description}`,
           content: task.aiPrompt || task.description,
+          taskId: task.id,
         });
       }
     }
@@ -388,8 +403,16 @@ export class PlanningService {
 
     plan.updatedAt = new Date().toISOString();
     
-    // Generate AI execution steps
-    plan.aiInstructions.executionOrder = this.generateAIExecutionSteps(plan);
+    // Generate AI execution steps, keeping the run state of unchanged steps
+    const previousSteps = plan.aiInstructions.executionOrder || [];
+    plan.aiInstructions.executionOrder = this.generateAIExecutionSteps(plan).map((step) => {
+      const previous = previousSteps.find(
+        (p) => p.step === step.step && p.action === step.action && p.target === step.target,
+      );
+      return previous?.status
+        ? { ...step, status: previous.status, error: previous.error, completedAt: previous.completedAt }
+        : step;
+    });
     
     fs.writeFileSync(
       path.join(this.plansDir, `${plan.id}.json`),
@@ -455,6 +478,9 @@ export class PlanningService {
       md += `### Step ${step.step}: ${step.description}\n\n`;
       md += `**Action:** \`${step.action}\`\n`;
       md += `**Target:** \`${step.target}\`\n`;
+      if (step.status) {
+        md += `**Status:** ${step.status}${step.error ? ` (${step.error})` : ''}\n`;
+      }
       
       if (step.command) {
         md += `**Command:** \`${step.command}\`\n`;
@@ -9,6 +9,8 @@ import type {
   AuthType,
   GeminiClient,
   MCPServerConfig,
+  McpElicitationHandler,
+  McpSamplingHandler,
   SandboxConfig,
   ToolRegistry,
 } from 'recoder-code-core';
@@ -100,6 +102,8 @@ interface MockServerConfig {
   getCheckpointingEnabled: Mock<() => boolean>;
   getAllGeminiMdFilenames: Mock<() => string[]>;
   setFlashFallbackHandler: Mock<(handler: (fallback: boolean) => void) => void>;
+  setMcpSamplingHandler: Mock<(handler: McpSamplingHandler) => void>;
+  setMcpElicitationHandler: Mock<(handler: McpElicitationHandler) => void>;
   getSessionId: Mock<() => string>;
   getUserTier: Mock<() => Promise<string | undefined>>;
   getIdeMode: Mock<() => boolean>;
@@ -123,6 +127,12 @@ interface MockServerConfig {
   >;
   isTrustedFolder: Mock<() => boolean>;
   getScreenReader: Mock<() => boolean>;
+  getBackgroundJobService: Mock<
+    () => {
+      getRunningCount: Mock<() => number>;
+      subscribe: Mock<(listener: () => void) => () => void>;
+    }
+  >;
 }
 
 // Mock recoder-code-core and its Config class
@@ -190,6 +200,8 @@ vi.mock('recoder-code-core', async (importOriginal) => {
         getCheckpointingEnabled: vi.fn(() => opts.checkpointing ?? true),
         getAllGeminiMdFilenames: vi.fn(() => ['RECODER.md']),
         setFlashFallbackHandler: vi.fn(),
+        setMcpSamplingHandler: vi.fn(),
+        setMcpElicitationHandler: vi.fn(),
         getSessionId: vi.fn(() => 'test-session-id'),
         getUserTier: vi.fn().mockResolvedValue(undefined),
         getIdeMode: vi.fn(() => true),
@@ -205,6 +217,10 @@ vi.mock('recoder-code-core', async (importOriginal) => {
         })),
         isTrustedFolder: vi.fn(() => true),
         getScreenReader: vi.fn(() => false),
+        getBackgroundJobService: vi.fn(() => ({
+          getRunningCount: vi.fn(() => 0),
+          subscribe: vi.fn(() => vi.fn()),
+        })),
       };
     });
 
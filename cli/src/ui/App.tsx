@@ -27,10 +27,13 @@ import { useLoadingIndicator } from './hooks/useLoadingIndicator.js';
 import { useThemeCommand } from './hooks/useThemeCommand.js';
 import { useAuthCommand } from './hooks/useAuthCommand.js';
 import { useQwenAuth } from './hooks/useQwenAuth.js';
+import { useProviderFallback } from './hooks/useProviderFallback.js';
+import { useMcpClientRequests } from './hooks/useMcpClientRequests.js';
 import { useFolderTrust } from './hooks/useFolderTrust.js';
 import { useEditorSettings } from './hooks/useEditorSettings.js';
 import { useQuitConfirmation } from './hooks/useQuitConfirmation.js';
 import { useWelcomeBack } from './hooks/useWelcomeBack.js';
+import { useSessionResume } from './hooks/useSessionResume.js';
 import { useDialogClose } from './hooks/useDialogClose.js';
 import { useSlashCommandProcessor } from './hooks/slashCommandProcessor.js';
 import { useSubagentCreateDialog } from './hooks/useSubagentCreateDialog.js';
@@ -51,6 +54,8 @@ import { QwenOAuthProgress } from './components/QwenOAuthProgress.js';
 import { EditorSettingsDialog } from './components/EditorSettingsDialog.js';
 import { FolderTrustDialog } from './components/FolderTrustDialog.js';
 import { ShellConfirmationDialog } from './components/ShellConfirmationDialog.js';
+import { McpSamplingDialog } from './components/McpSamplingDialog.js';
+import { McpElicitationDialog } from './components/McpElicitationDialog.js';
 import { QuitConfirmationDialog } from './components/QuitConfirmationDialog.js';
 import { RadioButtonSelect } from './components/shared/RadioButtonSelect.js';
 import { ModelSelectionDialog } from './components/ModelSelectionDialog.js';
@@ -104,6 +109,7 @@ import {
   useSessionStats,
 } from './contexts/SessionContext.js';
 import { useGitBranchName } from './hooks/useGitBranchName.js';
+import { useBackgroundJobCount } from './hooks/useBackgroundJobCount.js';
 import { useFocus } from './hooks/useFocus.js';
 import { useBracketedPaste } from './hooks/useBracketedPaste.js';
 import { useTextBuffer } from './components/shared/text-buffer.js';
@@ -123,12 +129,15 @@ import { ShowMoreLines } from './components/ShowMoreLines.js';
 import { PrivacyNotice } from './privacy/PrivacyNotice.js';
 import { useSettingsCommand } from './hooks/useSettingsCommand.js';
 import { SettingsDialog } from './components/SettingsDialog.js';
+import { usePermissionsDialog } from './hooks/usePermissionsDialog.js';
+import { PermissionsDialog } from './components/PermissionsDialog.js';
 import { setUpdateHandler } from '../utils/handleAutoUpdate.js';
 import { appEvents, AppEvent } from '../utils/events.js';
 import { isNarrowWidth } from './utils/isNarrowWidth.js';
 import { useWorkspaceMigration } from './hooks/useWorkspaceMigration.js';
 import { WorkspaceMigrationDialog } from './components/WorkspaceMigrationDialog.js';
 import { WelcomeBackDialog } from './components/WelcomeBackDialog.js';
+import { SessionPickerDialog } from './components/SessionPickerDialog.js';
 
 // Maximum number of queued messages to display in UI to prevent performance issues
 const MAX_DISPLAYED_QUEUED_MESSAGES = 3;
@@ -138,6 +147,8 @@ interface AppProps {
   settings: LoadedSettings;
   startupWarnings?: string[];
   version: string;
+  /** Session to resume: an ID, 'latest', or '' to pick from a list */
+  resumeSession?: string;
 }
 
 function isToolExecuting(pendingHistoryItems: HistoryItemWithoutId[]) {
@@ -172,13 +183,22 @@ export const AppWrapper = (props: AppProps) => {
   );
 };
 
-const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
+const App = ({
+  config,
+  settings,
+  startupWarnings = [],
+  version,
+  resumeSession,
+}: AppProps) => {
   const isFocused = useFocus();
   useBracketedPaste();
   const [updateInfo, setUpdateInfo] = useState<UpdateObject | null>(null);
   const { stdout } = useStdout();
   const nightly = version.includes('nightly');
   const { history, addItem, clearItems, loadHistory } = useHistory();
+  useProviderFallback(addItem);
+  const { mcpSamplingRequest, mcpElicitationRequest } =
+    useMcpClientRequests(config);
 
   const [idePromptAnswered, setIdePromptAnswered] = useState(false);
   const currentIDE = config.getIdeClient().getCurrentIde();
@@ -329,6 +349,11 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
 
   const { isSettingsDialogOpen, openSettingsDialog, closeSettingsDialog } =
     useSettingsCommand();
+  const {
+    isPermissionsDialogOpen,
+    openPermissionsDialog,
+    closePermissionsDialog,
+  } = usePermissionsDialog();
 
   const {
     isSubagentCreateDialogOpen,
@@ -726,6 +751,7 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
     setQuittingMessages,
     openPrivacyNotice,
     openSettingsDialog,
+    openPermissionsDialog,
     handleModelSelectionOpen,
     openSubagentCreateDialog,
     openAgentsManagerDialog,
@@ -1060,13 +1086,6 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
     fetchUserMessages();
   }, [history, logger]);
 
-  const isInputActive =
-    (streamingState === StreamingState.Idle ||
-      streamingState === StreamingState.Responding) &&
-    !initError &&
-    !isProcessing &&
-    !showWelcomeBackDialog;
-
   const handleClearScreen = useCallback(() => {
     clearItems();
     clearConsoleMessagesState();
@@ -1074,6 +1093,28 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
     refreshStatic();
   }, [clearItems, clearConsoleMessagesState, refreshStatic]);
 
+  const {
+    isSessionPickerOpen,
+    sessions: resumableSessions,
+    isResumingSession,
+    handleSessionSelect,
+  } = useSessionResume(
+    config,
+    resumeSession,
+    isAuthenticating,
+    addItem,
+    loadHistory,
+    handleClearScreen,
+  );
+
+  const isInputActive =
+    (streamingState === StreamingState.Idle ||
+      streamingState === StreamingState.Responding) &&
+    !initError &&
+    !isProcessing &&
+    !showWelcomeBackDialog &&
+    !isSessionPickerOpen;
+
   const mainControlsRef = useRef<DOMElement>(null);
   const pendingHistoryItemRef = useRef<DOMElement>(null);
 
@@ -1123,6 +1164,7 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
   }, [consoleMessages, config]);
 
   const branchName = useGitBranchName(config.getTargetDir());
+  const backgroundJobCount = useBackgroundJobCount(config);
 
   const contextFileNames = useMemo(() => {
     const fromSettings = settings.merged.context?.fileName;
@@ -1149,6 +1191,7 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
       !showPrivacyNotice &&
       !showWelcomeBackDialog &&
       welcomeBackChoice !== 'restart' &&
+      !isResumingSession &&
       geminiClient?.isInitialized?.()
     ) {
       submitQuery(initialPrompt);
@@ -1165,6 +1208,7 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
     showPrivacyNotice,
     showWelcomeBackDialog,
     welcomeBackChoice,
+    isResumingSession,
     geminiClient,
     isModelSelectionDialogOpen,
     isVisionSwitchDialogOpen,
@@ -1275,13 +1319,21 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
               ))}
             </Box>
           )}
-          {showWelcomeBackDialog && welcomeBackInfo?.hasHistory && (
-            <WelcomeBackDialog
-              welcomeBackInfo={welcomeBackInfo}
-              onSelect={handleWelcomeBackSelection}
-              onClose={handleWelcomeBackClose}
+          {isSessionPickerOpen && (
+            <SessionPickerDialog
+              sessions={resumableSessions}
+              onSelect={handleSessionSelect}
             />
           )}
+          {showWelcomeBackDialog &&
+            !isSessionPickerOpen &&
+            welcomeBackInfo?.hasHistory && (
+              <WelcomeBackDialog
+                welcomeBackInfo={welcomeBackInfo}
+                onSelect={handleWelcomeBackSelection}
+                onClose={handleWelcomeBackClose}
+              />
+            )}
           {showWorkspaceMigrationDialog ? (
             <WorkspaceMigrationDialog
               workspaceExtensions={workspaceExtensions}
@@ -1311,6 +1363,13 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
             />
           ) : shellConfirmationRequest ? (
             <ShellConfirmationDialog request={shellConfirmationRequest} />
+          ) : mcpSamplingRequest ? (
+            <McpSamplingDialog request={mcpSamplingRequest} />
+          ) : mcpElicitationRequest ? (
+            <McpElicitationDialog
+              key={mcpElicitationRequest.id}
+              request={mcpElicitationRequest}
+            />
           ) : confirmationRequest ? (
             <Box flexDirection="column">
               {confirmationRequest.prompt}
@@ -1354,6 +1413,14 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
                 onRestartRequest={() => process.exit(0)}
               />
             </Box>
+          ) : isPermissionsDialogOpen ? (
+            <Box flexDirection="column">
+              <PermissionsDialog
+                settings={settings}
+                config={config}
+                onClose={closePermissionsDialog}
+              />
+            </Box>
           ) : isSubagentCreateDialogOpen ? (
             <Box flexDirection="column">
               <AgentCreationWizard
@@ -1631,6 +1698,7 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
               nightly={nightly}
               vimMode={vimModeEnabled ? vimMode : undefined}
               isTrustedFolder={isTrustedFolderState}
+              backgroundJobCount={backgroundJobCount}
             />
           )}
         </Box>
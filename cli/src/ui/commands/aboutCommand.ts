@@ -21,6 +21,8 @@ function getAuthTypeDisplayName(authType: string): string {
       return 'recoder.xyz';
     case AuthType.USE_OPENAI:
       return 'OpenRouter';
+    case AuthType.USE_ANTHROPIC:
+      return 'Anthropic';
     case AuthType.LOGIN_WITH_GOOGLE:
       return 'Google OAuth';
     case AuthType.USE_GEMINI:
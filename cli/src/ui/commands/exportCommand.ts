@@ -0,0 +1,119 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import path from 'node:path';
+import {
+  getErrorMessage,
+  getSessionRecord,
+  type ConversationRecord,
+} from 'recoder-code-core';
+import type { MessageActionReturn, SlashCommand } from './types.js';
+import { CommandKind } from './types.js';
+import {
+  exportSession,
+  formatFromFileName,
+  getDefaultExportFileName,
+  parseExportFormat,
+  type SessionExportFormat,
+} from '../../utils/sessionExport.js';
+
+const FORMATS = ['md', 'html', 'jsonl'];
+const USAGE =
+  'Usage: /export [md|html|jsonl] [file] [--session <id>]. Exports the current session unless --session is given.';
+
+export const exportCommand: SlashCommand = {
+  name: 'export',
+  description:
+    'export the session to Markdown, HTML or JSONL. Usage: /export [md|html|jsonl] [file] [--session <id>]',
+  kind: CommandKind.BUILT_IN,
+  action: async (context, args): Promise<MessageActionReturn> => {
+    const config = context.services.config;
+    if (!config) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: 'Config not loaded.',
+      };
+    }
+
+    const tokens = args.trim().split(/\s+/).filter(Boolean);
+    let format: SessionExportFormat | undefined;
+    let sessionId: string | undefined;
+    let outputFile: string | undefined;
+    for (let i = 0; i < tokens.length; i++) {
+      if (tokens[i] === '--session') {
+        sessionId = tokens[++i];
+        if (!sessionId) {
+          return { type: 'message', messageType: 'error', content: USAGE };
+        }
+      } else if (!format && !outputFile && parseExportFormat(tokens[i])) {
+        format = parseExportFormat(tokens[i]);
+      } else if (!outputFile) {
+        outputFile = tokens[i];
+      } else {
+        return { type: 'message', messageType: 'error', content: USAGE };
+      }
+    }
+
+    let conversation: ConversationRecord;
+    try {
+      if (sessionId) {
+        const session = getSessionRecord(sessionId, config.getProjectRoot());
+        if (!session) {
+          return {
+            type: 'message',
+            messageType: 'error',
+            content: `No recorded session found matching "${sessionId}".`,
+          };
+        }
+        conversation = session.conversation;
+      } else {
+        const filePath = config
+          .getChatRecordingService()
+          ?.getConversationFilePath();
+        if (!filePath || !fs.existsSync(filePath)) {
+          return {
+            type: 'message',
+            messageType: 'error',
+            content:
+              'This session is not being recorded. Enable general.chatRecording or pass --session <id>.',
+          };
+        }
+        conversation = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      }
+
+      if (conversation.messages.length === 0) {
+        return {
+          type: 'message',
+          messageType: 'info',
+          content: 'Nothing to export yet.',
+        };
+      }
+
+      format ??= (outputFile && formatFromFileName(outputFile)) || 'markdown';
+      const target = path.resolve(
+        config.getProjectRoot(),
+        outputFile ?? getDefaultExportFileName(conversation, format),
+      );
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, exportSession(conversation, format), 'utf8');
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: `Exported session ${conversation.sessionId.slice(0, 8)} (${conversation.messages.length} messages) to ${target}`,
+      };
+    } catch (error) {
+      return {
+        type: 'message',
+        messageType: 'error',
+        content: `Failed to export session: ${getErrorMessage(error)}`,
+      };
+    }
+  },
+  completion: async (_context, partialArg) =>
+    FORMATS.filter((format) => format.startsWith(partialArg)),
+};
@@ -0,0 +1,193 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  deleteSessionRecord,
+  findSessions,
+  getErrorMessage,
+  getSessionHistoryStats,
+  getSessionRecord,
+  type SessionHistoryQuery,
+} from 'recoder-code-core';
+import type {
+  CommandContext,
+  MessageActionReturn,
+  SlashCommand,
+} from './types.js';
+import { CommandKind } from './types.js';
+import {
+  formatSessionDetail,
+  formatSessionList,
+  formatSessionStats,
+  parseDateFilter,
+} from '../../utils/sessionHistory.js';
+
+const DEFAULT_LIMIT = 10;
+const VALUE_FLAGS = ['--since', '--until', '--model', '--limit'];
+const FILTER_USAGE =
+  'Filters: --since <date> --until <date> --model <name> --limit <n> --all (every project). Dates: YYYY-MM-DD, today, yesterday, 24h, 7d, 2w.';
+
+interface ParsedHistoryArgs {
+  query: SessionHistoryQuery;
+  allProjects: boolean;
+  /** Positional arguments, e.g. the search text or session ID */
+  rest: string;
+}
+
+function parseHistoryArgs(
+  context: CommandContext,
+  args: string,
+  defaultLimit?: number,
+): ParsedHistoryArgs {
+  const tokens = args.trim().split(/\s+/).filter(Boolean);
+  const positional: string[] = [];
+  let allProjects = false;
+  const flags: Record<string, string> = {};
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token === '--all') {
+      allProjects = true;
+    } else if (VALUE_FLAGS.includes(token)) {
+      const value = tokens[++i];
+      if (value === undefined) {
+        throw new Error(`Missing value for ${token}.`);
+      }
+      flags[token] = value;
+    } else {
+      positional.push(token);
+    }
+  }
+
+  const limit = flags['--limit'] ? parseInt(flags['--limit'], 10) : undefined;
+  if (limit !== undefined && !(limit > 0)) {
+    throw new Error(`Invalid --limit "${flags['--limit']}".`);
+  }
+
+  return {
+    query: {
+      projectRoot: allProjects
+        ? undefined
+        : context.services.config?.getProjectRoot(),
+      since: flags['--since']
+        ? parseDateFilter(flags['--since'], 'start')
+        : undefined,
+      until: flags['--until']
+        ? parseDateFilter(flags['--until'], 'end')
+        : undefined,
+      model: flags['--model'],
+      limit: limit ?? defaultLimit,
+    },
+    allProjects,
+    rest: positional.join(' '),
+  };
+}
+
+function info(content: string): MessageActionReturn {
+  return { type: 'message', messageType: 'info', content };
+}
+
+function error(content: string): MessageActionReturn {
+  return { type: 'message', messageType: 'error', content };
+}
+
+/**
+ * Wraps a subcommand so that bad filters surface as an error message.
+ */
+function withArgs(
+  defaultLimit: number | undefined,
+  action: (
+    parsed: ParsedHistoryArgs,
+    context: CommandContext,
+  ) => MessageActionReturn,
+) {
+  return (context: CommandContext, args: string): MessageActionReturn => {
+    try {
+      return action(parseHistoryArgs(context, args, defaultLimit), context);
+    } catch (e) {
+      return error(getErrorMessage(e));
+    }
+  };
+}
+
+const listSessions = withArgs(DEFAULT_LIMIT, ({ query, allProjects }) =>
+  info(formatSessionList(findSessions(query), allProjects)),
+);
+
+export const historyCommand: SlashCommand = {
+  name: 'history',
+  altNames: ['sessions'],
+  description:
+    'browse past sessions. Usage: /history [list|search|show|stats|delete] [filters]',
+  kind: CommandKind.BUILT_IN,
+  action: listSessions,
+  subCommands: [
+    {
+      name: 'list',
+      description: `List recorded sessions, newest first. ${FILTER_USAGE}`,
+      kind: CommandKind.BUILT_IN,
+      action: listSessions,
+    },
+    {
+      name: 'search',
+      description: `Full-text search prompts, responses and tool calls. Usage: /history search <text> [filters]`,
+      kind: CommandKind.BUILT_IN,
+      action: withArgs(DEFAULT_LIMIT, ({ query, allProjects, rest }) => {
+        if (!rest) {
+          return error('Usage: /history search <text> [filters]');
+        }
+        return info(
+          formatSessionList(findSessions({ ...query, text: rest }), allProjects),
+        );
+      }),
+    },
+    {
+      name: 'show',
+      description: 'Show the transcript of a session. Usage: /history show <id>',
+      kind: CommandKind.BUILT_IN,
+      action: withArgs(undefined, ({ query, rest }) => {
+        if (!rest) {
+          return error('Usage: /history show <id> [--all]');
+        }
+        const session = getSessionRecord(rest, query.projectRoot);
+        if (!session) {
+          return error(`No recorded session found matching "${rest}".`);
+        }
+        return info(formatSessionDetail(session.filePath, session.conversation));
+      }),
+    },
+    {
+      name: 'stats',
+      description: `Show token, cost and tool usage totals. ${FILTER_USAGE}`,
+      kind: CommandKind.BUILT_IN,
+      action: withArgs(undefined, ({ query }) =>
+        info(formatSessionStats(getSessionHistoryStats(findSessions(query)))),
+      ),
+    },
+    {
+      name: 'delete',
+      description: 'Delete a recorded session. Usage: /history delete <id>',
+      kind: CommandKind.BUILT_IN,
+      action: withArgs(undefined, ({ query, rest }, context) => {
+        if (!rest) {
+          return error('Usage: /history delete <id> [--all]');
+        }
+        const session = getSessionRecord(rest, query.projectRoot);
+        if (!session) {
+          return error(`No recorded session found matching "${rest}".`);
+        }
+        const currentSessionId = context.services.config
+          ?.getChatRecordingService()
+          ?.getSessionId();
+        if (session.conversation.sessionId === currentSessionId) {
+          return error('Cannot delete the session that is currently recording.');
+        }
+        deleteSessionRecord(session.conversation.sessionId, query.projectRoot);
+        return info(`Deleted session ${session.conversation.sessionId}.`);
+      }),
+    },
+  ],
+};
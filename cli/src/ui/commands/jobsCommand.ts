@@ -0,0 +1,122 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  describeBackgroundJob,
+  type BackgroundJobService,
+} from 'recoder-code-core';
+import type {
+  CommandContext,
+  MessageActionReturn,
+  SlashCommand,
+} from './types.js';
+import { CommandKind } from './types.js';
+
+/** Output shown by `/jobs output`, from the end of the job's buffer */
+const OUTPUT_TAIL_CHARS = 4000;
+
+function info(content: string): MessageActionReturn {
+  return { type: 'message', messageType: 'info', content };
+}
+
+function error(content: string): MessageActionReturn {
+  return { type: 'message', messageType: 'error', content };
+}
+
+/**
+ * Wraps a subcommand that needs the job service and, optionally, a job ID.
+ */
+function withJobs(
+  usage: string | undefined,
+  action: (
+    service: BackgroundJobService,
+    id: number,
+  ) => MessageActionReturn | Promise<MessageActionReturn>,
+) {
+  return async (
+    context: CommandContext,
+    args: string,
+  ): Promise<MessageActionReturn> => {
+    const service = context.services.config?.getBackgroundJobService();
+    if (!service) {
+      return error('Background jobs are not available.');
+    }
+    if (!usage) {
+      return action(service, 0);
+    }
+    const id = parseInt(args.trim(), 10);
+    if (!(id > 0)) {
+      return error(`Usage: ${usage}`);
+    }
+    if (!service.get(id)) {
+      return error(`No background job with ID ${id}.`);
+    }
+    return action(service, id);
+  };
+}
+
+const listJobs = withJobs(undefined, (service) => {
+  const jobs = service.list();
+  if (jobs.length === 0) {
+    return info(
+      'No background jobs. Jobs are started by shell commands the model runs in the background.',
+    );
+  }
+  return info(
+    `Background jobs:\n${jobs.map((job) => `  ${describeBackgroundJob(job)}`).join('\n')}`,
+  );
+});
+
+export const jobsCommand: SlashCommand = {
+  name: 'jobs',
+  description:
+    'list, inspect and stop background shell jobs. Usage: /jobs [list|output|kill]',
+  kind: CommandKind.BUILT_IN,
+  action: listJobs,
+  subCommands: [
+    {
+      name: 'list',
+      description: 'List the background jobs of this session.',
+      kind: CommandKind.BUILT_IN,
+      action: listJobs,
+    },
+    {
+      name: 'output',
+      description:
+        'Show the latest output of a background job. Usage: /jobs output <id>',
+      kind: CommandKind.BUILT_IN,
+      action: withJobs('/jobs output <id>', (service, id) => {
+        const output = service.peekOutput(id, OUTPUT_TAIL_CHARS)!;
+        const sections = [describeBackgroundJob(service.get(id)!)];
+        if (output.skippedChars > 0) {
+          sections.push(`(showing the last ${OUTPUT_TAIL_CHARS} characters)`);
+        }
+        if (output.stdout) {
+          sections.push(`Stdout:\n${output.stdout.trimEnd()}`);
+        }
+        if (output.stderr) {
+          sections.push(`Stderr:\n${output.stderr.trimEnd()}`);
+        }
+        if (!output.stdout && !output.stderr) {
+          sections.push('No output yet.');
+        }
+        return info(sections.join('\n'));
+      }),
+    },
+    {
+      name: 'kill',
+      description: 'Stop a background job. Usage: /jobs kill <id>',
+      kind: CommandKind.BUILT_IN,
+      action: withJobs('/jobs kill <id>', async (service, id) => {
+        if (service.get(id)?.status !== 'running') {
+          return error(`Job ${id} is not running.`);
+        }
+        const job = (await service.kill(id))!;
+        return info(`Stopped ${describeBackgroundJob(job)}`);
+      }),
+    },
+  ],
+};
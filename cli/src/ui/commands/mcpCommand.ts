@@ -11,7 +11,11 @@ import type {
   MessageActionReturn,
 } from './types.js';
 import { CommandKind } from './types.js';
-import type { DiscoveredMCPPrompt } from 'recoder-code-core';
+import type {
+  DiscoveredMCPPrompt,
+  DiscoveredMCPResource,
+  DiscoveredMCPResourceTemplate,
+} from 'recoder-code-core';
 import {
   DiscoveredMCPTool,
   getMCPDiscoveryState,
@@ -94,11 +98,17 @@ const getMcpStatus = async (
     ) as DiscoveredMCPTool[];
     const promptRegistry = await config.getPromptRegistry();
     const serverPrompts = promptRegistry.getPromptsByServer(serverName) || [];
+    const resourceRegistry = config.getResourceRegistry();
+    const serverResources = resourceRegistry.getResourcesByServer(serverName);
+    const serverTemplates =
+      resourceRegistry.getResourceTemplatesByServer(serverName);
+    const resourceCount = serverResources.length + serverTemplates.length;
 
     const originalStatus = getMCPServerStatus(serverName);
-    const hasCachedItems = serverTools.length > 0 || serverPrompts.length > 0;
+    const hasCachedItems =
+      serverTools.length > 0 || serverPrompts.length > 0 || resourceCount > 0;
 
-    // If the server is "disconnected" but has prompts or cached tools, display it as Ready
+    // If the server is "disconnected" but has prompts, resources or cached tools, display it as Ready
     // by using CONNECTED as the display status.
     const status =
       originalStatus === MCPServerStatus.DISCONNECTED && hasCachedItems
@@ -174,13 +184,18 @@ const getMcpStatus = async (
           }`,
         );
       }
+      if (resourceCount > 0) {
+        parts.push(
+          `${resourceCount} ${resourceCount === 1 ? 'resource' : 'resources'}`,
+        );
+      }
       if (parts.length > 0) {
         message += ` (${parts.join(', ')})`;
       } else {
         message += ` (0 tools)`;
       }
     } else if (status === MCPServerStatus.CONNECTING) {
-      message += ` (tools and prompts will appear when ready)`;
+      message += ` (tools, prompts and resources will appear when ready)`;
     } else {
       message += ` (${serverTools.length} tools cached)`;
     }
@@ -265,8 +280,42 @@ const getMcpStatus = async (
       });
     }
 
-    if (serverTools.length === 0 && serverPrompts.length === 0) {
-      message += '  No tools or prompts available\n';
+    if (resourceCount > 0) {
+      if (serverTools.length > 0 || serverPrompts.length > 0) {
+        message += '\n';
+      }
+      message += `  ${COLOR_CYAN}Resources:${RESET_COLOR}\n`;
+      const entries = [
+        ...serverResources.map((resource: DiscoveredMCPResource) => ({
+          mention: `@${serverName}:${resource.uri}`,
+          name: resource.title ?? resource.name,
+          description: resource.description,
+        })),
+        ...serverTemplates.map((template: DiscoveredMCPResourceTemplate) => ({
+          mention: `@${serverName}:${template.uriTemplate}`,
+          name: template.title ?? template.name,
+          description: template.description,
+        })),
+      ];
+      for (const entry of entries) {
+        message += `  - ${COLOR_CYAN}${entry.mention}${RESET_COLOR} ${COLOR_GREY}(${entry.name})${RESET_COLOR}`;
+        if (showDescriptions && entry.description) {
+          message += ':\n';
+          for (const descLine of entry.description.trim().split('\n')) {
+            message += `      ${COLOR_GREEN}${descLine}${RESET_COLOR}\n`;
+          }
+        } else {
+          message += '\n';
+        }
+      }
+    }
+
+    if (
+      serverTools.length === 0 &&
+      serverPrompts.length === 0 &&
+      resourceCount === 0
+    ) {
+      message += '  No tools, prompts or resources available\n';
     } else if (serverTools.length === 0) {
       message += '  No tools available';
       if (originalStatus === MCPServerStatus.DISCONNECTED && needsAuthHint) {
@@ -0,0 +1,199 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { getErrorMessage } from 'recoder-code-core';
+import type {
+  CommandContext,
+  MessageActionReturn,
+  SlashCommand,
+} from './types.js';
+import { CommandKind } from './types.js';
+import { MessageType } from '../types.js';
+import { PlanningService } from '../../services/PlanningService.js';
+import type {
+  ExecutionStep,
+  ValidationCheck,
+} from '../../services/PlanningService.js';
+import {
+  PlanRunner,
+  formatCheckLine,
+  formatStepLine,
+  type PlanRunEvent,
+} from '../../services/PlanRunner.js';
+
+const RUN_USAGE = 'Usage: /plan run <id> [--restart] [--yolo]';
+
+function info(content: string): MessageActionReturn {
+  return { type: 'message', messageType: 'info', content };
+}
+
+function error(content: string): MessageActionReturn {
+  return { type: 'message', messageType: 'error', content };
+}
+
+function getPlanningService(context: CommandContext): PlanningService {
+  return new PlanningService(
+    context.services.config?.getProjectRoot() ?? process.cwd(),
+  );
+}
+
+/**
+ * Keeps the latest state of every step and check so the pending history
+ * item can show the whole run as it progresses.
+ */
+class PlanRunProgress {
+  private title = '';
+  private readonly steps = new Map<number, ExecutionStep>();
+  private checks: ValidationCheck[] = [];
+
+  update(event: PlanRunEvent): void {
+    switch (event.type) {
+      case 'start':
+        this.title = `Running plan: ${event.plan.name}`;
+        for (const step of event.steps) {
+          this.steps.set(step.step, step);
+        }
+        break;
+      case 'step_skipped':
+      case 'step_start':
+      case 'step_end':
+        this.steps.set(event.step.step, event.step);
+        break;
+      case 'validation_start':
+        this.checks = event.checks;
+        break;
+      case 'validation_end':
+        this.checks = this.checks.map((check) =>
+          check.name === event.check.name ? event.check : check,
+        );
+        break;
+    }
+  }
+
+  render(footer?: string): string {
+    const lines = [this.title, ''];
+    for (const step of this.steps.values()) {
+      lines.push(`  ${formatStepLine(step)}`);
+    }
+    if (this.checks.length > 0) {
+      lines.push('', 'Validation:');
+      for (const check of this.checks) {
+        lines.push(`  ${formatCheckLine(check)}`);
+      }
+    }
+    if (footer) {
+      lines.push('', footer);
+    }
+    return lines.join('\n');
+  }
+}
+
+function listPlans(context: CommandContext): MessageActionReturn {
+  const plans = getPlanningService(context).listPlans();
+  if (plans.length === 0) {
+    return info(
+      'No plans found. Create one with: recoder plan create "My Project"',
+    );
+  }
+  return info(
+    plans
+      .map((plan) => {
+        const steps = plan.aiInstructions.executionOrder;
+        const done = steps.filter((s) => s.status === 'completed').length;
+        return `${plan.id}  ${plan.name} (${plan.status}, ${done}/${steps.length} steps done)`;
+      })
+      .join('\n'),
+  );
+}
+
+export const planCommand: SlashCommand = {
+  name: 'plan',
+  description: 'list and run saved project plans. Usage: /plan [list|run <id>]',
+  kind: CommandKind.BUILT_IN,
+  action: listPlans,
+  subCommands: [
+    {
+      name: 'list',
+      description: 'List the saved project plans.',
+      kind: CommandKind.BUILT_IN,
+      action: listPlans,
+    },
+    {
+      name: 'run',
+      description: `Execute a plan step by step, resuming after completed steps. ${RUN_USAGE}`,
+      kind: CommandKind.BUILT_IN,
+      action: async (context, args): Promise<MessageActionReturn | void> => {
+        const tokens = args.trim().split(/\s+/).filter(Boolean);
+        const id = tokens.find((token) => !token.startsWith('--'));
+        if (!id) {
+          return error(RUN_USAGE);
+        }
+        const { ui } = context;
+        if (ui.pendingItem) {
+          return error(
+            'Another operation is in progress, wait for it to finish.',
+          );
+        }
+
+        const planningService = getPlanningService(context);
+        const plan = planningService.loadPlan(id);
+        if (!plan) {
+          return error(
+            `Plan not found: ${id}. Use /plan list to see the plans.`,
+          );
+        }
+
+        const config = context.services.config;
+        const progress = new PlanRunProgress();
+        const runner = new PlanRunner(planningService, {
+          targetDir: config?.getTargetDir() ?? process.cwd(),
+          restart: tokens.includes('--restart'),
+          agent: {
+            model: config?.getModel(),
+            yolo: tokens.includes('--yolo'),
+          },
+          onEvent: (event) => {
+            progress.update(event);
+            ui.setPendingItem({
+              type: MessageType.INFO,
+              text: progress.render(),
+            });
+          },
+        });
+
+        try {
+          const result = await runner.run(plan);
+          let summary = `Plan complete: ${result.completedSteps}/${result.totalSteps} steps.`;
+          if (result.status !== 'completed') {
+            summary = result.failedStep
+              ? `Step ${result.failedStep.step} failed. Fix the problem and run /plan run ${plan.id} to resume.`
+              : `${result.failedChecks.length} validation check(s) failed. Run /plan run ${plan.id} to check again.`;
+          }
+          ui.addItem(
+            {
+              type:
+                result.status === 'completed'
+                  ? MessageType.INFO
+                  : MessageType.ERROR,
+              text: progress.render(summary),
+            },
+            Date.now(),
+          );
+        } catch (e) {
+          ui.addItem(
+            {
+              type: MessageType.ERROR,
+              text: `Failed to run plan: ${getErrorMessage(e)}`,
+            },
+            Date.now(),
+          );
+        } finally {
+          ui.setPendingItem(null);
+        }
+      },
+    },
+  ],
+};
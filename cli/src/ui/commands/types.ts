@@ -117,6 +117,7 @@ export interface OpenDialogActionReturn {
     | 'editor'
     | 'privacy'
     | 'settings'
+    | 'permissions'
     | 'model'
     | 'subagent_create'
     | 'subagent_list'
@@ -104,6 +104,19 @@ describe('<Footer />', () => {
     expect(lastFrame()).toMatch(/\(\d+% context[\s\S]*left\)/);
   });
 
+  it('displays the number of running background jobs', () => {
+    const { lastFrame } = renderWithWidth(120, {
+      ...defaultProps,
+      backgroundJobCount: 2,
+    });
+    expect(lastFrame()).toContain('⚙ 2 jobs');
+  });
+
+  it('does not display background jobs when none are running', () => {
+    const { lastFrame } = renderWithWidth(120);
+    expect(lastFrame()).not.toContain('⚙');
+  });
+
   describe('sandbox and trust info', () => {
     it('should display untrusted when isTrustedFolder is false', () => {
       const { lastFrame } = renderWithWidth(120, {
@@ -33,6 +33,8 @@ interface FooterProps {
   nightly: boolean;
   vimMode?: string;
   isTrustedFolder?: boolean;
+  /** Running background shell jobs, see /jobs */
+  backgroundJobCount?: number;
 }
 
 export const Footer: React.FC<FooterProps> = ({
@@ -49,6 +51,7 @@ export const Footer: React.FC<FooterProps> = ({
   nightly,
   vimMode,
   isTrustedFolder,
+  backgroundJobCount = 0,
 }) => {
   const { columns: terminalWidth } = useTerminalSize();
 
@@ -142,6 +145,17 @@ export const Footer: React.FC<FooterProps> = ({
             <Text color={theme.status.error}>▼ </Text>
           </Text>
         )}
+        {backgroundJobCount > 0 && (
+          <Box flexShrink={0}>
+            <Text color={theme.ui.symbol}>| </Text>
+            <Text color={theme.text.secondary}>
+              ⚙{' '}
+              {backgroundJobCount === 1
+                ? '1 job'
+                : `${backgroundJobCount} jobs`}{' '}
+            </Text>
+          </Box>
+        )}
         {!showErrorDetails && errorCount > 0 && (
           <Box>
             <Text color={theme.ui.symbol}>| </Text>
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { getElicitationFields } from 'recoder-code-core';
+import { renderWithProviders } from '../../test-utils/render.js';
+import { McpElicitationDialog } from './McpElicitationDialog.js';
+
+const ENTER = '\r';
+const ESCAPE = '\x1b';
+const DOWN = '\x1b[B';
+
+const wait = (ms = 50) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('McpElicitationDialog', () => {
+  const fields = getElicitationFields({
+    type: 'object',
+    properties: {
+      name: { type: 'string', title: 'Name', minLength: 2 },
+      age: { type: 'integer', title: 'Age', minimum: 0 },
+      color: {
+        type: 'string',
+        title: 'Color',
+        oneOf: [
+          { const: 'red', title: 'Red' },
+          { const: 'blue', title: 'Blue' },
+        ],
+      },
+      tags: {
+        type: 'array',
+        title: 'Tags',
+        items: { type: 'string', enum: ['a', 'b'] },
+      },
+    },
+    required: ['name'],
+  });
+
+  const renderDialog = (onAnswer = vi.fn()) =>
+    renderWithProviders(
+      <McpElicitationDialog
+        request={{
+          id: 0,
+          serverName: 'deploy',
+          message: 'Which environment?',
+          fields,
+          onAnswer,
+        }}
+      />,
+    );
+
+  it('shows the question of the server', () => {
+    const { lastFrame } = renderDialog();
+
+    const frame = lastFrame();
+    expect(frame).toContain('MCP server deploy asks:');
+    expect(frame).toContain('Which environment?');
+    expect(frame).toContain('Respond');
+    expect(frame).toContain('Decline');
+  });
+
+  it('asks each field and submits the answers', async () => {
+    const onAnswer = vi.fn();
+    const { stdin, lastFrame } = renderDialog(onAnswer);
+
+    stdin.write(ENTER);
+    await wait();
+    await vi.waitFor(() => {
+      expect(lastFrame()).toContain('Name');
+    });
+    stdin.write('A');
+    await wait();
+    stdin.write(ENTER);
+    await vi.waitFor(() => {
+      expect(lastFrame()).toContain('Name must be at least 2 characters.');
+    });
+    stdin.write('l');
+    await wait();
+    stdin.write(ENTER);
+    await vi.waitFor(() => {
+      expect(lastFrame()).toContain('Age (optional)');
+    });
+    stdin.write(ENTER);
+    await vi.waitFor(() => {
+      expect(lastFrame()).toContain('Color (optional)');
+    });
+    stdin.write(DOWN);
+    await wait();
+    stdin.write(ENTER);
+    await vi.waitFor(() => {
+      expect(lastFrame()).toContain('[ ] a');
+    });
+    stdin.write(ENTER);
+    await vi.waitFor(() => {
+      expect(lastFrame()).toContain('[x] a');
+    });
+    stdin.write(DOWN);
+    await wait();
+    stdin.write(DOWN);
+    await wait();
+    stdin.write(ENTER);
+    await vi.waitFor(() => {
+      expect(lastFrame()).toContain('Submit');
+    });
+    expect(lastFrame()).toContain('Age: (empty)');
+    stdin.write(ENTER);
+
+    await vi.waitFor(() => {
+      expect(onAnswer).toHaveBeenCalledWith({
+        action: 'accept',
+        content: { name: 'Al', color: 'blue', tags: ['a'] },
+      });
+    });
+  });
+
+  it('declines the question', async () => {
+    const onAnswer = vi.fn();
+    const { stdin } = renderDialog(onAnswer);
+
+    stdin.write(DOWN);
+    await wait();
+    stdin.write(ENTER);
+
+    await vi.waitFor(() => {
+      expect(onAnswer).toHaveBeenCalledWith({ action: 'decline' });
+    });
+  });
+
+  it('cancels when escape is pressed', async () => {
+    const onAnswer = vi.fn();
+    const { stdin } = renderDialog(onAnswer);
+
+    stdin.write(ESCAPE);
+    await wait();
+
+    await vi.waitFor(() => {
+      expect(onAnswer).toHaveBeenCalledWith({ action: 'cancel' });
+    });
+  });
+});
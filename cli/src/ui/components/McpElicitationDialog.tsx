@@ -0,0 +1,333 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type React from 'react';
+import { useState } from 'react';
+import { Box, Text } from 'ink';
+import type { ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import type {
+  ElicitationContent,
+  ElicitationField,
+  ElicitationValue,
+  McpElicitationRequest,
+} from 'recoder-code-core';
+import {
+  parseElicitationInput,
+  validateElicitationValue,
+} from 'recoder-code-core';
+import { Colors } from '../colors.js';
+import {
+  RadioButtonSelect,
+  type RadioSelectItem,
+} from './shared/RadioButtonSelect.js';
+import { TextInput } from './shared/TextInput.js';
+import { useKeypress } from '../hooks/useKeypress.js';
+
+export interface McpElicitationDialogRequest extends McpElicitationRequest {
+  /** Tells queued requests apart, which may ask the same */
+  id: number;
+  onAnswer: (result: ElicitResult) => void;
+}
+
+export interface McpElicitationDialogProps {
+  request: McpElicitationDialogRequest;
+}
+
+type Step =
+  | { kind: 'intro' }
+  | { kind: 'field'; index: number }
+  | { kind: 'review' };
+
+type Values = Record<string, ElicitationValue | undefined>;
+
+/** Chosen to leave an optional field empty */
+const SKIP = Symbol('skip');
+const DONE = Symbol('done');
+
+function formatValue(value: ElicitationValue | undefined): string {
+  if (value === undefined) {
+    return '(empty)';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+  return Array.isArray(value) ? value.join(', ') || '(none)' : String(value);
+}
+
+function defaultValues(fields: ElicitationField[]): Values {
+  const values: Values = {};
+  for (const field of fields) {
+    values[field.name] = field.default;
+  }
+  return values;
+}
+
+export function McpElicitationDialog({ request }: McpElicitationDialogProps) {
+  const { serverName, message, fields, onAnswer } = request;
+  const [step, setStep] = useState<Step>({ kind: 'intro' });
+  const [values, setValues] = useState<Values>(() => defaultValues(fields));
+  const [input, setInput] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  useKeypress(
+    (key) => {
+      if (key.name === 'escape') {
+        onAnswer({ action: 'cancel' });
+      }
+    },
+    { isActive: true },
+  );
+
+  const showField = (index: number) => {
+    setErrors([]);
+    if (index >= fields.length) {
+      setStep({ kind: 'review' });
+      return;
+    }
+    const value = values[fields[index].name];
+    setInput(value === undefined ? '' : String(value));
+    setStep({ kind: 'field', index });
+  };
+
+  const setValue = (field: ElicitationField, value?: ElicitationValue) => {
+    setValues((previous) => ({ ...previous, [field.name]: value }));
+  };
+
+  /** Keeps a valid value and moves on, or shows the problem */
+  const submitValue = (
+    field: ElicitationField,
+    index: number,
+    value?: ElicitationValue,
+  ) => {
+    const error = validateElicitationValue(field, value);
+    if (error) {
+      setErrors([error]);
+      return;
+    }
+    setValue(field, value);
+    showField(index + 1);
+  };
+
+  const submitContent = () => {
+    const content: ElicitationContent = {};
+    for (const field of fields) {
+      const value = values[field.name];
+      if (value !== undefined) {
+        content[field.name] = value;
+      }
+    }
+    onAnswer({ action: 'accept', content });
+  };
+
+  const renderField = (field: ElicitationField, index: number) => {
+    const value = values[field.name];
+    switch (field.kind) {
+      case 'boolean':
+      case 'select': {
+        const items: Array<RadioSelectItem<ElicitationValue | typeof SKIP>> =
+          field.kind === 'boolean'
+            ? [
+                { label: 'Yes', value: true },
+                { label: 'No', value: false },
+              ]
+            : field.options.map((option) => ({
+                label: option.label,
+                value: option.value,
+              }));
+        if (!field.required) {
+          items.push({ label: 'Leave empty', value: SKIP });
+        }
+        const current = items.findIndex((item) => item.value === value);
+        return (
+          <RadioButtonSelect
+            items={items}
+            initialIndex={Math.max(current, 0)}
+            onSelect={(selected) =>
+              submitValue(
+                field,
+                index,
+                selected === SKIP ? undefined : selected,
+              )
+            }
+            isFocused
+          />
+        );
+      }
+      case 'multiselect': {
+        const selected = Array.isArray(value) ? value : [];
+        const items: Array<RadioSelectItem<string | typeof DONE>> = [
+          ...field.options.map((option) => ({
+            label: `[${selected.includes(option.value) ? 'x' : ' '}] ${option.label}`,
+            value: option.value,
+          })),
+          { label: 'Done', value: DONE },
+        ];
+        return (
+          <>
+            <RadioButtonSelect
+              items={items}
+              onSelect={(item) => {
+                if (item === DONE) {
+                  submitValue(
+                    field,
+                    index,
+                    selected.length === 0 && !field.required
+                      ? undefined
+                      : selected,
+                  );
+                  return;
+                }
+                setErrors([]);
+                setValue(
+                  field,
+                  selected.includes(item)
+                    ? selected.filter((option) => option !== item)
+                    : [...selected, item],
+                );
+              }}
+              isFocused
+            />
+            {errors.map((error) => (
+              <Text key={error} color={Colors.AccentRed}>
+                {error}
+              </Text>
+            ))}
+          </>
+        );
+      }
+      default:
+        return (
+          <TextInput
+            value={input}
+            onChange={setInput}
+            onSubmit={() => {
+              const parsed = parseElicitationInput(field, input);
+              if (parsed.error) {
+                setErrors([parsed.error]);
+                return;
+              }
+              submitValue(field, index, parsed.value);
+            }}
+            placeholder={
+              field.format ?? (field.required ? undefined : 'Leave empty')
+            }
+            validationErrors={errors}
+          />
+        );
+    }
+  };
+
+  let body: React.ReactNode;
+  let hint = '(Esc to cancel)';
+  switch (step.kind) {
+    case 'intro':
+      body = (
+        <RadioButtonSelect
+          items={[
+            {
+              label: fields.length > 0 ? 'Respond' : 'Accept',
+              value: 'accept' as const,
+            },
+            { label: 'Decline', value: 'decline' as const },
+          ]}
+          onSelect={(choice) => {
+            if (choice === 'decline') {
+              onAnswer({ action: 'decline' });
+            } else if (fields.length === 0) {
+              onAnswer({ action: 'accept', content: {} });
+            } else {
+              showField(0);
+            }
+          }}
+          isFocused
+        />
+      );
+      break;
+    case 'field': {
+      const field = fields[step.index];
+      body = (
+        <>
+          <Text>
+            <Text bold>{field.title}</Text>
+            {field.required ? '' : ' (optional)'}
+            <Text color={Colors.Gray}>
+              {'  '}
+              {step.index + 1} of {fields.length}
+            </Text>
+          </Text>
+          {field.description && (
+            <Text color={Colors.Gray}>{field.description}</Text>
+          )}
+          {renderField(field, step.index)}
+        </>
+      );
+      if (field.kind === 'multiselect') {
+        hint = '(Enter to toggle an option, Esc to cancel)';
+      }
+      break;
+    }
+    case 'review':
+      body = (
+        <>
+          <Box flexDirection="column">
+            {fields.map((field) => (
+              <Text key={field.name}>
+                <Text bold>{field.title}: </Text>
+                {formatValue(values[field.name])}
+              </Text>
+            ))}
+          </Box>
+          <RadioButtonSelect
+            items={[
+              { label: 'Submit', value: 'submit' as const },
+              { label: 'Change answers', value: 'change' as const },
+              { label: 'Decline', value: 'decline' as const },
+            ]}
+            onSelect={(choice) => {
+              if (choice === 'submit') {
+                submitContent();
+              } else if (choice === 'change') {
+                showField(0);
+              } else {
+                onAnswer({ action: 'decline' });
+              }
+            }}
+            isFocused
+          />
+        </>
+      );
+      break;
+    default:
+      break;
+  }
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="round"
+      borderColor={Colors.AccentYellow}
+      padding={1}
+      width="100%"
+      marginLeft={1}
+    >
+      <Text bold>
+        MCP server <Text color={Colors.AccentCyan}>{serverName}</Text> asks:
+      </Text>
+      <Text>{message}</Text>
+      {/* Keyed so each field starts with a fresh input */}
+      <Box
+        key={step.kind === 'field' ? `field-${step.index}` : step.kind}
+        flexDirection="column"
+        marginTop={1}
+      >
+        {body}
+      </Box>
+      <Box marginTop={1}>
+        <Text color={Colors.Gray}>{hint}</Text>
+      </Box>
+    </Box>
+  );
+}
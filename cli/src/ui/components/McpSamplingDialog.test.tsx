@@ -0,0 +1,75 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { ToolConfirmationOutcome } from 'recoder-code-core';
+import { renderWithProviders } from '../../test-utils/render.js';
+import { McpSamplingDialog } from './McpSamplingDialog.js';
+
+const ENTER = '\r';
+const ESCAPE = '\x1b';
+const DOWN = '\x1b[B';
+
+const wait = (ms = 50) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('McpSamplingDialog', () => {
+  const renderDialog = (onConfirm = vi.fn()) =>
+    renderWithProviders(
+      <McpSamplingDialog
+        request={{
+          serverName: 'research',
+          systemPrompt: 'You summarize papers.',
+          messages: [
+            { role: 'user', content: { type: 'text', text: 'Summarize it.' } },
+            {
+              role: 'user',
+              content: { type: 'image', data: 'AAAA', mimeType: 'image/png' },
+            },
+          ],
+          maxTokens: 512,
+          onConfirm,
+        }}
+      />,
+    );
+
+  it('shows the server, the messages and the token limit', () => {
+    const { lastFrame } = renderDialog();
+
+    const frame = lastFrame();
+    expect(frame).toContain('research');
+    expect(frame).toContain('up to 512 tokens');
+    expect(frame).toContain('System: You summarize papers.');
+    expect(frame).toContain('user: Summarize it.');
+    expect(frame).toContain('user: [image]');
+  });
+
+  it('allows the server for the session', async () => {
+    const onConfirm = vi.fn();
+    const { stdin } = renderDialog(onConfirm);
+
+    stdin.write(DOWN);
+    await wait();
+    stdin.write(ENTER);
+
+    await vi.waitFor(() => {
+      expect(onConfirm).toHaveBeenCalledWith(
+        ToolConfirmationOutcome.ProceedAlways,
+      );
+    });
+  });
+
+  it('rejects when escape is pressed', async () => {
+    const onConfirm = vi.fn();
+    const { stdin } = renderDialog(onConfirm);
+
+    stdin.write(ESCAPE);
+    await wait();
+
+    await vi.waitFor(() => {
+      expect(onConfirm).toHaveBeenCalledWith(ToolConfirmationOutcome.Cancel);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { McpSamplingRequest } from 'recoder-code-core';
+import { ToolConfirmationOutcome } from 'recoder-code-core';
+import { Box, Text } from 'ink';
+import type React from 'react';
+import { Colors } from '../colors.js';
+import type { RadioSelectItem } from './shared/RadioButtonSelect.js';
+import { RadioButtonSelect } from './shared/RadioButtonSelect.js';
+import { useKeypress } from '../hooks/useKeypress.js';
+
+export interface McpSamplingConfirmationRequest extends McpSamplingRequest {
+  onConfirm: (outcome: ToolConfirmationOutcome) => void;
+}
+
+export interface McpSamplingDialogProps {
+  request: McpSamplingConfirmationRequest;
+}
+
+/** Messages shown, the last ones of the conversation the server sends */
+const MAX_MESSAGES_SHOWN = 3;
+const MAX_PREVIEW_LENGTH = 300;
+
+function preview(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.length > MAX_PREVIEW_LENGTH
+    ? `${trimmed.slice(0, MAX_PREVIEW_LENGTH)}…`
+    : trimmed;
+}
+
+function describeContent(
+  message: McpSamplingRequest['messages'][number],
+): string {
+  const contents = Array.isArray(message.content)
+    ? message.content
+    : [message.content];
+  return contents
+    .map((content) =>
+      content.type === 'text' ? content.text : `[${content.type}]`,
+    )
+    .join(' ');
+}
+
+export const McpSamplingDialog: React.FC<McpSamplingDialogProps> = ({
+  request,
+}) => {
+  const { serverName, messages, systemPrompt, maxTokens, onConfirm } =
+    request;
+
+  useKeypress(
+    (key) => {
+      if (key.name === 'escape') {
+        onConfirm(ToolConfirmationOutcome.Cancel);
+      }
+    },
+    { isActive: true },
+  );
+
+  const options: Array<RadioSelectItem<ToolConfirmationOutcome>> = [
+    {
+      label: 'Yes, allow once',
+      value: ToolConfirmationOutcome.ProceedOnce,
+    },
+    {
+      label: `Yes, always allow ${serverName} for this session`,
+      value: ToolConfirmationOutcome.ProceedAlways,
+    },
+    {
+      label: 'No (esc)',
+      value: ToolConfirmationOutcome.Cancel,
+    },
+  ];
+
+  const shown = messages.slice(-MAX_MESSAGES_SHOWN);
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="round"
+      borderColor={Colors.AccentYellow}
+      padding={1}
+      width="100%"
+      marginLeft={1}
+    >
+      <Box flexDirection="column" marginBottom={1}>
+        <Text bold>MCP Sampling Request</Text>
+        <Text>
+          MCP server <Text color={Colors.AccentCyan}>{serverName}</Text> wants
+          to generate a response with your model, up to {maxTokens} tokens.
+        </Text>
+        <Box
+          flexDirection="column"
+          borderStyle="round"
+          borderColor={Colors.Gray}
+          paddingX={1}
+          marginTop={1}
+        >
+          {systemPrompt && (
+            <Text color={Colors.Gray}>System: {preview(systemPrompt)}</Text>
+          )}
+          {messages.length > shown.length && (
+            <Text color={Colors.Gray}>
+              … {messages.length - shown.length} earlier messages
+            </Text>
+          )}
+          {shown.map((message, index) => (
+            <Text key={index}>
+              <Text bold>{message.role}: </Text>
+              {preview(describeContent(message))}
+            </Text>
+          ))}
+        </Box>
+      </Box>
+
+      <Box marginBottom={1}>
+        <Text>Do you want to allow it?</Text>
+      </Box>
+
+      <RadioButtonSelect items={options} onSelect={onConfirm} isFocused />
+    </Box>
+  );
+};
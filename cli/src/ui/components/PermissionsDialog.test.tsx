@@ -0,0 +1,190 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Config } from 'recoder-code-core';
+import { renderWithProviders } from '../../test-utils/render.js';
+import { PermissionsDialog } from './PermissionsDialog.js';
+import { LoadedSettings } from '../../config/settings.js';
+import type { Settings } from '../../config/settings.js';
+
+const ENTER = '\r';
+const ESCAPE = '\x1b';
+const DOWN = '\x1b[B';
+
+const wait = (ms = 50) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('PermissionsDialog', () => {
+  let tempDir: string;
+  let settings: LoadedSettings;
+  let config: Config;
+  let setPermissionRules: ReturnType<typeof vi.fn>;
+
+  const createSettings = (user: Settings, workspace: Settings) =>
+    new LoadedSettings(
+      { settings: {}, path: path.join(tempDir, 'system.json') },
+      { settings: {}, path: path.join(tempDir, 'system-defaults.json') },
+      { settings: user, path: path.join(tempDir, 'user.json') },
+      { settings: workspace, path: path.join(tempDir, 'workspace.json') },
+      [],
+      true,
+      new Set(),
+    );
+
+  const renderDialog = (onClose = vi.fn()) =>
+    renderWithProviders(
+      <PermissionsDialog
+        settings={settings}
+        config={config}
+        onClose={onClose}
+      />,
+    );
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'permissions-dialog-'));
+    settings = createSettings(
+      { permissions: { allow: ['mcp:github/*'] } },
+      {
+        permissions: {
+          allow: ['run_shell_command(npm test:*)'],
+          deny: ['run_shell_command(git push:*)'],
+        },
+      },
+    );
+    setPermissionRules = vi.fn();
+    config = { setPermissionRules } as unknown as Config;
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('lists project and user rules', () => {
+    const { lastFrame } = renderDialog();
+
+    const frame = lastFrame();
+    expect(frame).toContain('+ Add a rule');
+    expect(frame).toContain(
+      'deny   run_shell_command(git push:*)  (project)',
+    );
+    expect(frame).toContain(
+      'allow  run_shell_command(npm test:*)  (project)',
+    );
+    expect(frame).toContain('allow  mcp:github/*  (user)');
+  });
+
+  it('revokes the selected rule', async () => {
+    const { stdin, lastFrame } = renderDialog();
+
+    stdin.write(DOWN);
+    await wait();
+    stdin.write(ENTER);
+    await wait();
+    await vi.waitFor(() => {
+      expect(lastFrame()).toContain('Revoke deny rule');
+    });
+    stdin.write(ENTER);
+    await wait();
+
+    await vi.waitFor(() => {
+      expect(settings.workspace.settings.permissions?.deny).toEqual([]);
+    });
+    expect(setPermissionRules).toHaveBeenCalledWith({
+      allow: ['mcp:github/*', 'run_shell_command(npm test:*)'],
+      deny: [],
+    });
+    expect(lastFrame()).toContain(
+      'Revoked deny rule run_shell_command(git push:*).',
+    );
+  });
+
+  it('adds an allow rule to project settings', async () => {
+    const { stdin, lastFrame } = renderDialog();
+
+    stdin.write(ENTER);
+    await wait();
+    await vi.waitFor(() => {
+      expect(lastFrame()).toContain('What should the rule do?');
+    });
+    stdin.write(ENTER);
+    await wait();
+    await vi.waitFor(() => {
+      expect(lastFrame()).toContain('Where should it be saved?');
+    });
+    stdin.write(ENTER);
+    await wait();
+    await vi.waitFor(() => {
+      expect(lastFrame()).toContain('New allow rule for project settings');
+    });
+    stdin.write('edit(src/**)');
+    await vi.waitFor(() => {
+      expect(lastFrame()).toContain('> edit(src/**)');
+    });
+    await wait();
+    stdin.write(ENTER);
+    await wait();
+
+    await vi.waitFor(() => {
+      expect(settings.workspace.settings.permissions?.allow).toEqual([
+        'run_shell_command(npm test:*)',
+        'edit(src/**)',
+      ]);
+    });
+    expect(lastFrame()).toContain(
+      'Added allow rule edit(src/**) to project settings.',
+    );
+  });
+
+  it('rejects a malformed rule', async () => {
+    const { stdin, lastFrame } = renderDialog();
+
+    stdin.write(ENTER);
+    await wait();
+    await vi.waitFor(() => {
+      expect(lastFrame()).toContain('What should the rule do?');
+    });
+    stdin.write(ENTER);
+    await wait();
+    await vi.waitFor(() => {
+      expect(lastFrame()).toContain('Where should it be saved?');
+    });
+    stdin.write(ENTER);
+    await wait();
+    await vi.waitFor(() => {
+      expect(lastFrame()).toContain('New allow rule');
+    });
+    stdin.write('edit(src');
+    await vi.waitFor(() => {
+      expect(lastFrame()).toContain('> edit(src');
+    });
+    await wait();
+    await vi.waitFor(() => {
+      expect(lastFrame()).toContain('edit(src');
+    });
+    stdin.write(ENTER);
+    await wait();
+
+    await vi.waitFor(() => {
+      expect(lastFrame()).toContain('Invalid permission rule');
+    });
+    expect(setPermissionRules).not.toHaveBeenCalled();
+  });
+
+  it('calls onClose when escape is pressed on the list', async () => {
+    const onClose = vi.fn();
+    const { stdin } = renderDialog(onClose);
+
+    stdin.write(ESCAPE);
+    await wait();
+
+    await vi.waitFor(() => {
+      expect(onClose).toHaveBeenCalled();
+    });
+  });
+});
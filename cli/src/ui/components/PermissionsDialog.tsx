@@ -0,0 +1,278 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type React from 'react';
+import { useCallback, useState } from 'react';
+import { Box, Text } from 'ink';
+import type { Config, PermissionRuleDecision } from 'recoder-code-core';
+import { Colors } from '../colors.js';
+import type { LoadedSettings } from '../../config/settings.js';
+import { SettingScope } from '../../config/settings.js';
+import {
+  addPermissionRules,
+  getDefaultPermissionRuleScope,
+  getPermissionRules,
+  PERMISSION_RULE_SCOPES,
+  removePermissionRule,
+  validatePermissionRule,
+  type PermissionRuleScope,
+} from '../../config/permissionRules.js';
+import {
+  RadioButtonSelect,
+  type RadioSelectItem,
+} from './shared/RadioButtonSelect.js';
+import { TextInput } from './shared/TextInput.js';
+import { useKeypress } from '../hooks/useKeypress.js';
+
+interface PermissionsDialogProps {
+  settings: LoadedSettings;
+  config: Config;
+  onClose: () => void;
+}
+
+interface RuleEntry {
+  scope: PermissionRuleScope;
+  decision: PermissionRuleDecision;
+  rule: string;
+}
+
+type Step =
+  | { kind: 'list' }
+  | { kind: 'revoke'; entry: RuleEntry }
+  | { kind: 'add-decision' }
+  | { kind: 'add-scope'; decision: PermissionRuleDecision }
+  | {
+      kind: 'add-rule';
+      decision: PermissionRuleDecision;
+      scope: PermissionRuleScope;
+    };
+
+const ADD_RULE = 'add';
+
+const RULE_EXAMPLES =
+  'e.g. run_shell_command(npm test:*), edit(src/**), web_fetch, mcp:github/*';
+
+function scopeLabel(scope: PermissionRuleScope): string {
+  return scope === SettingScope.Workspace ? 'project' : 'user';
+}
+
+function listRules(settings: LoadedSettings): RuleEntry[] {
+  const entries: RuleEntry[] = [];
+  for (const scope of PERMISSION_RULE_SCOPES) {
+    const rules = getPermissionRules(settings, scope);
+    for (const decision of ['deny', 'allow'] as const) {
+      for (const rule of rules[decision]) {
+        entries.push({ scope, decision, rule });
+      }
+    }
+  }
+  return entries;
+}
+
+export function PermissionsDialog({
+  settings,
+  config,
+  onClose,
+}: PermissionsDialogProps) {
+  const [step, setStep] = useState<Step>({ kind: 'list' });
+  const [status, setStatus] = useState<string>();
+  const [ruleText, setRuleText] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const applyRules = useCallback(() => {
+    const { allow, deny } = settings.merged.permissions ?? {};
+    config.setPermissionRules({ allow, deny });
+  }, [settings, config]);
+
+  useKeypress(
+    (key) => {
+      if (key.name !== 'escape') {
+        return;
+      }
+      if (step.kind === 'list') {
+        onClose();
+      } else {
+        setErrors([]);
+        setStep({ kind: 'list' });
+      }
+    },
+    { isActive: true },
+  );
+
+  const entries = listRules(settings);
+  const listItems: Array<RadioSelectItem<RuleEntry | typeof ADD_RULE>> = [
+    { label: '+ Add a rule', value: ADD_RULE },
+    ...entries.map((entry) => ({
+      label: `${entry.decision.padEnd(5)}  ${entry.rule}  (${scopeLabel(entry.scope)})`,
+      value: entry,
+    })),
+  ];
+
+  const submitRule = () => {
+    if (step.kind !== 'add-rule') {
+      return;
+    }
+    const rule = ruleText.trim();
+    const error = rule ? validatePermissionRule(rule) : 'Please enter a rule.';
+    if (error) {
+      setErrors([error]);
+      return;
+    }
+    addPermissionRules(settings, step.scope, step.decision, [rule]);
+    applyRules();
+    setStatus(
+      `Added ${step.decision} rule ${rule} to ${scopeLabel(step.scope)} settings.`,
+    );
+    setRuleText('');
+    setErrors([]);
+    setStep({ kind: 'list' });
+  };
+
+  let body: React.ReactNode;
+  switch (step.kind) {
+    case 'list':
+      body = (
+        <>
+          {entries.length === 0 && (
+            <Text color={Colors.Gray}>
+              No saved rules. Answering &quot;Always allow&quot; to a tool
+              call adds one.
+            </Text>
+          )}
+          <RadioButtonSelect
+            items={listItems}
+            onSelect={(value) => {
+              setStatus(undefined);
+              setStep(
+                value === ADD_RULE
+                  ? { kind: 'add-decision' }
+                  : { kind: 'revoke', entry: value },
+              );
+            }}
+            isFocused
+            showScrollArrows
+            maxItemsToShow={12}
+          />
+        </>
+      );
+      break;
+    case 'revoke':
+      body = (
+        <>
+          <Text>
+            Revoke {step.entry.decision} rule{' '}
+            <Text bold>{step.entry.rule}</Text> from{' '}
+            {scopeLabel(step.entry.scope)} settings?
+          </Text>
+          <RadioButtonSelect
+            items={[
+              { label: 'Revoke', value: true },
+              { label: 'Keep', value: false },
+            ]}
+            onSelect={(revoke) => {
+              if (revoke) {
+                const { scope, decision, rule } = step.entry;
+                removePermissionRule(settings, scope, decision, rule);
+                applyRules();
+                setStatus(`Revoked ${decision} rule ${rule}.`);
+              }
+              setStep({ kind: 'list' });
+            }}
+            isFocused
+          />
+        </>
+      );
+      break;
+    case 'add-decision':
+      body = (
+        <>
+          <Text>What should the rule do?</Text>
+          <RadioButtonSelect
+            items={[
+              { label: 'Allow without asking', value: 'allow' as const },
+              { label: 'Always deny', value: 'deny' as const },
+            ]}
+            onSelect={(decision) => setStep({ kind: 'add-scope', decision })}
+            isFocused
+          />
+        </>
+      );
+      break;
+    case 'add-scope': {
+      const defaultScope = getDefaultPermissionRuleScope(settings);
+      body = (
+        <>
+          <Text>Where should it be saved?</Text>
+          <RadioButtonSelect
+            items={PERMISSION_RULE_SCOPES.map((scope) => ({
+              label:
+                scope === SettingScope.Workspace
+                  ? 'Project settings (this project only)'
+                  : 'User settings (all projects)',
+              value: scope,
+            }))}
+            initialIndex={PERMISSION_RULE_SCOPES.indexOf(defaultScope)}
+            onSelect={(scope) =>
+              setStep({ kind: 'add-rule', decision: step.decision, scope })
+            }
+            isFocused
+          />
+        </>
+      );
+      break;
+    }
+    case 'add-rule':
+      body = (
+        <>
+          <Text>
+            New {step.decision} rule for {scopeLabel(step.scope)} settings:
+          </Text>
+          <Text color={Colors.Gray}>{RULE_EXAMPLES}</Text>
+          <TextInput
+            value={ruleText}
+            onChange={setRuleText}
+            onSubmit={submitRule}
+            placeholder="run_shell_command(git status:*)"
+            validationErrors={errors}
+          />
+        </>
+      );
+      break;
+    default:
+      break;
+  }
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="round"
+      borderColor={Colors.AccentBlue}
+      padding={1}
+      width="100%"
+      marginLeft={1}
+    >
+      <Text color={Colors.AccentBlue} bold>
+        Permissions
+      </Text>
+      {/* Keyed so each step starts with a fresh selection */}
+      <Box key={step.kind} flexDirection="column" marginTop={1} gap={1}>
+        {body}
+      </Box>
+      {status && (
+        <Box marginTop={1}>
+          <Text color={Colors.AccentGreen}>{status}</Text>
+        </Box>
+      )}
+      <Box marginTop={1}>
+        <Text color={Colors.Gray}>
+          {step.kind === 'list'
+            ? '(Enter to revoke a rule, Esc to close)'
+            : '(Esc to go back)'}
+        </Text>
+      </Box>
+    </Box>
+  );
+}
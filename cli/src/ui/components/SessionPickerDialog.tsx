@@ -0,0 +1,76 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Box, Text } from 'ink';
+import { Colors } from '../colors.js';
+import { type SessionSummary } from 'recoder-code-core';
+import {
+  RadioButtonSelect,
+  type RadioSelectItem,
+} from './shared/RadioButtonSelect.js';
+import { useKeypress } from '../hooks/useKeypress.js';
+import { formatSessionAge } from '../utils/sessionUtils.js';
+
+const MAX_PREVIEW_LENGTH = 60;
+
+interface SessionPickerDialogProps {
+  sessions: SessionSummary[];
+  /** Called with the chosen session ID, or undefined to start fresh */
+  onSelect: (sessionId: string | undefined) => void;
+}
+
+export function SessionPickerDialog({
+  sessions,
+  onSelect,
+}: SessionPickerDialogProps) {
+  useKeypress(
+    (key) => {
+      if (key.name === 'escape') {
+        onSelect(undefined);
+      }
+    },
+    { isActive: true },
+  );
+
+  const items: Array<RadioSelectItem<string>> = sessions.map((session) => {
+    const preview = session.firstUserMessage.replace(/\s+/g, ' ').trim();
+    return {
+      label: `${formatSessionAge(session.lastUpdated)} · ${session.messageCount} messages · ${
+        preview.length > MAX_PREVIEW_LENGTH
+          ? `${preview.slice(0, MAX_PREVIEW_LENGTH)}…`
+          : preview || '(no prompt)'
+      }`,
+      value: session.sessionId,
+    };
+  });
+
+  return (
+    <Box
+      flexDirection="column"
+      borderStyle="round"
+      borderColor={Colors.AccentBlue}
+      padding={1}
+      width="100%"
+      marginLeft={1}
+    >
+      <Text color={Colors.AccentBlue} bold>
+        Resume a session
+      </Text>
+      <Box marginTop={1}>
+        <RadioButtonSelect
+          items={items}
+          onSelect={onSelect}
+          isFocused
+          showScrollArrows
+          maxItemsToShow={10}
+        />
+      </Box>
+      <Box marginTop={1}>
+        <Text color={Colors.Gray}>(Press Esc to start a new session)</Text>
+      </Box>
+    </Box>
+  );
+}
@@ -362,4 +362,47 @@ fileDiff Index: Dockerfile
 2 RUN npm install
 3 RUN npm run build`);
   });
+
+  it('should render a header for each file of a multi-file diff', () => {
+    const multiFileDiff = `Index: src/a.ts
+===================================================================
+--- src/a.ts
++++ src/a.ts
+@@ -1,2 +1,2 @@
+-const a = 1;
++const a = 2;
+ export { a };
+===================================================================
+--- /dev/null
++++ src/b.ts
+@@ -0,0 +1,1 @@
++export const b = 1;
+===================================================================
+--- old.txt
++++ new.txt
+===================================================================
+--- gone.txt
++++ /dev/null
+@@ -1,1 +0,0 @@
+--- not a header
+`;
+    const { lastFrame } = render(
+      <OverflowProvider>
+        <DiffRenderer
+          diffContent={multiFileDiff}
+          filename="4 files"
+          terminalWidth={80}
+        />
+      </OverflowProvider>,
+    );
+    expect(lastFrame()).toEqual(`src/a.ts
+1 - const a = 1;
+1 + const a = 2;
+2   export { a };
+src/b.ts (new)
+1 + export const b = 1;
+old.txt → new.txt
+gone.txt (deleted)
+1 - -- not a header`);
+  });
 });
@@ -13,10 +13,12 @@ import { MaxSizedBox } from '../shared/MaxSizedBox.js';
 import { theme } from '../../semantic-colors.js';
 
 interface DiffLine {
-  type: 'add' | 'del' | 'context' | 'hunk' | 'other';
+  type: 'add' | 'del' | 'context' | 'hunk' | 'file' | 'other';
   oldLine?: number;
   newLine?: number;
   content: string;
+  /** For `file` lines, the name used to highlight the file's lines */
+  fileName?: string;
 }
 
 function parseDiffWithLineNumbers(diffContent: string): DiffLine[] {
@@ -25,13 +27,19 @@ function parseDiffWithLineNumbers(diffContent: string): DiffLine[] {
   let currentOldLine = 0;
   let currentNewLine = 0;
   let inHunk = false;
-  const hunkHeaderRegex = /^@@ -(\d+),?\d* \+(\d+),?\d* @@/;
+  // Lines left in the current hunk, to find where the next file starts
+  let oldLinesLeft = 0;
+  let newLinesLeft = 0;
+  let oldFileName: string | undefined;
+  const hunkHeaderRegex = /^@@ -(\d+),?(\d*) \+(\d+),?(\d*) @@/;
 
-  for (const line of lines) {
+  for (const [index, line] of lines.entries()) {
     const hunkMatch = line.match(hunkHeaderRegex);
     if (hunkMatch) {
       currentOldLine = parseInt(hunkMatch[1], 10);
-      currentNewLine = parseInt(hunkMatch[2], 10);
+      currentNewLine = parseInt(hunkMatch[3], 10);
+      oldLinesLeft = hunkMatch[2] === '' ? 1 : parseInt(hunkMatch[2], 10);
+      newLinesLeft = hunkMatch[4] === '' ? 1 : parseInt(hunkMatch[4], 10);
       inHunk = true;
       result.push({ type: 'hunk', content: line });
       // We need to adjust the starting point because the first line number applies to the *first* actual line change/context,
@@ -40,25 +48,40 @@ function parseDiffWithLineNumbers(diffContent: string): DiffLine[] {
       currentNewLine--;
       continue;
     }
-    if (!inHunk) {
-      // Skip standard Git header lines more robustly
-      if (
-        line.startsWith('--- ') ||
-        line.startsWith('+++ ') ||
+    if (
+      inHunk &&
+      oldLinesLeft <= 0 &&
+      newLinesLeft <= 0 &&
+      (line.startsWith('--- ') ||
         line.startsWith('diff --git') ||
-        line.startsWith('index ') ||
-        line.startsWith('similarity index') ||
-        line.startsWith('rename from') ||
-        line.startsWith('rename to') ||
-        line.startsWith('new file mode') ||
-        line.startsWith('deleted file mode')
-      )
-        continue;
-      // If it's not a hunk or header, skip (or handle as 'other' if needed)
+        line.startsWith('Index: ') ||
+        line.startsWith('==='))
+    ) {
+      // The hunk is complete and the diff continues with another file
+      inHunk = false;
+    }
+    if (!inHunk) {
+      // Keep file names, for diffs of several files
+      if (line.startsWith('--- ')) {
+        oldFileName = parseFileName(line, 'a/');
+      } else if (line.startsWith('+++ ')) {
+        if (lines[index - 2]?.startsWith('+++ ')) {
+          // A second header for the same file, as in SVN's diffs
+          result.pop();
+        }
+        const newFileName = parseFileName(line, 'b/');
+        result.push({
+          type: 'file',
+          content: describeFile(oldFileName, newFileName),
+          fileName: newFileName ?? oldFileName,
+        });
+      }
+      // Skip other header lines, such as `diff --git`, `index` and `rename from`
       continue;
     }
     if (line.startsWith('+')) {
       currentNewLine++; // Increment before pushing
+      newLinesLeft--;
       result.push({
         type: 'add',
         newLine: currentNewLine,
@@ -66,6 +89,7 @@ function parseDiffWithLineNumbers(diffContent: string): DiffLine[] {
       });
     } else if (line.startsWith('-')) {
       currentOldLine++; // Increment before pushing
+      oldLinesLeft--;
       result.push({
         type: 'del',
         oldLine: currentOldLine,
@@ -74,6 +98,8 @@ function parseDiffWithLineNumbers(diffContent: string): DiffLine[] {
     } else if (line.startsWith(' ')) {
       currentOldLine++; // Increment before pushing
       currentNewLine++;
+      oldLinesLeft--;
+      newLinesLeft--;
       result.push({
         type: 'context',
         oldLine: currentOldLine,
@@ -85,9 +111,38 @@ function parseDiffWithLineNumbers(diffContent: string): DiffLine[] {
       result.push({ type: 'other', content: line });
     }
   }
+
+  // A single file is named by the surrounding UI, not in the diff
+  if (result.filter((line) => line.type === 'file').length <= 1) {
+    return result.filter((line) => line.type !== 'file');
+  }
   return result;
 }
 
+/** The name in a `---` or `+++` line, without a timestamp or git's prefix */
+function parseFileName(line: string, gitPrefix: string): string | undefined {
+  const name = line.substring(4).split('\t')[0].trim();
+  if (name === '/dev/null') {
+    return undefined;
+  }
+  return name.startsWith(gitPrefix) ? name.substring(gitPrefix.length) : name;
+}
+
+function describeFile(
+  oldFileName: string | undefined,
+  newFileName: string | undefined,
+): string {
+  if (!oldFileName) {
+    return `${newFileName} (new)`;
+  }
+  if (!newFileName) {
+    return `${oldFileName} (deleted)`;
+  }
+  return oldFileName === newFileName
+    ? newFileName
+    : `${oldFileName} → ${newFileName}`;
+}
+
 interface DiffRendererProps {
   diffContent: string;
   filename?: string;
@@ -210,15 +265,13 @@ const renderDiffContent = (
   const gutterWidth = Math.max(1, maxLineNumber.toString().length);
 
   const fileExtension = filename?.split('.').pop() || null;
-  const language = fileExtension
-    ? getLanguageFromExtension(fileExtension)
-    : null;
+  let language = fileExtension ? getLanguageFromExtension(fileExtension) : null;
 
   // Calculate the minimum indentation across all displayable lines
   let baseIndentation = Infinity; // Start high to find the minimum
   for (const line of displayableLines) {
     // Only consider lines with actual content for indentation calculation
-    if (line.content.trim() === '') continue;
+    if (line.type === 'file' || line.content.trim() === '') continue;
 
     const firstCharIndex = line.content.search(/\S/); // Find index of first non-whitespace char
     const currentIndent = firstCharIndex === -1 ? 0 : firstCharIndex; // Indent is 0 if no non-whitespace found
@@ -243,6 +296,21 @@ const renderDiffContent = (
       key={key}
     >
       {displayableLines.reduce<React.ReactNode[]>((acc, line, index) => {
+        if (line.type === 'file') {
+          // Line numbers start over in each file of a multi-file diff
+          lastLineNumber = null;
+          const extension = line.fileName?.split('.').pop() || null;
+          language = extension ? getLanguageFromExtension(extension) : null;
+          acc.push(
+            <Box key={`file-${index}`}>
+              <Text bold color={theme.text.accent} wrap="truncate-end">
+                {line.content}
+              </Text>
+            </Box>,
+          );
+          return acc;
+        }
+
         // Determine the relevant line number for gap calculation based on type
         let relevantLineNumberForGapCalc: number | null = null;
         if (line.type === 'add' || line.type === 'context') {
@@ -45,7 +45,8 @@ export const ToolConfirmationMessage: React.FC<
   const childWidth = terminalWidth - 2; // 2 for padding
 
   const handleConfirm = async (outcome: ToolConfirmationOutcome) => {
-    if (confirmationDetails.type === 'edit') {
+    // Changes listed in `files` are only shown here, not as a diff in the IDE
+    if (confirmationDetails.type === 'edit' && !confirmationDetails.files) {
       const ideClient = config.getIdeClient();
       if (config.getIdeMode()) {
         const cliOutcome =
@@ -163,7 +164,11 @@ export const ToolConfirmationMessage: React.FC<
       );
     }
 
-    question = `Apply this change?`;
+    const fileCount = confirmationDetails.files?.length ?? 1;
+    question =
+      fileCount > 1
+        ? `Apply these changes to ${fileCount} files?`
+        : `Apply this change?`;
     options.push({
       label: 'Yes, allow once',
       value: ToolConfirmationOutcome.ProceedOnce,
@@ -180,10 +185,12 @@ export const ToolConfirmationMessage: React.FC<
         value: ToolConfirmationOutcome.Cancel,
       });
     } else {
-      options.push({
-        label: 'Modify with external editor',
-        value: ToolConfirmationOutcome.ModifyWithEditor,
-      });
+      if (!confirmationDetails.files) {
+        options.push({
+          label: 'Modify with external editor',
+          value: ToolConfirmationOutcome.ModifyWithEditor,
+        });
+      }
       options.push({
         label: 'No, suggest changes (esc)',
         value: ToolConfirmationOutcome.Cancel,
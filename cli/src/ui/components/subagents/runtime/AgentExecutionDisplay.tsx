@@ -502,6 +502,34 @@ const ToolUsageStats: React.FC<{
   );
 };
 
+/**
+ * Worktree section - the branch and patch holding an isolated subagent's changes
+ */
+const WorktreeSection: React.FC<{
+  worktree: NonNullable<TaskResultDisplay['worktree']>;
+}> = ({ worktree }) => (
+  <Box flexDirection="column">
+    <Box flexDirection="row" marginBottom={1}>
+      <Text color={theme.text.primary}>Worktree Changes:</Text>
+    </Box>
+    {worktree.hasChanges ? (
+      <Box flexDirection="column" paddingLeft={1}>
+        <Text>
+          • <Text>Branch:</Text> {worktree.branch}
+        </Text>
+        <Text>
+          • <Text>Patch:</Text> {worktree.patchPath}
+        </Text>
+        <Text color={theme.text.secondary}>{worktree.diffStat}</Text>
+      </Box>
+    ) : (
+      <Box paddingLeft={1}>
+        <Text color={theme.text.secondary}>No files changed</Text>
+      </Box>
+    )}
+  </Box>
+);
+
 /**
  * Results section for completed executions - matches the clean layout from the image
  */
@@ -535,6 +563,9 @@ const ResultsSection: React.FC<{
       </Box>
     )}
 
+    {/* Where the changes of an isolated subagent went */}
+    {data.worktree && <WorktreeSection worktree={data.worktree} />}
+
     {/* Error reason for failed tasks */}
     {data.status === 'cancelled' && (
       <Box flexDirection="row">
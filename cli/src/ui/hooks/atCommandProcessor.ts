@@ -11,6 +11,7 @@ import type { AnyToolInvocation, Config } from 'recoder-code-core';
 import {
   getErrorMessage,
   isNodeError,
+  ReadMcpResourceTool,
   unescapePath,
 } from 'recoder-code-core';
 import type { HistoryItem, IndividualToolCallDisplay } from '../types.js';
@@ -36,6 +37,18 @@ interface AtCommandPart {
   content: string;
 }
 
+/** An `@server:uri` reference to a resource of an MCP server */
+interface ResourceMention {
+  serverName: string;
+  uri: string;
+}
+
+interface ResourceMentionsResult {
+  parts: PartUnion[];
+  displays: IndividualToolCallDisplay[];
+  failed: boolean;
+}
+
 /**
  * Parses a query string to find all '@<path>' commands and text segments.
  * Handles \ escaped spaces within paths.
@@ -110,11 +123,98 @@ function parseAllAtCommands(query: string): AtCommandPart[] {
   );
 }
 
+/**
+ * The resource an `@server:uri` mention refers to, if the text before the
+ * first colon names an MCP server that offers resources.
+ */
+function parseResourceMention(
+  pathName: string,
+  config: Config,
+): ResourceMention | undefined {
+  const separator = pathName.indexOf(':');
+  if (separator <= 0 || separator === pathName.length - 1) {
+    return undefined;
+  }
+  const serverName = pathName.substring(0, separator);
+  if (!config.getResourceRegistry().getServerNames().includes(serverName)) {
+    return undefined;
+  }
+  return { serverName, uri: pathName.substring(separator + 1) };
+}
+
+/**
+ * Reads the resources of `@server:uri` mentions with the read_mcp_resource
+ * tool. Their contents follow a label like the content of files does.
+ */
+async function readResourceMentions(
+  mentions: ResourceMention[],
+  config: Config,
+  userMessageTimestamp: number,
+  signal: AbortSignal,
+): Promise<ResourceMentionsResult> {
+  const result: ResourceMentionsResult = {
+    parts: [],
+    displays: [],
+    failed: false,
+  };
+  const readResourceTool = config
+    .getToolRegistry()
+    .getTool(ReadMcpResourceTool.Name);
+  if (!readResourceTool) {
+    result.failed = mentions.length > 0;
+    result.displays = mentions.map(({ serverName, uri }, index) => ({
+      callId: `client-resource-${userMessageTimestamp}-${index}`,
+      name: ReadMcpResourceTool.Name,
+      description: `${serverName}:${uri}`,
+      status: ToolCallStatus.Error,
+      resultDisplay: `Error: ${ReadMcpResourceTool.Name} tool not found.`,
+      confirmationDetails: undefined,
+    }));
+    return result;
+  }
+
+  for (const [index, { serverName, uri }] of mentions.entries()) {
+    let invocation: AnyToolInvocation | undefined = undefined;
+    let display: string;
+    let status = ToolCallStatus.Success;
+    try {
+      invocation = readResourceTool.build({ server_name: serverName, uri });
+      const toolResult = await invocation.execute(signal);
+      if (toolResult.error) {
+        status = ToolCallStatus.Error;
+        display = toolResult.error.message;
+      } else {
+        display = String(toolResult.returnDisplay);
+        result.parts.push({ text: `\nContent from @${serverName}:${uri}:\n` });
+        result.parts.push(
+          ...(Array.isArray(toolResult.llmContent)
+            ? toolResult.llmContent
+            : [toolResult.llmContent]),
+        );
+      }
+    } catch (error) {
+      status = ToolCallStatus.Error;
+      display = `Error reading resource ${serverName}:${uri}: ${getErrorMessage(error)}`;
+    }
+    result.failed ||= status === ToolCallStatus.Error;
+    result.displays.push({
+      callId: `client-resource-${userMessageTimestamp}-${index}`,
+      name: readResourceTool.displayName,
+      description: invocation?.getDescription() ?? `${serverName}:${uri}`,
+      status,
+      resultDisplay: display,
+      confirmationDetails: undefined,
+    });
+  }
+  return result;
+}
+
 /**
  * Processes user input potentially containing one or more '@<path>' commands.
  * If found, it attempts to read the specified files/directories using the
  * 'read_many_files' tool. The user query is modified to include resolved paths,
- * and the content of the files is appended in a structured block.
+ * and the content of the files is appended in a structured block. Mentions of
+ * MCP resources, '@<server>:<uri>', are read with the 'read_mcp_resource' tool.
  *
  * @returns An object indicating whether the main hook should proceed with an
  *          LLM call and the processed query parts (including file content).
@@ -142,6 +242,7 @@ export async function handleAtCommand({
   const respectFileIgnore = config.getFileFilteringOptions();
 
   const pathSpecsToRead: string[] = [];
+  const resourcesToRead: ResourceMention[] = [];
   const atPathToResolvedSpecMap = new Map<string, string>();
   const contentLabelsForDisplay: string[] = [];
   const ignoredByReason: Record<string, string[]> = {
@@ -188,6 +289,13 @@ export async function handleAtCommand({
       return { processedQuery: null, shouldProceed: false };
     }
 
+    const resourceMention = parseResourceMention(pathName, config);
+    if (resourceMention) {
+      resourcesToRead.push(resourceMention);
+      atPathToResolvedSpecMap.set(originalAtPath, pathName);
+      continue;
+    }
+
     // Check if path should be ignored based on filtering options
 
     const workspaceContext = config.getWorkspaceContext();
@@ -376,6 +484,37 @@ export async function handleAtCommand({
     onDebugMessage(message);
   }
 
+  const resources = await readResourceMentions(
+    resourcesToRead,
+    config,
+    userMessageTimestamp,
+    signal,
+  );
+  if (resources.failed) {
+    addItem(
+      { type: 'tool_group', tools: resources.displays } as Omit<
+        HistoryItem,
+        'id'
+      >,
+      userMessageTimestamp,
+    );
+    return { processedQuery: null, shouldProceed: false };
+  }
+
+  if (pathSpecsToRead.length === 0 && resources.displays.length > 0) {
+    addItem(
+      { type: 'tool_group', tools: resources.displays } as Omit<
+        HistoryItem,
+        'id'
+      >,
+      userMessageTimestamp,
+    );
+    return {
+      processedQuery: [{ text: initialQueryText }, ...resources.parts],
+      shouldProceed: true,
+    };
+  }
+
   // Fallback for lone "@" or completely invalid @-commands resulting in empty initialQueryText
   if (pathSpecsToRead.length === 0) {
     onDebugMessage('No valid file paths found in @ commands to read.');
@@ -448,12 +587,13 @@ export async function handleAtCommand({
         'read_many_files tool returned no content or empty content.',
       );
     }
+    processedQueryParts.push(...resources.parts);
 
     addItem(
-      { type: 'tool_group', tools: [toolCallDisplay] } as Omit<
-        HistoryItem,
-        'id'
-      >,
+      {
+        type: 'tool_group',
+        tools: [toolCallDisplay, ...resources.displays],
+      } as Omit<HistoryItem, 'id'>,
       userMessageTimestamp,
     );
     return { processedQuery: processedQueryParts, shouldProceed: true };
@@ -469,10 +609,10 @@ export async function handleAtCommand({
       confirmationDetails: undefined,
     };
     addItem(
-      { type: 'tool_group', tools: [toolCallDisplay] } as Omit<
-        HistoryItem,
-        'id'
-      >,
+      {
+        type: 'tool_group',
+        tools: [toolCallDisplay, ...resources.displays],
+      } as Omit<HistoryItem, 'id'>,
       userMessageTimestamp,
     );
     return { processedQuery: null, shouldProceed: false };
@@ -53,6 +53,7 @@ export const useSlashCommandProcessor = (
   setQuittingMessages: (message: HistoryItem[]) => void,
   openPrivacyNotice: () => void,
   openSettingsDialog: () => void,
+  openPermissionsDialog: () => void,
   openModelSelectionDialog: () => void,
   openSubagentCreateDialog: () => void,
   openAgentsManagerDialog: () => void,
@@ -405,6 +406,9 @@ export const useSlashCommandProcessor = (
                     case 'settings':
                       openSettingsDialog();
                       return { type: 'handled' };
+                    case 'permissions':
+                      openPermissionsDialog();
+                      return { type: 'handled' };
                     case 'model':
                       openModelSelectionDialog();
                       return { type: 'handled' };
@@ -669,6 +673,7 @@ export const useSlashCommandProcessor = (
       openEditorDialog,
       setQuittingMessages,
       openSettingsDialog,
+      openPermissionsDialog,
       openSubagentCreateDialog,
       openAgentsManagerDialog,
       setShellConfirmationRequest,
@@ -10,6 +10,101 @@ import { FileSearchFactory, escapePath } from 'recoder-code-core';
 import type { Suggestion } from '../components/SuggestionsDisplay.js';
 import { MAX_SUGGESTIONS_TO_SHOW } from '../components/SuggestionsDisplay.js';
 
+/** `@search:<query>` suggests files found by semantic code search */
+export const SEMANTIC_SEARCH_PREFIX = 'search:';
+/** Each semantic search embeds the query, so it waits for a pause in typing */
+const SEMANTIC_SEARCH_DEBOUNCE_MS = 500;
+const MIN_SEMANTIC_QUERY_LENGTH = 3;
+
+/**
+ * Suggests the files whose code best matches `query`, best first, with the
+ * matching symbol and lines.
+ */
+async function searchCode(
+  config: Config | undefined,
+  query: string,
+  signal: AbortSignal,
+): Promise<Suggestion[]> {
+  if (!config || query.trim().length < MIN_SEMANTIC_QUERY_LENGTH) {
+    return [];
+  }
+  await new Promise((resolve) =>
+    setTimeout(resolve, SEMANTIC_SEARCH_DEBOUNCE_MS),
+  );
+  if (signal.aborted) {
+    return [];
+  }
+  const results = await config
+    .getCodeIndexService()
+    .search(query, { limit: MAX_SUGGESTIONS_TO_SHOW * 2, signal });
+  const suggestions: Suggestion[] = [];
+  for (const result of results) {
+    if (suggestions.some((s) => s.label === result.filePath)) {
+      continue;
+    }
+    const lines = `lines ${result.startLine}-${result.endLine}`;
+    suggestions.push({
+      label: result.filePath,
+      value: escapePath(result.filePath),
+      description: result.symbol ? `${result.symbol}, ${lines}` : lines,
+    });
+  }
+  return suggestions;
+}
+
+/**
+ * Suggests `@server:uri` mentions of MCP resources. A pattern without a
+ * colon matches server names; after `server:` the URIs and names of the
+ * server's resources are matched. A template is completed up to its first
+ * variable.
+ */
+function suggestResources(
+  config: Config | undefined,
+  pattern: string,
+): Suggestion[] {
+  if (!config || !pattern) {
+    return [];
+  }
+  const registry = config.getResourceRegistry();
+  const separator = pattern.indexOf(':');
+  const serverPattern =
+    separator === -1 ? pattern : pattern.slice(0, separator);
+  const query = separator === -1 ? '' : pattern.slice(separator + 1);
+  const matches = (...texts: Array<string | undefined>) =>
+    texts.some((text) => text?.toLowerCase().includes(query.toLowerCase()));
+
+  const suggestions: Suggestion[] = [];
+  for (const serverName of registry.getServerNames()) {
+    if (
+      separator === -1
+        ? !serverName.startsWith(serverPattern)
+        : serverName !== serverPattern
+    ) {
+      continue;
+    }
+    for (const resource of registry.getResourcesByServer(serverName)) {
+      if (matches(resource.uri, resource.name, resource.title)) {
+        suggestions.push({
+          label: `${serverName}:${resource.uri}`,
+          value: escapePath(`${serverName}:${resource.uri}`),
+          description: resource.title ?? resource.name,
+        });
+      }
+    }
+    for (const template of registry.getResourceTemplatesByServer(serverName)) {
+      if (matches(template.uriTemplate, template.name, template.title)) {
+        const prefix = template.uriTemplate.split('{')[0];
+        suggestions.push({
+          label: `${serverName}:${template.uriTemplate}`,
+          value: escapePath(`${serverName}:${prefix}`),
+          description: template.title ?? template.name,
+        });
+      }
+    }
+  }
+  return suggestions.slice(0, MAX_SUGGESTIONS_TO_SHOW * 3);
+}
+
 export enum AtCompletionStatus {
   IDLE = 'idle',
   INITIALIZING = 'initializing',
@@ -197,10 +292,32 @@ export function useAtCompletion(props: UseAtCompletionProps): void {
       }, 200);
 
       try {
-        const results = await fileSearch.current.search(state.pattern, {
-          signal: controller.signal,
-          maxResults: MAX_SUGGESTIONS_TO_SHOW * 3,
-        });
+        let suggestions: Suggestion[];
+        if (state.pattern.startsWith(SEMANTIC_SEARCH_PREFIX)) {
+          suggestions = await searchCode(
+            config,
+            state.pattern.slice(SEMANTIC_SEARCH_PREFIX.length),
+            controller.signal,
+          );
+        } else {
+          const resources = suggestResources(config, state.pattern);
+          // After `server:` only the server's resources are meant
+          const isResourceMention =
+            resources.length > 0 && state.pattern.includes(':');
+          const results = isResourceMention
+            ? []
+            : await fileSearch.current.search(state.pattern, {
+                signal: controller.signal,
+                maxResults: MAX_SUGGESTIONS_TO_SHOW * 3,
+              });
+          suggestions = [
+            ...results.map((p) => ({
+              label: p,
+              value: escapePath(p),
+            })),
+            ...resources,
+          ];
+        }
 
         if (slowSearchTimer.current) {
           clearTimeout(slowSearchTimer.current);
@@ -210,10 +327,6 @@ export function useAtCompletion(props: UseAtCompletionProps): void {
           return;
         }
 
-        const suggestions = results.map((p) => ({
-          label: p,
-          value: escapePath(p),
-        }));
         dispatch({ type: 'SEARCH_SUCCESS', payload: suggestions });
       } catch (error) {
         if (!(error instanceof Error && error.name === 'AbortError')) {
@@ -0,0 +1,21 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import type { Config } from 'recoder-code-core';
+
+/** Number of background shell jobs that are still running */
+export function useBackgroundJobCount(config: Config): number {
+  const service = config.getBackgroundJobService();
+  const [count, setCount] = useState(() => service.getRunningCount());
+
+  useEffect(
+    () => service.subscribe(() => setCount(service.getRunningCount())),
+    [service],
+  );
+
+  return count;
+}
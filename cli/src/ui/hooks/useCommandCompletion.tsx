@@ -11,7 +11,10 @@ import type { TextBuffer } from '../components/shared/text-buffer.js';
 import { logicalPosToOffset } from '../components/shared/text-buffer.js';
 import { isSlashCommand } from '../utils/commandUtils.js';
 import { toCodePoints } from '../utils/textUtils.js';
-import { useAtCompletion } from './useAtCompletion.js';
+import {
+  SEMANTIC_SEARCH_PREFIX,
+  useAtCompletion,
+} from './useAtCompletion.js';
 import { useSlashCompletion } from './useSlashCompletion.js';
 import type { PromptCompletion } from './usePromptCompletion.js';
 import {
@@ -21,6 +24,11 @@ import {
 import type { Config } from 'recoder-code-core';
 import { useCompletion } from './useCompletion.js';
 
+/** `@search:<query>` at the end of the text before the cursor */
+const SEMANTIC_SEARCH_QUERY = new RegExp(
+  `(?:^|\\s)@(${SEMANTIC_SEARCH_PREFIX}[^@]*)$`,
+);
+
 export enum CompletionMode {
   IDLE = 'IDLE',
   AT = 'AT',
@@ -89,6 +97,20 @@ export function useCommandCompletion(
       }
 
       const codePoints = toCodePoints(currentLine);
+
+      // A semantic search query may contain spaces, so it runs up to the cursor
+      const semanticQuery = SEMANTIC_SEARCH_QUERY.exec(
+        codePoints.slice(0, cursorCol).join(''),
+      );
+      if (semanticQuery) {
+        return {
+          completionMode: CompletionMode.AT,
+          query: semanticQuery[1],
+          completionStart: cursorCol - toCodePoints(semanticQuery[1]).length,
+          completionEnd: cursorCol,
+        };
+      }
+
       for (let i = cursorCol - 1; i >= 0; i--) {
         const char = codePoints[i];
 
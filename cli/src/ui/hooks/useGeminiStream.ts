@@ -13,6 +13,7 @@ import type {
   ServerGeminiErrorEvent as ErrorEvent,
   ServerGeminiChatCompressedEvent,
   ServerGeminiFinishedEvent,
+  HookBlockedValue,
   ToolCallRequestInfo,
   EditorType,
   ThoughtSummary,
@@ -599,6 +600,18 @@ export const useGeminiStream = (
     );
   }, [addItem]);
 
+  const handleHookBlockedEvent = useCallback(
+    (value: HookBlockedValue, userMessageTimestamp: number) =>
+      addItem(
+        {
+          type: MessageType.ERROR,
+          text: `Prompt blocked by ${value.hookEventName} hook${value.reason ? `: ${value.reason}` : '.'}`,
+        },
+        userMessageTimestamp,
+      ),
+    [addItem],
+  );
+
   const processGeminiStreamEvents = useCallback(
     async (
       stream: AsyncIterable<GeminiEvent>,
@@ -655,6 +668,9 @@ export const useGeminiStream = (
           case ServerGeminiEventType.Retry:
             // Will add the missing logic later
             break;
+          case ServerGeminiEventType.HookBlocked:
+            handleHookBlockedEvent(event.value, userMessageTimestamp);
+            break;
           default: {
             // enforces exhaustive switch-case
             const unreachable: never = event;
@@ -676,6 +692,7 @@ export const useGeminiStream = (
       handleFinishedEvent,
       handleMaxSessionTurnsEvent,
       handleSessionTokenLimitExceededEvent,
+      handleHookBlockedEvent,
     ],
   );
 
@@ -894,6 +911,8 @@ export const useGeminiStream = (
         return;
       }
 
+      geminiClient?.recordCompletedToolCalls(geminiTools);
+
       // If all the tools were cancelled, don't submit a response to Gemini.
       const allToolsCancelled = geminiTools.every(
         (tc) => tc.status === 'cancelled',
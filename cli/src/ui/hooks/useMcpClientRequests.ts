@@ -0,0 +1,80 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import type { ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import type { Config } from 'recoder-code-core';
+import { ToolConfirmationOutcome } from 'recoder-code-core';
+import type { McpSamplingConfirmationRequest } from '../components/McpSamplingDialog.js';
+import type { McpElicitationDialogRequest } from '../components/McpElicitationDialog.js';
+
+let nextElicitationId = 0;
+
+/**
+ * Queues the requests MCP servers make of the user, sampling confirmations
+ * and elicitations, and returns the first of each to show as a dialog. A
+ * request the server cancels is removed without an answer from the user.
+ */
+export function useMcpClientRequests(config: Config) {
+  const [samplingRequests, setSamplingRequests] = useState<
+    McpSamplingConfirmationRequest[]
+  >([]);
+  const [elicitationRequests, setElicitationRequests] = useState<
+    McpElicitationDialogRequest[]
+  >([]);
+
+  useEffect(() => {
+    config.setMcpSamplingHandler(
+      (request, signal) =>
+        new Promise<ToolConfirmationOutcome>((resolve) => {
+          const entry: McpSamplingConfirmationRequest = {
+            ...request,
+            onConfirm: (outcome) => {
+              signal.removeEventListener('abort', onAbort);
+              setSamplingRequests((queue) => queue.filter((r) => r !== entry));
+              resolve(outcome);
+            },
+          };
+          const onAbort = () => entry.onConfirm(ToolConfirmationOutcome.Cancel);
+          if (signal.aborted) {
+            resolve(ToolConfirmationOutcome.Cancel);
+            return;
+          }
+          signal.addEventListener('abort', onAbort);
+          setSamplingRequests((queue) => [...queue, entry]);
+        }),
+    );
+
+    config.setMcpElicitationHandler(
+      (request, signal) =>
+        new Promise<ElicitResult>((resolve) => {
+          const entry: McpElicitationDialogRequest = {
+            ...request,
+            id: nextElicitationId++,
+            onAnswer: (result) => {
+              signal.removeEventListener('abort', onAbort);
+              setElicitationRequests((queue) =>
+                queue.filter((r) => r !== entry),
+              );
+              resolve(result);
+            },
+          };
+          const onAbort = () => entry.onAnswer({ action: 'cancel' });
+          if (signal.aborted) {
+            resolve({ action: 'cancel' });
+            return;
+          }
+          signal.addEventListener('abort', onAbort);
+          setElicitationRequests((queue) => [...queue, entry]);
+        }),
+    );
+  }, [config]);
+
+  return {
+    mcpSamplingRequest: samplingRequests[0],
+    mcpElicitationRequest: elicitationRequests[0],
+  };
+}
@@ -0,0 +1,38 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect } from 'react';
+import {
+  PROVIDER_SWITCH_EVENT,
+  providerFallbackEvents,
+  type ProviderSwitchEvent,
+} from 'recoder-code-core';
+import { MessageType } from '../types.js';
+import type { UseHistoryManagerReturn } from './useHistoryManager.js';
+
+/**
+ * Surfaces provider fallback chain switches in the chat history.
+ */
+export function useProviderFallback(
+  addItem: UseHistoryManagerReturn['addItem'],
+): void {
+  useEffect(() => {
+    const handleSwitch = (event: ProviderSwitchEvent) => {
+      addItem(
+        {
+          type: MessageType.INFO,
+          text: `⚡ Switched from ${event.fromProvider} (${event.fromModel}) to ${event.toProvider} (${event.toModel}): ${event.reason}`,
+        },
+        Date.now(),
+      );
+    };
+
+    providerFallbackEvents.on(PROVIDER_SWITCH_EVENT, handleSwitch);
+    return () => {
+      providerFallbackEvents.off(PROVIDER_SWITCH_EVENT, handleSwitch);
+    };
+  }, [addItem]);
+}
@@ -0,0 +1,131 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  getErrorMessage,
+  listSessions,
+  loadSession,
+  type Config,
+  type SessionSummary,
+} from 'recoder-code-core';
+import type { UseHistoryManagerReturn } from './useHistoryManager.js';
+import type { HistoryItem } from '../types.js';
+import { MessageType } from '../types.js';
+import { conversationToUiHistory } from '../utils/sessionUtils.js';
+
+export interface SessionResumeState {
+  isSessionPickerOpen: boolean;
+  sessions: SessionSummary[];
+  /** True until a requested session has been restored (or failed to) */
+  isResumingSession: boolean;
+  handleSessionSelect: (sessionId: string | undefined) => void;
+}
+
+/**
+ * Restores a recorded session requested with --resume/--continue.
+ * A bare --resume opens a picker first. The session is applied once the
+ * client is authenticated, restoring both model and rendered history.
+ */
+export function useSessionResume(
+  config: Config,
+  resumeSession: string | undefined,
+  isAuthenticating: boolean,
+  addItem: UseHistoryManagerReturn['addItem'],
+  loadHistory: UseHistoryManagerReturn['loadHistory'],
+  clearScreen: () => void,
+): SessionResumeState {
+  const [sessions] = useState<SessionSummary[]>(() =>
+    resumeSession === '' ? listSessions(config) : [],
+  );
+  const [isSessionPickerOpen, setIsSessionPickerOpen] = useState(
+    resumeSession === '' && sessions.length > 0,
+  );
+  const [selectedSession, setSelectedSession] = useState<string | undefined>(
+    resumeSession || undefined,
+  );
+
+  useEffect(() => {
+    if (resumeSession === '' && sessions.length === 0) {
+      addItem(
+        { type: MessageType.INFO, text: 'No recorded sessions to resume.' },
+        Date.now(),
+      );
+    }
+  }, [resumeSession, sessions, addItem]);
+
+  const geminiClient = config.getGeminiClient();
+  const isClientReady = !isAuthenticating && !!geminiClient?.isInitialized?.();
+
+  useEffect(() => {
+    if (!selectedSession || !isClientReady) {
+      return;
+    }
+    setSelectedSession(undefined);
+
+    const resume = async () => {
+      const resumed = loadSession(config, selectedSession);
+      if (!resumed) {
+        addItem(
+          {
+            type: MessageType.ERROR,
+            text: `No recorded session found matching "${selectedSession}".`,
+          },
+          Date.now(),
+        );
+        return;
+      }
+      try {
+        await config.getGeminiClient().resumeSession(resumed);
+        clearScreen();
+        // IDs below the current time cannot clash with those addItem assigns
+        // from now on
+        const items = conversationToUiHistory(resumed.conversation);
+        const firstId = Date.now() - items.length;
+        loadHistory(
+          items.map(
+            (item, index) => ({ ...item, id: firstId + index }) as HistoryItem,
+          ),
+        );
+        addItem(
+          {
+            type: MessageType.INFO,
+            text: `Resumed session ${resumed.conversation.sessionId.slice(0, 8)} (${resumed.conversation.messages.length} messages).`,
+          },
+          Date.now(),
+        );
+      } catch (error) {
+        addItem(
+          {
+            type: MessageType.ERROR,
+            text: `Failed to resume session: ${getErrorMessage(error)}`,
+          },
+          Date.now(),
+        );
+      }
+    };
+    void resume();
+  }, [
+    selectedSession,
+    isClientReady,
+    config,
+    addItem,
+    loadHistory,
+    clearScreen,
+  ]);
+
+  const handleSessionSelect = useCallback((sessionId: string | undefined) => {
+    setIsSessionPickerOpen(false);
+    setSelectedSession(sessionId);
+  }, []);
+
+  return {
+    isSessionPickerOpen,
+    sessions,
+    isResumingSession: isSessionPickerOpen || !!selectedSession,
+    handleSessionSelect,
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ConversationRecord, ToolCallRecord } from 'recoder-code-core';
+import type {
+  HistoryItemWithoutId,
+  IndividualToolCallDisplay,
+} from '../types.js';
+import { MessageType, ToolCallStatus } from '../types.js';
+
+const toolStatusMap: Record<ToolCallRecord['status'], ToolCallStatus> = {
+  validating: ToolCallStatus.Executing,
+  scheduled: ToolCallStatus.Pending,
+  awaiting_approval: ToolCallStatus.Confirming,
+  executing: ToolCallStatus.Executing,
+  success: ToolCallStatus.Success,
+  error: ToolCallStatus.Error,
+  cancelled: ToolCallStatus.Canceled,
+};
+
+/**
+ * Rebuilds the rendered history of a recorded session: user prompts, model
+ * responses and a tool group for each batch of tool calls.
+ */
+export function conversationToUiHistory(
+  conversation: ConversationRecord,
+): HistoryItemWithoutId[] {
+  const items: HistoryItemWithoutId[] = [];
+  for (const message of conversation.messages) {
+    if (message.type === 'user') {
+      items.push({ type: MessageType.USER, text: message.content });
+      continue;
+    }
+
+    if (message.content) {
+      items.push({ type: MessageType.GEMINI, text: message.content });
+    }
+    if (message.toolCalls?.length) {
+      items.push({
+        type: 'tool_group',
+        tools: message.toolCalls.map(
+          (toolCall): IndividualToolCallDisplay => ({
+            callId: toolCall.id,
+            name: toolCall.displayName ?? toolCall.name,
+            description: toolCall.description ?? '',
+            resultDisplay: toolCall.resultDisplay,
+            status: toolStatusMap[toolCall.status] ?? ToolCallStatus.Success,
+            confirmationDetails: undefined,
+            renderOutputAsMarkdown: toolCall.renderOutputAsMarkdown,
+          }),
+        ),
+      });
+    }
+  }
+  return items;
+}
+
+/**
+ * Formats an ISO timestamp as a short relative age, e.g. "5m ago".
+ */
+export function formatSessionAge(isoTimestamp: string, now = Date.now()): string {
+  const seconds = Math.max(0, Math.round((now - Date.parse(isoTimestamp)) / 1000));
+  if (seconds < 60) return 'just now';
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)}d ago`;
+}
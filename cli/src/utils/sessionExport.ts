@@ -0,0 +1,347 @@
+/**
+ * Session Export - Render recorded sessions for sharing
+ * Markdown and self-contained HTML for PRs and incident reports, and
+ * OpenAI-style JSONL records for fine-tuning.
+ */
+
+import type {
+  ConversationRecord,
+  MessageRecord,
+  ToolCallRecord,
+  TokensSummary,
+} from 'recoder-code-core';
+import type { Part, PartListUnion } from '@google/genai';
+
+export type SessionExportFormat = 'markdown' | 'html' | 'jsonl';
+
+const FORMAT_ALIASES: Record<string, SessionExportFormat> = {
+  md: 'markdown',
+  markdown: 'markdown',
+  html: 'html',
+  htm: 'html',
+  jsonl: 'jsonl',
+};
+
+const FILE_EXTENSIONS: Record<SessionExportFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  jsonl: 'jsonl',
+};
+
+/**
+ * Resolve a user-supplied format name, or undefined if it is not supported.
+ */
+export function parseExportFormat(
+  value: string,
+): SessionExportFormat | undefined {
+  return FORMAT_ALIASES[value.toLowerCase()];
+}
+
+/**
+ * Infer the export format from an output file name, e.g. `report.html`.
+ */
+export function formatFromFileName(
+  fileName: string,
+): SessionExportFormat | undefined {
+  const extension = fileName.split('.').pop();
+  return extension && extension !== fileName
+    ? parseExportFormat(extension)
+    : undefined;
+}
+
+export function getDefaultExportFileName(
+  conversation: ConversationRecord,
+  format: SessionExportFormat,
+): string {
+  return `recoder-session-${conversation.sessionId.slice(0, 8)}.${FILE_EXTENSIONS[format]}`;
+}
+
+export function exportSession(
+  conversation: ConversationRecord,
+  format: SessionExportFormat,
+): string {
+  switch (format) {
+    case 'markdown':
+      return toMarkdown(conversation);
+    case 'html':
+      return toHtml(conversation);
+    case 'jsonl':
+      return toJsonl(conversation);
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+}
+
+function formatTokenUsage(tokens: TokensSummary): string {
+  const parts = [
+    `${tokens.input} in`,
+    `${tokens.output} out`,
+    `${tokens.cached} cached`,
+  ];
+  if (tokens.thoughts) parts.push(`${tokens.thoughts} thoughts`);
+  if (tokens.tool) parts.push(`${tokens.tool} tool`);
+  return `${tokens.total} tokens (${parts.join(', ')})`;
+}
+
+function sumTokens(conversation: ConversationRecord): number {
+  return conversation.messages.reduce(
+    (total, message) =>
+      total + (message.type === 'gemini' ? (message.tokens?.total ?? 0) : 0),
+    0,
+  );
+}
+
+function formatArgs(args: Record<string, unknown>): string {
+  return JSON.stringify(args, null, 2);
+}
+
+/** A fence longer than any backtick run in the content, so it cannot close early */
+function fence(content: string, language = ''): string {
+  const longestRun = Math.max(
+    2,
+    ...(content.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const marker = '`'.repeat(longestRun + 1);
+  return `${marker}${language}\n${content.replace(/\n+$/, '')}\n${marker}`;
+}
+
+function messageHeading(message: MessageRecord): string {
+  return message.type === 'user'
+    ? 'User'
+    : `Assistant${message.model ? ` (${message.model})` : ''}`;
+}
+
+function toMarkdown(conversation: ConversationRecord): string {
+  const lines = [
+    `# Session ${conversation.sessionId}`,
+    '',
+    `- Project: ${conversation.projectRoot ?? conversation.projectHash}`,
+    `- Started: ${conversation.startTime}`,
+    `- Last updated: ${conversation.lastUpdated}`,
+    `- Messages: ${conversation.messages.length}`,
+    `- Tokens: ${sumTokens(conversation)}`,
+  ];
+
+  for (const message of conversation.messages) {
+    lines.push('', `## ${messageHeading(message)}`, '', `_${message.timestamp}_`);
+
+    if (message.type === 'gemini') {
+      for (const thought of message.thoughts ?? []) {
+        lines.push(
+          '',
+          `> **Thinking: ${thought.subject || 'thought'}**`,
+          ...thought.description.split('\n').map((line) => `> ${line}`),
+        );
+      }
+    }
+    if (message.content) {
+      lines.push('', message.content);
+    }
+    if (message.type !== 'gemini') {
+      continue;
+    }
+
+    for (const toolCall of message.toolCalls ?? []) {
+      lines.push(
+        '',
+        `### Tool: ${toolCall.displayName ?? toolCall.name} (${toolCall.status})`,
+      );
+      if (toolCall.description) {
+        lines.push('', toolCall.description);
+      }
+      lines.push('', fence(formatArgs(toolCall.args), 'json'));
+      if (toolCall.fileDiff) {
+        lines.push('', fence(toolCall.fileDiff.fileDiff, 'diff'));
+      } else if (toolCall.resultDisplay) {
+        lines.push(
+          '',
+          toolCall.renderOutputAsMarkdown
+            ? toolCall.resultDisplay
+            : fence(toolCall.resultDisplay),
+        );
+      }
+    }
+    if (message.tokens) {
+      lines.push('', `_Usage: ${formatTokenUsage(message.tokens)}_`);
+    }
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function diffToHtml(diff: string): string {
+  return diff
+    .split('\n')
+    .map((line) => {
+      const escaped = escapeHtml(line);
+      if (line.startsWith('+') && !line.startsWith('+++')) {
+        return `<span class="add">${escaped}</span>`;
+      }
+      if (line.startsWith('-') && !line.startsWith('---')) {
+        return `<span class="del">${escaped}</span>`;
+      }
+      if (line.startsWith('@@')) {
+        return `<span class="hunk">${escaped}</span>`;
+      }
+      return escaped;
+    })
+    .join('\n');
+}
+
+function toolCallToHtml(toolCall: ToolCallRecord): string {
+  const parts = [
+    `<details class="tool ${escapeHtml(toolCall.status)}"${toolCall.fileDiff ? ' open' : ''}>`,
+    `<summary><strong>${escapeHtml(toolCall.displayName ?? toolCall.name)}</strong> <span class="status">${escapeHtml(toolCall.status)}</span> ${escapeHtml(toolCall.description ?? '')}</summary>`,
+    `<pre>${escapeHtml(formatArgs(toolCall.args))}</pre>`,
+  ];
+  if (toolCall.fileDiff) {
+    parts.push(
+      `<div class="file">${escapeHtml(toolCall.fileDiff.fileName)}</div>`,
+      `<pre class="diff">${diffToHtml(toolCall.fileDiff.fileDiff)}</pre>`,
+    );
+  } else if (toolCall.resultDisplay) {
+    parts.push(`<pre>${escapeHtml(toolCall.resultDisplay)}</pre>`);
+  }
+  parts.push('</details>');
+  return parts.join('\n');
+}
+
+function messageToHtml(message: MessageRecord): string {
+  const parts = [
+    `<section class="message ${message.type}">`,
+    `<header><span class="role">${escapeHtml(messageHeading(message))}</span><time>${escapeHtml(message.timestamp)}</time></header>`,
+  ];
+  if (message.type === 'gemini') {
+    for (const thought of message.thoughts ?? []) {
+      parts.push(
+        `<details class="thought"><summary>Thinking: ${escapeHtml(thought.subject || 'thought')}</summary><div class="text">${escapeHtml(thought.description)}</div></details>`,
+      );
+    }
+  }
+  if (message.content) {
+    parts.push(`<div class="text">${escapeHtml(message.content)}</div>`);
+  }
+  if (message.type === 'gemini') {
+    parts.push(...(message.toolCalls ?? []).map(toolCallToHtml));
+    if (message.tokens) {
+      parts.push(
+        `<footer>${escapeHtml(formatTokenUsage(message.tokens))}</footer>`,
+      );
+    }
+  }
+  parts.push('</section>');
+  return parts.join('\n');
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+h1 { font-size: 1.4rem; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; color: #59636e; }
+.message { border: 1px solid #d1d9e0; border-radius: 6px; margin: 1rem 0; padding: 0.75rem 1rem; }
+.message.user { background: #f6f8fa; }
+.message header { display: flex; justify-content: space-between; font-size: 0.85rem; color: #59636e; margin-bottom: 0.5rem; }
+.message .role { font-weight: 600; color: #1f2328; }
+.text { white-space: pre-wrap; }
+.thought { color: #59636e; font-style: italic; margin-bottom: 0.5rem; }
+.tool { border-left: 3px solid #0969da; margin: 0.5rem 0; padding-left: 0.75rem; }
+.tool.error { border-color: #d1242f; }
+.tool.cancelled { border-color: #9a6700; }
+.status { font-size: 0.8rem; color: #59636e; }
+.file { font-family: monospace; font-weight: 600; margin-top: 0.5rem; }
+pre { background: #f6f8fa; padding: 0.5rem; overflow-x: auto; font-size: 0.85rem; }
+.diff .add { background: #dafbe1; display: inline-block; width: 100%; }
+.diff .del { background: #ffebe9; display: inline-block; width: 100%; }
+.diff .hunk { color: #0969da; }
+footer { font-size: 0.8rem; color: #59636e; margin-top: 0.5rem; }
+`;
+
+function toHtml(conversation: ConversationRecord): string {
+  const title = `Session ${conversation.sessionId.slice(0, 8)}`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<dl>
+<dt>Session</dt><dd>${escapeHtml(conversation.sessionId)}</dd>
+<dt>Project</dt><dd>${escapeHtml(conversation.projectRoot ?? conversation.projectHash)}</dd>
+<dt>Started</dt><dd>${escapeHtml(conversation.startTime)}</dd>
+<dt>Last updated</dt><dd>${escapeHtml(conversation.lastUpdated)}</dd>
+<dt>Tokens</dt><dd>${sumTokens(conversation)}</dd>
+</dl>
+${conversation.messages.map(messageToHtml).join('\n')}
+</body>
+</html>
+`;
+}
+
+/** The text the model saw as a tool's output */
+function toolResultText(toolCall: ToolCallRecord): string {
+  const result: PartListUnion | null | undefined = toolCall.result;
+  if (!result) {
+    return toolCall.resultDisplay ?? '';
+  }
+  const parts = (Array.isArray(result) ? result : [result]).map(
+    (part): Part => (typeof part === 'string' ? { text: part } : part),
+  );
+  return parts
+    .map((part) => {
+      if (part.functionResponse) {
+        const response = part.functionResponse.response ?? {};
+        const output = response['output'] ?? response['error'] ?? response;
+        return typeof output === 'string' ? output : JSON.stringify(output);
+      }
+      return part.text ?? '';
+    })
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * A fine-tuning record in the OpenAI chat format: assistant messages carry
+ * `tool_calls` and each result follows as a `tool` message.
+ */
+function toJsonl(conversation: ConversationRecord): string {
+  const messages: Array<Record<string, unknown>> = [];
+  for (const message of conversation.messages) {
+    if (message.type === 'user') {
+      messages.push({ role: 'user', content: message.content });
+      continue;
+    }
+
+    const toolCalls = message.toolCalls ?? [];
+    messages.push({
+      role: 'assistant',
+      content: message.content || null,
+      ...(toolCalls.length > 0 && {
+        tool_calls: toolCalls.map((toolCall) => ({
+          id: toolCall.id,
+          type: 'function',
+          function: {
+            name: toolCall.name,
+            arguments: JSON.stringify(toolCall.args),
+          },
+        })),
+      }),
+    });
+    for (const toolCall of toolCalls) {
+      messages.push({
+        role: 'tool',
+        tool_call_id: toolCall.id,
+        content: toolResultText(toolCall),
+      });
+    }
+  }
+  return `${JSON.stringify({ messages })}\n`;
+}
@@ -0,0 +1,189 @@
+/**
+ * Session History - Shared formatting for /history and `recoder sessions`
+ * Renders recorded sessions, search matches and usage totals as plain text.
+ */
+
+import {
+  formatCost,
+  type ConversationRecord,
+  type SessionHistoryEntry,
+  type SessionHistoryStats,
+  type TokensSummary,
+} from 'recoder-code-core';
+
+const PREVIEW_LENGTH = 70;
+const RELATIVE_DATE = /^(\d+)\s*([hdw])$/i;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const UNIT_MS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse a date filter: an ISO date or timestamp, `today`, `yesterday`, or a
+ * relative age such as `24h`, `7d` or `2w`. A bare date used as an upper
+ * bound covers the whole day.
+ * @throws Error if the value is not a recognised date
+ */
+export function parseDateFilter(
+  value: string,
+  bound: 'start' | 'end',
+  now: Date = new Date(),
+): Date {
+  const trimmed = value.trim().toLowerCase();
+  const relative = RELATIVE_DATE.exec(trimmed);
+  if (relative) {
+    return new Date(
+      now.getTime() - parseInt(relative[1], 10) * UNIT_MS[relative[2]],
+    );
+  }
+
+  if (trimmed === 'today' || trimmed === 'yesterday') {
+    const day = new Date(now);
+    day.setHours(0, 0, 0, 0);
+    if (trimmed === 'yesterday') day.setDate(day.getDate() - 1);
+    if (bound === 'end') day.setHours(23, 59, 59, 999);
+    return day;
+  }
+
+  // Bare dates are local days, not UTC midnight
+  const date = DATE_ONLY.test(trimmed)
+    ? new Date(`${trimmed}T${bound === 'end' ? '23:59:59.999' : '00:00:00'}`)
+    : new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(
+      `Invalid date "${value}". Use YYYY-MM-DD, an ISO timestamp, today, yesterday, or an age like 24h, 7d, 2w.`,
+    );
+  }
+  return date;
+}
+
+function formatTimestamp(iso: string): string {
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+function formatSessionCost(cost: number | undefined): string {
+  return cost === undefined ? 'n/a' : formatCost(cost);
+}
+
+function preview(text: string, length = PREVIEW_LENGTH): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (!flat) return '(no prompt)';
+  return flat.length > length ? `${flat.slice(0, length)}…` : flat;
+}
+
+function formatTokenBreakdown(tokens: TokensSummary): string {
+  return `${formatTokens(tokens.total)} tokens (${formatTokens(tokens.input)} in, ${formatTokens(tokens.output)} out, ${formatTokens(tokens.cached)} cached)`;
+}
+
+/**
+ * One block per session: ID, time, project, usage and first prompt, plus any
+ * search matches.
+ */
+export function formatSessionList(
+  sessions: SessionHistoryEntry[],
+  showProject: boolean,
+): string {
+  if (sessions.length === 0) {
+    return 'No recorded sessions found.';
+  }
+
+  const blocks = sessions.map((session) => {
+    const toolCalls = Object.values(session.tools).reduce((a, b) => a + b, 0);
+    const lines = [
+      `${session.sessionId.slice(0, 8)}  ${formatTimestamp(session.startTime)}  ${session.messageCount} messages, ${toolCalls} tool calls, ${formatTokens(session.tokens.total)} tokens, ${formatSessionCost(session.cost)}`,
+    ];
+    if (showProject) {
+      lines.push(`  project: ${session.projectRoot ?? session.projectHash.slice(0, 12)}`);
+    }
+    const models = Object.keys(session.models);
+    if (models.length > 0) {
+      lines.push(`  models: ${models.join(', ')}`);
+    }
+    lines.push(`  > ${preview(session.firstUserMessage)}`);
+    for (const match of session.matches) {
+      const source = match.toolName ? `tool ${match.toolName}` : match.source;
+      lines.push(`    [${formatTimestamp(match.timestamp)} ${source}] ${match.snippet}`);
+    }
+    return lines.join('\n');
+  });
+
+  return `${blocks.join('\n\n')}\n\n${sessions.length} session${sessions.length === 1 ? '' : 's'}`;
+}
+
+/**
+ * The full transcript of a session: prompts, responses and tool calls.
+ */
+export function formatSessionDetail(
+  filePath: string,
+  conversation: ConversationRecord,
+): string {
+  const lines = [
+    `Session ${conversation.sessionId}`,
+    `  file: ${filePath}`,
+    `  project: ${conversation.projectRoot ?? conversation.projectHash}`,
+    `  started: ${formatTimestamp(conversation.startTime)}, last updated: ${formatTimestamp(conversation.lastUpdated)}`,
+  ];
+
+  for (const message of conversation.messages) {
+    lines.push('');
+    if (message.type === 'user') {
+      lines.push(`[${formatTimestamp(message.timestamp)}] user:`, message.content);
+      continue;
+    }
+    const usage = message.tokens ? `, ${formatTokens(message.tokens.total)} tokens` : '';
+    lines.push(`[${formatTimestamp(message.timestamp)}] ${message.model ?? 'model'}${usage}:`);
+    if (message.content) {
+      lines.push(message.content);
+    }
+    for (const toolCall of message.toolCalls ?? []) {
+      lines.push(
+        `  → ${toolCall.displayName ?? toolCall.name} (${toolCall.status}) ${toolCall.description ?? JSON.stringify(toolCall.args)}`,
+      );
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Totals over a set of sessions, with per-model and per-tool breakdowns.
+ */
+export function formatSessionStats(stats: SessionHistoryStats): string {
+  const lines = [
+    `Sessions: ${stats.sessionCount}`,
+    `Messages: ${stats.messageCount}`,
+    `Tool calls: ${stats.toolCallCount}`,
+    `Tokens: ${formatTokenBreakdown(stats.tokens)}`,
+    `Estimated cost: ${formatSessionCost(stats.cost)}`,
+  ];
+
+  const models = Object.entries(stats.models).sort(
+    ([, a], [, b]) => b.tokens - a.tokens,
+  );
+  if (models.length > 0) {
+    lines.push('', 'By model:');
+    for (const [model, usage] of models) {
+      lines.push(
+        `  ${model}: ${usage.messages} responses, ${formatTokens(usage.tokens)} tokens, ${formatSessionCost(usage.cost)}`,
+      );
+    }
+  }
+
+  const tools = Object.entries(stats.tools).sort(([, a], [, b]) => b - a);
+  if (tools.length > 0) {
+    lines.push('', 'By tool:');
+    for (const [tool, count] of tools) {
+      lines.push(`  ${tool}: ${count}`);
+    }
+  }
+  return lines.join('\n');
+}
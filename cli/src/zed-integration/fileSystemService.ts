@@ -23,14 +23,21 @@ export class AcpFileSystemService implements FileSystemService {
       return this.fallback.readTextFile(filePath);
     }
 
-    const response = await this.client.readTextFile({
-      path: filePath,
-      sessionId: this.sessionId,
-      line: null,
-      limit: null,
-    });
+    try {
+      const response = await this.client.readTextFile({
+        path: filePath,
+        sessionId: this.sessionId,
+        line: null,
+        limit: null,
+      });
 
-    return response.content;
+      return response.content;
+    } catch {
+      // The client's error response has no Node error code, which callers
+      // check for, e.g. ENOENT for a file they are about to create; reading
+      // from disk fails with it instead.
+      return this.fallback.readTextFile(filePath);
+    }
   }
 
   async writeTextFile(filePath: string, content: string): Promise<void> {
@@ -9,6 +9,7 @@ import type { ReadableStream, WritableStream } from 'node:stream/web';
 import type { Content, FunctionCall, Part } from '@google/genai';
 import type {
   Config,
+  FileDiff,
   GeminiChat,
   ToolCallConfirmationDetails,
   ToolResult,
@@ -18,6 +19,7 @@ import {
   clearCachedCredentialFile,
   convertToFunctionResponse,
   DiscoveredMCPTool,
+  getAlwaysAllowRules,
   getErrorMessage,
   getErrorStatus,
   isNodeError,
@@ -346,6 +348,60 @@ class Session {
     await this.client.sessionUpdate(params);
   }
 
+  /**
+   * Asks the client whether to run a tool. An edit that is also shown as a
+   * diff in the IDE is settled by whichever answer comes first, and the
+   * other side is told.
+   */
+  private async requestPermission(
+    params: acp.RequestPermissionRequest,
+    confirmationDetails: ToolCallConfirmationDetails,
+  ): Promise<ToolConfirmationOutcome> {
+    const fromClient = this.client
+      .requestPermission(params)
+      .then((output) =>
+        output.outcome.outcome === 'cancelled'
+          ? ToolConfirmationOutcome.Cancel
+          : z
+              .nativeEnum(ToolConfirmationOutcome)
+              .parse(output.outcome.optionId),
+      );
+    if (
+      confirmationDetails.type !== 'edit' ||
+      !confirmationDetails.ideConfirmation
+    ) {
+      return fromClient;
+    }
+
+    const answer = await Promise.race([
+      fromClient.then((outcome) => ({ outcome, inIde: false })),
+      confirmationDetails.ideConfirmation.then((result) => ({
+        outcome:
+          result.status === 'accepted'
+            ? ToolConfirmationOutcome.ProceedOnce
+            : ToolConfirmationOutcome.Cancel,
+        inIde: true,
+      })),
+    ]);
+    const rejected = answer.outcome === ToolConfirmationOutcome.Cancel;
+    if (answer.inIde) {
+      // The client's question is moot, so it can stop asking
+      await this.sendUpdate({
+        sessionUpdate: 'tool_call_update',
+        toolCallId: params.toolCall.toolCallId,
+        status: rejected ? 'failed' : 'in_progress',
+      });
+    } else {
+      await this.config
+        .getIdeClient()
+        .resolveDiffFromCli(
+          confirmationDetails.filePath,
+          rejected ? 'rejected' : 'accepted',
+        );
+    }
+    return answer.outcome;
+  }
+
   private async runTool(
     abortSignal: AbortSignal,
     promptId: string,
@@ -407,12 +463,7 @@ class Session {
         const content: acp.ToolCallContent[] = [];
 
         if (confirmationDetails.type === 'edit') {
-          content.push({
-            type: 'diff',
-            path: confirmationDetails.fileName,
-            oldText: confirmationDetails.originalContent,
-            newText: confirmationDetails.newContent,
-          });
+          content.push(...toDiffContent(confirmationDetails));
         }
 
         const params: acp.RequestPermissionRequest = {
@@ -428,15 +479,21 @@ class Session {
           },
         };
 
-        const output = await this.client.requestPermission(params);
-        const outcome =
-          output.outcome.outcome === 'cancelled'
-            ? ToolConfirmationOutcome.Cancel
-            : z
-                .nativeEnum(ToolConfirmationOutcome)
-                .parse(output.outcome.optionId);
+        const outcome = await this.requestPermission(
+          params,
+          confirmationDetails,
+        );
 
         await confirmationDetails.onConfirm(outcome);
+        this.config.addAlwaysAllowRules(
+          getAlwaysAllowRules(
+            tool,
+            invocation,
+            outcome,
+            this.config.getParsedPermissionRules(),
+            this.config.getTargetDir(),
+          ),
+        );
 
         switch (outcome) {
           case ToolConfirmationOutcome.Cancel:
@@ -473,7 +530,7 @@ class Session {
         sessionUpdate: 'tool_call_update',
         toolCallId: callId,
         status: 'completed',
-        content: content ? [content] : [],
+        content,
       });
 
       const durationMs = Date.now() - startTime;
@@ -757,18 +814,21 @@ class Session {
         });
 
         const result = await invocation.execute(abortSignal);
-        const content = toToolCallContent(result) || {
-          type: 'content',
-          content: {
-            type: 'text',
-            text: `Successfully read: ${contentLabelsForDisplay.join(', ')}`,
-          },
-        };
+        const content = toToolCallContent(result);
+        if (content.length === 0) {
+          content.push({
+            type: 'content',
+            content: {
+              type: 'text',
+              text: `Successfully read: ${contentLabelsForDisplay.join(', ')}`,
+            },
+          });
+        }
         await this.sendUpdate({
           sessionUpdate: 'tool_call_update',
           toolCallId: callId,
           status: 'completed',
-          content: content ? [content] : [],
+          content,
         });
         if (Array.isArray(result.llmContent)) {
           const fileContentRegex = /^--- (.*?) ---\n\n([\s\S]*?)\n\n$/;
@@ -852,17 +912,19 @@ class Session {
   }
 }
 
-function toToolCallContent(toolResult: ToolResult): acp.ToolCallContent | null {
+function toToolCallContent(toolResult: ToolResult): acp.ToolCallContent[] {
   if (toolResult.error?.message) {
     throw new Error(toolResult.error.message);
   }
 
   if (toolResult.returnDisplay) {
     if (typeof toolResult.returnDisplay === 'string') {
-      return {
-        type: 'content',
-        content: { type: 'text', text: toolResult.returnDisplay },
-      };
+      return [
+        {
+          type: 'content',
+          content: { type: 'text', text: toolResult.returnDisplay },
+        },
+      ];
     } else if (
       'type' in toolResult.returnDisplay &&
       toolResult.returnDisplay.type === 'todo_list'
@@ -879,31 +941,52 @@ function toToolCallContent(toolResult: ToolResult): acp.ToolCallContent | null {
         })
         .join('\n');
 
-      return {
-        type: 'content',
-        content: { type: 'text', text: todoText },
-      };
+      return [
+        {
+          type: 'content',
+          content: { type: 'text', text: todoText },
+        },
+      ];
     } else if (
       'type' in toolResult.returnDisplay &&
       toolResult.returnDisplay.type === 'plan_summary'
     ) {
       const planDisplay = toolResult.returnDisplay;
       const planText = `${planDisplay.message}\n\n${planDisplay.plan}`;
-      return {
-        type: 'content',
-        content: { type: 'text', text: planText },
-      };
+      return [
+        {
+          type: 'content',
+          content: { type: 'text', text: planText },
+        },
+      ];
     } else if ('fileDiff' in toolResult.returnDisplay) {
       // Handle FileDiff
-      return {
-        type: 'diff',
-        path: toolResult.returnDisplay.fileName,
-        oldText: toolResult.returnDisplay.originalContent,
-        newText: toolResult.returnDisplay.newContent,
-      };
+      return toDiffContent(toolResult.returnDisplay);
     }
   }
-  return null;
+  return [];
+}
+
+/** One diff per changed file, for edits that change several files */
+function toDiffContent(
+  diff: Pick<FileDiff, 'fileName' | 'originalContent' | 'newContent' | 'files'>,
+): acp.ToolCallContent[] {
+  if (diff.files) {
+    return diff.files.map((file) => ({
+      type: 'diff',
+      path: file.filePath,
+      oldText: file.originalContent,
+      newText: file.newContent ?? '',
+    }));
+  }
+  return [
+    {
+      type: 'diff',
+      path: diff.fileName,
+      oldText: diff.originalContent,
+      newText: diff.newContent,
+    },
+  ];
 }
 
 const basicPermissionOptions = [
@@ -9,19 +9,42 @@ import * as path from 'node:path';
 import process from 'node:process';
 import { GeminiClient } from '../core/client.js';
 import type { ContentGeneratorConfig } from '../core/contentGenerator.js';
+import type { ProviderFallbackSettings } from '../core/fallbackContentGenerator.js';
+import type {
+  ProviderRateLimits,
+  ResponseCacheSettings,
+} from '../core/cachingContentGenerator.js';
 import {
   AuthType,
   createContentGeneratorConfig,
 } from '../core/contentGenerator.js';
 import { IdeClient } from '../ide/ide-client.js';
+import type { McpElicitationHandler } from '../mcp/elicitation.js';
 import type { MCPOAuthConfig } from '../mcp/oauth-provider.js';
+import type { McpSamplingHandler } from '../mcp/sampling.js';
+import { DEFAULT_MCP_SAMPLING_MAX_TOKENS } from '../mcp/sampling.js';
 import { PromptRegistry } from '../prompts/prompt-registry.js';
+import { ResourceRegistry } from '../resources/resource-registry.js';
 import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
 import {
   type FileSystemService,
   StandardFileSystemService,
 } from '../services/fileSystemService.js';
 import { GitService } from '../services/gitService.js';
+import { ChatRecordingService } from '../services/chatRecordingService.js';
+import { BackgroundJobService } from '../services/backgroundJobService.js';
+import { CodeIndexService } from '../services/codeIndexService.js';
+import type { HooksSettings } from '../services/hookService.js';
+import { HookService } from '../services/hookService.js';
+import type { LspSettings } from '../lsp/types.js';
+import { LspService } from '../lsp/lspService.js';
+import { OutputFormat } from '../output/types.js';
+import type {
+  PermissionPolicy,
+  PermissionRule,
+} from '../policy/permissionPolicy.js';
+import type { PermissionRules } from '../policy/permissionRules.js';
+import { parsePermissionRules } from '../policy/permissionRules.js';
 import { SubagentManager } from '../subagents/subagent-manager.js';
 import type { TelemetryTarget } from '../telemetry/index.js';
 import {
@@ -32,14 +55,31 @@ import {
 } from '../telemetry/index.js';
 import { logCliConfiguration, logIdeConnection } from '../telemetry/loggers.js';
 import { IdeConnectionEvent, IdeConnectionType } from '../telemetry/types.js';
+import { ApplyPatchTool } from '../tools/apply-patch.js';
 import { EditTool } from '../tools/edit.js';
 import { ExitPlanModeTool } from '../tools/exitPlanMode.js';
 import { GlobTool } from '../tools/glob.js';
+import { SemanticSearchTool } from '../tools/semantic-search.js';
+import { LspDiagnosticsTool } from '../tools/lsp-diagnostics.js';
+import { LspDefinitionTool } from '../tools/lsp-definition.js';
+import { LspReferencesTool } from '../tools/lsp-references.js';
+import { LspRenameTool } from '../tools/lsp-rename.js';
+import { LspDocumentSymbolsTool } from '../tools/lsp-document-symbols.js';
+import { IdeDiagnosticsTool } from '../tools/ide-diagnostics.js';
+import { IdeDefinitionTool } from '../tools/ide-definition.js';
+import { IdeReferencesTool } from '../tools/ide-references.js';
+import { IdeDocumentSymbolsTool } from '../tools/ide-document-symbols.js';
+import { IdeHoverTool } from '../tools/ide-hover.js';
 import { GrepTool } from '../tools/grep.js';
+import { KillBackgroundJobTool } from '../tools/kill-background-job.js';
+import { ListBackgroundJobsTool } from '../tools/list-background-jobs.js';
 import { LSTool } from '../tools/ls.js';
+import { NotebookEditTool } from '../tools/notebook-edit.js';
 import { MemoryTool, setGeminiMdFilename } from '../tools/memoryTool.js';
+import { ReadBackgroundOutputTool } from '../tools/read-background-output.js';
 import { ReadFileTool } from '../tools/read-file.js';
 import { ReadManyFilesTool } from '../tools/read-many-files.js';
+import { ReadMcpResourceTool } from '../tools/read-mcp-resource.js';
 import { RipGrepTool } from '../tools/ripGrep.js';
 import { ShellTool } from '../tools/shell.js';
 import { TaskTool } from '../tools/task.js';
@@ -167,6 +207,9 @@ export type FlashFallbackHandler = (
   error?: unknown,
 ) => Promise<boolean | string | null>;
 
+/** Saves rules added by "Always allow" answers, e.g. to project settings */
+export type PermissionRuleSaver = (rules: string[]) => void;
+
 export interface ConfigParameters {
   sessionId: string;
   embeddingModel?: string;
@@ -182,6 +225,7 @@ export interface ConfigParameters {
   toolCallCommand?: string;
   mcpServerCommand?: string;
   mcpServers?: Record<string, MCPServerConfig>;
+  mcpSamplingMaxTokens?: number;
   userMemory?: string;
   geminiMdFileCount?: number;
   approvalMode?: ApprovalMode;
@@ -230,6 +274,8 @@ export interface ConfigParameters {
     samplingParams?: {
       [key: string]: unknown;
     };
+    responseCache?: ResponseCacheSettings;
+    rateLimits?: ProviderRateLimits;
   };
   cliVersion?: string;
   loadMemoryFromIncludeDirectories?: boolean;
@@ -245,11 +291,19 @@ export interface ConfigParameters {
   enablePromptCompletion?: boolean;
   skipLoopDetection?: boolean;
   vlmSwitchMode?: string;
+  providerFallback?: ProviderFallbackSettings;
+  chatRecording?: boolean;
+  outputFormat?: OutputFormat;
+  permissionPolicy?: PermissionPolicy;
+  permissionRules?: PermissionRules;
+  hooks?: HooksSettings;
+  lsp?: LspSettings;
 }
 
 export class Config {
   private toolRegistry!: ToolRegistry;
   private promptRegistry!: PromptRegistry;
+  private resourceRegistry!: ResourceRegistry;
   private subagentManager!: SubagentManager;
   private sessionId: string;
   private fileSystemService: FileSystemService;
@@ -268,6 +322,9 @@ export class Config {
   private readonly toolCallCommand: string | undefined;
   private readonly mcpServerCommand: string | undefined;
   private readonly mcpServers: Record<string, MCPServerConfig> | undefined;
+  private readonly mcpSamplingMaxTokens: number;
+  private mcpSamplingHandler: McpSamplingHandler | undefined;
+  private mcpElicitationHandler: McpElicitationHandler | undefined;
   private userMemory: string;
   private geminiMdFileCount: number;
   private approvalMode: ApprovalMode;
@@ -322,6 +379,8 @@ export class Config {
     maxRetries?: number;
     disableCacheControl?: boolean;
     samplingParams?: Record<string, unknown>;
+    responseCache?: ResponseCacheSettings;
+    rateLimits?: ProviderRateLimits;
   };
   private readonly cliVersion?: string;
   private readonly experimentalZedIntegration: boolean = false;
@@ -337,6 +396,20 @@ export class Config {
   private readonly enablePromptCompletion: boolean = false;
   private readonly skipLoopDetection: boolean;
   private readonly vlmSwitchMode: string | undefined;
+  private readonly providerFallback: ProviderFallbackSettings | undefined;
+  private readonly chatRecording: boolean;
+  private readonly outputFormat: OutputFormat;
+  private readonly permissionPolicy: PermissionPolicy | undefined;
+  private permissionRules: PermissionRules;
+  private parsedPermissionRules: PermissionRule[];
+  private permissionRuleSaver: PermissionRuleSaver | undefined;
+  private readonly hooks: HooksSettings;
+  private hookService: HookService | undefined = undefined;
+  private readonly lsp: LspSettings;
+  private lspService: LspService | undefined = undefined;
+  private readonly backgroundJobService = new BackgroundJobService();
+  private codeIndexService: CodeIndexService | undefined = undefined;
+  private chatRecordingService: ChatRecordingService | undefined = undefined;
   private initialized: boolean = false;
   readonly storage: Storage;
   private readonly fileExclusions: FileExclusions;
@@ -363,6 +436,8 @@ export class Config {
     this.toolCallCommand = params.toolCallCommand;
     this.mcpServerCommand = params.mcpServerCommand;
     this.mcpServers = params.mcpServers;
+    this.mcpSamplingMaxTokens =
+      params.mcpSamplingMaxTokens ?? DEFAULT_MCP_SAMPLING_MAX_TOKENS;
     this.userMemory = params.userMemory ?? '';
     this.geminiMdFileCount = params.geminiMdFileCount ?? 0;
     this.approvalMode = params.approvalMode ?? ApprovalMode.DEFAULT;
@@ -433,6 +508,14 @@ export class Config {
     this.storage = new Storage(this.targetDir);
     this.enablePromptCompletion = params.enablePromptCompletion ?? false;
     this.vlmSwitchMode = params.vlmSwitchMode;
+    this.providerFallback = params.providerFallback;
+    this.chatRecording = params.chatRecording ?? true;
+    this.outputFormat = params.outputFormat ?? OutputFormat.TEXT;
+    this.permissionPolicy = params.permissionPolicy;
+    this.permissionRules = params.permissionRules ?? {};
+    this.parsedPermissionRules = parsePermissionRules(this.permissionRules);
+    this.hooks = params.hooks ?? {};
+    this.lsp = params.lsp ?? {};
     this.fileExclusions = new FileExclusions(this);
 
     // Initialize logger asynchronously
@@ -467,6 +550,7 @@ export class Config {
       await this.getGitService();
     }
     this.promptRegistry = new PromptRegistry();
+    this.resourceRegistry = new ResourceRegistry();
     this.subagentManager = new SubagentManager(this);
     this.toolRegistry = await this.createToolRegistry();
     logCliConfiguration(this, new StartSessionEvent(this, this.toolRegistry));
@@ -488,6 +572,10 @@ export class Config {
     // Create and initialize new client in local variable first
     const newGeminiClient = new GeminiClient(this);
     await newGeminiClient.initialize(newContentGeneratorConfig);
+    // Changing auth replaces the client mid-session; only the first starts it
+    if (!this.geminiClient) {
+      newGeminiClient.startSession('startup');
+    }
 
     // Vertex and Genai have incompatible encryption and sending history with
     // throughtSignature from Genai to Vertex will fail, we need to strip them
@@ -546,17 +634,12 @@ export class Config {
     }
 
     // Log the model switch if the model actually changed
-    if (oldModel !== newModel && this.logger) {
-      const switchEvent: ModelSwitchEvent = {
+    if (oldModel !== newModel) {
+      this.logModelSwitch({
         fromModel: oldModel,
         toModel: newModel,
         reason: options?.reason || 'manual',
         context: options?.context,
-      };
-
-      // Log asynchronously to avoid blocking
-      this.logger.logModelSwitch(switchEvent).catch((error) => {
-        console.debug('Failed to log model switch:', error);
       });
     }
 
@@ -576,6 +659,15 @@ export class Config {
     }
   }
 
+  /**
+   * Records a model or provider switch in the session log without blocking.
+   */
+  logModelSwitch(event: ModelSwitchEvent): void {
+    this.logger?.logModelSwitch(event).catch((error) => {
+      console.debug('Failed to log model switch:', error);
+    });
+  }
+
   isInFallbackMode(): boolean {
     return this.inFallbackMode;
   }
@@ -643,6 +735,10 @@ export class Config {
     return this.promptRegistry;
   }
 
+  getResourceRegistry(): ResourceRegistry {
+    return this.resourceRegistry;
+  }
+
   getDebugMode(): boolean {
     return this.debugMode;
   }
@@ -683,6 +779,29 @@ export class Config {
     return this.mcpServers;
   }
 
+  /** The most tokens an MCP server's sampling request may generate */
+  getMcpSamplingMaxTokens(): number {
+    return this.mcpSamplingMaxTokens;
+  }
+
+  /** Sets how users are asked to let MCP servers use the model */
+  setMcpSamplingHandler(handler: McpSamplingHandler): void {
+    this.mcpSamplingHandler = handler;
+  }
+
+  getMcpSamplingHandler(): McpSamplingHandler | undefined {
+    return this.mcpSamplingHandler;
+  }
+
+  /** Sets how the questions of MCP servers are put to users */
+  setMcpElicitationHandler(handler: McpElicitationHandler): void {
+    this.mcpElicitationHandler = handler;
+  }
+
+  getMcpElicitationHandler(): McpElicitationHandler | undefined {
+    return this.mcpElicitationHandler;
+  }
+
   getUserMemory(): string {
     return this.userMemory;
   }
@@ -923,6 +1042,14 @@ export class Config {
       | undefined;
   }
 
+  getContentGeneratorResponseCache(): ResponseCacheSettings | undefined {
+    return this.contentGenerator?.responseCache;
+  }
+
+  getContentGeneratorRateLimits(): ProviderRateLimits | undefined {
+    return this.contentGenerator?.rateLimits;
+  }
+
   getCliVersion(): string | undefined {
     return this.cliVersion;
   }
@@ -987,6 +1114,111 @@ export class Config {
     return this.vlmSwitchMode;
   }
 
+  getProviderFallback(): ProviderFallbackSettings | undefined {
+    return this.providerFallback;
+  }
+
+  /**
+   * The transcript recorder for the main conversation, or undefined when
+   * chat recording is disabled. Shared across auth refreshes so a session
+   * keeps journaling to the same file.
+   */
+  getChatRecordingService(): ChatRecordingService | undefined {
+    if (!this.chatRecording) {
+      return undefined;
+    }
+    if (!this.chatRecordingService) {
+      this.chatRecordingService = new ChatRecordingService(this);
+      this.chatRecordingService.initialize();
+    }
+    return this.chatRecordingService;
+  }
+
+  getOutputFormat(): OutputFormat {
+    return this.outputFormat;
+  }
+
+  /**
+   * Allow/deny/ask rules applied to every tool call, or undefined when no
+   * policy was given (--permission-policy).
+   */
+  getPermissionPolicy(): PermissionPolicy | undefined {
+    return this.permissionPolicy;
+  }
+
+  /** Allow/deny rules saved in settings, plus any added this session */
+  getPermissionRules(): PermissionRules {
+    return this.permissionRules;
+  }
+
+  /** The same rules, parsed for evaluation */
+  getParsedPermissionRules(): PermissionRule[] {
+    return this.parsedPermissionRules;
+  }
+
+  setPermissionRules(rules: PermissionRules): void {
+    this.permissionRules = rules;
+    this.parsedPermissionRules = parsePermissionRules(rules);
+  }
+
+  setPermissionRuleSaver(saver: PermissionRuleSaver): void {
+    this.permissionRuleSaver = saver;
+  }
+
+  /**
+   * Adds allow rules for "Always allow" answers. They apply for the rest of
+   * the session and are persisted when a saver is set.
+   */
+  addAlwaysAllowRules(rules: string[]): void {
+    const allow = this.permissionRules.allow ?? [];
+    const added = [...new Set(rules)].filter((rule) => !allow.includes(rule));
+    if (added.length === 0) {
+      return;
+    }
+    this.permissionRules = {
+      ...this.permissionRules,
+      allow: [...allow, ...added],
+    };
+    this.parsedPermissionRules = parsePermissionRules(this.permissionRules);
+    this.permissionRuleSaver?.(added);
+  }
+
+  /** Commands run at lifecycle events, from the `hooks` setting */
+  getHooks(): HooksSettings {
+    return this.hooks;
+  }
+
+  /** Shell commands started with `is_background: true` */
+  getBackgroundJobService(): BackgroundJobService {
+    return this.backgroundJobService;
+  }
+
+  getCodeIndexService(): CodeIndexService {
+    if (!this.codeIndexService) {
+      this.codeIndexService = new CodeIndexService(this);
+    }
+    return this.codeIndexService;
+  }
+
+  /** Language servers and their use, from the `lsp` setting */
+  getLspSettings(): LspSettings {
+    return this.lsp;
+  }
+
+  getLspService(): LspService {
+    if (!this.lspService) {
+      this.lspService = new LspService(this);
+    }
+    return this.lspService;
+  }
+
+  getHookService(): HookService {
+    if (!this.hookService) {
+      this.hookService = new HookService(this);
+    }
+    return this.hookService;
+  }
+
   async getGitService(): Promise<GitService> {
     if (!this.gitService) {
       this.gitService = new GitService(this.targetDir, this.storage);
@@ -1003,16 +1235,59 @@ export class Config {
     return this.subagentManager;
   }
 
+  /**
+   * Returns a view of this config rooted at `targetDir`, e.g. a git worktree
+   * for an isolated subagent. The view has its own workspace context, file
+   * discovery and core tools, so file and shell tools stay inside
+   * `targetDir`; everything else, including discovered and MCP tools, is
+   * shared with this config.
+   */
+  createWorkspaceView(targetDir: string): Config {
+    const view: Config = Object.create(this);
+    const resolvedDir = path.resolve(targetDir);
+    const registry = new ToolRegistry(view);
+    Object.assign(view, {
+      targetDir: resolvedDir,
+      workspaceContext: new WorkspaceContext(resolvedDir),
+      fileDiscoveryService: null,
+      gitService: undefined,
+      toolRegistry: registry,
+      // Paths in the index are relative, so they hold for the view as well
+      codeIndexService: this.getCodeIndexService(),
+      // Language servers are started for the view's own directory
+      lspService: undefined,
+    });
+    // Subagents, which views are made for, cannot launch subagents
+    view.registerCoreTools(registry, [TaskTool.Name]);
+    for (const tool of this.toolRegistry.getAllTools()) {
+      if (!registry.getTool(tool.name) && tool.name !== TaskTool.Name) {
+        registry.registerTool(tool);
+      }
+    }
+    return view;
+  }
+
   async createToolRegistry(): Promise<ToolRegistry> {
     const registry = new ToolRegistry(this);
+    this.registerCoreTools(registry);
+    await registry.discoverAllTools();
+    return registry;
+  }
 
+  private registerCoreTools(
+    registry: ToolRegistry,
+    skippedTools: string[] = [],
+  ): void {
     // helper to create & register core tools that are enabled
      
     const registerCoreTool = (ToolClass: any, ...args: unknown[]) => {
       const className = ToolClass.name;
       const toolName = ToolClass.Name || className;
       const coreTools = this.getCoreTools();
-      const excludeTools = this.getExcludeTools() || [];
+      const excludeTools = [
+        ...(this.getExcludeTools() || []),
+        ...skippedTools,
+      ];
 
       let isEnabled = true; // Enabled by default if coreTools is not set.
       if (coreTools) {
@@ -1049,10 +1324,37 @@ export class Config {
     }
 
     registerCoreTool(GlobTool, this);
+    registerCoreTool(SemanticSearchTool, this);
+    if (this.lsp.enabled !== false) {
+      registerCoreTool(LspDiagnosticsTool, this);
+      registerCoreTool(LspDefinitionTool, this);
+      registerCoreTool(LspReferencesTool, this);
+      registerCoreTool(LspDocumentSymbolsTool, this);
+      registerCoreTool(LspRenameTool, this);
+    }
+    if (this.getIdeMode()) {
+      registerCoreTool(IdeDiagnosticsTool, this);
+      registerCoreTool(IdeDefinitionTool, this);
+      registerCoreTool(IdeReferencesTool, this);
+      registerCoreTool(IdeDocumentSymbolsTool, this);
+      registerCoreTool(IdeHoverTool, this);
+    }
     registerCoreTool(EditTool, this);
     registerCoreTool(WriteFileTool, this);
+    registerCoreTool(ApplyPatchTool, this);
+    registerCoreTool(NotebookEditTool, this);
     registerCoreTool(ReadManyFilesTool, this);
+    // Only servers offer resources, so the tool is only useful with some
+    if (
+      this.getMcpServerCommand() ||
+      Object.keys(this.getMcpServers() ?? {}).length > 0
+    ) {
+      registerCoreTool(ReadMcpResourceTool, this);
+    }
     registerCoreTool(ShellTool, this);
+    registerCoreTool(ListBackgroundJobsTool, this);
+    registerCoreTool(ReadBackgroundOutputTool, this);
+    registerCoreTool(KillBackgroundJobTool, this);
     registerCoreTool(MemoryTool);
     registerCoreTool(TodoWriteTool, this);
     registerCoreTool(ExitPlanModeTool, this);
@@ -1061,9 +1363,6 @@ export class Config {
     if (this.getTavilyApiKey()) {
       registerCoreTool(WebSearchTool, this);
     }
-
-    await registry.discoverAllTools();
-    return registry;
   }
 }
 // Export model constants for use in CLI
@@ -17,4 +17,7 @@ export const DEFAULT_GEMINI_MODEL = DEFAULT_RECODER_MODEL;
 export const DEFAULT_GEMINI_FLASH_MODEL = DEFAULT_RECODER_FAST_MODEL;
 export const DEFAULT_GEMINI_FLASH_LITE_MODEL = DEFAULT_RECODER_FAST_MODEL;
 
+// Anthropic Messages API, when ANTHROPIC_MODEL is unset
+export const DEFAULT_ANTHROPIC_MODEL = 'claude-sonnet-4-5';
+
 export const DEFAULT_GEMINI_EMBEDDING_MODEL = 'text-embedding-3-small';
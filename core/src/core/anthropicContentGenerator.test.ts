@@ -0,0 +1,487 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GenerateContentResponse } from '@google/genai';
+import { FinishReason, Type } from '@google/genai';
+import {
+  AnthropicApiError,
+  AnthropicContentGenerator,
+} from './anthropicContentGenerator.js';
+import type { ContentGeneratorConfig } from './contentGenerator.js';
+
+const config: ContentGeneratorConfig = {
+  model: 'anthropic/claude-sonnet-4-5',
+  apiKey: 'test-key',
+  baseUrl: 'https://anthropic.test/',
+  disableCacheControl: true,
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function sseResponse(events: unknown[]): Response {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const event of events) {
+        controller.enqueue(
+          encoder.encode(`event: message\ndata: ${JSON.stringify(event)}\n\n`),
+        );
+      }
+      controller.close();
+    },
+  });
+  return new Response(stream, { status: 200 });
+}
+
+describe('AnthropicContentGenerator', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubEnv('ANTHROPIC_THINKING_BUDGET', '');
+  });
+
+  afterEach(() => {
+    fetchMock.mockReset();
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  function sentBody(): Record<string, unknown> {
+    const [, init] = fetchMock.mock.calls[0];
+    return JSON.parse(init.body);
+  }
+
+  describe('request conversion', () => {
+    it('converts contents, system instruction and tools to a Messages request', async () => {
+      fetchMock.mockResolvedValue(
+        jsonResponse({
+          id: 'msg_1',
+          model: 'claude-sonnet-4-5',
+          role: 'assistant',
+          content: [{ type: 'text', text: 'Done' }],
+          stop_reason: 'end_turn',
+          usage: { input_tokens: 1, output_tokens: 1 },
+        }),
+      );
+      const generator = new AnthropicContentGenerator(config);
+
+      await generator.generateContent(
+        {
+          model: config.model,
+          contents: [
+            { role: 'user', parts: [{ text: 'Read a.txt' }] },
+            {
+              role: 'model',
+              parts: [
+                {
+                  functionCall: {
+                    id: 'toolu_1',
+                    name: 'read_file',
+                    args: { path: 'a.txt' },
+                  },
+                },
+              ],
+            },
+            {
+              role: 'user',
+              parts: [
+                {
+                  functionResponse: {
+                    id: 'toolu_1',
+                    name: 'read_file',
+                    response: { output: 'hello' },
+                  },
+                },
+              ],
+            },
+          ],
+          config: {
+            systemInstruction: 'You are a coding assistant.',
+            temperature: 0.3,
+            tools: [
+              {
+                functionDeclarations: [
+                  {
+                    name: 'read_file',
+                    description: 'Reads a file',
+                    parameters: {
+                      type: Type.OBJECT,
+                      properties: { path: { type: Type.STRING } },
+                      required: ['path'],
+                    },
+                  },
+                ],
+              },
+            ],
+          },
+        },
+        'prompt-1',
+      );
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://anthropic.test/v1/messages');
+      expect(init.headers).toMatchObject({
+        'x-api-key': 'test-key',
+        'anthropic-version': '2023-06-01',
+      });
+      expect(sentBody()).toEqual({
+        model: 'claude-sonnet-4-5',
+        max_tokens: 8192,
+        system: [{ type: 'text', text: 'You are a coding assistant.' }],
+        temperature: 0.3,
+        messages: [
+          { role: 'user', content: [{ type: 'text', text: 'Read a.txt' }] },
+          {
+            role: 'assistant',
+            content: [
+              {
+                type: 'tool_use',
+                id: 'toolu_1',
+                name: 'read_file',
+                input: { path: 'a.txt' },
+              },
+            ],
+          },
+          {
+            role: 'user',
+            content: [
+              { type: 'tool_result', tool_use_id: 'toolu_1', content: 'hello' },
+            ],
+          },
+        ],
+        tools: [
+          {
+            name: 'read_file',
+            description: 'Reads a file',
+            input_schema: {
+              type: 'object',
+              properties: { path: { type: 'string' } },
+              required: ['path'],
+            },
+          },
+        ],
+      });
+    });
+
+    it('merges adjacent turns of a role and drops unanswered tool calls', async () => {
+      fetchMock.mockResolvedValue(
+        jsonResponse({
+          id: 'msg_1',
+          model: 'claude-sonnet-4-5',
+          role: 'assistant',
+          content: [],
+          stop_reason: 'end_turn',
+          usage: {},
+        }),
+      );
+      const generator = new AnthropicContentGenerator(config);
+
+      await generator.generateContent(
+        {
+          model: config.model,
+          contents: [
+            { role: 'user', parts: [{ text: 'First' }] },
+            { role: 'user', parts: [{ text: 'Second' }] },
+            {
+              role: 'model',
+              parts: [
+                { text: 'Reading' },
+                { functionCall: { id: 'toolu_2', name: 'read_file' } },
+              ],
+            },
+            { role: 'user', parts: [{ text: 'Never mind' }] },
+          ],
+        },
+        'prompt-1',
+      );
+
+      expect(sentBody()['messages']).toEqual([
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'First' },
+            { type: 'text', text: 'Second' },
+          ],
+        },
+        { role: 'assistant', content: [{ type: 'text', text: 'Reading' }] },
+        { role: 'user', content: [{ type: 'text', text: 'Never mind' }] },
+      ]);
+    });
+
+    it('marks the system prompt and the last user turn for caching', async () => {
+      fetchMock.mockResolvedValue(
+        jsonResponse({
+          id: 'msg_1',
+          model: 'claude-sonnet-4-5',
+          role: 'assistant',
+          content: [],
+          stop_reason: 'end_turn',
+          usage: {},
+        }),
+      );
+      const generator = new AnthropicContentGenerator({
+        ...config,
+        disableCacheControl: false,
+      });
+
+      await generator.generateContent(
+        {
+          model: config.model,
+          contents: [{ role: 'user', parts: [{ text: 'Hi' }] }],
+          config: { systemInstruction: 'System' },
+        },
+        'prompt-1',
+      );
+
+      const body = sentBody();
+      expect(body['system']).toEqual([
+        { type: 'text', text: 'System', cache_control: { type: 'ephemeral' } },
+      ]);
+      expect(body['messages']).toEqual([
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Hi', cache_control: { type: 'ephemeral' } },
+          ],
+        },
+      ]);
+    });
+
+    it('enables thinking instead of sampling overrides when thoughts are requested', async () => {
+      fetchMock.mockResolvedValue(
+        jsonResponse({
+          id: 'msg_1',
+          model: 'claude-sonnet-4-5',
+          role: 'assistant',
+          content: [],
+          stop_reason: 'end_turn',
+          usage: {},
+        }),
+      );
+      const generator = new AnthropicContentGenerator(config);
+
+      await generator.generateContent(
+        {
+          model: config.model,
+          contents: 'Think first',
+          config: {
+            temperature: 0.3,
+            thinkingConfig: { includeThoughts: true },
+          },
+        },
+        'prompt-1',
+      );
+
+      const body = sentBody();
+      expect(body['thinking']).toEqual({ type: 'enabled', budget_tokens: 8192 });
+      expect(body['max_tokens']).toBe(16384);
+      expect(body).not.toHaveProperty('temperature');
+    });
+  });
+
+  describe('response conversion', () => {
+    it('converts text, tool use, thinking and usage to Gemini parts', async () => {
+      fetchMock.mockResolvedValue(
+        jsonResponse({
+          id: 'msg_2',
+          model: 'claude-sonnet-4-5',
+          role: 'assistant',
+          content: [
+            { type: 'thinking', thinking: 'Look at it', signature: 'sig' },
+            { type: 'text', text: 'Reading the file' },
+            {
+              type: 'tool_use',
+              id: 'toolu_3',
+              name: 'read_file',
+              input: { path: 'a.txt' },
+            },
+          ],
+          stop_reason: 'tool_use',
+          usage: {
+            input_tokens: 10,
+            cache_read_input_tokens: 5,
+            output_tokens: 7,
+          },
+        }),
+      );
+      const generator = new AnthropicContentGenerator(config);
+
+      const response = await generator.generateContent(
+        { model: config.model, contents: 'Read a.txt' },
+        'prompt-1',
+      );
+
+      expect(response.responseId).toBe('msg_2');
+      expect(response.candidates?.[0].finishReason).toBe(FinishReason.STOP);
+      expect(response.candidates?.[0].content?.parts).toEqual([
+        { text: 'Look at it', thought: true, thoughtSignature: 'sig' },
+        { text: 'Reading the file' },
+        {
+          functionCall: {
+            id: 'toolu_3',
+            name: 'read_file',
+            args: { path: 'a.txt' },
+          },
+        },
+      ]);
+      expect(response.usageMetadata).toEqual({
+        promptTokenCount: 15,
+        candidatesTokenCount: 7,
+        totalTokenCount: 22,
+        cachedContentTokenCount: 5,
+      });
+    });
+
+    it('maps max_tokens to a MAX_TOKENS finish reason', async () => {
+      fetchMock.mockResolvedValue(
+        jsonResponse({
+          id: 'msg_3',
+          model: 'claude-sonnet-4-5',
+          role: 'assistant',
+          content: [{ type: 'text', text: 'Cut' }],
+          stop_reason: 'max_tokens',
+          usage: {},
+        }),
+      );
+      const generator = new AnthropicContentGenerator(config);
+
+      const response = await generator.generateContent(
+        { model: config.model, contents: 'Write a lot' },
+        'prompt-1',
+      );
+
+      expect(response.candidates?.[0].finishReason).toBe(
+        FinishReason.MAX_TOKENS,
+      );
+    });
+
+    it('assembles streamed text and tool input deltas', async () => {
+      fetchMock.mockResolvedValue(
+        sseResponse([
+          {
+            type: 'message_start',
+            message: {
+              id: 'msg_4',
+              model: 'claude-sonnet-4-5',
+              role: 'assistant',
+              content: [],
+              stop_reason: null,
+              usage: { input_tokens: 12 },
+            },
+          },
+          {
+            type: 'content_block_start',
+            index: 0,
+            content_block: { type: 'text', text: '' },
+          },
+          {
+            type: 'content_block_delta',
+            index: 0,
+            delta: { type: 'text_delta', text: 'Hel' },
+          },
+          {
+            type: 'content_block_delta',
+            index: 0,
+            delta: { type: 'text_delta', text: 'lo' },
+          },
+          { type: 'content_block_stop', index: 0 },
+          {
+            type: 'content_block_start',
+            index: 1,
+            content_block: {
+              type: 'tool_use',
+              id: 'toolu_4',
+              name: 'read_file',
+              input: {},
+            },
+          },
+          {
+            type: 'content_block_delta',
+            index: 1,
+            delta: { type: 'input_json_delta', partial_json: '{"path":' },
+          },
+          {
+            type: 'content_block_delta',
+            index: 1,
+            delta: { type: 'input_json_delta', partial_json: '"a.txt"}' },
+          },
+          { type: 'content_block_stop', index: 1 },
+          {
+            type: 'message_delta',
+            delta: { stop_reason: 'tool_use' },
+            usage: { output_tokens: 9 },
+          },
+          { type: 'message_stop' },
+        ]),
+      );
+      const generator = new AnthropicContentGenerator(config);
+
+      const stream = await generator.generateContentStream(
+        { model: config.model, contents: 'Read a.txt' },
+        'prompt-1',
+      );
+      const responses: GenerateContentResponse[] = [];
+      for await (const response of stream) {
+        responses.push(response);
+      }
+
+      expect(sentBody()['stream']).toBe(true);
+      expect(
+        responses.map((response) => response.candidates?.[0].content?.parts),
+      ).toEqual([
+        [{ text: 'Hel' }],
+        [{ text: 'lo' }],
+        [
+          {
+            functionCall: {
+              id: 'toolu_4',
+              name: 'read_file',
+              args: { path: 'a.txt' },
+            },
+          },
+        ],
+        [],
+      ]);
+      const last = responses[responses.length - 1];
+      expect(last.candidates?.[0].finishReason).toBe(FinishReason.STOP);
+      expect(last.usageMetadata).toMatchObject({
+        promptTokenCount: 12,
+        candidatesTokenCount: 9,
+      });
+    });
+
+    it('throws an AnthropicApiError carrying the status of a failed request', async () => {
+      fetchMock.mockResolvedValue(
+        jsonResponse(
+          {
+            type: 'error',
+            error: { type: 'overloaded_error', message: 'Overloaded' },
+          },
+          529,
+        ),
+      );
+      const generator = new AnthropicContentGenerator(config);
+
+      const request = generator.generateContent(
+        { model: config.model, contents: 'Hi' },
+        'prompt-1',
+      );
+
+      await expect(request).rejects.toBeInstanceOf(AnthropicApiError);
+      await expect(request).rejects.toMatchObject({
+        status: 529,
+        message: 'Anthropic error: 529 Overloaded',
+      });
+    });
+  });
+});
@@ -0,0 +1,936 @@
+/**
+ * Anthropic Content Generator - Native Claude support
+ * Speaks the Anthropic Messages API directly and converts to and from the
+ * Gemini `Content` shapes used throughout core.
+ */
+
+import type {
+  Content,
+  ContentListUnion,
+  ContentUnion,
+  CountTokensParameters,
+  CountTokensResponse,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  FunctionCall,
+  GenerateContentConfig,
+  GenerateContentParameters,
+  Part,
+  PartUnion,
+  Tool,
+  ToolListUnion,
+  CallableTool,
+} from '@google/genai';
+import {
+  FinishReason,
+  FunctionCallingConfigMode,
+  GenerateContentResponse,
+} from '@google/genai';
+import type { ContentGenerator, ContentGeneratorConfig } from './contentGenerator.js';
+import { safeJsonParse } from '../utils/safeJsonParse.js';
+import { getDefaultTokenizer } from '../utils/request-tokenizer/index.js';
+
+const DEFAULT_ANTHROPIC_URL = 'https://api.anthropic.com';
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 8192;
+const DEFAULT_THINKING_BUDGET = 8192;
+const MIN_THINKING_BUDGET = 1024;
+
+type AnthropicRole = 'user' | 'assistant';
+
+interface AnthropicCacheControl {
+  type: 'ephemeral';
+}
+
+type AnthropicMediaSource =
+  | { type: 'base64'; media_type: string; data: string }
+  | { type: 'url'; url: string };
+
+interface AnthropicTextBlock {
+  type: 'text';
+  text: string;
+  cache_control?: AnthropicCacheControl;
+}
+
+interface AnthropicImageBlock {
+  type: 'image';
+  source: AnthropicMediaSource;
+  cache_control?: AnthropicCacheControl;
+}
+
+interface AnthropicDocumentBlock {
+  type: 'document';
+  source: AnthropicMediaSource;
+  cache_control?: AnthropicCacheControl;
+}
+
+interface AnthropicToolUseBlock {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+  cache_control?: AnthropicCacheControl;
+}
+
+interface AnthropicToolResultBlock {
+  type: 'tool_result';
+  tool_use_id: string;
+  content: string | Array<AnthropicTextBlock | AnthropicImageBlock>;
+  is_error?: boolean;
+  cache_control?: AnthropicCacheControl;
+}
+
+interface AnthropicThinkingBlock {
+  type: 'thinking';
+  thinking: string;
+  signature: string;
+}
+
+interface AnthropicRedactedThinkingBlock {
+  type: 'redacted_thinking';
+  data: string;
+}
+
+type AnthropicContentBlock =
+  | AnthropicTextBlock
+  | AnthropicImageBlock
+  | AnthropicDocumentBlock
+  | AnthropicToolUseBlock
+  | AnthropicToolResultBlock
+  | AnthropicThinkingBlock
+  | AnthropicRedactedThinkingBlock;
+
+interface AnthropicMessage {
+  role: AnthropicRole;
+  content: AnthropicContentBlock[];
+}
+
+interface AnthropicTool {
+  name: string;
+  description?: string;
+  input_schema: Record<string, unknown>;
+  cache_control?: AnthropicCacheControl;
+}
+
+interface AnthropicMessagesRequest {
+  model: string;
+  max_tokens: number;
+  messages: AnthropicMessage[];
+  system?: AnthropicTextBlock[];
+  tools?: AnthropicTool[];
+  tool_choice?: { type: 'auto' | 'any' | 'none' };
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  stop_sequences?: string[];
+  thinking?: { type: 'enabled'; budget_tokens: number };
+  stream?: boolean;
+}
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+interface AnthropicMessagesResponse {
+  id: string;
+  model: string;
+  role: 'assistant';
+  content: AnthropicContentBlock[];
+  stop_reason: string | null;
+  usage: AnthropicUsage;
+}
+
+type AnthropicStreamEvent =
+  | { type: 'message_start'; message: AnthropicMessagesResponse }
+  | {
+      type: 'content_block_start';
+      index: number;
+      content_block: AnthropicContentBlock;
+    }
+  | {
+      type: 'content_block_delta';
+      index: number;
+      delta:
+        | { type: 'text_delta'; text: string }
+        | { type: 'input_json_delta'; partial_json: string }
+        | { type: 'thinking_delta'; thinking: string }
+        | { type: 'signature_delta'; signature: string };
+    }
+  | { type: 'content_block_stop'; index: number }
+  | {
+      type: 'message_delta';
+      delta: { stop_reason?: string | null };
+      usage?: AnthropicUsage;
+    }
+  | { type: 'message_stop' }
+  | { type: 'ping' }
+  | { type: 'error'; error: { type: string; message: string } };
+
+/**
+ * Error raised for non-2xx responses and in-stream `error` events. Carries
+ * the HTTP status so `retryWithBackoff` treats 429/5xx/529 as transient.
+ */
+export class AnthropicApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly errorType?: string,
+  ) {
+    super(message);
+    this.name = 'AnthropicApiError';
+  }
+}
+
+const STREAM_ERROR_STATUS: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  permission_error: 403,
+  not_found_error: 404,
+  request_too_large: 413,
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 529,
+};
+
+export class AnthropicContentGenerator implements ContentGenerator {
+  private baseUrl: string;
+  private apiKey: string;
+  private model: string;
+  private config: ContentGeneratorConfig;
+  /**
+   * geminiChat strips thought parts from history, but Anthropic requires the
+   * thinking blocks that preceded a tool_use to be sent back with it. Keep
+   * them here keyed by tool_use id so they can be re-attached.
+   */
+  private thinkingByToolUseId = new Map<
+    string,
+    Array<AnthropicThinkingBlock | AnthropicRedactedThinkingBlock>
+  >();
+
+  constructor(config: ContentGeneratorConfig) {
+    this.config = config;
+    this.baseUrl = (
+      config.baseUrl ||
+      process.env['ANTHROPIC_BASE_URL'] ||
+      DEFAULT_ANTHROPIC_URL
+    ).replace(/\/+$/, '');
+    this.apiKey = config.apiKey || process.env['ANTHROPIC_API_KEY'] || '';
+    this.model = config.model.replace(/^anthropic\//, ''); // Remove provider prefix
+  }
+
+  async generateContent(
+    request: GenerateContentParameters,
+    _userPromptId: string,
+  ): Promise<GenerateContentResponse> {
+    const body = await this.buildRequest(request, false);
+    const response = await this.post('/v1/messages', body, request.config?.abortSignal);
+    const data = (await response.json()) as AnthropicMessagesResponse;
+
+    const parts: Part[] = [];
+    const thinking: Array<AnthropicThinkingBlock | AnthropicRedactedThinkingBlock> = [];
+    for (const block of data.content) {
+      if (block.type === 'thinking' || block.type === 'redacted_thinking') {
+        thinking.push(block);
+      }
+      const part = this.convertBlockToPart(block);
+      if (part) parts.push(part);
+    }
+    this.rememberThinking(parts, thinking);
+
+    return this.createResponse(parts, data.id, data.stop_reason, data.usage);
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+    _userPromptId: string,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const body = await this.buildRequest(request, true);
+    const response = await this.post('/v1/messages', body, request.config?.abortSignal);
+    if (!response.body) {
+      throw new AnthropicApiError('Anthropic error: empty stream body', 500);
+    }
+    return this.streamResponses(response.body);
+  }
+
+  async countTokens(request: CountTokensParameters): Promise<CountTokensResponse> {
+    try {
+      const { system, messages, tools } = await this.buildRequest(
+        {
+          model: request.model,
+          contents: request.contents,
+          config: request.config as GenerateContentConfig,
+        },
+        false,
+      );
+      const response = await this.post('/v1/messages/count_tokens', {
+        model: this.model,
+        messages,
+        ...(system ? { system } : {}),
+        ...(tools ? { tools } : {}),
+      });
+      const data = (await response.json()) as { input_tokens: number };
+      return { totalTokens: data.input_tokens };
+    } catch {
+      // count_tokens may be unavailable (proxies, stub servers) - estimate locally
+      const result = await getDefaultTokenizer().calculateTokens(request, {
+        textEncoding: 'cl100k_base',
+      });
+      return { totalTokens: result.totalTokens };
+    }
+  }
+
+  async embedContent(_request: EmbedContentParameters): Promise<EmbedContentResponse> {
+    throw new Error('Embeddings are not supported by the Anthropic API');
+  }
+
+  private async post(
+    path: string,
+    body: unknown,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_VERSION,
+        ...(this.config.userAgent ? { 'User-Agent': this.config.userAgent } : {}),
+      },
+      body: JSON.stringify(body),
+      signal: signal ?? (this.config.timeout ? AbortSignal.timeout(this.config.timeout) : undefined),
+    });
+
+    if (!response.ok) {
+      let message = response.statusText;
+      let errorType: string | undefined;
+      try {
+        const data = (await response.json()) as {
+          error?: { type?: string; message?: string };
+        };
+        message = data.error?.message || message;
+        errorType = data.error?.type;
+      } catch {
+        // Non-JSON error body
+      }
+      throw new AnthropicApiError(
+        `Anthropic error: ${response.status} ${message}`,
+        response.status,
+        errorType,
+      );
+    }
+
+    return response;
+  }
+
+  private async *streamResponses(
+    body: ReadableStream<Uint8Array>,
+  ): AsyncGenerator<GenerateContentResponse> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    let messageId = '';
+    let stopReason: string | null = null;
+    let usage: AnthropicUsage = {};
+    const blocks = new Map<
+      number,
+      { block: AnthropicContentBlock; json: string }
+    >();
+    const emitted: Part[] = [];
+    const thinking: Array<AnthropicThinkingBlock | AnthropicRedactedThinkingBlock> = [];
+
+    const handleEvent = (
+      event: AnthropicStreamEvent,
+    ): GenerateContentResponse | null => {
+      switch (event.type) {
+        case 'message_start':
+          messageId = event.message.id;
+          usage = { ...event.message.usage };
+          return null;
+
+        case 'content_block_start': {
+          blocks.set(event.index, { block: { ...event.content_block }, json: '' });
+          if (event.content_block.type === 'text' && event.content_block.text) {
+            return this.createResponse([{ text: event.content_block.text }], messageId);
+          }
+          return null;
+        }
+
+        case 'content_block_delta': {
+          const entry = blocks.get(event.index);
+          if (!entry) return null;
+          const { delta } = event;
+          if (delta.type === 'text_delta') {
+            return delta.text
+              ? this.createResponse([{ text: delta.text }], messageId)
+              : null;
+          }
+          if (delta.type === 'input_json_delta') {
+            entry.json += delta.partial_json;
+          } else if (delta.type === 'thinking_delta' && entry.block.type === 'thinking') {
+            entry.block.thinking += delta.thinking;
+          } else if (delta.type === 'signature_delta' && entry.block.type === 'thinking') {
+            entry.block.signature = delta.signature;
+          }
+          return null;
+        }
+
+        case 'content_block_stop': {
+          const entry = blocks.get(event.index);
+          blocks.delete(event.index);
+          if (!entry || entry.block.type === 'text') return null;
+          if (entry.block.type === 'tool_use') {
+            entry.block.input = entry.json
+              ? safeJsonParse<Record<string, unknown>>(entry.json, {})
+              : entry.block.input || {};
+          }
+          if (entry.block.type === 'thinking' || entry.block.type === 'redacted_thinking') {
+            thinking.push(entry.block);
+          }
+          const part = this.convertBlockToPart(entry.block);
+          if (!part) return null;
+          emitted.push(part);
+          return this.createResponse([part], messageId);
+        }
+
+        case 'message_delta':
+          stopReason = event.delta.stop_reason ?? stopReason;
+          usage = { ...usage, ...event.usage };
+          return null;
+
+        case 'message_stop':
+          this.rememberThinking(emitted, thinking);
+          return this.createResponse([], messageId, stopReason ?? 'end_turn', usage);
+
+        case 'error':
+          throw new AnthropicApiError(
+            `Anthropic error: ${event.error.message}`,
+            STREAM_ERROR_STATUS[event.error.type] ?? 500,
+            event.error.type,
+          );
+
+        default:
+          return null;
+      }
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() || '';
+
+      for (const rawEvent of events) {
+        const data = rawEvent
+          .split(/\r?\n/)
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trimStart())
+          .join('\n');
+        if (!data) continue;
+
+        let event: AnthropicStreamEvent;
+        try {
+          event = JSON.parse(data) as AnthropicStreamEvent;
+        } catch {
+          continue; // Skip invalid JSON
+        }
+
+        const response = handleEvent(event);
+        if (response) yield response;
+      }
+    }
+  }
+
+  private rememberThinking(
+    parts: Part[],
+    thinking: Array<AnthropicThinkingBlock | AnthropicRedactedThinkingBlock>,
+  ): void {
+    if (thinking.length === 0) return;
+    for (const part of parts) {
+      if (part.functionCall?.id) {
+        this.thinkingByToolUseId.set(part.functionCall.id, thinking);
+      }
+    }
+  }
+
+  /**
+   * Redacted thinking is represented as an empty thought part whose
+   * signature carries the encrypted payload.
+   */
+  private convertBlockToPart(block: AnthropicContentBlock): Part | null {
+    switch (block.type) {
+      case 'text':
+        return block.text ? { text: block.text } : null;
+      case 'tool_use':
+        return {
+          functionCall: { id: block.id, name: block.name, args: block.input || {} },
+        };
+      case 'thinking':
+        return { text: block.thinking, thought: true, thoughtSignature: block.signature };
+      case 'redacted_thinking':
+        return { text: '', thought: true, thoughtSignature: `redacted:${block.data}` };
+      default:
+        return null;
+    }
+  }
+
+  private createResponse(
+    parts: Part[],
+    responseId: string,
+    stopReason?: string | null,
+    usage?: AnthropicUsage,
+  ): GenerateContentResponse {
+    const response = new GenerateContentResponse();
+    response.responseId = responseId;
+    response.modelVersion = this.model;
+    response.createTime = Date.now().toString();
+    response.candidates = [
+      {
+        content: { role: 'model', parts },
+        finishReason: stopReason ? this.mapStopReason(stopReason) : undefined,
+        index: 0,
+        safetyRatings: [],
+      },
+    ];
+
+    if (usage) {
+      const cacheRead = usage.cache_read_input_tokens || 0;
+      const promptTokens =
+        (usage.input_tokens || 0) +
+        (usage.cache_creation_input_tokens || 0) +
+        cacheRead;
+      const outputTokens = usage.output_tokens || 0;
+      response.usageMetadata = {
+        promptTokenCount: promptTokens,
+        candidatesTokenCount: outputTokens,
+        totalTokenCount: promptTokens + outputTokens,
+        cachedContentTokenCount: cacheRead,
+      };
+    }
+
+    return response;
+  }
+
+  private mapStopReason(stopReason: string): FinishReason {
+    switch (stopReason) {
+      case 'max_tokens':
+        return FinishReason.MAX_TOKENS;
+      case 'refusal':
+        return FinishReason.SAFETY;
+      case 'end_turn':
+      case 'stop_sequence':
+      case 'tool_use':
+      case 'pause_turn':
+      default:
+        return FinishReason.STOP;
+    }
+  }
+
+  private async buildRequest(
+    request: GenerateContentParameters,
+    stream: boolean,
+  ): Promise<AnthropicMessagesRequest> {
+    const config = request.config ?? {};
+    const sampling = this.config.samplingParams ?? {};
+    const cacheEnabled = !this.config.disableCacheControl;
+    const thinkingBudget = this.resolveThinkingBudget(config);
+
+    let maxTokens = config.maxOutputTokens ?? sampling.max_tokens ?? DEFAULT_MAX_TOKENS;
+    if (thinkingBudget && maxTokens <= thinkingBudget) {
+      maxTokens = thinkingBudget + DEFAULT_MAX_TOKENS;
+    }
+
+    const body: AnthropicMessagesRequest = {
+      model: this.model,
+      max_tokens: maxTokens,
+      messages: this.convertContents(request.contents, !!thinkingBudget),
+    };
+
+    const systemText = this.extractText(config.systemInstruction);
+    if (systemText) {
+      body.system = [{ type: 'text', text: systemText }];
+    }
+
+    if (config.tools && config.tools.length > 0) {
+      const tools = await this.convertTools(config.tools);
+      if (tools.length > 0) body.tools = tools;
+    }
+
+    const mode = config.toolConfig?.functionCallingConfig?.mode;
+    if (body.tools && mode === FunctionCallingConfigMode.ANY) {
+      body.tool_choice = { type: 'any' };
+    } else if (body.tools && mode === FunctionCallingConfigMode.NONE) {
+      body.tool_choice = { type: 'none' };
+    }
+
+    if (thinkingBudget) {
+      // Sampling overrides are rejected while extended thinking is enabled
+      body.thinking = { type: 'enabled', budget_tokens: thinkingBudget };
+    } else {
+      const temperature = sampling.temperature ?? config.temperature;
+      const topP = sampling.top_p ?? config.topP;
+      const topK = sampling.top_k ?? config.topK;
+      if (temperature !== undefined) body.temperature = temperature;
+      if (topP !== undefined) body.top_p = topP;
+      if (topK !== undefined) body.top_k = topK;
+    }
+
+    if (config.stopSequences && config.stopSequences.length > 0) {
+      body.stop_sequences = config.stopSequences;
+    }
+
+    if (cacheEnabled) {
+      this.applyCacheControl(body);
+    }
+
+    if (stream) {
+      body.stream = true;
+    }
+
+    return body;
+  }
+
+  /**
+   * Extended thinking is enabled when the request asks for thoughts (as
+   * GeminiClient does for thinking-capable models) or when
+   * ANTHROPIC_THINKING_BUDGET is set. A budget of -1 means "dynamic".
+   */
+  private resolveThinkingBudget(config: GenerateContentConfig): number | undefined {
+    const envBudget = Number(process.env['ANTHROPIC_THINKING_BUDGET'] || 0);
+    const thinkingConfig = config.thinkingConfig;
+
+    let budget: number | undefined;
+    if (thinkingConfig?.thinkingBudget === 0) {
+      return undefined;
+    } else if (thinkingConfig?.thinkingBudget && thinkingConfig.thinkingBudget > 0) {
+      budget = thinkingConfig.thinkingBudget;
+    } else if (envBudget > 0) {
+      budget = envBudget;
+    } else if (thinkingConfig?.includeThoughts) {
+      budget = DEFAULT_THINKING_BUDGET;
+    }
+
+    return budget ? Math.max(budget, MIN_THINKING_BUDGET) : undefined;
+  }
+
+  /**
+   * Marks the system prompt, the last tool definition and the last two user
+   * turns as cache breakpoints (Anthropic allows four per request).
+   */
+  private applyCacheControl(body: AnthropicMessagesRequest): void {
+    const ephemeral: AnthropicCacheControl = { type: 'ephemeral' };
+
+    if (body.system?.length) {
+      body.system[body.system.length - 1].cache_control = ephemeral;
+    }
+    if (body.tools?.length) {
+      body.tools[body.tools.length - 1].cache_control = ephemeral;
+    }
+
+    let remaining = 2;
+    for (let i = body.messages.length - 1; i >= 0 && remaining > 0; i--) {
+      const message = body.messages[i];
+      if (message.role !== 'user') continue;
+      const last = message.content[message.content.length - 1];
+      if (last && last.type !== 'thinking' && last.type !== 'redacted_thinking') {
+        last.cache_control = ephemeral;
+        remaining--;
+      }
+    }
+  }
+
+  private async convertTools(tools: ToolListUnion): Promise<AnthropicTool[]> {
+    const anthropicTools: AnthropicTool[] = [];
+
+    for (const tool of tools) {
+      const actualTool: Tool =
+        'tool' in tool ? await (tool as CallableTool).tool() : (tool as Tool);
+
+      for (const func of actualTool.functionDeclarations ?? []) {
+        if (!func.name) continue;
+        // MCP tools carry parametersJsonSchema, built-in tools carry Gemini-typed parameters
+        const schema = func.parametersJsonSchema
+          ? { ...(func.parametersJsonSchema as Record<string, unknown>) }
+          : func.parameters
+            ? (this.normalizeSchema(func.parameters) as Record<string, unknown>)
+            : {};
+        anthropicTools.push({
+          name: func.name,
+          description: func.description,
+          input_schema: { type: 'object', ...schema },
+        });
+      }
+    }
+
+    return anthropicTools;
+  }
+
+  /**
+   * Lower-cases Gemini `Type` enums (OBJECT, STRING, ...) into JSON Schema types.
+   */
+  private normalizeSchema(schema: unknown): unknown {
+    if (Array.isArray(schema)) {
+      return schema.map((item) => this.normalizeSchema(item));
+    }
+    if (typeof schema !== 'object' || schema === null) {
+      return schema;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(schema)) {
+      if (key === 'type' && typeof value === 'string') {
+        result[key] = value.toLowerCase();
+      } else if (
+        ['minimum', 'maximum', 'minLength', 'maxLength', 'minItems', 'maxItems'].includes(key) &&
+        typeof value === 'string' &&
+        !isNaN(Number(value))
+      ) {
+        result[key] = Number(value);
+      } else {
+        result[key] = this.normalizeSchema(value);
+      }
+    }
+    return result;
+  }
+
+  private convertContents(
+    contents: ContentListUnion,
+    thinkingEnabled: boolean,
+  ): AnthropicMessage[] {
+    const items: Array<ContentUnion | PartUnion> = Array.isArray(contents)
+      ? contents
+      : contents
+        ? [contents]
+        : [];
+
+    const messages: AnthropicMessage[] = [];
+    for (const item of items) {
+      const message = this.convertContent(item, thinkingEnabled);
+      if (!message || message.content.length === 0) continue;
+
+      // Anthropic requires alternating roles - merge adjacent turns
+      const previous = messages[messages.length - 1];
+      if (previous && previous.role === message.role) {
+        previous.content.push(...message.content);
+      } else {
+        messages.push(message);
+      }
+    }
+
+    for (const message of messages) {
+      if (message.role === 'user') {
+        // tool_result blocks must lead the user turn that answers a tool_use
+        message.content.sort(
+          (a, b) =>
+            Number(b.type === 'tool_result') - Number(a.type === 'tool_result'),
+        );
+      }
+    }
+
+    return this.removeOrphanedToolBlocks(messages);
+  }
+
+  private convertContent(
+    item: ContentUnion | PartUnion,
+    thinkingEnabled: boolean,
+  ): AnthropicMessage | null {
+    if (typeof item === 'string') {
+      return { role: 'user', content: item ? [{ type: 'text', text: item }] : [] };
+    }
+    if (!this.isContentObject(item)) {
+      return null;
+    }
+
+    const role: AnthropicRole = item.role === 'model' ? 'assistant' : 'user';
+    const content: AnthropicContentBlock[] = [];
+    let lastToolResult: AnthropicToolResultBlock | undefined;
+
+    for (const part of item.parts ?? []) {
+      if (part.thought) {
+        const block = this.convertThoughtPart(part);
+        if (block && role === 'assistant') content.push(block);
+        continue;
+      }
+
+      if (part.functionCall) {
+        content.push(this.convertFunctionCall(part.functionCall));
+        continue;
+      }
+
+      if (part.functionResponse) {
+        const { id, name, response } = part.functionResponse;
+        const error = response?.['error'];
+        const output = response?.['output'];
+        lastToolResult = {
+          type: 'tool_result',
+          tool_use_id: id || name || '',
+          content: error
+            ? String(error)
+            : typeof output === 'string'
+              ? output
+              : JSON.stringify(response ?? {}),
+          ...(error ? { is_error: true } : {}),
+        };
+        content.push(lastToolResult);
+        continue;
+      }
+
+      const block = this.convertPart(part);
+      if (!block) continue;
+
+      // Media returned by a tool (e.g. read_file on an image) belongs in its tool_result
+      if (lastToolResult && block.type === 'image') {
+        if (typeof lastToolResult.content === 'string') {
+          lastToolResult.content = lastToolResult.content
+            ? [{ type: 'text', text: lastToolResult.content }]
+            : [];
+        }
+        lastToolResult.content.push(block);
+      } else {
+        content.push(block);
+      }
+    }
+
+    if (role === 'assistant' && thinkingEnabled) {
+      this.restoreThinking(content);
+    }
+
+    return { role, content };
+  }
+
+  private convertFunctionCall(functionCall: FunctionCall): AnthropicToolUseBlock {
+    // Without an id, pair calls and responses by name as functionResponse does
+    return {
+      type: 'tool_use',
+      id: functionCall.id || functionCall.name || '',
+      name: functionCall.name || '',
+      input: functionCall.args || {},
+    };
+  }
+
+  private convertThoughtPart(
+    part: Part,
+  ): AnthropicThinkingBlock | AnthropicRedactedThinkingBlock | null {
+    if (!part.thoughtSignature) return null; // Unsigned thoughts cannot be replayed
+    if (part.thoughtSignature.startsWith('redacted:')) {
+      return {
+        type: 'redacted_thinking',
+        data: part.thoughtSignature.slice('redacted:'.length),
+      };
+    }
+    return {
+      type: 'thinking',
+      thinking: part.text || '',
+      signature: part.thoughtSignature,
+    };
+  }
+
+  private convertPart(
+    part: Part,
+  ): AnthropicTextBlock | AnthropicImageBlock | AnthropicDocumentBlock | null {
+    if (part.text) {
+      return { type: 'text', text: part.text };
+    }
+
+    const media = part.inlineData ?? part.fileData;
+    const mimeType = media?.mimeType;
+    if (!media || !mimeType) return null;
+
+    const source: AnthropicMediaSource | null = part.inlineData?.data
+      ? { type: 'base64', media_type: mimeType, data: part.inlineData.data }
+      : part.fileData?.fileUri && /^https?:\/\//.test(part.fileData.fileUri)
+        ? { type: 'url', url: part.fileData.fileUri }
+        : null;
+    if (!source) return null;
+
+    if (mimeType.startsWith('image/')) {
+      return { type: 'image', source };
+    }
+    if (mimeType === 'application/pdf') {
+      return { type: 'document', source };
+    }
+    return null;
+  }
+
+  private restoreThinking(content: AnthropicContentBlock[]): void {
+    if (content.some((b) => b.type === 'thinking' || b.type === 'redacted_thinking')) {
+      return;
+    }
+    const toolUse = content.find(
+      (b): b is AnthropicToolUseBlock => b.type === 'tool_use',
+    );
+    const thinking = toolUse && this.thinkingByToolUseId.get(toolUse.id);
+    if (thinking) {
+      content.unshift(...thinking);
+    }
+  }
+
+  /**
+   * Drops tool_use blocks that never received a tool_result (e.g. a cancelled
+   * call) and tool_results whose tool_use is gone; the API rejects both.
+   */
+  private removeOrphanedToolBlocks(messages: AnthropicMessage[]): AnthropicMessage[] {
+    const toolUseIds = new Set<string>();
+    const toolResultIds = new Set<string>();
+    for (const message of messages) {
+      for (const block of message.content) {
+        if (block.type === 'tool_use') toolUseIds.add(block.id);
+        if (block.type === 'tool_result') toolResultIds.add(block.tool_use_id);
+      }
+    }
+
+    return messages
+      .map((message) => ({
+        ...message,
+        content: message.content.filter(
+          (block) =>
+            (block.type !== 'tool_use' || toolResultIds.has(block.id)) &&
+            (block.type !== 'tool_result' || toolUseIds.has(block.tool_use_id)),
+        ),
+      }))
+      .filter((message) => message.content.length > 0);
+  }
+
+  private extractText(contentUnion: unknown): string {
+    if (!contentUnion) return '';
+    if (typeof contentUnion === 'string') return contentUnion;
+    if (Array.isArray(contentUnion)) {
+      return contentUnion
+        .map((item) => this.extractText(item))
+        .filter(Boolean)
+        .join('\n');
+    }
+    if (typeof contentUnion === 'object') {
+      if ('parts' in contentUnion) {
+        return this.extractText((contentUnion as Content).parts);
+      }
+      if ('text' in contentUnion) {
+        return (contentUnion as Part).text || '';
+      }
+    }
+    return '';
+  }
+
+  private isContentObject(content: unknown): content is Content {
+    return (
+      typeof content === 'object' &&
+      content !== null &&
+      'parts' in content &&
+      Array.isArray((content as Content).parts)
+    );
+  }
+}
+
+/**
+ * Create Anthropic content generator
+ */
+export function createAnthropicContentGenerator(
+  config: ContentGeneratorConfig,
+): ContentGenerator {
+  return new AnthropicContentGenerator(config);
+}
@@ -0,0 +1,151 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import type { GenerateContentParameters } from '@google/genai';
+import { FinishReason, GenerateContentResponse } from '@google/genai';
+import type {
+  ContentGenerator,
+  ContentGeneratorConfig,
+} from './contentGenerator.js';
+import { AuthType } from './contentGenerator.js';
+import { Storage } from '../config/storage.js';
+import { CachingContentGenerator } from './cachingContentGenerator.js';
+
+function response(text: string): GenerateContentResponse {
+  return Object.assign(new GenerateContentResponse(), {
+    candidates: [
+      {
+        content: { role: 'model', parts: [{ text }] },
+        finishReason: FinishReason.STOP,
+      },
+    ],
+  });
+}
+
+function request(
+  text: string,
+  config: GenerateContentParameters['config'] = { temperature: 0 },
+): GenerateContentParameters {
+  return {
+    model: 'test-model',
+    contents: [{ role: 'user', parts: [{ text }] }],
+    config,
+  };
+}
+
+describe('CachingContentGenerator', () => {
+  let tempDir: string;
+  let wrapped: ContentGenerator;
+  let generateContent: ReturnType<typeof vi.fn>;
+
+  const config: ContentGeneratorConfig = {
+    model: 'test-model',
+    authType: AuthType.USE_OPENAI,
+  };
+
+  const create = (generatorConfig = config) =>
+    new CachingContentGenerator(
+      wrapped,
+      generatorConfig,
+      { enabled: true },
+      undefined,
+    );
+
+  beforeEach(() => {
+    // A fresh directory per test, so each test gets its own cache
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'caching-generator-'));
+    vi.spyOn(Storage, 'getGlobalTempDir').mockReturnValue(tempDir);
+    let calls = 0;
+    generateContent = vi.fn(async () => response(`answer ${++calls}`));
+    wrapped = { generateContent } as unknown as ContentGenerator;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('replays a request at temperature 0', async () => {
+    const generator = create();
+
+    await generator.generateContent(request('hi'), 'prompt-1');
+    const replayed = await generator.generateContent(request('hi'), 'prompt-2');
+
+    expect(generateContent).toHaveBeenCalledTimes(1);
+    expect(replayed.text).toBe('answer 1');
+  });
+
+  it('does not cache other or missing temperatures', async () => {
+    const generator = create();
+
+    await generator.generateContent(request('hi', { temperature: 0.7 }), 'p');
+    await generator.generateContent(request('hi', { temperature: 0.7 }), 'p');
+    await generator.generateContent(request('hi', {}), 'p');
+    await generator.generateContent(request('hi', {}), 'p');
+
+    expect(generateContent).toHaveBeenCalledTimes(4);
+  });
+
+  it('lets configured sampling params override the request', async () => {
+    const generator = create({
+      ...config,
+      samplingParams: { temperature: 0 },
+    });
+
+    await generator.generateContent(request('hi', { temperature: 1 }), 'p');
+    await generator.generateContent(request('hi', { temperature: 1 }), 'p');
+    expect(generateContent).toHaveBeenCalledTimes(1);
+
+    const sampled = create({ ...config, samplingParams: { temperature: 1 } });
+    await sampled.generateContent(request('hi'), 'p');
+    await sampled.generateContent(request('hi'), 'p');
+    expect(generateContent).toHaveBeenCalledTimes(3);
+  });
+
+  it('keys on the contents, model, config and provider', async () => {
+    const generator = create();
+
+    await generator.generateContent(request('hi'), 'p');
+    await generator.generateContent(request('hello'), 'p');
+    await generator.generateContent(
+      { ...request('hi'), model: 'other-model' },
+      'p',
+    );
+    await generator.generateContent(
+      request('hi', { temperature: 0, maxOutputTokens: 10 }),
+      'p',
+    );
+    await create({
+      ...config,
+      baseUrl: 'https://openrouter.ai/api/v1',
+    }).generateContent(request('hi'), 'p');
+    expect(generateContent).toHaveBeenCalledTimes(5);
+
+    // The abort signal is not part of the request's identity
+    await generator.generateContent(
+      request('hi', {
+        temperature: 0,
+        abortSignal: new AbortController().signal,
+      }),
+      'p',
+    );
+    expect(generateContent).toHaveBeenCalledTimes(5);
+  });
+
+  it('does not cache incomplete responses', async () => {
+    generateContent.mockResolvedValue(new GenerateContentResponse());
+    const generator = create();
+
+    await generator.generateContent(request('hi'), 'p');
+    await generator.generateContent(request('hi'), 'p');
+
+    expect(generateContent).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * Caching Content Generator - Response cache and provider budgets
+ * Replays deterministic requests (temperature 0) from a persisted on-disk
+ * cache and queues requests that would exceed a provider's request or token
+ * budget instead of letting the provider reject them.
+ */
+
+import path from 'node:path';
+import type {
+  CallableTool,
+  CountTokensParameters,
+  CountTokensResponse,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  GenerateContentParameters,
+  Tool,
+} from '@google/genai';
+import { FinishReason, GenerateContentResponse } from '@google/genai';
+import type { ContentGenerator, ContentGeneratorConfig } from './contentGenerator.js';
+import { Storage } from '../config/storage.js';
+import { ResponseCache } from '../utils/responseCache.js';
+import { getProviderRateLimiter, type RateLimiter } from '../utils/rateLimiter.js';
+
+const DEFAULT_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_CACHE_MAX_ENTRIES = 500;
+const RESPONSE_CACHE_FILE = 'response-cache.json';
+const DEFAULT_RATE_LIMIT_KEY = 'default';
+
+export interface ResponseCacheSettings {
+  enabled?: boolean;
+  /** How long a cached response stays valid */
+  ttlMs?: number;
+  maxEntries?: number;
+}
+
+export interface ProviderRateLimit {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+/**
+ * Budgets keyed by provider: an auth type (`anthropic`, `ollama`, ...), the
+ * host of a base URL (`openrouter.ai`) or `default` for everything else.
+ */
+export type ProviderRateLimits = Record<string, ProviderRateLimit>;
+
+/**
+ * Response cache settings with environment overrides applied.
+ * `RECODER_RESPONSE_CACHE=true` turns the cache on without a settings file,
+ * which is the common case for CI.
+ */
+export function resolveResponseCacheSettings(
+  settings: ResponseCacheSettings | undefined,
+): ResponseCacheSettings {
+  const env = process.env['RECODER_RESPONSE_CACHE'];
+  return {
+    ...settings,
+    enabled: env !== undefined ? env === 'true' || env === '1' : settings?.enabled,
+  };
+}
+
+/**
+ * The budget that applies to a provider. `RATE_LIMIT_REQUESTS_PER_MINUTE`
+ * supplies a request budget when settings do not.
+ */
+export function resolveProviderRateLimit(
+  config: ContentGeneratorConfig,
+  limits: ProviderRateLimits | undefined,
+): ProviderRateLimit | undefined {
+  const key = getProviderKey(config);
+  const limit = limits?.[key] ?? limits?.[config.authType ?? ''] ?? limits?.[DEFAULT_RATE_LIMIT_KEY];
+  const envRpm = parseInt(process.env['RATE_LIMIT_REQUESTS_PER_MINUTE'] || '', 10);
+
+  const resolved: ProviderRateLimit = {
+    requestsPerMinute: limit?.requestsPerMinute ?? (envRpm > 0 ? envRpm : undefined),
+    tokensPerMinute: limit?.tokensPerMinute,
+  };
+  return resolved.requestsPerMinute || resolved.tokensPerMinute ? resolved : undefined;
+}
+
+function getProviderKey(config: ContentGeneratorConfig): string {
+  if (config.baseUrl) {
+    try {
+      return new URL(config.baseUrl).host;
+    } catch {
+      // Fall through to the auth type
+    }
+  }
+  return config.authType ?? DEFAULT_RATE_LIMIT_KEY;
+}
+
+const responseCaches = new Map<string, ResponseCache>();
+
+function getPersistentResponseCache(settings: ResponseCacheSettings): ResponseCache {
+  const cachePath = path.join(Storage.getGlobalTempDir(), RESPONSE_CACHE_FILE);
+  let cache = responseCaches.get(cachePath);
+  if (!cache) {
+    cache = new ResponseCache(
+      settings.maxEntries ?? DEFAULT_CACHE_MAX_ENTRIES,
+      settings.ttlMs ?? DEFAULT_CACHE_TTL_MS,
+      cachePath,
+    );
+    responseCaches.set(cachePath, cache);
+  }
+  return cache;
+}
+
+/**
+ * A decorator that wraps a ContentGenerator with a response cache and
+ * per-provider rate limits. Cache hits never reach the provider, so they
+ * neither count against its budget nor show up in API telemetry.
+ */
+export class CachingContentGenerator implements ContentGenerator {
+  private readonly cache?: ResponseCache;
+  private readonly requestLimiter?: RateLimiter;
+  private readonly tokenLimiter?: RateLimiter;
+
+  constructor(
+    private readonly wrapped: ContentGenerator,
+    private readonly config: ContentGeneratorConfig,
+    cacheSettings: ResponseCacheSettings | undefined,
+    rateLimit: ProviderRateLimit | undefined,
+  ) {
+    if (cacheSettings?.enabled) {
+      this.cache = getPersistentResponseCache(cacheSettings);
+    }
+    const providerKey = getProviderKey(config);
+    if (rateLimit?.requestsPerMinute) {
+      this.requestLimiter = getProviderRateLimiter(`${providerKey}:requests`, rateLimit.requestsPerMinute);
+    }
+    if (rateLimit?.tokensPerMinute) {
+      this.tokenLimiter = getProviderRateLimiter(`${providerKey}:tokens`, rateLimit.tokensPerMinute);
+    }
+  }
+
+  get userTier() {
+    return this.wrapped.userTier;
+  }
+
+  getWrapped(): ContentGenerator {
+    return this.wrapped;
+  }
+
+  async generateContent(
+    request: GenerateContentParameters,
+    userPromptId: string,
+  ): Promise<GenerateContentResponse> {
+    const cacheKey = await this.getCacheKey(request, false);
+    if (cacheKey) {
+      const cached = this.cache!.getByKey(cacheKey) as unknown[] | null;
+      if (cached) {
+        return toResponse(cached[0]);
+      }
+    }
+
+    const estimatedTokens = await this.throttle(request);
+    const response = await this.wrapped.generateContent(request, userPromptId);
+    this.settleTokens(estimatedTokens, response);
+
+    if (cacheKey && isComplete(response)) {
+      this.cache!.setByKey(cacheKey, toCacheable([response]));
+    }
+    return response;
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+    userPromptId: string,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const cacheKey = await this.getCacheKey(request, true);
+    if (cacheKey) {
+      const cached = this.cache!.getByKey(cacheKey) as unknown[] | null;
+      if (cached) {
+        return replayStream(cached);
+      }
+    }
+
+    const estimatedTokens = await this.throttle(request);
+    const stream = await this.wrapped.generateContentStream(request, userPromptId);
+    return this.recordStream(stream, request, cacheKey, estimatedTokens);
+  }
+
+  async countTokens(request: CountTokensParameters): Promise<CountTokensResponse> {
+    return this.wrapped.countTokens(request);
+  }
+
+  async embedContent(request: EmbedContentParameters): Promise<EmbedContentResponse> {
+    await this.requestLimiter?.acquire(1, request.config?.abortSignal);
+    return this.wrapped.embedContent(request);
+  }
+
+  private async *recordStream(
+    stream: AsyncGenerator<GenerateContentResponse>,
+    request: GenerateContentParameters,
+    cacheKey: string | undefined,
+    estimatedTokens: number,
+  ): AsyncGenerator<GenerateContentResponse> {
+    const chunks: GenerateContentResponse[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+      yield chunk;
+    }
+
+    const last = [...chunks].reverse().find((chunk) => chunk.usageMetadata);
+    this.settleTokens(estimatedTokens, last);
+
+    // Only fully received responses are replayable
+    if (cacheKey && !request.config?.abortSignal?.aborted && chunks.some(isComplete)) {
+      this.cache!.setByKey(cacheKey, toCacheable(chunks));
+    }
+  }
+
+  /**
+   * Wait for the provider's request and token budgets.
+   * @returns the token estimate charged up front, reconciled once usage is known
+   */
+  private async throttle(request: GenerateContentParameters): Promise<number> {
+    const signal = request.config?.abortSignal;
+    await this.requestLimiter?.acquire(1, signal);
+    if (!this.tokenLimiter) {
+      return 0;
+    }
+
+    // Rough estimate (1 token ≈ 4 characters); exact counting would cost a request
+    const estimate = Math.ceil(JSON.stringify(request.contents ?? '').length / 4);
+    await this.tokenLimiter.acquire(estimate, signal);
+    return estimate;
+  }
+
+  private settleTokens(estimatedTokens: number, response?: GenerateContentResponse): void {
+    const actual = response?.usageMetadata?.totalTokenCount;
+    if (this.tokenLimiter && actual !== undefined) {
+      this.tokenLimiter.consume(actual - estimatedTokens);
+    }
+  }
+
+  /**
+   * Key for a deterministic request, or undefined when the request must not be cached.
+   * Configured sampling params override the request, mirroring the OpenAI pipeline.
+   */
+  private async getCacheKey(
+    request: GenerateContentParameters,
+    stream: boolean,
+  ): Promise<string | undefined> {
+    if (!this.cache) {
+      return undefined;
+    }
+    const temperature = this.config.samplingParams?.temperature ?? request.config?.temperature;
+    if (temperature !== 0) {
+      return undefined;
+    }
+
+    const {
+      abortSignal: _abortSignal,
+      httpOptions: _httpOptions,
+      tools,
+      ...config
+    } = request.config ?? {};
+    const resolvedTools: Tool[] = [];
+    for (const tool of tools ?? []) {
+      resolvedTools.push('tool' in tool ? await (tool as CallableTool).tool() : (tool as Tool));
+    }
+
+    return ResponseCache.hashKey(
+      JSON.stringify({
+        provider: getProviderKey(this.config),
+        authType: this.config.authType,
+        stream,
+        model: request.model,
+        contents: request.contents,
+        config,
+        tools: resolvedTools,
+        samplingParams: this.config.samplingParams,
+      }),
+    );
+  }
+}
+
+function isComplete(response: GenerateContentResponse): boolean {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  return finishReason === FinishReason.STOP || finishReason === FinishReason.MAX_TOKENS;
+}
+
+/** Detach from the live objects, which callers are free to mutate */
+function toCacheable(responses: GenerateContentResponse[]): unknown[] {
+  return JSON.parse(JSON.stringify(responses));
+}
+
+function toResponse(data: unknown): GenerateContentResponse {
+  return Object.assign(new GenerateContentResponse(), data);
+}
+
+async function* replayStream(chunks: unknown[]): AsyncGenerator<GenerateContentResponse> {
+  for (const chunk of chunks) {
+    yield toResponse(chunk);
+  }
+}
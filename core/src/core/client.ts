@@ -22,6 +22,11 @@ import { DEFAULT_GEMINI_FLASH_MODEL } from '../config/models.js';
 import type { File, IdeContext } from '../ide/ideContext.js';
 import { ideContext } from '../ide/ideContext.js';
 import { LoopDetectionService } from '../services/loopDetectionService.js';
+import {
+  conversationToHistory,
+  type ResumedSessionData,
+  type ToolCallRecord,
+} from '../services/chatRecordingService.js';
 import {
   logChatCompression,
   logNextSpeakerCheck,
@@ -41,17 +46,20 @@ import { getFunctionCalls } from '../utils/generateContentResponseUtilities.js';
 import { isFunctionResponse } from '../utils/messageInspectors.js';
 import { checkNextSpeaker } from '../utils/nextSpeakerChecker.js';
 import { retryWithBackoff } from '../utils/retry.js';
-import { flatMapTextParts } from '../utils/partUtils.js';
+import { flatMapTextParts, partToString } from '../utils/partUtils.js';
 import type {
   ContentGenerator,
   ContentGeneratorConfig,
 } from './contentGenerator.js';
 import { AuthType, createContentGenerator } from './contentGenerator.js';
 import { GeminiChat } from './geminiChat.js';
+import type { CompletedToolCall } from './coreToolScheduler.js';
+import type { AnyToolInvocation } from '../tools/tools.js';
 import {
   getCompressionPrompt,
   getCoreSystemPrompt,
   getCustomSystemPrompt,
+  getHookContextSystemReminder,
   getPlanModeSystemReminder,
   getSubagentSystemReminder,
 } from './prompts.js';
@@ -132,6 +140,11 @@ export class GeminiClient {
    */
   private hasFailedCompressionAttempt = false;
 
+  /** Context from SessionStart hooks, added to the next prompt */
+  private pendingSessionContext: Array<Promise<string | undefined>> = [];
+  /** Whether the current prompt was continued because a Stop hook blocked */
+  private stopHookActive = false;
+
   constructor(private readonly config: Config) {
     if (config.getProxy()) {
       setGlobalDispatcher(new ProxyAgent(config.getProxy() as string));
@@ -229,7 +242,86 @@ export class GeminiClient {
   }
 
   async resetChat(): Promise<void> {
+    // A cleared conversation is journaled as a new session
+    this.config.getChatRecordingService()?.initialize();
     this.chat = await this.startChat();
+    this.startSession('clear');
+  }
+
+  /**
+   * Restores a recorded session: rebuilds the model history from its
+   * transcript and keeps journaling to the same session file.
+   */
+  async resumeSession(resumedSessionData: ResumedSessionData): Promise<void> {
+    this.config.getChatRecordingService()?.initialize(resumedSessionData);
+    this.chat = await this.startChat(
+      conversationToHistory(resumedSessionData.conversation),
+    );
+    this.startSession('resume');
+  }
+
+  /**
+   * Runs SessionStart hooks when the session starts, resumes or is cleared,
+   * without waiting for them. Their context is added to the next prompt.
+   */
+  startSession(source: 'startup' | 'resume' | 'clear'): void {
+    const hookService = this.config.getHookService();
+    if (!hookService.hasHooks('SessionStart')) {
+      return;
+    }
+    this.pendingSessionContext.push(
+      hookService
+        .run({ hookEventName: 'SessionStart', source })
+        .then((result) => result.additionalContext)
+        // A failed hook adds no context, like a hook that printed nothing
+        .catch(() => undefined),
+    );
+  }
+
+  /**
+   * Journals finished tool calls against the model turn that requested them.
+   */
+  recordCompletedToolCalls(
+    toolCalls: Array<
+      Pick<CompletedToolCall, 'status' | 'request' | 'response' | 'tool'> & {
+        invocation?: AnyToolInvocation;
+      }
+    >,
+  ): void {
+    const recorder = this.config.getChatRecordingService();
+    if (!recorder || toolCalls.length === 0) {
+      return;
+    }
+
+    const records: ToolCallRecord[] = toolCalls.map((call) => {
+      const display = call.response.resultDisplay;
+      return {
+        id: call.request.callId,
+        name: call.request.name,
+        args: call.request.args,
+        result: call.response.responseParts,
+        status: call.status,
+        timestamp: new Date().toISOString(),
+        displayName: call.tool?.displayName,
+        description: call.invocation?.getDescription(),
+        resultDisplay: typeof display === 'string' ? display : undefined,
+        // Only the diff itself; full file contents would bloat the session file
+        fileDiff:
+          display && typeof display === 'object' && 'fileDiff' in display
+            ? {
+                fileName: display.fileName,
+                fileDiff: display.fileDiff,
+                diffStat: display.diffStat,
+              }
+            : undefined,
+        renderOutputAsMarkdown: call.tool?.isOutputMarkdown,
+      };
+    });
+    try {
+      recorder.recordToolCalls(records);
+    } catch (error) {
+      console.debug('Failed to record tool calls:', error);
+    }
   }
 
   /**
@@ -313,6 +405,7 @@ export class GeminiClient {
           tools,
         },
         history,
+        this.config.getChatRecordingService(),
       );
     } catch (error) {
       await reportError(
@@ -504,6 +597,7 @@ export class GeminiClient {
     if (isNewPrompt) {
       this.loopDetector.reset(prompt_id);
       this.lastPromptId = prompt_id;
+      this.stopHookActive = false;
     }
     this.sessionTurnCount++;
     if (
@@ -522,6 +616,38 @@ export class GeminiClient {
     // Track the original model from the first call to detect model switching
     const initialModel = originalModel || this.config.getModel();
 
+    // Context printed by SessionStart and UserPromptSubmit hooks
+    const hookContext: string[] = [];
+    if (isNewPrompt) {
+      const hookService = this.config.getHookService();
+      for (const context of await Promise.all(
+        this.pendingSessionContext.splice(0),
+      )) {
+        if (context) {
+          hookContext.push(context);
+        }
+      }
+      if (hookService.hasHooks('UserPromptSubmit')) {
+        const result = await hookService.run(
+          { hookEventName: 'UserPromptSubmit', prompt: partToString(request) },
+          signal,
+        );
+        if (result.decision === 'block') {
+          yield {
+            type: GeminiEventType.HookBlocked,
+            value: {
+              hookEventName: 'UserPromptSubmit',
+              reason: result.reason ?? '',
+            },
+          };
+          return new Turn(this.getChat(), prompt_id);
+        }
+        if (result.additionalContext) {
+          hookContext.push(result.additionalContext);
+        }
+      }
+    }
+
     const compressed = await this.tryCompressChat(prompt_id);
 
     if (compressed.compressionStatus === CompressionStatus.COMPRESSED) {
@@ -632,6 +758,8 @@ export class GeminiClient {
         systemReminders.push(getPlanModeSystemReminder());
       }
 
+      systemReminders.push(...hookContext.map(getHookContextSystemReminder));
+
       requestToSent = [...systemReminders, ...requestToSent];
     }
 
@@ -658,6 +786,7 @@ export class GeminiClient {
       }
 
       if (this.config.getSkipNextSpeakerCheck()) {
+        yield* this.runStopHooks(signal, prompt_id, boundedTurns, initialModel);
         return turn;
       }
 
@@ -685,11 +814,43 @@ export class GeminiClient {
           boundedTurns - 1,
           initialModel,
         );
+      } else {
+        yield* this.runStopHooks(signal, prompt_id, boundedTurns, initialModel);
       }
     }
     return turn;
   }
 
+  /**
+   * Runs Stop hooks once the agent has finished. A hook that blocks sends
+   * its reason to the model and the agent keeps working.
+   */
+  private async *runStopHooks(
+    signal: AbortSignal,
+    prompt_id: string,
+    turns: number,
+    initialModel: string,
+  ): AsyncGenerator<ServerGeminiStreamEvent> {
+    const hookService = this.config.getHookService();
+    if (!hookService.hasHooks('Stop')) {
+      return;
+    }
+    const result = await hookService.run(
+      { hookEventName: 'Stop', stopHookActive: this.stopHookActive },
+      signal,
+    );
+    if (result.decision === 'block' && !signal.aborted) {
+      this.stopHookActive = true;
+      yield* this.sendMessageStream(
+        [{ text: result.reason ?? 'Please continue.' }],
+        signal,
+        prompt_id,
+        turns - 1,
+        initialModel,
+      );
+    }
+  }
+
   async generateJson(
     contents: Content[],
     schema: Record<string, unknown>,
@@ -843,13 +1004,17 @@ export class GeminiClient {
     }
   }
 
-  async generateEmbedding(texts: string[]): Promise<number[][]> {
+  async generateEmbedding(
+    texts: string[],
+    abortSignal?: AbortSignal,
+  ): Promise<number[][]> {
     if (!texts || texts.length === 0) {
       return [];
     }
     const embedModelParams: EmbedContentParameters = {
       model: this.embeddingModel,
       contents: texts,
+      config: abortSignal ? { abortSignal } : undefined,
     };
 
     const embedContentResponse =
@@ -930,6 +1095,21 @@ export class GeminiClient {
       }
     }
 
+    const hookService = this.config.getHookService();
+    if (hookService.hasHooks('PreCompact')) {
+      const result = await hookService.run({
+        hookEventName: 'PreCompact',
+        trigger: force ? 'manual' : 'auto',
+      });
+      if (result.decision === 'block') {
+        return {
+          originalTokenCount,
+          newTokenCount: originalTokenCount,
+          compressionStatus: CompressionStatus.NOOP,
+        };
+      }
+    }
+
     let compressBeforeIndex = findIndexAfterFraction(
       curatedHistory,
       1 - COMPRESSION_PRESERVE_THRESHOLD,
@@ -15,7 +15,11 @@ import type {
 import { GoogleGenAI } from '@google/genai';
 import { createCodeAssistContentGenerator } from '../code_assist/codeAssist.js';
 import type { Config } from '../config/config.js';
-import { DEFAULT_GEMINI_MODEL, DEFAULT_QWEN_MODEL } from '../config/models.js';
+import {
+  DEFAULT_ANTHROPIC_MODEL,
+  DEFAULT_GEMINI_MODEL,
+  DEFAULT_QWEN_MODEL,
+} from '../config/models.js';
 
 import type { UserTierId } from '../code_assist/types.js';
 import { InstallationManager } from '../utils/installationManager.js';
@@ -51,6 +55,7 @@ export enum AuthType {
   QWEN_OAUTH = 'qwen-oauth',
   RECODER_AUTH = 'recoder-auth',
   USE_OLLAMA = 'ollama',
+  USE_ANTHROPIC = 'anthropic',
 }
 
 export type ContentGeneratorConfig = {
@@ -101,12 +106,22 @@ export function createContentGeneratorConfig(
   // Ollama detection
   const ollamaBaseUrl = process.env['OLLAMA_BASE_URL'] || 'http://localhost:11434';
 
+  // Anthropic - native Messages API
+  const anthropicApiKey = process.env['ANTHROPIC_API_KEY'] || undefined;
+  const anthropicBaseUrl = process.env['ANTHROPIC_BASE_URL'] || 'https://api.anthropic.com';
+  const anthropicModel = process.env['ANTHROPIC_MODEL'] || undefined;
+
   // Use runtime model from config if available
   const effectiveModel = config.getModel() || (openrouterApiKey ? openrouterModel : DEFAULT_GEMINI_MODEL);
 
   // Auto-detect provider from model ID (e.g., ollama/llama3.1:8b)
   if (effectiveModel.startsWith('ollama/')) {
     authType = AuthType.USE_OLLAMA;
+  } else if (
+    authType === AuthType.USE_ANTHROPIC ||
+    (anthropicApiKey && !openrouterApiKey && effectiveModel.startsWith('anthropic/'))
+  ) {
+    authType = AuthType.USE_ANTHROPIC;
   } else if (effectiveModel.startsWith('openrouter/') || openrouterApiKey) {
     authType = AuthType.USE_OPENAI;
   }
@@ -135,6 +150,19 @@ export function createContentGeneratorConfig(
     return contentGeneratorConfig;
   }
 
+  // Anthropic - direct Claude access
+  if (authType === AuthType.USE_ANTHROPIC) {
+    contentGeneratorConfig.apiKey = anthropicApiKey;
+    contentGeneratorConfig.baseUrl = anthropicBaseUrl;
+    // The default model is an OpenRouter id, which the Messages API rejects
+    contentGeneratorConfig.model =
+      anthropicModel ||
+      (effectiveModel === DEFAULT_GEMINI_MODEL
+        ? DEFAULT_ANTHROPIC_MODEL
+        : effectiveModel);
+    return contentGeneratorConfig;
+  }
+
   // If we are using Google auth or we are in Cloud Shell, there is nothing else to validate for now
   if (
     authType === AuthType.LOGIN_WITH_GOOGLE ||
@@ -199,6 +227,54 @@ export async function createContentGenerator(
   config: ContentGeneratorConfig,
   gcConfig: Config,
   sessionId?: string,
+): Promise<ContentGenerator> {
+  const generator = await createProviderContentGenerator(config, gcConfig, sessionId);
+
+  // Wrap in an ordered failover chain when fallback providers are configured
+  const providerFallback = gcConfig?.getProviderFallback?.();
+  if (!providerFallback || providerFallback.candidates.length === 0) {
+    return generator;
+  }
+
+  const { FallbackContentGenerator } = await import('./fallbackContentGenerator.js');
+  return new FallbackContentGenerator(
+    { id: providerFallback.primaryId ?? config.authType ?? 'primary', config, generator },
+    providerFallback,
+    gcConfig,
+    (candidateConfig) => createProviderContentGenerator(candidateConfig, gcConfig, sessionId),
+  );
+}
+
+async function createProviderContentGenerator(
+  config: ContentGeneratorConfig,
+  gcConfig: Config,
+  sessionId?: string,
+): Promise<ContentGenerator> {
+  const generator = await createBaseContentGenerator(config, gcConfig, sessionId);
+
+  // Response cache and request/token budgets apply per provider
+  const {
+    CachingContentGenerator,
+    resolveProviderRateLimit,
+    resolveResponseCacheSettings,
+  } = await import('./cachingContentGenerator.js');
+  const cacheSettings = resolveResponseCacheSettings(
+    gcConfig?.getContentGeneratorResponseCache?.(),
+  );
+  const rateLimit = resolveProviderRateLimit(
+    config,
+    gcConfig?.getContentGeneratorRateLimits?.(),
+  );
+  if (!cacheSettings.enabled && !rateLimit) {
+    return generator;
+  }
+  return new CachingContentGenerator(generator, config, cacheSettings, rateLimit);
+}
+
+async function createBaseContentGenerator(
+  config: ContentGeneratorConfig,
+  gcConfig: Config,
+  sessionId?: string,
 ): Promise<ContentGenerator> {
   const version = process.env['CLI_VERSION'] || process.version;
   const userAgent = `QwenCode/${version} (${process.platform}; ${process.arch})`;
@@ -228,6 +304,18 @@ export async function createContentGenerator(
     return new LoggingContentGenerator(createOllamaContentGenerator(config), gcConfig);
   }
 
+  if (config.authType === AuthType.USE_ANTHROPIC) {
+    if (!config.apiKey) {
+      throw new Error('Anthropic API key is required');
+    }
+
+    const { createAnthropicContentGenerator } = await import('./anthropicContentGenerator.js');
+    return new LoggingContentGenerator(
+      createAnthropicContentGenerator({ ...config, userAgent }),
+      gcConfig,
+    );
+  }
+
   if (
     config.authType === AuthType.USE_GEMINI ||
     config.authType === AuthType.USE_VERTEX_AI
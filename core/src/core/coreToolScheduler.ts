@@ -26,6 +26,7 @@ import {
 } from '../index.js';
 import type { Part, PartListUnion } from '@google/genai';
 import { getResponseTextFromParts } from '../utils/generateContentResponseUtilities.js';
+import { partToString } from '../utils/partUtils.js';
 import type { ModifyContext } from '../tools/modifiable-tool.js';
 import {
   isModifiableDeclarativeTool,
@@ -35,6 +36,14 @@ import * as Diff from 'diff';
 import { doesToolInvocationMatch } from '../utils/tool-utils.js';
 import levenshtein from 'fast-levenshtein';
 import { getPlanModeSystemReminder } from './prompts.js';
+import type { PermissionEvaluation } from '../policy/permissionPolicy.js';
+import type { HookResult } from '../services/hookService.js';
+import { evaluatePermission } from '../policy/permissionPolicy.js';
+import {
+  evaluatePermissionRules,
+  getAlwaysAllowRules,
+  getMcpToolIdentity,
+} from '../policy/permissionRules.js';
 
 export type ValidatingToolCall = {
   status: 'validating';
@@ -650,7 +659,7 @@ export class CoreToolScheduler {
           continue;
         }
 
-        const { request: reqInfo, invocation } = toolCall;
+        let { request: reqInfo, invocation } = toolCall;
 
         try {
           if (signal.aborted) {
@@ -662,9 +671,86 @@ export class CoreToolScheduler {
             continue;
           }
 
+          const hookService = this.config.getHookService();
+          let hookDecision: HookResult['decision'];
+          if (hookService.hasHooks('PreToolUse', reqInfo.name)) {
+            const hookResult = await hookService.run(
+              {
+                hookEventName: 'PreToolUse',
+                toolName: reqInfo.name,
+                toolInput: reqInfo.args,
+                toolPaths: invocation
+                  .toolLocations()
+                  .map(({ path }) => path),
+              },
+              signal,
+            );
+            if (hookResult.decision === 'block') {
+              this.setStatusInternal(
+                reqInfo.callId,
+                'error',
+                createErrorResponse(
+                  reqInfo,
+                  new Error(
+                    `Tool call blocked by PreToolUse hook: ${hookResult.reason}`,
+                  ),
+                  ToolErrorType.HOOK_BLOCKED,
+                ),
+              );
+              continue;
+            }
+            if (hookResult.toolInput) {
+              const invocationOrError = this.buildInvocation(
+                toolCall.tool,
+                hookResult.toolInput,
+              );
+              if (invocationOrError instanceof Error) {
+                this.setStatusInternal(
+                  reqInfo.callId,
+                  'error',
+                  createErrorResponse(
+                    reqInfo,
+                    invocationOrError,
+                    ToolErrorType.INVALID_TOOL_PARAMS,
+                  ),
+                );
+                continue;
+              }
+              this.setArgsInternal(reqInfo.callId, hookResult.toolInput);
+              reqInfo = { ...reqInfo, args: hookResult.toolInput };
+              invocation = invocationOrError;
+            }
+            hookDecision = hookResult.decision;
+          }
+
+          const checkPermission = (): PermissionEvaluation | undefined => {
+            const evaluation = this.evaluatePermission(
+              reqInfo,
+              toolCall.tool,
+              invocation,
+            );
+            // A hook approved the call; only a deny rule overrides it
+            return hookDecision === 'allow' && evaluation?.decision !== 'deny'
+              ? { decision: 'allow' }
+              : evaluation;
+          };
+          let permission = checkPermission();
+          if (permission?.decision === 'deny') {
+            this.setDeniedByPolicy(reqInfo, permission);
+            continue;
+          }
+
           const confirmationDetails =
             await invocation.shouldConfirmExecute(signal);
 
+          // Some tools know every file they change only once they have
+          // planned the change, e.g. a rename
+          permission = checkPermission();
+          if (permission?.decision === 'deny') {
+            this.setDeniedByPolicy(reqInfo, permission);
+            continue;
+          }
+
           if (!confirmationDetails) {
             this.setToolCallOutcome(
               reqInfo.callId,
@@ -697,13 +783,27 @@ export class CoreToolScheduler {
             }
           } else if (
             this.config.getApprovalMode() === ApprovalMode.YOLO ||
-            doesToolInvocationMatch(toolCall.tool, invocation, allowedTools)
+            doesToolInvocationMatch(toolCall.tool, invocation, allowedTools) ||
+            permission?.decision === 'allow'
           ) {
             this.setToolCallOutcome(
               reqInfo.callId,
               ToolConfirmationOutcome.ProceedAlways,
             );
             this.setStatusInternal(reqInfo.callId, 'scheduled');
+          } else if (permission && !this.config.isInteractive()) {
+            // Nobody can approve a headless run; fail instead of waiting forever
+            this.setStatusInternal(
+              reqInfo.callId,
+              'error',
+              createErrorResponse(
+                reqInfo,
+                new Error(
+                  `Tool call requires approval, which is unavailable in non-interactive mode. ${permission.reason ?? 'No permission policy rule allows it'}.`,
+                ),
+                ToolErrorType.POLICY_APPROVAL_UNAVAILABLE,
+              ),
+            );
           } else {
             // Allow IDE to resolve confirmation
             if (
@@ -784,7 +884,23 @@ export class CoreToolScheduler {
       await originalOnConfirm(outcome);
     }
 
-    if (outcome === ToolConfirmationOutcome.ProceedAlways) {
+    if (toolCall && toolCall.status === 'awaiting_approval') {
+      this.config.addAlwaysAllowRules(
+        getAlwaysAllowRules(
+          toolCall.tool,
+          toolCall.invocation,
+          outcome,
+          this.config.getParsedPermissionRules(),
+          this.config.getTargetDir(),
+        ),
+      );
+    }
+
+    if (
+      outcome === ToolConfirmationOutcome.ProceedAlways ||
+      outcome === ToolConfirmationOutcome.ProceedAlwaysServer ||
+      outcome === ToolConfirmationOutcome.ProceedAlwaysTool
+    ) {
       await this.autoApproveCompatiblePendingTools(signal, callId);
     }
 
@@ -944,6 +1060,12 @@ export class CoreToolScheduler {
                 error: undefined,
                 errorType: undefined,
               };
+              await this.runPostToolUseHooks(
+                scheduledCall,
+                successResponse,
+                toolResult,
+                signal,
+              );
               this.setStatusInternal(callId, 'success', successResponse);
             } else {
               // It is a failure
@@ -953,6 +1075,12 @@ export class CoreToolScheduler {
                 error,
                 toolResult.error.type,
               );
+              await this.runPostToolUseHooks(
+                scheduledCall,
+                errorResponse,
+                toolResult,
+                signal,
+              );
               this.setStatusInternal(callId, 'error', errorResponse);
             }
           })
@@ -1021,6 +1149,116 @@ export class CoreToolScheduler {
     });
   }
 
+  /**
+   * Runs PostToolUse hooks for a finished call. Feedback from a hook that
+   * blocks, and any additional context, is added to the tool response so
+   * the model sees it.
+   */
+  private async runPostToolUseHooks(
+    toolCall: ScheduledToolCall,
+    response: ToolCallResponseInfo,
+    toolResult: ToolResult,
+    signal: AbortSignal,
+  ): Promise<void> {
+    const { name, args } = toolCall.request;
+    const hookService = this.config.getHookService();
+    if (!hookService.hasHooks('PostToolUse', name)) {
+      return;
+    }
+    const result = await hookService.run(
+      {
+        hookEventName: 'PostToolUse',
+        toolName: name,
+        toolInput: args,
+        toolResponse: {
+          success: toolResult.error === undefined,
+          output: partToString(toolResult.llmContent),
+          error: toolResult.error?.message,
+        },
+        durationMs: toolCall.startTime ? Date.now() - toolCall.startTime : 0,
+      },
+      signal,
+    );
+    const feedback = [
+      result.decision === 'block' && result.reason
+        ? `PostToolUse hook feedback: ${result.reason}`
+        : undefined,
+      result.additionalContext,
+    ].filter((text): text is string => !!text);
+    if (feedback.length > 0) {
+      // Kept inside the function response, which every provider forwards
+      response.responseParts = response.responseParts.map((part) =>
+        part.functionResponse
+          ? {
+              functionResponse: {
+                ...part.functionResponse,
+                response: {
+                  ...part.functionResponse.response,
+                  hookFeedback: feedback.join('\n\n'),
+                },
+              },
+            }
+          : part,
+      );
+    }
+  }
+
+  /**
+   * Checks a call against the --permission-policy file and the rules saved
+   * in settings, for every path the call touches. A policy denial wins,
+   * then saved rules, then the rest of the policy.
+   */
+  private evaluatePermission(
+    request: ToolCallRequestInfo,
+    tool: AnyDeclarativeTool,
+    invocation: AnyToolInvocation,
+  ): PermissionEvaluation | undefined {
+    const targetDir = this.config.getTargetDir();
+    const mcpTool = getMcpToolIdentity(tool);
+    const toolPaths = invocation.toolLocations().map(({ path }) => path);
+    const policy = this.config.getPermissionPolicy();
+    const evaluation = policy
+      ? evaluatePermission(
+          policy,
+          request.name,
+          request.args,
+          targetDir,
+          mcpTool,
+          toolPaths,
+        )
+      : undefined;
+    if (evaluation?.decision === 'deny') {
+      return evaluation;
+    }
+    return (
+      evaluatePermissionRules(
+        this.config.getParsedPermissionRules(),
+        request.name,
+        request.args,
+        targetDir,
+        mcpTool,
+        toolPaths,
+      ) ?? evaluation
+    );
+  }
+
+  private setDeniedByPolicy(
+    request: ToolCallRequestInfo,
+    permission: PermissionEvaluation,
+  ): void {
+    this.setStatusInternal(
+      request.callId,
+      'error',
+      createErrorResponse(
+        request,
+        new Error(
+          `Tool call denied by the permission policy${permission.reason ? `: ${permission.reason}` : '.'}`,
+        ),
+        ToolErrorType.POLICY_DENIED,
+      ),
+    );
+  }
+
   private async autoApproveCompatiblePendingTools(
     signal: AbortSignal,
     triggeringCallId: string,
@@ -1034,7 +1272,12 @@ export class CoreToolScheduler {
     for (const pendingTool of pendingTools) {
       try {
         const stillNeedsConfirmation =
-          await pendingTool.invocation.shouldConfirmExecute(signal);
+          this.evaluatePermission(
+            pendingTool.request,
+            pendingTool.tool,
+            pendingTool.invocation,
+          )?.decision !== 'allow' &&
+          (await pendingTool.invocation.shouldConfirmExecute(signal));
 
         if (!stillNeedsConfirmation) {
           this.setToolCallOutcome(
@@ -0,0 +1,356 @@
+/**
+ * Fallback Content Generator - Ordered provider failover
+ * Wraps a chain of ContentGenerators (e.g. OpenRouter → Anthropic → Ollama)
+ * with per-provider circuit breakers, cooldowns and a health history.
+ */
+
+import { EventEmitter } from 'node:events';
+import type {
+  CountTokensParameters,
+  CountTokensResponse,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  GenerateContentParameters,
+  GenerateContentResponse,
+} from '@google/genai';
+import type {
+  AuthType,
+  ContentGenerator,
+  ContentGeneratorConfig,
+} from './contentGenerator.js';
+import type { Config } from '../config/config.js';
+import { getErrorStatus } from '../utils/retry.js';
+import { getErrorMessage } from '../utils/errors.js';
+
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN_MS = 60_000;
+const MAX_COOLDOWN_MS = 10 * 60_000;
+const HEALTH_HISTORY_SIZE = 50;
+
+/**
+ * A provider the chain may fall back to. Fields not set here are inherited
+ * from the primary ContentGeneratorConfig (timeouts, sampling params, ...).
+ */
+export interface FallbackCandidate {
+  /** Provider name for reports; repeats when a provider serves several models */
+  id: string;
+  model: string;
+  authType: AuthType;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+export interface ProviderFallbackSettings {
+  /** Provider id reported for the primary generator (defaults to its authType) */
+  primaryId?: string;
+  candidates: FallbackCandidate[];
+  /** Consecutive failures before a provider's circuit opens */
+  failureThreshold?: number;
+  /** Initial cooldown for an open circuit; doubles on each failed probe */
+  cooldownMs?: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface ProviderHealthRecord {
+  timestamp: number;
+  success: boolean;
+  latencyMs: number;
+  status?: number;
+  error?: string;
+}
+
+export interface ProviderHealth {
+  id: string;
+  model: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  cooldownUntil?: number;
+  history: ProviderHealthRecord[];
+}
+
+export interface ProviderSwitchEvent {
+  fromProvider: string;
+  toProvider: string;
+  fromModel: string;
+  toModel: string;
+  reason: string;
+}
+
+/**
+ * Global event emitter for provider switches so the UI can surface them
+ */
+export const providerFallbackEvents = new EventEmitter();
+export const PROVIDER_SWITCH_EVENT = 'provider-switch';
+
+interface ChainEntry {
+  id: string;
+  config: ContentGeneratorConfig;
+  generator?: ContentGenerator;
+  health: ProviderHealth;
+  cooldownMs: number;
+}
+
+type GeneratorFactory = (config: ContentGeneratorConfig) => Promise<ContentGenerator>;
+
+/**
+ * Whether an error should move the request on to the next provider.
+ * Client errors other than auth/rate-limit failures are the request's fault
+ * and would fail everywhere, so they are rethrown as-is.
+ */
+export function isFailoverError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return status === 401 || status === 403 || status === 408 || status === 429 || status >= 500;
+  }
+  const message = getErrorMessage(error);
+  return /fetch failed|network|socket hang up|ECONNREFUSED|ECONNRESET|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|timed? ?out/i.test(
+    message,
+  );
+}
+
+export class FallbackContentGenerator implements ContentGenerator {
+  private entries: ChainEntry[];
+  // Tracked by entry, as ids repeat when the chain uses a provider twice
+  private active: ChainEntry;
+  private readonly failureThreshold: number;
+  private readonly baseCooldownMs: number;
+
+  constructor(
+    primary: { id: string; config: ContentGeneratorConfig; generator: ContentGenerator },
+    settings: ProviderFallbackSettings,
+    private readonly gcConfig: Config,
+    private readonly createGenerator: GeneratorFactory,
+  ) {
+    this.failureThreshold = settings.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+    this.baseCooldownMs = settings.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+
+    this.entries = [
+      { ...primary },
+      ...settings.candidates.map((candidate) => ({
+        id: candidate.id,
+        config: {
+          ...primary.config,
+          model: candidate.model,
+          authType: candidate.authType,
+          baseUrl: candidate.baseUrl,
+          apiKey: candidate.apiKey,
+        },
+      })),
+    ].map((entry) => ({
+      ...entry,
+      cooldownMs: this.baseCooldownMs,
+      health: {
+        id: entry.id,
+        model: entry.config.model,
+        state: 'closed' as CircuitState,
+        consecutiveFailures: 0,
+        history: [],
+      },
+    }));
+    this.active = this.entries[0];
+  }
+
+  get userTier() {
+    return this.entries[0].generator?.userTier;
+  }
+
+  /**
+   * Snapshot of every provider's circuit state and recent request history.
+   */
+  getHealth(): ProviderHealth[] {
+    return this.entries.map((entry) => ({
+      ...entry.health,
+      model: entry.config.model,
+      history: [...entry.health.history],
+    }));
+  }
+
+  getActiveProvider(): string {
+    return this.active.id;
+  }
+
+  async generateContent(
+    request: GenerateContentParameters,
+    userPromptId: string,
+  ): Promise<GenerateContentResponse> {
+    return this.execute(request, (generator, req) =>
+      generator.generateContent(req, userPromptId),
+    );
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+    userPromptId: string,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    return this.execute(request, async (generator, req, entry) => {
+      const stream = await generator.generateContentStream(req, userPromptId);
+      // Failing over is only safe before anything has been yielded, so pull
+      // the first chunk while the provider is still "on trial".
+      const first = await stream.next();
+      return this.resumeStream(first, stream, entry);
+    });
+  }
+
+  async countTokens(request: CountTokensParameters): Promise<CountTokensResponse> {
+    const entry = this.active;
+    const generator = await this.getGenerator(entry);
+    return generator.countTokens({ ...request, model: entry.config.model });
+  }
+
+  async embedContent(request: EmbedContentParameters): Promise<EmbedContentResponse> {
+    // Embedding spaces differ between providers, so never mix them
+    const entry = this.active;
+    const generator = await this.getGenerator(entry);
+    return generator.embedContent(request);
+  }
+
+  private async execute<TRequest extends { model: string; config?: { abortSignal?: AbortSignal } }, TResult>(
+    request: TRequest,
+    call: (generator: ContentGenerator, request: TRequest, entry: ChainEntry) => Promise<TResult>,
+  ): Promise<TResult> {
+    const candidates = this.getAvailableEntries();
+    let lastError: unknown;
+
+    for (const entry of candidates) {
+      const startTime = Date.now();
+      try {
+        const generator = await this.getGenerator(entry);
+        // The primary follows the session model (it may change via /model)
+        const model = entry === this.entries[0] ? request.model : entry.config.model;
+        const result = await call(generator, { ...request, model }, entry);
+        this.recordSuccess(entry, Date.now() - startTime);
+        this.switchTo(entry, lastError);
+        return result;
+      } catch (error) {
+        if (request.config?.abortSignal?.aborted) {
+          throw error; // User cancellation is not a provider failure
+        }
+        if (!isFailoverError(error)) {
+          throw error;
+        }
+        this.recordFailure(entry, Date.now() - startTime, error);
+        lastError = error;
+      }
+    }
+
+    throw lastError ?? new Error('All providers in the fallback chain are unavailable (circuits open)');
+  }
+
+  private async *resumeStream(
+    first: IteratorResult<GenerateContentResponse>,
+    stream: AsyncGenerator<GenerateContentResponse>,
+    entry: ChainEntry,
+  ): AsyncGenerator<GenerateContentResponse> {
+    if (first.done) return;
+    yield first.value;
+    const startTime = Date.now();
+    try {
+      yield* stream;
+    } catch (error) {
+      // Too late to switch providers mid-response, but it still counts against its health
+      if (isFailoverError(error)) {
+        this.recordFailure(entry, Date.now() - startTime, error);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Closed circuits in chain order, then half-open probes once their cooldown
+   * has elapsed. If every circuit is open, try the one that recovers first
+   * rather than failing outright.
+   */
+  private getAvailableEntries(): ChainEntry[] {
+    const now = Date.now();
+    const available = this.entries.filter((entry) => {
+      const { health } = entry;
+      if (health.state === 'open' && health.cooldownUntil && now >= health.cooldownUntil) {
+        health.state = 'half_open';
+      }
+      return health.state !== 'open';
+    });
+
+    if (available.length > 0) {
+      return available;
+    }
+    const soonest = [...this.entries].sort(
+      (a, b) => (a.health.cooldownUntil ?? 0) - (b.health.cooldownUntil ?? 0),
+    )[0];
+    return [soonest];
+  }
+
+  private async getGenerator(entry: ChainEntry): Promise<ContentGenerator> {
+    if (!entry.generator) {
+      entry.generator = await this.createGenerator(entry.config);
+    }
+    return entry.generator;
+  }
+
+  private recordSuccess(entry: ChainEntry, latencyMs: number): void {
+    const { health } = entry;
+    health.state = 'closed';
+    health.consecutiveFailures = 0;
+    health.cooldownUntil = undefined;
+    entry.cooldownMs = this.baseCooldownMs;
+    this.pushHistory(health, { timestamp: Date.now(), success: true, latencyMs });
+  }
+
+  private recordFailure(entry: ChainEntry, latencyMs: number, error: unknown): void {
+    const { health } = entry;
+    health.consecutiveFailures++;
+
+    if (health.state === 'half_open') {
+      // Failed probe: reopen with a longer cooldown
+      entry.cooldownMs = Math.min(entry.cooldownMs * 2, MAX_COOLDOWN_MS);
+      health.state = 'open';
+    } else if (health.consecutiveFailures >= this.failureThreshold) {
+      health.state = 'open';
+    }
+    if (health.state === 'open') {
+      health.cooldownUntil = Date.now() + entry.cooldownMs;
+    }
+
+    this.pushHistory(health, {
+      timestamp: Date.now(),
+      success: false,
+      latencyMs,
+      status: getErrorStatus(error),
+      error: getErrorMessage(error),
+    });
+  }
+
+  private pushHistory(health: ProviderHealth, record: ProviderHealthRecord): void {
+    health.history.push(record);
+    if (health.history.length > HEALTH_HISTORY_SIZE) {
+      health.history.shift();
+    }
+  }
+
+  private switchTo(to: ChainEntry, error: unknown): void {
+    if (this.active === to) {
+      return;
+    }
+    const fromEntry = this.active;
+    this.active = to;
+
+    const reason = error
+      ? `${fromEntry.id} failed: ${getErrorMessage(error)}`
+      : `${to.id} recovered`;
+    const event: ProviderSwitchEvent = {
+      fromProvider: fromEntry.id,
+      toProvider: to.id,
+      fromModel: fromEntry.config.model,
+      toModel: to.config.model,
+      reason,
+    };
+
+    this.gcConfig.logModelSwitch({
+      fromModel: `${event.fromProvider}/${event.fromModel}`,
+      toModel: `${event.toProvider}/${event.toModel}`,
+      reason: 'fallback',
+      context: reason,
+    });
+    providerFallbackEvents.emit(PROVIDER_SWITCH_EVENT, event);
+  }
+}
@@ -9,6 +9,7 @@
 
 import type {
   GenerateContentResponse,
+  GenerateContentResponseUsageMetadata,
   Content,
   GenerateContentConfig,
   SendMessageParameters,
@@ -23,6 +24,7 @@ import type { Config } from '../config/config.js';
 import { DEFAULT_GEMINI_FLASH_MODEL } from '../config/models.js';
 import { hasCycleInSchema } from '../tools/tools.js';
 import type { StructuredError } from './turn.js';
+import type { ChatRecordingService } from '../services/chatRecordingService.js';
 import {
   logContentRetry,
   logContentRetryFailure,
@@ -184,6 +186,7 @@ export class GeminiChat {
     private readonly contentGenerator: ContentGenerator,
     private readonly generationConfig: GenerateContentConfig = {},
     private history: Content[] = [],
+    private readonly chatRecordingService?: ChatRecordingService,
   ) {
     validateHistory(history);
   }
@@ -346,6 +349,11 @@ export class GeminiChat {
           modelOutput,
           automaticFunctionCallingHistory,
         );
+        this.recordTranscript(
+          userContent,
+          outputContent?.parts ?? [],
+          response.usageMetadata,
+        );
       })();
       await this.sendPromise.catch((error) => {
         // Resets sendPromise to avoid subsequent calls failing
@@ -685,6 +693,67 @@ export class GeminiChat {
 
     // Pass the raw, bundled data to the new, robust recordHistory
     this.recordHistory(userInput, modelOutput);
+    this.recordTranscript(
+      userInput,
+      modelResponseParts,
+      lastChunk?.usageMetadata,
+    );
+  }
+
+  /**
+   * Journals a completed turn to the session transcript. Tool results are
+   * not user messages; they are recorded with their tool calls instead.
+   */
+  private recordTranscript(
+    userInput: Content,
+    modelParts: Part[],
+    usageMetadata?: GenerateContentResponseUsageMetadata,
+  ) {
+    const recorder = this.chatRecordingService;
+    if (!recorder) {
+      return;
+    }
+
+    try {
+      const userText = (userInput.parts ?? [])
+        .filter((part) => part.text && !part.thought)
+        .map((part) => part.text)
+        .join('');
+      if (userText) {
+        recorder.recordMessage({ type: 'user', content: userText });
+      }
+
+      for (const part of modelParts) {
+        if (part.thought && part.text) {
+          const subject = part.text.match(/\*\*(.*?)\*\*/s)?.[1]?.trim() ?? '';
+          recorder.recordThought({
+            subject,
+            description: part.text.replace(/\*\*(.*?)\*\*/s, '').trim(),
+          });
+        }
+      }
+      recorder.recordMessage({
+        type: 'gemini',
+        content: modelParts
+          .filter((part) => part.text && !part.thought)
+          .map((part) => part.text)
+          .join(''),
+      });
+
+      if (usageMetadata) {
+        recorder.recordMessageTokens({
+          input: usageMetadata.promptTokenCount ?? 0,
+          output: usageMetadata.candidatesTokenCount ?? 0,
+          cached: usageMetadata.cachedContentTokenCount ?? 0,
+          thoughts: usageMetadata.thoughtsTokenCount,
+          tool: usageMetadata.toolUsePromptTokenCount,
+          total: usageMetadata.totalTokenCount ?? 0,
+        });
+      }
+    } catch (error) {
+      // A transcript failure must never break the conversation itself
+      console.debug('Failed to record chat transcript:', error);
+    }
   }
 
   private recordHistory(
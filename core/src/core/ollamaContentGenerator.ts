@@ -3,32 +3,65 @@
  * Integrates Ollama with the ContentGenerator interface
  */
 
+import { randomUUID } from 'node:crypto';
 import type {
+  CallableTool,
+  Content,
+  ContentUnion,
   CountTokensParameters,
   CountTokensResponse,
   EmbedContentParameters,
   EmbedContentResponse,
   GenerateContentParameters,
-  GenerateContentResponse,
+  Part,
+  PartUnion,
+  Tool,
+  ToolListUnion,
 } from '@google/genai';
+import { FinishReason, GenerateContentResponse } from '@google/genai';
 import type { ContentGenerator, ContentGeneratorConfig } from './contentGenerator.js';
+import { getDefaultTokenizer } from '../utils/request-tokenizer/index.js';
+import { safeJsonParse } from '../utils/safeJsonParse.js';
 
 const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+const DEFAULT_OLLAMA_EMBEDDING_MODEL = 'nomic-embed-text';
+
+interface OllamaToolCall {
+  function: { name: string; arguments: Record<string, unknown> | string };
+}
 
 interface OllamaChatMessage {
-  role: 'system' | 'user' | 'assistant';
+  role: 'system' | 'user' | 'assistant' | 'tool';
   content: string;
+  images?: string[];
+  tool_calls?: OllamaToolCall[];
+  tool_name?: string;
+}
+
+interface OllamaTool {
+  type: 'function';
+  function: {
+    name: string;
+    description?: string;
+    parameters?: Record<string, unknown>;
+  };
 }
 
 interface OllamaChatResponse {
   model: string;
-  message: { role: string; content: string };
+  message: { role: string; content: string; thinking?: string; tool_calls?: OllamaToolCall[] };
   done: boolean;
+  done_reason?: string;
   total_duration?: number;
   prompt_eval_count?: number;
   eval_count?: number;
 }
 
+interface OllamaEmbedResponse {
+  model: string;
+  embeddings: number[][];
+}
+
 export class OllamaContentGenerator implements ContentGenerator {
   private baseUrl: string;
   private model: string;
@@ -42,20 +75,11 @@ export class OllamaContentGenerator implements ContentGenerator {
     request: GenerateContentParameters,
     _userPromptId: string
   ): Promise<GenerateContentResponse> {
-    const messages = this.convertToOllamaMessages(request.contents);
-
     const response = await fetch(`${this.baseUrl}/api/chat`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        model: this.model,
-        messages,
-        stream: false,
-        options: {
-          temperature: request.config?.temperature ?? 0.7,
-          top_p: request.config?.topP ?? 0.9,
-        },
-      }),
+      body: JSON.stringify(await this.buildChatRequest(request, false)),
+      signal: request.config?.abortSignal,
     });
 
     if (!response.ok) {
@@ -71,21 +95,14 @@ export class OllamaContentGenerator implements ContentGenerator {
     _userPromptId: string
   ): Promise<AsyncGenerator<GenerateContentResponse>> {
     const self = this;
-    const messages = this.convertToOllamaMessages(request.contents);
+    const body = await this.buildChatRequest(request, true);
 
     async function* streamGenerator(): AsyncGenerator<GenerateContentResponse> {
       const response = await fetch(`${self.baseUrl}/api/chat`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          model: self.model,
-          messages,
-          stream: true,
-          options: {
-            temperature: request.config?.temperature ?? 0.7,
-            top_p: request.config?.topP ?? 0.9,
-          },
-        }),
+        body: JSON.stringify(body),
+        signal: request.config?.abortSignal,
       });
 
       if (!response.ok || !response.body) {
@@ -106,12 +123,14 @@ export class OllamaContentGenerator implements ContentGenerator {
 
         for (const line of lines) {
           if (!line.trim()) continue;
+          let data: OllamaChatResponse;
           try {
-            const data = JSON.parse(line) as OllamaChatResponse;
-            yield self.convertToGenerateContentResponse(data);
+            data = JSON.parse(line) as OllamaChatResponse;
           } catch {
-            // Skip invalid JSON
+            continue; // Skip invalid JSON
           }
+          // Tool calls arrive whole in a single chunk, so each maps to one functionCall part
+          yield self.convertToGenerateContentResponse(data);
         }
       }
     }
@@ -119,13 +138,115 @@ export class OllamaContentGenerator implements ContentGenerator {
     return streamGenerator();
   }
 
-  async countTokens(_request: CountTokensParameters): Promise<CountTokensResponse> {
-    // Ollama doesn't have a direct token counting API
-    return { totalTokens: 0 };
+  async countTokens(request: CountTokensParameters): Promise<CountTokensResponse> {
+    // Ollama doesn't have a token counting API - estimate with the shared tokenizer
+    try {
+      const result = await getDefaultTokenizer().calculateTokens(request, {
+        textEncoding: 'cl100k_base',
+      });
+      return { totalTokens: result.totalTokens };
+    } catch {
+      const content = JSON.stringify(request.contents);
+      return { totalTokens: Math.ceil(content.length / 4) }; // Rough estimate: 1 token ≈ 4 characters
+    }
+  }
+
+  async embedContent(request: EmbedContentParameters): Promise<EmbedContentResponse> {
+    const items: Array<ContentUnion | PartUnion> = Array.isArray(request.contents)
+      ? request.contents
+      : request.contents
+        ? [request.contents]
+        : [];
+    const input = items.map((item) => this.extractText(item));
+
+    // Hosted embedding model names (the default) mean nothing to Ollama
+    const model = request.model?.startsWith('ollama/')
+      ? request.model.replace('ollama/', '')
+      : process.env['OLLAMA_EMBEDDING_MODEL'] || DEFAULT_OLLAMA_EMBEDDING_MODEL;
+
+    const response = await fetch(`${this.baseUrl}/api/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model, input }),
+      signal: request.config?.abortSignal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Ollama error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as OllamaEmbedResponse;
+    return {
+      embeddings: (data.embeddings || []).map((values) => ({ values })),
+    };
+  }
+
+  private async buildChatRequest(
+    request: GenerateContentParameters,
+    stream: boolean,
+  ): Promise<Record<string, unknown>> {
+    const messages = this.convertToOllamaMessages(request.contents);
+
+    const systemText = this.extractText(request.config?.systemInstruction);
+    if (systemText) {
+      messages.unshift({ role: 'system', content: systemText });
+    }
+
+    const tools = request.config?.tools
+      ? await this.convertToOllamaTools(request.config.tools)
+      : [];
+
+    return {
+      model: this.model,
+      messages,
+      stream,
+      ...(tools.length > 0 ? { tools } : {}),
+      options: {
+        temperature: request.config?.temperature ?? 0.7,
+        top_p: request.config?.topP ?? 0.9,
+        ...(request.config?.maxOutputTokens
+          ? { num_predict: request.config.maxOutputTokens }
+          : {}),
+      },
+    };
+  }
+
+  private async convertToOllamaTools(tools: ToolListUnion): Promise<OllamaTool[]> {
+    const ollamaTools: OllamaTool[] = [];
+    for (const tool of tools) {
+      const actualTool: Tool =
+        'tool' in tool ? await (tool as CallableTool).tool() : (tool as Tool);
+
+      for (const func of actualTool.functionDeclarations ?? []) {
+        if (!func.name) continue;
+        // MCP tools use parametersJsonSchema, built-in tools use Gemini-typed parameters
+        const parameters = func.parametersJsonSchema
+          ? (func.parametersJsonSchema as Record<string, unknown>)
+          : (this.lowercaseSchemaTypes(func.parameters) as Record<string, unknown> | undefined);
+        ollamaTools.push({
+          type: 'function',
+          function: { name: func.name, description: func.description, parameters },
+        });
+      }
+    }
+    return ollamaTools;
   }
 
-  async embedContent(_request: EmbedContentParameters): Promise<EmbedContentResponse> {
-    throw new Error('Embeddings not yet supported for Ollama');
+  private lowercaseSchemaTypes(schema: unknown): unknown {
+    if (Array.isArray(schema)) {
+      return schema.map((item) => this.lowercaseSchemaTypes(item));
+    }
+    if (typeof schema !== 'object' || schema === null) {
+      return schema;
+    }
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(schema)) {
+      result[key] =
+        key === 'type' && typeof value === 'string'
+          ? value.toLowerCase()
+          : this.lowercaseSchemaTypes(value);
+    }
+    return result;
   }
 
   private convertToOllamaMessages(contents: GenerateContentParameters['contents']): OllamaChatMessage[] {
@@ -136,43 +257,106 @@ export class OllamaContentGenerator implements ContentGenerator {
     for (const content of contents) {
       // Type guard for Content objects
       if (typeof content === 'object' && 'role' in content && 'parts' in content) {
+        const contentRole = (content as { role: string }).role;
+        const role: 'system' | 'user' | 'assistant' =
+          contentRole === 'model' ? 'assistant' : contentRole === 'user' ? 'user' : 'system';
+
         let text = '';
-        const parts = content.parts;
+        const images: string[] = [];
+        const toolCalls: OllamaToolCall[] = [];
+        const parts = (content as Content).parts;
         if (Array.isArray(parts)) {
           for (const part of parts) {
-            if (typeof part === 'object' && 'text' in part) {
-              text += (part as { text: string }).text;
+            if (part.thought) continue;
+            if (part.text) {
+              text += part.text;
+            } else if (part.functionCall) {
+              toolCalls.push({
+                function: {
+                  name: part.functionCall.name || '',
+                  arguments: part.functionCall.args || {},
+                },
+              });
+            } else if (part.functionResponse) {
+              const response = part.functionResponse.response;
+              const output = response?.['output'];
+              messages.push({
+                role: 'tool',
+                tool_name: part.functionResponse.name,
+                content: typeof output === 'string' ? output : JSON.stringify(response ?? {}),
+              });
+            } else if (part.inlineData?.data && part.inlineData.mimeType?.startsWith('image/')) {
+              images.push(part.inlineData.data);
             }
           }
         }
 
-        const contentRole = (content as { role: string }).role;
-        const role: 'system' | 'user' | 'assistant' =
-          contentRole === 'model' ? 'assistant' : contentRole === 'user' ? 'user' : 'system';
-        messages.push({ role, content: text });
+        if (!text && images.length === 0 && toolCalls.length === 0) continue;
+        messages.push({
+          role,
+          content: text,
+          ...(images.length > 0 ? { images } : {}),
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+        });
       }
     }
     return messages;
   }
 
+  private extractText(contentUnion: unknown): string {
+    if (!contentUnion) return '';
+    if (typeof contentUnion === 'string') return contentUnion;
+    if (Array.isArray(contentUnion)) {
+      return contentUnion.map((item) => this.extractText(item)).filter(Boolean).join('\n');
+    }
+    if (typeof contentUnion === 'object') {
+      if ('parts' in contentUnion) return this.extractText((contentUnion as Content).parts);
+      if ('text' in contentUnion) return (contentUnion as Part).text || '';
+    }
+    return '';
+  }
+
   private convertToGenerateContentResponse(data: OllamaChatResponse): GenerateContentResponse {
-    return {
-      candidates: [
-        {
-          content: {
-            role: 'model',
-            parts: [{ text: data.message?.content || '' }],
-          },
-          finishReason: data.done ? 'STOP' : undefined,
-          index: 0,
+    const parts: Part[] = [];
+    if (data.message?.thinking) {
+      parts.push({ text: data.message.thinking, thought: true });
+    }
+    if (data.message?.content) {
+      parts.push({ text: data.message.content });
+    }
+    for (const toolCall of data.message?.tool_calls ?? []) {
+      const args = toolCall.function.arguments;
+      parts.push({
+        functionCall: {
+          id: `call_${randomUUID()}`, // Ollama does not assign tool call ids
+          name: toolCall.function.name,
+          args: typeof args === 'string' ? safeJsonParse(args, {}) : args || {},
+        },
+      });
+    }
+
+    const response = new GenerateContentResponse();
+    response.modelVersion = data.model;
+    response.candidates = [
+      {
+        content: {
+          role: 'model',
+          parts: parts.length > 0 ? parts : [{ text: '' }],
         },
-      ],
-      usageMetadata: {
-        promptTokenCount: data.prompt_eval_count || 0,
-        candidatesTokenCount: data.eval_count || 0,
-        totalTokenCount: (data.prompt_eval_count || 0) + (data.eval_count || 0),
+        finishReason: data.done
+          ? data.done_reason === 'length'
+            ? FinishReason.MAX_TOKENS
+            : FinishReason.STOP
+          : undefined,
+        index: 0,
       },
-    } as GenerateContentResponse;
+    ];
+    response.usageMetadata = {
+      promptTokenCount: data.prompt_eval_count || 0,
+      candidatesTokenCount: data.eval_count || 0,
+      totalTokenCount: (data.prompt_eval_count || 0) + (data.eval_count || 0),
+    };
+    return response;
   }
 }
 
@@ -101,50 +101,42 @@ export class OpenAIContentGenerator implements ContentGenerator {
   async embedContent(
     request: EmbedContentParameters,
   ): Promise<EmbedContentResponse> {
-    // Extract text from contents
-    let text = '';
-    if (Array.isArray(request.contents)) {
-      text = request.contents
-        .map((content) => {
-          if (typeof content === 'string') return content;
-          if ('parts' in content && content.parts) {
-            return content.parts
-              .map((part) =>
-                typeof part === 'string'
-                  ? part
-                  : 'text' in part
-                    ? (part as { text?: string }).text || ''
-                    : '',
-              )
-              .join(' ');
-          }
-          return '';
-        })
-        .join(' ');
-    } else if (request.contents) {
-      if (typeof request.contents === 'string') {
-        text = request.contents;
-      } else if ('parts' in request.contents && request.contents.parts) {
-        text = request.contents.parts
+    // Extract the text of each content; every one gets its own embedding
+    const items = Array.isArray(request.contents)
+      ? request.contents
+      : request.contents
+        ? [request.contents]
+        : [];
+    const inputs = items.map((content) => {
+      if (typeof content === 'string') return content;
+      if ('parts' in content && content.parts) {
+        return content.parts
           .map((part) =>
-            typeof part === 'string' ? part : 'text' in part ? part.text : '',
+            typeof part === 'string'
+              ? part
+              : 'text' in part
+                ? (part as { text?: string }).text || ''
+                : '',
           )
           .join(' ');
       }
-    }
+      if ('text' in content) return (content as { text?: string }).text || '';
+      return '';
+    });
 
     try {
-      const embedding = await this.pipeline.client.embeddings.create({
-        model: 'text-embedding-ada-002', // Default embedding model
-        input: text,
-      });
+      const embedding = await this.pipeline.client.embeddings.create(
+        {
+          model: 'text-embedding-ada-002', // Default embedding model
+          input: inputs,
+        },
+        { signal: request.config?.abortSignal },
+      );
 
       return {
-        embeddings: [
-          {
-            values: embedding.data[0].embedding,
-          },
-        ],
+        embeddings: embedding.data.map((item) => ({
+          values: item.embedding,
+        })),
       };
     } catch (error) {
       console.error('OpenAI API Embedding Error:', error);
@@ -853,6 +853,14 @@ export function getSubagentSystemReminder(agentTypes: string[]): string {
   return `<system-reminder>You have powerful specialized agents at your disposal, available agent types are: ${agentTypes.join(', ')}. PROACTIVELY use the ${ToolNames.TASK} tool to delegate user's task to appropriate agent when user's task matches agent capabilities. Ignore this message if user's task is not relevant to any agent. This message is for internal use only. Do not mention this to user in your response.</system-reminder>`;
 }
 
+/**
+ * Wraps text printed by a SessionStart or UserPromptSubmit hook so the model
+ * treats it as context rather than as part of the user's request.
+ */
+export function getHookContextSystemReminder(context: string): string {
+  return `<system-reminder>${context}</system-reminder>`;
+}
+
 /**
  * Generates a system reminder message for plan mode operation.
  *
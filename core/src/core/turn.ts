@@ -26,6 +26,7 @@ import {
   toFriendlyError,
 } from '../utils/errors.js';
 import type { GeminiChat } from './geminiChat.js';
+import type { HookEventName } from '../services/hookService.js';
 
 // Define a structure for tools passed to the server
 export interface ServerTool {
@@ -57,6 +58,7 @@ export enum GeminiEventType {
   LoopDetected = 'loop_detected',
   Citation = 'citation',
   Retry = 'retry',
+  HookBlocked = 'hook_blocked',
 }
 
 export type ServerGeminiRetryEvent = {
@@ -78,6 +80,11 @@ export interface SessionTokenLimitExceededValue {
   message: string;
 }
 
+export interface HookBlockedValue {
+  hookEventName: HookEventName;
+  reason: string;
+}
+
 export interface ToolCallRequestInfo {
   callId: string;
   name: string;
@@ -181,6 +188,11 @@ export type ServerGeminiLoopDetectedEvent = {
   type: GeminiEventType.LoopDetected;
 };
 
+export type ServerGeminiHookBlockedEvent = {
+  type: GeminiEventType.HookBlocked;
+  value: HookBlockedValue;
+};
+
 // The original union type, now composed of the individual types
 export type ServerGeminiStreamEvent =
   | ServerGeminiContentEvent
@@ -195,7 +207,8 @@ export type ServerGeminiStreamEvent =
   | ServerGeminiSessionTokenLimitExceededEvent
   | ServerGeminiFinishedEvent
   | ServerGeminiLoopDetectedEvent
-  | ServerGeminiRetryEvent;
+  | ServerGeminiRetryEvent
+  | ServerGeminiHookBlockedEvent;
 
 // A turn manages the agentic loop turn within the server context.
 export class Turn {
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as Diff from 'diff';
+
+/**
+ * A run of changed lines between two versions of a file. Lines keep their
+ * line endings, so applying hunks reproduces a version exactly.
+ */
+export interface DiffHunk {
+  /** 1-based line of the old version where the hunk starts */
+  oldStart: number;
+  /** Lines of the old version the hunk replaces */
+  oldLines: string[];
+  /** 1-based line of the new version where the hunk starts */
+  newStart: number;
+  /** Lines the hunk puts in their place */
+  newLines: string[];
+}
+
+/** Splits text into lines that keep their endings */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+}
+
+/** The hunks that turn `oldContent` into `newContent`, without context */
+export function computeDiffHunks(
+  oldContent: string,
+  newContent: string,
+): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  let current: DiffHunk | undefined;
+  for (const change of Diff.diffLines(oldContent, newContent)) {
+    const lines = splitLines(change.value);
+    if (!change.added && !change.removed) {
+      current = undefined;
+      oldLine += lines.length;
+      newLine += lines.length;
+      continue;
+    }
+    if (!current) {
+      current = {
+        oldStart: oldLine,
+        oldLines: [],
+        newStart: newLine,
+        newLines: [],
+      };
+      hunks.push(current);
+    }
+    if (change.added) {
+      current.newLines.push(...lines);
+      newLine += lines.length;
+    } else {
+      current.oldLines.push(...lines);
+      oldLine += lines.length;
+    }
+  }
+  return hunks;
+}
+
+/**
+ * Applies hunks computed against `oldContent`, or any subset of them, to
+ * it.
+ */
+export function applyDiffHunks(oldContent: string, hunks: DiffHunk[]): string {
+  const lines = splitLines(oldContent);
+  const fromLast = [...hunks].sort((a, b) => b.oldStart - a.oldStart);
+  for (const hunk of fromLast) {
+    lines.splice(hunk.oldStart - 1, hunk.oldLines.length, ...hunk.newLines);
+  }
+  return lines.join('');
+}
+
+/** Hunks in the unified diff format, e.g. `@@ -12,2 +12,3 @@` and lines */
+export function formatDiffHunks(hunks: DiffHunk[]): string {
+  return hunks
+    .map((hunk) =>
+      [
+        `@@ -${hunk.oldStart},${hunk.oldLines.length} +${hunk.newStart},${hunk.newLines.length} @@`,
+        ...hunk.oldLines.map((line) => `-${line.replace(/\r?\n$/, '')}`),
+        ...hunk.newLines.map((line) => `+${line.replace(/\r?\n$/, '')}`),
+      ].join('\n'),
+    )
+    .join('\n');
+}
+
+/** Tells the model which hunks of its change the user rejected */
+export function describeRejectedHunks(hunks: DiffHunk[]): string {
+  return `The user rejected ${hunks.length} hunk(s) of the proposed change in their IDE, so those lines were left as they were. Adjust your work to this; the rejected hunks, with the original lines (-) and the proposed ones (+):\n${formatDiffHunks(hunks)}`;
+}
@@ -7,14 +7,30 @@
 import * as fs from 'node:fs';
 import { isSubpath } from '../utils/paths.js';
 import { detectIde, type DetectedIde, getIdeInfo } from '../ide/detect-ide.js';
-import type { DiffUpdateResult } from '../ide/ideContext.js';
+import type { DiffReview, DiffUpdateResult } from '../ide/ideContext.js';
+import type { DiffHunk } from '../ide/diff-hunks.js';
 import {
   ideContext,
   IdeContextNotificationSchema,
   IdeDiffAcceptedNotificationSchema,
   IdeDiffClosedNotificationSchema,
+  IdeElicitationAnsweredNotificationSchema,
   CloseDiffResponseSchema,
+  IdeDiagnosticsResponseSchema,
+  IdeDocumentSymbolsResponseSchema,
+  IdeHoverResponseSchema,
+  IdeLocationsResponseSchema,
 } from '../ide/ideContext.js';
+import type { z } from 'zod';
+import type {
+  LspDiagnostic,
+  LspDocumentSymbol,
+  LspLocation,
+  LspPosition,
+  LspSymbolInformation,
+} from '../lsp/types.js';
+import type { ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import type { McpElicitationRequest } from '../mcp/elicitation.js';
 import { getIdeProcessInfo } from './process-utils.js';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
@@ -76,6 +92,10 @@ export class IdeClient {
   private currentIdeDisplayName: string | undefined;
   private ideProcessInfo: { pid: number; command: string } | undefined;
   private diffResponses = new Map<string, (result: DiffUpdateResult) => void>();
+  private elicitationResponses = new Map<
+    string,
+    (result: ElicitResult) => void
+  >();
   private statusListeners = new Set<(state: IDEConnectionState) => void>();
 
   private constructor() {}
@@ -175,17 +195,20 @@ export class IdeClient {
 
   /**
    * A diff is accepted with any modifications if the user performs one of the
-   * following actions:
+   * following actions, and the result tells which hunks they rejected one by
+   * one in the IDE and whether they edited it by hand:
    * - Clicks the checkbox icon in the IDE to accept
    * - Runs `command+shift+p` > "Gemini CLI: Accept Diff in IDE" to accept
    * - Selects "accept" in the CLI UI
    * - Saves the file via `ctrl/command+s`
+   * - Accepts or rejects each hunk, keeping at least one
    *
    * A diff is rejected if the user performs one of the following actions:
    * - Clicks the "x" icon in the IDE
    * - Runs "Gemini CLI: Close Diff in IDE"
    * - Selects "no" in the CLI UI
    * - Closes the file
+   * - Rejects every hunk
    */
   async openDiff(
     filePath: string,
@@ -208,7 +231,7 @@ export class IdeClient {
     });
   }
 
-  async closeDiff(filePath: string): Promise<string | undefined> {
+  async closeDiff(filePath: string): Promise<DiffReview | undefined> {
     try {
       const result = await this.client?.callTool({
         name: `closeDiff`,
@@ -218,8 +241,7 @@ export class IdeClient {
       });
 
       if (result) {
-        const parsed = CloseDiffResponseSchema.parse(result);
-        return parsed.content;
+        return CloseDiffResponseSchema.parse(result);
       }
     } catch (err) {
       logger.debug(`callTool for ${filePath} failed:`, err);
@@ -230,11 +252,11 @@ export class IdeClient {
   // Closes the diff. Instead of waiting for a notification,
   // manually resolves the diff resolver as the desired outcome.
   async resolveDiffFromCli(filePath: string, outcome: 'accepted' | 'rejected') {
-    const content = await this.closeDiff(filePath);
+    const review = await this.closeDiff(filePath);
     const resolver = this.diffResponses.get(filePath);
     if (resolver) {
       if (outcome === 'accepted') {
-        resolver({ status: 'accepted', content });
+        resolver({ status: 'accepted', ...review });
       } else {
         resolver({ status: 'rejected', content: undefined });
       }
@@ -242,6 +264,136 @@ export class IdeClient {
     }
   }
 
+  /**
+   * Asks the user the question of an MCP server in the IDE. Resolves once
+   * the IDE sends the answer, or with `cancel` if `cancelElicitation` is
+   * called first.
+   */
+  async elicit(
+    id: string,
+    request: McpElicitationRequest,
+  ): Promise<ElicitResult> {
+    return new Promise<ElicitResult>((resolve, reject) => {
+      this.elicitationResponses.set(id, resolve);
+      this.client
+        ?.callTool({
+          name: `elicitInput`,
+          arguments: { id, ...request },
+        })
+        .then((result) => {
+          if (result.isError) {
+            throw new Error(`The IDE cannot ask elicitation ${id}.`);
+          }
+        })
+        .catch((err) => {
+          logger.debug(`callTool for elicitation ${id} failed:`, err);
+          this.elicitationResponses.delete(id);
+          reject(err);
+        });
+    });
+  }
+
+  /** Hides the question of an elicitation answered elsewhere. */
+  async cancelElicitation(id: string): Promise<void> {
+    const resolver = this.elicitationResponses.get(id);
+    if (!resolver) {
+      return;
+    }
+    this.elicitationResponses.delete(id);
+    resolver({ action: 'cancel' });
+    try {
+      await this.client?.callTool({
+        name: `cancelElicitation`,
+        arguments: { id },
+      });
+    } catch (err) {
+      logger.debug(`callTool for elicitation ${id} failed:`, err);
+    }
+  }
+
+  /**
+   * Diagnostics the IDE's language servers report for a file, or for all
+   * files of the workspace that have any.
+   */
+  async getDiagnostics(
+    filePath?: string,
+  ): Promise<Array<{ filePath: string; diagnostics: LspDiagnostic[] }>> {
+    const { files } = await this.callLanguageTool(
+      'getDiagnostics',
+      { filePath },
+      IdeDiagnosticsResponseSchema,
+    );
+    return files as Array<{ filePath: string; diagnostics: LspDiagnostic[] }>;
+  }
+
+  async getDocumentSymbols(
+    filePath: string,
+  ): Promise<LspDocumentSymbol[] | LspSymbolInformation[]> {
+    const { symbols } = await this.callLanguageTool(
+      'getDocumentSymbols',
+      { filePath },
+      IdeDocumentSymbolsResponseSchema,
+    );
+    return symbols as LspDocumentSymbol[] | LspSymbolInformation[];
+  }
+
+  async getDefinition(
+    filePath: string,
+    position: LspPosition,
+  ): Promise<LspLocation[]> {
+    const { locations } = await this.callLanguageTool(
+      'getDefinition',
+      { filePath, ...position },
+      IdeLocationsResponseSchema,
+    );
+    return locations as LspLocation[];
+  }
+
+  async getReferences(
+    filePath: string,
+    position: LspPosition,
+  ): Promise<LspLocation[]> {
+    const { locations } = await this.callLanguageTool(
+      'getReferences',
+      { filePath, ...position },
+      IdeLocationsResponseSchema,
+    );
+    return locations as LspLocation[];
+  }
+
+  /** The hover contents at a position, as Markdown */
+  async getHover(filePath: string, position: LspPosition): Promise<string[]> {
+    const { contents } = await this.callLanguageTool(
+      'getHover',
+      { filePath, ...position },
+      IdeHoverResponseSchema,
+    );
+    return contents;
+  }
+
+  /**
+   * Calls a language feature tool of the IDE and parses its JSON response.
+   * @throws Error if the IDE is not connected or the tool fails
+   */
+  private async callLanguageTool<T>(
+    name: string,
+    args: Record<string, unknown>,
+    schema: z.ZodType<T>,
+  ): Promise<T> {
+    if (!this.client || this.state.status !== IDEConnectionStatus.Connected) {
+      throw new Error(
+        'The IDE is not connected. Run /ide enable to connect to it.',
+      );
+    }
+    const result = await this.client.callTool({ name, arguments: args });
+    const content = result.content as Array<{ type: string; text?: string }>;
+    const text = content?.[0]?.text ?? '';
+    if (result.isError) {
+      throw new Error(text || `The IDE failed to run ${name}.`);
+    }
+    return schema.parse(JSON.parse(text));
+  }
+
   async disconnect() {
     if (this.state.status === IDEConnectionStatus.Disconnected) {
       return;
@@ -250,6 +402,9 @@ export class IdeClient {
       await this.closeDiff(filePath);
     }
     this.diffResponses.clear();
+    for (const id of [...this.elicitationResponses.keys()]) {
+      await this.cancelElicitation(id);
+    }
     this.setState(
       IDEConnectionStatus.Disconnected,
       'IDE integration disabled. To enable it again, run /ide enable.',
@@ -448,11 +603,19 @@ export class IdeClient {
     // Type assertion to avoid excessive type instantiation depth
     (this.client.setNotificationHandler as any)(
       IdeDiffAcceptedNotificationSchema,
-      (notification: { params: { filePath: string; content: string } }) => {
-        const { filePath, content } = notification.params;
+      (notification: {
+        params: {
+          filePath: string;
+          content: string;
+          rejectedHunks?: DiffHunk[];
+          userEdited?: boolean;
+        };
+      }) => {
+        const { filePath, content, rejectedHunks, userEdited } =
+          notification.params;
         const resolver = this.diffResponses.get(filePath);
         if (resolver) {
-          resolver({ status: 'accepted', content });
+          resolver({ status: 'accepted', content, rejectedHunks, userEdited });
           this.diffResponses.delete(filePath);
         } else {
           logger.debug(`No resolver found for ${filePath}`);
@@ -474,6 +637,21 @@ export class IdeClient {
         }
       },
     );
+
+    // Type assertion to avoid excessive type instantiation depth
+    (this.client.setNotificationHandler as any)(
+      IdeElicitationAnsweredNotificationSchema,
+      (notification: { params: ElicitResult & { id: string } }) => {
+        const { id, ...result } = notification.params;
+        const resolver = this.elicitationResponses.get(id);
+        if (resolver) {
+          resolver(result);
+          this.elicitationResponses.delete(id);
+        } else {
+          logger.debug(`No resolver found for elicitation ${id}`);
+        }
+      },
+    );
   }
 
   private async establishHttpConnection(port: string): Promise<boolean> {
@@ -5,6 +5,7 @@
  */
 
 import { z } from 'zod';
+import type { DiffHunk } from './diff-hunks.js';
 
 /**
  * Zod schema for validating a file context from the IDE.
@@ -41,12 +42,34 @@ export const IdeContextNotificationSchema = z.object({
   params: IdeContextSchema,
 });
 
+export const DiffHunkSchema = z
+  .object({
+    oldStart: z.number(),
+    oldLines: z.array(z.string()),
+    newStart: z.number(),
+    newLines: z.array(z.string()),
+  })
+  // Without strictNullChecks zod infers every key as optional
+  .transform(
+    (hunk): DiffHunk => ({
+      oldStart: hunk.oldStart,
+      oldLines: hunk.oldLines,
+      newStart: hunk.newStart,
+      newLines: hunk.newLines,
+    }),
+  );
+
 export const IdeDiffAcceptedNotificationSchema = z.object({
   jsonrpc: z.literal('2.0'),
   method: z.literal('ide/diffAccepted'),
   params: z.object({
     filePath: z.string(),
     content: z.string(),
+    // Hunks of the proposed content, against the original, that the user
+    // rejected one by one
+    rejectedHunks: z.array(DiffHunkSchema).optional(),
+    // Whether the user also edited the proposed content by hand
+    userEdited: z.boolean().optional(),
   }),
 });
 
@@ -59,6 +82,24 @@ export const IdeDiffClosedNotificationSchema = z.object({
   }),
 });
 
+/**
+ * Zod schema for the 'ide/elicitationAnswered' notification, sent when the
+ * user answers, declines or dismisses the question of an MCP server.
+ */
+export const IdeElicitationAnsweredNotificationSchema = z.object({
+  jsonrpc: z.literal('2.0'),
+  method: z.literal('ide/elicitationAnswered'),
+  params: z.object({
+    id: z.string(),
+    action: z.enum(['accept', 'decline', 'cancel']),
+    content: z
+      .record(
+        z.union([z.string(), z.number(), z.boolean(), z.array(z.string())]),
+      )
+      .optional(),
+  }),
+});
+
 export const CloseDiffResponseSchema = z
   .object({
     content: z
@@ -70,10 +111,14 @@ export const CloseDiffResponseSchema = z
       )
       .min(1),
   })
-  .transform((val, ctx) => {
+  .transform((val, ctx): DiffReview => {
     try {
       const parsed = JSON.parse(val.content[0].text);
-      const innerSchema = z.object({ content: z.string().optional() });
+      const innerSchema = z.object({
+        content: z.string().optional(),
+        rejectedHunks: z.array(DiffHunkSchema).optional(),
+        userEdited: z.boolean().optional(),
+      });
       const validationResult = innerSchema.safeParse(parsed);
       if (!validationResult.success) {
         validationResult.error.issues.forEach((issue) => ctx.addIssue(issue));
@@ -89,16 +134,86 @@ export const CloseDiffResponseSchema = z
     }
   });
 
+/** The content of a diff view, and how the user reviewed it */
+export interface DiffReview {
+  content?: string;
+  rejectedHunks?: DiffHunk[];
+  userEdited?: boolean;
+}
+
 export type DiffUpdateResult =
-  | {
+  | ({
       status: 'accepted';
-      content?: string;
-    }
+    } & DiffReview)
   | {
       status: 'rejected';
       content: undefined;
     };
 
+// Responses of the IDE's language feature tools, in the shapes of the
+// Language Server Protocol: 0-based positions and 1-based kinds.
+
+const IdeRangeSchema = z.object({
+  start: z.object({ line: z.number(), character: z.number() }),
+  end: z.object({ line: z.number(), character: z.number() }),
+});
+
+const IdeLocationSchema = z.object({
+  uri: z.string(),
+  range: IdeRangeSchema,
+});
+
+export const IdeDiagnosticsResponseSchema = z.object({
+  files: z.array(
+    z.object({
+      filePath: z.string(),
+      diagnostics: z.array(
+        z.object({
+          range: IdeRangeSchema,
+          severity: z.number().optional(),
+          code: z.union([z.string(), z.number()]).optional(),
+          source: z.string().optional(),
+          message: z.string(),
+        }),
+      ),
+    }),
+  ),
+});
+
+// Annotated, as a recursive schema can't infer its own type
+const IdeDocumentSymbolSchema: z.ZodTypeAny = z.lazy(() =>
+  z.object({
+    name: z.string(),
+    detail: z.string().optional(),
+    kind: z.number(),
+    range: IdeRangeSchema,
+    selectionRange: IdeRangeSchema,
+    children: z.array(IdeDocumentSymbolSchema).optional(),
+  }),
+);
+
+export const IdeDocumentSymbolsResponseSchema = z.object({
+  symbols: z.union([
+    z.array(IdeDocumentSymbolSchema),
+    z.array(
+      z.object({
+        name: z.string(),
+        kind: z.number(),
+        location: IdeLocationSchema,
+        containerName: z.string().optional(),
+      }),
+    ),
+  ]),
+});
+
+export const IdeLocationsResponseSchema = z.object({
+  locations: z.array(IdeLocationSchema),
+});
+
+export const IdeHoverResponseSchema = z.object({
+  contents: z.array(z.string()),
+});
+
 type IdeContextSubscriber = (ideContext: IdeContext | undefined) => void;
 
 /**
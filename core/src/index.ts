@@ -8,10 +8,19 @@
 export * from './config/config.js';
 export * from './config/models.js';
 
+// Export non-interactive output types
+export * from './output/types.js';
+
+// Export permission policy
+export * from './policy/permissionPolicy.js';
+export * from './policy/permissionRules.js';
+
 // Export Core Logic
 export * from './core/client.js';
 export * from './core/contentGenerator.js';
 export * from './core/loggingContentGenerator.js';
+export * from './core/fallbackContentGenerator.js';
+export * from './core/cachingContentGenerator.js';
 export * from './core/geminiChat.js';
 export * from './core/logger.js';
 export * from './core/prompts.js';
@@ -73,18 +82,28 @@ export * from './utils/projectSummary.js';
 export * from './services/fileDiscoveryService.js';
 export * from './services/gitService.js';
 export * from './services/chatRecordingService.js';
+export * from './services/sessionHistory.js';
+export * from './services/hookService.js';
 export * from './services/fileSystemService.js';
 
 // Export IDE specific logic
 export * from './ide/ide-client.js';
 export * from './ide/ideContext.js';
+export * from './ide/diff-hunks.js';
 export * from './ide/ide-installer.js';
 export { getIdeInfo, DetectedIde } from './ide/detect-ide.js';
 export { type IdeInfo } from './ide/detect-ide.js';
 export * from './ide/constants.js';
 
+// Export language server bridge
+export * from './lsp/types.js';
+export * from './lsp/lspService.js';
+export { LspUnsupportedError } from './lsp/languageServer.js';
+
 // Export Shell Execution Service
 export * from './services/shellExecutionService.js';
+export * from './services/backgroundJobService.js';
+export * from './services/codeIndexService.js';
 
 // Export base tool definitions
 export * from './tools/tools.js';
@@ -96,6 +115,7 @@ export * from './subagents/index.js';
 
 // Export prompt logic
 export * from './prompts/mcp-prompts.js';
+export * from './resources/resource-registry.js';
 
 // Export specific tool logic
 export * from './tools/read-file.js';
@@ -103,15 +123,33 @@ export * from './tools/ls.js';
 export * from './tools/grep.js';
 export * from './tools/ripGrep.js';
 export * from './tools/glob.js';
+export * from './tools/semantic-search.js';
+export * from './tools/lsp-diagnostics.js';
+export * from './tools/lsp-definition.js';
+export * from './tools/lsp-references.js';
+export * from './tools/lsp-rename.js';
+export * from './tools/lsp-document-symbols.js';
+export * from './tools/ide-common.js';
+export * from './tools/ide-diagnostics.js';
+export * from './tools/ide-definition.js';
+export * from './tools/ide-references.js';
+export * from './tools/ide-document-symbols.js';
+export * from './tools/ide-hover.js';
 export * from './tools/edit.js';
 export * from './tools/write-file.js';
+export * from './tools/apply-patch.js';
+export * from './tools/notebook-edit.js';
 export * from './tools/web-fetch.js';
 export * from './tools/memoryTool.js';
 export * from './tools/shell.js';
+export * from './tools/list-background-jobs.js';
+export * from './tools/read-background-output.js';
+export * from './tools/kill-background-job.js';
 export * from './tools/web-search.js';
 export * from './tools/read-many-files.js';
 export * from './tools/mcp-client.js';
 export * from './tools/mcp-tool.js';
+export * from './tools/read-mcp-resource.js';
 
 // MCP OAuth
 export { MCPOAuthProvider } from './mcp/oauth-provider.js';
@@ -127,6 +165,10 @@ export type {
 } from './mcp/oauth-utils.js';
 export { OAuthUtils } from './mcp/oauth-utils.js';
 
+// MCP sampling and elicitation
+export * from './mcp/sampling.js';
+export * from './mcp/elicitation.js';
+
 // Export telemetry functions
 export * from './telemetry/index.js';
 export { sessionId } from './utils/session.js';
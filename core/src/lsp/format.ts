@@ -0,0 +1,178 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type {
+  LspDiagnostic,
+  LspDocumentSymbol,
+  LspLocation,
+  LspSymbolInformation,
+} from './types.js';
+import { LspDiagnosticSeverity } from './types.js';
+
+/** Names of the protocol's SymbolKind values, from 1 */
+const SYMBOL_KINDS = [
+  'file',
+  'module',
+  'namespace',
+  'package',
+  'class',
+  'method',
+  'property',
+  'field',
+  'constructor',
+  'enum',
+  'interface',
+  'function',
+  'variable',
+  'constant',
+  'string',
+  'number',
+  'boolean',
+  'array',
+  'object',
+  'key',
+  'null',
+  'enum member',
+  'struct',
+  'event',
+  'operator',
+  'type parameter',
+];
+
+const SEVERITIES: Record<LspDiagnosticSeverity, string> = {
+  [LspDiagnosticSeverity.Error]: 'error',
+  [LspDiagnosticSeverity.Warning]: 'warning',
+  [LspDiagnosticSeverity.Information]: 'info',
+  [LspDiagnosticSeverity.Hint]: 'hint',
+};
+
+/** Path of a `file:` URI, or the URI itself for other schemes */
+export function uriToPath(uri: string): string {
+  return uri.startsWith('file:') ? fileURLToPath(uri) : uri;
+}
+
+/** `path` relative to `rootDir` when it is inside it */
+export function displayPath(filePath: string, rootDir: string): string {
+  const relative = path.relative(rootDir, filePath);
+  return relative.startsWith('..') || path.isAbsolute(relative)
+    ? filePath
+    : relative;
+}
+
+/**
+ * One line per diagnostic, most severe first, e.g.
+ * `12:5 error TS2322: Type 'string' is not assignable to type 'number'.`
+ * Positions are 1-based.
+ */
+export function formatDiagnostics(
+  diagnostics: LspDiagnostic[],
+  maxCount: number,
+): string {
+  const sorted = [...diagnostics].sort(
+    (a, b) =>
+      (a.severity ?? LspDiagnosticSeverity.Error) -
+        (b.severity ?? LspDiagnosticSeverity.Error) ||
+      a.range.start.line - b.range.start.line,
+  );
+  const lines = sorted.slice(0, maxCount).map((diagnostic) => {
+    const { line, character } = diagnostic.range.start;
+    const severity =
+      SEVERITIES[diagnostic.severity ?? LspDiagnosticSeverity.Error];
+    const source = [diagnostic.source, diagnostic.code]
+      .filter((part) => part !== undefined && part !== '')
+      .join(' ');
+    const message = diagnostic.message.replace(/\n/g, '\n    ');
+    return `${line + 1}:${character + 1} ${severity}${source ? ` ${source}` : ''}: ${message}`;
+  });
+  if (sorted.length > maxCount) {
+    lines.push(`... and ${sorted.length - maxCount} more`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * One line per location with the source line it points at, e.g.
+ * `src/app.ts:12:5: const app = createApp();`. Positions are 1-based.
+ */
+export async function formatLocations(
+  locations: LspLocation[],
+  rootDir: string,
+  maxCount: number,
+): Promise<string> {
+  const fileLines = new Map<string, string[] | undefined>();
+  const lines: string[] = [];
+  for (const location of locations.slice(0, maxCount)) {
+    const filePath = uriToPath(location.uri);
+    if (!fileLines.has(filePath)) {
+      try {
+        const content = await fs.readFile(filePath, 'utf8');
+        fileLines.set(filePath, content.split(/\r?\n/));
+      } catch {
+        fileLines.set(filePath, undefined);
+      }
+    }
+    const { line, character } = location.range.start;
+    const text = fileLines.get(filePath)?.[line]?.trim();
+    lines.push(
+      `${displayPath(filePath, rootDir)}:${line + 1}:${character + 1}${text ? `: ${text}` : ''}`,
+    );
+  }
+  if (locations.length > maxCount) {
+    lines.push(`... and ${locations.length - maxCount} more`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * An indented outline of a file's symbols, e.g.
+ * `class Server (lines 10-80)` with its members below it.
+ */
+export function formatDocumentSymbols(
+  symbols: LspDocumentSymbol[] | LspSymbolInformation[],
+): string {
+  const lines: string[] = [];
+  const describe = (name: string, kind: number, start: number, end: number) =>
+    `${SYMBOL_KINDS[kind - 1] ?? 'symbol'} ${name} (${start === end ? `line ${start + 1}` : `lines ${start + 1}-${end + 1}`})`;
+  const visit = (symbol: LspDocumentSymbol, depth: number) => {
+    const { start, end } = symbol.range;
+    lines.push(
+      `${'  '.repeat(depth)}${describe(symbol.name, symbol.kind, start.line, end.line)}`,
+    );
+    for (const child of sortByLine(symbol.children ?? [])) {
+      visit(child, depth + 1);
+    }
+  };
+  const topLevel: Array<LspDocumentSymbol | LspSymbolInformation> = symbols;
+  for (const symbol of sortByLine(topLevel)) {
+    if ('location' in symbol) {
+      // Flat symbol information, nested by container name only
+      const { start, end } = symbol.location.range;
+      const container = symbol.containerName
+        ? ` in ${symbol.containerName}`
+        : '';
+      lines.push(
+        `${describe(symbol.name, symbol.kind, start.line, end.line)}${container}`,
+      );
+    } else {
+      visit(symbol, 0);
+    }
+  }
+  return lines.join('\n');
+}
+
+/** Servers list symbols in their own order, e.g. by name */
+function sortByLine<T extends LspDocumentSymbol | LspSymbolInformation>(
+  symbols: T[],
+): T[] {
+  const startLine = (symbol: T) =>
+    'location' in symbol
+      ? symbol.location.range.start.line
+      : symbol.range.start.line;
+  return [...symbols].sort((a, b) => startLine(a) - startLine(b));
+}
@@ -0,0 +1,489 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { spawn, type ChildProcess } from 'node:child_process';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { LspConnection } from './lspConnection.js';
+import type {
+  LspDiagnostic,
+  LspDocumentSymbol,
+  LspLocation,
+  LspLocationLink,
+  LspPosition,
+  LspServerConfig,
+  LspSymbolInformation,
+  LspWorkspaceEdit,
+} from './types.js';
+
+/** Servers index the project on start, which can take a while */
+const INITIALIZE_TIMEOUT_MS = 60_000;
+/** Time a server gets to publish diagnostics after a file changed */
+const DIAGNOSTICS_TIMEOUT_MS = 10_000;
+/** Servers often publish in several passes; wait this long for more */
+const DIAGNOSTICS_SETTLE_MS = 500;
+/** Lines of the server's stderr kept for error messages */
+const MAX_STDERR_LINES = 10;
+
+const LANGUAGE_IDS: Record<string, string> = {
+  '.ts': 'typescript',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.tsx': 'typescriptreact',
+  '.js': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.jsx': 'javascriptreact',
+  '.py': 'python',
+  '.pyi': 'python',
+  '.go': 'go',
+  '.rs': 'rust',
+};
+
+const CLIENT_CAPABILITIES = {
+  general: { positionEncodings: ['utf-16'] },
+  workspace: {
+    configuration: true,
+    workspaceFolders: true,
+    didChangeWatchedFiles: { dynamicRegistration: false },
+  },
+  textDocument: {
+    synchronization: { didSave: true, dynamicRegistration: false },
+    publishDiagnostics: { relatedInformation: false, versionSupport: true },
+    diagnostic: { dynamicRegistration: false },
+    definition: { linkSupport: true },
+    references: {},
+    rename: { prepareSupport: false },
+    documentSymbol: { hierarchicalDocumentSymbolSupport: true },
+  },
+  window: { workDoneProgress: true },
+};
+
+interface ServerCapabilities {
+  textDocumentSync?: number | { save?: boolean | object };
+  diagnosticProvider?: object;
+  definitionProvider?: boolean | object;
+  referencesProvider?: boolean | object;
+  renameProvider?: boolean | object;
+  documentSymbolProvider?: boolean | object;
+}
+
+/** Feature a server may not support, named as in the error message */
+type LspFeature = 'definition' | 'references' | 'rename' | 'documentSymbol';
+
+/** The server cannot answer a request, e.g. it lacks the feature */
+export class LspUnsupportedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LspUnsupportedError';
+  }
+}
+
+export function toFileUri(filePath: string): string {
+  return pathToFileURL(filePath).toString();
+}
+
+/**
+ * One running language server for one workspace. Files are opened on the
+ * server as they are queried and kept in sync with their content on disk.
+ */
+export class LanguageServer {
+  private child: ChildProcess | undefined;
+  private connection: LspConnection | undefined;
+  private capabilities: ServerCapabilities = {};
+  private exitError: Error | undefined;
+  private readonly stderrLines: string[] = [];
+  /** Open documents by URI */
+  private readonly documents = new Map<
+    string,
+    { version: number; text: string }
+  >();
+  /** Latest published diagnostics by URI */
+  private readonly diagnostics = new Map<string, LspDiagnostic[]>();
+  /** Number of diagnostics notifications received per URI */
+  private readonly publishCounts = new Map<string, number>();
+  private readonly publishListeners = new Set<(uri: string) => void>();
+
+  constructor(
+    readonly name: string,
+    private readonly serverConfig: LspServerConfig,
+    readonly rootDir: string,
+  ) {}
+
+  /** Whether the server is running and can take requests */
+  get isRunning(): boolean {
+    return this.connection !== undefined && this.exitError === undefined;
+  }
+
+  /**
+   * Launches the server and initializes it for `rootDir`.
+   * @throws Error if the command is not installed or initialization fails
+   */
+  async start(signal?: AbortSignal): Promise<void> {
+    const { command, args = [], env } = this.serverConfig;
+    const child = spawn(command, args, {
+      cwd: this.rootDir,
+      env: { ...process.env, ...env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    this.child = child;
+    await new Promise<void>((resolve, reject) => {
+      child.once('spawn', resolve);
+      child.once('error', (error: NodeJS.ErrnoException) =>
+        reject(
+          error.code === 'ENOENT'
+            ? new Error(
+                `The ${this.name} language server (${command}) is not installed. Install it or set lsp.servers.${this.name} in settings.`,
+              )
+            : error,
+        ),
+      );
+    });
+
+    // Writes after the server exited fail; the exit is reported instead
+    child.stdin!.on('error', () => {});
+    child.stderr!.setEncoding('utf8');
+    child.stderr!.on('data', (data: string) => {
+      this.stderrLines.push(...data.split('\n').filter(Boolean));
+      this.stderrLines.splice(0, this.stderrLines.length - MAX_STDERR_LINES);
+    });
+
+    const connection = new LspConnection(child.stdin!, child.stdout!);
+    this.connection = connection;
+    child.on('exit', (code, exitSignal) => {
+      const stderr = this.stderrLines.length
+        ? `:\n${this.stderrLines.join('\n')}`
+        : '';
+      this.exitError = new Error(
+        `The ${this.name} language server exited (${exitSignal ?? `code ${code}`})${stderr}`,
+      );
+      connection.close(this.exitError);
+    });
+
+    connection.onNotification('textDocument/publishDiagnostics', (params) => {
+      const { uri, diagnostics } = params as {
+        uri: string;
+        diagnostics: LspDiagnostic[];
+      };
+      this.diagnostics.set(uri, diagnostics);
+      this.publishCounts.set(uri, (this.publishCounts.get(uri) ?? 0) + 1);
+      for (const listener of this.publishListeners) {
+        listener(uri);
+      }
+    });
+    // Servers ask for settings per section; defaults are fine for queries
+    connection.onRequest('workspace/configuration', (params) =>
+      ((params as { items?: unknown[] }).items ?? []).map(() => null),
+    );
+    connection.onRequest('workspace/workspaceFolders', () => [
+      this.workspaceFolder(),
+    ]);
+    connection.onRequest('client/registerCapability', () => null);
+    connection.onRequest('client/unregisterCapability', () => null);
+    connection.onRequest('window/workDoneProgress/create', () => null);
+    connection.onRequest('window/showMessageRequest', () => null);
+    // Edits are applied by the tools, never by the server on its own
+    connection.onRequest('workspace/applyEdit', () => ({ applied: false }));
+
+    const result = await connection.request<{
+      capabilities: ServerCapabilities;
+    }>(
+      'initialize',
+      {
+        processId: process.pid,
+        clientInfo: { name: 'recoder' },
+        rootPath: this.rootDir,
+        rootUri: toFileUri(this.rootDir),
+        workspaceFolders: [this.workspaceFolder()],
+        capabilities: CLIENT_CAPABILITIES,
+        initializationOptions: this.serverConfig.initializationOptions,
+      },
+      signal,
+      INITIALIZE_TIMEOUT_MS,
+    );
+    this.capabilities = result.capabilities ?? {};
+    connection.notify('initialized', {});
+  }
+
+  /** Asks the server to exit, and kills it if it does not */
+  async stop(): Promise<void> {
+    const child = this.child;
+    if (!child || child.exitCode !== null || child.signalCode !== null) {
+      return;
+    }
+    if (this.isRunning) {
+      try {
+        await this.connection!.request('shutdown', null, undefined, 2000);
+        this.connection!.notify('exit', null);
+      } catch {
+        // Killed below
+      }
+    }
+    const exited = new Promise((resolve) => child.once('exit', resolve));
+    const timer = setTimeout(() => child.kill('SIGKILL'), 2000);
+    await exited;
+    clearTimeout(timer);
+  }
+
+  /** Kills the server at once, e.g. when the process exits */
+  kill(): void {
+    this.child?.kill('SIGKILL');
+  }
+
+  /**
+   * Diagnostics for a file after bringing the server up to date with it.
+   * @returns the diagnostics, or undefined if the server published none in
+   *   time, e.g. because it is still indexing
+   */
+  async getDiagnostics(
+    filePath: string,
+    signal?: AbortSignal,
+  ): Promise<LspDiagnostic[] | undefined> {
+    const uri = toFileUri(filePath);
+    const publishedBefore = this.publishCounts.get(uri) ?? 0;
+    const changed = await this.syncDocument(filePath);
+
+    if (this.capabilities.diagnosticProvider) {
+      const report = await this.getConnection().request<{
+        kind: 'full' | 'unchanged';
+        items?: LspDiagnostic[];
+      } | null>('textDocument/diagnostic', { textDocument: { uri } }, signal);
+      if (report?.kind === 'full') {
+        return report.items ?? [];
+      }
+    }
+    if (!changed && this.diagnostics.has(uri)) {
+      return this.diagnostics.get(uri);
+    }
+    return this.waitForDiagnostics(uri, publishedBefore, signal);
+  }
+
+  async getDefinition(
+    filePath: string,
+    position: LspPosition,
+    signal?: AbortSignal,
+  ): Promise<LspLocation[]> {
+    const result = await this.requestForPosition<
+      LspLocation | LspLocation[] | LspLocationLink[] | null
+    >('definition', 'textDocument/definition', filePath, position, {}, signal);
+    return toLocations(result);
+  }
+
+  async getReferences(
+    filePath: string,
+    position: LspPosition,
+    signal?: AbortSignal,
+  ): Promise<LspLocation[]> {
+    const result = await this.requestForPosition<LspLocation[] | null>(
+      'references',
+      'textDocument/references',
+      filePath,
+      position,
+      { context: { includeDeclaration: true } },
+      signal,
+    );
+    return result ?? [];
+  }
+
+  /** @returns the edits, or null if the symbol cannot be renamed */
+  async getRenameEdits(
+    filePath: string,
+    position: LspPosition,
+    newName: string,
+    signal?: AbortSignal,
+  ): Promise<LspWorkspaceEdit | null> {
+    return this.requestForPosition<LspWorkspaceEdit | null>(
+      'rename',
+      'textDocument/rename',
+      filePath,
+      position,
+      { newName },
+      signal,
+    );
+  }
+
+  async getDocumentSymbols(
+    filePath: string,
+    signal?: AbortSignal,
+  ): Promise<LspDocumentSymbol[] | LspSymbolInformation[]> {
+    this.assertSupports('documentSymbol');
+    await this.syncDocument(filePath);
+    const result = await this.getConnection().request<
+      LspDocumentSymbol[] | LspSymbolInformation[] | null
+    >(
+      'textDocument/documentSymbol',
+      { textDocument: { uri: toFileUri(filePath) } },
+      signal,
+    );
+    return result ?? [];
+  }
+
+  /**
+   * Tells the server that files changed on disk, e.g. after a rename was
+   * applied. Open files are synced; the server watches the others itself,
+   * but is told about them in case it does not.
+   */
+  async notifyFilesChanged(filePaths: string[]): Promise<void> {
+    const closed: string[] = [];
+    for (const filePath of filePaths) {
+      if (this.documents.has(toFileUri(filePath))) {
+        await this.syncDocument(filePath);
+      } else {
+        closed.push(filePath);
+      }
+    }
+    if (closed.length > 0) {
+      this.getConnection().notify('workspace/didChangeWatchedFiles', {
+        changes: closed.map((filePath) => ({
+          uri: toFileUri(filePath),
+          type: 2, // Changed
+        })),
+      });
+    }
+  }
+
+  private async requestForPosition<T>(
+    feature: LspFeature,
+    method: string,
+    filePath: string,
+    position: LspPosition,
+    extraParams: object,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    this.assertSupports(feature);
+    await this.syncDocument(filePath);
+    return this.getConnection().request<T>(
+      method,
+      {
+        textDocument: { uri: toFileUri(filePath) },
+        position,
+        ...extraParams,
+      },
+      signal,
+    );
+  }
+
+  /**
+   * Opens the file on the server, or sends its new content if it changed
+   * since it was last sent.
+   * @returns whether anything was sent
+   */
+  private async syncDocument(filePath: string): Promise<boolean> {
+    const connection = this.getConnection();
+    const uri = toFileUri(filePath);
+    const text = await fs.readFile(filePath, 'utf8');
+    const document = this.documents.get(uri);
+    if (!document) {
+      this.documents.set(uri, { version: 1, text });
+      connection.notify('textDocument/didOpen', {
+        textDocument: {
+          uri,
+          languageId: languageIdFor(filePath),
+          version: 1,
+          text,
+        },
+      });
+      return true;
+    }
+    if (document.text === text) {
+      return false;
+    }
+    document.version++;
+    document.text = text;
+    // A change without a range replaces the whole document, which every
+    // server accepts whatever sync kind it prefers
+    connection.notify('textDocument/didChange', {
+      textDocument: { uri, version: document.version },
+      contentChanges: [{ text }],
+    });
+    const sync = this.capabilities.textDocumentSync;
+    if (typeof sync === 'object' && sync.save) {
+      // Some servers only run their full checks on save
+      connection.notify('textDocument/didSave', {
+        textDocument: { uri },
+        text,
+      });
+    }
+    return true;
+  }
+
+  private waitForDiagnostics(
+    uri: string,
+    publishedBefore: number,
+    signal?: AbortSignal,
+  ): Promise<LspDiagnostic[] | undefined> {
+    return new Promise((resolve) => {
+      let settleTimer: NodeJS.Timeout | undefined;
+      const finish = () => {
+        clearTimeout(timeout);
+        clearTimeout(settleTimer);
+        this.publishListeners.delete(listener);
+        signal?.removeEventListener('abort', finish);
+        resolve(
+          (this.publishCounts.get(uri) ?? 0) > publishedBefore
+            ? this.diagnostics.get(uri)
+            : undefined,
+        );
+      };
+      const listener = (publishedUri: string) => {
+        if (publishedUri === uri) {
+          clearTimeout(settleTimer);
+          settleTimer = setTimeout(finish, DIAGNOSTICS_SETTLE_MS);
+        }
+      };
+      const timeout = setTimeout(finish, DIAGNOSTICS_TIMEOUT_MS);
+      this.publishListeners.add(listener);
+      signal?.addEventListener('abort', finish, { once: true });
+      if ((this.publishCounts.get(uri) ?? 0) > publishedBefore) {
+        listener(uri);
+      }
+    });
+  }
+
+  private assertSupports(feature: LspFeature): void {
+    if (!this.capabilities[`${feature}Provider`]) {
+      throw new LspUnsupportedError(
+        `The ${this.name} language server does not support ${feature} requests.`,
+      );
+    }
+  }
+
+  private getConnection(): LspConnection {
+    if (this.exitError) {
+      throw this.exitError;
+    }
+    if (!this.connection) {
+      throw new Error(`The ${this.name} language server was not started.`);
+    }
+    return this.connection;
+  }
+
+  private workspaceFolder() {
+    return {
+      uri: toFileUri(this.rootDir),
+      name: path.basename(this.rootDir),
+    };
+  }
+}
+
+function languageIdFor(filePath: string): string {
+  const extension = path.extname(filePath).toLowerCase();
+  return LANGUAGE_IDS[extension] ?? extension.slice(1);
+}
+
+function toLocations(
+  result: LspLocation | LspLocation[] | LspLocationLink[] | null,
+): LspLocation[] {
+  if (!result) {
+    return [];
+  }
+  return (Array.isArray(result) ? result : [result]).map((location) =>
+    'targetUri' in location
+      ? { uri: location.targetUri, range: location.targetSelectionRange }
+      : location,
+  );
+}
@@ -0,0 +1,213 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Readable, Writable } from 'node:stream';
+
+const HEADER_SEPARATOR = '\r\n\r\n';
+/** Requests a server has not answered by then are given up on */
+const DEFAULT_REQUEST_TIMEOUT_MS = 30_000;
+
+/** Error returned by the server for a request */
+export class LspResponseError extends Error {
+  constructor(
+    message: string,
+    readonly code: number,
+  ) {
+    super(message);
+    this.name = 'LspResponseError';
+  }
+}
+
+interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string | null;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+type NotificationHandler = (params: unknown) => void;
+type RequestHandler = (params: unknown) => unknown;
+
+/**
+ * JSON-RPC over a language server's stdio, framed with `Content-Length`
+ * headers as the Language Server Protocol specifies.
+ */
+export class LspConnection {
+  private nextId = 1;
+  private buffer = Buffer.alloc(0);
+  private closedError: Error | undefined;
+  private readonly pending = new Map<number, PendingRequest>();
+  private readonly notificationHandlers = new Map<
+    string,
+    NotificationHandler
+  >();
+  private readonly requestHandlers = new Map<string, RequestHandler>();
+
+  constructor(
+    private readonly input: Writable,
+    output: Readable,
+  ) {
+    output.on('data', (chunk: Buffer) => this.onData(chunk));
+  }
+
+  /**
+   * Sends a request and resolves with its result.
+   * @throws LspResponseError if the server answers with an error, or an
+   *   Error if the signal aborts, the request times out or the connection
+   *   closes first
+   */
+  request<T>(
+    method: string,
+    params: unknown,
+    signal?: AbortSignal,
+    timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS,
+  ): Promise<T> {
+    if (this.closedError) {
+      return Promise.reject(this.closedError);
+    }
+    if (signal?.aborted) {
+      return Promise.reject(new Error(`${method} was cancelled`));
+    }
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      const giveUp = (reason: string) => {
+        this.pending.delete(id);
+        this.notify('$/cancelRequest', { id });
+        cleanup();
+        reject(new Error(`${method} ${reason}`));
+      };
+      const onAbort = () => giveUp('was cancelled');
+      const timer = setTimeout(
+        () => giveUp(`timed out after ${timeoutMs / 1000}s`),
+        timeoutMs,
+      );
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pending.set(id, {
+        resolve: (result) => {
+          cleanup();
+          resolve(result as T);
+        },
+        reject: (error) => {
+          cleanup();
+          reject(error);
+        },
+      });
+      this.send({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  notify(method: string, params: unknown): void {
+    if (!this.closedError) {
+      this.send({ jsonrpc: '2.0', method, params });
+    }
+  }
+
+  onNotification(method: string, handler: NotificationHandler): void {
+    this.notificationHandlers.set(method, handler);
+  }
+
+  /** Answers requests the server sends with the handler's result */
+  onRequest(method: string, handler: RequestHandler): void {
+    this.requestHandlers.set(method, handler);
+  }
+
+  /** Fails pending and later requests with `error` */
+  close(error: Error): void {
+    if (this.closedError) {
+      return;
+    }
+    this.closedError = error;
+    for (const request of this.pending.values()) {
+      request.reject(error);
+    }
+    this.pending.clear();
+  }
+
+  private send(message: JsonRpcMessage): void {
+    const body = Buffer.from(JSON.stringify(message), 'utf8');
+    this.input.write(
+      `Content-Length: ${body.length}${HEADER_SEPARATOR}${body.toString('utf8')}`,
+    );
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    for (;;) {
+      const headerEnd = this.buffer.indexOf(HEADER_SEPARATOR);
+      if (headerEnd === -1) {
+        return;
+      }
+      const header = this.buffer.subarray(0, headerEnd).toString('ascii');
+      const match = /Content-Length:\s*(\d+)/i.exec(header);
+      const bodyStart = headerEnd + HEADER_SEPARATOR.length;
+      if (!match) {
+        // Not a message we can read; skip past it
+        this.buffer = this.buffer.subarray(bodyStart);
+        continue;
+      }
+      const bodyEnd = bodyStart + Number(match[1]);
+      if (this.buffer.length < bodyEnd) {
+        return;
+      }
+      const body = this.buffer.subarray(bodyStart, bodyEnd).toString('utf8');
+      this.buffer = this.buffer.subarray(bodyEnd);
+      try {
+        this.dispatch(JSON.parse(body) as JsonRpcMessage);
+      } catch {
+        // Ignore malformed messages rather than stopping the connection
+      }
+    }
+  }
+
+  private dispatch(message: JsonRpcMessage): void {
+    if (message.method === undefined) {
+      const request = this.pending.get(Number(message.id));
+      if (!request) {
+        return;
+      }
+      this.pending.delete(Number(message.id));
+      if (message.error) {
+        request.reject(
+          new LspResponseError(message.error.message, message.error.code),
+        );
+      } else {
+        request.resolve(message.result ?? null);
+      }
+      return;
+    }
+
+    if (message.id === undefined || message.id === null) {
+      this.notificationHandlers.get(message.method)?.(message.params);
+      return;
+    }
+
+    const handler = this.requestHandlers.get(message.method);
+    if (!handler) {
+      this.send({
+        jsonrpc: '2.0',
+        id: message.id,
+        error: { code: -32601, message: `Unhandled method ${message.method}` },
+      });
+      return;
+    }
+    this.send({
+      jsonrpc: '2.0',
+      id: message.id,
+      result: handler(message.params) ?? null,
+    });
+  }
+}
@@ -0,0 +1,365 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as path from 'node:path';
+import type { Config } from '../config/config.js';
+import { isWithinRoot } from '../utils/fileUtils.js';
+import { formatDiagnostics, uriToPath } from './format.js';
+import { LanguageServer } from './languageServer.js';
+import type {
+  LspDiagnostic,
+  LspDocumentSymbol,
+  LspLocation,
+  LspPosition,
+  LspServerConfig,
+  LspSymbolInformation,
+  LspTextEdit,
+  LspWorkspaceEdit,
+} from './types.js';
+import { LspDiagnosticSeverity } from './types.js';
+
+/** Servers used unless the `lsp.servers` setting overrides them */
+export const DEFAULT_LSP_SERVERS: Record<string, LspServerConfig> = {
+  typescript: {
+    command: 'typescript-language-server',
+    args: ['--stdio'],
+    extensions: ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'],
+  },
+  python: {
+    command: 'pyright-langserver',
+    args: ['--stdio'],
+    extensions: ['.py', '.pyi'],
+  },
+  go: {
+    command: 'gopls',
+    extensions: ['.go'],
+  },
+  rust: {
+    command: 'rust-analyzer',
+    extensions: ['.rs'],
+  },
+};
+
+/** Diagnostics reported after an edit; the model can ask for the rest */
+const MAX_DIAGNOSTICS_AFTER_EDIT = 10;
+
+/** No language server is configured for a file, or it cannot be started */
+export class LspUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LspUnavailableError';
+  }
+}
+
+/** Files and edits of an applied rename */
+export interface AppliedWorkspaceEdit {
+  files: string[];
+  editCount: number;
+}
+
+/**
+ * Launches language servers on demand, one per server and workspace
+ * directory, and routes queries about a file to the server for its
+ * extension. Servers keep running for the rest of the session.
+ */
+export class LspService {
+  private readonly servers = new Map<string, Promise<LanguageServer>>();
+  // The same servers, including those still starting, for the exit handler,
+  // which must kill them synchronously
+  private readonly launched = new Map<string, LanguageServer>();
+  private exitHandlerRegistered = false;
+
+  constructor(private readonly config: Config) {}
+
+  /** The built-in servers merged with the `lsp.servers` setting */
+  getServerConfigs(): Record<string, LspServerConfig> {
+    const configured = this.config.getLspSettings().servers ?? {};
+    const servers: Record<string, LspServerConfig> = {};
+    for (const name of new Set([
+      ...Object.keys(DEFAULT_LSP_SERVERS),
+      ...Object.keys(configured),
+    ])) {
+      const server = {
+        ...DEFAULT_LSP_SERVERS[name],
+        ...configured[name],
+      } as LspServerConfig;
+      if (!server.disabled && server.command && server.extensions?.length) {
+        servers[name] = server;
+      }
+    }
+    return servers;
+  }
+
+  /** Name of the server that handles `filePath`, if any */
+  findServerName(filePath: string): string | undefined {
+    const extension = path.extname(filePath).toLowerCase();
+    return Object.entries(this.getServerConfigs()).find(([, server]) =>
+      server.extensions.some(
+        (serverExtension) => serverExtension.toLowerCase() === extension,
+      ),
+    )?.[0];
+  }
+
+  /**
+   * Diagnostics for a file as it is on disk.
+   * @returns undefined if the server published none in time
+   */
+  async getDiagnostics(
+    filePath: string,
+    signal?: AbortSignal,
+  ): Promise<LspDiagnostic[] | undefined> {
+    const server = await this.getServer(filePath, signal);
+    return server.getDiagnostics(filePath, signal);
+  }
+
+  async getDefinition(
+    filePath: string,
+    position: LspPosition,
+    signal?: AbortSignal,
+  ): Promise<LspLocation[]> {
+    const server = await this.getServer(filePath, signal);
+    return server.getDefinition(filePath, position, signal);
+  }
+
+  async getReferences(
+    filePath: string,
+    position: LspPosition,
+    signal?: AbortSignal,
+  ): Promise<LspLocation[]> {
+    const server = await this.getServer(filePath, signal);
+    return server.getReferences(filePath, position, signal);
+  }
+
+  async getDocumentSymbols(
+    filePath: string,
+    signal?: AbortSignal,
+  ): Promise<LspDocumentSymbol[] | LspSymbolInformation[]> {
+    const server = await this.getServer(filePath, signal);
+    return server.getDocumentSymbols(filePath, signal);
+  }
+
+  /**
+   * Text edits that rename the symbol at `position`, grouped by file.
+   * @throws Error if the server cannot rename the symbol or the edit
+   *   creates, renames or deletes files
+   */
+  async getRenameEdits(
+    filePath: string,
+    position: LspPosition,
+    newName: string,
+    signal?: AbortSignal,
+  ): Promise<Map<string, LspTextEdit[]>> {
+    const server = await this.getServer(filePath, signal);
+    const edit = await server.getRenameEdits(
+      filePath,
+      position,
+      newName,
+      signal,
+    );
+    if (!edit) {
+      throw new Error('The symbol at this position cannot be renamed.');
+    }
+    return collectTextEdits(edit);
+  }
+
+  /**
+   * Writes text edits, as returned by `getRenameEdits`, to their files and
+   * tells the servers about the changes.
+   * @throws Error if a file is outside the workspace or cannot be written;
+   *   files before it are already changed
+   */
+  async applyTextEdits(
+    edits: Map<string, LspTextEdit[]>,
+  ): Promise<AppliedWorkspaceEdit> {
+    const workspace = this.config.getWorkspaceContext();
+    for (const filePath of edits.keys()) {
+      if (!workspace.isPathWithinWorkspace(filePath)) {
+        throw new Error(
+          `The edit changes a file outside the workspace: ${filePath}`,
+        );
+      }
+    }
+    const fileSystem = this.config.getFileSystemService();
+    let editCount = 0;
+    for (const [filePath, fileEdits] of edits) {
+      const content = await fileSystem.readTextFile(filePath);
+      await fileSystem.writeTextFile(filePath, applyEdits(content, fileEdits));
+      editCount += fileEdits.length;
+    }
+
+    const files = [...edits.keys()];
+    for (const pending of this.servers.values()) {
+      const server = await pending.catch(() => undefined);
+      if (server?.isRunning) {
+        await server.notifyFilesChanged(
+          files.filter((file) => isWithinRoot(file, server.rootDir)),
+        );
+      }
+    }
+    return { files, editCount };
+  }
+
+  /**
+   * Errors and warnings in a file, for the result of a tool that just
+   * changed it, when the `lsp.diagnosticsAfterEdit` setting is on.
+   * @returns an empty string if there are none or they are unavailable
+   */
+  async describeDiagnosticsAfterEdit(
+    filePath: string,
+    signal?: AbortSignal,
+  ): Promise<string> {
+    const settings = this.config.getLspSettings();
+    if (
+      settings.enabled === false ||
+      !settings.diagnosticsAfterEdit ||
+      !this.findServerName(filePath)
+    ) {
+      return '';
+    }
+    try {
+      const diagnostics = (
+        (await this.getDiagnostics(filePath, signal)) ?? []
+      ).filter(
+        (diagnostic) =>
+          (diagnostic.severity ?? LspDiagnosticSeverity.Error) <=
+          LspDiagnosticSeverity.Warning,
+      );
+      if (diagnostics.length === 0) {
+        return '';
+      }
+      return `The language server reports these problems in the file now:\n${formatDiagnostics(diagnostics, MAX_DIAGNOSTICS_AFTER_EDIT)}`;
+    } catch {
+      // Diagnostics are a bonus; the edit itself succeeded
+      return '';
+    }
+  }
+
+  /** Stops every server this service started */
+  async stopAll(): Promise<void> {
+    const servers = [...this.servers.values()];
+    this.servers.clear();
+    this.launched.clear();
+    await Promise.all(
+      servers.map(async (pending) => {
+        const server = await pending.catch(() => undefined);
+        await server?.stop();
+      }),
+    );
+  }
+
+  /**
+   * The running server for a file, started if needed, for the workspace
+   * directory that contains the file.
+   * @throws LspUnavailableError if no server handles the file or it cannot
+   *   be started
+   */
+  private async getServer(
+    filePath: string,
+    signal?: AbortSignal,
+  ): Promise<LanguageServer> {
+    const name = this.findServerName(filePath);
+    if (!name) {
+      throw new LspUnavailableError(
+        `No language server is configured for ${path.extname(filePath) || 'files without an extension'}. Add one to the lsp.servers setting.`,
+      );
+    }
+    const rootDir =
+      this.config
+        .getWorkspaceContext()
+        .getDirectories()
+        .find((dir) => isWithinRoot(filePath, dir)) ??
+      this.config.getTargetDir();
+    const key = `${name}\0${rootDir}`;
+
+    const existing = await this.servers.get(key)?.catch(() => undefined);
+    if (existing?.isRunning) {
+      return existing;
+    }
+
+    const server = new LanguageServer(
+      name,
+      this.getServerConfigs()[name],
+      rootDir,
+    );
+    const starting = server.start(signal).then(() => server);
+    this.servers.set(key, starting);
+    this.launched.set(key, server);
+    this.registerExitHandler();
+    try {
+      return await starting;
+    } catch (error) {
+      this.servers.delete(key);
+      this.launched.delete(key);
+      server.kill();
+      throw new LspUnavailableError(
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+  }
+
+  private registerExitHandler(): void {
+    if (this.exitHandlerRegistered) {
+      return;
+    }
+    this.exitHandlerRegistered = true;
+    process.on('exit', () => {
+      for (const server of this.launched.values()) {
+        server.kill();
+      }
+    });
+  }
+}
+
+function collectTextEdits(edit: LspWorkspaceEdit): Map<string, LspTextEdit[]> {
+  const edits = new Map<string, LspTextEdit[]>();
+  const add = (uri: string, fileEdits: LspTextEdit[]) => {
+    const filePath = uriToPath(uri);
+    edits.set(filePath, [...(edits.get(filePath) ?? []), ...fileEdits]);
+  };
+  if (edit.documentChanges) {
+    for (const change of edit.documentChanges) {
+      if ('kind' in change) {
+        throw new Error(
+          `The rename would ${change.kind} files, which is not supported.`,
+        );
+      }
+      add(change.textDocument.uri, change.edits);
+    }
+  } else {
+    for (const [uri, fileEdits] of Object.entries(edit.changes ?? {})) {
+      add(uri, fileEdits);
+    }
+  }
+  return edits;
+}
+
+/** Applies non-overlapping edits with positions in the original text */
+function applyEdits(text: string, edits: LspTextEdit[]): string {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') {
+      lineStarts.push(i + 1);
+    }
+  }
+  const offset = ({ line, character }: LspPosition) =>
+    line >= lineStarts.length
+      ? text.length
+      : Math.min(lineStarts[line] + character, text.length);
+
+  let result = text;
+  const sorted = edits
+    .map((edit) => ({
+      start: offset(edit.range.start),
+      end: offset(edit.range.end),
+      newText: edit.newText,
+    }))
+    .sort((a, b) => b.start - a.start || b.end - a.end);
+  for (const edit of sorted) {
+    result =
+      result.slice(0, edit.start) + edit.newText + result.slice(edit.end);
+  }
+  return result;
+}
@@ -0,0 +1,100 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/** How to launch a language server, from the `lsp.servers` setting. */
+export interface LspServerConfig {
+  /** Executable, looked up on the PATH */
+  command: string;
+  args?: string[];
+  /** File extensions the server handles, e.g. `.ts` */
+  extensions: string[];
+  /** Extra environment variables for the server process */
+  env?: Record<string, string>;
+  /** Sent as `initializationOptions` in the `initialize` request */
+  initializationOptions?: unknown;
+  /** Turns off a built-in server */
+  disabled?: boolean;
+}
+
+export interface LspSettings {
+  /** Whether the LSP tools are available. Defaults to true. */
+  enabled?: boolean;
+  /**
+   * Whether `edit` and `write_file` report the diagnostics of the file they
+   * changed. Defaults to false.
+   */
+  diagnosticsAfterEdit?: boolean;
+  /** Added to or overriding the built-in servers, by name */
+  servers?: Record<string, Partial<LspServerConfig>>;
+}
+
+// The parts of the Language Server Protocol that the tools use. Positions
+// are 0-based, with characters counted in UTF-16 code units.
+
+export interface LspPosition {
+  line: number;
+  character: number;
+}
+
+export interface LspRange {
+  start: LspPosition;
+  end: LspPosition;
+}
+
+export interface LspLocation {
+  uri: string;
+  range: LspRange;
+}
+
+export interface LspLocationLink {
+  targetUri: string;
+  targetRange: LspRange;
+  targetSelectionRange: LspRange;
+}
+
+export enum LspDiagnosticSeverity {
+  Error = 1,
+  Warning = 2,
+  Information = 3,
+  Hint = 4,
+}
+
+export interface LspDiagnostic {
+  range: LspRange;
+  severity?: LspDiagnosticSeverity;
+  code?: number | string;
+  source?: string;
+  message: string;
+}
+
+export interface LspTextEdit {
+  range: LspRange;
+  newText: string;
+}
+
+export interface LspWorkspaceEdit {
+  changes?: Record<string, LspTextEdit[]>;
+  documentChanges?: Array<
+    | { textDocument: { uri: string }; edits: LspTextEdit[] }
+    | { kind: 'create' | 'rename' | 'delete' }
+  >;
+}
+
+export interface LspDocumentSymbol {
+  name: string;
+  detail?: string;
+  kind: number;
+  range: LspRange;
+  selectionRange: LspRange;
+  children?: LspDocumentSymbol[];
+}
+
+export interface LspSymbolInformation {
+  name: string;
+  kind: number;
+  location: LspLocation;
+  containerName?: string;
+}
@@ -0,0 +1,347 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { randomUUID } from 'node:crypto';
+import type {
+  ElicitRequestFormParams,
+  ElicitResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { Config } from '../config/config.js';
+import { IDEConnectionStatus } from '../ide/ide-client.js';
+import { getErrorMessage } from '../utils/errors.js';
+
+export type ElicitationValue = string | number | boolean | string[];
+
+export type ElicitationContent = Record<string, ElicitationValue>;
+
+export type ElicitationFieldKind =
+  | 'text'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'select'
+  | 'multiselect';
+
+export interface ElicitationOption {
+  value: string;
+  label: string;
+}
+
+/** A property of a requested schema, as a form field */
+export interface ElicitationField {
+  name: string;
+  /** The property's title, or its name */
+  title: string;
+  description?: string;
+  kind: ElicitationFieldKind;
+  required: boolean;
+  /** The choices of `select` and `multiselect` fields */
+  options: ElicitationOption[];
+  format?: 'email' | 'uri' | 'date' | 'date-time';
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  default?: ElicitationValue;
+}
+
+/** A structured question an MCP server asks the user */
+export interface McpElicitationRequest {
+  serverName: string;
+  message: string;
+  fields: ElicitationField[];
+}
+
+/**
+ * Asks the user to answer an elicitation. Resolves with `cancel` if the
+ * signal aborts, e.g. because the server cancelled the request or the user
+ * answered elsewhere.
+ */
+export type McpElicitationHandler = (
+  request: McpElicitationRequest,
+  signal: AbortSignal,
+) => Promise<ElicitResult>;
+
+type RequestedSchema = ElicitRequestFormParams['requestedSchema'];
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DATE_TIME =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * The properties of a requested schema as form fields, in the order the
+ * server listed them.
+ */
+export function getElicitationFields(
+  schema: RequestedSchema,
+): ElicitationField[] {
+  const required = new Set(schema.required ?? []);
+  return Object.entries(schema.properties).map(([name, definition]) => {
+    const property = definition as Record<string, unknown>;
+    const field: ElicitationField = {
+      name,
+      title: typeof property['title'] === 'string' ? property['title'] : name,
+      description:
+        typeof property['description'] === 'string'
+          ? property['description']
+          : undefined,
+      kind: 'text',
+      required: required.has(name),
+      options: [],
+      default: property['default'] as ElicitationValue | undefined,
+    };
+    switch (property['type']) {
+      case 'boolean':
+        field.kind = 'boolean';
+        break;
+      case 'number':
+      case 'integer':
+        field.kind = property['type'];
+        field.minimum = property['minimum'] as number | undefined;
+        field.maximum = property['maximum'] as number | undefined;
+        break;
+      case 'array': {
+        const items = (property['items'] ?? {}) as Record<string, unknown>;
+        field.kind = 'multiselect';
+        field.options = toOptions(items['enum'], undefined, items['anyOf']);
+        field.minItems = property['minItems'] as number | undefined;
+        field.maxItems = property['maxItems'] as number | undefined;
+        break;
+      }
+      default:
+        if (property['enum'] || property['oneOf']) {
+          field.kind = 'select';
+          field.options = toOptions(
+            property['enum'],
+            property['enumNames'],
+            property['oneOf'],
+          );
+        } else {
+          field.format = property['format'] as ElicitationField['format'];
+          field.minLength = property['minLength'] as number | undefined;
+          field.maxLength = property['maxLength'] as number | undefined;
+        }
+        break;
+    }
+    return field;
+  });
+}
+
+function toOptions(
+  values: unknown,
+  labels: unknown,
+  titled: unknown,
+): ElicitationOption[] {
+  if (Array.isArray(titled)) {
+    return titled.map((option: { const: string; title: string }) => ({
+      value: option.const,
+      label: option.title,
+    }));
+  }
+  if (!Array.isArray(values)) {
+    return [];
+  }
+  return values.map((value: string, index) => ({
+    value,
+    label: Array.isArray(labels) ? (labels[index] ?? value) : value,
+  }));
+}
+
+/**
+ * Parses what the user typed for a text, number or integer field. Empty
+ * input is no value.
+ */
+export function parseElicitationInput(
+  field: ElicitationField,
+  input: string,
+): { value?: ElicitationValue; error?: string } {
+  const text = input.trim();
+  if (text === '') {
+    return {};
+  }
+  if (field.kind === 'number' || field.kind === 'integer') {
+    const value = Number(text);
+    if (!Number.isFinite(value)) {
+      return { error: `${field.title} must be a number.` };
+    }
+    return { value };
+  }
+  return { value: input };
+}
+
+/**
+ * Checks a field's value against its constraints.
+ * @returns The problem, or null if the value is valid
+ */
+export function validateElicitationValue(
+  field: ElicitationField,
+  value: ElicitationValue | undefined,
+): string | null {
+  if (value === undefined) {
+    return field.required ? `${field.title} is required.` : null;
+  }
+  const { title } = field;
+  switch (field.kind) {
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${title} must be yes or no.`;
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return `${title} must be a number.`;
+      }
+      if (field.kind === 'integer' && !Number.isInteger(value)) {
+        return `${title} must be a whole number.`;
+      }
+      if (field.minimum !== undefined && value < field.minimum) {
+        return `${title} must be at least ${field.minimum}.`;
+      }
+      if (field.maximum !== undefined && value > field.maximum) {
+        return `${title} must be at most ${field.maximum}.`;
+      }
+      return null;
+    case 'select':
+      return field.options.some((option) => option.value === value)
+        ? null
+        : `${title} must be one of the options.`;
+    case 'multiselect':
+      if (
+        !Array.isArray(value) ||
+        value.some((item) => !field.options.some((o) => o.value === item))
+      ) {
+        return `${title} must be a selection of the options.`;
+      }
+      if (field.minItems !== undefined && value.length < field.minItems) {
+        return `Select at least ${field.minItems} for ${title}.`;
+      }
+      if (field.maxItems !== undefined && value.length > field.maxItems) {
+        return `Select at most ${field.maxItems} for ${title}.`;
+      }
+      return null;
+    default:
+      return validateText(field, value);
+  }
+}
+
+function validateText(
+  field: ElicitationField,
+  value: ElicitationValue,
+): string | null {
+  const { title } = field;
+  if (typeof value !== 'string') {
+    return `${title} must be text.`;
+  }
+  if (field.minLength !== undefined && value.length < field.minLength) {
+    return `${title} must be at least ${field.minLength} characters.`;
+  }
+  if (field.maxLength !== undefined && value.length > field.maxLength) {
+    return `${title} must be at most ${field.maxLength} characters.`;
+  }
+  switch (field.format) {
+    case 'email':
+      return EMAIL.test(value) ? null : `${title} must be an email address.`;
+    case 'uri':
+      return URL.canParse(value) ? null : `${title} must be a URI.`;
+    case 'date':
+      return DATE.test(value) && !Number.isNaN(Date.parse(value))
+        ? null
+        : `${title} must be a date as YYYY-MM-DD.`;
+    case 'date-time':
+      return DATE_TIME.test(value) && !Number.isNaN(Date.parse(value))
+        ? null
+        : `${title} must be a date and time as YYYY-MM-DDTHH:MM:SSZ.`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Checks the content of an accepted elicitation against the fields.
+ * @returns The first problem, or null if the content is valid
+ */
+export function validateElicitationContent(
+  fields: ElicitationField[],
+  content: ElicitationContent,
+): string | null {
+  for (const field of fields) {
+    const error = validateElicitationValue(field, content[field.name]);
+    if (error) {
+      return error;
+    }
+  }
+  return null;
+}
+
+/**
+ * Answers an `elicitation/create` request of a server. The question is asked
+ * in the terminal and, when connected, in the IDE; the first answer counts.
+ * Without a user to ask, the elicitation is cancelled.
+ */
+export async function handleElicitationRequest(
+  config: Config,
+  serverName: string,
+  params: ElicitRequestFormParams,
+  signal: AbortSignal,
+): Promise<ElicitResult> {
+  const request: McpElicitationRequest = {
+    serverName,
+    message: params.message,
+    fields: getElicitationFields(params.requestedSchema),
+  };
+  const askers: Array<(signal: AbortSignal) => Promise<ElicitResult>> = [];
+  const handler = config.getMcpElicitationHandler();
+  if (handler) {
+    askers.push((answered) => handler(request, answered));
+  }
+  const ideClient = config.getIdeClient();
+  if (
+    config.getIdeMode() &&
+    ideClient?.getConnectionStatus().status === IDEConnectionStatus.Connected
+  ) {
+    askers.push((answered) => {
+      const id = randomUUID();
+      answered.addEventListener('abort', () => {
+        ideClient.cancelElicitation(id);
+      });
+      return ideClient.elicit(id, request);
+    });
+  }
+  if (askers.length === 0) {
+    return { action: 'cancel' };
+  }
+
+  const answered = new AbortController();
+  const abort = () => answered.abort();
+  signal.addEventListener('abort', abort);
+  let result: ElicitResult;
+  try {
+    result = await Promise.any(askers.map((ask) => ask(answered.signal)));
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Could not ask the user: ${getErrorMessage(error instanceof AggregateError ? error.errors[0] : error)}`,
+    );
+  } finally {
+    signal.removeEventListener('abort', abort);
+    answered.abort();
+  }
+
+  if (result.action !== 'accept') {
+    return { action: result.action };
+  }
+  const content = (result.content ?? {}) as ElicitationContent;
+  const error = validateElicitationContent(request.fields, content);
+  if (error) {
+    throw new McpError(
+      ErrorCode.InternalError,
+      `The answer to the elicitation is not valid: ${error}`,
+    );
+  }
+  return { action: 'accept', content };
+}
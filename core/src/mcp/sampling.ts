@@ -0,0 +1,156 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Content, Part } from '@google/genai';
+import { FinishReason } from '@google/genai';
+import type {
+  CreateMessageRequestParams,
+  CreateMessageResult,
+  SamplingMessage,
+} from '@modelcontextprotocol/sdk/types.js';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { Config, MCPServerConfig } from '../config/config.js';
+import { ApprovalMode } from '../config/config.js';
+import { ToolConfirmationOutcome } from '../tools/tools.js';
+import { getResponseText } from '../utils/partUtils.js';
+import { getErrorMessage } from '../utils/errors.js';
+
+/** Tokens a sampling request may generate, unless configured otherwise */
+export const DEFAULT_MCP_SAMPLING_MAX_TOKENS = 4096;
+
+/** The error code the MCP specification uses for requests a user rejects */
+const USER_REJECTED = -1;
+
+/** A request of an MCP server to generate a message with the host's model */
+export interface McpSamplingRequest {
+  serverName: string;
+  messages: SamplingMessage[];
+  systemPrompt?: string;
+  /** The tokens the model may generate, after the configured cap */
+  maxTokens: number;
+}
+
+/**
+ * Asks the user whether a server may use the model. Resolves with `Cancel`
+ * if the signal aborts because the server cancelled the request.
+ */
+export type McpSamplingHandler = (
+  request: McpSamplingRequest,
+  signal: AbortSignal,
+) => Promise<ToolConfirmationOutcome>;
+
+/** Servers the user allowed to sample for the rest of the session */
+const allowedServers = new Set<string>();
+
+function toParts(message: SamplingMessage): Part[] {
+  const contents = Array.isArray(message.content)
+    ? message.content
+    : [message.content];
+  return contents.map((content): Part => {
+    switch (content.type) {
+      case 'text':
+        return { text: content.text };
+      case 'image':
+      case 'audio':
+        return {
+          inlineData: { mimeType: content.mimeType, data: content.data },
+        };
+      default:
+        return { text: JSON.stringify(content) };
+    }
+  });
+}
+
+function toContents(messages: SamplingMessage[]): Content[] {
+  return messages.map((message) => ({
+    role: message.role === 'assistant' ? 'model' : 'user',
+    parts: toParts(message),
+  }));
+}
+
+async function confirmSampling(
+  config: Config,
+  serverName: string,
+  serverConfig: MCPServerConfig,
+  request: McpSamplingRequest,
+  signal: AbortSignal,
+): Promise<void> {
+  if (
+    serverConfig.trust ||
+    config.getApprovalMode() === ApprovalMode.YOLO ||
+    allowedServers.has(serverName)
+  ) {
+    return;
+  }
+  const handler = config.getMcpSamplingHandler();
+  if (!handler) {
+    throw new McpError(
+      USER_REJECTED,
+      'Sampling needs the approval of a user, and none can be asked.',
+    );
+  }
+  const outcome = await handler(request, signal);
+  if (outcome === ToolConfirmationOutcome.ProceedAlways) {
+    allowedServers.add(serverName);
+  } else if (outcome !== ToolConfirmationOutcome.ProceedOnce) {
+    throw new McpError(USER_REJECTED, 'User rejected sampling request');
+  }
+}
+
+/**
+ * Answers a `sampling/createMessage` request of a server with the active
+ * model, once the user allows it. The server's token limit is capped by
+ * `mcp.samplingMaxTokens`.
+ */
+export async function handleSamplingRequest(
+  config: Config,
+  serverName: string,
+  serverConfig: MCPServerConfig,
+  params: CreateMessageRequestParams,
+  signal: AbortSignal,
+): Promise<CreateMessageResult> {
+  const request: McpSamplingRequest = {
+    serverName,
+    messages: params.messages,
+    systemPrompt: params.systemPrompt,
+    maxTokens: Math.min(params.maxTokens, config.getMcpSamplingMaxTokens()),
+  };
+  await confirmSampling(config, serverName, serverConfig, request, signal);
+
+  const model = config.getModel();
+  try {
+    const response = await config
+      .getGeminiClient()
+      .getContentGenerator()
+      .generateContent(
+        {
+          model,
+          contents: toContents(params.messages),
+          config: {
+            abortSignal: signal,
+            systemInstruction: params.systemPrompt,
+            maxOutputTokens: request.maxTokens,
+            temperature: params.temperature,
+            stopSequences: params.stopSequences,
+          },
+        },
+        `mcp-sampling-${serverName}`,
+      );
+    const finishReason = response.candidates?.[0]?.finishReason;
+    return {
+      model,
+      role: 'assistant',
+      content: { type: 'text', text: getResponseText(response) ?? '' },
+      stopReason:
+        finishReason === FinishReason.MAX_TOKENS ? 'maxTokens' : 'endTurn',
+    };
+  } catch (error) {
+    throw new McpError(
+      ErrorCode.InternalError,
+      `Sampling with model ${model} failed: ${getErrorMessage(error)}`,
+    );
+  }
+}
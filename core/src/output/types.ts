@@ -0,0 +1,94 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * How non-interactive runs write their results to stdout.
+ */
+export enum OutputFormat {
+  TEXT = 'text',
+  JSON = 'json',
+  STREAM_JSON = 'stream-json',
+}
+
+/**
+ * Why a non-interactive run stopped.
+ */
+export type ExitReason =
+  | 'completed'
+  | 'max_turns'
+  | 'session_token_limit'
+  | 'loop_detected'
+  | 'cancelled'
+  | 'hook_blocked'
+  | 'error';
+
+/**
+ * The process exit code for each exit reason. Only finished and cancelled
+ * runs exit 0; `max_turns` shares its code with `FatalTurnLimitedError`.
+ */
+export const EXIT_CODES: Record<ExitReason, number> = {
+  completed: 0,
+  cancelled: 0,
+  error: 1,
+  max_turns: 53,
+  session_token_limit: 54,
+  loop_detected: 55,
+  hook_blocked: 56,
+};
+
+export interface OutputToolCall {
+  callId: string;
+  name: string;
+  args: Record<string, unknown>;
+  status: 'success' | 'error';
+  /** Result shown to the user, or the error message */
+  result?: string;
+}
+
+export interface OutputUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cachedTokens: number;
+  thoughtsTokens: number;
+  totalTokens: number;
+  /** Token totals per model */
+  models: Record<string, { requests: number; totalTokens: number }>;
+}
+
+export interface OutputError {
+  message: string;
+  status?: number;
+}
+
+/**
+ * The single object written by `--output-format json`, and the payload of
+ * the final `result` event of `--output-format stream-json`.
+ */
+export interface JsonOutput {
+  sessionId: string;
+  response: string;
+  toolCalls: OutputToolCall[];
+  usage: OutputUsage;
+  /** Estimated USD cost tracked for this run */
+  cost: number;
+  exitReason: ExitReason;
+  error?: OutputError;
+}
+
+/**
+ * One line of `--output-format stream-json`.
+ */
+export type StreamJsonEvent =
+  | { type: 'content'; value: string }
+  | {
+      type: 'tool_call_request';
+      callId: string;
+      name: string;
+      args: Record<string, unknown>;
+    }
+  | ({ type: 'tool_result' } & OutputToolCall)
+  | ({ type: 'error' } & OutputError)
+  | ({ type: 'result' } & JsonOutput);
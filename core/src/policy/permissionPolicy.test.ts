@@ -0,0 +1,197 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { PermissionPolicy } from './permissionPolicy.js';
+import {
+  evaluatePermission,
+  parsePermissionPolicy,
+} from './permissionPolicy.js';
+
+const root = '/project';
+
+describe('evaluatePermission', () => {
+  describe('tools', () => {
+    const policy: PermissionPolicy = {
+      rules: [
+        { tool: 'web_fetch', decision: 'deny', reason: 'No network' },
+        { tool: ['read_file', 'glob'], decision: 'allow' },
+        { server: 'github', tool: 'create_issue', decision: 'allow' },
+      ],
+    };
+
+    it('returns the first matching rule with its reason', () => {
+      expect(evaluatePermission(policy, 'web_fetch', {}, root)).toEqual({
+        decision: 'deny',
+        rule: policy.rules[0],
+        reason: 'No network',
+      });
+      expect(evaluatePermission(policy, 'glob', {}, root).decision).toBe(
+        'allow',
+      );
+    });
+
+    it('falls back to the default, or ask without one', () => {
+      expect(evaluatePermission(policy, 'edit', {}, root)).toEqual({
+        decision: 'ask',
+      });
+      expect(
+        evaluatePermission({ ...policy, default: 'deny' }, 'edit', {}, root)
+          .decision,
+      ).toBe('deny');
+    });
+
+    it('matches MCP tools by server and server tool name', () => {
+      const github = { serverName: 'github', serverToolName: 'create_issue' };
+      expect(
+        evaluatePermission(policy, 'create_issue', {}, root, github).decision,
+      ).toBe('allow');
+      expect(
+        evaluatePermission(policy, 'create_issue', {}, root).decision,
+      ).toBe('ask');
+      expect(
+        evaluatePermission(policy, 'create_issue', {}, root, {
+          serverName: 'gitlab',
+          serverToolName: 'create_issue',
+        }).decision,
+      ).toBe('ask');
+    });
+  });
+
+  describe('shell commands', () => {
+    const policy: PermissionPolicy = {
+      rules: [
+        { command: 'rm', decision: 'deny' },
+        { command: 'git push *', decision: 'ask' },
+        { command: ['git', 'npm run test*'], decision: 'allow' },
+        { exactCommand: 'make  clean', decision: 'allow' },
+      ],
+    };
+
+    const evaluate = (command: string) =>
+      evaluatePermission(policy, 'run_shell_command', { command }, root)
+        .decision;
+
+    it('matches the command root, wildcards and exact commands', () => {
+      expect(evaluate('git status')).toBe('allow');
+      expect(evaluate('git push origin main')).toBe('ask');
+      expect(evaluate('npm run test:unit')).toBe('allow');
+      expect(evaluate('make clean')).toBe('allow');
+      expect(evaluate('make clean all')).toBe('ask');
+    });
+
+    it('denies a chain if any part is denied', () => {
+      expect(evaluate('git status && rm -rf build')).toBe('deny');
+      expect(evaluate('git status | npm run test')).toBe('allow');
+      expect(evaluate('git status; ls')).toBe('ask');
+    });
+
+    it('asks about command substitution', () => {
+      expect(evaluate('git log $(ls)')).toBe('ask');
+    });
+  });
+
+  describe('paths', () => {
+    const policy: PermissionPolicy = {
+      rules: [
+        { path: 'secrets/**', decision: 'deny' },
+        { tool: '*', path: ['src/**', '/tmp/**'], decision: 'allow' },
+      ],
+    };
+
+    it('matches path arguments relative to the project or absolute', () => {
+      expect(
+        evaluatePermission(
+          policy,
+          'edit',
+          { file_path: '/project/src/a.ts' },
+          root,
+        ).decision,
+      ).toBe('allow');
+      expect(
+        evaluatePermission(
+          policy,
+          'notebook_edit',
+          { notebook_path: 'secrets/keys.ipynb' },
+          root,
+        ).decision,
+      ).toBe('deny');
+      expect(
+        evaluatePermission(
+          policy,
+          'write_file',
+          { file_path: '/tmp/out.txt' },
+          root,
+        ).decision,
+      ).toBe('allow');
+    });
+
+    it('denies a call if any path it touches is denied', () => {
+      expect(
+        evaluatePermission(
+          policy,
+          'apply_patch',
+          { patch: '' },
+          root,
+          undefined,
+          ['/project/src/a.ts', '/project/secrets/token'],
+        ).decision,
+      ).toBe('deny');
+    });
+
+    it('allows a call only if every path it touches is allowed', () => {
+      expect(
+        evaluatePermission(
+          policy,
+          'lsp_rename',
+          { file_path: '/project/src/a.ts' },
+          root,
+          undefined,
+          ['/project/src/a.ts', '/project/src/b.ts'],
+        ).decision,
+      ).toBe('allow');
+      expect(
+        evaluatePermission(
+          policy,
+          'lsp_rename',
+          { file_path: '/project/src/a.ts' },
+          root,
+          undefined,
+          ['/project/test/a.test.ts'],
+        ),
+      ).toEqual({ decision: 'ask' });
+    });
+
+    it('does not match path rules for calls without a path', () => {
+      expect(evaluatePermission(policy, 'web_fetch', {}, root)).toEqual({
+        decision: 'ask',
+      });
+    });
+  });
+});
+
+describe('parsePermissionPolicy', () => {
+  it('parses a valid policy', () => {
+    expect(
+      parsePermissionPolicy(
+        '{"default":"deny","rules":[{"tool":"glob","decision":"allow"}]}',
+      ),
+    ).toEqual({
+      default: 'deny',
+      rules: [{ tool: 'glob', decision: 'allow' }],
+    });
+  });
+
+  it('rejects invalid decisions and fields', () => {
+    expect(() =>
+      parsePermissionPolicy('{"rules":[{"decision":"maybe"}]}'),
+    ).toThrow('rules[0].decision must be one of allow, deny, ask');
+    expect(() =>
+      parsePermissionPolicy('{"rules":[{"decision":"allow","path":1}]}'),
+    ).toThrow('rules[0].path must be a string or an array of strings');
+    expect(() => parsePermissionPolicy('{}')).toThrow('rules must be an array');
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import picomatch from 'picomatch';
+import { ToolNames } from '../tools/tool-names.js';
+import {
+  detectCommandSubstitution,
+  getCommandRoot,
+  splitCommands,
+  stripShellWrapper,
+} from '../utils/shell-utils.js';
+
+export type PermissionDecision = 'allow' | 'deny' | 'ask';
+
+const DECISIONS: readonly PermissionDecision[] = ['allow', 'deny', 'ask'];
+
+/** Argument names that hold the file or directory a tool operates on */
+const PATH_ARGS = ['file_path', 'absolute_path', 'path', 'notebook_path'];
+
+/**
+ * A single allow/deny/ask rule. Every field that is set must match.
+ */
+export interface PermissionRule {
+  /** Tool name(s), e.g. `run_shell_command`, `edit`; `*` or omitted matches any tool */
+  tool?: string | string[];
+  /**
+   * MCP server name(s); `*` matches any server. When set, only MCP tools
+   * match and `tool` is compared with the server's own tool name.
+   */
+  server?: string | string[];
+  /**
+   * Shell command pattern(s). A single word matches the command root
+   * (`git`); anything else matches the whole command, with `*` as a
+   * wildcard (`git push *`, `npm run test*`).
+   */
+  command?: string | string[];
+  /** Whole shell command(s), matched exactly apart from whitespace */
+  exactCommand?: string | string[];
+  /** Glob(s) for the path a tool touches, relative to the project root or absolute */
+  path?: string | string[];
+  decision: PermissionDecision;
+  /** Explanation returned to the model when the call is denied */
+  reason?: string;
+}
+
+/**
+ * Rules are checked in order and the first match wins. Shell commands are
+ * split on `&&`, `;`, `|` etc. and each part is checked on its own: the
+ * call is denied if any part is denied and only allowed if every part is.
+ */
+export interface PermissionPolicy {
+  /** Decision when no rule matches. Defaults to `ask`. */
+  default?: PermissionDecision;
+  rules: PermissionRule[];
+}
+
+/** Identifies an MCP tool by its server and the server's own tool name */
+export interface McpToolIdentity {
+  serverName: string;
+  serverToolName: string;
+}
+
+export interface PermissionEvaluation {
+  decision: PermissionDecision;
+  /** The rule that decided, if any */
+  rule?: PermissionRule;
+  reason?: string;
+}
+
+function toArray(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function validateRule(rule: unknown, index: number): PermissionRule {
+  if (!rule || typeof rule !== 'object') {
+    throw new Error(`rules[${index}] must be an object`);
+  }
+  const candidate = rule as Record<string, unknown>;
+  if (!DECISIONS.includes(candidate['decision'] as PermissionDecision)) {
+    throw new Error(
+      `rules[${index}].decision must be one of ${DECISIONS.join(', ')}`,
+    );
+  }
+  for (const key of ['tool', 'server', 'command', 'exactCommand', 'path']) {
+    const value = candidate[key];
+    const valid =
+      value === undefined ||
+      typeof value === 'string' ||
+      (Array.isArray(value) && value.every((v) => typeof v === 'string'));
+    if (!valid) {
+      throw new Error(
+        `rules[${index}].${key} must be a string or an array of strings`,
+      );
+    }
+  }
+  return candidate as unknown as PermissionRule;
+}
+
+/**
+ * Parses and validates a permission policy.
+ * @throws Error describing the first problem found
+ */
+export function parsePermissionPolicy(content: string): PermissionPolicy {
+  const data = JSON.parse(content) as Record<string, unknown>;
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('policy must be a JSON object');
+  }
+  if (
+    data['default'] !== undefined &&
+    !DECISIONS.includes(data['default'] as PermissionDecision)
+  ) {
+    throw new Error(`default must be one of ${DECISIONS.join(', ')}`);
+  }
+  if (!Array.isArray(data['rules'])) {
+    throw new Error('rules must be an array');
+  }
+  return {
+    default: data['default'] as PermissionDecision | undefined,
+    rules: data['rules'].map(validateRule),
+  };
+}
+
+/**
+ * Loads a permission policy from a JSON file.
+ * @throws Error if the file cannot be read or is invalid
+ */
+export function loadPermissionPolicy(filePath: string): PermissionPolicy {
+  try {
+    return parsePermissionPolicy(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Invalid permission policy ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+function matchesTool(
+  rule: PermissionRule,
+  toolName: string,
+  mcpTool: McpToolIdentity | undefined,
+): boolean {
+  const servers = toArray(rule.server);
+  if (servers.length > 0) {
+    if (
+      !mcpTool ||
+      !servers.some(
+        (server) => server === '*' || server === mcpTool.serverName,
+      )
+    ) {
+      return false;
+    }
+    toolName = mcpTool.serverToolName;
+  }
+  const tools = toArray(rule.tool);
+  return (
+    tools.length === 0 ||
+    tools.some((tool) => tool === '*' || tool === toolName)
+  );
+}
+
+function normalizeCommand(command: string): string {
+  return command.trim().replace(/\s+/g, ' ');
+}
+
+function matchesCommand(pattern: string, command: string): boolean {
+  const trimmed = pattern.trim();
+  if (!trimmed.includes('*') && !/\s/.test(trimmed)) {
+    return getCommandRoot(command) === trimmed;
+  }
+  const normalized = normalizeCommand(command);
+  if (!trimmed.includes('*')) {
+    // A multi-word pattern is a prefix made of whole words
+    return normalized === trimmed || normalized.startsWith(`${trimmed} `);
+  }
+  const regex = new RegExp(
+    `^${trimmed
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*')}$`,
+  );
+  return regex.test(normalized);
+}
+
+function matchesPath(
+  pattern: string,
+  filePath: string,
+  targetDir: string,
+): boolean {
+  const absolute = path.resolve(targetDir, filePath);
+  const relative = path.relative(targetDir, absolute).split(path.sep).join('/');
+  const isMatch = picomatch(pattern, { dot: true });
+  return (
+    isMatch(absolute.split(path.sep).join('/')) ||
+    (!relative.startsWith('..') && isMatch(relative))
+  );
+}
+
+function getToolPath(args: Record<string, unknown>): string | undefined {
+  for (const key of PATH_ARGS) {
+    const value = args[key];
+    if (typeof value === 'string' && value) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function findRule(
+  policy: PermissionPolicy,
+  toolName: string,
+  subject: { command?: string; filePath?: string },
+  targetDir: string,
+  mcpTool: McpToolIdentity | undefined,
+): PermissionEvaluation {
+  for (const rule of policy.rules) {
+    if (!matchesTool(rule, toolName, mcpTool)) continue;
+
+    const commands = toArray(rule.command);
+    if (
+      commands.length > 0 &&
+      (subject.command === undefined ||
+        !commands.some((pattern) => matchesCommand(pattern, subject.command!)))
+    ) {
+      continue;
+    }
+
+    const exactCommands = toArray(rule.exactCommand);
+    if (
+      exactCommands.length > 0 &&
+      (subject.command === undefined ||
+        !exactCommands.some(
+          (exact) =>
+            normalizeCommand(exact) === normalizeCommand(subject.command!),
+        ))
+    ) {
+      continue;
+    }
+
+    const paths = toArray(rule.path);
+    if (
+      paths.length > 0 &&
+      (subject.filePath === undefined ||
+        !paths.some((pattern) =>
+          matchesPath(pattern, subject.filePath!, targetDir),
+        ))
+    ) {
+      continue;
+    }
+
+    return { decision: rule.decision, rule, reason: rule.reason };
+  }
+  return { decision: policy.default ?? 'ask' };
+}
+
+/** A denial wins over a needed approval, which wins over an allowance */
+function combineEvaluations(
+  evaluations: PermissionEvaluation[],
+): PermissionEvaluation {
+  return (
+    evaluations.find((e) => e.decision === 'deny') ??
+    evaluations.find((e) => e.decision === 'ask') ??
+    evaluations[0]
+  );
+}
+
+/**
+ * Decides whether a tool call is allowed, denied or needs approval. Path
+ * rules are checked against every path the call touches: the call is
+ * denied if any path is denied and only allowed if every path is.
+ * @param toolPaths Paths the call touches besides its path argument, e.g.
+ * the files a patch or a rename changes
+ */
+export function evaluatePermission(
+  policy: PermissionPolicy,
+  toolName: string,
+  args: Record<string, unknown>,
+  targetDir: string,
+  mcpTool?: McpToolIdentity,
+  toolPaths: string[] = [],
+): PermissionEvaluation {
+  const argPath = getToolPath(args);
+  const filePaths = [
+    ...new Set(
+      [...(argPath ? [argPath] : []), ...toolPaths].map((filePath) =>
+        path.resolve(targetDir, filePath),
+      ),
+    ),
+  ];
+  const evaluate = (command?: string) =>
+    combineEvaluations(
+      (filePaths.length > 0 ? filePaths : [undefined]).map((filePath) =>
+        findRule(policy, toolName, { command, filePath }, targetDir, mcpTool),
+      ),
+    );
+  if (toolName !== ToolNames.SHELL || typeof args['command'] !== 'string') {
+    return evaluate();
+  }
+
+  const command = stripShellWrapper(args['command']);
+  const evaluations = splitCommands(command).map(evaluate);
+  if (evaluations.length === 0) {
+    return evaluate();
+  }
+
+  const evaluation = combineEvaluations(evaluations);
+  // Substituted commands run code that no rule has seen
+  if (evaluation.decision === 'allow' && detectCommandSubstitution(command)) {
+    return {
+      decision: 'ask',
+      reason: 'Command substitution cannot be checked against the policy',
+    };
+  }
+  return evaluation;
+}
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { AnyDeclarativeTool, AnyToolInvocation } from '../tools/tools.js';
+import { Kind, ToolConfirmationOutcome } from '../tools/tools.js';
+import { getAlwaysAllowRules } from './permissionRules.js';
+
+const root = '/project';
+
+function rulesFor(
+  name: string,
+  kind: Kind,
+  params: Record<string, unknown>,
+  paths: string[] = [],
+  outcome = ToolConfirmationOutcome.ProceedAlways,
+): string[] {
+  const tool = { name, kind } as unknown as AnyDeclarativeTool;
+  const invocation = {
+    params,
+    toolLocations: () => paths.map((file) => ({ path: file })),
+  } as unknown as AnyToolInvocation;
+  return getAlwaysAllowRules(tool, invocation, outcome, [], root);
+}
+
+describe('getAlwaysAllowRules', () => {
+  it('saves a rule for the top-level directory of an edited file', () => {
+    expect(
+      rulesFor('edit', Kind.Edit, {}, ['/project/src/utils/a.ts']),
+    ).toEqual(['edit(src/**)']);
+    expect(
+      rulesFor('notebook_edit', Kind.Edit, {}, ['/project/analysis.ipynb']),
+    ).toEqual(['notebook_edit(*)']);
+  });
+
+  it('saves a rule for every directory a multi-file edit changes', () => {
+    expect(
+      rulesFor('apply_patch', Kind.Edit, {}, [
+        '/project/src/a.ts',
+        '/project/src/b.ts',
+        '/project/test/a.test.ts',
+        '/tmp/out.txt',
+      ]),
+    ).toEqual([
+      'apply_patch(src/**)',
+      'apply_patch(test/**)',
+      'apply_patch(/tmp/**)',
+    ]);
+  });
+
+  it('saves shell command rules by subcommand', () => {
+    expect(
+      rulesFor('run_shell_command', Kind.Execute, {
+        command: 'npm test -- --watch && rm -rf build',
+      }),
+    ).toEqual([
+      'run_shell_command(npm test:*)',
+      'run_shell_command(rm -rf build)',
+    ]);
+  });
+
+  it('saves nothing for a one-time approval', () => {
+    expect(
+      rulesFor(
+        'edit',
+        Kind.Edit,
+        {},
+        ['/project/src/a.ts'],
+        ToolConfirmationOutcome.ProceedOnce,
+      ),
+    ).toEqual([]);
+  });
+});
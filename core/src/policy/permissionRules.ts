@@ -0,0 +1,215 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'node:path';
+import type {
+  AnyDeclarativeTool,
+  AnyToolInvocation,
+} from '../tools/tools.js';
+import { Kind, ToolConfirmationOutcome } from '../tools/tools.js';
+import { DiscoveredMCPTool } from '../tools/mcp-tool.js';
+import { ToolNames } from '../tools/tool-names.js';
+import {
+  getCommandRoot,
+  splitCommands,
+  stripShellWrapper,
+} from '../utils/shell-utils.js';
+import type {
+  McpToolIdentity,
+  PermissionEvaluation,
+  PermissionRule,
+} from './permissionPolicy.js';
+import { evaluatePermission } from './permissionPolicy.js';
+
+/**
+ * Allow/deny rules saved in user or project settings. Each rule is a string:
+ *
+ * - `run_shell_command(npm test:*)` - shell commands starting with `npm test`
+ * - `run_shell_command(rm -rf build)` - exactly that shell command
+ * - `edit(src/**)` - a tool whose path argument matches a glob
+ * - `web_fetch` - every call of a tool
+ * - `mcp:github/*` or `mcp:github/create_issue` - MCP server tools
+ *
+ * Deny rules win over allow rules.
+ */
+export interface PermissionRules {
+  allow?: string[];
+  deny?: string[];
+}
+
+export type PermissionRuleDecision = 'allow' | 'deny';
+
+const TOOL_RULE_PATTERN = /^([\w-]+)(?:\((.*)\))?$/s;
+
+/**
+ * Parses a rule string into a policy rule.
+ * @throws Error if the rule is malformed
+ */
+export function parsePermissionRule(
+  rule: string,
+  decision: PermissionRuleDecision,
+): PermissionRule {
+  const trimmed = rule.trim();
+  if (trimmed.startsWith('mcp:')) {
+    const [server, ...toolParts] = trimmed.slice('mcp:'.length).split('/');
+    const tool = toolParts.join('/');
+    if (!server) {
+      throw new Error(`Invalid permission rule "${rule}": missing server`);
+    }
+    return { server, tool: tool || '*', decision };
+  }
+
+  const match = TOOL_RULE_PATTERN.exec(trimmed);
+  if (!match) {
+    throw new Error(
+      `Invalid permission rule "${rule}". Use tool, tool(specifier) or mcp:server/tool.`,
+    );
+  }
+  const [, tool, specifier = ''] = match;
+  const pattern = specifier.trim();
+  if (!pattern || pattern === '*' || pattern === '**') {
+    return { tool, decision };
+  }
+  if (tool === ToolNames.SHELL) {
+    return pattern.endsWith(':*')
+      ? { tool, command: pattern.slice(0, -':*'.length), decision }
+      : { tool, exactCommand: pattern, decision };
+  }
+  return { tool, path: pattern, decision };
+}
+
+/**
+ * Parses saved rules into policy rules, deny rules first so they win.
+ * @throws Error if a rule is malformed
+ */
+export function parsePermissionRules(rules: PermissionRules): PermissionRule[] {
+  return [
+    ...(rules.deny ?? []).map((rule) => parsePermissionRule(rule, 'deny')),
+    ...(rules.allow ?? []).map((rule) => parsePermissionRule(rule, 'allow')),
+  ];
+}
+
+/**
+ * Checks a tool call against saved rules, parsed by `parsePermissionRules`.
+ * @returns the matching evaluation, or undefined when no rule decides
+ */
+export function evaluatePermissionRules(
+  policyRules: PermissionRule[],
+  toolName: string,
+  args: Record<string, unknown>,
+  targetDir: string,
+  mcpTool?: McpToolIdentity,
+  toolPaths?: string[],
+): PermissionEvaluation | undefined {
+  if (policyRules.length === 0) {
+    return undefined;
+  }
+  const evaluation = evaluatePermission(
+    { rules: policyRules },
+    toolName,
+    args,
+    targetDir,
+    mcpTool,
+    toolPaths,
+  );
+  return evaluation.rule ? evaluation : undefined;
+}
+
+/**
+ * The rule saved for "Always allow" on a shell command: its root command
+ * plus the first subcommand, e.g. `npm test -- --watch` gives
+ * `run_shell_command(npm test:*)`. Without a subcommand, e.g. for
+ * `rm -rf build`, only the exact command is allowed, as a rule for the
+ * root alone would allow every future `rm`.
+ */
+export function getShellCommandRule(command: string): string {
+  const words = command.trim().split(/\s+/);
+  const root = getCommandRoot(command) ?? words[0];
+  const subcommand = words[1];
+  if (subcommand && /^[\w][\w.:-]*$/.test(subcommand)) {
+    return `${ToolNames.SHELL}(${root} ${subcommand}:*)`;
+  }
+  return `${ToolNames.SHELL}(${words.join(' ')})`;
+}
+
+/**
+ * The rule saved for "Always allow" on a file edit: the top-level project
+ * directory holding the file, e.g. `edit(src/**)`, or `edit(*)` for files
+ * in the project root.
+ */
+export function getPathRule(
+  toolName: string,
+  filePath: string,
+  targetDir: string,
+): string {
+  const directory = path.dirname(path.resolve(targetDir, filePath));
+  const relative = path.relative(targetDir, directory);
+  if (relative.startsWith('..') || path.isAbsolute(relative)) {
+    return `${toolName}(${directory.split(path.sep).join('/')}/**)`;
+  }
+  const topLevel = relative.split(path.sep)[0];
+  return topLevel ? `${toolName}(${topLevel}/**)` : `${toolName}(*)`;
+}
+
+/** `mcp:server/tool`, or `mcp:server/*` for every tool of the server */
+export function getMcpRule(
+  serverName: string,
+  serverToolName?: string,
+): string {
+  return `mcp:${serverName}/${serverToolName ?? '*'}`;
+}
+
+export function getMcpToolIdentity(
+  tool: AnyDeclarativeTool,
+): McpToolIdentity | undefined {
+  return tool instanceof DiscoveredMCPTool
+    ? { serverName: tool.serverName, serverToolName: tool.serverToolName }
+    : undefined;
+}
+
+/**
+ * The rules to save when the user answers "Always allow" for a tool call.
+ * Shell command parts that existing rules already allow are skipped, and
+ * file edits get a rule for the directory of every file they change.
+ */
+export function getAlwaysAllowRules(
+  tool: AnyDeclarativeTool,
+  invocation: AnyToolInvocation,
+  outcome: ToolConfirmationOutcome,
+  rules: PermissionRule[],
+  targetDir: string,
+): string[] {
+  const mcpTool = getMcpToolIdentity(tool);
+  if (mcpTool) {
+    if (outcome === ToolConfirmationOutcome.ProceedAlwaysServer) {
+      return [getMcpRule(mcpTool.serverName)];
+    }
+    if (outcome === ToolConfirmationOutcome.ProceedAlwaysTool) {
+      return [getMcpRule(mcpTool.serverName, mcpTool.serverToolName)];
+    }
+    return [];
+  }
+  if (outcome !== ToolConfirmationOutcome.ProceedAlways) {
+    return [];
+  }
+
+  const command = (invocation.params as Record<string, unknown>)['command'];
+  if (tool.name === ToolNames.SHELL && typeof command === 'string') {
+    const parts = splitCommands(stripShellWrapper(command)).filter(
+      (part) =>
+        evaluatePermissionRules(rules, tool.name, { command: part }, targetDir)
+          ?.decision !== 'allow',
+    );
+    return [...new Set(parts.map(getShellCommandRule))];
+  }
+  if (tool.kind === Kind.Edit) {
+    const paths = invocation.toolLocations().map(({ path: file }) => file);
+    return [
+      ...new Set(paths.map((file) => getPathRule(tool.name, file, targetDir))),
+    ];
+  }
+  return [];
+}
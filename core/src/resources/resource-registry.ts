@@ -0,0 +1,208 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import type {
+  DiscoveredMCPResource,
+  DiscoveredMCPResourceTemplate,
+} from '../tools/mcp-client.js';
+import { getErrorMessage } from '../utils/errors.js';
+
+/** A resource that no server, or no template of the server, offers */
+export class ResourceNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ResourceNotFoundError';
+  }
+}
+
+function resourceKey(serverName: string, uri: string): string {
+  return `${serverName}\0${uri}`;
+}
+
+export class ResourceRegistry {
+  private resources: Map<string, DiscoveredMCPResource> = new Map();
+  private templates: DiscoveredMCPResourceTemplate[] = [];
+  /** Contents of subscribed resources, kept until the server updates them */
+  private contents: Map<string, ReadResourceResult> = new Map();
+  private subscriptions: Set<string> = new Set();
+  /** Counts updates, so a read that overlaps an update is not cached */
+  private updates: Map<string, number> = new Map();
+
+  /**
+   * Registers a resource listed by a server.
+   * @param resource - The resource with the server it comes from.
+   */
+  registerResource(resource: DiscoveredMCPResource): void {
+    this.resources.set(
+      resourceKey(resource.serverName, resource.uri),
+      resource,
+    );
+  }
+
+  /**
+   * Registers a resource template, whose URIs can be read from its server.
+   */
+  registerResourceTemplate(template: DiscoveredMCPResourceTemplate): void {
+    this.templates.push(template);
+  }
+
+  /**
+   * Returns all resources, by server and URI.
+   */
+  getAllResources(): DiscoveredMCPResource[] {
+    return Array.from(this.resources.values()).sort(
+      (a, b) =>
+        a.serverName.localeCompare(b.serverName) || a.uri.localeCompare(b.uri),
+    );
+  }
+
+  /**
+   * Returns the resources listed by a specific MCP server.
+   */
+  getResourcesByServer(serverName: string): DiscoveredMCPResource[] {
+    return this.getAllResources().filter(
+      (resource) => resource.serverName === serverName,
+    );
+  }
+
+  /**
+   * Returns the resource templates of a specific MCP server.
+   */
+  getResourceTemplatesByServer(
+    serverName: string,
+  ): DiscoveredMCPResourceTemplate[] {
+    return this.templates
+      .filter((template) => template.serverName === serverName)
+      .sort((a, b) => a.uriTemplate.localeCompare(b.uriTemplate));
+  }
+
+  /**
+   * Returns the names of the servers with resources or resource templates.
+   */
+  getServerNames(): string[] {
+    const names = new Set<string>();
+    for (const resource of this.resources.values()) {
+      names.add(resource.serverName);
+    }
+    for (const template of this.templates) {
+      names.add(template.serverName);
+    }
+    return Array.from(names).sort();
+  }
+
+  /**
+   * Get a resource listed by a server.
+   */
+  getResource(
+    serverName: string,
+    uri: string,
+  ): DiscoveredMCPResource | undefined {
+    return this.resources.get(resourceKey(serverName, uri));
+  }
+
+  /**
+   * Reads a resource listed by a server, or a URI matching one of its
+   * templates. A resource the server can subscribe to is read once and then
+   * served from memory until the server reports an update.
+   * @throws ResourceNotFoundError if the server offers no such resource
+   */
+  async readResource(
+    serverName: string,
+    uri: string,
+  ): Promise<ReadResourceResult> {
+    const key = resourceKey(serverName, uri);
+    const resource = this.resources.get(key);
+    if (!resource) {
+      const template = this.findTemplate(serverName, uri);
+      if (!template) {
+        throw new ResourceNotFoundError(
+          `MCP server '${serverName}' has no resource '${uri}' and no resource template that matches it.`,
+        );
+      }
+      return template.read(uri);
+    }
+
+    const cached = this.contents.get(key);
+    if (cached) {
+      return cached;
+    }
+    let subscribed = this.subscriptions.has(key);
+    if (!subscribed && resource.subscribe) {
+      try {
+        await resource.subscribe();
+        this.subscriptions.add(key);
+        subscribed = true;
+      } catch (error) {
+        // Without updates the contents cannot be kept, but can still be read
+        console.debug(
+          `Could not subscribe to resource '${uri}' of MCP server '${serverName}': ${getErrorMessage(error)}`,
+        );
+      }
+    }
+    const updates = this.updates.get(key) ?? 0;
+    const result = await resource.read();
+    if (subscribed && (this.updates.get(key) ?? 0) === updates) {
+      this.contents.set(key, result);
+    }
+    return result;
+  }
+
+  /**
+   * Drops the kept contents of a resource the server reported as updated.
+   */
+  invalidateResource(serverName: string, uri: string): void {
+    const key = resourceKey(serverName, uri);
+    this.contents.delete(key);
+    this.updates.set(key, (this.updates.get(key) ?? 0) + 1);
+  }
+
+  /**
+   * Clears all the resources and templates from the registry.
+   */
+  clear(): void {
+    this.resources.clear();
+    this.templates = [];
+    this.contents.clear();
+    this.subscriptions.clear();
+    this.updates.clear();
+  }
+
+  /**
+   * Removes all resources and templates from a specific server.
+   */
+  removeResourcesByServer(serverName: string): void {
+    for (const [key, resource] of this.resources.entries()) {
+      if (resource.serverName === serverName) {
+        this.resources.delete(key);
+        this.contents.delete(key);
+        this.subscriptions.delete(key);
+        this.updates.delete(key);
+      }
+    }
+    this.templates = this.templates.filter(
+      (template) => template.serverName !== serverName,
+    );
+  }
+
+  private findTemplate(
+    serverName: string,
+    uri: string,
+  ): DiscoveredMCPResourceTemplate | undefined {
+    return this.templates.find((template) => {
+      if (template.serverName !== serverName) {
+        return false;
+      }
+      try {
+        return new UriTemplate(template.uriTemplate).match(uri) !== null;
+      } catch {
+        // The server sent a template that does not parse
+        return false;
+      }
+    });
+  }
+}
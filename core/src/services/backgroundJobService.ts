@@ -0,0 +1,331 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ShellOutputEvent } from './shellExecutionService.js';
+import { ShellExecutionService } from './shellExecutionService.js';
+
+/** Output kept per job; older output is dropped first */
+const MAX_BUFFERED_CHARS = 256 * 1024;
+/** Output returned by a single read unless the caller asks for less */
+export const DEFAULT_MAX_READ_CHARS = 30_000;
+
+export type BackgroundJobStatus = 'running' | 'exited' | 'killed' | 'failed';
+
+export interface BackgroundJobInfo {
+  id: number;
+  command: string;
+  cwd: string;
+  /** Process group of the job's shell */
+  pid: number | undefined;
+  status: BackgroundJobStatus;
+  exitCode: number | null;
+  signal: number | null;
+  /** Why the job failed to start, if it did */
+  error?: string;
+  startTime: number;
+  endTime?: number;
+  /** Output written since the last read */
+  unreadChars: number;
+}
+
+export interface BackgroundJobOutput {
+  stdout: string;
+  stderr: string;
+  /** Pass to the next read to get only newer output */
+  cursor: number;
+  /** Output between the requested cursor and the returned text that was skipped */
+  skippedChars: number;
+}
+
+/** One line describing a job, e.g. `[1] running (PID 4242, 3m 5s) npm run dev` */
+export function describeBackgroundJob(job: BackgroundJobInfo): string {
+  const seconds = Math.round(
+    ((job.endTime ?? Date.now()) - job.startTime) / 1000,
+  );
+  const duration =
+    seconds >= 60
+      ? `${Math.floor(seconds / 60)}m ${seconds % 60}s`
+      : `${seconds}s`;
+  let status: string = job.status;
+  if (job.status === 'exited') {
+    status = `exited with code ${job.exitCode ?? '(none)'}`;
+  } else if (job.status === 'failed') {
+    status = `failed: ${job.error ?? 'unknown error'}`;
+  }
+  return `[${job.id}] ${status} (PID ${job.pid ?? '?'}, ${duration}) ${job.command}`;
+}
+
+interface OutputChunk {
+  /** Offset of the chunk's first character in the job's whole output */
+  start: number;
+  stream: 'stdout' | 'stderr';
+  text: string;
+}
+
+/**
+ * Keeps the most recent output of a job, with stdout and stderr chunks in
+ * the order they arrived. Offsets count every character ever written, so a
+ * cursor stays valid after older chunks are dropped.
+ */
+class OutputBuffer {
+  private chunks: OutputChunk[] = [];
+  private bufferedChars = 0;
+  private end = 0;
+
+  get length(): number {
+    return this.end;
+  }
+
+  append(stream: 'stdout' | 'stderr', text: string): void {
+    if (!text) {
+      return;
+    }
+    this.chunks.push({ start: this.end, stream, text });
+    this.end += text.length;
+    this.bufferedChars += text.length;
+
+    while (this.bufferedChars > MAX_BUFFERED_CHARS) {
+      const first = this.chunks[0];
+      const excess = this.bufferedChars - MAX_BUFFERED_CHARS;
+      if (first.text.length <= excess) {
+        this.chunks.shift();
+        this.bufferedChars -= first.text.length;
+      } else {
+        this.chunks[0] = {
+          ...first,
+          start: first.start + excess,
+          text: first.text.slice(excess),
+        };
+        this.bufferedChars -= excess;
+      }
+    }
+  }
+
+  read(cursor: number, maxChars: number): BackgroundJobOutput {
+    const from = Math.max(cursor, this.end - maxChars, 0);
+    let stdout = '';
+    let stderr = '';
+    let firstAvailable = this.end;
+    for (const chunk of this.chunks) {
+      const chunkEnd = chunk.start + chunk.text.length;
+      if (chunkEnd <= from) {
+        continue;
+      }
+      firstAvailable = Math.min(firstAvailable, Math.max(chunk.start, from));
+      const text = chunk.text.slice(Math.max(0, from - chunk.start));
+      if (chunk.stream === 'stdout') {
+        stdout += text;
+      } else {
+        stderr += text;
+      }
+    }
+    return {
+      stdout,
+      stderr,
+      cursor: this.end,
+      skippedChars: Math.max(0, firstAvailable - Math.max(cursor, 0)),
+    };
+  }
+}
+
+interface BackgroundJob {
+  info: Omit<BackgroundJobInfo, 'unreadChars'>;
+  output: OutputBuffer;
+  /** Where the last read without an explicit cursor ended */
+  readCursor: number;
+  abortController: AbortController;
+  result: Promise<void>;
+}
+
+export type BackgroundJobsListener = () => void;
+
+/**
+ * Runs shell commands in the background for the rest of the session and
+ * keeps their recent output, so the model can check on a dev server or a
+ * test watcher and stop it when done. Running jobs are killed when the
+ * process exits.
+ */
+export class BackgroundJobService {
+  private readonly jobs = new Map<number, BackgroundJob>();
+  private readonly listeners = new Set<BackgroundJobsListener>();
+  private nextId = 1;
+  private exitHandlerRegistered = false;
+
+  start(command: string, cwd: string): BackgroundJobInfo {
+    const id = this.nextId++;
+    const abortController = new AbortController();
+    const output = new OutputBuffer();
+
+    const handle = ShellExecutionService.executeInBackground(
+      command,
+      cwd,
+      (event: ShellOutputEvent) => {
+        if (event.type === 'data') {
+          output.append(event.stream ?? 'stdout', event.chunk);
+        } else if (event.type === 'binary_detected') {
+          output.append('stderr', '[Binary output detected, not shown]\n');
+        }
+      },
+      abortController.signal,
+    );
+
+    const job: BackgroundJob = {
+      info: {
+        id,
+        command,
+        cwd,
+        pid: handle.pid,
+        status: 'running',
+        exitCode: null,
+        signal: null,
+        startTime: Date.now(),
+      },
+      output,
+      readCursor: 0,
+      abortController,
+      result: handle.result.then((result) => {
+        job.info = {
+          ...job.info,
+          status: result.error
+            ? 'failed'
+            : result.aborted
+              ? 'killed'
+              : 'exited',
+          exitCode: result.exitCode,
+          signal: result.signal,
+          error: result.error?.message,
+          endTime: Date.now(),
+        };
+        this.notify();
+      }),
+    };
+    this.jobs.set(id, job);
+    this.registerExitHandler();
+    this.notify();
+    return this.toInfo(job);
+  }
+
+  list(): BackgroundJobInfo[] {
+    return [...this.jobs.values()].map((job) => this.toInfo(job));
+  }
+
+  get(id: number): BackgroundJobInfo | undefined {
+    const job = this.jobs.get(id);
+    return job && this.toInfo(job);
+  }
+
+  getRunningCount(): number {
+    return [...this.jobs.values()].filter(
+      (job) => job.info.status === 'running',
+    ).length;
+  }
+
+  /**
+   * Reads a job's output after `cursor`, or after the previous read when no
+   * cursor is given. At most `maxChars` of the newest output is returned.
+   */
+  readOutput(
+    id: number,
+    cursor?: number,
+    maxChars: number = DEFAULT_MAX_READ_CHARS,
+  ): BackgroundJobOutput | undefined {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return undefined;
+    }
+    const result = job.output.read(cursor ?? job.readCursor, maxChars);
+    job.readCursor = Math.max(job.readCursor, result.cursor);
+    return result;
+  }
+
+  /**
+   * Returns the newest `maxChars` of a job's output without marking it as
+   * read, e.g. for showing it to the user.
+   */
+  peekOutput(id: number, maxChars: number): BackgroundJobOutput | undefined {
+    return this.jobs.get(id)?.output.read(0, maxChars);
+  }
+
+  /**
+   * Waits until the job exits or `timeoutMs` passes, whichever is first.
+   */
+  async waitForExit(
+    id: number,
+    timeoutMs: number,
+  ): Promise<BackgroundJobInfo | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return undefined;
+    }
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      job.result,
+      new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, timeoutMs);
+      }),
+    ]);
+    clearTimeout(timer);
+    return this.toInfo(job);
+  }
+
+  /**
+   * Stops a running job and its child processes.
+   * @returns the job once it has exited, or undefined if there is no such job
+   */
+  async kill(id: number): Promise<BackgroundJobInfo | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return undefined;
+    }
+    if (job.info.status === 'running') {
+      job.abortController.abort();
+      await job.result;
+    }
+    return this.toInfo(job);
+  }
+
+  /** Sends every running job a termination signal without waiting */
+  killAll(): void {
+    for (const job of this.jobs.values()) {
+      if (job.info.status === 'running') {
+        job.abortController.abort();
+      }
+    }
+  }
+
+  /**
+   * Calls `listener` whenever a job starts or finishes.
+   * @returns a function that removes the listener
+   */
+  subscribe(listener: BackgroundJobsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private toInfo(job: BackgroundJob): BackgroundJobInfo {
+    return {
+      ...job.info,
+      unreadChars: job.output.length - job.readCursor,
+    };
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+
+  private registerExitHandler(): void {
+    if (this.exitHandlerRegistered) {
+      return;
+    }
+    this.exitHandlerRegistered = true;
+    // Jobs run in their own process group and would otherwise outlive us
+    process.on('exit', () => this.killAll());
+  }
+}
@@ -7,11 +7,12 @@
 import { type Config } from '../config/config.js';
 import { type Status } from '../core/coreToolScheduler.js';
 import { type ThoughtSummary } from '../core/turn.js';
+import { type FileDiff } from '../tools/tools.js';
 import { getProjectHash } from '../utils/paths.js';
 import path from 'node:path';
 import fs from 'node:fs';
 import { randomUUID } from 'node:crypto';
-import type { PartListUnion } from '@google/genai';
+import type { Content, Part, PartListUnion } from '@google/genai';
 
 /**
  * Token usage summary for a message or conversation.
@@ -48,6 +49,8 @@ export interface ToolCallRecord {
   displayName?: string;
   description?: string;
   resultDisplay?: string;
+  /** Unified diff of a file edit, for exports and history */
+  fileDiff?: Pick<FileDiff, 'fileName' | 'fileDiff' | 'diffStat'>;
   renderOutputAsMarkdown?: boolean;
 }
 
@@ -77,6 +80,8 @@ export type MessageRecord = BaseMessageRecord & ConversationRecordExtra;
 export interface ConversationRecord {
   sessionId: string;
   projectHash: string;
+  /** Absolute project root, for browsing sessions across projects */
+  projectRoot?: string;
   startTime: string;
   lastUpdated: string;
   messages: MessageRecord[];
@@ -90,6 +95,171 @@ export interface ResumedSessionData {
   filePath: string;
 }
 
+/**
+ * Summary of a recorded session, for listing and picking sessions to resume.
+ */
+export interface SessionSummary {
+  sessionId: string;
+  filePath: string;
+  startTime: string;
+  lastUpdated: string;
+  messageCount: number;
+  /** First user message, for display */
+  firstUserMessage: string;
+}
+
+/** A session file and the conversation recorded in it */
+export interface SessionFile {
+  filePath: string;
+  conversation: ConversationRecord;
+}
+
+const CHATS_DIR_NAME = 'chats';
+
+/** The directory of a project's session files, in its temp directory */
+export function getChatsDir(projectTempDir: string): string {
+  return path.join(projectTempDir, CHATS_DIR_NAME);
+}
+
+/**
+ * Reads the session files in a chats directory, most recently updated
+ * first. Unreadable files are skipped.
+ */
+export function readSessionFiles(chatsDir: string): SessionFile[] {
+  let files: string[];
+  try {
+    files = fs
+      .readdirSync(chatsDir)
+      .filter((file) => file.startsWith('session-') && file.endsWith('.json'));
+  } catch {
+    return [];
+  }
+
+  const sessions: SessionFile[] = [];
+  for (const file of files) {
+    const filePath = path.join(chatsDir, file);
+    try {
+      const conversation: ConversationRecord = JSON.parse(
+        fs.readFileSync(filePath, 'utf8'),
+      );
+      sessions.push({ filePath, conversation });
+    } catch {
+      // Skip corrupt or partially written session files
+    }
+  }
+  return sessions.sort((a, b) =>
+    b.conversation.lastUpdated.localeCompare(a.conversation.lastUpdated),
+  );
+}
+
+/**
+ * The session with the given ID, or else the first whose ID starts with it
+ */
+export function findSessionFile(
+  sessions: SessionFile[],
+  sessionIdOrPrefix: string,
+): SessionFile | undefined {
+  return (
+    sessions.find(
+      ({ conversation }) => conversation.sessionId === sessionIdOrPrefix,
+    ) ??
+    sessions.find(({ conversation }) =>
+      conversation.sessionId.startsWith(sessionIdOrPrefix),
+    )
+  );
+}
+
+/**
+ * Lists recorded sessions for the current project, most recently updated first.
+ * Unreadable files are skipped.
+ */
+export function listSessions(config: Config): SessionSummary[] {
+  return readSessionFiles(getChatsDir(config.storage.getProjectTempDir())).map(
+    ({ filePath, conversation }) => ({
+      sessionId: conversation.sessionId,
+      filePath,
+      startTime: conversation.startTime,
+      lastUpdated: conversation.lastUpdated,
+      messageCount: conversation.messages.length,
+      firstUserMessage:
+        conversation.messages.find((message) => message.type === 'user')
+          ?.content ?? '',
+    }),
+  );
+}
+
+/**
+ * Loads a recorded session for resuming.
+ * @param sessionId Full session ID, a unique prefix of one, or 'latest'
+ */
+export function loadSession(
+  config: Config,
+  sessionId: string,
+): ResumedSessionData | undefined {
+  const sessions = readSessionFiles(
+    getChatsDir(config.storage.getProjectTempDir()),
+  );
+  return sessionId === 'latest'
+    ? sessions[0]
+    : findSessionFile(sessions, sessionId);
+}
+
+/**
+ * Rebuilds model history from a recorded conversation. Tool calls become
+ * functionCall parts on the model turn, followed by a user turn carrying
+ * their recorded results. Thoughts are not replayed.
+ */
+export function conversationToHistory(
+  conversation: ConversationRecord,
+): Content[] {
+  const history: Content[] = [];
+  for (const message of conversation.messages) {
+    if (message.type === 'user') {
+      if (message.content) {
+        history.push({ role: 'user', parts: [{ text: message.content }] });
+      }
+      continue;
+    }
+
+    const parts: Part[] = message.content ? [{ text: message.content }] : [];
+    const toolResults: Part[] = [];
+    for (const toolCall of message.toolCalls ?? []) {
+      parts.push({
+        functionCall: { id: toolCall.id, name: toolCall.name, args: toolCall.args },
+      });
+      toolResults.push(...toolResultParts(toolCall));
+    }
+    if (parts.length > 0) {
+      history.push({ role: 'model', parts });
+    }
+    if (toolResults.length > 0) {
+      history.push({ role: 'user', parts: toolResults });
+    }
+  }
+  return history;
+}
+
+function toolResultParts(toolCall: ToolCallRecord): Part[] {
+  const result = toolCall.result;
+  const parts = (Array.isArray(result) ? result : result ? [result] : []).map(
+    (part): Part => (typeof part === 'string' ? { text: part } : part),
+  );
+  if (parts.some((part) => part.functionResponse)) {
+    return parts;
+  }
+  // Every functionCall needs a matching functionResponse, even if the call never finished
+  return [
+    {
+      functionResponse: {
+        id: toolCall.id,
+        name: toolCall.name,
+        response: { output: toolCall.resultDisplay ?? `Tool call ${toolCall.status}.` },
+      },
+    },
+    ...parts,
+  ];
+}
+
 /**
  * Service for automatically recording chat conversations to disk.
  *
@@ -119,6 +289,7 @@ export class ChatRecordingService {
   /**
    * Initializes the chat recording service: creates a new conversation file and associates it with
    * this service instance, or resumes from an existing session if resumedSessionData is provided.
+   * Initializing again without resumedSessionData starts a new session with a fresh ID.
    */
   initialize(resumedSessionData?: ResumedSessionData): void {
     try {
@@ -136,9 +307,11 @@ export class ChatRecordingService {
         this.cachedLastConvData = null;
       } else {
         // Create new session
-        const chatsDir = path.join(
+        if (this.conversationFile) {
+          this.sessionId = randomUUID();
+        }
+        const chatsDir = getChatsDir(
           this.config.storage.getProjectTempDir(),
-          'chats',
         );
         fs.mkdirSync(chatsDir, { recursive: true });
 
@@ -151,10 +324,12 @@ export class ChatRecordingService {
           8,
         )}.json`;
         this.conversationFile = path.join(chatsDir, filename);
+        this.cachedLastConvData = null;
 
         this.writeConversation({
           sessionId: this.sessionId,
           projectHash: this.projectHash,
+          projectRoot: this.config.getProjectRoot(),
           startTime: new Date().toISOString(),
           lastUpdated: new Date().toISOString(),
           messages: [],
@@ -170,6 +345,20 @@ export class ChatRecordingService {
     }
   }
 
+  /**
+   * The ID of the session currently being recorded.
+   */
+  getSessionId(): string {
+    return this.sessionId;
+  }
+
+  /**
+   * Path of the session file being recorded (it is only written once there is a message).
+   */
+  getConversationFilePath(): string | null {
+    return this.conversationFile;
+  }
+
   private getLastMessage(
     conversation: ConversationRecord,
   ): MessageRecord | undefined {
@@ -379,6 +568,7 @@ export class ChatRecordingService {
       return {
         sessionId: this.sessionId,
         projectHash: this.projectHash,
+        projectRoot: this.config.getProjectRoot(),
         startTime: new Date().toISOString(),
         lastUpdated: new Date().toISOString(),
         messages: [],
@@ -425,12 +615,14 @@ export class ChatRecordingService {
    */
   deleteSession(sessionId: string): void {
     try {
-      const chatsDir = path.join(
-        this.config.storage.getProjectTempDir(),
-        'chats',
+      // Session files are named by start time, so look the file up by ID
+      const session = listSessions(this.config).find(
+        (summary) => summary.sessionId === sessionId,
       );
-      const sessionPath = path.join(chatsDir, `${sessionId}.json`);
-      fs.unlinkSync(sessionPath);
+      if (!session) {
+        throw new Error(`Session not found: ${sessionId}`);
+      }
+      fs.unlinkSync(session.filePath);
     } catch (error) {
       console.error('Error deleting session:', error);
       throw error;
@@ -0,0 +1,479 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { Config } from '../config/config.js';
+import { chunkFile, isChunkableFile } from '../utils/codeChunker.js';
+import type { CodeChunk } from '../utils/codeChunker.js';
+import { crawl } from '../utils/filesearch/crawler.js';
+import { AbortError } from '../utils/filesearch/fileSearch.js';
+import { loadIgnoreRules } from '../utils/filesearch/ignore.js';
+
+/** Bump when the chunking or the stored format changes */
+const INDEX_VERSION = 1;
+const INDEX_FILE_NAME = 'code-index.json';
+/** Texts sent in one embedding request */
+const EMBED_BATCH_SIZE = 32;
+/** Characters of a chunk that are embedded */
+const MAX_EMBED_CHARS = 4000;
+/** Larger files are usually generated or data, so they are not indexed */
+const MAX_FILE_BYTES = 512 * 1024;
+/** Files with longer lines on average are minified and not indexed */
+const MAX_AVERAGE_LINE_LENGTH = 300;
+/** Newly indexed files between saves, so an interrupted build keeps them */
+const SAVE_INTERVAL_FILES = 200;
+/** Skipped even when not ignored by .gitignore */
+const ALWAYS_SKIPPED_DIRS = [
+  'node_modules',
+  'dist',
+  'coverage',
+  '__pycache__',
+  '.venv',
+  'venv',
+];
+
+export interface CodeSearchResult {
+  /** Relative to the project root, with forward slashes */
+  filePath: string;
+  /** 1-based, inclusive */
+  startLine: number;
+  /** 1-based, inclusive */
+  endLine: number;
+  symbol?: string;
+  /** Cosine similarity to the query, from -1 to 1 */
+  score: number;
+  text: string;
+}
+
+export interface CodeSearchOptions {
+  /** Results to return, defaults to 10 */
+  limit?: number;
+  /** Only search this file or directory, relative to the project root */
+  pathPrefix?: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: CodeIndexProgress) => void;
+}
+
+/** Reported while changed files are embedded */
+export interface CodeIndexProgress {
+  indexedFiles: number;
+  totalFiles: number;
+}
+
+export interface CodeIndexStats {
+  files: number;
+  chunks: number;
+}
+
+interface IndexedChunk {
+  startLine: number;
+  endLine: number;
+  symbol?: string;
+  /** Normalized to unit length, so a dot product is the cosine similarity */
+  vector: Float32Array;
+}
+
+interface IndexedFile {
+  mtimeMs: number;
+  size: number;
+  chunks: IndexedChunk[];
+}
+
+interface StoredIndex {
+  version: number;
+  embeddingKey: string;
+  files: Record<
+    string,
+    {
+      mtimeMs: number;
+      size: number;
+      chunks: Array<Omit<IndexedChunk, 'vector'> & { vector: string }>;
+    }
+  >;
+}
+
+interface PendingFile {
+  filePath: string;
+  mtimeMs: number;
+  size: number;
+  chunks: CodeChunk[];
+}
+
+/**
+ * An embedding index of the project's source files, for finding code by
+ * what it does rather than by name. Files are split into symbol-sized
+ * chunks and embedded with the active content generator. The index is kept
+ * in the project temp dir and brought up to date before every search, so
+ * only files added or changed since then are embedded again.
+ */
+export class CodeIndexService {
+  private files = new Map<string, IndexedFile>();
+  private loaded = false;
+  private running: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly config: Config) {}
+
+  /**
+   * Embeds files that changed since the last refresh and drops deleted ones.
+   */
+  async refresh(
+    options: Pick<CodeSearchOptions, 'signal' | 'onProgress'> = {},
+  ): Promise<CodeIndexStats> {
+    // One refresh at a time; a second caller waits and then finds little to do
+    const refresh = this.running.then(() => this.doRefresh(options));
+    this.running = refresh.catch(() => undefined);
+    await refresh;
+    return this.getStats();
+  }
+
+  /**
+   * Returns the chunks most similar in meaning to `query`, best first.
+   */
+  async search(
+    query: string,
+    options: CodeSearchOptions = {},
+  ): Promise<CodeSearchResult[]> {
+    const { limit = 10, signal } = options;
+    await this.refresh(options);
+
+    const [queryVector] = await this.embed([query], signal);
+    const prefix = options.pathPrefix
+      ? normalizePathPrefix(options.pathPrefix)
+      : '';
+    const scored: Array<{
+      filePath: string;
+      chunk: IndexedChunk;
+      score: number;
+    }> = [];
+    for (const [filePath, file] of this.files) {
+      if (prefix && filePath !== prefix && !filePath.startsWith(`${prefix}/`)) {
+        continue;
+      }
+      for (const chunk of file.chunks) {
+        if (chunk.vector.length !== queryVector.length) {
+          throw new Error(
+            'The code index was built with a different embedding model. Delete it to rebuild: ' +
+              this.getIndexPath(),
+          );
+        }
+        scored.push({ filePath, chunk, score: dot(queryVector, chunk.vector) });
+      }
+    }
+    scored.sort((a, b) => b.score - a.score);
+
+    const root = this.config.getTargetDir();
+    const fileLines = new Map<string, string[]>();
+    const results: CodeSearchResult[] = [];
+    for (const { filePath, chunk, score } of scored.slice(0, limit)) {
+      let lines = fileLines.get(filePath);
+      if (!lines) {
+        try {
+          const content = await fs.readFile(path.join(root, filePath), 'utf8');
+          lines = content.split(/\r?\n/);
+        } catch {
+          continue;
+        }
+        fileLines.set(filePath, lines);
+      }
+      results.push({
+        filePath,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        symbol: chunk.symbol,
+        score,
+        text: lines.slice(chunk.startLine - 1, chunk.endLine).join('\n'),
+      });
+    }
+    return results;
+  }
+
+  getStats(): CodeIndexStats {
+    let chunks = 0;
+    for (const file of this.files.values()) {
+      chunks += file.chunks.length;
+    }
+    return { files: this.files.size, chunks };
+  }
+
+  getIndexPath(): string {
+    return path.join(this.config.storage.getProjectTempDir(), INDEX_FILE_NAME);
+  }
+
+  private async doRefresh({
+    signal,
+    onProgress,
+  }: Pick<CodeSearchOptions, 'signal' | 'onProgress'>): Promise<void> {
+    await this.load();
+    const root = this.config.getTargetDir();
+    const filePaths = await this.listFiles();
+    let changed = false;
+
+    const present = new Set(filePaths);
+    for (const filePath of this.files.keys()) {
+      if (!present.has(filePath)) {
+        this.files.delete(filePath);
+        changed = true;
+      }
+    }
+
+    const stale: Array<Omit<PendingFile, 'chunks'>> = [];
+    for (const filePath of filePaths) {
+      let stat;
+      try {
+        stat = await fs.stat(path.join(root, filePath));
+      } catch {
+        continue;
+      }
+      const known = this.files.get(filePath);
+      if (
+        !known ||
+        known.mtimeMs !== stat.mtimeMs ||
+        known.size !== stat.size
+      ) {
+        stale.push({ filePath, mtimeMs: stat.mtimeMs, size: stat.size });
+      }
+    }
+    if (stale.length === 0) {
+      if (changed) {
+        await this.save();
+      }
+      return;
+    }
+
+    let pending: PendingFile[] = [];
+    let pendingChunks = 0;
+    let indexedFiles = 0;
+    let unsavedFiles = 0;
+    const flush = async () => {
+      const texts = pending.flatMap((file) =>
+        file.chunks.map((chunk) => toEmbeddingText(file.filePath, chunk)),
+      );
+      const vectors: Float32Array[] = [];
+      for (let i = 0; i < texts.length; i += EMBED_BATCH_SIZE) {
+        vectors.push(
+          ...(await this.embed(texts.slice(i, i + EMBED_BATCH_SIZE), signal)),
+        );
+      }
+      let next = 0;
+      for (const file of pending) {
+        this.files.set(file.filePath, {
+          mtimeMs: file.mtimeMs,
+          size: file.size,
+          chunks: file.chunks.map((chunk) => ({
+            startLine: chunk.startLine,
+            endLine: chunk.endLine,
+            symbol: chunk.symbol,
+            vector: vectors[next++],
+          })),
+        });
+      }
+      indexedFiles += pending.length;
+      unsavedFiles += pending.length;
+      pending = [];
+      pendingChunks = 0;
+      onProgress?.({ indexedFiles, totalFiles: stale.length });
+      if (unsavedFiles >= SAVE_INTERVAL_FILES) {
+        await this.save();
+        unsavedFiles = 0;
+      }
+    };
+
+    try {
+      onProgress?.({ indexedFiles, totalFiles: stale.length });
+      for (const file of stale) {
+        if (signal?.aborted) {
+          throw new AbortError();
+        }
+        const chunks = await readChunks(path.join(root, file.filePath));
+        pending.push({ ...file, chunks });
+        pendingChunks += chunks.length;
+        if (pendingChunks >= EMBED_BATCH_SIZE) {
+          await flush();
+        }
+      }
+      if (pending.length > 0) {
+        await flush();
+      }
+    } finally {
+      // Keep what was embedded even when the refresh was interrupted
+      if (changed || indexedFiles > 0) {
+        await this.save();
+      }
+    }
+  }
+
+  /** Source files of the project that are not ignored */
+  private async listFiles(): Promise<string[]> {
+    const root = this.config.getTargetDir();
+    const { respectGitIgnore = true, respectGeminiIgnore = true } =
+      this.config.getFileFilteringOptions();
+    const entries = await crawl({
+      crawlDirectory: root,
+      cwd: root,
+      ignore: loadIgnoreRules({
+        projectRoot: root,
+        useGitignore: respectGitIgnore,
+        useGeminiignore: respectGeminiIgnore,
+        ignoreDirs: ALWAYS_SKIPPED_DIRS,
+      }),
+      cache: false,
+      cacheTtl: 0,
+    });
+    const files = entries.filter(
+      (entry) => !entry.endsWith('/') && isChunkableFile(entry),
+    );
+    return this.config
+      .getFileService()
+      .filterFiles(files, { respectGitIgnore, respectGeminiIgnore });
+  }
+
+  private async embed(
+    texts: string[],
+    signal?: AbortSignal,
+  ): Promise<Float32Array[]> {
+    const vectors = await this.config
+      .getGeminiClient()
+      .generateEmbedding(texts, signal);
+    return vectors.map(normalize);
+  }
+
+  /** Identifies the embeddings, which are not comparable across models */
+  private getEmbeddingKey(): string {
+    const generatorConfig = this.config.getContentGeneratorConfig();
+    return `${generatorConfig?.authType ?? 'default'}:${this.config.getEmbeddingModel()}`;
+  }
+
+  private async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+    let stored: StoredIndex;
+    try {
+      stored = JSON.parse(await fs.readFile(this.getIndexPath(), 'utf8'));
+    } catch {
+      return;
+    }
+    if (
+      stored.version !== INDEX_VERSION ||
+      stored.embeddingKey !== this.getEmbeddingKey()
+    ) {
+      return;
+    }
+    for (const [filePath, file] of Object.entries(stored.files)) {
+      this.files.set(filePath, {
+        mtimeMs: file.mtimeMs,
+        size: file.size,
+        chunks: file.chunks.map((chunk) => ({
+          ...chunk,
+          vector: decodeVector(chunk.vector),
+        })),
+      });
+    }
+  }
+
+  private async save(): Promise<void> {
+    const stored: StoredIndex = {
+      version: INDEX_VERSION,
+      embeddingKey: this.getEmbeddingKey(),
+      files: {},
+    };
+    for (const [filePath, file] of this.files) {
+      stored.files[filePath] = {
+        mtimeMs: file.mtimeMs,
+        size: file.size,
+        chunks: file.chunks.map((chunk) => ({
+          ...chunk,
+          vector: encodeVector(chunk.vector),
+        })),
+      };
+    }
+    const indexPath = this.getIndexPath();
+    await fs.mkdir(path.dirname(indexPath), { recursive: true });
+    // Written aside and renamed, so a crash never leaves half an index
+    const tempPath = `${indexPath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(stored));
+    await fs.rename(tempPath, indexPath);
+  }
+}
+
+/**
+ * Chunks of a file, or none for files that are too large, binary or
+ * minified, so they are remembered without being read again.
+ */
+async function readChunks(filePath: string): Promise<CodeChunk[]> {
+  let content: string;
+  try {
+    const stat = await fs.stat(filePath);
+    if (stat.size > MAX_FILE_BYTES) {
+      return [];
+    }
+    content = await fs.readFile(filePath, 'utf8');
+  } catch {
+    return [];
+  }
+  if (content.includes('\0')) {
+    return [];
+  }
+  const lineCount = content.split('\n').length;
+  if (content.length / lineCount > MAX_AVERAGE_LINE_LENGTH) {
+    return [];
+  }
+  return chunkFile(filePath, content);
+}
+
+/** The path and symbol go first, as they say most about the code */
+function toEmbeddingText(filePath: string, chunk: CodeChunk): string {
+  const header = chunk.symbol ? `${filePath} ${chunk.symbol}` : filePath;
+  return `${header}\n${chunk.text}`.slice(0, MAX_EMBED_CHARS);
+}
+
+function normalizePathPrefix(prefix: string): string {
+  return prefix
+    .split(path.sep)
+    .join('/')
+    .replace(/^\.\/?/, '')
+    .replace(/\/+$/, '');
+}
+
+function normalize(values: number[]): Float32Array {
+  const vector = Float32Array.from(values);
+  let norm = 0;
+  for (const value of vector) {
+    norm += value * value;
+  }
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) {
+      vector[i] /= norm;
+    }
+  }
+  return vector;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+function encodeVector(vector: Float32Array): string {
+  return Buffer.from(
+    vector.buffer,
+    vector.byteOffset,
+    vector.byteLength,
+  ).toString('base64');
+}
+
+function decodeVector(encoded: string): Float32Array {
+  // Copied, as a pooled Buffer may not be aligned for a Float32Array
+  return new Float32Array(
+    new Uint8Array(Buffer.from(encoded, 'base64')).buffer,
+  );
+}
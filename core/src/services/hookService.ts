@@ -0,0 +1,322 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { spawn } from 'node:child_process';
+import os from 'node:os';
+import type { Config } from '../config/config.js';
+
+export const HOOK_EVENT_NAMES = [
+  'UserPromptSubmit',
+  'PreToolUse',
+  'PostToolUse',
+  'PreCompact',
+  'SessionStart',
+  'Stop',
+] as const;
+
+export type HookEventName = (typeof HOOK_EVENT_NAMES)[number];
+
+/**
+ * A command run at a lifecycle event. It receives the event as JSON on
+ * stdin and may print a {@link HookOutput} as JSON on stdout.
+ */
+export interface HookDefinition {
+  /**
+   * Regular expression for the tool name (PreToolUse and PostToolUse only),
+   * e.g. `write_file|edit`. Empty or `*` matches every tool.
+   */
+  matcher?: string;
+  /** Shell command, run from the project root */
+  command: string;
+  /** Seconds before the command is killed. Defaults to 60. */
+  timeout?: number;
+}
+
+export type HooksSettings = Partial<Record<HookEventName, HookDefinition[]>>;
+
+export type HookEventInput =
+  | { hookEventName: 'UserPromptSubmit'; prompt: string }
+  | {
+      hookEventName: 'PreToolUse';
+      toolName: string;
+      toolInput: Record<string, unknown>;
+      /** Absolute paths of the files the call touches, e.g. all of a patch's */
+      toolPaths: string[];
+    }
+  | {
+      hookEventName: 'PostToolUse';
+      toolName: string;
+      toolInput: Record<string, unknown>;
+      toolResponse: { success: boolean; output?: string; error?: string };
+      durationMs: number;
+    }
+  | { hookEventName: 'PreCompact'; trigger: 'auto' | 'manual' }
+  | { hookEventName: 'SessionStart'; source: 'startup' | 'resume' | 'clear' }
+  | {
+      hookEventName: 'Stop';
+      /** True when the agent is already continuing because a Stop hook blocked */
+      stopHookActive: boolean;
+    };
+
+/** What a hook may print on stdout. Every field is optional. */
+export interface HookOutput {
+  /**
+   * `block` stops the prompt, tool call or compression, or makes the agent
+   * continue for Stop. `allow` skips the approval prompt for PreToolUse.
+   */
+  decision?: 'allow' | 'block';
+  /** Shown to the user, or sent to the model for PostToolUse and Stop */
+  reason?: string;
+  /** Replacement arguments for the tool call (PreToolUse only) */
+  toolInput?: Record<string, unknown>;
+  /** Text added to the model's context */
+  additionalContext?: string;
+}
+
+/** The combined outcome of every hook that ran for an event */
+export interface HookResult {
+  decision?: 'allow' | 'block';
+  reason?: string;
+  toolInput?: Record<string, unknown>;
+  additionalContext?: string;
+}
+
+/** A hook that exits with this code blocks, with stderr as the reason */
+const BLOCKING_EXIT_CODE = 2;
+const DEFAULT_TIMEOUT_SECONDS = 60;
+
+/** Events whose plain-text stdout is added to the model's context */
+const CONTEXT_EVENTS: readonly HookEventName[] = [
+  'UserPromptSubmit',
+  'SessionStart',
+];
+
+/**
+ * Checks hooks loaded from settings.
+ * @throws Error describing the first problem found
+ */
+export function validateHooks(hooks: HooksSettings): void {
+  for (const [event, definitions] of Object.entries(hooks)) {
+    if (!HOOK_EVENT_NAMES.includes(event as HookEventName)) {
+      throw new Error(
+        `unknown event "${event}", expected one of ${HOOK_EVENT_NAMES.join(', ')}`,
+      );
+    }
+    if (!Array.isArray(definitions)) {
+      throw new Error(`${event} must be an array`);
+    }
+    definitions.forEach((definition, index) => {
+      if (typeof definition?.command !== 'string' || !definition.command) {
+        throw new Error(`${event}[${index}].command must be a string`);
+      }
+      if (definition.matcher) {
+        try {
+          new RegExp(definition.matcher);
+        } catch {
+          throw new Error(
+            `${event}[${index}].matcher is not a valid regular expression`,
+          );
+        }
+      }
+    });
+  }
+}
+
+function matchesTool(matcher: string | undefined, toolName: string): boolean {
+  if (!matcher || matcher === '*') {
+    return true;
+  }
+  return new RegExp(`^(?:${matcher})$`).test(toolName);
+}
+
+interface CommandResult {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+}
+
+/**
+ * Runs user-configured shell commands at points of the agent loop: when a
+ * prompt is submitted, around tool calls, before chat compression, at the
+ * start of a session and when the agent stops.
+ *
+ * Exit code 0 means success and stdout is parsed as {@link HookOutput}
+ * when it is JSON. Exit code 2 blocks, with stderr as the reason. Any other
+ * exit code is reported and ignored.
+ */
+export class HookService {
+  constructor(private readonly config: Config) {}
+
+  hasHooks(event: HookEventName, toolName?: string): boolean {
+    return this.getHooks(event, toolName).length > 0;
+  }
+
+  /**
+   * Runs the hooks for an event one after another. The first block wins,
+   * replaced tool arguments are passed on to the next hook, and additional
+   * context is joined.
+   */
+  async run(input: HookEventInput, signal?: AbortSignal): Promise<HookResult> {
+    const toolName = 'toolName' in input ? input.toolName : undefined;
+    const hooks = this.getHooks(input.hookEventName, toolName);
+    const result: HookResult = {};
+    const context: string[] = [];
+    let currentInput = input;
+
+    for (const hook of hooks) {
+      if (signal?.aborted) {
+        break;
+      }
+      const output = await this.runHook(hook, currentInput, signal);
+      if (!output) {
+        continue;
+      }
+      if (output.additionalContext) {
+        context.push(output.additionalContext);
+      }
+      if (output.toolInput && currentInput.hookEventName === 'PreToolUse') {
+        result.toolInput = output.toolInput;
+        currentInput = { ...currentInput, toolInput: output.toolInput };
+      }
+      if (output.decision === 'block') {
+        result.decision = 'block';
+        result.reason =
+          output.reason ||
+          `Blocked by ${input.hookEventName} hook: ${hook.command}`;
+        break;
+      }
+      if (output.decision === 'allow') {
+        result.decision = 'allow';
+        result.reason = output.reason;
+      }
+    }
+
+    if (context.length > 0) {
+      result.additionalContext = context.join('\n\n');
+    }
+    return result;
+  }
+
+  private getHooks(event: HookEventName, toolName?: string): HookDefinition[] {
+    const hooks = this.config.getHooks()[event] ?? [];
+    if (toolName === undefined) {
+      return hooks;
+    }
+    return hooks.filter((hook) => matchesTool(hook.matcher, toolName));
+  }
+
+  private async runHook(
+    hook: HookDefinition,
+    input: HookEventInput,
+    signal?: AbortSignal,
+  ): Promise<HookOutput | undefined> {
+    const payload = JSON.stringify({
+      sessionId: this.config.getSessionId(),
+      cwd: this.config.getTargetDir(),
+      ...input,
+    });
+    let result: CommandResult;
+    try {
+      result = await this.runCommand(
+        hook.command,
+        payload,
+        (hook.timeout ?? DEFAULT_TIMEOUT_SECONDS) * 1000,
+        signal,
+      );
+    } catch (error) {
+      console.warn(
+        `${input.hookEventName} hook "${hook.command}" failed to start: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return undefined;
+    }
+
+    if (result.timedOut) {
+      console.warn(
+        `${input.hookEventName} hook "${hook.command}" timed out and was ignored.`,
+      );
+      return undefined;
+    }
+    if (result.exitCode === BLOCKING_EXIT_CODE) {
+      return { decision: 'block', reason: result.stderr.trim() };
+    }
+    if (result.exitCode !== 0) {
+      console.warn(
+        `${input.hookEventName} hook "${hook.command}" exited with code ${result.exitCode}: ${result.stderr.trim()}`,
+      );
+      return undefined;
+    }
+
+    const stdout = result.stdout.trim();
+    if (!stdout) {
+      return {};
+    }
+    if (stdout.startsWith('{')) {
+      try {
+        return JSON.parse(stdout) as HookOutput;
+      } catch {
+        console.warn(
+          `${input.hookEventName} hook "${hook.command}" printed invalid JSON.`,
+        );
+        return undefined;
+      }
+    }
+    return CONTEXT_EVENTS.includes(input.hookEventName)
+      ? { additionalContext: stdout }
+      : {};
+  }
+
+  private runCommand(
+    command: string,
+    stdin: string,
+    timeoutMs: number,
+    signal?: AbortSignal,
+  ): Promise<CommandResult> {
+    return new Promise((resolve, reject) => {
+      const isWindows = os.platform() === 'win32';
+      const child = spawn(command, [], {
+        cwd: this.config.getTargetDir(),
+        stdio: ['pipe', 'pipe', 'pipe'],
+        shell: isWindows ? true : 'bash',
+        env: {
+          ...process.env,
+          QWEN_CODE: '1',
+        },
+      });
+
+      let stdout = '';
+      let stderr = '';
+      let timedOut = false;
+      const kill = () => child.kill('SIGTERM');
+      const timer = setTimeout(() => {
+        timedOut = true;
+        kill();
+      }, timeoutMs);
+      signal?.addEventListener('abort', kill, { once: true });
+
+      child.stdout.on('data', (data: Buffer) => {
+        stdout += data.toString();
+      });
+      child.stderr.on('data', (data: Buffer) => {
+        stderr += data.toString();
+      });
+      // A hook that does not read its input must not fail the write
+      child.stdin.on('error', () => {});
+      child.stdin.end(stdin);
+
+      child.on('error', (error) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', kill);
+        reject(error);
+      });
+      child.on('close', (exitCode) => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', kill);
+        resolve({ exitCode, stdout, stderr, timedOut });
+      });
+    });
+  }
+}
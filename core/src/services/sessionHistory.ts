@@ -0,0 +1,370 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { Storage } from '../config/storage.js';
+import { getProjectHash } from '../utils/paths.js';
+import { getModelPricing } from '../utils/modelPricing.js';
+import type {
+  ConversationRecord,
+  MessageRecord,
+  SessionFile,
+  TokensSummary,
+} from './chatRecordingService.js';
+import {
+  findSessionFile,
+  getChatsDir,
+  readSessionFiles,
+} from './chatRecordingService.js';
+
+const SNIPPET_RADIUS = 60;
+const MAX_MATCHES_PER_SESSION = 20;
+
+/**
+ * Filters for browsing recorded sessions. All fields combine with AND.
+ */
+export interface SessionHistoryQuery {
+  /** Only sessions of this project root; all projects when undefined */
+  projectRoot?: string;
+  /** Case-insensitive full-text search over messages and tool calls */
+  text?: string;
+  since?: Date;
+  until?: Date;
+  /** Case-insensitive substring of a model used in the session */
+  model?: string;
+  limit?: number;
+}
+
+export interface SessionHistoryMatch {
+  messageId: string;
+  timestamp: string;
+  source: 'user' | 'gemini' | 'tool';
+  /** Tool name when the match is in a tool call */
+  toolName?: string;
+  snippet: string;
+}
+
+export interface ModelUsage {
+  messages: number;
+  tokens: number;
+  /** USD, or undefined when the model has no known pricing */
+  cost?: number;
+}
+
+export interface SessionHistoryEntry {
+  sessionId: string;
+  filePath: string;
+  projectHash: string;
+  projectRoot?: string;
+  startTime: string;
+  lastUpdated: string;
+  messageCount: number;
+  firstUserMessage: string;
+  tokens: TokensSummary;
+  /** USD, or undefined when no model used has known pricing */
+  cost?: number;
+  models: Record<string, ModelUsage>;
+  /** Number of calls per tool name */
+  tools: Record<string, number>;
+  /** Matching messages when the query has a text search */
+  matches: SessionHistoryMatch[];
+}
+
+export interface SessionHistoryStats {
+  sessionCount: number;
+  messageCount: number;
+  toolCallCount: number;
+  tokens: TokensSummary;
+  cost?: number;
+  models: Record<string, ModelUsage>;
+  tools: Record<string, number>;
+}
+
+function emptyTokens(): TokensSummary {
+  return { input: 0, output: 0, cached: 0, thoughts: 0, tool: 0, total: 0 };
+}
+
+function addTokens(target: TokensSummary, tokens: TokensSummary): void {
+  target.input += tokens.input;
+  target.output += tokens.output;
+  target.cached += tokens.cached;
+  target.thoughts = (target.thoughts ?? 0) + (tokens.thoughts ?? 0);
+  target.tool = (target.tool ?? 0) + (tokens.tool ?? 0);
+  target.total += tokens.total;
+}
+
+function addCost(
+  total: number | undefined,
+  cost: number | undefined,
+): number | undefined {
+  return cost === undefined ? total : (total ?? 0) + cost;
+}
+
+function addModelUsage(
+  target: Record<string, ModelUsage>,
+  model: string,
+  usage: ModelUsage,
+): void {
+  const existing = (target[model] ??= { messages: 0, tokens: 0 });
+  existing.messages += usage.messages;
+  existing.tokens += usage.tokens;
+  existing.cost = addCost(existing.cost, usage.cost);
+}
+
+/**
+ * Cost of a message's tokens. Thoughts are billed as output; cached input is
+ * billed at the full prompt price, so providers with cache discounts are
+ * slightly overestimated.
+ */
+function getMessageCost(
+  model: string | undefined,
+  tokens: TokensSummary,
+): number | undefined {
+  const pricing = model ? getModelPricing(model) : undefined;
+  if (!pricing) {
+    return undefined;
+  }
+  const output = tokens.output + (tokens.thoughts ?? 0);
+  return (
+    (tokens.input * pricing.promptPrice + output * pricing.completionPrice) /
+    1_000_000
+  );
+}
+
+function getChatsDirs(projectRoot?: string): string[] {
+  const tempDir = Storage.getGlobalTempDir();
+  if (projectRoot) {
+    const projectHash = getProjectHash(path.resolve(projectRoot));
+    return [getChatsDir(path.join(tempDir, projectHash))];
+  }
+  try {
+    return fs
+      .readdirSync(tempDir, { withFileTypes: true })
+      .filter((entry) => entry.isDirectory())
+      .map((entry) => getChatsDir(path.join(tempDir, entry.name)));
+  } catch {
+    return [];
+  }
+}
+
+/** Session files of one project, or of all projects when undefined */
+function readProjectSessionFiles(projectRoot?: string): SessionFile[] {
+  return getChatsDirs(projectRoot).flatMap(readSessionFiles);
+}
+
+function makeSnippet(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  const snippet = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+}
+
+function findMatches(
+  message: MessageRecord,
+  needle: string,
+): SessionHistoryMatch[] {
+  const matches: SessionHistoryMatch[] = [];
+  const search = (
+    text: string,
+    source: SessionHistoryMatch['source'],
+    toolName?: string,
+  ) => {
+    const index = text.toLowerCase().indexOf(needle);
+    if (index !== -1) {
+      matches.push({
+        messageId: message.id,
+        timestamp: message.timestamp,
+        source,
+        toolName,
+        snippet: makeSnippet(text, index, needle.length),
+      });
+    }
+  };
+
+  search(message.content, message.type);
+  if (message.type === 'gemini') {
+    // Tool arguments carry file paths and commands, which is what people
+    // usually search for ("what touched this file")
+    for (const toolCall of message.toolCalls ?? []) {
+      search(
+        [
+          toolCall.description ?? '',
+          JSON.stringify(toolCall.args),
+          toolCall.resultDisplay ?? '',
+        ].join('\n'),
+        'tool',
+        toolCall.name,
+      );
+    }
+  }
+  return matches;
+}
+
+function isInRange(timestamp: string, query: SessionHistoryQuery): boolean {
+  const time = Date.parse(timestamp);
+  return (
+    (!query.since || time >= query.since.getTime()) &&
+    (!query.until || time <= query.until.getTime())
+  );
+}
+
+function summarizeSession(
+  filePath: string,
+  conversation: ConversationRecord,
+  query: SessionHistoryQuery,
+): SessionHistoryEntry {
+  const entry: SessionHistoryEntry = {
+    sessionId: conversation.sessionId,
+    filePath,
+    projectHash: conversation.projectHash,
+    projectRoot: conversation.projectRoot,
+    startTime: conversation.startTime,
+    lastUpdated: conversation.lastUpdated,
+    messageCount: conversation.messages.length,
+    firstUserMessage:
+      conversation.messages.find((message) => message.type === 'user')
+        ?.content ?? '',
+    tokens: emptyTokens(),
+    models: {},
+    tools: {},
+    matches: [],
+  };
+  const needle = query.text?.toLowerCase();
+
+  for (const message of conversation.messages) {
+    if (message.type === 'gemini') {
+      const cost = message.tokens
+        ? getMessageCost(message.model, message.tokens)
+        : undefined;
+      if (message.tokens) {
+        addTokens(entry.tokens, message.tokens);
+        entry.cost = addCost(entry.cost, cost);
+      }
+      addModelUsage(entry.models, message.model || 'unknown', {
+        messages: 1,
+        tokens: message.tokens?.total ?? 0,
+        cost,
+      });
+      for (const toolCall of message.toolCalls ?? []) {
+        entry.tools[toolCall.name] = (entry.tools[toolCall.name] ?? 0) + 1;
+      }
+    }
+
+    // Date filters also narrow which messages match, so a search scoped to
+    // one day does not surface hits from later in a long-running session
+    if (
+      needle &&
+      entry.matches.length < MAX_MATCHES_PER_SESSION &&
+      isInRange(message.timestamp, query)
+    ) {
+      entry.matches.push(...findMatches(message, needle));
+    }
+  }
+  entry.matches = entry.matches.slice(0, MAX_MATCHES_PER_SESSION);
+  return entry;
+}
+
+/**
+ * Finds recorded sessions matching a query, most recently updated first.
+ */
+export function findSessions(
+  query: SessionHistoryQuery = {},
+): SessionHistoryEntry[] {
+  const model = query.model?.toLowerCase();
+  const entries: SessionHistoryEntry[] = [];
+
+  for (const { filePath, conversation } of readProjectSessionFiles(
+    query.projectRoot,
+  )) {
+    // Keep sessions that overlap the date window at all
+    if (
+      (query.since &&
+        Date.parse(conversation.lastUpdated) < query.since.getTime()) ||
+      (query.until &&
+        Date.parse(conversation.startTime) > query.until.getTime())
+    ) {
+      continue;
+    }
+
+    const entry = summarizeSession(filePath, conversation, query);
+    if (query.text && entry.matches.length === 0) {
+      continue;
+    }
+    if (
+      model &&
+      !Object.keys(entry.models).some((name) =>
+        name.toLowerCase().includes(model),
+      )
+    ) {
+      continue;
+    }
+    entries.push(entry);
+  }
+
+  entries.sort((a, b) => b.lastUpdated.localeCompare(a.lastUpdated));
+  return query.limit !== undefined ? entries.slice(0, query.limit) : entries;
+}
+
+/**
+ * Loads a recorded session by ID or ID prefix.
+ * @param projectRoot Restricts the lookup to one project; all projects when undefined
+ */
+export function getSessionRecord(
+  sessionIdOrPrefix: string,
+  projectRoot?: string,
+): SessionFile | undefined {
+  return findSessionFile(
+    readProjectSessionFiles(projectRoot),
+    sessionIdOrPrefix,
+  );
+}
+
+/**
+ * Deletes a recorded session by ID or ID prefix.
+ * @returns The ID of the deleted session, or undefined if none matched
+ */
+export function deleteSessionRecord(
+  sessionIdOrPrefix: string,
+  projectRoot?: string,
+): string | undefined {
+  const session = getSessionRecord(sessionIdOrPrefix, projectRoot);
+  if (!session) {
+    return undefined;
+  }
+  fs.unlinkSync(session.filePath);
+  return session.conversation.sessionId;
+}
+
+/**
+ * Totals tokens, cost, model and tool usage over a set of sessions.
+ */
+export function getSessionHistoryStats(
+  sessions: SessionHistoryEntry[],
+): SessionHistoryStats {
+  const stats: SessionHistoryStats = {
+    sessionCount: sessions.length,
+    messageCount: 0,
+    toolCallCount: 0,
+    tokens: emptyTokens(),
+    models: {},
+    tools: {},
+  };
+
+  for (const session of sessions) {
+    stats.messageCount += session.messageCount;
+    addTokens(stats.tokens, session.tokens);
+    stats.cost = addCost(stats.cost, session.cost);
+    for (const [model, usage] of Object.entries(session.models)) {
+      addModelUsage(stats.models, model, usage);
+    }
+    for (const [tool, count] of Object.entries(session.tools)) {
+      stats.tools[tool] = (stats.tools[tool] ?? 0) + count;
+      stats.toolCallCount += count;
+    }
+  }
+  return stats;
+}
@@ -65,6 +65,8 @@ export type ShellOutputEvent =
       type: 'data';
       /** The decoded string chunk. */
       chunk: string;
+      /** The stream the chunk came from, when stdout and stderr are separate. */
+      stream?: 'stdout' | 'stderr';
     }
   | {
       /** Signals that the output stream has been identified as binary. */
@@ -129,11 +131,38 @@ export class ShellExecutionService {
     );
   }
 
+  /**
+   * Starts a long-running command, e.g. a dev server or a test watcher. Its
+   * output is only streamed to `onOutputEvent`, one chunk per `data` event
+   * tagged with its stream, and is not kept in the result, so the caller
+   * decides how much of it to hold on to.
+   *
+   * @param commandToExecute The exact command string to run.
+   * @param cwd The working directory to execute the command in.
+   * @param onOutputEvent A callback for streaming structured events about the execution.
+   * @param abortSignal An AbortSignal to terminate the process and its children.
+   */
+  static executeInBackground(
+    commandToExecute: string,
+    cwd: string,
+    onOutputEvent: (event: ShellOutputEvent) => void,
+    abortSignal: AbortSignal,
+  ): ShellExecutionHandle {
+    return this.childProcessFallback(
+      commandToExecute,
+      cwd,
+      onOutputEvent,
+      abortSignal,
+      false,
+    );
+  }
+
   private static childProcessFallback(
     commandToExecute: string,
     cwd: string,
     onOutputEvent: (event: ShellOutputEvent) => void,
     abortSignal: AbortSignal,
+    retainOutput = true,
   ): ShellExecutionHandle {
     try {
       const isWindows = os.platform() === 'win32';
@@ -178,7 +207,11 @@ export class ShellExecutionService {
             }
           }
 
-          outputChunks.push(data);
+          // Without retained output only the chunks needed to sniff for
+          // binary content are kept
+          if (retainOutput || sniffedBytes < MAX_SNIFF_SIZE) {
+            outputChunks.push(data);
+          }
 
           if (isStreamingRawContent && sniffedBytes < MAX_SNIFF_SIZE) {
             const sniffBuffer = Buffer.concat(outputChunks.slice(0, 20));
@@ -194,14 +227,16 @@ export class ShellExecutionService {
           const decodedChunk = decoder.decode(data, { stream: true });
           const strippedChunk = stripAnsi(decodedChunk);
 
-          if (stream === 'stdout') {
-            stdout += strippedChunk;
-          } else {
-            stderr += strippedChunk;
+          if (retainOutput) {
+            if (stream === 'stdout') {
+              stdout += strippedChunk;
+            } else {
+              stderr += strippedChunk;
+            }
           }
 
           if (isStreamingRawContent) {
-            onOutputEvent({ type: 'data', chunk: strippedChunk });
+            onOutputEvent({ type: 'data', chunk: strippedChunk, stream });
           } else {
             const totalBytes = outputChunks.reduce(
               (sum, chunk) => sum + chunk.length,
@@ -117,6 +117,8 @@ GUIDELINES:
 - Add comments for complex logic
 - NEVER create documentation files unless explicitly requested
 - Test your changes mentally before finalizing`,
+      // Edits land in a worktree so several can run at once
+      runConfig: { isolation: 'worktree' },
     },
 
     // ============================================
@@ -185,6 +187,8 @@ GUIDELINES:
 - Use the project's testing framework
 - Include comments for complex test scenarios
 - Test behavior, not implementation details`,
+      // Edits land in a worktree so several can run at once
+      runConfig: { isolation: 'worktree' },
     },
 
     // ============================================
@@ -46,12 +46,17 @@ export type {
   PromptConfig,
   ModelConfig,
   RunConfig,
+  SubagentIsolation,
   ToolConfig,
   SubagentTerminateMode,
 } from './types.js';
 
 export { SubAgentScope } from './subagent.js';
 
+// Git worktree isolation
+export { SubagentWorktree } from './subagent-worktree.js';
+export type { SubagentWorktreeResult } from './subagent-worktree.js';
+
 // Event system for UI integration
 export type {
   SubAgentEvent,
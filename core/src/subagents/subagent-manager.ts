@@ -27,6 +27,7 @@ import type {
 import { SubagentError, SubagentErrorCode } from './types.js';
 import { SubagentValidator } from './validation.js';
 import { SubAgentScope } from './subagent.js';
+import { SubagentWorktree } from './subagent-worktree.js';
 import type { Config } from '../config/config.js';
 import { BuiltinAgentRegistry } from './builtin-agents.js';
 
@@ -527,6 +528,10 @@ export class SubagentManager {
   /**
    * Creates a SubAgentScope from a subagent configuration.
    *
+   * With `runConfig.isolation: 'worktree'`, the scope runs in a new git
+   * worktree, which the caller finishes through `scope.worktree` when the
+   * run is over. Outside a git repository it runs in the working tree.
+   *
    * @param config - Subagent configuration
    * @param runtimeContext - Runtime context
    * @returns Promise resolving to SubAgentScope
@@ -542,6 +547,15 @@ export class SubagentManager {
     try {
       const runtimeConfig = this.convertToRuntimeConfig(config);
 
+      let worktree: SubagentWorktree | null = null;
+      if (runtimeConfig.runConfig.isolation === 'worktree') {
+        worktree = await SubagentWorktree.create(runtimeContext, config.name);
+        if (worktree) {
+          runtimeContext = worktree.config;
+          runtimeConfig.promptConfig.systemPrompt += `\n\nYou are working in an isolated git worktree at ${worktree.config.getTargetDir()}, a copy of the project made for this task. Only read and write files there. Do not commit, push or switch branches: when you finish, your changes are handed back as a patch for review.`;
+        }
+      }
+
       return await SubAgentScope.create(
         config.name,
         runtimeContext,
@@ -551,6 +565,7 @@ export class SubagentManager {
         runtimeConfig.toolConfig,
         options?.eventEmitter,
         options?.hooks,
+        worktree ?? undefined,
       );
     } catch (error) {
       if (error instanceof Error) {
@@ -0,0 +1,235 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { randomBytes } from 'node:crypto';
+import { simpleGit, type SimpleGit } from 'simple-git';
+import type { Config } from '../config/config.js';
+import { findGitRoot } from '../utils/gitUtils.js';
+
+/**
+ * Commits in a worktree are made with a fixed identity, so they work without
+ * a configured git user and are easy to tell apart from the user's own.
+ */
+const COMMIT_OPTIONS = [
+  '-c',
+  'user.name=Recoder',
+  '-c',
+  'user.email=recoder@localhost',
+  '-c',
+  'commit.gpgsign=false',
+];
+
+/** Result of a subagent's work in a worktree, for the parent to merge. */
+export interface SubagentWorktreeResult {
+  /** Whether the subagent changed any files */
+  hasChanges: boolean;
+  /** Branch holding the subagent's commit; deleted when there are no changes */
+  branch: string;
+  /** Patch of the changes that applies to the parent's working tree */
+  patchPath?: string;
+  /** `git diff --stat` of the changes */
+  diffStat: string;
+  /** The changes as a unified diff */
+  diff: string;
+}
+
+// `git worktree add` locks the repository, so worktrees are created one at a
+// time when several subagents start together
+let pendingCreate: Promise<unknown> = Promise.resolve();
+
+/**
+ * A temporary git worktree in which one subagent makes its changes. It starts
+ * from the parent's working tree as it is, including uncommitted and
+ * untracked files, and its file tools are confined to it through a config
+ * view. When the subagent is done, `finish()` commits its changes to a
+ * branch, writes them to a patch and removes the worktree.
+ */
+export class SubagentWorktree {
+  private constructor(
+    /** Root of the worktree */
+    readonly dir: string,
+    readonly branch: string,
+    /** Config rooted at the worktree, for the subagent to run with */
+    readonly config: Config,
+    /** Root of the repository the worktree belongs to */
+    readonly repoRoot: string,
+    private readonly baseCommit: string,
+    private readonly patchPath: string,
+  ) {}
+
+  /**
+   * Creates a worktree for a run of `subagentName`.
+   * @returns the worktree, or null if the project is not a git repository
+   *   with at least one commit
+   */
+  static async create(
+    config: Config,
+    subagentName: string,
+  ): Promise<SubagentWorktree | null> {
+    const create = pendingCreate.then(() =>
+      SubagentWorktree.doCreate(config, subagentName),
+    );
+    pendingCreate = create.catch(() => undefined);
+    return create;
+  }
+
+  private static async doCreate(
+    config: Config,
+    subagentName: string,
+  ): Promise<SubagentWorktree | null> {
+    const targetDir = path.resolve(config.getTargetDir());
+    const repoRoot = findGitRoot(targetDir);
+    if (!repoRoot) {
+      return null;
+    }
+    const repo = simpleGit(repoRoot);
+    try {
+      await repo.raw(['rev-parse', '--verify', 'HEAD']);
+    } catch {
+      return null;
+    }
+
+    const id = `${subagentName}-${Date.now().toString(36)}-${randomBytes(3).toString('hex')}`;
+    const worktreesDir = path.join(
+      config.storage.getProjectTempDir(),
+      'worktrees',
+    );
+    const dir = path.join(worktreesDir, id);
+    const branch = `recoder/${id}`;
+    await fs.mkdir(worktreesDir, { recursive: true });
+    await repo.raw(['worktree', 'add', '-b', branch, dir, 'HEAD']);
+
+    try {
+      const worktree = simpleGit(dir);
+      if (await copyWorkingTreeState(repo, repoRoot, dir, worktreesDir, id)) {
+        await worktree.raw(['add', '-A']);
+        await worktree.raw([
+          ...COMMIT_OPTIONS,
+          'commit',
+          '--no-verify',
+          '-m',
+          'Snapshot of the working tree',
+        ]);
+      }
+      const baseCommit = (await worktree.raw(['rev-parse', 'HEAD'])).trim();
+      const view = config.createWorkspaceView(
+        path.join(dir, path.relative(repoRoot, targetDir)),
+      );
+      return new SubagentWorktree(
+        dir,
+        branch,
+        view,
+        repoRoot,
+        baseCommit,
+        path.join(worktreesDir, `${id}.patch`),
+      );
+    } catch (error) {
+      await removeWorktree(repo, dir, branch);
+      throw error;
+    }
+  }
+
+  /**
+   * Commits the subagent's changes to the branch, writes them to a patch and
+   * removes the worktree. Without changes, the branch is removed as well.
+   */
+  async finish(message: string): Promise<SubagentWorktreeResult> {
+    // Language servers started in the worktree would keep its files open
+    await this.config.getLspService().stopAll();
+    const repo = simpleGit(this.repoRoot);
+    const worktree = simpleGit(this.dir);
+    await worktree.raw(['add', '-A']);
+    const status = await worktree.raw(['status', '--porcelain']);
+    if (!status.trim()) {
+      await removeWorktree(repo, this.dir, this.branch);
+      return { hasChanges: false, branch: this.branch, diffStat: '', diff: '' };
+    }
+
+    await worktree.raw([
+      ...COMMIT_OPTIONS,
+      'commit',
+      '--no-verify',
+      '-m',
+      message,
+    ]);
+    const diff = await worktree.raw([
+      'diff',
+      '--binary',
+      this.baseCommit,
+      'HEAD',
+    ]);
+    const diffStat = await worktree.raw([
+      'diff',
+      '--stat',
+      this.baseCommit,
+      'HEAD',
+    ]);
+    await fs.writeFile(this.patchPath, diff);
+    await repo.raw(['worktree', 'remove', '--force', this.dir]);
+    return {
+      hasChanges: true,
+      branch: this.branch,
+      patchPath: this.patchPath,
+      diffStat: diffStat.trimEnd(),
+      diff,
+    };
+  }
+}
+
+/**
+ * Brings uncommitted changes and untracked, non-ignored files of the main
+ * working tree into the new worktree.
+ * @returns whether anything was copied
+ */
+async function copyWorkingTreeState(
+  repo: SimpleGit,
+  repoRoot: string,
+  dir: string,
+  worktreesDir: string,
+  id: string,
+): Promise<boolean> {
+  let copied = false;
+  const changes = await repo.raw(['diff', '--binary', 'HEAD']);
+  if (changes.trim()) {
+    const changesPath = path.join(worktreesDir, `${id}.base.patch`);
+    await fs.writeFile(changesPath, changes);
+    try {
+      await simpleGit(dir).raw(['apply', '--binary', changesPath]);
+    } finally {
+      await fs.rm(changesPath, { force: true });
+    }
+    copied = true;
+  }
+
+  const untracked = await repo.raw([
+    'ls-files',
+    '--others',
+    '--exclude-standard',
+    '-z',
+  ]);
+  for (const file of untracked.split('\0').filter(Boolean)) {
+    const destination = path.join(dir, file);
+    await fs.mkdir(path.dirname(destination), { recursive: true });
+    await fs.cp(path.join(repoRoot, file), destination, { recursive: true });
+    copied = true;
+  }
+  return copied;
+}
+
+async function removeWorktree(
+  repo: SimpleGit,
+  dir: string,
+  branch: string,
+): Promise<void> {
+  try {
+    await repo.raw(['worktree', 'remove', '--force', dir]);
+    await repo.raw(['branch', '-D', branch]);
+  } catch {
+    // Leftovers are cleaned up by `git worktree prune`
+  }
+}
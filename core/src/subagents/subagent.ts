@@ -52,6 +52,7 @@ import {
   type SubagentStatsSummary,
 } from './subagent-statistics.js';
 import type { SubagentHooks } from './subagent-hooks.js';
+import type { SubagentWorktree } from './subagent-worktree.js';
 import { logSubagentExecution } from '../telemetry/loggers.js';
 import { SubagentExecutionEvent } from '../telemetry/types.js';
 import { TaskTool } from '../tools/task.js';
@@ -198,6 +199,7 @@ export class SubAgentScope {
    * @param modelConfig - Configuration for the generative model parameters.
    * @param runConfig - Configuration for the subagent's execution environment.
    * @param toolConfig - Optional configuration for tools available to the subagent.
+   * @param worktree - The git worktree the subagent works in, if isolated.
    */
   private constructor(
     readonly name: string,
@@ -208,6 +210,7 @@ export class SubAgentScope {
     private readonly toolConfig?: ToolConfig,
     eventEmitter?: SubAgentEventEmitter,
     hooks?: SubagentHooks,
+    readonly worktree?: SubagentWorktree,
   ) {
     const randomPart = Math.random().toString(36).slice(2, 8);
     this.subagentId = `${this.name}-${randomPart}`;
@@ -225,6 +228,7 @@ export class SubAgentScope {
    * @param {ModelConfig} modelConfig - Configuration for the generative model parameters.
    * @param {RunConfig} runConfig - Configuration for the subagent's execution environment.
    * @param {ToolConfig} [toolConfig] - Optional configuration for tools.
+   * @param {SubagentWorktree} [worktree] - The git worktree the subagent works in, if isolated.
    * @returns {Promise<SubAgentScope>} A promise that resolves to a valid SubAgentScope instance.
    * @throws {Error} If any tool requires user confirmation.
    */
@@ -237,6 +241,7 @@ export class SubAgentScope {
     toolConfig?: ToolConfig,
     eventEmitter?: SubAgentEventEmitter,
     hooks?: SubagentHooks,
+    worktree?: SubagentWorktree,
   ): Promise<SubAgentScope> {
     return new SubAgentScope(
       name,
@@ -247,6 +252,7 @@ export class SubAgentScope {
       toolConfig,
       eventEmitter,
       hooks,
+      worktree,
     );
   }
 
@@ -257,4 +257,14 @@ export interface RunConfig {
    * before the execution is terminated. Helps prevent infinite loops.
    */
   max_turns?: number;
+  /**
+   * Where the subagent makes its changes. With 'worktree', it works in a
+   * temporary git worktree of the project, so it can run alongside other
+   * subagents, and its changes are handed back to the parent as a patch and
+   * a branch to review and merge. Defaults to 'none', the shared working tree.
+   */
+  isolation?: SubagentIsolation;
 }
+
+/** How a subagent's file changes are kept apart from the working tree. */
+export type SubagentIsolation = 'none' | 'worktree';
@@ -327,6 +327,14 @@ export class SubagentValidator {
       }
     }
 
+    if (
+      runConfig.isolation !== undefined &&
+      runConfig.isolation !== 'none' &&
+      runConfig.isolation !== 'worktree'
+    ) {
+      errors.push('isolation must be "none" or "worktree"');
+    }
+
     return {
       isValid: errors.length === 0,
       errors,
@@ -0,0 +1,191 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { Config } from '../config/config.js';
+import { ApprovalMode } from '../config/config.js';
+import {
+  createMockWorkspaceContext,
+} from '../test-utils/mockWorkspaceContext.js';
+import { ToolErrorType } from './tool-error.js';
+import type { ApplyPatchParams } from './apply-patch.js';
+import { ApplyPatchTool } from './apply-patch.js';
+
+vi.mock('../telemetry/loggers.js', () => ({ logFileOperation: vi.fn() }));
+
+describe('ApplyPatchTool', () => {
+  let root: string;
+  let tool: ApplyPatchTool;
+  const writeTextFile = vi.fn();
+
+  const file = (name: string) => path.join(root, name);
+  const read = (name: string) => fs.readFileSync(file(name), 'utf8');
+
+  beforeEach(() => {
+    root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'patch-')));
+    fs.writeFileSync(file('a.txt'), 'a\n');
+    fs.writeFileSync(file('b.txt'), 'b\n');
+    fs.writeFileSync(file('c.txt'), 'c\n');
+    writeTextFile.mockReset();
+    writeTextFile.mockImplementation(async (filePath: string, content) =>
+      fs.promises.writeFile(filePath, content, 'utf8'),
+    );
+    const config = {
+      getTargetDir: () => root,
+      getWorkspaceContext: () => createMockWorkspaceContext(root),
+      getApprovalMode: () => ApprovalMode.DEFAULT,
+      getFileSystemService: () => ({
+        readTextFile: (filePath: string) =>
+          fs.promises.readFile(filePath, 'utf8'),
+        writeTextFile,
+      }),
+    } as unknown as Config;
+    tool = new ApplyPatchTool(config);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('toolLocations', () => {
+    const locations = (params: ApplyPatchParams) =>
+      tool
+        .build(params)
+        .toolLocations()
+        .map(({ path: location }) => path.relative(root, location));
+
+    it('lists every path of a diff, both sides of a rename included', () => {
+      expect(
+        locations({
+          patch: [
+            'diff --git a/a.txt b/moved/a.txt',
+            'rename from a.txt',
+            'rename to moved/a.txt',
+            'diff --git a/new.txt b/new.txt',
+            'new file mode 100644',
+            '--- /dev/null',
+            '+++ b/new.txt',
+            '@@ -0,0 +1 @@',
+            '+new',
+            'diff --git a/b.txt b/b.txt',
+            'deleted file mode 100644',
+            '--- a/b.txt',
+            '+++ /dev/null',
+            '@@ -1 +0,0 @@',
+            '-b',
+          ].join('\n'),
+        }),
+      ).toEqual(['a.txt', path.join('moved', 'a.txt'), 'new.txt', 'b.txt']);
+    });
+
+    it('lists the destination of moved files', () => {
+      expect(
+        locations({
+          files: [
+            {
+              file_path: file('a.txt'),
+              action: 'move',
+              new_path: file('d.txt'),
+            },
+            { file_path: file('b.txt'), action: 'delete' },
+          ],
+        }),
+      ).toEqual(['a.txt', 'd.txt', 'b.txt']);
+    });
+  });
+
+  it('applies every change', async () => {
+    const result = await tool
+      .build({
+        files: [
+          {
+            file_path: file('a.txt'),
+            action: 'update',
+            edits: [{ old_string: 'a', new_string: 'A' }],
+          },
+          {
+            file_path: file('b.txt'),
+            action: 'move',
+            new_path: file('d.txt'),
+          },
+          { file_path: file('c.txt'), action: 'delete' },
+        ],
+      })
+      .execute(new AbortController().signal);
+
+    expect(result.error).toBeUndefined();
+    expect(read('a.txt')).toBe('A\n');
+    expect(read('d.txt')).toBe('b\n');
+    expect(fs.existsSync(file('b.txt'))).toBe(false);
+    expect(fs.existsSync(file('c.txt'))).toBe(false);
+  });
+
+  it('restores every file when a write fails', async () => {
+    writeTextFile.mockImplementation(async (filePath: string, content) => {
+      if (filePath === file('c.txt') && content !== 'c\n') {
+        throw new Error('disk full');
+      }
+      await fs.promises.writeFile(filePath, content, 'utf8');
+    });
+
+    const result = await tool
+      .build({
+        files: [
+          {
+            file_path: file('a.txt'),
+            action: 'update',
+            edits: [{ old_string: 'a', new_string: 'A' }],
+          },
+          { file_path: file('b.txt'), action: 'delete' },
+          {
+            file_path: file(path.join('new', 'dir', 'e.txt')),
+            action: 'create',
+            content: 'e\n',
+          },
+          {
+            file_path: file('c.txt'),
+            action: 'update',
+            edits: [{ old_string: 'c', new_string: 'C' }],
+          },
+        ],
+      })
+      .execute(new AbortController().signal);
+
+    expect(result.error?.type).toBe(ToolErrorType.PATCH_APPLY_FAILED);
+    expect(result.llmContent).toContain('disk full');
+    expect(result.llmContent).toContain('so no files were changed');
+    expect(read('a.txt')).toBe('a\n');
+    expect(read('b.txt')).toBe('b\n');
+    expect(read('c.txt')).toBe('c\n');
+    expect(fs.existsSync(file('new'))).toBe(false);
+  });
+
+  it('changes no file when a change does not match', async () => {
+    const result = await tool
+      .build({
+        files: [
+          {
+            file_path: file('a.txt'),
+            action: 'update',
+            edits: [{ old_string: 'a', new_string: 'A' }],
+          },
+          {
+            file_path: file('b.txt'),
+            action: 'update',
+            edits: [{ old_string: 'missing', new_string: 'B' }],
+          },
+        ],
+      })
+      .execute(new AbortController().signal);
+
+    expect(result.error?.type).toBe(ToolErrorType.PATCH_INVALID);
+    expect(writeTextFile).not.toHaveBeenCalled();
+    expect(read('a.txt')).toBe('a\n');
+  });
+});
@@ -0,0 +1,674 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as Diff from 'diff';
+import type {
+  DiffStat,
+  FileDiff,
+  FileDiffEntry,
+  ToolCallConfirmationDetails,
+  ToolEditConfirmationDetails,
+  ToolInvocation,
+  ToolLocation,
+  ToolResult,
+} from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+import { ToolErrorType } from './tool-error.js';
+import { ToolNames } from './tool-names.js';
+import type { Config } from '../config/config.js';
+import { ApprovalMode } from '../config/config.js';
+import { DEFAULT_DIFF_OPTIONS, getDiffStat } from './diffOptions.js';
+import { makeRelative } from '../utils/paths.js';
+import { getErrorMessage } from '../utils/errors.js';
+import {
+  PatchError,
+  applyHunks,
+  createdContent,
+  parseUnifiedDiff,
+} from '../utils/patchUtils.js';
+import { FileOperation } from '../telemetry/metrics.js';
+import { logFileOperation } from '../telemetry/loggers.js';
+import { FileOperationEvent } from '../telemetry/types.js';
+import { getProgrammingLanguage } from '../telemetry/telemetry-utils.js';
+import { getSpecificMimeType } from '../utils/fileUtils.js';
+
+export type PatchFileAction = 'update' | 'create' | 'delete' | 'move';
+
+/** A change to one file, for patches given as a list instead of a diff */
+export interface PatchFileOperation {
+  /** The absolute path to the file */
+  file_path: string;
+  action: PatchFileAction;
+  /**
+   * Replacements for `update` and `move`, applied in order. Each
+   * `old_string` must occur exactly once.
+   */
+  edits?: Array<{ old_string: string; new_string: string }>;
+  /** Content of a file to `create` */
+  content?: string;
+  /** The absolute path to `move` the file to */
+  new_path?: string;
+}
+
+export interface ApplyPatchParams {
+  /** A unified diff; paths are relative to the project root */
+  patch?: string;
+  /** The same changes as a list, instead of `patch` */
+  files?: PatchFileOperation[];
+}
+
+/** One file's change, checked against the file as it is on disk */
+interface PlannedChange {
+  action: PatchFileAction;
+  filePath: string;
+  /** Destination of a move */
+  newPath?: string;
+  /** Null for a created file */
+  originalContent: string | null;
+  /** Null for a deleted file */
+  newContent: string | null;
+}
+
+const ACTIONS: PatchFileAction[] = ['update', 'create', 'delete', 'move'];
+
+class ApplyPatchInvocation extends BaseToolInvocation<
+  ApplyPatchParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    params: ApplyPatchParams,
+  ) {
+    super(params);
+  }
+
+  getDescription(): string {
+    const root = this.config.getTargetDir();
+    const paths = this.listPaths().map((file) => makeRelative(file, root));
+    if (paths.length === 0) {
+      return 'Invalid patch';
+    }
+    return paths.length <= 3
+      ? paths.join(', ')
+      : `${paths.slice(0, 3).join(', ')} and ${paths.length - 3} more`;
+  }
+
+  override toolLocations(): ToolLocation[] {
+    return this.listPaths().map((file) => ({ path: file }));
+  }
+
+  override async shouldConfirmExecute(
+    _abortSignal: AbortSignal,
+  ): Promise<ToolCallConfirmationDetails | false> {
+    if (this.config.getApprovalMode() === ApprovalMode.AUTO_EDIT) {
+      return false;
+    }
+
+    let plan: PlannedChange[];
+    try {
+      plan = await this.planChanges();
+    } catch {
+      // Reported by execute, before any file is touched
+      return false;
+    }
+
+    const display = this.toFileDiff(plan);
+    const confirmationDetails: ToolEditConfirmationDetails = {
+      type: 'edit',
+      title: `Confirm Patch: ${display.fileName}`,
+      fileName: display.fileName,
+      filePath: plan[0].newPath ?? plan[0].filePath,
+      fileDiff: display.fileDiff,
+      originalContent: display.originalContent,
+      newContent: display.newContent,
+      files: display.files,
+      // "Always allow" is saved as permission rules by the scheduler
+      onConfirm: async () => {},
+    };
+    return confirmationDetails;
+  }
+
+  async execute(_signal: AbortSignal): Promise<ToolResult> {
+    // Planned again, as files may have changed since the confirmation
+    let plan: PlannedChange[];
+    try {
+      plan = await this.planChanges();
+    } catch (error) {
+      const message = `The patch was not applied and no files were changed: ${getErrorMessage(error)}`;
+      return {
+        llmContent: message,
+        returnDisplay: message,
+        error: { message, type: ToolErrorType.PATCH_INVALID },
+      };
+    }
+
+    try {
+      await this.applyAtomically(plan);
+    } catch (error) {
+      const message = getErrorMessage(error);
+      return {
+        llmContent: message,
+        returnDisplay: message,
+        error: { message, type: ToolErrorType.PATCH_APPLY_FAILED },
+      };
+    }
+
+    for (const change of plan) {
+      this.logChange(change);
+    }
+    const root = this.config.getTargetDir();
+    const summary = plan.map((change) => {
+      const file = makeRelative(change.filePath, root);
+      switch (change.action) {
+        case 'create':
+          return `- created ${file}`;
+        case 'delete':
+          return `- deleted ${file}`;
+        case 'move':
+          return `- moved ${file} to ${makeRelative(change.newPath!, root)}`;
+        default:
+          return `- updated ${file}`;
+      }
+    });
+    return {
+      llmContent: `Applied the patch to ${plan.length} file(s):\n${summary.join('\n')}`,
+      returnDisplay: this.toFileDiff(plan),
+    };
+  }
+
+  /**
+   * Reads every file the patch touches and computes its new content.
+   * @throws Error describing the first problem; nothing is written
+   */
+  private async planChanges(): Promise<PlannedChange[]> {
+    const plan = this.params.patch
+      ? await this.planFromDiff(this.params.patch)
+      : await this.planFromOperations(this.params.files ?? []);
+
+    const seen = new Set<string>();
+    for (const change of plan) {
+      for (const filePath of [change.filePath, change.newPath]) {
+        if (filePath === undefined) {
+          continue;
+        }
+        if (seen.has(filePath)) {
+          throw new PatchError(
+            `${filePath} is changed more than once. Combine its changes into one entry.`,
+          );
+        }
+        seen.add(filePath);
+      }
+    }
+    return plan;
+  }
+
+  private async planFromDiff(patch: string): Promise<PlannedChange[]> {
+    const plan: PlannedChange[] = [];
+    for (const file of parseUnifiedDiff(patch)) {
+      const oldPath = file.oldPath && this.resolvePath(file.oldPath);
+      const newPath = file.newPath && this.resolvePath(file.newPath);
+      if (!oldPath) {
+        this.assertAbsent(newPath!);
+        plan.push({
+          action: 'create',
+          filePath: newPath!,
+          originalContent: null,
+          newContent: createdContent(file.hunks),
+        });
+        continue;
+      }
+
+      const originalContent = await this.readFile(oldPath);
+      if (!newPath) {
+        plan.push({
+          action: 'delete',
+          filePath: oldPath,
+          originalContent,
+          newContent: null,
+        });
+        continue;
+      }
+      if (file.hunks.length === 0 && oldPath === newPath) {
+        throw new PatchError(`The patch has no hunks for ${file.oldPath}.`);
+      }
+      let newContent: string;
+      try {
+        newContent = applyHunks(originalContent, file.hunks);
+      } catch (error) {
+        throw new PatchError(`${file.oldPath}: ${getErrorMessage(error)}`);
+      }
+      if (oldPath === newPath) {
+        plan.push({
+          action: 'update',
+          filePath: oldPath,
+          originalContent,
+          newContent,
+        });
+      } else {
+        this.assertAbsent(newPath);
+        plan.push({
+          action: 'move',
+          filePath: oldPath,
+          newPath,
+          originalContent,
+          newContent,
+        });
+      }
+    }
+    return plan;
+  }
+
+  private async planFromOperations(
+    operations: PatchFileOperation[],
+  ): Promise<PlannedChange[]> {
+    const plan: PlannedChange[] = [];
+    for (const operation of operations) {
+      const filePath = this.resolvePath(operation.file_path);
+      if (operation.action === 'create') {
+        this.assertAbsent(filePath);
+        plan.push({
+          action: 'create',
+          filePath,
+          originalContent: null,
+          newContent: operation.content ?? '',
+        });
+        continue;
+      }
+
+      const originalContent = await this.readFile(filePath);
+      if (operation.action === 'delete') {
+        plan.push({
+          action: 'delete',
+          filePath,
+          originalContent,
+          newContent: null,
+        });
+        continue;
+      }
+
+      let newContent = originalContent;
+      (operation.edits ?? []).forEach(({ old_string, new_string }, index) => {
+        const occurrences = newContent.split(old_string).length - 1;
+        if (occurrences !== 1) {
+          throw new PatchError(
+            `Edit ${index + 1} for ${operation.file_path}: old_string ${occurrences === 0 ? 'was not found' : `occurs ${occurrences} times`}. It must match exactly one place in the file, after the edits before it; include more surrounding lines to make it unique.`,
+          );
+        }
+        newContent = newContent.replace(old_string, () => new_string);
+      });
+      if (operation.action === 'move') {
+        const newPath = this.resolvePath(operation.new_path!);
+        this.assertAbsent(newPath);
+        plan.push({
+          action: 'move',
+          filePath,
+          newPath,
+          originalContent,
+          newContent,
+        });
+      } else {
+        plan.push({
+          action: 'update',
+          filePath,
+          originalContent,
+          newContent,
+        });
+      }
+    }
+    return plan;
+  }
+
+  /**
+   * Writes the planned changes. If one fails, the changes already made are
+   * undone, so the files end up either all changed or as they were.
+   * @throws Error saying what failed and whether the rollback succeeded
+   */
+  private async applyAtomically(plan: PlannedChange[]): Promise<void> {
+    const fileSystem = this.config.getFileSystemService();
+    const undo: Array<() => Promise<void>> = [];
+    const write = async (filePath: string, content: string) => {
+      const createdDir = await fs.promises.mkdir(path.dirname(filePath), {
+        recursive: true,
+      });
+      if (createdDir) {
+        undo.push(() =>
+          fs.promises.rm(createdDir, { recursive: true, force: true }),
+        );
+      }
+      await fileSystem.writeTextFile(filePath, content);
+    };
+
+    try {
+      for (const change of plan) {
+        const { filePath, originalContent, newContent } = change;
+        switch (change.action) {
+          case 'create':
+            undo.push(() => fs.promises.rm(filePath, { force: true }));
+            await write(filePath, newContent!);
+            break;
+          case 'update':
+            undo.push(() =>
+              fileSystem.writeTextFile(filePath, originalContent!),
+            );
+            await write(filePath, newContent!);
+            break;
+          case 'delete':
+            await fs.promises.unlink(filePath);
+            undo.push(() => write(filePath, originalContent!));
+            break;
+          case 'move': {
+            const newPath = change.newPath!;
+            undo.push(() => fs.promises.rm(newPath, { force: true }));
+            await write(newPath, newContent!);
+            await fs.promises.unlink(filePath);
+            undo.push(() => write(filePath, originalContent!));
+            break;
+          }
+          default:
+            break;
+        }
+      }
+    } catch (error) {
+      const rollbackErrors: string[] = [];
+      for (const step of undo.reverse()) {
+        try {
+          await step();
+        } catch (rollbackError) {
+          rollbackErrors.push(getErrorMessage(rollbackError));
+        }
+      }
+      const outcome =
+        rollbackErrors.length === 0
+          ? 'The files changed before the failure were restored, so no files were changed.'
+          : `Restoring the files changed before the failure also failed, so some files may be changed: ${rollbackErrors.join('; ')}`;
+      throw new Error(
+        `Applying the patch failed: ${getErrorMessage(error)}. ${outcome}`,
+      );
+    }
+  }
+
+  /** One diff of all changes, in the form the CLI renders for edits */
+  private toFileDiff(plan: PlannedChange[]): FileDiff {
+    const root = this.config.getTargetDir();
+    let fileDiff = '';
+    const diffStat: DiffStat = {
+      ai_added_lines: 0,
+      ai_removed_lines: 0,
+      user_added_lines: 0,
+      user_removed_lines: 0,
+    };
+    const files: FileDiffEntry[] = plan.map((change) => {
+      const oldName =
+        change.action === 'create'
+          ? '/dev/null'
+          : makeRelative(change.filePath, root);
+      const newName =
+        change.action === 'delete'
+          ? '/dev/null'
+          : makeRelative(change.newPath ?? change.filePath, root);
+      fileDiff += Diff.createTwoFilesPatch(
+        oldName,
+        newName,
+        change.originalContent ?? '',
+        change.newContent ?? '',
+        undefined,
+        undefined,
+        DEFAULT_DIFF_OPTIONS,
+      );
+      const fileStat = getDiffStat(
+        newName,
+        change.originalContent ?? '',
+        change.newContent ?? '',
+        change.newContent ?? '',
+      );
+      diffStat.ai_added_lines += fileStat.ai_added_lines;
+      diffStat.ai_removed_lines += fileStat.ai_removed_lines;
+      return {
+        filePath: change.newPath ?? change.filePath,
+        originalContent: change.originalContent,
+        newContent: change.newContent,
+      };
+    });
+
+    if (plan.length === 1) {
+      return {
+        fileDiff,
+        fileName: path.basename(files[0].filePath),
+        originalContent: plan[0].originalContent,
+        newContent: plan[0].newContent ?? '',
+        diffStat,
+        files,
+      };
+    }
+    return {
+      fileDiff,
+      fileName: `${plan.length} files`,
+      originalContent: null,
+      newContent: '',
+      diffStat,
+      files,
+    };
+  }
+
+  /**
+   * Absolute paths of the files the patch updates, creates or deletes, and
+   * both paths of a moved file, or none if the patch is invalid
+   */
+  private listPaths(): string[] {
+    const root = this.config.getTargetDir();
+    try {
+      const paths = this.params.patch
+        ? parseUnifiedDiff(this.params.patch).flatMap((file) => [
+            file.oldPath,
+            file.newPath,
+          ])
+        : (this.params.files ?? []).flatMap((file) => [
+            file.file_path,
+            file.action === 'move' ? file.new_path : undefined,
+          ]);
+      return [
+        ...new Set(
+          paths
+            .filter((file): file is string => !!file)
+            .map((file) => path.resolve(root, file)),
+        ),
+      ];
+    } catch {
+      return [];
+    }
+  }
+
+  private resolvePath(filePath: string): string {
+    const resolved = path.resolve(this.config.getTargetDir(), filePath);
+    const workspaceContext = this.config.getWorkspaceContext();
+    if (!workspaceContext.isPathWithinWorkspace(resolved)) {
+      throw new PatchError(
+        `${filePath} is outside the workspace directories: ${workspaceContext.getDirectories().join(', ')}`,
+      );
+    }
+    return resolved;
+  }
+
+  private assertAbsent(filePath: string): void {
+    if (fs.existsSync(filePath)) {
+      throw new PatchError(
+        `${filePath} already exists. Update it instead of creating it.`,
+      );
+    }
+  }
+
+  private async readFile(filePath: string): Promise<string> {
+    if (!fs.existsSync(filePath)) {
+      throw new PatchError(`${filePath} does not exist.`);
+    }
+    if (fs.statSync(filePath).isDirectory()) {
+      throw new PatchError(`${filePath} is a directory, not a file.`);
+    }
+    const content = await this.config
+      .getFileSystemService()
+      .readTextFile(filePath);
+    return content.replace(/\r\n/g, '\n');
+  }
+
+  private logChange(change: PlannedChange): void {
+    if (change.action === 'delete') {
+      return;
+    }
+    const filePath = change.newPath ?? change.filePath;
+    logFileOperation(
+      this.config,
+      new FileOperationEvent(
+        ApplyPatchTool.Name,
+        change.action === 'create'
+          ? FileOperation.CREATE
+          : FileOperation.UPDATE,
+        change.newContent!.split('\n').length,
+        getSpecificMimeType(filePath),
+        path.extname(filePath),
+        getDiffStat(
+          path.basename(filePath),
+          change.originalContent ?? '',
+          change.newContent!,
+          change.newContent!,
+        ),
+        getProgrammingLanguage({ file_path: filePath }),
+      ),
+    );
+  }
+}
+
+/**
+ * Applies changes to several files at once, given as a unified diff or as a
+ * list of file operations. Every change is checked before any file is
+ * written, and a failed write undoes the others.
+ */
+export class ApplyPatchTool extends BaseDeclarativeTool<
+  ApplyPatchParams,
+  ToolResult
+> {
+  static readonly Name = ToolNames.APPLY_PATCH;
+
+  constructor(private readonly config: Config) {
+    super(
+      ApplyPatchTool.Name,
+      'ApplyPatch',
+      `Applies changes to one or more files at once, with a single confirmation: updating, creating, deleting and moving files. Use it instead of many ${ToolNames.EDIT} calls when a change spans several files or several places in a file, such as a refactor. Every change is checked before anything is written; if any hunk or edit does not match, no file is changed. Read the files first so the changes match their current content.
+
+Give the changes in one of two forms:
+- 'patch': a unified diff as produced by \`git diff\`, with paths relative to the project root. Use \`--- /dev/null\` to create a file, \`+++ /dev/null\` to delete one, and git's \`rename from\`/\`rename to\` lines to move one. Hunks need a few lines of unchanged context; line numbers may be approximate.
+- 'files': a list of operations with absolute paths. 'update' applies 'edits' in order, each replacing an 'old_string' that must occur exactly once; 'create' writes 'content'; 'delete' removes the file; 'move' moves it to 'new_path', applying any 'edits'.`,
+      Kind.Edit,
+      {
+        type: 'object',
+        properties: {
+          patch: {
+            type: 'string',
+            description:
+              'A unified diff of the changes, with paths relative to the project root. Provide either this or `files`.',
+          },
+          files: {
+            type: 'array',
+            description:
+              'The changes as a list of file operations. Provide either this or `patch`.',
+            items: {
+              type: 'object',
+              properties: {
+                file_path: {
+                  type: 'string',
+                  description: 'The absolute path to the file.',
+                },
+                action: {
+                  type: 'string',
+                  enum: ACTIONS,
+                  description: 'What to do with the file.',
+                },
+                edits: {
+                  type: 'array',
+                  description:
+                    "For 'update' and 'move': replacements applied in order.",
+                  items: {
+                    type: 'object',
+                    properties: {
+                      old_string: {
+                        type: 'string',
+                        description:
+                          'The exact text to replace, which must occur exactly once, with enough surrounding lines to be unique.',
+                      },
+                      new_string: {
+                        type: 'string',
+                        description: 'The text to replace it with.',
+                      },
+                    },
+                    required: ['old_string', 'new_string'],
+                  },
+                },
+                content: {
+                  type: 'string',
+                  description: "For 'create': the content of the new file.",
+                },
+                new_path: {
+                  type: 'string',
+                  description: "For 'move': the absolute path to move to.",
+                },
+              },
+              required: ['file_path', 'action'],
+            },
+          },
+        },
+      },
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: ApplyPatchParams,
+  ): string | null {
+    if (!params.patch === !params.files?.length) {
+      return "Provide exactly one of 'patch' and 'files'.";
+    }
+    if (params.patch) {
+      try {
+        parseUnifiedDiff(params.patch);
+      } catch (error) {
+        return getErrorMessage(error);
+      }
+      return null;
+    }
+
+    for (const [index, file] of params.files!.entries()) {
+      const entry = `files[${index}]`;
+      if (!file.file_path || !path.isAbsolute(file.file_path)) {
+        return `${entry}: 'file_path' must be an absolute path.`;
+      }
+      if (!ACTIONS.includes(file.action)) {
+        return `${entry}: 'action' must be one of ${ACTIONS.join(', ')}.`;
+      }
+      if (file.action === 'create' && file.content === undefined) {
+        return `${entry}: 'content' is required to create a file.`;
+      }
+      if (file.action === 'update' && !file.edits?.length) {
+        return `${entry}: 'edits' is required to update a file.`;
+      }
+      if (
+        file.action === 'move' &&
+        (!file.new_path || !path.isAbsolute(file.new_path))
+      ) {
+        return `${entry}: 'new_path' must be an absolute path to move a file.`;
+      }
+      if (file.edits?.some((edit) => !edit.old_string)) {
+        return `${entry}: every edit needs a non-empty 'old_string'.`;
+      }
+    }
+    return null;
+  }
+
+  protected createInvocation(
+    params: ApplyPatchParams,
+  ): ToolInvocation<ApplyPatchParams, ToolResult> {
+    return new ApplyPatchInvocation(this.config, params);
+  }
+}
@@ -15,7 +15,7 @@ import type {
   ToolResult,
   ToolResultDisplay,
 } from './tools.js';
-import { BaseDeclarativeTool, Kind, ToolConfirmationOutcome } from './tools.js';
+import { BaseDeclarativeTool, Kind } from './tools.js';
 import { ToolErrorType } from './tool-error.js';
 import { makeRelative, shortenPath } from '../utils/paths.js';
 import { isNodeError } from '../utils/errors.js';
@@ -29,11 +29,14 @@ import type {
   ModifyContext,
 } from './modifiable-tool.js';
 import { IDEConnectionStatus } from '../ide/ide-client.js';
+import type { DiffHunk } from '../ide/diff-hunks.js';
+import { describeRejectedHunks } from '../ide/diff-hunks.js';
 import { FileOperation } from '../telemetry/metrics.js';
 import { logFileOperation } from '../telemetry/loggers.js';
 import { FileOperationEvent } from '../telemetry/types.js';
 import { getProgrammingLanguage } from '../telemetry/telemetry-utils.js';
 import { getSpecificMimeType } from '../utils/fileUtils.js';
+import { isNotebookFile } from '../utils/notebookUtils.js';
 
 export function applyReplacement(
   currentContent: string | null,
@@ -89,6 +92,11 @@ export interface EditToolParams {
    * Initially proposed string.
    */
   ai_proposed_string?: string;
+
+  /**
+   * Hunks of the proposed change that the user rejected in the IDE.
+   */
+  rejected_hunks?: DiffHunk[];
 }
 
 interface CalculatedEdit {
@@ -154,7 +162,13 @@ class EditToolInvocation implements ToolInvocation<EditToolParams, ToolResult> {
       };
     } else if (currentContent !== null) {
       occurrences = this.countOccurrences(currentContent, params.old_string);
-      if (params.old_string === '') {
+      if (isNotebookFile(params.file_path, currentContent)) {
+        error = {
+          display: `Failed to edit. Notebooks are changed cell by cell.`,
+          raw: `Failed to edit, ${params.file_path} is a Jupyter notebook, whose JSON is easily corrupted by text replacement. Use the ${ToolNames.NOTEBOOK_EDIT} tool to change its cells instead.`,
+          type: ToolErrorType.EDIT_NOTEBOOK_FILE,
+        };
+      } else if (params.old_string === '') {
         // Error: Trying to create a file that already exists
         error = {
           display: `Failed to edit. Attempted to create a file that already exists.`,
@@ -284,11 +298,8 @@ class EditToolInvocation implements ToolInvocation<EditToolParams, ToolResult> {
       fileDiff,
       originalContent: editData.currentContent,
       newContent: editData.newContent,
-      onConfirm: async (outcome: ToolConfirmationOutcome) => {
-        if (outcome === ToolConfirmationOutcome.ProceedAlways) {
-          this.config.setApprovalMode(ApprovalMode.AUTO_EDIT);
-        }
-
+      // "Always allow" is saved as permission rules by the scheduler
+      onConfirm: async () => {
         if (ideConfirmation) {
           const result = await ideConfirmation;
           if (result.status === 'accepted' && result.content) {
@@ -296,6 +307,11 @@ class EditToolInvocation implements ToolInvocation<EditToolParams, ToolResult> {
             // for info on a possible race condition where the file is modified on disk while being edited.
             this.params.old_string = editData.currentContent ?? '';
             this.params.new_string = result.content;
+            if (result.rejectedHunks?.length || result.userEdited) {
+              this.params.ai_proposed_string = editData.newContent;
+              this.params.modified_by_user = result.userEdited;
+              this.params.rejected_hunks = result.rejectedHunks;
+            }
           }
         }
       },
@@ -331,7 +347,7 @@ class EditToolInvocation implements ToolInvocation<EditToolParams, ToolResult> {
    * @param params Parameters for the edit operation
    * @returns Result of the edit operation
    */
-  async execute(_signal: AbortSignal): Promise<ToolResult> {
+  async execute(signal: AbortSignal): Promise<ToolResult> {
     let editData: CalculatedEdit;
     try {
       editData = await this.calculateEdit(this.params);
@@ -402,6 +418,11 @@ class EditToolInvocation implements ToolInvocation<EditToolParams, ToolResult> {
           ? `Created new file: ${this.params.file_path} with provided content.`
           : `Successfully modified file: ${this.params.file_path} (${editData.occurrences} replacements).`,
       ];
+      if (this.params.rejected_hunks?.length) {
+        llmSuccessMessageParts.push(
+          describeRejectedHunks(this.params.rejected_hunks),
+        );
+      }
       if (this.params.modified_by_user) {
         llmSuccessMessageParts.push(
           `User modified the \`new_string\` content to be: ${this.params.new_string}.`,
@@ -428,8 +449,16 @@ class EditToolInvocation implements ToolInvocation<EditToolParams, ToolResult> {
         ),
       );
 
+      const diagnostics = await this.config
+        .getLspService()
+        .describeDiagnosticsAfterEdit(this.params.file_path, signal);
+      let llmContent = llmSuccessMessageParts.join(' ');
+      if (diagnostics) {
+        llmContent += `\n\n${diagnostics}`;
+      }
+
       return {
-        llmContent: llmSuccessMessageParts.join(' '),
+        llmContent,
         returnDisplay: displayResult,
       };
     } catch (error) {
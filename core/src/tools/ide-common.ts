@@ -0,0 +1,63 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Config } from '../config/config.js';
+import type { IdeClient } from '../ide/ide-client.js';
+import { IDEConnectionStatus } from '../ide/ide-client.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { ToolErrorType } from './tool-error.js';
+import type { ToolResult } from './tools.js';
+
+/** IDE mode is off, or the IDE companion is not connected */
+export class IdeNotConnectedError extends Error {
+  constructor() {
+    super(
+      'The IDE is not connected, so its language features are unavailable. The user can connect it with /ide enable; until then, use the other code search tools.',
+    );
+    this.name = 'IdeNotConnectedError';
+  }
+}
+
+/**
+ * The client of the connected IDE, whose language servers answer the IDE
+ * tools.
+ * @throws IdeNotConnectedError if there is none
+ */
+export function getConnectedIdeClient(config: Config): IdeClient {
+  const ideClient = config.getIdeClient();
+  if (
+    !config.getIdeMode() ||
+    ideClient?.getConnectionStatus().status !== IDEConnectionStatus.Connected
+  ) {
+    throw new IdeNotConnectedError();
+  }
+  return ideClient;
+}
+
+/** The result of an IDE tool whose request failed */
+export function ideErrorResult(
+  error: unknown,
+  signal: AbortSignal,
+): ToolResult {
+  if (signal.aborted) {
+    return {
+      llmContent: 'The IDE request was cancelled.',
+      returnDisplay: 'Cancelled.',
+    };
+  }
+  const message = getErrorMessage(error);
+  return {
+    llmContent: message,
+    returnDisplay: message,
+    error: {
+      message,
+      type:
+        error instanceof IdeNotConnectedError
+          ? ToolErrorType.IDE_NOT_CONNECTED
+          : ToolErrorType.IDE_REQUEST_FAILED,
+    },
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ToolInvocation, ToolResult } from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+import { ToolNames } from './tool-names.js';
+import type { Config } from '../config/config.js';
+import { displayPath, formatDiagnostics } from '../lsp/format.js';
+import { LSP_FILE_PATH_SCHEMA, validateLspFileParams } from './lsp-common.js';
+import { getConnectedIdeClient, ideErrorResult } from './ide-common.js';
+
+/** Parameters of the IdeDiagnostics tool */
+export interface IdeDiagnosticsParams {
+  /** The absolute path to the file, or none for the whole workspace */
+  file_path?: string;
+}
+
+/** Per file, and across the workspace */
+const MAX_DIAGNOSTICS = 100;
+const MAX_FILES = 50;
+
+class IdeDiagnosticsInvocation extends BaseToolInvocation<
+  IdeDiagnosticsParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    params: IdeDiagnosticsParams,
+  ) {
+    super(params);
+  }
+
+  getDescription(): string {
+    return this.params.file_path
+      ? displayPath(this.params.file_path, this.config.getTargetDir())
+      : 'workspace';
+  }
+
+  async execute(signal: AbortSignal): Promise<ToolResult> {
+    try {
+      const files = (
+        await getConnectedIdeClient(this.config).getDiagnostics(
+          this.params.file_path,
+        )
+      ).filter((file) => file.diagnostics.length > 0);
+      const scope = this.params.file_path
+        ? this.getDescription()
+        : 'the workspace';
+      if (files.length === 0) {
+        return {
+          llmContent: `No problems found in ${scope}.`,
+          returnDisplay: 'No problems found.',
+        };
+      }
+      const count = files.reduce(
+        (total, file) => total + file.diagnostics.length,
+        0,
+      );
+      if (this.params.file_path) {
+        return {
+          llmContent: `${count} problem(s) in ${scope}, as line:column:\n${formatDiagnostics(files[0].diagnostics, MAX_DIAGNOSTICS)}`,
+          returnDisplay: `Found ${count} problem(s)`,
+        };
+      }
+      const sections = files
+        .slice(0, MAX_FILES)
+        .map(
+          (file) =>
+            `${displayPath(file.filePath, this.config.getTargetDir())}:\n${formatDiagnostics(file.diagnostics, MAX_DIAGNOSTICS)}`,
+        );
+      if (files.length > MAX_FILES) {
+        sections.push(`... and ${files.length - MAX_FILES} more file(s)`);
+      }
+      return {
+        llmContent: `${count} problem(s) in ${files.length} file(s) of the workspace, as line:column per file:\n\n${sections.join('\n\n')}`,
+        returnDisplay: `Found ${count} problem(s) in ${files.length} file(s)`,
+      };
+    } catch (error) {
+      return ideErrorResult(error, signal);
+    }
+  }
+}
+
+/** Reports the errors and warnings the user's IDE shows. */
+export class IdeDiagnosticsTool extends BaseDeclarativeTool<
+  IdeDiagnosticsParams,
+  ToolResult
+> {
+  static readonly Name = ToolNames.IDE_DIAGNOSTICS;
+
+  constructor(private readonly config: Config) {
+    super(
+      IdeDiagnosticsTool.Name,
+      'IdeDiagnostics',
+      `Reports the errors and warnings that the language servers running in the user's IDE show for a file, or for every file of the workspace when no file is given: type errors, unresolved imports, lint warnings and the like. Use it after changing code to check it compiles, instead of running a full build.`,
+      Kind.Read,
+      {
+        type: 'object',
+        properties: {
+          file_path: {
+            ...LSP_FILE_PATH_SCHEMA,
+            description:
+              'Optional: The absolute path to the source file. Leave it out to get the problems of the whole workspace.',
+          },
+        },
+      },
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: IdeDiagnosticsParams,
+  ): string | null {
+    if (params.file_path === undefined) {
+      return null;
+    }
+    return validateLspFileParams(this.config, {
+      file_path: params.file_path,
+    });
+  }
+
+  protected createInvocation(
+    params: IdeDiagnosticsParams,
+  ): ToolInvocation<IdeDiagnosticsParams, ToolResult> {
+    return new IdeDiagnosticsInvocation(this.config, params);
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ToolInvocation, ToolResult } from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+import { ToolNames } from './tool-names.js';
+import type { Config } from '../config/config.js';
+import { displayPath, formatDocumentSymbols } from '../lsp/format.js';
+import type { LspFileParams } from './lsp-common.js';
+import { LSP_FILE_PATH_SCHEMA, validateLspFileParams } from './lsp-common.js';
+import { getConnectedIdeClient, ideErrorResult } from './ide-common.js';
+
+class IdeDocumentSymbolsInvocation extends BaseToolInvocation<
+  LspFileParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    params: LspFileParams,
+  ) {
+    super(params);
+  }
+
+  getDescription(): string {
+    return displayPath(this.params.file_path, this.config.getTargetDir());
+  }
+
+  async execute(signal: AbortSignal): Promise<ToolResult> {
+    const file = this.getDescription();
+    try {
+      const symbols = await getConnectedIdeClient(
+        this.config,
+      ).getDocumentSymbols(this.params.file_path);
+      if (symbols.length === 0) {
+        return {
+          llmContent: `No symbols found in ${file}.`,
+          returnDisplay: 'No symbols found.',
+        };
+      }
+      return {
+        llmContent: `Symbols in ${file}:\n${formatDocumentSymbols(symbols)}`,
+        returnDisplay: `Found ${symbols.length} top-level symbol(s)`,
+      };
+    } catch (error) {
+      return ideErrorResult(error, signal);
+    }
+  }
+}
+
+/** Outlines the symbols of a file through the user's IDE. */
+export class IdeDocumentSymbolsTool extends BaseDeclarativeTool<
+  LspFileParams,
+  ToolResult
+> {
+  static readonly Name = ToolNames.IDE_DOCUMENT_SYMBOLS;
+
+  constructor(private readonly config: Config) {
+    super(
+      IdeDocumentSymbolsTool.Name,
+      'IdeDocumentSymbols',
+      `Lists the classes, functions, methods, variables and types declared in a file, nested as in the source, with their line ranges, using the language servers running in the user's IDE. Use it to get an overview of a large file before reading the parts you need.`,
+      Kind.Read,
+      {
+        type: 'object',
+        properties: {
+          file_path: LSP_FILE_PATH_SCHEMA,
+        },
+        required: ['file_path'],
+      },
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: LspFileParams,
+  ): string | null {
+    return validateLspFileParams(this.config, params);
+  }
+
+  protected createInvocation(
+    params: LspFileParams,
+  ): ToolInvocation<LspFileParams, ToolResult> {
+    return new IdeDocumentSymbolsInvocation(this.config, params);
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ToolInvocation, ToolResult } from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+import { ToolNames } from './tool-names.js';
+import type { Config } from '../config/config.js';
+import { displayPath } from '../lsp/format.js';
+import type { LspPositionParams } from './lsp-common.js';
+import {
+  LSP_POSITION_SCHEMA_PROPERTIES,
+  resolveLspPosition,
+  validateLspPositionParams,
+} from './lsp-common.js';
+import { getConnectedIdeClient, ideErrorResult } from './ide-common.js';
+
+class IdeHoverInvocation extends BaseToolInvocation<
+  LspPositionParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    params: LspPositionParams,
+  ) {
+    super(params);
+  }
+
+  getDescription(): string {
+    const file = displayPath(this.params.file_path, this.config.getTargetDir());
+    const target = this.params.symbol
+      ? `'${this.params.symbol}'`
+      : `column ${this.params.column}`;
+    return `${target} at ${file}:${this.params.line}`;
+  }
+
+  async execute(signal: AbortSignal): Promise<ToolResult> {
+    try {
+      const position = await resolveLspPosition(this.config, this.params);
+      const contents = await getConnectedIdeClient(this.config).getHover(
+        this.params.file_path,
+        position,
+      );
+      if (contents.length === 0) {
+        return {
+          llmContent: `No hover information for ${this.getDescription()}.`,
+          returnDisplay: 'No hover information.',
+        };
+      }
+      return {
+        llmContent: `Hover information for ${this.getDescription()}:\n${contents.join('\n\n')}`,
+        returnDisplay: 'Found hover information',
+      };
+    } catch (error) {
+      return ideErrorResult(error, signal);
+    }
+  }
+}
+
+/** Shows the type and documentation of a symbol through the user's IDE. */
+export class IdeHoverTool extends BaseDeclarativeTool<
+  LspPositionParams,
+  ToolResult
+> {
+  static readonly Name = ToolNames.IDE_HOVER;
+
+  constructor(private readonly config: Config) {
+    super(
+      IdeHoverTool.Name,
+      'IdeHover',
+      `Shows what the user's IDE displays when hovering over a symbol: its inferred type or signature and its documentation, from the language servers running in the IDE. Use it to learn the type of a variable or the parameters of a function without reading its definition. Point at the symbol by its line and name.`,
+      Kind.Read,
+      {
+        type: 'object',
+        properties: LSP_POSITION_SCHEMA_PROPERTIES,
+        required: ['file_path', 'line'],
+      },
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: LspPositionParams,
+  ): string | null {
+    return validateLspPositionParams(this.config, params);
+  }
+
+  protected createInvocation(
+    params: LspPositionParams,
+  ): ToolInvocation<LspPositionParams, ToolResult> {
+    return new IdeHoverInvocation(this.config, params);
+  }
+}
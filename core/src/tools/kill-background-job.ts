@@ -0,0 +1,90 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ToolInvocation, ToolResult } from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+import type { Config } from '../config/config.js';
+import { ToolNames } from './tool-names.js';
+import { ToolErrorType } from './tool-error.js';
+import { describeBackgroundJob } from '../services/backgroundJobService.js';
+
+export interface KillBackgroundJobParams {
+  job_id: number;
+}
+
+class KillBackgroundJobInvocation extends BaseToolInvocation<
+  KillBackgroundJobParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    params: KillBackgroundJobParams,
+  ) {
+    super(params);
+  }
+
+  getDescription(): string {
+    return `job ${this.params.job_id}`;
+  }
+
+  async execute(_signal: AbortSignal): Promise<ToolResult> {
+    const service = this.config.getBackgroundJobService();
+    const wasRunning = service.get(this.params.job_id)?.status === 'running';
+    const job = await service.kill(this.params.job_id);
+    if (!job) {
+      const message = `No background job with ID ${this.params.job_id}. Use ${ToolNames.LIST_BACKGROUND_JOBS} to see the jobs.`;
+      return {
+        llmContent: message,
+        returnDisplay: `No background job ${this.params.job_id}.`,
+        error: { message, type: ToolErrorType.BACKGROUND_JOB_NOT_FOUND },
+      };
+    }
+
+    return {
+      llmContent: wasRunning
+        ? `Stopped background job: ${describeBackgroundJob(job)}`
+        : `Background job was not running: ${describeBackgroundJob(job)}`,
+      returnDisplay: wasRunning
+        ? `Stopped job ${job.id}.`
+        : `Job ${job.id} was not running.`,
+    };
+  }
+}
+
+/**
+ * Stops a background job and every process it started.
+ */
+export class KillBackgroundJobTool extends BaseDeclarativeTool<
+  KillBackgroundJobParams,
+  ToolResult
+> {
+  static readonly Name = ToolNames.KILL_BACKGROUND_JOB;
+
+  constructor(private readonly config: Config) {
+    super(
+      KillBackgroundJobTool.Name,
+      'KillJob',
+      `Stops a background job started with ${ToolNames.SHELL} and is_background: true, along with every process it started. Its output can still be read afterwards. Stop dev servers and watchers once they are no longer needed.`,
+      Kind.Execute,
+      {
+        type: 'object',
+        properties: {
+          job_id: {
+            type: 'number',
+            description: 'The ID of the background job to stop.',
+          },
+        },
+        required: ['job_id'],
+      },
+    );
+  }
+
+  protected createInvocation(
+    params: KillBackgroundJobParams,
+  ): ToolInvocation<KillBackgroundJobParams, ToolResult> {
+    return new KillBackgroundJobInvocation(this.config, params);
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ToolInvocation, ToolResult } from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+import type { Config } from '../config/config.js';
+import { ToolNames } from './tool-names.js';
+import { describeBackgroundJob } from '../services/backgroundJobService.js';
+
+export type ListBackgroundJobsParams = Record<string, never>;
+
+class ListBackgroundJobsInvocation extends BaseToolInvocation<
+  ListBackgroundJobsParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    params: ListBackgroundJobsParams,
+  ) {
+    super(params);
+  }
+
+  getDescription(): string {
+    return 'background jobs';
+  }
+
+  async execute(_signal: AbortSignal): Promise<ToolResult> {
+    const jobs = this.config.getBackgroundJobService().list();
+    if (jobs.length === 0) {
+      return {
+        llmContent: 'No background jobs have been started in this session.',
+        returnDisplay: 'No background jobs.',
+      };
+    }
+
+    const lines = jobs.map(
+      (job) =>
+        `${describeBackgroundJob(job)}${job.unreadChars > 0 ? ` - ${job.unreadChars} unread characters of output` : ''}`,
+    );
+    const running = jobs.filter((job) => job.status === 'running').length;
+    return {
+      llmContent: `Background jobs:\n${lines.join('\n')}`,
+      returnDisplay: `${jobs.length} job(s), ${running} running.`,
+    };
+  }
+}
+
+/**
+ * Lists the background jobs started with `run_shell_command` and
+ * `is_background: true`.
+ */
+export class ListBackgroundJobsTool extends BaseDeclarativeTool<
+  ListBackgroundJobsParams,
+  ToolResult
+> {
+  static readonly Name = ToolNames.LIST_BACKGROUND_JOBS;
+
+  constructor(private readonly config: Config) {
+    super(
+      ListBackgroundJobsTool.Name,
+      'ListJobs',
+      `Lists the background jobs started in this session with ${ToolNames.SHELL} and is_background: true, with their ID, status, PID, run time and how much output has not been read yet. Use ${ToolNames.READ_BACKGROUND_OUTPUT} to read a job's output and ${ToolNames.KILL_BACKGROUND_JOB} to stop it.`,
+      Kind.Read,
+      {
+        type: 'object',
+        properties: {},
+      },
+    );
+  }
+
+  protected createInvocation(
+    params: ListBackgroundJobsParams,
+  ): ToolInvocation<ListBackgroundJobsParams, ToolResult> {
+    return new ListBackgroundJobsInvocation(this.config, params);
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'node:path';
+import type { Config } from '../config/config.js';
+import { LspUnsupportedError } from '../lsp/languageServer.js';
+import { LspUnavailableError } from '../lsp/lspService.js';
+import type { LspPosition } from '../lsp/types.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { ToolErrorType } from './tool-error.js';
+import type { ToolResult } from './tools.js';
+
+/** Parameters of the LSP tools that act on a file */
+export interface LspFileParams {
+  /** The absolute path to the file */
+  file_path: string;
+}
+
+/** Parameters of the LSP tools that act on a symbol in a file */
+export interface LspPositionParams extends LspFileParams {
+  /** 1-based line of the symbol */
+  line: number;
+  /** Name of the symbol on that line */
+  symbol?: string;
+  /** 1-based column of the symbol, when the name is ambiguous */
+  column?: number;
+}
+
+export const LSP_FILE_PATH_SCHEMA = {
+  type: 'string',
+  description: 'The absolute path to the source file.',
+};
+
+export const LSP_POSITION_SCHEMA_PROPERTIES = {
+  file_path: LSP_FILE_PATH_SCHEMA,
+  line: {
+    type: 'number',
+    description: 'The 1-based line on which the symbol appears.',
+  },
+  symbol: {
+    type: 'string',
+    description:
+      'The name of the symbol on that line, e.g. a function, variable or type name. Its first occurrence on the line is used.',
+  },
+  column: {
+    type: 'number',
+    description:
+      'Optional: The 1-based column of the symbol, instead of `symbol` when the name appears more than once on the line.',
+  },
+};
+
+export function validateLspFileParams(
+  config: Config,
+  params: LspFileParams,
+): string | null {
+  if (!params.file_path || params.file_path.trim() === '') {
+    return "The 'file_path' parameter must be non-empty.";
+  }
+  if (!path.isAbsolute(params.file_path)) {
+    return `File path must be absolute, but was relative: ${params.file_path}. You must provide an absolute path.`;
+  }
+  const workspaceContext = config.getWorkspaceContext();
+  if (!workspaceContext.isPathWithinWorkspace(params.file_path)) {
+    const directories = workspaceContext.getDirectories();
+    return `File path must be within one of the workspace directories: ${directories.join(', ')}`;
+  }
+  return null;
+}
+
+export function validateLspPositionParams(
+  config: Config,
+  params: LspPositionParams,
+): string | null {
+  const fileError = validateLspFileParams(config, params);
+  if (fileError) {
+    return fileError;
+  }
+  if (!Number.isInteger(params.line) || params.line < 1) {
+    return "The 'line' parameter must be a positive integer.";
+  }
+  if (!params.symbol && params.column === undefined) {
+    return "Either 'symbol' or 'column' must be provided.";
+  }
+  if (
+    params.column !== undefined &&
+    (!Number.isInteger(params.column) || params.column < 1)
+  ) {
+    return "The 'column' parameter must be a positive integer.";
+  }
+  return null;
+}
+
+/**
+ * The protocol position of the symbol that the parameters point at.
+ * @throws Error if the line or symbol is not in the file
+ */
+export async function resolveLspPosition(
+  config: Config,
+  params: LspPositionParams,
+): Promise<LspPosition> {
+  const content = await config
+    .getFileSystemService()
+    .readTextFile(params.file_path);
+  const lines = content.split(/\r?\n/);
+  const text = lines[params.line - 1];
+  if (text === undefined) {
+    throw new Error(
+      `Line ${params.line} is past the end of the file, which has ${lines.length} lines.`,
+    );
+  }
+  if (params.column !== undefined) {
+    return { line: params.line - 1, character: params.column - 1 };
+  }
+  const escaped = params.symbol!.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = new RegExp(`(?<![\\w$])${escaped}(?![\\w$])`).exec(text);
+  if (!match) {
+    throw new Error(
+      `'${params.symbol}' does not appear on line ${params.line}: ${text.trim()}`,
+    );
+  }
+  return { line: params.line - 1, character: match.index };
+}
+
+/** The result of an LSP tool whose request failed */
+export function lspErrorResult(
+  error: unknown,
+  signal: AbortSignal,
+  type = ToolErrorType.LSP_REQUEST_FAILED,
+): ToolResult {
+  if (signal.aborted) {
+    return {
+      llmContent: 'The language server request was cancelled.',
+      returnDisplay: 'Cancelled.',
+    };
+  }
+  const message = getErrorMessage(error);
+  return {
+    llmContent: message,
+    returnDisplay: message,
+    error: {
+      message,
+      type:
+        error instanceof LspUnavailableError ||
+        error instanceof LspUnsupportedError
+          ? ToolErrorType.LSP_UNAVAILABLE
+          : type,
+    },
+  };
+}
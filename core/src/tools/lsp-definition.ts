@@ -0,0 +1,100 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ToolInvocation, ToolResult } from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+import { ToolNames } from './tool-names.js';
+import type { Config } from '../config/config.js';
+import { displayPath, formatLocations } from '../lsp/format.js';
+import type { LspPositionParams } from './lsp-common.js';
+import {
+  LSP_POSITION_SCHEMA_PROPERTIES,
+  lspErrorResult,
+  resolveLspPosition,
+  validateLspPositionParams,
+} from './lsp-common.js';
+
+const MAX_DEFINITIONS = 20;
+
+class LspDefinitionInvocation extends BaseToolInvocation<
+  LspPositionParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    params: LspPositionParams,
+  ) {
+    super(params);
+  }
+
+  getDescription(): string {
+    const file = displayPath(this.params.file_path, this.config.getTargetDir());
+    const target = this.params.symbol
+      ? `'${this.params.symbol}'`
+      : `column ${this.params.column}`;
+    return `${target} at ${file}:${this.params.line}`;
+  }
+
+  async execute(signal: AbortSignal): Promise<ToolResult> {
+    try {
+      const position = await resolveLspPosition(this.config, this.params);
+      const locations = await this.config
+        .getLspService()
+        .getDefinition(this.params.file_path, position, signal);
+      if (locations.length === 0) {
+        return {
+          llmContent: `No definition found for ${this.getDescription()}.`,
+          returnDisplay: 'No definition found.',
+        };
+      }
+      const formatted = await formatLocations(
+        locations,
+        this.config.getTargetDir(),
+        MAX_DEFINITIONS,
+      );
+      return {
+        llmContent: `Definition of ${this.getDescription()}, as path:line:column:\n${formatted}`,
+        returnDisplay: `Found ${locations.length} definition(s)`,
+      };
+    } catch (error) {
+      return lspErrorResult(error, signal);
+    }
+  }
+}
+
+/** Finds where a symbol is defined through the project's language server. */
+export class LspDefinitionTool extends BaseDeclarativeTool<
+  LspPositionParams,
+  ToolResult
+> {
+  static readonly Name = ToolNames.LSP_DEFINITION;
+
+  constructor(private readonly config: Config) {
+    super(
+      LspDefinitionTool.Name,
+      'GoToDefinition',
+      `Finds where a function, class, variable or type used in a file is defined, using the project's language server. Unlike ${ToolNames.GREP}, it resolves imports, overloads and same-named symbols exactly. Point at the symbol by its line and name.`,
+      Kind.Search,
+      {
+        type: 'object',
+        properties: LSP_POSITION_SCHEMA_PROPERTIES,
+        required: ['file_path', 'line'],
+      },
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: LspPositionParams,
+  ): string | null {
+    return validateLspPositionParams(this.config, params);
+  }
+
+  protected createInvocation(
+    params: LspPositionParams,
+  ): ToolInvocation<LspPositionParams, ToolResult> {
+    return new LspDefinitionInvocation(this.config, params);
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ToolInvocation, ToolResult } from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+import { ToolNames } from './tool-names.js';
+import type { Config } from '../config/config.js';
+import { displayPath, formatDiagnostics } from '../lsp/format.js';
+import type { LspFileParams } from './lsp-common.js';
+import {
+  LSP_FILE_PATH_SCHEMA,
+  lspErrorResult,
+  validateLspFileParams,
+} from './lsp-common.js';
+
+const MAX_DIAGNOSTICS = 100;
+
+class LspDiagnosticsInvocation extends BaseToolInvocation<
+  LspFileParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    params: LspFileParams,
+  ) {
+    super(params);
+  }
+
+  getDescription(): string {
+    return displayPath(this.params.file_path, this.config.getTargetDir());
+  }
+
+  async execute(signal: AbortSignal): Promise<ToolResult> {
+    const file = this.getDescription();
+    try {
+      const diagnostics = await this.config
+        .getLspService()
+        .getDiagnostics(this.params.file_path, signal);
+      if (diagnostics === undefined) {
+        const message = `The language server reported no diagnostics for ${file} in time. It may still be indexing the project; try again shortly.`;
+        return { llmContent: message, returnDisplay: message };
+      }
+      if (diagnostics.length === 0) {
+        return {
+          llmContent: `No problems found in ${file}.`,
+          returnDisplay: 'No problems found.',
+        };
+      }
+      return {
+        llmContent: `${diagnostics.length} problem(s) in ${file}, as line:column:\n${formatDiagnostics(diagnostics, MAX_DIAGNOSTICS)}`,
+        returnDisplay: `Found ${diagnostics.length} problem(s)`,
+      };
+    } catch (error) {
+      return lspErrorResult(error, signal);
+    }
+  }
+}
+
+/** Reports a language server's errors and warnings for a file. */
+export class LspDiagnosticsTool extends BaseDeclarativeTool<
+  LspFileParams,
+  ToolResult
+> {
+  static readonly Name = ToolNames.LSP_DIAGNOSTICS;
+
+  constructor(private readonly config: Config) {
+    super(
+      LspDiagnosticsTool.Name,
+      'Diagnostics',
+      `Reports the errors and warnings that the project's language server (e.g. TypeScript, Pyright, gopls, rust-analyzer) finds in a file, such as type errors, unresolved imports and unused variables. Use it after changing a file to check it compiles, instead of running a full build.`,
+      Kind.Read,
+      {
+        type: 'object',
+        properties: {
+          file_path: LSP_FILE_PATH_SCHEMA,
+        },
+        required: ['file_path'],
+      },
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: LspFileParams,
+  ): string | null {
+    return validateLspFileParams(this.config, params);
+  }
+
+  protected createInvocation(
+    params: LspFileParams,
+  ): ToolInvocation<LspFileParams, ToolResult> {
+    return new LspDiagnosticsInvocation(this.config, params);
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ToolInvocation, ToolResult } from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+import { ToolNames } from './tool-names.js';
+import type { Config } from '../config/config.js';
+import { displayPath, formatDocumentSymbols } from '../lsp/format.js';
+import type { LspFileParams } from './lsp-common.js';
+import {
+  LSP_FILE_PATH_SCHEMA,
+  lspErrorResult,
+  validateLspFileParams,
+} from './lsp-common.js';
+
+class LspDocumentSymbolsInvocation extends BaseToolInvocation<
+  LspFileParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    params: LspFileParams,
+  ) {
+    super(params);
+  }
+
+  getDescription(): string {
+    return displayPath(this.params.file_path, this.config.getTargetDir());
+  }
+
+  async execute(signal: AbortSignal): Promise<ToolResult> {
+    const file = this.getDescription();
+    try {
+      const symbols = await this.config
+        .getLspService()
+        .getDocumentSymbols(this.params.file_path, signal);
+      if (symbols.length === 0) {
+        return {
+          llmContent: `No symbols found in ${file}.`,
+          returnDisplay: 'No symbols found.',
+        };
+      }
+      return {
+        llmContent: `Symbols in ${file}:\n${formatDocumentSymbols(symbols)}`,
+        returnDisplay: `Found ${symbols.length} top-level symbol(s)`,
+      };
+    } catch (error) {
+      return lspErrorResult(error, signal);
+    }
+  }
+}
+
+/** Outlines the symbols of a file through the project's language server. */
+export class LspDocumentSymbolsTool extends BaseDeclarativeTool<
+  LspFileParams,
+  ToolResult
+> {
+  static readonly Name = ToolNames.LSP_DOCUMENT_SYMBOLS;
+
+  constructor(private readonly config: Config) {
+    super(
+      LspDocumentSymbolsTool.Name,
+      'DocumentSymbols',
+      `Lists the classes, functions, methods, variables and types declared in a file, nested as in the source, with their line ranges, using the project's language server. Use it to get an overview of a large file before reading the parts you need.`,
+      Kind.Read,
+      {
+        type: 'object',
+        properties: {
+          file_path: LSP_FILE_PATH_SCHEMA,
+        },
+        required: ['file_path'],
+      },
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: LspFileParams,
+  ): string | null {
+    return validateLspFileParams(this.config, params);
+  }
+
+  protected createInvocation(
+    params: LspFileParams,
+  ): ToolInvocation<LspFileParams, ToolResult> {
+    return new LspDocumentSymbolsInvocation(this.config, params);
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ToolInvocation, ToolResult } from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+import { ToolNames } from './tool-names.js';
+import type { Config } from '../config/config.js';
+import { displayPath, formatLocations } from '../lsp/format.js';
+import type { LspPositionParams } from './lsp-common.js';
+import {
+  LSP_POSITION_SCHEMA_PROPERTIES,
+  lspErrorResult,
+  resolveLspPosition,
+  validateLspPositionParams,
+} from './lsp-common.js';
+
+const MAX_REFERENCES = 200;
+
+class LspReferencesInvocation extends BaseToolInvocation<
+  LspPositionParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    params: LspPositionParams,
+  ) {
+    super(params);
+  }
+
+  getDescription(): string {
+    const file = displayPath(this.params.file_path, this.config.getTargetDir());
+    const target = this.params.symbol
+      ? `'${this.params.symbol}'`
+      : `column ${this.params.column}`;
+    return `${target} at ${file}:${this.params.line}`;
+  }
+
+  async execute(signal: AbortSignal): Promise<ToolResult> {
+    try {
+      const position = await resolveLspPosition(this.config, this.params);
+      const locations = await this.config
+        .getLspService()
+        .getReferences(this.params.file_path, position, signal);
+      if (locations.length === 0) {
+        return {
+          llmContent: `No references found for ${this.getDescription()}.`,
+          returnDisplay: 'No references found.',
+        };
+      }
+      const files = new Set(locations.map((location) => location.uri));
+      const formatted = await formatLocations(
+        locations,
+        this.config.getTargetDir(),
+        MAX_REFERENCES,
+      );
+      return {
+        llmContent: `${locations.length} reference(s) to ${this.getDescription()} in ${files.size} file(s), including the declaration, as path:line:column:\n${formatted}`,
+        returnDisplay: `Found ${locations.length} reference(s) in ${files.size} file(s)`,
+      };
+    } catch (error) {
+      return lspErrorResult(error, signal);
+    }
+  }
+}
+
+/** Finds every use of a symbol through the project's language server. */
+export class LspReferencesTool extends BaseDeclarativeTool<
+  LspPositionParams,
+  ToolResult
+> {
+  static readonly Name = ToolNames.LSP_REFERENCES;
+
+  constructor(private readonly config: Config) {
+    super(
+      LspReferencesTool.Name,
+      'FindReferences',
+      `Finds every place a function, class, variable or type is used across the project, using the project's language server. Unlike ${ToolNames.GREP}, it skips unrelated symbols with the same name and finds uses through imports and aliases. Use it before changing a symbol's signature. Point at the symbol by its line and name.`,
+      Kind.Search,
+      {
+        type: 'object',
+        properties: LSP_POSITION_SCHEMA_PROPERTIES,
+        required: ['file_path', 'line'],
+      },
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: LspPositionParams,
+  ): string | null {
+    return validateLspPositionParams(this.config, params);
+  }
+
+  protected createInvocation(
+    params: LspPositionParams,
+  ): ToolInvocation<LspPositionParams, ToolResult> {
+    return new LspReferencesInvocation(this.config, params);
+  }
+}
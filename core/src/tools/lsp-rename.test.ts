@@ -0,0 +1,99 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Config } from '../config/config.js';
+import { ApprovalMode } from '../config/config.js';
+import {
+  createMockWorkspaceContext,
+} from '../test-utils/mockWorkspaceContext.js';
+import { ToolErrorType } from './tool-error.js';
+import { LspRenameTool } from './lsp-rename.js';
+
+describe('LspRenameTool', () => {
+  const root = '/project';
+  const getRenameEdits = vi.fn();
+  const applyTextEdits = vi.fn();
+  let approvalMode: ApprovalMode;
+  let tool: LspRenameTool;
+
+  const build = () =>
+    tool.build({
+      file_path: '/project/src/a.ts',
+      line: 1,
+      symbol: 'oldName',
+      new_name: 'newName',
+    });
+
+  beforeEach(() => {
+    getRenameEdits.mockReset();
+    applyTextEdits.mockReset();
+    approvalMode = ApprovalMode.DEFAULT;
+    const config = {
+      getTargetDir: () => root,
+      getWorkspaceContext: () => createMockWorkspaceContext(root),
+      getApprovalMode: () => approvalMode,
+      getFileSystemService: () => ({
+        readTextFile: async () => 'export const oldName = 1;\n',
+      }),
+      getLspService: () => ({ getRenameEdits, applyTextEdits }),
+    } as unknown as Config;
+    tool = new LspRenameTool(config);
+  });
+
+  it('asks about every changed file and applies those edits', async () => {
+    const edits = new Map([
+      ['/project/src/a.ts', [{}]],
+      ['/project/src/b.ts', [{}, {}]],
+    ]);
+    getRenameEdits.mockResolvedValue(edits);
+    applyTextEdits.mockResolvedValue({
+      files: [...edits.keys()],
+      editCount: 3,
+    });
+    const invocation = build();
+    const signal = new AbortController().signal;
+
+    const details = await invocation.shouldConfirmExecute(signal);
+    expect(details && details.type === 'info' && details.prompt).toContain(
+      'changing 2 file(s)',
+    );
+    expect(invocation.toolLocations().map(({ path }) => path)).toEqual([
+      '/project/src/a.ts',
+      '/project/src/b.ts',
+    ]);
+
+    const result = await invocation.execute(signal);
+    expect(result.error).toBeUndefined();
+    expect(getRenameEdits).toHaveBeenCalledTimes(1);
+    expect(applyTextEdits).toHaveBeenCalledWith(edits);
+  });
+
+  it('changes nothing when the edits could not be computed', async () => {
+    getRenameEdits.mockRejectedValueOnce(new Error('Server is starting'));
+    getRenameEdits.mockResolvedValue(new Map([['/project/src/a.ts', [{}]]]));
+    const invocation = build();
+    const signal = new AbortController().signal;
+
+    expect(await invocation.shouldConfirmExecute(signal)).toBe(false);
+    const result = await invocation.execute(signal);
+
+    expect(result.error).toEqual({
+      message: 'Server is starting',
+      type: ToolErrorType.LSP_RENAME_FAILED,
+    });
+    expect(getRenameEdits).toHaveBeenCalledTimes(1);
+    expect(applyTextEdits).not.toHaveBeenCalled();
+  });
+
+  it('does not apply edits that were never planned', async () => {
+    const result = await build().execute(new AbortController().signal);
+
+    expect(result.error?.type).toBe(ToolErrorType.LSP_RENAME_FAILED);
+    expect(getRenameEdits).not.toHaveBeenCalled();
+    expect(applyTextEdits).not.toHaveBeenCalled();
+  });
+});
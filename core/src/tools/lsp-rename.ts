@@ -0,0 +1,191 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type {
+  ToolCallConfirmationDetails,
+  ToolInvocation,
+  ToolLocation,
+  ToolResult,
+} from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+import { ToolNames } from './tool-names.js';
+import { ToolErrorType } from './tool-error.js';
+import type { Config } from '../config/config.js';
+import { ApprovalMode } from '../config/config.js';
+import { displayPath } from '../lsp/format.js';
+import type { LspTextEdit } from '../lsp/types.js';
+import type { LspPositionParams } from './lsp-common.js';
+import {
+  LSP_POSITION_SCHEMA_PROPERTIES,
+  lspErrorResult,
+  resolveLspPosition,
+  validateLspPositionParams,
+} from './lsp-common.js';
+
+export interface LspRenameParams extends LspPositionParams {
+  /** The symbol's new name */
+  new_name: string;
+}
+
+class LspRenameInvocation extends BaseToolInvocation<
+  LspRenameParams,
+  ToolResult
+> {
+  /** Edits computed for the confirmation, applied as confirmed */
+  private edits: Map<string, LspTextEdit[]> | undefined;
+  /** Why the edits could not be computed */
+  private editsError: unknown;
+
+  constructor(
+    private readonly config: Config,
+    params: LspRenameParams,
+  ) {
+    super(params);
+  }
+
+  getDescription(): string {
+    const file = displayPath(this.params.file_path, this.config.getTargetDir());
+    const target = this.params.symbol
+      ? `'${this.params.symbol}'`
+      : `column ${this.params.column}`;
+    return `${target} at ${file}:${this.params.line} to '${this.params.new_name}'`;
+  }
+
+  /**
+   * The symbol's file, and once the edits are computed, every file they
+   * change
+   */
+  override toolLocations(): ToolLocation[] {
+    const files = new Set([
+      this.params.file_path,
+      ...(this.edits?.keys() ?? []),
+    ]);
+    return [...files].map((file) => ({ path: file }));
+  }
+
+  override async shouldConfirmExecute(
+    signal: AbortSignal,
+  ): Promise<ToolCallConfirmationDetails | false> {
+    // Computed in any mode, so the permission check sees every changed file
+    try {
+      this.edits = await this.computeEdits(signal);
+    } catch (error) {
+      // Reported by execute, which then changes nothing
+      this.editsError = error;
+      return false;
+    }
+    if (this.config.getApprovalMode() === ApprovalMode.AUTO_EDIT) {
+      return false;
+    }
+
+    const root = this.config.getTargetDir();
+    const files = [...this.edits].map(
+      ([filePath, edits]) =>
+        `- ${displayPath(filePath, root)} (${edits.length} edit(s))`,
+    );
+    return {
+      type: 'info',
+      title: 'Confirm Rename',
+      prompt: `Rename ${this.getDescription()}, changing ${files.length} file(s):\n${files.join('\n')}`,
+      // "Always allow" is saved as permission rules by the scheduler
+      onConfirm: async () => {},
+    };
+  }
+
+  async execute(signal: AbortSignal): Promise<ToolResult> {
+    // Only edits that were checked and confirmed are applied, never ones
+    // computed afresh
+    const edits = this.edits;
+    if (!edits) {
+      return lspErrorResult(
+        this.editsError ??
+          new Error('The rename was not planned before it was run.'),
+        signal,
+        ToolErrorType.LSP_RENAME_FAILED,
+      );
+    }
+    if (edits.size === 0) {
+      return {
+        llmContent: `The language server found nothing to rename for ${this.getDescription()}.`,
+        returnDisplay: 'Nothing to rename.',
+      };
+    }
+
+    try {
+      const { files, editCount } = await this.config
+        .getLspService()
+        .applyTextEdits(edits);
+      const root = this.config.getTargetDir();
+      const fileList = files.map((file) => `- ${displayPath(file, root)}`);
+      return {
+        llmContent: `Renamed ${this.getDescription()} with ${editCount} edit(s) in ${files.length} file(s):\n${fileList.join('\n')}`,
+        returnDisplay: `Renamed with ${editCount} edit(s) in ${files.length} file(s)`,
+      };
+    } catch (error) {
+      return lspErrorResult(error, signal, ToolErrorType.LSP_RENAME_FAILED);
+    }
+  }
+
+  private async computeEdits(
+    signal: AbortSignal,
+  ): Promise<Map<string, LspTextEdit[]>> {
+    const position = await resolveLspPosition(this.config, this.params);
+    return this.config
+      .getLspService()
+      .getRenameEdits(
+        this.params.file_path,
+        position,
+        this.params.new_name,
+        signal,
+      );
+  }
+}
+
+/**
+ * Renames a symbol everywhere it is used through the project's language
+ * server.
+ */
+export class LspRenameTool extends BaseDeclarativeTool<
+  LspRenameParams,
+  ToolResult
+> {
+  static readonly Name = ToolNames.LSP_RENAME;
+
+  constructor(private readonly config: Config) {
+    super(
+      LspRenameTool.Name,
+      'RenameSymbol',
+      `Renames a function, class, variable, type or other symbol and updates every reference to it across the project, using the project's language server. It is safer than editing each use with ${ToolNames.EDIT}, since it skips unrelated symbols with the same name. Point at the symbol by its line and name, at its declaration or any use.`,
+      Kind.Edit,
+      {
+        type: 'object',
+        properties: {
+          ...LSP_POSITION_SCHEMA_PROPERTIES,
+          new_name: {
+            type: 'string',
+            description: 'The new name for the symbol.',
+          },
+        },
+        required: ['file_path', 'line', 'new_name'],
+      },
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: LspRenameParams,
+  ): string | null {
+    if (!params.new_name || params.new_name.trim() === '') {
+      return "The 'new_name' parameter must be non-empty.";
+    }
+    return validateLspPositionParams(this.config, params);
+  }
+
+  protected createInvocation(
+    params: LspRenameParams,
+  ): ToolInvocation<LspRenameParams, ToolResult> {
+    return new LspRenameInvocation(this.config, params);
+  }
+}
@@ -4,9 +4,10 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import type { MCPServerConfig } from '../config/config.js';
+import type { Config, MCPServerConfig } from '../config/config.js';
 import type { ToolRegistry } from './tool-registry.js';
 import type { PromptRegistry } from '../prompts/prompt-registry.js';
+import type { ResourceRegistry } from '../resources/resource-registry.js';
 import {
   McpClient,
   MCPDiscoveryState,
@@ -26,8 +27,10 @@ export class McpClientManager {
   private readonly mcpServerCommand: string | undefined;
   private readonly toolRegistry: ToolRegistry;
   private readonly promptRegistry: PromptRegistry;
+  private readonly resourceRegistry: ResourceRegistry;
   private readonly debugMode: boolean;
   private readonly workspaceContext: WorkspaceContext;
+  private readonly config: Config;
   private discoveryState: MCPDiscoveryState = MCPDiscoveryState.NOT_STARTED;
 
   constructor(
@@ -35,15 +38,19 @@ export class McpClientManager {
     mcpServerCommand: string | undefined,
     toolRegistry: ToolRegistry,
     promptRegistry: PromptRegistry,
+    resourceRegistry: ResourceRegistry,
     debugMode: boolean,
     workspaceContext: WorkspaceContext,
+    config: Config,
   ) {
     this.mcpServers = mcpServers;
     this.mcpServerCommand = mcpServerCommand;
     this.toolRegistry = toolRegistry;
     this.promptRegistry = promptRegistry;
+    this.resourceRegistry = resourceRegistry;
     this.debugMode = debugMode;
     this.workspaceContext = workspaceContext;
+    this.config = config;
   }
 
   /**
@@ -66,8 +73,10 @@ export class McpClientManager {
           config,
           this.toolRegistry,
           this.promptRegistry,
+          this.resourceRegistry,
           this.workspaceContext,
           this.debugMode,
+          this.config,
         );
         this.clients.set(name, client);
         try {
@@ -14,22 +14,38 @@ import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/
 import type {
   Prompt,
   GetPromptResult,
+  ReadResourceResult,
+  Resource,
+  ResourceTemplate,
 } from '@modelcontextprotocol/sdk/types.js';
 import {
   ListPromptsResultSchema,
   GetPromptResultSchema,
   ListRootsRequestSchema,
+  CreateMessageRequestSchema,
+  ElicitRequestSchema,
+  ErrorCode,
+  McpError,
+  ListResourcesResultSchema,
+  ListResourceTemplatesResultSchema,
+  ReadResourceResultSchema,
+  ResourceListChangedNotificationSchema,
+  ResourceUpdatedNotificationSchema,
+  EmptyResultSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { parse } from 'shell-quote';
-import type { MCPServerConfig } from '../config/config.js';
+import type { Config, MCPServerConfig } from '../config/config.js';
 import { AuthProviderType } from '../config/config.js';
 import { GoogleCredentialProvider } from '../mcp/google-auth-provider.js';
+import { handleSamplingRequest } from '../mcp/sampling.js';
+import { handleElicitationRequest } from '../mcp/elicitation.js';
 import { DiscoveredMCPTool } from './mcp-tool.js';
 
 import type { FunctionDeclaration } from '@google/genai';
 import { mcpToTool } from '@google/genai';
 import type { ToolRegistry } from './tool-registry.js';
 import type { PromptRegistry } from '../prompts/prompt-registry.js';
+import type { ResourceRegistry } from '../resources/resource-registry.js';
 import { MCPOAuthProvider } from '../mcp/oauth-provider.js';
 import { OAuthUtils } from '../mcp/oauth-utils.js';
 import { MCPOAuthTokenStorage } from '../mcp/oauth-token-storage.js';
@@ -48,6 +64,19 @@ export type DiscoveredMCPPrompt = Prompt & {
   invoke: (params: Record<string, unknown>) => Promise<GetPromptResult>;
 };
 
+export type DiscoveredMCPResource = Resource & {
+  serverName: string;
+  read: () => Promise<ReadResourceResult>;
+  /** Set if the server notifies updates to its resources */
+  subscribe?: () => Promise<void>;
+};
+
+export type DiscoveredMCPResourceTemplate = ResourceTemplate & {
+  serverName: string;
+  /** Reads a URI that matches the template */
+  read: (uri: string) => Promise<ReadResourceResult>;
+};
+
 /**
  * Enum representing the connection status of an MCP server
  */
@@ -89,8 +118,10 @@ export class McpClient {
     private readonly serverConfig: MCPServerConfig,
     private readonly toolRegistry: ToolRegistry,
     private readonly promptRegistry: PromptRegistry,
+    private readonly resourceRegistry: ResourceRegistry,
     private readonly workspaceContext: WorkspaceContext,
     private readonly debugMode: boolean,
+    private readonly config: Config,
   ) {
     this.client = new Client({
       name: `gemini-cli-mcp-client-${this.serverName}`,
@@ -117,6 +148,8 @@ export class McpClient {
 
       this.client.registerCapabilities({
         roots: {},
+        sampling: {},
+        elicitation: {},
       });
 
       this.client.setRequestHandler(ListRootsRequestSchema, async () => {
@@ -132,6 +165,13 @@ export class McpClient {
         };
       });
 
+      setServerRequestHandlers(
+        this.client,
+        this.serverName,
+        this.serverConfig,
+        this.config,
+      );
+
       await this.client.connect(this.transport, {
         timeout: this.serverConfig.timeout,
       });
@@ -144,7 +184,7 @@ export class McpClient {
   }
 
   /**
-   * Discovers tools and prompts from the MCP server.
+   * Discovers tools, prompts and resources from the MCP server.
    */
   async discover(): Promise<void> {
     if (this.status !== MCPServerStatus.CONNECTED) {
@@ -152,10 +192,11 @@ export class McpClient {
     }
 
     const prompts = await this.discoverPrompts();
+    const resources = await this.discoverResources();
     const tools = await this.discoverTools();
 
-    if (prompts.length === 0 && tools.length === 0) {
-      throw new Error('No prompts or tools found on the server.');
+    if (prompts.length === 0 && resources.length === 0 && tools.length === 0) {
+      throw new Error('No prompts, resources or tools found on the server.');
     }
 
     for (const tool of tools) {
@@ -198,6 +239,16 @@ export class McpClient {
   private async discoverPrompts(): Promise<Prompt[]> {
     return discoverPrompts(this.serverName, this.client, this.promptRegistry);
   }
+
+  private async discoverResources(): Promise<
+    Array<Resource | ResourceTemplate>
+  > {
+    return discoverResources(
+      this.serverName,
+      this.client,
+      this.resourceRegistry,
+    );
+  }
 }
 
 /**
@@ -443,8 +494,10 @@ export async function discoverMcpTools(
   mcpServerCommand: string | undefined,
   toolRegistry: ToolRegistry,
   promptRegistry: PromptRegistry,
+  resourceRegistry: ResourceRegistry,
   debugMode: boolean,
   workspaceContext: WorkspaceContext,
+  config: Config,
 ): Promise<void> {
   mcpDiscoveryState = MCPDiscoveryState.IN_PROGRESS;
   try {
@@ -457,8 +510,10 @@ export async function discoverMcpTools(
           mcpServerConfig,
           toolRegistry,
           promptRegistry,
+          resourceRegistry,
           debugMode,
           workspaceContext,
+          config,
         ),
     );
     await Promise.all(discoveryPromises);
@@ -502,8 +557,10 @@ export async function connectAndDiscover(
   mcpServerConfig: MCPServerConfig,
   toolRegistry: ToolRegistry,
   promptRegistry: PromptRegistry,
+  resourceRegistry: ResourceRegistry,
   debugMode: boolean,
   workspaceContext: WorkspaceContext,
+  config: Config,
 ): Promise<void> {
   updateMCPServerStatus(mcpServerName, MCPServerStatus.CONNECTING);
 
@@ -514,6 +571,7 @@ export async function connectAndDiscover(
       mcpServerConfig,
       debugMode,
       workspaceContext,
+      config,
     );
 
     mcpClient.onerror = (error) => {
@@ -521,21 +579,26 @@ export async function connectAndDiscover(
       updateMCPServerStatus(mcpServerName, MCPServerStatus.DISCONNECTED);
     };
 
-    // Attempt to discover both prompts and tools
+    // Attempt to discover prompts, resources and tools
     const prompts = await discoverPrompts(
       mcpServerName,
       mcpClient,
       promptRegistry,
     );
+    const resources = await discoverResources(
+      mcpServerName,
+      mcpClient,
+      resourceRegistry,
+    );
     const tools = await discoverTools(
       mcpServerName,
       mcpServerConfig,
       mcpClient,
     );
 
-    // If we have neither prompts nor tools, it's a failed discovery
-    if (prompts.length === 0 && tools.length === 0) {
-      throw new Error('No prompts or tools found on the server.');
+    // If we have no prompts, resources or tools, it's a failed discovery
+    if (prompts.length === 0 && resources.length === 0 && tools.length === 0) {
+      throw new Error('No prompts, resources or tools found on the server.');
     }
 
     // If we found anything, the server is connected
@@ -783,6 +846,204 @@ export async function invokeMcpPrompt(
   }
 }
 
+/**
+ * Discovers the resources and resource templates of a connected MCP client
+ * and registers them. If the server supports it, the registry is subscribed
+ * to updates of resources and to changes of the list.
+ *
+ * @param mcpServerName The name of the MCP server.
+ * @param mcpClient The active MCP client instance.
+ * @param resourceRegistry The registry to register the resources with.
+ * @returns The resources and templates found.
+ */
+export async function discoverResources(
+  mcpServerName: string,
+  mcpClient: Client,
+  resourceRegistry: ResourceRegistry,
+): Promise<Array<Resource | ResourceTemplate>> {
+  try {
+    // Only request resources if the server supports them.
+    const capabilities = mcpClient.getServerCapabilities()?.resources;
+    if (capabilities == null) return [];
+
+    const resources: Resource[] = [];
+    let cursor: string | undefined;
+    do {
+      const response = await mcpClient.request(
+        { method: 'resources/list', params: cursor ? { cursor } : {} },
+        ListResourcesResultSchema,
+      );
+      resources.push(...response.resources);
+      cursor = response.nextCursor;
+    } while (cursor);
+    const templates = await listResourceTemplates(mcpServerName, mcpClient);
+
+    for (const resource of resources) {
+      resourceRegistry.registerResource({
+        ...resource,
+        serverName: mcpServerName,
+        read: () => readMcpResource(mcpServerName, mcpClient, resource.uri),
+        subscribe: capabilities.subscribe
+          ? () => subscribeMcpResource(mcpClient, resource.uri)
+          : undefined,
+      });
+    }
+    for (const template of templates) {
+      resourceRegistry.registerResourceTemplate({
+        ...template,
+        serverName: mcpServerName,
+        read: (uri: string) => readMcpResource(mcpServerName, mcpClient, uri),
+      });
+    }
+
+    if (capabilities.subscribe) {
+      mcpClient.setNotificationHandler(
+        ResourceUpdatedNotificationSchema,
+        (notification) => {
+          resourceRegistry.invalidateResource(
+            mcpServerName,
+            notification.params.uri,
+          );
+        },
+      );
+    }
+    if (capabilities.listChanged) {
+      mcpClient.setNotificationHandler(
+        ResourceListChangedNotificationSchema,
+        async () => {
+          resourceRegistry.removeResourcesByServer(mcpServerName);
+          await discoverResources(mcpServerName, mcpClient, resourceRegistry);
+        },
+      );
+    }
+    return [...resources, ...templates];
+  } catch (error) {
+    // It's okay if this fails, not all servers will have resources.
+    if (
+      error instanceof Error &&
+      !error.message?.includes('Method not found')
+    ) {
+      console.error(
+        `Error discovering resources from ${mcpServerName}: ${getErrorMessage(
+          error,
+        )}`,
+      );
+    }
+    return [];
+  }
+}
+
+/**
+ * Lists the resource templates of a server. Servers with resources need not
+ * have templates, so a failure leaves the resources usable.
+ */
+async function listResourceTemplates(
+  mcpServerName: string,
+  mcpClient: Client,
+): Promise<ResourceTemplate[]> {
+  const templates: ResourceTemplate[] = [];
+  try {
+    let cursor: string | undefined;
+    do {
+      const response = await mcpClient.request(
+        {
+          method: 'resources/templates/list',
+          params: cursor ? { cursor } : {},
+        },
+        ListResourceTemplatesResultSchema,
+      );
+      templates.push(...response.resourceTemplates);
+      cursor = response.nextCursor;
+    } while (cursor);
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      !error.message?.includes('Method not found')
+    ) {
+      console.error(
+        `Error discovering resource templates from ${mcpServerName}: ${getErrorMessage(
+          error,
+        )}`,
+      );
+    }
+  }
+  return templates;
+}
+
+/**
+ * Reads a resource from a connected MCP client.
+ *
+ * @param mcpServerName The name of the MCP server.
+ * @param mcpClient The active MCP client instance.
+ * @param uri The URI of the resource to read.
+ * @returns A promise that resolves to the contents of the resource.
+ */
+export async function readMcpResource(
+  mcpServerName: string,
+  mcpClient: Client,
+  uri: string,
+): Promise<ReadResourceResult> {
+  try {
+    return await mcpClient.request(
+      { method: 'resources/read', params: { uri } },
+      ReadResourceResultSchema,
+    );
+  } catch (error) {
+    console.error(
+      `Error reading resource '${uri}' from ${mcpServerName}: ${getErrorMessage(
+        error,
+      )}`,
+    );
+    throw error;
+  }
+}
+
+async function subscribeMcpResource(
+  mcpClient: Client,
+  uri: string,
+): Promise<void> {
+  await mcpClient.request(
+    { method: 'resources/subscribe', params: { uri } },
+    EmptyResultSchema,
+  );
+}
+
+/**
+ * Answers the requests a server makes of the client: sampling with the
+ * active model and elicitation of the user's input. The client must have
+ * registered the `sampling` and `elicitation` capabilities.
+ */
+function setServerRequestHandlers(
+  mcpClient: Client,
+  mcpServerName: string,
+  mcpServerConfig: MCPServerConfig,
+  config: Config,
+): void {
+  mcpClient.setRequestHandler(CreateMessageRequestSchema, (request, extra) =>
+    handleSamplingRequest(
+      config,
+      mcpServerName,
+      mcpServerConfig,
+      request.params,
+      extra.signal,
+    ),
+  );
+  mcpClient.setRequestHandler(ElicitRequestSchema, (request, extra) => {
+    if (request.params.mode === 'url') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'URL elicitation is not supported.',
+      );
+    }
+    return handleElicitationRequest(
+      config,
+      mcpServerName,
+      request.params,
+      extra.signal,
+    );
+  });
+}
+
 /**
  * @visiblefortesting
  * Checks if the MCP server configuration has a network transport URL (SSE or HTTP).
@@ -808,6 +1069,7 @@ export async function connectToMcpServer(
   mcpServerConfig: MCPServerConfig,
   debugMode: boolean,
   workspaceContext: WorkspaceContext,
+  config: Config,
 ): Promise<Client> {
   const mcpClient = new Client({
     name: 'qwen-code-mcp-client',
@@ -818,6 +1080,8 @@ export async function connectToMcpServer(
     roots: {
       listChanged: true,
     },
+    sampling: {},
+    elicitation: {},
   });
 
   mcpClient.setRequestHandler(ListRootsRequestSchema, async () => {
@@ -833,6 +1097,8 @@ export async function connectToMcpServer(
     };
   });
 
+  setServerRequestHandlers(mcpClient, mcpServerName, mcpServerConfig, config);
+
   let unlistenDirectories: Unsubscribe | undefined =
     workspaceContext.onDirectoriesChanged(async () => {
       try {
@@ -0,0 +1,434 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as path from 'node:path';
+import * as Diff from 'diff';
+import type {
+  FileDiff,
+  ToolCallConfirmationDetails,
+  ToolEditConfirmationDetails,
+  ToolInvocation,
+  ToolLocation,
+  ToolResult,
+} from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+import { ToolErrorType } from './tool-error.js';
+import { ToolNames } from './tool-names.js';
+import type { Config } from '../config/config.js';
+import { ApprovalMode } from '../config/config.js';
+import { DEFAULT_DIFF_OPTIONS, getDiffStat } from './diffOptions.js';
+import { makeRelative, shortenPath } from '../utils/paths.js';
+import { getErrorMessage, isNodeError } from '../utils/errors.js';
+import type { Notebook, NotebookCellType } from '../utils/notebookUtils.js';
+import {
+  NotebookCellNotFoundError,
+  NotebookError,
+  createCell,
+  findCellIndex,
+  getCellSource,
+  parseNotebook,
+  renderNotebookSources,
+  serializeNotebook,
+  setCellType,
+  toNotebookLines,
+} from '../utils/notebookUtils.js';
+import { FileOperation } from '../telemetry/metrics.js';
+import { logFileOperation } from '../telemetry/loggers.js';
+import { FileOperationEvent } from '../telemetry/types.js';
+import { getProgrammingLanguage } from '../telemetry/telemetry-utils.js';
+import { getSpecificMimeType } from '../utils/fileUtils.js';
+
+export type NotebookEditMode = 'replace' | 'insert' | 'delete' | 'move';
+
+export interface NotebookEditToolParams {
+  /** The absolute path to the `.ipynb` file */
+  notebook_path: string;
+  edit_mode: NotebookEditMode;
+  /** The cell to change, or for `insert`, the cell to insert after */
+  cell_id?: string;
+  /** The cell to change, or for `insert`, the index of the new cell */
+  cell_index?: number;
+  /** Source of the replaced or inserted cell */
+  new_source?: string;
+  /** Type of the inserted cell, or the new type of a replaced cell */
+  cell_type?: NotebookCellType;
+  /** For `move`, the index the cell ends up at */
+  new_index?: number;
+}
+
+interface CalculatedNotebookEdit {
+  currentContent: string;
+  newContent: string;
+  oldNotebook: Notebook;
+  newNotebook: Notebook;
+  /** What was done, e.g. `Replaced cell 3 (id 1a2b3c4d)` */
+  summary: string;
+}
+
+const EDIT_MODES: NotebookEditMode[] = ['replace', 'insert', 'delete', 'move'];
+const CELL_TYPES: NotebookCellType[] = ['code', 'markdown', 'raw'];
+
+class NotebookEditToolInvocation extends BaseToolInvocation<
+  NotebookEditToolParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    params: NotebookEditToolParams,
+  ) {
+    super(params);
+  }
+
+  getDescription(): string {
+    const relativePath = shortenPath(
+      makeRelative(this.params.notebook_path, this.config.getTargetDir()),
+    );
+    const { edit_mode, cell_id, cell_index, new_index } = this.params;
+    const cell =
+      cell_id !== undefined
+        ? `cell ${cell_id}`
+        : cell_index !== undefined
+          ? `cell ${cell_index}`
+          : 'a cell';
+    switch (edit_mode) {
+      case 'insert':
+        return `${relativePath}: insert ${this.params.cell_type ?? 'code'} cell`;
+      case 'move':
+        return `${relativePath}: move ${cell} to ${new_index}`;
+      default:
+        return `${relativePath}: ${edit_mode} ${cell}`;
+    }
+  }
+
+  override toolLocations(): ToolLocation[] {
+    return [{ path: this.params.notebook_path }];
+  }
+
+  override async shouldConfirmExecute(
+    _abortSignal: AbortSignal,
+  ): Promise<ToolCallConfirmationDetails | false> {
+    if (this.config.getApprovalMode() === ApprovalMode.AUTO_EDIT) {
+      return false;
+    }
+
+    let editData: CalculatedNotebookEdit;
+    try {
+      editData = await this.calculateEdit();
+    } catch {
+      // Reported by execute
+      return false;
+    }
+
+    const display = this.toFileDiff(editData);
+    const confirmationDetails: ToolEditConfirmationDetails = {
+      type: 'edit',
+      title: `Confirm Notebook Edit: ${shortenPath(makeRelative(this.params.notebook_path, this.config.getTargetDir()))}`,
+      fileName: display.fileName,
+      filePath: this.params.notebook_path,
+      fileDiff: display.fileDiff,
+      originalContent: editData.currentContent,
+      newContent: editData.newContent,
+      files: display.files,
+      // "Always allow" is saved as permission rules by the scheduler
+      onConfirm: async () => {},
+    };
+    return confirmationDetails;
+  }
+
+  async execute(_signal: AbortSignal): Promise<ToolResult> {
+    let editData: CalculatedNotebookEdit;
+    try {
+      editData = await this.calculateEdit();
+    } catch (error) {
+      const message = getErrorMessage(error);
+      let type = ToolErrorType.EDIT_PREPARATION_FAILURE;
+      if (isNodeError(error) && error.code === 'ENOENT') {
+        type = ToolErrorType.FILE_NOT_FOUND;
+      } else if (error instanceof NotebookCellNotFoundError) {
+        type = ToolErrorType.NOTEBOOK_CELL_NOT_FOUND;
+      } else if (error instanceof NotebookError) {
+        type = ToolErrorType.NOTEBOOK_INVALID;
+      }
+      return {
+        llmContent: `Failed to edit notebook: ${message}`,
+        returnDisplay: `Error: ${message}`,
+        error: { message, type },
+      };
+    }
+
+    try {
+      await this.config
+        .getFileSystemService()
+        .writeTextFile(this.params.notebook_path, editData.newContent);
+    } catch (error) {
+      const message = getErrorMessage(error);
+      return {
+        llmContent: `Failed to write notebook: ${message}`,
+        returnDisplay: `Error writing notebook: ${message}`,
+        error: { message, type: ToolErrorType.FILE_WRITE_FAILURE },
+      };
+    }
+
+    const display = this.toFileDiff(editData);
+    logFileOperation(
+      this.config,
+      new FileOperationEvent(
+        NotebookEditTool.Name,
+        FileOperation.UPDATE,
+        editData.newContent.split('\n').length,
+        getSpecificMimeType(this.params.notebook_path),
+        path.extname(this.params.notebook_path),
+        display.diffStat,
+        getProgrammingLanguage({ file_path: this.params.notebook_path }),
+      ),
+    );
+    return {
+      llmContent: `${editData.summary} in ${this.params.notebook_path}. The notebook now has ${editData.newNotebook.cells.length} cells.`,
+      returnDisplay: display,
+    };
+  }
+
+  /**
+   * Applies the edit to the notebook as it is on disk, keeping the
+   * metadata of the notebook and of every other cell.
+   * @throws NotebookError if the file is not a notebook or the cell does
+   *   not exist, or a file system error if it cannot be read
+   */
+  private async calculateEdit(): Promise<CalculatedNotebookEdit> {
+    const currentContent = await this.config
+      .getFileSystemService()
+      .readTextFile(this.params.notebook_path);
+    const oldNotebook = parseNotebook(currentContent);
+    const notebook: Notebook = structuredClone(oldNotebook);
+    const { cells } = notebook;
+    const { edit_mode, cell_type } = this.params;
+    const describe = (index: number) => {
+      const id = cells[index].id;
+      return `cell ${index}${id ? ` (id ${id})` : ''}`;
+    };
+
+    let summary: string;
+    switch (edit_mode) {
+      case 'insert': {
+        let index = cells.length;
+        if (this.params.cell_id !== undefined) {
+          index = findCellIndex(notebook, this.params) + 1;
+        } else if (this.params.cell_index !== undefined) {
+          if (this.params.cell_index > cells.length) {
+            throw new NotebookCellNotFoundError(
+              `Cell index ${this.params.cell_index} is out of range; the notebook has ${cells.length} cells, so a new cell can be inserted at 0 to ${cells.length}.`,
+            );
+          }
+          index = this.params.cell_index;
+        }
+        cells.splice(
+          index,
+          0,
+          createCell(notebook, cell_type ?? 'code', this.params.new_source!),
+        );
+        summary = `Inserted ${describe(index)}`;
+        break;
+      }
+      case 'replace': {
+        const index = findCellIndex(notebook, this.params);
+        const cell = cells[index];
+        if (cell_type) {
+          setCellType(cell, cell_type);
+        }
+        if (getCellSource(cell) !== this.params.new_source) {
+          cell.source = toNotebookLines(this.params.new_source!);
+          if (cell.cell_type === 'code') {
+            // Outputs of the old source would be misleading
+            cell.execution_count = null;
+            cell.outputs = [];
+          }
+        }
+        summary = `Replaced ${describe(index)}`;
+        break;
+      }
+      case 'delete': {
+        const index = findCellIndex(notebook, this.params);
+        summary = `Deleted ${describe(index)}`;
+        cells.splice(index, 1);
+        break;
+      }
+      case 'move': {
+        const index = findCellIndex(notebook, this.params);
+        const newIndex = this.params.new_index!;
+        if (newIndex >= cells.length) {
+          throw new NotebookCellNotFoundError(
+            `new_index ${newIndex} is out of range; the notebook has ${cells.length} cells.`,
+          );
+        }
+        const [cell] = cells.splice(index, 1);
+        cells.splice(newIndex, 0, cell);
+        summary = `Moved cell ${index} to ${describe(newIndex)}`;
+        break;
+      }
+      default:
+        throw new NotebookError(`Unknown edit mode: ${edit_mode}`);
+    }
+
+    return {
+      currentContent,
+      newContent: serializeNotebook(notebook, currentContent),
+      oldNotebook,
+      newNotebook: notebook,
+      summary,
+    };
+  }
+
+  /** A diff of the cells' sources; one of the JSON would bury the change */
+  private toFileDiff(editData: CalculatedNotebookEdit): FileDiff {
+    const fileName = path.basename(this.params.notebook_path);
+    const oldSources = renderNotebookSources(editData.oldNotebook);
+    const newSources = renderNotebookSources(editData.newNotebook);
+    return {
+      fileDiff: Diff.createPatch(
+        fileName,
+        oldSources,
+        newSources,
+        'Current',
+        'Proposed',
+        DEFAULT_DIFF_OPTIONS,
+      ),
+      fileName,
+      originalContent: editData.currentContent,
+      newContent: editData.newContent,
+      diffStat: getDiffStat(fileName, oldSources, newSources, newSources),
+      files: [
+        {
+          filePath: this.params.notebook_path,
+          originalContent: editData.currentContent,
+          newContent: editData.newContent,
+        },
+      ],
+    };
+  }
+}
+
+/**
+ * Changes the cells of a Jupyter notebook, keeping its JSON structure and
+ * metadata intact.
+ */
+export class NotebookEditTool extends BaseDeclarativeTool<
+  NotebookEditToolParams,
+  ToolResult
+> {
+  static readonly Name = ToolNames.NOTEBOOK_EDIT;
+
+  constructor(private readonly config: Config) {
+    super(
+      NotebookEditTool.Name,
+      'NotebookEdit',
+      `Changes the cells of a Jupyter notebook (.ipynb): replacing a cell's source, inserting, deleting or moving a cell. Always use this tool instead of '${ToolNames.EDIT}' for notebooks, whose JSON is easily corrupted by text replacement. Read the notebook with '${ToolNames.READ_FILE}' first to see each cell's index and id.
+
+Identify the cell by 'cell_id' (preferred, as indices shift when cells are inserted or deleted) or by 'cell_index' (0-based).
+- 'replace': sets the cell's source to 'new_source', and its type to 'cell_type' if given. The outputs of a changed code cell are cleared.
+- 'insert': inserts a new cell of 'cell_type' (default 'code') with 'new_source', after the cell given by 'cell_id', at 'cell_index', or at the end if neither is given.
+- 'delete': deletes the cell.
+- 'move': moves the cell so it ends up at 'new_index'.`,
+      Kind.Edit,
+      {
+        type: 'object',
+        properties: {
+          notebook_path: {
+            type: 'string',
+            description: 'The absolute path to the notebook (.ipynb) file.',
+          },
+          edit_mode: {
+            type: 'string',
+            enum: EDIT_MODES,
+            description: 'The kind of change.',
+          },
+          cell_id: {
+            type: 'string',
+            description:
+              "The id of the cell to change; for 'insert', of the cell to insert after.",
+          },
+          cell_index: {
+            type: 'number',
+            description:
+              "The 0-based index of the cell to change; for 'insert', the index of the new cell. Use when cells have no ids.",
+          },
+          new_source: {
+            type: 'string',
+            description: "The source of the cell, for 'replace' and 'insert'.",
+          },
+          cell_type: {
+            type: 'string',
+            enum: CELL_TYPES,
+            description:
+              'The type of the inserted cell, or the new type of a replaced cell.',
+          },
+          new_index: {
+            type: 'number',
+            description: "For 'move': the 0-based index to move the cell to.",
+          },
+        },
+        required: ['notebook_path', 'edit_mode'],
+      },
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: NotebookEditToolParams,
+  ): string | null {
+    const filePath = params.notebook_path;
+    if (!filePath || !path.isAbsolute(filePath)) {
+      return `Notebook path must be absolute: ${filePath}`;
+    }
+    if (path.extname(filePath).toLowerCase() !== '.ipynb') {
+      return `${filePath} is not a Jupyter notebook (.ipynb) file. Use '${ToolNames.EDIT}' for other files.`;
+    }
+    const workspaceContext = this.config.getWorkspaceContext();
+    if (!workspaceContext.isPathWithinWorkspace(filePath)) {
+      const directories = workspaceContext.getDirectories();
+      return `Notebook path must be within one of the workspace directories: ${directories.join(', ')}`;
+    }
+    if (!EDIT_MODES.includes(params.edit_mode)) {
+      return `'edit_mode' must be one of ${EDIT_MODES.join(', ')}.`;
+    }
+    if (
+      params.cell_type !== undefined &&
+      !CELL_TYPES.includes(params.cell_type)
+    ) {
+      return `'cell_type' must be one of ${CELL_TYPES.join(', ')}.`;
+    }
+    if (params.cell_id !== undefined && params.cell_index !== undefined) {
+      return "Provide either 'cell_id' or 'cell_index', not both.";
+    }
+    for (const name of ['cell_index', 'new_index'] as const) {
+      const value = params[name];
+      if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+        return `'${name}' must be a non-negative integer.`;
+      }
+    }
+    if (
+      params.edit_mode !== 'insert' &&
+      params.cell_id === undefined &&
+      params.cell_index === undefined
+    ) {
+      return `'${params.edit_mode}' needs the cell, as 'cell_id' or 'cell_index'.`;
+    }
+    if (
+      (params.edit_mode === 'replace' || params.edit_mode === 'insert') &&
+      params.new_source === undefined
+    ) {
+      return `'${params.edit_mode}' needs 'new_source'.`;
+    }
+    if (params.edit_mode === 'move' && params.new_index === undefined) {
+      return "'move' needs 'new_index'.";
+    }
+    return null;
+  }
+
+  protected createInvocation(
+    params: NotebookEditToolParams,
+  ): ToolInvocation<NotebookEditToolParams, ToolResult> {
+    return new NotebookEditToolInvocation(this.config, params);
+  }
+}
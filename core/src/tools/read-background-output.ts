@@ -0,0 +1,140 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { ToolInvocation, ToolResult } from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+import type { Config } from '../config/config.js';
+import { ToolNames } from './tool-names.js';
+import { ToolErrorType } from './tool-error.js';
+import {
+  DEFAULT_MAX_READ_CHARS,
+  describeBackgroundJob,
+} from '../services/backgroundJobService.js';
+
+export interface ReadBackgroundOutputParams {
+  job_id: number;
+  /** Output offset returned by the previous read */
+  cursor?: number;
+  max_chars?: number;
+}
+
+class ReadBackgroundOutputInvocation extends BaseToolInvocation<
+  ReadBackgroundOutputParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    params: ReadBackgroundOutputParams,
+  ) {
+    super(params);
+  }
+
+  getDescription(): string {
+    return `job ${this.params.job_id}`;
+  }
+
+  async execute(_signal: AbortSignal): Promise<ToolResult> {
+    const service = this.config.getBackgroundJobService();
+    const job = service.get(this.params.job_id);
+    const output = service.readOutput(
+      this.params.job_id,
+      this.params.cursor,
+      this.params.max_chars,
+    );
+    if (!job || !output) {
+      const message = `No background job with ID ${this.params.job_id}. Use ${ToolNames.LIST_BACKGROUND_JOBS} to see the jobs.`;
+      return {
+        llmContent: message,
+        returnDisplay: `No background job ${this.params.job_id}.`,
+        error: { message, type: ToolErrorType.BACKGROUND_JOB_NOT_FOUND },
+      };
+    }
+
+    const sections = [
+      describeBackgroundJob(job),
+      `Next cursor: ${output.cursor}`,
+    ];
+    if (output.skippedChars > 0) {
+      sections.push(
+        `(${output.skippedChars} earlier characters of output were skipped)`,
+      );
+    }
+    if (!output.stdout && !output.stderr) {
+      sections.push('No new output.');
+    }
+    if (output.stdout) {
+      sections.push(`Stdout:\n${output.stdout}`);
+    }
+    if (output.stderr) {
+      sections.push(`Stderr:\n${output.stderr}`);
+    }
+
+    const newChars = output.stdout.length + output.stderr.length;
+    return {
+      llmContent: sections.join('\n'),
+      returnDisplay:
+        newChars > 0
+          ? `Read ${newChars} characters of output (${job.status}).`
+          : `No new output (${job.status}).`,
+    };
+  }
+}
+
+/**
+ * Reads the output a background job has written since a cursor.
+ */
+export class ReadBackgroundOutputTool extends BaseDeclarativeTool<
+  ReadBackgroundOutputParams,
+  ToolResult
+> {
+  static readonly Name = ToolNames.READ_BACKGROUND_OUTPUT;
+
+  constructor(private readonly config: Config) {
+    super(
+      ReadBackgroundOutputTool.Name,
+      'ReadJobOutput',
+      `Reads the stdout and stderr a background job (started with ${ToolNames.SHELL} and is_background: true) has written, along with its status. Without a cursor it returns the output written since the previous read of that job; pass the returned cursor to continue from a specific point, or 0 to read from the start. Only the newest output is kept and returned, up to max_chars characters.`,
+      Kind.Read,
+      {
+        type: 'object',
+        properties: {
+          job_id: {
+            type: 'number',
+            description: 'The ID of the background job.',
+          },
+          cursor: {
+            type: 'number',
+            description:
+              'Optional: the cursor returned by an earlier read. Output written after it is returned.',
+          },
+          max_chars: {
+            type: 'number',
+            description: `Optional: the most characters of output to return. Defaults to ${DEFAULT_MAX_READ_CHARS}.`,
+          },
+        },
+        required: ['job_id'],
+      },
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: ReadBackgroundOutputParams,
+  ): string | null {
+    if (params.cursor !== undefined && params.cursor < 0) {
+      return 'cursor must not be negative.';
+    }
+    if (params.max_chars !== undefined && params.max_chars <= 0) {
+      return 'max_chars must be positive.';
+    }
+    return null;
+  }
+
+  protected createInvocation(
+    params: ReadBackgroundOutputParams,
+  ): ToolInvocation<ReadBackgroundOutputParams, ToolResult> {
+    return new ReadBackgroundOutputInvocation(this.config, params);
+  }
+}
@@ -85,7 +85,17 @@ class ReadFileToolInvocation extends BaseToolInvocation<
     }
 
     let llmContent: PartUnion;
-    if (result.isTruncated) {
+    if (result.isTruncated && result.cellsShown) {
+      const [start, end] = result.cellsShown;
+      const total = result.originalCellCount!;
+      llmContent = `
+IMPORTANT: The notebook has been truncated.
+Status: Showing cells ${start}-${end} of ${total} total cells.
+Action: To read more of the notebook, you can use the 'offset' and 'limit' parameters in a subsequent 'read_file' call; for notebooks, they count cells. For example, to read the next cells, use offset: ${end}.
+
+--- NOTEBOOK CONTENT (truncated) ---
+${result.llmContent}`;
+    } else if (result.isTruncated) {
       const [start, end] = result.linesShown!;
       const total = result.originalLineCount!;
       const nextOffset = this.params.offset
@@ -124,7 +134,7 @@ ${result.llmContent}`;
     );
 
     return {
-      llmContent,
+      llmContent: result.images ? [llmContent, ...result.images] : llmContent,
       returnDisplay: result.returnDisplay || '',
     };
   }
@@ -143,7 +153,7 @@ export class ReadFileTool extends BaseDeclarativeTool<
     super(
       ReadFileTool.Name,
       'ReadFile',
-      `Reads and returns the content of a specified file. If the file is large, the content will be truncated. The tool's response will clearly indicate if truncation has occurred and will provide details on how to read more of the file using the 'offset' and 'limit' parameters. Handles text, images (PNG, JPG, GIF, WEBP, SVG, BMP), and PDF files. For text files, it can read specific line ranges.`,
+      `Reads and returns the content of a specified file. If the file is large, the content will be truncated. The tool's response will clearly indicate if truncation has occurred and will provide details on how to read more of the file using the 'offset' and 'limit' parameters. Handles text, images (PNG, JPG, GIF, WEBP, SVG, BMP), PDF files and Jupyter notebooks, which are shown cell by cell with their outputs. For text files, it can read specific line ranges.`,
       Kind.Read,
       {
         properties: {
@@ -154,12 +164,12 @@ export class ReadFileTool extends BaseDeclarativeTool<
           },
           offset: {
             description:
-              "Optional: For text files, the 0-based line number to start reading from. Requires 'limit' to be set. Use for paginating through large files.",
+              "Optional: For text files, the 0-based line number to start reading from; for notebooks, the 0-based index of the first cell. Requires 'limit' to be set. Use for paginating through large files.",
             type: 'number',
           },
           limit: {
             description:
-              "Optional: For text files, maximum number of lines to read. Use with 'offset' to paginate through large files. If omitted, reads the entire file (if feasible, up to a default limit).",
+              "Optional: For text files, maximum number of lines to read; for notebooks, the number of cells. Use with 'offset' to paginate through large files. If omitted, reads the entire file (if feasible, up to a default limit).",
             type: 'number',
           },
         },
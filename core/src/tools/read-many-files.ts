@@ -426,6 +426,7 @@ ${finalExclusionPatternsForDescription
             }
             fileContentForLlm += fileReadResult.llmContent;
             contentParts.push(`${separator}\n\n${fileContentForLlm}\n\n`);
+            contentParts.push(...(fileReadResult.images ?? []));
           } else {
             // This is a Part for image/pdf, which we don't add the separator to.
             contentParts.push(fileReadResult.llmContent);
@@ -0,0 +1,233 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { Part } from '@google/genai';
+import type { ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolInvocation, ToolResult } from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+import type { Config } from '../config/config.js';
+import { ToolNames } from './tool-names.js';
+import { ToolErrorType } from './tool-error.js';
+import { ResourceNotFoundError } from '../resources/resource-registry.js';
+import type { ResourceRegistry } from '../resources/resource-registry.js';
+import { getErrorMessage } from '../utils/errors.js';
+
+export interface ReadMcpResourceParams {
+  /** The MCP server that offers the resource */
+  server_name?: string;
+  /** Resource URI; without it the resources are listed */
+  uri?: string;
+}
+
+/** Binary contents of these types are passed to the model as they are */
+const INLINE_MIME_TYPES = ['image/', 'audio/', 'video/', 'application/pdf'];
+
+/**
+ * Renders the contents of a resource as parts: text as it is, media as
+ * inline data and other binary data as a note.
+ */
+function toParts(result: ReadResourceResult, fallbackMimeType?: string) {
+  const parts: Part[] = [];
+  for (const content of result.contents) {
+    const header =
+      result.contents.length > 1 ? `--- ${content.uri} ---\n` : '';
+    if (typeof content['text'] === 'string') {
+      parts.push({ text: `${header}${content['text']}` });
+      continue;
+    }
+    const blob = typeof content['blob'] === 'string' ? content['blob'] : '';
+    const mimeType =
+      content.mimeType ?? fallbackMimeType ?? 'application/octet-stream';
+    if (INLINE_MIME_TYPES.some((type) => mimeType.startsWith(type))) {
+      parts.push({ text: `${header}[${mimeType} content, attached below]` });
+      parts.push({ inlineData: { mimeType, data: blob } });
+    } else {
+      const bytes = Buffer.from(blob, 'base64').length;
+      parts.push({
+        text: `${header}[Binary ${mimeType} content of ${bytes} bytes, which cannot be shown]`,
+      });
+    }
+  }
+  return parts;
+}
+
+/** The resources and templates of the servers, one per line */
+function describeResources(
+  registry: ResourceRegistry,
+  serverNames: string[],
+): string {
+  const sections: string[] = [];
+  for (const serverName of serverNames) {
+    const lines: string[] = [];
+    for (const resource of registry.getResourcesByServer(serverName)) {
+      const details = [resource.title ?? resource.name, resource.mimeType]
+        .filter(Boolean)
+        .join(', ');
+      const description = resource.description
+        ? `: ${resource.description}`
+        : '';
+      lines.push(`- ${resource.uri} (${details})${description}`);
+    }
+    const templates = registry.getResourceTemplatesByServer(serverName);
+    if (templates.length > 0) {
+      lines.push('Templates, any matching URI can be read:');
+      for (const template of templates) {
+        const description = template.description
+          ? `: ${template.description}`
+          : '';
+        lines.push(
+          `- ${template.uriTemplate} (${template.title ?? template.name})${description}`,
+        );
+      }
+    }
+    sections.push(
+      `Resources of MCP server '${serverName}':\n${lines.join('\n')}`,
+    );
+  }
+  return sections.join('\n\n');
+}
+
+class ReadMcpResourceInvocation extends BaseToolInvocation<
+  ReadMcpResourceParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    params: ReadMcpResourceParams,
+  ) {
+    super(params);
+  }
+
+  getDescription(): string {
+    const { server_name, uri } = this.params;
+    if (uri) {
+      return `${server_name}:${uri}`;
+    }
+    return server_name
+      ? `resources of ${server_name}`
+      : 'resources of all MCP servers';
+  }
+
+  async execute(_signal: AbortSignal): Promise<ToolResult> {
+    const registry = this.config.getResourceRegistry();
+    const { server_name, uri } = this.params;
+    if (!uri) {
+      return this.listResources(registry, server_name);
+    }
+
+    const serverName = server_name!;
+    const resource = registry.getResource(serverName, uri);
+    try {
+      const result = await registry.readResource(serverName, uri);
+      const parts = toParts(result, resource?.mimeType);
+      const characters = parts.reduce(
+        (sum, part) => sum + (part.inlineData ? 0 : (part.text?.length ?? 0)),
+        0,
+      );
+      return {
+        llmContent: parts,
+        returnDisplay: `Read ${serverName}:${uri} (${characters} characters of text).`,
+      };
+    } catch (error) {
+      if (error instanceof ResourceNotFoundError) {
+        const message = `${error.message} Call ${ToolNames.READ_MCP_RESOURCE} without a uri to list the resources.`;
+        return {
+          llmContent: message,
+          returnDisplay: `No resource ${serverName}:${uri}.`,
+          error: { message, type: ToolErrorType.MCP_RESOURCE_NOT_FOUND },
+        };
+      }
+      const message = `Error reading resource '${uri}' from MCP server '${serverName}': ${getErrorMessage(error)}`;
+      return {
+        llmContent: message,
+        returnDisplay: message,
+        error: { message, type: ToolErrorType.MCP_RESOURCE_READ_FAILED },
+      };
+    }
+  }
+
+  private listResources(
+    registry: ResourceRegistry,
+    serverName: string | undefined,
+  ): ToolResult {
+    const serverNames = registry
+      .getServerNames()
+      .filter((name) => serverName === undefined || name === serverName);
+    if (serverNames.length === 0) {
+      const message = serverName
+        ? `MCP server '${serverName}' offers no resources.`
+        : 'No MCP server offers resources.';
+      return {
+        llmContent: message,
+        returnDisplay: message,
+        error: { message, type: ToolErrorType.MCP_RESOURCE_NOT_FOUND },
+      };
+    }
+    const count = serverNames.reduce(
+      (sum, name) =>
+        sum +
+        registry.getResourcesByServer(name).length +
+        registry.getResourceTemplatesByServer(name).length,
+      0,
+    );
+    return {
+      llmContent: describeResources(registry, serverNames),
+      returnDisplay: `Listed ${count} resources and templates of ${serverNames.join(', ')}.`,
+    };
+  }
+}
+
+/**
+ * Reads the resources MCP servers offer, or lists them.
+ */
+export class ReadMcpResourceTool extends BaseDeclarativeTool<
+  ReadMcpResourceParams,
+  ToolResult
+> {
+  static readonly Name = ToolNames.READ_MCP_RESOURCE;
+
+  constructor(private readonly config: Config) {
+    super(
+      ReadMcpResourceTool.Name,
+      'ReadMcpResource',
+      `Reads a resource an MCP server offers, such as a document, a database schema or a file of a remote project, by the server's name and the resource's URI. A URI that matches one of the server's resource templates can be read too. Without a uri, lists the resources and templates of the server, or of all servers without a server_name. Users refer to resources as @server_name:uri.`,
+      Kind.Read,
+      {
+        type: 'object',
+        properties: {
+          server_name: {
+            type: 'string',
+            description:
+              'The name of the MCP server that offers the resource. Required with uri.',
+          },
+          uri: {
+            type: 'string',
+            description:
+              'Optional: the URI of the resource to read. Omit it to list the resources.',
+          },
+        },
+      },
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: ReadMcpResourceParams,
+  ): string | null {
+    if (params.uri !== undefined && !params.server_name) {
+      return 'server_name is required to read a resource.';
+    }
+    if (params.uri !== undefined && params.uri.trim() === '') {
+      return 'uri must not be empty.';
+    }
+    return null;
+  }
+
+  protected createInvocation(
+    params: ReadMcpResourceParams,
+  ): ToolInvocation<ReadMcpResourceParams, ToolResult> {
+    return new ReadMcpResourceInvocation(this.config, params);
+  }
+}
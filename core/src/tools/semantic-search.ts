@@ -0,0 +1,187 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'node:path';
+import type {
+  ToolInvocation,
+  ToolResult,
+  ToolResultDisplay,
+} from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
+import { ToolNames } from './tool-names.js';
+import { ToolErrorType } from './tool-error.js';
+import type { Config } from '../config/config.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { getLanguageFromFilePath } from '../utils/language-detection.js';
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 30;
+/** Lines of each result shown to the model; it can read the rest */
+const MAX_RESULT_LINES = 40;
+
+export interface SemanticSearchParams {
+  /** What the code does, in natural language */
+  query: string;
+  /** Maximum number of results */
+  limit?: number;
+  /** File or directory to search within */
+  path?: string;
+}
+
+class SemanticSearchInvocation extends BaseToolInvocation<
+  SemanticSearchParams,
+  ToolResult
+> {
+  constructor(
+    private readonly config: Config,
+    params: SemanticSearchParams,
+  ) {
+    super(params);
+  }
+
+  getDescription(): string {
+    let description = `'${this.params.query}'`;
+    if (this.params.path) {
+      description += ` within ${this.params.path}`;
+    }
+    return description;
+  }
+
+  async execute(
+    signal: AbortSignal,
+    updateOutput?: (output: ToolResultDisplay) => void,
+  ): Promise<ToolResult> {
+    const root = this.config.getTargetDir();
+    const pathPrefix = this.params.path
+      ? path.relative(root, path.resolve(root, this.params.path))
+      : undefined;
+
+    try {
+      const index = this.config.getCodeIndexService();
+      const results = await index.search(this.params.query, {
+        limit: this.params.limit ?? DEFAULT_LIMIT,
+        pathPrefix,
+        signal,
+        onProgress: ({ indexedFiles, totalFiles }) =>
+          updateOutput?.(
+            `Indexing changed files for semantic search: ${indexedFiles}/${totalFiles}`,
+          ),
+      });
+
+      if (results.length === 0) {
+        const { files } = index.getStats();
+        return {
+          llmContent: `No code found for "${this.params.query}" (${files} files indexed). Try ${ToolNames.GREP} or ${ToolNames.GLOB} instead.`,
+          returnDisplay: 'No results.',
+        };
+      }
+
+      const sections = results.map((result, i) => {
+        const lines = result.text.split('\n');
+        const shown = lines.slice(0, MAX_RESULT_LINES);
+        if (lines.length > shown.length) {
+          shown.push(`... (${lines.length - shown.length} more lines)`);
+        }
+        const language =
+          getLanguageFromFilePath(result.filePath)?.toLowerCase() ?? '';
+        const symbol = result.symbol ? ` ${result.symbol}` : '';
+        return `${i + 1}. ${result.filePath}:${result.startLine}-${result.endLine}${symbol} (score ${result.score.toFixed(2)})\n\`\`\`${language}\n${shown.join('\n')}\n\`\`\``;
+      });
+      return {
+        llmContent: `Found ${results.length} result(s) for "${this.params.query}", best first. Paths are relative to ${root}.\n\n${sections.join('\n\n')}`,
+        returnDisplay: `Found ${results.length} result(s)`,
+      };
+    } catch (error) {
+      if (signal.aborted) {
+        return {
+          llmContent: 'Semantic search was cancelled.',
+          returnDisplay: 'Cancelled.',
+        };
+      }
+      const message = `Semantic search failed: ${getErrorMessage(error)}. Use ${ToolNames.GREP} or ${ToolNames.GLOB} instead.`;
+      return {
+        llmContent: message,
+        returnDisplay: message,
+        error: {
+          message,
+          type: ToolErrorType.SEMANTIC_SEARCH_FAILED,
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Finds code by meaning through the project's embedding index, which is
+ * built on first use and updated for changed files before each search.
+ */
+export class SemanticSearchTool extends BaseDeclarativeTool<
+  SemanticSearchParams,
+  ToolResult
+> {
+  static readonly Name = ToolNames.SEMANTIC_SEARCH;
+
+  constructor(private readonly config: Config) {
+    super(
+      SemanticSearchTool.Name,
+      'SemanticSearch',
+      `Finds code by what it does rather than by exact text, e.g. "where are auth tokens refreshed" or "retry logic for HTTP requests". Returns the best matching functions, classes and sections of files with their line ranges. Use it first when you do not know the names involved, to find the right module without many ${ToolNames.GREP} attempts; use ${ToolNames.GREP} to find every use of a known name. The first search in a project indexes all source files, which can take a while.`,
+      Kind.Search,
+      {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description:
+              'A natural language description of the code to find.',
+          },
+          limit: {
+            type: 'number',
+            description: `Optional: Maximum number of results, from 1 to ${MAX_LIMIT}. Defaults to ${DEFAULT_LIMIT}.`,
+          },
+          path: {
+            type: 'string',
+            description:
+              'Optional: A file or directory to search within, relative to the project root or absolute.',
+          },
+        },
+        required: ['query'],
+      },
+      true, // isOutputMarkdown
+      true, // canUpdateOutput - shows indexing progress
+    );
+  }
+
+  protected override validateToolParamValues(
+    params: SemanticSearchParams,
+  ): string | null {
+    if (!params.query || params.query.trim() === '') {
+      return "The 'query' parameter cannot be empty.";
+    }
+    if (
+      params.limit !== undefined &&
+      (!Number.isInteger(params.limit) ||
+        params.limit < 1 ||
+        params.limit > MAX_LIMIT)
+    ) {
+      return `The 'limit' parameter must be an integer from 1 to ${MAX_LIMIT}.`;
+    }
+    if (params.path) {
+      const root = this.config.getTargetDir();
+      const relative = path.relative(root, path.resolve(root, params.path));
+      if (relative.startsWith('..') || path.isAbsolute(relative)) {
+        return `Path must be within the project root ${root}: ${params.path}`;
+      }
+    }
+    return null;
+  }
+
+  protected createInvocation(
+    params: SemanticSearchParams,
+  ): ToolInvocation<SemanticSearchParams, ToolResult> {
+    return new SemanticSearchInvocation(this.config, params);
+  }
+}
@@ -21,22 +21,28 @@ import type {
 import {
   BaseDeclarativeTool,
   BaseToolInvocation,
-  ToolConfirmationOutcome,
   Kind,
 } from './tools.js';
 import { getErrorMessage } from '../utils/errors.js';
 import { summarizeToolOutput } from '../utils/summarizer.js';
 import type { ShellOutputEvent } from '../services/shellExecutionService.js';
 import { ShellExecutionService } from '../services/shellExecutionService.js';
+import { describeBackgroundJob } from '../services/backgroundJobService.js';
 import { formatMemoryUsage } from '../utils/formatters.js';
 import {
+  detectCommandSubstitution,
+  getCommandRoot,
   getCommandRoots,
   isCommandAllowed,
   isCommandNeedsPermission,
+  splitCommands,
   stripShellWrapper,
 } from '../utils/shell-utils.js';
+import { evaluatePermissionRules } from '../policy/permissionRules.js';
 
 export const OUTPUT_UPDATE_INTERVAL_MS = 1000;
+/** How long a background command may run before its job is reported */
+const BACKGROUND_STARTUP_WAIT_MS = 1000;
 
 export interface ShellToolParams {
   command: string;
@@ -52,7 +58,6 @@ class ShellToolInvocation extends BaseToolInvocation<
   constructor(
     private readonly config: Config,
     params: ShellToolParams,
-    private readonly allowlist: Set<string>,
   ) {
     super(params);
   }
@@ -79,13 +84,22 @@ class ShellToolInvocation extends BaseToolInvocation<
     _abortSignal: AbortSignal,
   ): Promise<ToolCallConfirmationDetails | false> {
     const command = stripShellWrapper(this.params.command);
-    const rootCommands = [...new Set(getCommandRoots(command))];
-    const commandsToConfirm = rootCommands.filter(
-      (command) => !this.allowlist.has(command),
-    );
+    // Parts covered by a saved "Always allow" rule need no approval, unless
+    // substitution could run something the rule never saw
+    const commandsToConfirm = detectCommandSubstitution(command)
+      ? splitCommands(command)
+      : splitCommands(command).filter(
+          (part) =>
+            evaluatePermissionRules(
+              this.config.getParsedPermissionRules(),
+              ToolNames.SHELL,
+              { command: part },
+              this.config.getTargetDir(),
+            )?.decision !== 'allow',
+        );
 
     if (commandsToConfirm.length === 0) {
-      return false; // already approved and whitelisted
+      return false; // already approved by a saved rule
     }
 
     const permissionCheck = isCommandNeedsPermission(command);
@@ -93,16 +107,16 @@ class ShellToolInvocation extends BaseToolInvocation<
       return false;
     }
 
+    const rootCommands = commandsToConfirm
+      .map((part) => getCommandRoot(part))
+      .filter((root): root is string => !!root);
     const confirmationDetails: ToolExecuteConfirmationDetails = {
       type: 'exec',
       title: 'Confirm Shell Command',
       command: this.params.command,
-      rootCommand: commandsToConfirm.join(', '),
-      onConfirm: async (outcome: ToolConfirmationOutcome) => {
-        if (outcome === ToolConfirmationOutcome.ProceedAlways) {
-          commandsToConfirm.forEach((command) => this.allowlist.add(command));
-        }
-      },
+      rootCommand: [...new Set(rootCommands)].join(', '),
+      // "Always allow" is saved as permission rules by the scheduler
+      onConfirm: async () => {},
     };
     return confirmationDetails;
   }
@@ -122,6 +136,12 @@ class ShellToolInvocation extends BaseToolInvocation<
       };
     }
 
+    if (this.params.is_background) {
+      return this.startBackgroundJob(
+        this.addCoAuthorToGitCommit(strippedCommand),
+      );
+    }
+
     const isWindows = os.platform() === 'win32';
     const tempFileName = `shell_pgrep_${crypto
       .randomBytes(6)
@@ -132,20 +152,12 @@ class ShellToolInvocation extends BaseToolInvocation<
       // Add co-author to git commit commands
       const processedCommand = this.addCoAuthorToGitCommit(strippedCommand);
 
-      const shouldRunInBackground = this.params.is_background;
-      let finalCommand = processedCommand;
-
-      // If explicitly marked as background and doesn't already end with &, add it
-      if (shouldRunInBackground && !finalCommand.trim().endsWith('&')) {
-        finalCommand = finalCommand.trim() + ' &';
-      }
-
       // pgrep is not available on Windows, so we can't get background PIDs
       const commandToExecute = isWindows
-        ? finalCommand
+        ? processedCommand
         : (() => {
             // wrap command to append subprocess pids (via pgrep) to temporary file
-            let command = finalCommand.trim();
+            let command = processedCommand.trim();
             if (!command.endsWith('&')) command += ';';
             return `{ ${command} }; __code=$?; pgrep -g 0 >${tempFilePath} 2>&1; exit $__code;`;
           })();
@@ -322,6 +334,58 @@ class ShellToolInvocation extends BaseToolInvocation<
     }
   }
 
+  /**
+   * Starts the command as a managed background job and returns once it has
+   * had a moment to fail or print its first output.
+   */
+  private async startBackgroundJob(command: string): Promise<ToolResult> {
+    const cwd = path.resolve(
+      this.config.getTargetDir(),
+      this.params.directory || '',
+    );
+    // The job manager keeps the process; a trailing & would detach it
+    const jobCommand = command.trim().replace(/\s*&$/, '');
+    const service = this.config.getBackgroundJobService();
+    const started = service.start(jobCommand, cwd);
+    const job =
+      (await service.waitForExit(started.id, BACKGROUND_STARTUP_WAIT_MS)) ??
+      started;
+    const output = service.readOutput(job.id);
+    const outputSoFar = [output?.stdout, output?.stderr]
+      .filter(Boolean)
+      .join('\n')
+      .trimEnd();
+
+    const llmContent = [
+      `Command: ${this.params.command}`,
+      `Directory: ${this.params.directory || '(root)'}`,
+      `Background job: ${describeBackgroundJob(job)}`,
+      `Output so far: ${outputSoFar || '(empty)'}`,
+      `Output cursor: ${output?.cursor ?? 0}`,
+      job.status === 'running'
+        ? `Use ${ToolNames.READ_BACKGROUND_OUTPUT} with job_id ${job.id} to read new output and ${ToolNames.KILL_BACKGROUND_JOB} to stop it.`
+        : `The job is no longer running.`,
+    ].join('\n');
+
+    let returnDisplay = `Background job ${job.id} ${job.status}.`;
+    if (job.status === 'running') {
+      returnDisplay = `Started background job ${job.id} (PID ${job.pid ?? '?'}).`;
+    } else if (job.status === 'exited') {
+      returnDisplay = `Background job ${job.id} exited with code ${job.exitCode}.`;
+    }
+
+    return {
+      llmContent,
+      returnDisplay,
+      ...(job.status === 'failed' && {
+        error: {
+          message: job.error ?? 'Failed to start background job.',
+          type: ToolErrorType.SHELL_EXECUTE_ERROR,
+        },
+      }),
+    };
+  }
+
   private addCoAuthorToGitCommit(command: string): string {
     // Check if co-author feature is enabled
     const gitCoAuthorSettings = this.config.getGitCoAuthor();
@@ -389,7 +453,9 @@ function getShellToolDescription(): string {
       Exit Code: Exit code or \`(none)\` if terminated by signal.
       Signal: Signal number or \`(none)\` if no signal was received.
       Background PIDs: List of background processes started or \`(none)\`.
-      Process Group PGID: Process group started or \`(none)\``;
+      Process Group PGID: Process group started or \`(none)\`
+
+      Background commands (is_background: true) run as managed jobs instead: the result has the job ID and the output so far. Use ${ToolNames.READ_BACKGROUND_OUTPUT} to read new output, ${ToolNames.LIST_BACKGROUND_JOBS} to see all jobs and ${ToolNames.KILL_BACKGROUND_JOB} to stop a job. Jobs are stopped when the session ends.`;
 
   if (os.platform() === 'win32') {
     return `This tool executes a given shell command as \`cmd.exe /c <command>\`. Command can start background processes using \`start /b\`.${toolDescription}`;
@@ -411,7 +477,6 @@ export class ShellTool extends BaseDeclarativeTool<
   ToolResult
 > {
   static Name: string = ToolNames.SHELL;
-  private allowlist: Set<string> = new Set();
 
   constructor(private readonly config: Config) {
     super(
@@ -491,6 +556,6 @@ export class ShellTool extends BaseDeclarativeTool<
   protected createInvocation(
     params: ShellToolParams,
   ): ToolInvocation<ShellToolParams, ToolResult> {
-    return new ShellToolInvocation(this.config, params, this.allowlist);
+    return new ShellToolInvocation(this.config, params);
   }
 }
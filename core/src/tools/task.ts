@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import type { Part } from '@google/genai';
 import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
 import { ToolNames } from './tool-names.js';
 import type {
@@ -23,6 +24,7 @@ import {
   SubagentTerminateMode,
 } from '../subagents/types.js';
 import { ContextState } from '../subagents/subagent.js';
+import type { SubagentWorktreeResult } from '../subagents/subagent-worktree.js';
 import {
   SubAgentEventEmitter,
   SubAgentEventType,
@@ -35,6 +37,36 @@ import type {
   SubAgentApprovalRequestEvent,
 } from '../subagents/subagent-events.js';
 
+/** Diff shown to the parent agent; the full diff is in the patch file */
+const MAX_WORKTREE_DIFF_CHARS = 20_000;
+
+/**
+ * Tells the parent agent where an isolated subagent's changes are and how to
+ * bring them into the working tree.
+ */
+function formatWorktreeResult(
+  result: SubagentWorktreeResult,
+  repoRoot: string,
+): string {
+  if (!result.hasChanges) {
+    return 'The subagent ran in an isolated git worktree and made no file changes.';
+  }
+  const diff =
+    result.diff.length > MAX_WORKTREE_DIFF_CHARS
+      ? `${result.diff.slice(0, MAX_WORKTREE_DIFF_CHARS)}\n... (diff truncated, see the patch file for the rest)`
+      : result.diff;
+  return `The subagent ran in an isolated git worktree. Its changes are NOT in the working tree yet; review them and apply them with:
+  git -C ${repoRoot} apply ${result.patchPath}
+They are also committed on branch ${result.branch}, e.g. for \`git cherry-pick ${result.branch}\`.
+
+Changed files:
+${result.diffStat}
+
+\`\`\`diff
+${diff.trimEnd()}
+\`\`\``;
+}
+
 export interface TaskParams {
   description: string;
   prompt: string;
@@ -149,6 +181,7 @@ Usage notes:
 4. The agent's outputs should generally be trusted
 5. Clearly tell the agent whether you expect it to write code or just to do research (search, file reads, web fetches, etc.), since it is not aware of the user's intent
 6. If the agent description mentions that it should be used proactively, then you should try your best to use it without the user having to ask for it first. Use your judgement.
+7. Some agents, such as coder and tester, run in an isolated git worktree so that several can work at once. Their changes are not in the working tree when they finish: the result includes the diff and the command that applies it. Review each patch, then apply them one at a time.
 
 Example usage:
 <example_agent_descriptions>
@@ -509,8 +542,22 @@ class TaskToolInvocation extends BaseToolInvocation<TaskParams, ToolResult> {
       const contextState = new ContextState();
       contextState.set('task_prompt', this.params.prompt);
 
-      // Execute the subagent (blocking)
-      await subagentScope.runNonInteractive(contextState, signal);
+      // Execute the subagent (blocking). An isolated subagent's changes are
+      // collected even when it fails or is cancelled, so they are not lost.
+      let worktreeResult: SubagentWorktreeResult | undefined;
+      try {
+        await subagentScope.runNonInteractive(contextState, signal);
+      } finally {
+        worktreeResult = await subagentScope.worktree?.finish(
+          `${subagentConfig.name}: ${this.params.description}`,
+        );
+      }
+      const worktree: TaskResultDisplay['worktree'] = worktreeResult && {
+        branch: worktreeResult.branch,
+        hasChanges: worktreeResult.hasChanges,
+        patchPath: worktreeResult.patchPath,
+        diffStat: worktreeResult.diffStat,
+      };
 
       // Get the results
       const finalText = subagentScope.getFinalText();
@@ -524,6 +571,7 @@ class TaskToolInvocation extends BaseToolInvocation<TaskParams, ToolResult> {
             status: 'cancelled',
             terminateReason: 'Task was cancelled by user',
             executionSummary,
+            worktree,
           },
           updateOutput,
         );
@@ -534,13 +582,23 @@ class TaskToolInvocation extends BaseToolInvocation<TaskParams, ToolResult> {
             terminateReason: terminateMode,
             result: finalText,
             executionSummary,
+            worktree,
           },
           updateOutput,
         );
       }
 
+      const llmContent: Part[] = [{ text: finalText }];
+      if (worktreeResult) {
+        llmContent.push({
+          text: formatWorktreeResult(
+            worktreeResult,
+            subagentScope.worktree!.repoRoot,
+          ),
+        });
+      }
       return {
-        llmContent: [{ text: finalText }],
+        llmContent,
         returnDisplay: this.currentDisplay!,
       };
     } catch (error) {
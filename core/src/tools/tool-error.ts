@@ -15,6 +15,13 @@ export enum ToolErrorType {
   TOOL_NOT_REGISTERED = 'tool_not_registered',
   EXECUTION_FAILED = 'execution_failed',
 
+  // Permission Policy Errors
+  POLICY_DENIED = 'policy_denied',
+  POLICY_APPROVAL_UNAVAILABLE = 'policy_approval_unavailable',
+
+  // Lifecycle Hook Errors
+  HOOK_BLOCKED = 'hook_blocked',
+
   // File System Errors
   FILE_NOT_FOUND = 'file_not_found',
   FILE_WRITE_FAILURE = 'file_write_failure',
@@ -33,6 +40,11 @@ export enum ToolErrorType {
   EDIT_NO_OCCURRENCE_FOUND = 'edit_no_occurrence_found',
   EDIT_EXPECTED_OCCURRENCE_MISMATCH = 'edit_expected_occurrence_mismatch',
   EDIT_NO_CHANGE = 'edit_no_change',
+  EDIT_NOTEBOOK_FILE = 'edit_notebook_file',
+
+  // NotebookEdit-specific Errors
+  NOTEBOOK_INVALID = 'notebook_invalid',
+  NOTEBOOK_CELL_NOT_FOUND = 'notebook_cell_not_found',
 
   // Glob-specific Errors
   GLOB_EXECUTION_ERROR = 'glob_execution_error',
@@ -46,6 +58,8 @@ export enum ToolErrorType {
 
   // MCP-specific Errors
   MCP_TOOL_ERROR = 'mcp_tool_error',
+  MCP_RESOURCE_NOT_FOUND = 'mcp_resource_not_found',
+  MCP_RESOURCE_READ_FAILED = 'mcp_resource_read_failed',
 
   // Memory-specific Errors
   MEMORY_TOOL_EXECUTION_ERROR = 'memory_tool_execution_error',
@@ -55,6 +69,7 @@ export enum ToolErrorType {
 
   // Shell errors
   SHELL_EXECUTE_ERROR = 'shell_execute_error',
+  BACKGROUND_JOB_NOT_FOUND = 'background_job_not_found',
 
   // DiscoveredTool-specific Errors
   DISCOVERED_TOOL_EXECUTION_ERROR = 'discovered_tool_execution_error',
@@ -66,4 +81,20 @@ export enum ToolErrorType {
 
   // WebSearch-specific Errors
   WEB_SEARCH_FAILED = 'web_search_failed',
+
+  // SemanticSearch-specific Errors
+  SEMANTIC_SEARCH_FAILED = 'semantic_search_failed',
+
+  // ApplyPatch-specific Errors
+  PATCH_INVALID = 'patch_invalid',
+  PATCH_APPLY_FAILED = 'patch_apply_failed',
+
+  // LSP-specific Errors
+  LSP_UNAVAILABLE = 'lsp_unavailable',
+  LSP_REQUEST_FAILED = 'lsp_request_failed',
+  LSP_RENAME_FAILED = 'lsp_rename_failed',
+
+  // IDE-specific Errors
+  IDE_NOT_CONNECTED = 'ide_not_connected',
+  IDE_REQUEST_FAILED = 'ide_request_failed',
 }
@@ -12,11 +12,28 @@
 export const ToolNames = {
   EDIT: 'edit',
   WRITE_FILE: 'write_file',
+  APPLY_PATCH: 'apply_patch',
+  NOTEBOOK_EDIT: 'notebook_edit',
   READ_FILE: 'read_file',
   READ_MANY_FILES: 'read_many_files',
+  READ_MCP_RESOURCE: 'read_mcp_resource',
   GREP: 'search_file_content',
   GLOB: 'glob',
+  SEMANTIC_SEARCH: 'semantic_search',
+  LSP_DIAGNOSTICS: 'lsp_diagnostics',
+  LSP_DEFINITION: 'lsp_definition',
+  LSP_REFERENCES: 'lsp_references',
+  LSP_RENAME: 'lsp_rename',
+  LSP_DOCUMENT_SYMBOLS: 'lsp_document_symbols',
+  IDE_DIAGNOSTICS: 'ide_diagnostics',
+  IDE_DEFINITION: 'ide_definition',
+  IDE_REFERENCES: 'ide_references',
+  IDE_DOCUMENT_SYMBOLS: 'ide_document_symbols',
+  IDE_HOVER: 'ide_hover',
   SHELL: 'run_shell_command',
+  LIST_BACKGROUND_JOBS: 'list_background_jobs',
+  READ_BACKGROUND_OUTPUT: 'read_background_output',
+  KILL_BACKGROUND_JOB: 'kill_background_job',
   TODO_WRITE: 'todo_write',
   MEMORY: 'save_memory',
   TASK: 'task',
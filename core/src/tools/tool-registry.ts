@@ -178,8 +178,10 @@ export class ToolRegistry {
       this.config.getMcpServerCommand(),
       this,
       this.config.getPromptRegistry(),
+      this.config.getResourceRegistry(),
       this.config.getDebugMode(),
       this.config.getWorkspaceContext(),
+      this.config,
     );
   }
 
@@ -231,6 +233,7 @@ export class ToolRegistry {
     this.removeDiscoveredTools();
 
     this.config.getPromptRegistry().clear();
+    this.config.getResourceRegistry().clear();
 
     await this.discoverAndRegisterToolsFromCommand();
 
@@ -248,6 +251,7 @@ export class ToolRegistry {
     this.removeDiscoveredTools();
 
     this.config.getPromptRegistry().clear();
+    this.config.getResourceRegistry().clear();
 
     // discover tools using MCP servers, if configured
     await this.mcpClientManager.discoverAllMcpTools();
@@ -273,6 +277,7 @@ export class ToolRegistry {
     }
 
     this.config.getPromptRegistry().removePromptsByServer(serverName);
+    this.config.getResourceRegistry().removeResourcesByServer(serverName);
 
     const mcpServers = this.config.getMcpServers() ?? {};
     const serverConfig = mcpServers[serverName];
@@ -282,8 +287,10 @@ export class ToolRegistry {
         serverConfig,
         this,
         this.config.getPromptRegistry(),
+        this.config.getResourceRegistry(),
         this.config.getDebugMode(),
         this.config.getWorkspaceContext(),
+        this.config,
       );
     }
   }
@@ -444,6 +444,14 @@ export interface TaskResultDisplay {
   result?: string;
   executionSummary?: SubagentStatsSummary;
 
+  // Set when the subagent ran in an isolated git worktree
+  worktree?: {
+    branch: string;
+    hasChanges: boolean;
+    patchPath?: string;
+    diffStat: string;
+  };
+
   // If the subagent is awaiting approval for a tool call,
   // this contains the confirmation details for inline UI rendering.
   pendingConfirmation?: ToolCallConfirmationDetails;
@@ -473,6 +481,20 @@ export interface FileDiff {
   originalContent: string | null;
   newContent: string;
   diffStat?: DiffStat;
+  /**
+   * The files of a change that spans several files or is not a text edit,
+   * e.g. a patch or a notebook edit
+   */
+  files?: FileDiffEntry[];
+}
+
+/** One file of a change listed in `files` */
+export interface FileDiffEntry {
+  filePath: string;
+  /** Null for a created file */
+  originalContent: string | null;
+  /** Null for a deleted file */
+  newContent: string | null;
 }
 
 export interface DiffStat {
@@ -511,6 +533,12 @@ export interface ToolEditConfirmationDetails {
   newContent: string;
   isModifying?: boolean;
   ideConfirmation?: Promise<DiffUpdateResult>;
+  /**
+   * The files of a change that spans several files or is not a text edit;
+   * `fileDiff` shows all of them. Such changes cannot be modified in an
+   * editor.
+   */
+  files?: FileDiffEntry[];
 }
 
 export interface ToolConfirmationPayload {
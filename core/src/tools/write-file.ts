@@ -17,12 +17,7 @@ import type {
   ToolLocation,
   ToolResult,
 } from './tools.js';
-import {
-  BaseDeclarativeTool,
-  BaseToolInvocation,
-  Kind,
-  ToolConfirmationOutcome,
-} from './tools.js';
+import { BaseDeclarativeTool, BaseToolInvocation, Kind } from './tools.js';
 import { ToolErrorType } from './tool-error.js';
 import { makeRelative, shortenPath } from '../utils/paths.js';
 import { getErrorMessage, isNodeError } from '../utils/errors.js';
@@ -35,6 +30,8 @@ import type {
 import { getSpecificMimeType } from '../utils/fileUtils.js';
 import { FileOperation } from '../telemetry/metrics.js';
 import { IDEConnectionStatus } from '../ide/ide-client.js';
+import type { DiffHunk } from '../ide/diff-hunks.js';
+import { describeRejectedHunks } from '../ide/diff-hunks.js';
 import { getProgrammingLanguage } from '../telemetry/telemetry-utils.js';
 import { logFileOperation } from '../telemetry/loggers.js';
 import { FileOperationEvent } from '../telemetry/types.js';
@@ -62,6 +59,11 @@ export interface WriteFileToolParams {
    * Initially proposed content.
    */
   ai_proposed_content?: string;
+
+  /**
+   * Hunks of the proposed content that the user rejected in the IDE.
+   */
+  rejected_hunks?: DiffHunk[];
 }
 
 interface GetCorrectedFileContentResult {
@@ -177,14 +179,16 @@ class WriteFileToolInvocation extends BaseToolInvocation<
       fileDiff,
       originalContent,
       newContent: correctedContent,
-      onConfirm: async (outcome: ToolConfirmationOutcome) => {
-        if (outcome === ToolConfirmationOutcome.ProceedAlways) {
-          this.config.setApprovalMode(ApprovalMode.AUTO_EDIT);
-        }
-
+      // "Always allow" is saved as permission rules by the scheduler
+      onConfirm: async () => {
         if (ideConfirmation) {
           const result = await ideConfirmation;
           if (result.status === 'accepted' && result.content) {
+            if (result.rejectedHunks?.length || result.userEdited) {
+              this.params.ai_proposed_content = correctedContent;
+              this.params.modified_by_user = result.userEdited;
+              this.params.rejected_hunks = result.rejectedHunks;
+            }
             this.params.content = result.content;
           }
         }
@@ -194,9 +198,14 @@ class WriteFileToolInvocation extends BaseToolInvocation<
     return confirmationDetails;
   }
 
-  async execute(_abortSignal: AbortSignal): Promise<ToolResult> {
-    const { file_path, content, ai_proposed_content, modified_by_user } =
-      this.params;
+  async execute(abortSignal: AbortSignal): Promise<ToolResult> {
+    const {
+      file_path,
+      content,
+      ai_proposed_content,
+      modified_by_user,
+      rejected_hunks,
+    } = this.params;
     const correctedContentResult = await getCorrectedFileContent(
       this.config,
       file_path,
@@ -271,6 +280,9 @@ class WriteFileToolInvocation extends BaseToolInvocation<
           ? `Successfully created and wrote to new file: ${file_path}.`
           : `Successfully overwrote file: ${file_path}.`,
       ];
+      if (rejected_hunks?.length) {
+        llmSuccessMessageParts.push(describeRejectedHunks(rejected_hunks));
+      }
       if (modified_by_user) {
         llmSuccessMessageParts.push(
           `User modified the \`content\` to be: ${content}`,
@@ -317,8 +329,16 @@ class WriteFileToolInvocation extends BaseToolInvocation<
         );
       }
 
+      const diagnostics = await this.config
+        .getLspService()
+        .describeDiagnosticsAfterEdit(file_path, abortSignal);
+      let llmContent = llmSuccessMessageParts.join(' ');
+      if (diagnostics) {
+        llmContent += `\n\n${diagnostics}`;
+      }
+
       return {
-        llmContent: llmSuccessMessageParts.join(' '),
+        llmContent,
         returnDisplay: displayResult,
       };
     } catch (error) {
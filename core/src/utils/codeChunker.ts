@@ -0,0 +1,192 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { getLanguageFromFilePath } from './language-detection.js';
+
+/** A piece of a file, usually one symbol, that is embedded on its own. */
+export interface CodeChunk {
+  /** 1-based, inclusive */
+  startLine: number;
+  /** 1-based, inclusive */
+  endLine: number;
+  /** Name of the symbol the chunk starts with, if any */
+  symbol?: string;
+  text: string;
+}
+
+/** Chunks longer than this are split into parts */
+const MAX_CHUNK_LINES = 80;
+/** Chunks shorter than this are merged into the next one */
+const MIN_CHUNK_LINES = 4;
+/** Deeper symbols, such as nested functions, stay in their parent's chunk */
+const MAX_SYMBOL_INDENT = 4;
+
+/**
+ * Lines that start a symbol, per language. The last capture group that
+ * matched is the symbol's name.
+ */
+const SYMBOL_PATTERNS: Record<string, RegExp[]> = {
+  TypeScript: [
+    /^\s*(?:export\s+)?(?:default\s+)?(?:async\s+)?function\*?\s+([\w$]+)/,
+    /^\s*(?:export\s+)?(?:default\s+)?(?:abstract\s+)?class\s+([\w$]+)/,
+    /^\s*(?:export\s+)?(?:declare\s+)?(?:interface|type|enum|namespace)\s+([\w$]+)/,
+    /^\s*(?:export\s+)?(?:const|let|var)\s+([\w$]+)\s*(?::[^=]+)?=\s*(?:async\s+)?(?:\([^)]*\)|[\w$]+)\s*(?::[^=]+)?=>/,
+    /^\s*(?:export\s+)?(?:const|let|var)\s+([\w$]+)\s*(?::[^=]+)?=\s*(?:async\s+)?function/,
+    /^\s+(?:(?:public|private|protected|static|readonly|override|abstract|async|get|set)\s+)*([\w$]+)\s*(?:<[^>]*>)?\((?:[^)]*\)\s*(?::[^{;]+)?\{)?\s*$/,
+  ],
+  Python: [/^\s*(?:async\s+)?def\s+(\w+)/, /^\s*class\s+(\w+)/],
+  Go: [/^func\s+(?:\([^)]*\)\s*)?(\w+)/, /^type\s+(\w+)/],
+  Rust: [
+    /^\s*(?:pub(?:\([^)]*\))?\s+)?(?:async\s+)?(?:unsafe\s+)?(?:fn|struct|enum|trait|mod|type)\s+(\w+)/,
+    /^\s*impl(?:<[^>]*>)?\s+(?:[\w:<>]+\s+for\s+)?([\w:]+)/,
+  ],
+  Ruby: [/^\s*(?:def|class|module)\s+([\w.:?!]+)/],
+  PHP: [
+    /^\s*(?:(?:public|private|protected|static|abstract|final)\s+)*function\s+(\w+)/,
+    /^\s*(?:abstract\s+|final\s+)?(?:class|interface|trait)\s+(\w+)/,
+  ],
+  Markdown: [/^#{1,3}\s+(.+)$/],
+};
+SYMBOL_PATTERNS['JavaScript'] = SYMBOL_PATTERNS['TypeScript'];
+
+/** C-like languages share declarations by keyword plus methods */
+const C_LIKE_PATTERNS = [
+  /^\s*(?:(?:public|private|protected|internal|static|final|abstract|sealed|open|data|partial|export|inline)\s+)*(?:class|interface|enum|struct|record|object|trait|protocol|extension|namespace)\s+(\w+)/,
+  /^\s*(?:(?:public|private|protected|internal|static|final|override|open|suspend|inline)\s+)*(?:fun|func|def)\s+(?:<[^>]*>\s*)?(\w+)/,
+  /^\s*(?:(?:public|private|protected|internal|static|final|virtual|override|abstract|async|synchronized|inline|const|unsigned)\s+)*[\w<>[\],.:*&]+\s+\*?(\w+)\s*\([^;]*$/,
+];
+for (const language of [
+  'Java',
+  'Kotlin',
+  'C#',
+  'C',
+  'C++',
+  'C/C++',
+  'Swift',
+  'Scala',
+  'Objective-C',
+  'Dart',
+]) {
+  SYMBOL_PATTERNS[language] = C_LIKE_PATTERNS;
+}
+
+/** Words the C-like method pattern would otherwise take for a symbol */
+const NOT_SYMBOLS = new Set([
+  'if',
+  'for',
+  'while',
+  'switch',
+  'catch',
+  'return',
+  'else',
+  'new',
+  'throw',
+  'function',
+  'await',
+]);
+
+/** Lines that belong to the symbol below them */
+const LEADING_LINE = /^\s*(?:\/\/|\/\*|\*|#(?!\w)|@|\/\/\/|--)/;
+
+/**
+ * Whether files of this path are split by `chunkFile`. Data formats such as
+ * JSON and YAML are not worth indexing.
+ */
+export function isChunkableFile(filePath: string): boolean {
+  const language = getLanguageFromFilePath(filePath);
+  return (
+    language !== undefined &&
+    !['JSON', 'XML', 'YAML', 'HTML', 'CSS', 'Less', 'Sass', 'SQL'].includes(
+      language,
+    )
+  );
+}
+
+/**
+ * Splits a source file into chunks at symbol boundaries: top-level
+ * declarations and class members, each with the comments and decorators
+ * above it. Files without recognized symbols are split into fixed windows.
+ */
+export function chunkFile(filePath: string, content: string): CodeChunk[] {
+  const lines = content.split(/\r?\n/);
+  const language = getLanguageFromFilePath(filePath) ?? '';
+  const patterns = SYMBOL_PATTERNS[language] ?? [];
+  // In Markdown, `#` and `*` start headings and list items, not comments
+  const leadingLine = language === 'Markdown' ? null : LEADING_LINE;
+
+  // 0-based line indexes where a chunk starts, with the symbol's name
+  const starts: Array<{ line: number; symbol?: string }> = [{ line: 0 }];
+  lines.forEach((line, index) => {
+    const indent = line.length - line.trimStart().length;
+    if (indent > MAX_SYMBOL_INDENT || !line.trim()) {
+      return;
+    }
+    const symbol = matchSymbol(line, patterns);
+    if (!symbol) {
+      return;
+    }
+    let start = index;
+    while (start > 0 && leadingLine?.test(lines[start - 1])) {
+      start--;
+    }
+    const previous = starts[starts.length - 1];
+    if (start <= previous.line) {
+      previous.symbol ??= symbol;
+    } else {
+      starts.push({ line: start, symbol });
+    }
+  });
+
+  const chunks: CodeChunk[] = [];
+  let pending: { line: number; symbol?: string } | undefined;
+  starts.forEach((start, index) => {
+    const from = pending
+      ? { line: pending.line, symbol: pending.symbol ?? start.symbol }
+      : start;
+    const end =
+      index + 1 < starts.length ? starts[index + 1].line : lines.length;
+    if (end - from.line < MIN_CHUNK_LINES && index + 1 < starts.length) {
+      pending = from;
+      return;
+    }
+    pending = undefined;
+    for (let part = from.line; part < end; part += MAX_CHUNK_LINES) {
+      const partEnd = Math.min(end, part + MAX_CHUNK_LINES);
+      const text = lines.slice(part, partEnd).join('\n');
+      if (!text.trim()) {
+        continue;
+      }
+      chunks.push({
+        startLine: part + 1,
+        endLine: partEnd,
+        symbol:
+          from.symbol && part > from.line
+            ? `${from.symbol} (continued)`
+            : from.symbol,
+        text,
+      });
+    }
+  });
+  return chunks;
+}
+
+function matchSymbol(line: string, patterns: RegExp[]): string | undefined {
+  for (const pattern of patterns) {
+    const match = pattern.exec(line);
+    if (!match) {
+      continue;
+    }
+    const symbol = match
+      .slice(1)
+      .reverse()
+      .find((group) => group !== undefined)
+      ?.trim();
+    if (symbol && !NOT_SYMBOLS.has(symbol)) {
+      return symbol;
+    }
+  }
+  return undefined;
+}
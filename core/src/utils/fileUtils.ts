@@ -6,11 +6,12 @@
 
 import fs from 'node:fs';
 import path from 'node:path';
-import type { PartUnion } from '@google/genai';
+import type { Part, PartUnion } from '@google/genai';
 import mime from 'mime-types';
 import type { FileSystemService } from '../services/fileSystemService.js';
 import { ToolErrorType } from '../tools/tool-error.js';
 import { BINARY_EXTENSIONS } from './ignorePatterns.js';
+import { parseNotebook, renderNotebook } from './notebookUtils.js';
 
 // Constants for text file processing
 export const DEFAULT_MAX_LINES_TEXT_FILE = 2000;
@@ -118,11 +119,13 @@ export async function isBinaryFile(filePath: string): Promise<boolean> {
 /**
  * Detects the type of file based on extension and content.
  * @param filePath Path to the file.
- * @returns Promise that resolves to 'text', 'image', 'pdf', 'audio', 'video', 'binary' or 'svg'.
+ * @returns Promise that resolves to 'text', 'image', 'pdf', 'audio', 'video', 'binary', 'svg' or 'notebook'.
  */
 export async function detectFileType(
   filePath: string,
-): Promise<'text' | 'image' | 'pdf' | 'audio' | 'video' | 'binary' | 'svg'> {
+): Promise<
+  'text' | 'image' | 'pdf' | 'audio' | 'video' | 'binary' | 'svg' | 'notebook'
+> {
   const ext = path.extname(filePath).toLowerCase();
 
   // The mimetype for various TypeScript extensions (ts, mts, cts, tsx) can be
@@ -136,6 +139,10 @@ export async function detectFileType(
     return 'svg';
   }
 
+  if (ext === '.ipynb') {
+    return 'notebook';
+  }
+
   const lookedUpMimeType = mime.lookup(filePath); // Returns false if not found, or the mime type string
   if (lookedUpMimeType) {
     if (lookedUpMimeType.startsWith('image/')) {
@@ -175,14 +182,17 @@ export interface ProcessedFileReadResult {
   isTruncated?: boolean; // For text files, indicates if content was truncated
   originalLineCount?: number; // For text files
   linesShown?: [number, number]; // For text files [startLine, endLine] (1-based for display)
+  originalCellCount?: number; // For notebooks
+  cellsShown?: [number, number]; // For notebooks [startCell, endCell] (1-based for display)
+  images?: Part[]; // For notebooks, images from cell outputs to send after llmContent
 }
 
 /**
  * Reads and processes a single file, handling text, images, and PDFs.
  * @param filePath Absolute path to the file.
  * @param rootDirectory Absolute path to the project root for relative path display.
- * @param offset Optional offset for text files (0-based line number).
- * @param limit Optional limit for text files (number of lines to read).
+ * @param offset Optional offset for text files (0-based line number), or for notebooks (0-based cell index).
+ * @param limit Optional limit for text files (number of lines to read), or for notebooks (number of cells).
  * @returns ProcessedFileReadResult object.
  */
 export async function processSingleFileContent(
@@ -250,6 +260,23 @@ export async function processSingleFileContent(
           returnDisplay: `Read SVG as text: ${relativePathForDisplay}`,
         };
       }
+      case 'notebook': {
+        const content = await fileSystemService.readTextFile(filePath);
+        const notebook = parseNotebook(content);
+        const rendered = renderNotebook(notebook, offset, limit);
+        const [startCell, endCell] = rendered.cellsShown;
+        const isTruncated = startCell > 1 || endCell < rendered.cellCount;
+        return {
+          llmContent: rendered.text,
+          returnDisplay: isTruncated
+            ? `Read cells ${startCell}-${endCell} of ${rendered.cellCount} from ${relativePathForDisplay}`
+            : '',
+          isTruncated,
+          originalCellCount: rendered.cellCount,
+          cellsShown: rendered.cellsShown,
+          images: rendered.images.length > 0 ? rendered.images : undefined,
+        };
+      }
       case 'text': {
         const content = await fileSystemService.readTextFile(filePath);
         const lines = content.split('\n');
@@ -0,0 +1,399 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createHash } from 'node:crypto';
+import path from 'node:path';
+import type { Part } from '@google/genai';
+import stripAnsi from 'strip-ansi';
+import { ToolNames } from '../tools/tool-names.js';
+
+export type NotebookCellType = 'code' | 'markdown' | 'raw';
+
+/** Text in a notebook is a string or, usually, a list of lines */
+type MultilineText = string | string[];
+
+export interface NotebookOutput {
+  output_type: 'stream' | 'execute_result' | 'display_data' | 'error';
+  /** For streams, `stdout` or `stderr` */
+  name?: string;
+  text?: MultilineText;
+  /** Output by MIME type, e.g. `text/plain` or `image/png` (base64) */
+  data?: Record<string, unknown>;
+  ename?: string;
+  evalue?: string;
+  traceback?: string[];
+  [key: string]: unknown;
+}
+
+export interface NotebookCell {
+  cell_type: NotebookCellType;
+  /** Required from nbformat 4.5 */
+  id?: string;
+  source: MultilineText;
+  metadata: Record<string, unknown>;
+  outputs?: NotebookOutput[];
+  execution_count?: number | null;
+  [key: string]: unknown;
+}
+
+/** A Jupyter notebook in nbformat 4 */
+export interface Notebook {
+  cells: NotebookCell[];
+  metadata: {
+    kernelspec?: { language?: string; [key: string]: unknown };
+    language_info?: { name?: string; [key: string]: unknown };
+    [key: string]: unknown;
+  };
+  nbformat: number;
+  nbformat_minor: number;
+  [key: string]: unknown;
+}
+
+/** A file that is not a notebook, or a cell that does not exist */
+export class NotebookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotebookError';
+  }
+}
+
+/** A cell id or index that does not exist in the notebook */
+export class NotebookCellNotFoundError extends NotebookError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotebookCellNotFoundError';
+  }
+}
+
+/** The part of a notebook shown by `renderNotebook` */
+export interface RenderedNotebook {
+  text: string;
+  /** Images from cell outputs, to send after `text` */
+  images: Part[];
+  cellCount: number;
+  /** First and last cell shown, 1-based */
+  cellsShown: [number, number];
+}
+
+/** Output text kept per cell; long logs and tables are cut */
+const MAX_OUTPUT_LENGTH = 2000;
+/** Rendered lines after which no further cells are shown */
+const MAX_RENDERED_LINES = 2000;
+const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif'];
+
+/**
+ * Parses a notebook file.
+ * @throws NotebookError if the content is not an nbformat 4 notebook
+ */
+export function parseNotebook(content: string): Notebook {
+  let notebook: Notebook;
+  try {
+    notebook = JSON.parse(content);
+  } catch (error) {
+    throw new NotebookError(
+      `The file is not valid notebook JSON: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  if (
+    !notebook ||
+    typeof notebook !== 'object' ||
+    !Array.isArray(notebook.cells)
+  ) {
+    throw new NotebookError(
+      'The file is not a Jupyter notebook: it has no cells.',
+    );
+  }
+  if (notebook.nbformat !== undefined && notebook.nbformat < 4) {
+    throw new NotebookError(
+      `Notebook format ${notebook.nbformat} is not supported. Convert the notebook to format 4 with \`jupyter nbconvert --to notebook\`.`,
+    );
+  }
+  return notebook;
+}
+
+/**
+ * Whether a file is a notebook that should be changed cell by cell. A
+ * `.ipynb` file that does not parse can still be repaired as text.
+ */
+export function isNotebookFile(filePath: string, content: string): boolean {
+  if (path.extname(filePath).toLowerCase() !== '.ipynb') {
+    return false;
+  }
+  try {
+    parseNotebook(content);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Serializes a notebook the way the file it was read from was written, with
+ * the same indentation and final newline, so a change to one cell does not
+ * rewrite the whole file.
+ */
+export function serializeNotebook(
+  notebook: Notebook,
+  original: string,
+): string {
+  const indent = /^\{\r?\n([ \t]+)"/.exec(original)?.[1] ?? ' ';
+  const json = JSON.stringify(notebook, null, indent);
+  return original.endsWith('\n') ? `${json}\n` : json;
+}
+
+export function getCellSource(cell: NotebookCell): string {
+  return joinText(cell.source);
+}
+
+/** Text as lines that keep their `\n`, as Jupyter writes sources */
+export function toNotebookLines(text: string): string[] {
+  return text.split(/(?<=\n)/).filter((line) => line !== '');
+}
+
+/** Language of the notebook's code cells, e.g. `python` */
+export function getNotebookLanguage(notebook: Notebook): string {
+  return (
+    notebook.metadata?.language_info?.name ??
+    notebook.metadata?.kernelspec?.language ??
+    'python'
+  );
+}
+
+/**
+ * Index of a cell by id or index.
+ * @throws NotebookCellNotFoundError if there is no such cell
+ */
+export function findCellIndex(
+  notebook: Notebook,
+  cell: { cell_id?: string; cell_index?: number },
+): number {
+  if (cell.cell_id !== undefined) {
+    const index = notebook.cells.findIndex(({ id }) => id === cell.cell_id);
+    if (index === -1) {
+      throw new NotebookCellNotFoundError(
+        `The notebook has no cell with id "${cell.cell_id}". Read the notebook to see the cells' ids.`,
+      );
+    }
+    return index;
+  }
+  const index = cell.cell_index ?? -1;
+  if (index < 0 || index >= notebook.cells.length) {
+    throw new NotebookCellNotFoundError(
+      `Cell index ${cell.cell_index} is out of range; the notebook has ${notebook.cells.length} cells.`,
+    );
+  }
+  return index;
+}
+
+/**
+ * A new cell, with an id if the notebook's format uses them. Keys are in
+ * the sorted order Jupyter writes them in.
+ */
+export function createCell(
+  notebook: Notebook,
+  cellType: NotebookCellType,
+  source: string,
+): NotebookCell {
+  const usesIds =
+    notebook.nbformat > 4 ||
+    (notebook.nbformat === 4 && notebook.nbformat_minor >= 5) ||
+    notebook.cells.some((cell) => cell.id !== undefined);
+  let id: string | undefined;
+  if (usesIds) {
+    // Derived from the notebook, so the cell shown for confirmation and
+    // the one written get the same id
+    const ids = new Set(notebook.cells.map((cell) => cell.id));
+    const seed = `${[...ids].join('\0')}\0${source}`;
+    for (let attempt = 0; id === undefined || ids.has(id); attempt++) {
+      id = createHash('sha256')
+        .update(`${seed}\0${attempt}`)
+        .digest('hex')
+        .slice(0, 8);
+    }
+  }
+  return {
+    cell_type: cellType,
+    ...(cellType === 'code' ? { execution_count: null } : {}),
+    ...(id ? { id } : {}),
+    metadata: {},
+    ...(cellType === 'code' ? { outputs: [] } : {}),
+    source: toNotebookLines(source),
+  };
+}
+
+/**
+ * Changes a cell's type, adding or removing the fields only code cells
+ * have.
+ */
+export function setCellType(cell: NotebookCell, cellType: NotebookCellType) {
+  if (cell.cell_type === cellType) {
+    return;
+  }
+  cell.cell_type = cellType;
+  if (cellType === 'code') {
+    cell.execution_count = null;
+    cell.outputs = [];
+  } else {
+    delete cell.execution_count;
+    delete cell.outputs;
+  }
+}
+
+/**
+ * Renders cells with their index, id, type, source and outputs, for the
+ * model to read. Output text is shortened and images are returned
+ * separately.
+ * @param offset 0-based index of the first cell to show
+ * @param limit Number of cells to show; by default as many as fit
+ */
+export function renderNotebook(
+  notebook: Notebook,
+  offset = 0,
+  limit?: number,
+): RenderedNotebook {
+  const cellCount = notebook.cells.length;
+  const start = Math.min(offset, cellCount);
+  const end = Math.min(
+    limit === undefined ? cellCount : start + limit,
+    cellCount,
+  );
+  const blocks: string[] = [];
+  const images: Part[] = [];
+  let lineCount = 0;
+  let shownEnd = start;
+  for (let index = start; index < end; index++) {
+    const cellImages: Part[] = [];
+    const block = renderCell(
+      notebook.cells[index],
+      index,
+      cellImages,
+      images.length,
+    );
+    lineCount += block.split('\n').length;
+    if (
+      limit === undefined &&
+      lineCount > MAX_RENDERED_LINES &&
+      index > start
+    ) {
+      break;
+    }
+    blocks.push(block);
+    images.push(...cellImages);
+    shownEnd = index + 1;
+  }
+  const language = getNotebookLanguage(notebook);
+  const header = `Jupyter notebook with ${cellCount} cells, in ${language}. Change cells with the ${ToolNames.NOTEBOOK_EDIT} tool, by id or index.`;
+  return {
+    text: [header, ...blocks].join('\n\n'),
+    images,
+    cellCount,
+    cellsShown: [start + 1, shownEnd],
+  };
+}
+
+/**
+ * The cells' sources in the percent format of Jupytext, `# %%` headers
+ * followed by source, so notebook changes can be shown as a diff.
+ */
+export function renderNotebookSources(notebook: Notebook): string {
+  return notebook.cells
+    .map((cell, index) => {
+      const type = cell.cell_type === 'code' ? '' : ` [${cell.cell_type}]`;
+      const id = cell.id ? ` id=${cell.id}` : '';
+      const source = getCellSource(cell);
+      const newline = source === '' || source.endsWith('\n') ? '' : '\n';
+      return `# %%${type} cell ${index}${id}\n${source}${newline}`;
+    })
+    .join('\n');
+}
+
+function renderCell(
+  cell: NotebookCell,
+  index: number,
+  images: Part[],
+  imagesBefore: number,
+): string {
+  const attributes = [`index="${index}"`];
+  if (cell.id) {
+    attributes.push(`id="${cell.id}"`);
+  }
+  attributes.push(`type="${cell.cell_type}"`);
+  if (cell.cell_type === 'code' && typeof cell.execution_count === 'number') {
+    attributes.push(`execution_count="${cell.execution_count}"`);
+  }
+  const source = getCellSource(cell).replace(/\n$/, '');
+  const lines = [`<cell ${attributes.join(' ')}>`, source];
+  const outputs = renderOutputs(cell.outputs ?? [], images, imagesBefore);
+  if (outputs) {
+    lines.push('<output>', outputs, '</output>');
+  }
+  lines.push('</cell>');
+  return lines.join('\n');
+}
+
+function renderOutputs(
+  outputs: NotebookOutput[],
+  images: Part[],
+  imagesBefore: number,
+): string {
+  const parts: string[] = [];
+  for (const output of outputs) {
+    switch (output.output_type) {
+      case 'stream':
+        parts.push(joinText(output.text));
+        break;
+      case 'error':
+        parts.push(
+          stripAnsi(
+            output.traceback?.length
+              ? output.traceback.join('\n')
+              : `${output.ename}: ${output.evalue}`,
+          ),
+        );
+        break;
+      case 'execute_result':
+      case 'display_data': {
+        const data = output.data ?? {};
+        const imageType = IMAGE_MIME_TYPES.find((type) => data[type]);
+        if (imageType) {
+          images.push({
+            inlineData: {
+              mimeType: imageType,
+              data: joinText(data[imageType] as MultilineText).replace(
+                /\s/g,
+                '',
+              ),
+            },
+          });
+          parts.push(
+            `[${imageType} image ${imagesBefore + images.length}, attached below]`,
+          );
+        } else if (data['text/plain'] !== undefined) {
+          parts.push(joinText(data['text/plain'] as MultilineText));
+        } else {
+          const types = Object.keys(data);
+          if (types.length > 0) {
+            parts.push(`[${types.join(', ')} output]`);
+          }
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  }
+  const text = parts.map((part) => part.replace(/\n$/, '')).join('\n');
+  return text.length > MAX_OUTPUT_LENGTH
+    ? `${text.slice(0, MAX_OUTPUT_LENGTH)}\n... [output truncated, ${text.length - MAX_OUTPUT_LENGTH} more characters]`
+    : text;
+}
+
+function joinText(text: MultilineText | undefined): string {
+  if (text === undefined) {
+    return '';
+  }
+  return Array.isArray(text) ? text.join('') : text;
+}
@@ -0,0 +1,165 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  PatchError,
+  applyHunks,
+  createdContent,
+  parseUnifiedDiff,
+} from './patchUtils.js';
+
+describe('parseUnifiedDiff', () => {
+  it('parses a plain diff of several files', () => {
+    const files = parseUnifiedDiff(
+      [
+        '--- src/a.ts',
+        '+++ src/a.ts',
+        '@@ -1,2 +1,2 @@',
+        ' const a = 1;',
+        '-const b = 2;',
+        '+const b = 3;',
+        '--- src/b.ts',
+        '+++ src/b.ts',
+        '@@ -1 +1 @@',
+        '-old',
+        '+new',
+      ].join('\n'),
+    );
+    expect(files.map(({ oldPath, newPath }) => [oldPath, newPath])).toEqual([
+      ['src/a.ts', 'src/a.ts'],
+      ['src/b.ts', 'src/b.ts'],
+    ]);
+    expect(files[0].hunks[0].lines).toEqual([
+      ' const a = 1;',
+      '-const b = 2;',
+      '+const b = 3;',
+    ]);
+  });
+
+  it('strips the a/ and b/ prefixes and reads created and deleted files', () => {
+    const files = parseUnifiedDiff(
+      [
+        '--- /dev/null',
+        '+++ b/docs/new.md',
+        '@@ -0,0 +1 @@',
+        '+# New',
+        '--- a/docs/old.md',
+        '+++ /dev/null',
+        '@@ -1 +0,0 @@',
+        '-# Old',
+      ].join('\n'),
+    );
+    expect(files.map(({ oldPath, newPath }) => [oldPath, newPath])).toEqual([
+      [null, 'docs/new.md'],
+      ['docs/old.md', null],
+    ]);
+  });
+
+  it('reads renames, creations and deletions in git format', () => {
+    const files = parseUnifiedDiff(
+      [
+        'diff --git a/src/old.ts b/src/new.ts',
+        'similarity index 100%',
+        'rename from src/old.ts',
+        'rename to src/new.ts',
+        'diff --git a/src/added.ts b/src/added.ts',
+        'new file mode 100644',
+        '--- /dev/null',
+        '+++ b/src/added.ts',
+        '@@ -0,0 +1 @@',
+        '+export {};',
+        'diff --git a/src/gone.ts b/src/gone.ts',
+        'deleted file mode 100644',
+      ].join('\n'),
+    );
+    expect(files.map(({ oldPath, newPath }) => [oldPath, newPath])).toEqual([
+      ['src/old.ts', 'src/new.ts'],
+      [null, 'src/added.ts'],
+      ['src/gone.ts', null],
+    ]);
+  });
+
+  it('recounts hunk headers with wrong line counts', () => {
+    const [file] = parseUnifiedDiff(
+      [
+        '--- a.txt',
+        '+++ a.txt',
+        '@@ -1,1 +1,1 @@',
+        ' one',
+        '',
+        '-two',
+        '+2',
+        ' three',
+      ].join('\n'),
+    );
+    expect(file.hunks[0]).toMatchObject({ oldLines: 4, newLines: 4 });
+    expect(file.hunks[0].lines).toEqual([' one', ' ', '-two', '+2', ' three']);
+  });
+
+  it('throws a PatchError for a diff without files', () => {
+    expect(() => parseUnifiedDiff('just some text')).toThrow(PatchError);
+  });
+});
+
+describe('applyHunks', () => {
+  const hunks = (patch: string) => parseUnifiedDiff(patch)[0].hunks;
+
+  it('applies hunks whose line numbers are off', () => {
+    const content = ['intro', 'one', 'two', 'three', ''].join('\n');
+    expect(
+      applyHunks(
+        content,
+        hunks(
+          [
+            '--- a',
+            '+++ a',
+            '@@ -1,3 +1,3 @@',
+            ' one',
+            '-two',
+            '+2',
+            ' three',
+          ].join('\n'),
+        ),
+      ),
+    ).toBe(['intro', 'one', '2', 'three', ''].join('\n'));
+  });
+
+  it('names the hunk that does not match', () => {
+    expect(() =>
+      applyHunks(
+        'one\n',
+        hunks(
+          ['--- a', '+++ a', '@@ -1 +1 @@', '-missing', '+found'].join('\n'),
+        ),
+      ),
+    ).toThrow(/^Hunk 1 of 1 .* does not match the file/);
+  });
+});
+
+describe('createdContent', () => {
+  it('joins the added lines with a final newline', () => {
+    const [file] = parseUnifiedDiff(
+      ['--- /dev/null', '+++ new.txt', '@@ -0,0 +1,2 @@', '+one', '+two'].join(
+        '\n',
+      ),
+    );
+    expect(createdContent(file.hunks)).toBe('one\ntwo\n');
+  });
+
+  it('leaves out the final newline when the diff says so', () => {
+    const [file] = parseUnifiedDiff(
+      [
+        '--- /dev/null',
+        '+++ new.txt',
+        '@@ -0,0 +1 @@',
+        '+one',
+        '\\ No newline at end of file',
+      ].join('\n'),
+    );
+    expect(createdContent(file.hunks)).toBe('one');
+  });
+});
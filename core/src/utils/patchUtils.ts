@@ -0,0 +1,197 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import * as Diff from 'diff';
+
+/** The changes a unified diff makes to one file. */
+export interface FilePatch {
+  /** Path before the change, or null for a created file */
+  oldPath: string | null;
+  /** Path after the change, or null for a deleted file */
+  newPath: string | null;
+  hunks: Diff.Hunk[];
+}
+
+/** A patch that cannot be parsed or does not apply */
+export class PatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PatchError';
+  }
+}
+
+const DEV_NULL = '/dev/null';
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@(.*)$/;
+
+/**
+ * Splits a unified diff, plain or in git's format with renames, creations
+ * and deletions, into its files. Paths are returned as written, without the
+ * `a/` and `b/` prefixes.
+ * @throws PatchError if the diff is malformed or changes no files
+ */
+export function parseUnifiedDiff(patch: string): FilePatch[] {
+  const text = patch.replace(/\r\n/g, '\n');
+  const files: FilePatch[] = [];
+  for (const section of text.split(/^(?=diff --git )/m)) {
+    if (section.startsWith('diff --git ')) {
+      files.push(parseGitSection(section));
+      continue;
+    }
+    for (const parsed of parseSection(section)) {
+      if (
+        parsed.oldFileName === undefined &&
+        parsed.newFileName === undefined
+      ) {
+        continue;
+      }
+      const prefixed =
+        isPrefixed(parsed.oldFileName, 'a/') &&
+        isPrefixed(parsed.newFileName, 'b/');
+      files.push({
+        oldPath: toPath(parsed.oldFileName, prefixed) ?? null,
+        newPath: toPath(parsed.newFileName, prefixed) ?? null,
+        hunks: parsed.hunks,
+      });
+    }
+  }
+  if (files.length === 0) {
+    throw new PatchError(
+      'The patch changes no files. Each file needs `--- old` and `+++ new` header lines followed by `@@` hunks.',
+    );
+  }
+  return files;
+}
+
+/**
+ * Applies hunks to a file's content one at a time, so a hunk that does not
+ * match is reported by number. Hunks may be off by some lines; their context
+ * and removed lines must match exactly.
+ * @throws PatchError naming the first hunk that does not apply
+ */
+export function applyHunks(content: string, hunks: Diff.Hunk[]): string {
+  let result = content;
+  let offset = 0;
+  hunks.forEach((hunk, index) => {
+    const applied = Diff.applyPatch(result, {
+      hunks: [{ ...hunk, oldStart: hunk.oldStart + offset }],
+    });
+    if (applied === false) {
+      throw new PatchError(
+        `Hunk ${index + 1} of ${hunks.length} (@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@) does not match the file. Its context and removed lines must match the current content exactly; read the file again and regenerate the hunk.`,
+      );
+    }
+    result = applied;
+    offset += hunk.newLines - hunk.oldLines;
+  });
+  return result;
+}
+
+/** The content of a file created by a patch, from its added lines */
+export function createdContent(hunks: Diff.Hunk[]): string {
+  const lines = hunks.flatMap((hunk) => hunk.lines);
+  const added = lines
+    .filter((line) => line.startsWith('+'))
+    .map((line) => line.slice(1));
+  if (added.length === 0) {
+    return '';
+  }
+  return lines[lines.length - 1].startsWith('\\')
+    ? added.join('\n')
+    : `${added.join('\n')}\n`;
+}
+
+function parseGitSection(section: string): FilePatch {
+  const header = /^diff --git a\/(.+?) b\/(.+)$/m.exec(section);
+  const [parsed] = parseSection(section);
+  const renameFrom = /^rename from (.+)$/m.exec(section)?.[1];
+  const renameTo = /^rename to (.+)$/m.exec(section)?.[1];
+  let oldPath = renameFrom ?? toPath(parsed?.oldFileName, true) ?? header?.[1];
+  let newPath = renameTo ?? toPath(parsed?.newFileName, true) ?? header?.[2];
+  if (/^new file mode /m.test(section) || parsed?.oldFileName === DEV_NULL) {
+    oldPath = undefined;
+  }
+  if (
+    /^deleted file mode /m.test(section) ||
+    parsed?.newFileName === DEV_NULL
+  ) {
+    newPath = undefined;
+  }
+  if (!oldPath && !newPath) {
+    throw new PatchError(
+      `Cannot tell which file this part of the patch changes: ${section.split('\n')[0]}`,
+    );
+  }
+  return {
+    oldPath: oldPath ?? null,
+    newPath: newPath ?? null,
+    hunks: parsed?.hunks ?? [],
+  };
+}
+
+function parseSection(section: string): Diff.ParsedDiff[] {
+  try {
+    return Diff.parsePatch(recountHunks(section));
+  } catch (error) {
+    throw new PatchError(
+      `The patch is malformed: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Rewrites the line counts of hunk headers to match the hunks' lines, and
+ * restores the leading space of empty context lines. Hand-written diffs
+ * often get both wrong, which would otherwise cut hunks short.
+ */
+function recountHunks(section: string): string {
+  const lines = section.split('\n');
+  const result: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const header = HUNK_HEADER.exec(lines[i]);
+    if (!header) {
+      result.push(lines[i]);
+      continue;
+    }
+    const body: string[] = [];
+    let end = i + 1;
+    for (; end < lines.length; end++) {
+      const line = lines[end];
+      const nextFile =
+        line.startsWith('--- ') && lines[end + 1]?.startsWith('+++ ');
+      if (line.startsWith('@@') || nextFile || !/^([ +\-\\]|$)/.test(line)) {
+        break;
+      }
+      body.push(line === '' ? ' ' : line);
+    }
+    // Blank lines after the last hunk are not context
+    while (end > i + 1 && lines[end - 1] === '') {
+      end--;
+      body.pop();
+    }
+    const count = (prefixes: string) =>
+      body.filter((line) => prefixes.includes(line[0])).length;
+    result.push(
+      `@@ -${header[1]},${count(' -')} +${header[2]},${count(' +')} @@${header[3]}`,
+      ...body,
+    );
+    i = end - 1;
+  }
+  return result.join('\n');
+}
+
+function isPrefixed(fileName: string | undefined, prefix: string): boolean {
+  return fileName === DEV_NULL || !!fileName?.startsWith(prefix);
+}
+
+function toPath(
+  fileName: string | undefined,
+  stripPrefix: boolean,
+): string | undefined {
+  if (fileName === undefined || fileName === DEV_NULL) {
+    return undefined;
+  }
+  return stripPrefix ? fileName.replace(/^[ab]\//, '') : fileName;
+}
@@ -88,7 +88,7 @@ export async function readPathFromWorkspace(
         config.getTargetDir(),
         config.getFileSystemService(),
       );
-      allParts.push(result.llmContent);
+      allParts.push(result.llmContent, ...(result.images ?? []));
       allParts.push({ text: '\n' }); // Add a newline for separation
     }
 
@@ -113,6 +113,6 @@ export async function readPathFromWorkspace(
       config.getTargetDir(),
       config.getFileSystemService(),
     );
-    return [result.llmContent];
+    return [result.llmContent, ...(result.images ?? [])];
   }
 }
@@ -0,0 +1,85 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateLimiter } from './rateLimiter.js';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('serves waiting callers in the order they arrived', async () => {
+    // One token per second
+    const limiter = new RateLimiter(60);
+    await limiter.acquire(60);
+
+    const order: string[] = [];
+    const large = limiter.acquire(30).then(() => order.push('large'));
+    const small = limiter.acquire(1).then(() => order.push('small'));
+
+    await vi.advanceTimersByTimeAsync(29000);
+    expect(order).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(order).toEqual(['large']);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all([large, small]);
+    expect(order).toEqual(['large', 'small']);
+  });
+
+  it('clamps a cost above the burst size', async () => {
+    const limiter = new RateLimiter(60, 10);
+
+    await limiter.acquire(100);
+
+    expect(limiter.getAvailableTokens()).toBe(0);
+  });
+
+  it('rejects with the abort reason and lets the next caller through', async () => {
+    const limiter = new RateLimiter(60);
+    await limiter.acquire(60);
+
+    const controller = new AbortController();
+    const aborted = limiter.acquire(30, controller.signal);
+    const next = limiter.acquire(1);
+    const rejection = expect(aborted).rejects.toThrow('cancelled');
+
+    controller.abort(new Error('cancelled'));
+    await rejection;
+
+    let served = false;
+    void next.then(() => (served = true));
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(served).toBe(true);
+  });
+
+  it('rejects at once when the signal is already aborted', async () => {
+    const limiter = new RateLimiter(60);
+
+    await expect(
+      limiter.acquire(1, AbortSignal.abort(new Error('cancelled'))),
+    ).rejects.toThrow('cancelled');
+    expect(limiter.getAvailableTokens()).toBe(60);
+  });
+
+  it('charges and refunds usage known after the fact', () => {
+    const limiter = new RateLimiter(60);
+
+    limiter.consume(70);
+    expect(limiter.getAvailableTokens()).toBe(-10);
+
+    limiter.consume(-20);
+    expect(limiter.getAvailableTokens()).toBe(10);
+  });
+});
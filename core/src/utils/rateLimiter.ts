@@ -12,6 +12,7 @@ export class RateLimiter {
   private lastRefill: number;
   private readonly maxTokens: number;
   private readonly refillRate: number; // tokens per millisecond
+  private queue: Promise<void> = Promise.resolve();
 
   /**
    * @param requestsPerMinute Maximum requests allowed per minute
@@ -38,28 +39,55 @@ export class RateLimiter {
   }
 
   /**
-   * Acquire a token, waiting if necessary
-   * @returns Promise that resolves when a token is acquired
+   * Acquire tokens, waiting if necessary. Callers are served in FIFO order,
+   * so a large request is never starved by a stream of small ones.
+   * @param cost Number of tokens to take (clamped to the burst size)
+   * @param signal Aborts the wait, rejecting with the signal's reason
+   * @returns Promise that resolves when the tokens are acquired
    */
-  async acquire(): Promise<void> {
-    this.refill();
+  async acquire(cost: number = 1, signal?: AbortSignal): Promise<void> {
+    const turn = this.queue.then(() =>
+      this.waitFor(Math.min(cost, this.maxTokens), signal),
+    );
+    this.queue = turn.catch(() => {});
+    return turn;
+  }
 
-    if (this.tokens >= 1) {
-      this.tokens -= 1;
-      return;
-    }
+  private async waitFor(cost: number, signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      signal?.throwIfAborted();
+      this.refill();
 
-    // Calculate wait time until next token is available
-    const tokensNeeded = 1 - this.tokens;
-    const waitTime = Math.ceil(tokensNeeded / this.refillRate);
-    
-    if (waitTime > 0) {
-      console.log(`[Rate Limiter] Throttling request, waiting ${waitTime}ms to avoid rate limits...`);
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-      return this.acquire();
+      if (this.tokens >= cost) {
+        this.tokens -= cost;
+        return;
+      }
+
+      // Calculate wait time until enough tokens are available
+      const tokensNeeded = cost - this.tokens;
+      const waitTime = Math.max(1, Math.ceil(tokensNeeded / this.refillRate));
+      console.debug(`[Rate Limiter] Throttling request, waiting ${waitTime}ms to avoid rate limits...`);
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(done, waitTime);
+        function done() {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', done);
+          resolve();
+        }
+        signal?.addEventListener('abort', done, { once: true });
+      });
     }
   }
 
+  /**
+   * Account for usage only known after the fact (e.g. actual token counts).
+   * Positive amounts may leave the bucket in debt; negative amounts refund.
+   */
+  consume(amount: number): void {
+    this.refill();
+    this.tokens = Math.min(this.maxTokens, this.tokens - amount);
+  }
+
   /**
    * Try to acquire a token without waiting
    * @returns true if token acquired, false otherwise
@@ -114,4 +142,26 @@ export function getGlobalRateLimiter(requestsPerMinute?: number): RateLimiter {
  */
 export function resetGlobalRateLimiter(): void {
   globalRateLimiter = null;
+  providerRateLimiters.clear();
+}
+
+/**
+ * Shared limiters per provider budget, so every generator created for the
+ * same provider (e.g. after /auth or a fallback switch) draws from one bucket
+ */
+const providerRateLimiters = new Map<string, RateLimiter>();
+
+/**
+ * Get or create the rate limiter for a named budget
+ * @param key Budget identifier, e.g. `anthropic:requests`
+ * @param perMinute Units (requests or tokens) allowed per minute
+ */
+export function getProviderRateLimiter(key: string, perMinute: number): RateLimiter {
+  const limiterKey = `${key}@${perMinute}`;
+  let limiter = providerRateLimiters.get(limiterKey);
+  if (!limiter) {
+    limiter = new RateLimiter(perMinute);
+    providerRateLimiters.set(limiterKey, limiter);
+  }
+  return limiter;
 }
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { ResponseCache } from './responseCache.js';
+
+describe('ResponseCache', () => {
+  let dir: string;
+  let cachePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'response-cache-'));
+    cachePath = path.join(dir, 'response-cache.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('evicts the least recently used entry', () => {
+    const cache = new ResponseCache(2);
+    cache.setByKey('a', 'A');
+    cache.setByKey('b', 'B');
+    cache.getByKey('a');
+    cache.setByKey('c', 'C');
+
+    expect(cache.getByKey('a')).toBe('A');
+    expect(cache.getByKey('b')).toBeNull();
+    expect(cache.getByKey('c')).toBe('C');
+  });
+
+  it('loads the entries another instance saved', () => {
+    new ResponseCache(10, 60000, cachePath).setByKey('a', 'A');
+
+    expect(new ResponseCache(10, 60000, cachePath).getByKey('a')).toBe('A');
+  });
+
+  it('keeps the entries other instances saved since it loaded', () => {
+    const first = new ResponseCache(10, 60000, cachePath);
+    const second = new ResponseCache(10, 60000, cachePath);
+    first.getByKey('a');
+    second.getByKey('a');
+
+    first.setByKey('a', 'A');
+    second.setByKey('b', 'B');
+    first.setByKey('c', 'C');
+
+    const reloaded = new ResponseCache(10, 60000, cachePath);
+    expect(reloaded.getByKey('a')).toBe('A');
+    expect(reloaded.getByKey('b')).toBe('B');
+    expect(reloaded.getByKey('c')).toBe('C');
+  });
+
+  it('drops the oldest entries when merging exceeds the size', () => {
+    const first = new ResponseCache(2, 60000, cachePath);
+    const second = new ResponseCache(2, 60000, cachePath);
+    first.getByKey('a');
+    second.getByKey('a');
+
+    first.setByKey('a', 'A');
+    second.setByKey('b', 'B');
+    second.setByKey('c', 'C');
+
+    const reloaded = new ResponseCache(2, 60000, cachePath);
+    expect(reloaded.getByKey('a')).toBeNull();
+    expect(reloaded.getByKey('b')).toBe('B');
+    expect(reloaded.getByKey('c')).toBe('C');
+  });
+
+  it('removes every saved entry on clear', () => {
+    const first = new ResponseCache(10, 60000, cachePath);
+    first.setByKey('a', 'A');
+    const second = new ResponseCache(10, 60000, cachePath);
+    second.setByKey('b', 'B');
+
+    first.clear();
+
+    expect(new ResponseCache(10, 60000, cachePath).getStats().size).toBe(0);
+  });
+
+  it('ignores expired and corrupt files', () => {
+    fs.writeFileSync(
+      cachePath,
+      JSON.stringify({
+        version: 1,
+        entries: [['a', { response: 'A', timestamp: Date.now() - 120000 }]],
+      }),
+    );
+    expect(new ResponseCache(10, 60000, cachePath).getByKey('a')).toBeNull();
+
+    fs.writeFileSync(cachePath, '{');
+    const cache = new ResponseCache(10, 60000, cachePath);
+    expect(cache.getByKey('a')).toBeNull();
+    cache.setByKey('a', 'A');
+    expect(new ResponseCache(10, 60000, cachePath).getByKey('a')).toBe('A');
+  });
+});
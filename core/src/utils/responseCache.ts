@@ -5,6 +5,10 @@
  */
 
 import crypto from 'crypto';
+import fs from 'node:fs';
+import path from 'node:path';
+
+const CACHE_FILE_VERSION = 1;
 
 interface CacheEntry {
   response: any;
@@ -18,14 +22,25 @@ export class ResponseCache {
   private cache: Map<string, CacheEntry> = new Map();
   private readonly maxSize: number;
   private readonly ttl: number;
+  private readonly persistPath?: string;
+  private loaded = false;
 
   /**
    * @param maxSize Maximum number of entries (default: 100)
    * @param ttl Time to live in milliseconds (default: 1 hour)
+   * @param persistPath JSON file the entries are loaded from and saved to (default: memory only)
    */
-  constructor(maxSize: number = 100, ttl: number = 3600000) {
+  constructor(maxSize: number = 100, ttl: number = 3600000, persistPath?: string) {
     this.maxSize = maxSize;
     this.ttl = ttl;
+    this.persistPath = persistPath;
+  }
+
+  /**
+   * Hash arbitrary request data into a cache key
+   */
+  static hashKey(data: string): string {
+    return crypto.createHash('sha256').update(data).digest('hex');
   }
 
   /**
@@ -35,14 +50,21 @@ export class ResponseCache {
     // Normalize prompt (trim whitespace, lowercase for case-insensitive matching)
     const normalizedPrompt = prompt.trim().toLowerCase();
     const data = `${model}:${temperature}:${normalizedPrompt}`;
-    return crypto.createHash('sha256').update(data).digest('hex');
+    return ResponseCache.hashKey(data);
   }
 
   /**
    * Get cached response if available and not expired
    */
   get(prompt: string, model: string, temperature?: number): any | null {
-    const key = this.getCacheKey(prompt, model, temperature);
+    return this.getByKey(this.getCacheKey(prompt, model, temperature));
+  }
+
+  /**
+   * Get cached response for a precomputed key if available and not expired
+   */
+  getByKey(key: string): any | null {
+    this.load();
     const entry = this.cache.get(key);
 
     if (!entry) {
@@ -59,7 +81,7 @@ export class ResponseCache {
     this.cache.delete(key);
     this.cache.set(key, entry);
 
-    console.log(`[Cache] Hit for model ${model} (age: ${Math.round(age / 1000)}s)`);
+    console.debug(`[Cache] Hit for ${key.slice(0, 12)} (age: ${Math.round(age / 1000)}s)`);
     return entry.response;
   }
 
@@ -67,7 +89,15 @@ export class ResponseCache {
    * Store response in cache
    */
   set(prompt: string, model: string, response: any, temperature?: number): void {
-    const key = this.getCacheKey(prompt, model, temperature);
+    this.setByKey(this.getCacheKey(prompt, model, temperature), response);
+  }
+
+  /**
+   * Store response in cache under a precomputed key
+   */
+  setByKey(key: string, response: any): void {
+    this.load();
+    this.cache.delete(key);
 
     // Evict oldest entry if at capacity
     if (this.cache.size >= this.maxSize) {
@@ -82,7 +112,8 @@ export class ResponseCache {
       timestamp: Date.now(),
     });
 
-    console.log(`[Cache] Stored response for model ${model} (total: ${this.cache.size})`);
+    console.debug(`[Cache] Stored response ${key.slice(0, 12)} (total: ${this.cache.size})`);
+    this.save();
   }
 
   /**
@@ -90,7 +121,9 @@ export class ResponseCache {
    */
   clear(): void {
     this.cache.clear();
-    console.log('[Cache] Cleared all entries');
+    this.loaded = true;
+    this.save(false);
+    console.debug('[Cache] Cleared all entries');
   }
 
   /**
@@ -108,7 +141,89 @@ export class ResponseCache {
     }
 
     if (removed > 0) {
-      console.log(`[Cache] Cleaned up ${removed} expired entries`);
+      this.save();
+      console.debug(`[Cache] Cleaned up ${removed} expired entries`);
+    }
+  }
+
+  /**
+   * Lazily read persisted entries, dropping expired ones.
+   * A missing or corrupt file simply starts an empty cache.
+   */
+  private load(): void {
+    if (this.loaded) {
+      return;
+    }
+    this.loaded = true;
+    for (const [key, entry] of this.readPersisted()) {
+      this.cache.set(key, entry);
+    }
+    this.trim();
+  }
+
+  /**
+   * Unexpired entries of the file, or none if it is missing or corrupt
+   */
+  private readPersisted(): Array<[string, CacheEntry]> {
+    if (!this.persistPath) {
+      return [];
+    }
+    try {
+      const data = JSON.parse(fs.readFileSync(this.persistPath, 'utf-8'));
+      if (data?.version !== CACHE_FILE_VERSION || !Array.isArray(data.entries)) {
+        return [];
+      }
+      const now = Date.now();
+      return (data.entries as Array<[string, CacheEntry]>).filter(
+        ([, entry]) => now - entry.timestamp <= this.ttl,
+      );
+    } catch {
+      // Nothing persisted yet
+      return [];
+    }
+  }
+
+  private trim(): void {
+    while (this.cache.size > this.maxSize) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+  }
+
+  /**
+   * Write entries to disk atomically so concurrent runs never read a partial
+   * file. Entries other runs saved since this one loaded are kept, as the
+   * least recently used.
+   * @param merge Whether to keep the entries other runs saved
+   */
+  private save(merge = true): void {
+    if (!this.persistPath) {
+      return;
+    }
+
+    if (merge) {
+      const merged = new Map<string, CacheEntry>();
+      for (const [key, entry] of this.readPersisted()) {
+        if (!this.cache.has(key)) {
+          merged.set(key, entry);
+        }
+      }
+      for (const [key, entry] of this.cache) {
+        merged.set(key, entry);
+      }
+      this.cache = merged;
+      this.trim();
+    }
+
+    try {
+      fs.mkdirSync(path.dirname(this.persistPath), { recursive: true });
+      const tmpPath = `${this.persistPath}.${process.pid}.tmp`;
+      fs.writeFileSync(
+        tmpPath,
+        JSON.stringify({ version: CACHE_FILE_VERSION, entries: [...this.cache.entries()] }),
+      );
+      fs.renameSync(tmpPath, this.persistPath);
+    } catch (error) {
+      console.debug('[Cache] Failed to persist response cache:', error);
     }
   }
 
@@ -116,6 +231,7 @@ export class ResponseCache {
    * Get cache statistics
    */
   getStats(): { size: number; maxSize: number; oldestAge: number } {
+    this.load();
     let oldestAge = 0;
     const now = Date.now();
 
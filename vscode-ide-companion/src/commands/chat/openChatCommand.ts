@@ -4,13 +4,13 @@
 
 import * as vscode from 'vscode';
 import { ChatPanel } from '../../webviews/ChatPanel.js';
-import type { RecoderAuthService } from '../../services/RecoderAuthService.js';
+import type { AgentService } from '../../services/AgentService.js';
 
 export function registerOpenChatCommand(
   context: vscode.ExtensionContext,
-  authService: RecoderAuthService
+  agentService: AgentService
 ): vscode.Disposable {
   return vscode.commands.registerCommand('recoder.chat.open', () => {
-    ChatPanel.createOrShow(context, authService);
+    ChatPanel.createOrShow(context, agentService);
   });
 }
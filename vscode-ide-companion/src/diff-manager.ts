@@ -5,9 +5,12 @@
  */
 
 import {
+  applyDiffHunks,
+  computeDiffHunks,
   IdeDiffAcceptedNotificationSchema,
   IdeDiffClosedNotificationSchema,
 } from 'recoder-code-core';
+import type { DiffHunk, DiffReview } from 'recoder-code-core';
 import { type JSONRPCNotification } from '@modelcontextprotocol/sdk/types.js';
 import * as path from 'node:path';
 import * as vscode from 'vscode';
@@ -43,8 +46,51 @@ export class DiffContentProvider implements vscode.TextDocumentContentProvider {
 // Information about a diff view that is currently open.
 interface DiffInfo {
   originalFilePath: string;
+  // The left side, which hunks are computed against
+  originalContent: string;
   newContent: string;
   rightDocUri: vscode.Uri;
+  // Keys of the hunks the user accepted one by one
+  acceptedHunks: Set<string>;
+  rejectedHunks: DiffHunk[];
+}
+
+// Identifies a hunk by its place in the original, which rejecting or
+// editing other hunks does not move.
+function hunkKey(hunk: DiffHunk): string {
+  return JSON.stringify([hunk.oldStart, hunk.oldLines, hunk.newLines]);
+}
+
+/**
+ * Shows Accept and Reject actions above each hunk of a diff view that the
+ * user has not accepted yet.
+ */
+export class DiffHunkCodeLensProvider implements vscode.CodeLensProvider {
+  constructor(private readonly diffManager: DiffManager) {}
+
+  get onDidChangeCodeLenses(): vscode.Event<void> {
+    return this.diffManager.onDidChangeHunks;
+  }
+
+  provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    return this.diffManager.getPendingHunks(document).flatMap((hunk) => {
+      // A deletion has no lines left, so its actions go above the next one
+      const line = Math.min(hunk.newStart - 1, document.lineCount - 1);
+      const range = new vscode.Range(line, 0, line, 0);
+      return [
+        new vscode.CodeLens(range, {
+          title: '$(check) Accept hunk',
+          command: 'recoder.diff.acceptHunk',
+          arguments: [document.uri, hunk],
+        }),
+        new vscode.CodeLens(range, {
+          title: '$(discard) Reject hunk',
+          command: 'recoder.diff.rejectHunk',
+          arguments: [document.uri, hunk],
+        }),
+      ];
+    });
+  }
 }
 
 /**
@@ -54,6 +100,8 @@ export class DiffManager {
   private readonly onDidChangeEmitter =
     new vscode.EventEmitter<JSONRPCNotification>();
   readonly onDidChange = this.onDidChangeEmitter.event;
+  private readonly onDidChangeHunksEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeHunks = this.onDidChangeHunksEmitter.event;
   private diffDocuments = new Map<string, DiffInfo>();
   private readonly subscriptions: vscode.Disposable[] = [];
   private diffThemeService: DiffThemeService;
@@ -93,12 +141,32 @@ export class DiffManager {
       // cache busting
       query: `rand=${Math.random()}`,
     });
+    let leftDocUri;
+    let originalContent = '';
+    try {
+      await vscode.workspace.fs.stat(fileUri);
+      leftDocUri = fileUri;
+      originalContent = (
+        await vscode.workspace.openTextDocument(fileUri)
+      ).getText();
+    } catch {
+      // We need to provide an empty document to diff against.
+      // Using the 'untitled' scheme is one way to do this.
+      leftDocUri = vscode.Uri.from({
+        scheme: 'untitled',
+        path: filePath,
+      });
+    }
+
     this.diffContentProvider.setContent(rightDocUri, newContent);
 
     this.addDiffDocument(rightDocUri, {
       originalFilePath: filePath,
+      originalContent,
       newContent,
       rightDocUri,
+      acceptedHunks: new Set(),
+      rejectedHunks: [],
     });
 
     const diffTitle = `${path.basename(filePath)} ↔ Modified`;
@@ -108,19 +176,6 @@ export class DiffManager {
       true,
     );
 
-    let leftDocUri;
-    try {
-      await vscode.workspace.fs.stat(fileUri);
-      leftDocUri = fileUri;
-    } catch {
-      // We need to provide an empty document to diff against.
-      // Using the 'untitled' scheme is one way to do this.
-      leftDocUri = vscode.Uri.from({
-        scheme: 'untitled',
-        path: filePath,
-      });
-    }
-
     await vscode.commands.executeCommand(
       'vscode.diff',
       leftDocUri,
@@ -136,10 +191,73 @@ export class DiffManager {
     );
   }
 
+  /**
+   * The hunks of a diff view's right side that the user has not accepted
+   * yet, against the original content.
+   */
+  getPendingHunks(document: vscode.TextDocument): DiffHunk[] {
+    const diffInfo = this.diffDocuments.get(document.uri.toString());
+    if (!diffInfo) {
+      return [];
+    }
+    return computeDiffHunks(
+      diffInfo.originalContent,
+      document.getText(),
+    ).filter((hunk) => !diffInfo.acceptedHunks.has(hunkKey(hunk)));
+  }
+
+  /**
+   * User keeps one hunk of the proposed change. Once no hunk is left to
+   * review, the diff is accepted.
+   */
+  async acceptHunk(rightDocUri: vscode.Uri, hunk: DiffHunk) {
+    const diffInfo = this.diffDocuments.get(rightDocUri.toString());
+    if (!diffInfo) {
+      this.log(`No diff info found for ${rightDocUri.toString()}`);
+      return;
+    }
+    diffInfo.acceptedHunks.add(hunkKey(hunk));
+    this.onDidChangeHunksEmitter.fire();
+    await this.finishIfReviewed(rightDocUri);
+  }
+
+  /**
+   * User reverts one hunk of the proposed change to the original lines.
+   * Once no hunk is left to review, the diff is accepted, or rejected if
+   * the user rejected every hunk.
+   */
+  async rejectHunk(rightDocUri: vscode.Uri, hunk: DiffHunk) {
+    const diffInfo = this.diffDocuments.get(rightDocUri.toString());
+    if (!diffInfo) {
+      this.log(`No diff info found for ${rightDocUri.toString()}`);
+      return;
+    }
+    const rightDoc = await vscode.workspace.openTextDocument(rightDocUri);
+    const remaining = computeDiffHunks(
+      diffInfo.originalContent,
+      rightDoc.getText(),
+    ).filter((other) => hunkKey(other) !== hunkKey(hunk));
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(
+      rightDocUri,
+      new vscode.Range(
+        rightDoc.positionAt(0),
+        rightDoc.positionAt(rightDoc.getText().length),
+      ),
+      applyDiffHunks(diffInfo.originalContent, remaining),
+    );
+    if (!(await vscode.workspace.applyEdit(edit))) {
+      this.log(`Failed to reject a hunk of ${diffInfo.originalFilePath}`);
+      return;
+    }
+    diffInfo.rejectedHunks.push(hunk);
+    await this.finishIfReviewed(rightDocUri);
+  }
+
   /**
    * Closes an open diff view for a specific file.
    */
-  async closeDiff(filePath: string) {
+  async closeDiff(filePath: string): Promise<DiffReview | undefined> {
     let uriToClose: vscode.Uri | undefined;
     for (const [uriString, diffInfo] of this.diffDocuments.entries()) {
       if (diffInfo.originalFilePath === filePath) {
@@ -151,6 +269,7 @@ export class DiffManager {
     if (uriToClose) {
       const rightDoc = await vscode.workspace.openTextDocument(uriToClose);
       const modifiedContent = rightDoc.getText();
+      const review = this.getReview(uriToClose, modifiedContent);
       await this.closeDiffEditor(uriToClose);
       const notification: JSONRPCNotification = {
         jsonrpc: '2.0',
@@ -162,7 +281,7 @@ export class DiffManager {
       };
       IdeDiffClosedNotificationSchema.parse(notification);
       this.onDidChangeEmitter.fire(notification);
-      return modifiedContent;
+      return review;
     }
     return;
   }
@@ -179,6 +298,7 @@ export class DiffManager {
 
     const rightDoc = await vscode.workspace.openTextDocument(rightDocUri);
     const modifiedContent = rightDoc.getText();
+    const review = this.getReview(rightDocUri, modifiedContent);
     await this.closeDiffEditor(rightDocUri);
 
     const notification: JSONRPCNotification = {
@@ -186,7 +306,7 @@ export class DiffManager {
       method: 'ide/diffAccepted',
       params: {
         filePath: diffInfo.originalFilePath,
-        content: modifiedContent,
+        ...review,
       },
     };
     IdeDiffAcceptedNotificationSchema.parse(notification);
@@ -241,6 +361,51 @@ export class DiffManager {
     );
   }
 
+  /** Accepts or rejects the diff once the user has reviewed every hunk */
+  private async finishIfReviewed(rightDocUri: vscode.Uri) {
+    const diffInfo = this.diffDocuments.get(rightDocUri.toString());
+    if (!diffInfo) {
+      return;
+    }
+    const rightDoc = await vscode.workspace.openTextDocument(rightDocUri);
+    const hunks = computeDiffHunks(
+      diffInfo.originalContent,
+      rightDoc.getText(),
+    );
+    if (hunks.some((hunk) => !diffInfo.acceptedHunks.has(hunkKey(hunk)))) {
+      return;
+    }
+    if (hunks.length === 0) {
+      await this.cancelDiff(rightDocUri);
+    } else {
+      await this.acceptDiff(rightDocUri);
+    }
+  }
+
+  /**
+   * The content of a diff view with the hunks the user rejected, and
+   * whether they changed it beyond that by hand.
+   */
+  private getReview(rightDocUri: vscode.Uri, content: string): DiffReview {
+    const diffInfo = this.diffDocuments.get(rightDocUri.toString());
+    if (!diffInfo) {
+      return { content };
+    }
+    const rejected = new Set(diffInfo.rejectedHunks.map(hunkKey));
+    const expected = applyDiffHunks(
+      diffInfo.originalContent,
+      computeDiffHunks(diffInfo.originalContent, diffInfo.newContent).filter(
+        (hunk) => !rejected.has(hunkKey(hunk)),
+      ),
+    );
+    return {
+      content,
+      rejectedHunks:
+        diffInfo.rejectedHunks.length > 0 ? diffInfo.rejectedHunks : undefined,
+      userEdited: content !== expected,
+    };
+  }
+
   private addDiffDocument(uri: vscode.Uri, diffInfo: DiffInfo) {
     this.diffDocuments.set(uri.toString(), diffInfo);
   }
@@ -0,0 +1,216 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  IdeElicitationAnsweredNotificationSchema,
+  parseElicitationInput,
+  validateElicitationValue,
+  type ElicitationContent,
+  type ElicitationField,
+  type ElicitationValue,
+  type McpElicitationRequest,
+} from 'recoder-code-core';
+import { type JSONRPCNotification } from '@modelcontextprotocol/sdk/types.js';
+import * as vscode from 'vscode';
+
+/** No answer: the user dismissed a prompt or the question was cancelled */
+const DISMISSED = Symbol('dismissed');
+
+interface ValueItem extends vscode.QuickPickItem {
+  value?: ElicitationValue;
+}
+
+/**
+ * Asks the questions of MCP servers with quick picks and input boxes, one
+ * field at a time, and notifies the CLI of the answers.
+ */
+export class ElicitationManager {
+  private readonly onDidChangeEmitter =
+    new vscode.EventEmitter<JSONRPCNotification>();
+  readonly onDidChange = this.onDidChangeEmitter.event;
+  private pending = new Map<string, vscode.CancellationTokenSource>();
+
+  constructor(private readonly log: (message: string) => void) {}
+
+  /**
+   * Starts asking the question; the answer is sent as an
+   * 'ide/elicitationAnswered' notification.
+   */
+  elicit(id: string, request: McpElicitationRequest): void {
+    const tokenSource = new vscode.CancellationTokenSource();
+    this.pending.set(id, tokenSource);
+    this.ask(request, tokenSource.token)
+      .then((content) => {
+        if (tokenSource.token.isCancellationRequested) {
+          return;
+        }
+        if (content === DISMISSED) {
+          this.answer(id, { action: 'cancel' });
+        } else if (content === undefined) {
+          this.answer(id, { action: 'decline' });
+        } else {
+          this.answer(id, { action: 'accept', content });
+        }
+      })
+      .catch((err) => {
+        this.log(`Elicitation ${id} failed: ${err}`);
+        this.answer(id, { action: 'cancel' });
+      })
+      .finally(() => {
+        this.pending.delete(id);
+        tokenSource.dispose();
+      });
+  }
+
+  /** Hides the prompts of a question the user answered in the CLI. */
+  cancel(id: string): void {
+    this.pending.get(id)?.cancel();
+  }
+
+  private answer(
+    id: string,
+    result: { action: string; content?: ElicitationContent },
+  ) {
+    const notification: JSONRPCNotification = {
+      jsonrpc: '2.0',
+      method: 'ide/elicitationAnswered',
+      params: { id, ...result },
+    };
+    IdeElicitationAnsweredNotificationSchema.parse(notification);
+    this.onDidChangeEmitter.fire(notification);
+  }
+
+  /** The content of the answer, undefined if declined */
+  private async ask(
+    request: McpElicitationRequest,
+    token: vscode.CancellationToken,
+  ): Promise<ElicitationContent | undefined | typeof DISMISSED> {
+    const title = `MCP server ${request.serverName}`;
+    const respond = request.fields.length > 0 ? 'Respond' : 'Accept';
+    const choice = await vscode.window.showQuickPick(
+      [
+        { label: respond, description: 'Answer the question' },
+        { label: 'Decline', description: 'Refuse to answer' },
+      ],
+      { title, placeHolder: request.message, ignoreFocusOut: true },
+      token,
+    );
+    if (!choice) {
+      return DISMISSED;
+    }
+    if (choice.label === 'Decline') {
+      return undefined;
+    }
+
+    const content: ElicitationContent = {};
+    for (const [index, field] of request.fields.entries()) {
+      const step = `${title} (${index + 1}/${request.fields.length})`;
+      const value = await this.askField(field, step, token);
+      if (value === DISMISSED) {
+        return DISMISSED;
+      }
+      if (value !== undefined) {
+        content[field.name] = value;
+      }
+    }
+    return content;
+  }
+
+  private async askField(
+    field: ElicitationField,
+    title: string,
+    token: vscode.CancellationToken,
+  ): Promise<ElicitationValue | undefined | typeof DISMISSED> {
+    const placeHolder = field.description ?? field.title;
+    switch (field.kind) {
+      case 'boolean':
+      case 'select': {
+        const items: ValueItem[] =
+          field.kind === 'boolean'
+            ? [
+                { label: 'Yes', value: true },
+                { label: 'No', value: false },
+              ]
+            : field.options.map((option) => ({
+                label: option.label,
+                description: option.label === option.value ? '' : option.value,
+                value: option.value,
+              }));
+        if (!field.required) {
+          items.push({ label: 'Skip', description: 'Leave empty' });
+        }
+        const item = await vscode.window.showQuickPick(
+          items,
+          {
+            title: `${title}: ${field.title}`,
+            placeHolder,
+            ignoreFocusOut: true,
+          },
+          token,
+        );
+        return item ? item.value : DISMISSED;
+      }
+      case 'multiselect':
+        return this.askSelection(field, title, token);
+      default: {
+        const text = await vscode.window.showInputBox(
+          {
+            title: `${title}: ${field.title}`,
+            prompt: placeHolder,
+            value: field.default === undefined ? '' : String(field.default),
+            ignoreFocusOut: true,
+            validateInput: (input) => {
+              const { value, error } = parseElicitationInput(field, input);
+              return error ?? validateElicitationValue(field, value);
+            },
+          },
+          token,
+        );
+        return text === undefined
+          ? DISMISSED
+          : parseElicitationInput(field, text).value;
+      }
+    }
+  }
+
+  private async askSelection(
+    field: ElicitationField,
+    title: string,
+    token: vscode.CancellationToken,
+  ): Promise<ElicitationValue | undefined | typeof DISMISSED> {
+    const selected = new Set(Array.isArray(field.default) ? field.default : []);
+    for (;;) {
+      const items = await vscode.window.showQuickPick(
+        field.options.map((option) => ({
+          label: option.label,
+          value: option.value,
+          picked: selected.has(option.value),
+        })),
+        {
+          title: `${title}: ${field.title}`,
+          placeHolder: field.description ?? field.title,
+          canPickMany: true,
+          ignoreFocusOut: true,
+        },
+        token,
+      );
+      if (!items) {
+        return DISMISSED;
+      }
+      const value =
+        items.length === 0 && !field.required
+          ? undefined
+          : items.map((item) => item.value);
+      const error = validateElicitationValue(field, value);
+      if (!error) {
+        return value;
+      }
+      selected.clear();
+      items.forEach((item) => selected.add(item.value));
+      void vscode.window.showWarningMessage(error);
+    }
+  }
+}
@@ -5,8 +5,13 @@
  */
 
 import * as vscode from 'vscode';
+import type { DiffHunk } from 'recoder-code-core';
 import { IDEServer } from './ide-server.js';
-import { DiffContentProvider, DiffManager } from './diff-manager.js';
+import {
+  DiffContentProvider,
+  DiffHunkCodeLensProvider,
+  DiffManager,
+} from './diff-manager.js';
 import { createLogger } from './utils/logger.js';
 import { RecoderAuthService } from './services/RecoderAuthService.js';
 import { AuthStatusProvider } from './providers/AuthStatusProvider.js';
@@ -28,6 +33,7 @@ import { refactorCommand } from './commands/code/refactorCommand.js';
 import { addCommentsCommand } from './commands/code/addCommentsCommand.js';
 import { generateTestsCommand } from './commands/code/generateTestsCommand.js';
 import { ProviderService } from './services/ProviderService.js';
+import { AgentService } from './services/AgentService.js';
 import { registerProviderCommands } from './commands/providers/providerCommands.js';
 import { SettingsPanel } from './webviews/SettingsPanel.js';
 import { RecoderCodeLensProvider } from './providers/CodeLensProvider.js';
@@ -176,11 +182,6 @@ export async function activate(context: vscode.ExtensionContext) {
     })
   );
 
-  // Register chat commands
-  context.subscriptions.push(
-    registerOpenChatCommand(context, authService)
-  );
-
   // Register OpenRouter commands
   context.subscriptions.push(
     registerCreditsCommand(context, authService),
@@ -233,6 +234,18 @@ export async function activate(context: vscode.ExtensionContext) {
         diffManager.cancelDiff(docUri);
       }
     }),
+    vscode.languages.registerCodeLensProvider(
+      { scheme: DIFF_SCHEME },
+      new DiffHunkCodeLensProvider(diffManager),
+    ),
+    vscode.commands.registerCommand(
+      'recoder.diff.acceptHunk',
+      (uri: vscode.Uri, hunk: DiffHunk) => diffManager.acceptHunk(uri, hunk),
+    ),
+    vscode.commands.registerCommand(
+      'recoder.diff.rejectHunk',
+      (uri: vscode.Uri, hunk: DiffHunk) => diffManager.rejectHunk(uri, hunk),
+    ),
   );
 
   ideServer = new IDEServer(log, diffManager);
@@ -243,6 +256,13 @@ export async function activate(context: vscode.ExtensionContext) {
     log(`Failed to start IDE server: ${message}`);
   }
 
+  // Chat runs the CLI's agent, which connects back to the IDE server
+  const agentService = new AgentService(log, ideServer);
+  context.subscriptions.push(
+    agentService,
+    registerOpenChatCommand(context, agentService),
+  );
+
   if (!context.globalState.get(INFO_MESSAGE_SHOWN_KEY)) {
     void vscode.window.showInformationMessage(
       'Recoder Code Companion extension successfully installed.',
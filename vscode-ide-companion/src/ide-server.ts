@@ -5,7 +5,10 @@
  */
 
 import * as vscode from 'vscode';
-import { IdeContextNotificationSchema } from 'recoder-code-core';
+import {
+  IdeContextNotificationSchema,
+  type ElicitationField,
+} from 'recoder-code-core';
 import { isInitializeRequest, type JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
@@ -17,23 +20,28 @@ import * as fs from 'node:fs/promises';
 import * as os from 'node:os';
 import { z } from 'zod';
 import type { DiffManager } from './diff-manager.js';
+import { ElicitationManager } from './elicitation-manager.js';
+import { registerLanguageFeatureTools } from './language-features.js';
 import { OpenFilesManager } from './open-files-manager.js';
 
 const MCP_SESSION_ID_HEADER = 'mcp-session-id';
 const IDE_SERVER_PORT_ENV_VAR = 'QWEN_CODE_IDE_SERVER_PORT';
 const IDE_WORKSPACE_PATH_ENV_VAR = 'QWEN_CODE_IDE_WORKSPACE_PATH';
 
+function getWorkspacePath(): string {
+  const workspaceFolders = vscode.workspace.workspaceFolders;
+  return workspaceFolders && workspaceFolders.length > 0
+    ? workspaceFolders.map((folder) => folder.uri.fsPath).join(path.delimiter)
+    : '';
+}
+
 function writePortAndWorkspace(
   context: vscode.ExtensionContext,
   port: number,
   portFile: string,
   log: (message: string) => void,
 ): Promise<void> {
-  const workspaceFolders = vscode.workspace.workspaceFolders;
-  const workspacePath =
-    workspaceFolders && workspaceFolders.length > 0
-      ? workspaceFolders.map((folder) => folder.uri.fsPath).join(path.delimiter)
-      : '';
+  const workspacePath = getWorkspacePath();
 
   context.environmentVariableCollection.replace(
     IDE_SERVER_PORT_ENV_VAR,
@@ -84,10 +92,12 @@ export class IDEServer {
   private portFile: string;
   private port: number | undefined;
   diffManager: DiffManager;
+  elicitationManager: ElicitationManager;
 
   constructor(log: (message: string) => void, diffManager: DiffManager) {
     this.log = log;
     this.diffManager = diffManager;
+    this.elicitationManager = new ElicitationManager(log);
     this.portFile = path.join(
       os.tmpdir(),
       `gemini-ide-server-${process.ppid}.json`,
@@ -103,7 +113,10 @@ export class IDEServer {
 
       const app = express();
       app.use(express.json());
-      const mcpServer = createMcpServer(this.diffManager);
+      const mcpServer = createMcpServer(
+        this.diffManager,
+        this.elicitationManager,
+      );
 
       const openFilesManager = new OpenFilesManager(context);
       const onDidChangeSubscription = openFilesManager.onDidChange(() => {
@@ -124,6 +137,13 @@ export class IDEServer {
         },
       );
       context.subscriptions.push(onDidChangeDiffSubscription);
+      const onDidChangeElicitationSubscription =
+        this.elicitationManager.onDidChange((notification) => {
+          for (const transport of Object.values(transports)) {
+            transport.send(notification);
+          }
+        });
+      context.subscriptions.push(onDidChangeElicitationSubscription);
 
       app.post('/mcp', async (req: Request, res: Response) => {
         const sessionId = req.headers[MCP_SESSION_ID_HEADER] as
@@ -247,6 +267,21 @@ export class IDEServer {
     });
   }
 
+  /**
+   * The environment that lets a CLI started by the extension, rather than in
+   * its terminals, connect to this server
+   */
+  getConnectionEnv(): Record<string, string> {
+    if (!this.port) {
+      return {};
+    }
+    return {
+      [IDE_SERVER_PORT_ENV_VAR]: this.port.toString(),
+      [IDE_WORKSPACE_PATH_ENV_VAR]: getWorkspacePath(),
+      TERM_PROGRAM: 'vscode',
+    };
+  }
+
   async updateWorkspacePath(): Promise<void> {
     if (this.context && this.port) {
       await writePortAndWorkspace(
@@ -284,7 +319,10 @@ export class IDEServer {
   }
 }
 
-const createMcpServer = (diffManager: DiffManager) => {
+const createMcpServer = (
+  diffManager: DiffManager,
+  elicitationManager: ElicitationManager,
+) => {
   const server = new McpServer(
     {
       name: 'qwen-code-companion-mcp-server',
@@ -330,8 +368,7 @@ const createMcpServer = (diffManager: DiffManager) => {
       }).shape,
     },
     async ({ filePath }: { filePath: string }) => {
-      const content = await diffManager.closeDiff(filePath);
-      const response = { content: content ?? undefined };
+      const response = (await diffManager.closeDiff(filePath)) ?? {};
       return {
         content: [
           {
@@ -342,5 +379,84 @@ const createMcpServer = (diffManager: DiffManager) => {
       };
     },
   );
+  registerLanguageFeatureTools(server);
+  server.registerTool(
+    'elicitInput',
+    {
+      description:
+        '(IDE Tool) Ask the user the question of an MCP server, one field at a time. Returns a notification once the user has answered, declined or dismissed it.',
+      inputSchema: z.object({
+        id: z.string(),
+        serverName: z.string(),
+        message: z.string(),
+        fields: z.array(
+          z
+            .object({
+              name: z.string(),
+              title: z.string(),
+              kind: z.enum([
+                'text',
+                'number',
+                'integer',
+                'boolean',
+                'select',
+                'multiselect',
+              ]),
+              required: z.boolean(),
+              options: z.array(
+                z.object({ value: z.string(), label: z.string() }),
+              ),
+            })
+            .passthrough(),
+        ),
+      }).shape,
+    },
+    async ({
+      id,
+      serverName,
+      message,
+      fields,
+    }: {
+      id: string;
+      serverName: string;
+      message: string;
+      fields: unknown[];
+    }) => {
+      elicitationManager.elicit(id, {
+        serverName,
+        message,
+        fields: fields as ElicitationField[],
+      });
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Asking elicitation ${id}`,
+          },
+        ],
+      };
+    },
+  );
+  server.registerTool(
+    'cancelElicitation',
+    {
+      description:
+        '(IDE Tool) Hide the question of an MCP server that was answered elsewhere.',
+      inputSchema: z.object({
+        id: z.string(),
+      }).shape,
+    },
+    async ({ id }: { id: string }) => {
+      elicitationManager.cancel(id);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Cancelled elicitation ${id}`,
+          },
+        ],
+      };
+    },
+  );
   return server;
 };
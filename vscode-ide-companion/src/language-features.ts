@@ -0,0 +1,251 @@
+/**
+ * @license
+ * Copyright 2025 Recoder
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import * as vscode from 'vscode';
+import { z } from 'zod';
+
+// Results use the shapes of the Language Server Protocol: 0-based
+// positions, file URIs and 1-based symbol kinds and severities.
+
+/** How long to wait for diagnostics of a file that was not open */
+const DIAGNOSTICS_TIMEOUT_MS = 3000;
+
+const positionShape = z.object({
+  filePath: z.string(),
+  line: z.number(),
+  character: z.number(),
+}).shape;
+
+type PositionArgs = { filePath: string; line: number; character: number };
+
+function toRange(range: vscode.Range) {
+  return {
+    start: { line: range.start.line, character: range.start.character },
+    end: { line: range.end.line, character: range.end.character },
+  };
+}
+
+function toLocation(location: vscode.Location | vscode.LocationLink) {
+  if ('targetUri' in location) {
+    return {
+      uri: location.targetUri.toString(),
+      range: toRange(location.targetSelectionRange ?? location.targetRange),
+    };
+  }
+  return { uri: location.uri.toString(), range: toRange(location.range) };
+}
+
+function toDiagnostic(diagnostic: vscode.Diagnostic) {
+  const code =
+    typeof diagnostic.code === 'object'
+      ? diagnostic.code.value
+      : diagnostic.code;
+  return {
+    range: toRange(diagnostic.range),
+    severity: diagnostic.severity + 1,
+    code,
+    source: diagnostic.source,
+    message: diagnostic.message,
+  };
+}
+
+interface LspDocumentSymbol {
+  name: string;
+  detail?: string;
+  kind: number;
+  range: ReturnType<typeof toRange>;
+  selectionRange: ReturnType<typeof toRange>;
+  children: LspDocumentSymbol[];
+}
+
+function toDocumentSymbol(symbol: vscode.DocumentSymbol): LspDocumentSymbol {
+  return {
+    name: symbol.name,
+    detail: symbol.detail || undefined,
+    kind: symbol.kind + 1,
+    range: toRange(symbol.range),
+    selectionRange: toRange(symbol.selectionRange),
+    children: symbol.children.map(toDocumentSymbol),
+  };
+}
+
+function toSymbol(symbol: vscode.DocumentSymbol | vscode.SymbolInformation) {
+  if ('location' in symbol) {
+    return {
+      name: symbol.name,
+      kind: symbol.kind + 1,
+      location: toLocation(symbol.location),
+      containerName: symbol.containerName || undefined,
+    };
+  }
+  return toDocumentSymbol(symbol);
+}
+
+function hoverText(content: vscode.MarkdownString | vscode.MarkedString) {
+  if (typeof content === 'string') {
+    return content;
+  }
+  if ('language' in content) {
+    return `\`\`\`${content.language}\n${content.value}\n\`\`\``;
+  }
+  return content.value;
+}
+
+function jsonResult(value: unknown) {
+  return {
+    content: [{ type: 'text' as const, text: JSON.stringify(value) }],
+  };
+}
+
+/**
+ * Diagnostics of a file. A file that was not open is opened, so its
+ * language server analyzes it, and its first diagnostics are awaited.
+ */
+async function getFileDiagnostics(uri: vscode.Uri) {
+  const isOpen = vscode.workspace.textDocuments.some(
+    (document) => document.uri.toString() === uri.toString(),
+  );
+  if (!isOpen) {
+    const reported = new Promise<void>((resolve) => {
+      const timeout = setTimeout(done, DIAGNOSTICS_TIMEOUT_MS);
+      const subscription = vscode.languages.onDidChangeDiagnostics((event) => {
+        if (event.uris.some((changed) => changed.fsPath === uri.fsPath)) {
+          done();
+        }
+      });
+      function done() {
+        clearTimeout(timeout);
+        subscription.dispose();
+        resolve();
+      }
+    });
+    await vscode.workspace.openTextDocument(uri);
+    await reported;
+  }
+  return vscode.languages.getDiagnostics(uri);
+}
+
+function toPosition({ line, character }: PositionArgs) {
+  return new vscode.Position(line, character);
+}
+
+/**
+ * Registers tools that answer with the language features of the editor:
+ * diagnostics, document symbols, definitions, references and hover
+ * information, from the language servers VS Code already runs.
+ */
+export function registerLanguageFeatureTools(server: McpServer) {
+  server.registerTool(
+    'getDiagnostics',
+    {
+      description:
+        '(IDE Tool) Get the diagnostics of a file, or of all files in the workspace without a filePath.',
+      inputSchema: z.object({
+        filePath: z.string().optional(),
+      }).shape,
+    },
+    async ({ filePath }: { filePath?: string }) => {
+      const entries: Array<[vscode.Uri, vscode.Diagnostic[]]> = filePath
+        ? [
+            [
+              vscode.Uri.file(filePath),
+              await getFileDiagnostics(vscode.Uri.file(filePath)),
+            ],
+          ]
+        : vscode.languages
+            .getDiagnostics()
+            .filter(
+              ([uri, diagnostics]) =>
+                uri.scheme === 'file' &&
+                diagnostics.length > 0 &&
+                vscode.workspace.getWorkspaceFolder(uri) !== undefined,
+            );
+      return jsonResult({
+        files: entries.map(([uri, diagnostics]) => ({
+          filePath: uri.fsPath,
+          diagnostics: diagnostics.map(toDiagnostic),
+        })),
+      });
+    },
+  );
+  server.registerTool(
+    'getDocumentSymbols',
+    {
+      description: '(IDE Tool) Get the outline of symbols of a file.',
+      inputSchema: z.object({
+        filePath: z.string(),
+      }).shape,
+    },
+    async ({ filePath }: { filePath: string }) => {
+      const symbols =
+        (await vscode.commands.executeCommand<
+          Array<vscode.DocumentSymbol | vscode.SymbolInformation> | undefined
+        >(
+          'vscode.executeDocumentSymbolProvider',
+          vscode.Uri.file(filePath),
+        )) ?? [];
+      return jsonResult({ symbols: symbols.map(toSymbol) });
+    },
+  );
+  server.registerTool(
+    'getDefinition',
+    {
+      description:
+        '(IDE Tool) Get the definitions of the symbol at a 0-based position in a file.',
+      inputSchema: positionShape,
+    },
+    async (args: PositionArgs) => {
+      const locations =
+        (await vscode.commands.executeCommand<
+          Array<vscode.Location | vscode.LocationLink> | undefined
+        >(
+          'vscode.executeDefinitionProvider',
+          vscode.Uri.file(args.filePath),
+          toPosition(args),
+        )) ?? [];
+      return jsonResult({ locations: locations.map(toLocation) });
+    },
+  );
+  server.registerTool(
+    'getReferences',
+    {
+      description:
+        '(IDE Tool) Get the references to the symbol at a 0-based position in a file, including its declaration.',
+      inputSchema: positionShape,
+    },
+    async (args: PositionArgs) => {
+      const locations =
+        (await vscode.commands.executeCommand<vscode.Location[] | undefined>(
+          'vscode.executeReferenceProvider',
+          vscode.Uri.file(args.filePath),
+          toPosition(args),
+        )) ?? [];
+      return jsonResult({ locations: locations.map(toLocation) });
+    },
+  );
+  server.registerTool(
+    'getHover',
+    {
+      description:
+        '(IDE Tool) Get the hover information, such as the type and documentation, of the symbol at a 0-based position in a file.',
+      inputSchema: positionShape,
+    },
+    async (args: PositionArgs) => {
+      const hovers =
+        (await vscode.commands.executeCommand<vscode.Hover[] | undefined>(
+          'vscode.executeHoverProvider',
+          vscode.Uri.file(args.filePath),
+          toPosition(args),
+        )) ?? [];
+      return jsonResult({
+        contents: hovers
+          .flatMap((hover) => hover.contents.map(hoverText))
+          .filter((text) => text.trim() !== ''),
+      });
+    },
+  );
+}
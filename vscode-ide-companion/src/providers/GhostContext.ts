@@ -0,0 +1,256 @@
+/**
+ * Ghost Context - What Inline Suggestions Know Beyond the Cursor
+ * Per-language stop sequences, and snippets from other open tabs and from
+ * imported files, written as comments ahead of the code before the cursor
+ */
+
+import * as path from 'node:path';
+import * as vscode from 'vscode';
+
+export interface LanguageProfile {
+  // Line comment token, to quote related code in; none skips the snippets
+  comment?: string;
+  // Sequences that start a new top-level declaration, where a
+  // completion inside the current one should stop
+  stops: string[];
+}
+
+const C_LIKE: LanguageProfile = { comment: '//', stops: ['\n//'] };
+const JS_LIKE: LanguageProfile = {
+  comment: '//',
+  stops: ['\nfunction ', '\nclass ', '\nexport ', '\ninterface ', '\ntype '],
+};
+
+const LANGUAGE_PROFILES: Record<string, LanguageProfile> = {
+  typescript: JS_LIKE,
+  typescriptreact: JS_LIKE,
+  javascript: JS_LIKE,
+  javascriptreact: JS_LIKE,
+  python: {
+    comment: '#',
+    stops: ['\ndef ', '\nclass ', '\nif __name__', '\n@'],
+  },
+  go: { comment: '//', stops: ['\nfunc ', '\ntype '] },
+  rust: {
+    comment: '//',
+    stops: ['\nfn ', '\npub fn ', '\nimpl ', '\nstruct '],
+  },
+  ruby: { comment: '#', stops: ['\ndef ', '\nclass ', '\nmodule '] },
+  php: { comment: '//', stops: ['\nfunction ', '\nclass '] },
+  java: C_LIKE,
+  csharp: C_LIKE,
+  kotlin: { comment: '//', stops: ['\nfun ', '\nclass '] },
+  scala: { comment: '//', stops: ['\ndef ', '\nclass ', '\nobject '] },
+  swift: { comment: '//', stops: ['\nfunc ', '\nclass ', '\nstruct '] },
+  c: { comment: '//', stops: ['\n#include'] },
+  cpp: { comment: '//', stops: ['\n#include'] },
+  shellscript: { comment: '#', stops: [] },
+  sql: { comment: '--', stops: [] },
+  lua: { comment: '--', stops: ['\nfunction '] },
+};
+
+export function getLanguageProfile(languageId: string): LanguageProfile {
+  return LANGUAGE_PROFILES[languageId] ?? { stops: [] };
+}
+
+interface Snippet {
+  filePath: string;
+  lines: string[];
+  score: number;
+}
+
+// Lines of an open tab compared with the lines before the cursor
+const WINDOW_LINES = 20;
+const MAX_OPEN_TABS = 10;
+const MAX_IMPORTS = 5;
+const MAX_DECLARATION_LINES = 30;
+// Below it, an open tab's code is not worth the prompt space
+const MIN_SIMILARITY = 0.1;
+
+// Relative module specifiers of JavaScript and TypeScript imports
+const JS_IMPORT = /(?:from|import|require\()\s*['"](\.{1,2}\/[^'"]+)['"]/g;
+// Relative Python imports, e.g. `from .models import User`
+const PY_IMPORT = /^\s*from\s+(\.+)([\w.]*)\s+import\b/gm;
+
+const JS_EXTENSIONS = [
+  '',
+  '.ts',
+  '.tsx',
+  '.js',
+  '.jsx',
+  '/index.ts',
+  '/index.js',
+];
+
+function identifiers(text: string): Set<string> {
+  return new Set(text.match(/[A-Za-z_$][\w$]{2,}/g) ?? []);
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) {
+      shared++;
+    }
+  }
+  const total = a.size + b.size - shared;
+  return total === 0 ? 0 : shared / total;
+}
+
+async function fileExists(uri: vscode.Uri): Promise<boolean> {
+  try {
+    const stat = await vscode.workspace.fs.stat(uri);
+    return stat.type === vscode.FileType.File;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Files the document imports by relative path, for JavaScript, TypeScript
+ * and Python
+ */
+async function resolveImports(
+  document: vscode.TextDocument
+): Promise<vscode.Uri[]> {
+  const dir = path.dirname(document.uri.fsPath);
+  const text = document.getText();
+  const candidates: string[][] = [];
+  if (document.languageId === 'python') {
+    for (const match of text.matchAll(PY_IMPORT)) {
+      const up = Array(match[1].length - 1).fill('..');
+      const base = path.resolve(dir, ...up);
+      const module = path.join(base, ...match[2].split('.').filter(Boolean));
+      candidates.push([`${module}.py`, path.join(module, '__init__.py')]);
+    }
+  } else {
+    for (const match of text.matchAll(JS_IMPORT)) {
+      // TypeScript sources are imported by their compiled .js name
+      const module = path.resolve(dir, match[1].replace(/\.js$/, ''));
+      candidates.push(JS_EXTENSIONS.map((extension) => module + extension));
+    }
+  }
+
+  const uris: vscode.Uri[] = [];
+  for (const paths of candidates) {
+    for (const filePath of paths) {
+      const uri = vscode.Uri.file(filePath);
+      if (await fileExists(uri)) {
+        if (!uris.some((other) => other.fsPath === uri.fsPath)) {
+          uris.push(uri);
+        }
+        break;
+      }
+    }
+    if (uris.length >= MAX_IMPORTS) {
+      break;
+    }
+  }
+  return uris;
+}
+
+/**
+ * The top-level declarations of an imported file: its unindented lines,
+ * other than imports, comments and closing brackets
+ */
+function declarationLines(text: string): string[] {
+  return text
+    .split('\n')
+    .filter(
+      (line) =>
+        /^\S/.test(line) &&
+        !/^(import|from|#include|\/\/|\/\*|\*|#|[}\])])/.test(line)
+    )
+    .slice(0, MAX_DECLARATION_LINES)
+    .map((line) => line.slice(0, 200));
+}
+
+/** The window of a document most similar to the code before the cursor */
+function bestWindow(
+  text: string,
+  words: Set<string>
+): { lines: string[]; score: number } {
+  const lines = text.split('\n');
+  let best = { lines: [] as string[], score: 0 };
+  for (let start = 0; start < lines.length; start += WINDOW_LINES / 2) {
+    const window = lines.slice(start, start + WINDOW_LINES);
+    const score = similarity(words, identifiers(window.join('\n')));
+    if (score > best.score) {
+      best = { lines: window, score };
+    }
+  }
+  return best;
+}
+
+/**
+ * Code from other files that helps complete at the cursor, quoted in line
+ * comments: the declarations of imported files first, then the code of
+ * open tabs most like the code before the cursor, up to `maxChars`
+ */
+export async function buildRelatedContext(
+  document: vscode.TextDocument,
+  position: vscode.Position,
+  maxChars: number
+): Promise<string> {
+  const { comment } = getLanguageProfile(document.languageId);
+  if (!comment || maxChars <= 0) {
+    return '';
+  }
+
+  const snippets: Snippet[] = [];
+  const imports = await resolveImports(document);
+  for (const uri of imports) {
+    const imported = await vscode.workspace.openTextDocument(uri);
+    const lines = declarationLines(imported.getText());
+    if (lines.length > 0) {
+      snippets.push({ filePath: uri.fsPath, lines, score: Infinity });
+    }
+  }
+
+  const before = document.getText(
+    new vscode.Range(
+      Math.max(0, position.line - WINDOW_LINES),
+      0,
+      position.line,
+      position.character
+    )
+  );
+  const words = identifiers(before);
+  const tabUris = vscode.window.tabGroups.all
+    .flatMap((group) => group.tabs)
+    .map((tab) => tab.input)
+    .filter(
+      (input): input is vscode.TabInputText =>
+        input instanceof vscode.TabInputText
+    )
+    .map((input) => input.uri)
+    .filter(
+      (uri) =>
+        uri.scheme === 'file' &&
+        uri.fsPath !== document.uri.fsPath &&
+        !imports.some((imported) => imported.fsPath === uri.fsPath)
+    )
+    .slice(0, MAX_OPEN_TABS);
+  for (const uri of tabUris) {
+    const tab = await vscode.workspace.openTextDocument(uri);
+    const { lines, score } = bestWindow(tab.getText(), words);
+    if (score >= MIN_SIMILARITY) {
+      snippets.push({ filePath: uri.fsPath, lines, score });
+    }
+  }
+
+  let context = '';
+  for (const snippet of snippets.sort((a, b) => b.score - a.score)) {
+    const label = vscode.workspace.asRelativePath(snippet.filePath);
+    const quoted = [
+      `${comment} Related code from ${label}:`,
+      ...snippet.lines.map((line) => `${comment} ${line}`),
+      '',
+    ].join('\n');
+    if (context.length + quoted.length > maxChars) {
+      break;
+    }
+    context += quoted + '\n';
+  }
+  return context;
+}
@@ -1,11 +1,15 @@
 /**
  * Ghost Provider - Inline Code Suggestions (Copilot-like)
- * Shows AI-powered code completions as ghost text while typing
+ * Shows AI-powered code completions as ghost text while typing. Uses the
+ * native fill-in-the-middle endpoint of the provider where it has one, and
+ * a chat prompt otherwise
  */
 
 import * as vscode from 'vscode';
-import { ProviderService } from '../services/ProviderService.js';
+import { AIProvider, ProviderService } from '../services/ProviderService.js';
 import { RecoderAuthService } from '../services/RecoderAuthService.js';
+import { FimService, FimUnsupportedError } from '../services/FimService.js';
+import { buildRelatedContext, getLanguageProfile } from './GhostContext.js';
 
 interface CompletionCache {
   prefix: string;
@@ -19,6 +23,21 @@ interface PendingRequest {
   promise: Promise<string | null>;
 }
 
+// Where the cursor is, which decides how long a completion may be
+interface CursorShape {
+  // Text of the line before the cursor
+  linePrefix: string;
+  // Text of the line after the cursor
+  lineSuffix: string;
+  // The first non-empty line after the cursor's line
+  nextLine: string;
+  // Whether to complete whole lines or blocks, at the end of a line
+  multiline: boolean;
+}
+
+const MAX_TOKENS_SINGLE_LINE = 64;
+const MAX_TOKENS_MULTILINE = 256;
+
 export class GhostProvider implements vscode.InlineCompletionItemProvider {
   private cache: Map<string, CompletionCache> = new Map();
   private pendingRequest: PendingRequest | null = null;
@@ -26,7 +45,12 @@ export class GhostProvider implements vscode.InlineCompletionItemProvider {
   private enabled: boolean = true;
   private debounceDelay: number = 300; // ms
   private maxContextLines: number = 50;
+  private maxLines: number = 10;
+  private relatedContextChars: number = 1500;
+  private useFim: boolean = true;
+  private model: string = '';
   private cacheExpiryMs: number = 30000; // 30 seconds
+  private fimService: FimService;
 
   // Status bar item for showing completion status
   private statusBarItem: vscode.StatusBarItem;
@@ -36,6 +60,8 @@ export class GhostProvider implements vscode.InlineCompletionItemProvider {
     private authService: RecoderAuthService,
     private context: vscode.ExtensionContext
   ) {
+    this.fimService = new FimService(providerService);
+
     // Create status bar item
     this.statusBarItem = vscode.window.createStatusBarItem(
       vscode.StatusBarAlignment.Right,
@@ -67,6 +93,10 @@ export class GhostProvider implements vscode.InlineCompletionItemProvider {
     this.enabled = config.get('enabled', true);
     this.debounceDelay = config.get('debounceDelay', 300);
     this.maxContextLines = config.get('maxContextLines', 50);
+    this.maxLines = config.get('maxLines', 10);
+    this.relatedContextChars = config.get('relatedContextChars', 1500);
+    this.useFim = config.get('useFim', true);
+    this.model = config.get('model', '');
 
     if (this.enabled) {
       this.statusBarItem.text = '$(sparkle) Recoder';
@@ -169,6 +199,7 @@ export class GhostProvider implements vscode.InlineCompletionItemProvider {
     try {
       // Get context
       const { prefix, suffix, language } = this.getContext(document, position);
+      const cursor = this.getCursorShape(document, position);
 
       // Get AI configuration
       const aiConfig = this.providerService.getAIConfiguration();
@@ -190,17 +221,34 @@ export class GhostProvider implements vscode.InlineCompletionItemProvider {
         return null;
       }
 
-      // Build the prompt
-      const prompt = this.buildPrompt(prefix, suffix, language);
+      // Code from imported files and other tabs, as comments
+      const relatedContext = await buildRelatedContext(
+        document,
+        position,
+        this.relatedContextChars
+      );
+      if (token.isCancellationRequested) {
+        return null;
+      }
+
+      // A line ends the completion in the middle of one, and a new
+      // top-level declaration ends a block
+      const stops = cursor.multiline
+        ? ['\n\n\n', ...getLanguageProfile(document.languageId).stops]
+        : ['\n'];
 
       // Create abort controller
       const controller = new AbortController();
 
       // Store pending request
-      const requestPromise = this.makeCompletionRequest(
+      const requestPromise = this.requestCompletion(
         provider,
-        aiConfig.defaultModel || 'anthropic/claude-3.5-sonnet',
-        prompt,
+        this.model || aiConfig.defaultModel || 'anthropic/claude-3.5-sonnet',
+        relatedContext + prefix,
+        suffix,
+        language,
+        cursor,
+        stops,
         apiKey,
         controller.signal
       );
@@ -216,13 +264,60 @@ export class GhostProvider implements vscode.InlineCompletionItemProvider {
       });
 
       const result = await requestPromise;
-      return result;
+      return result ? this.trimCompletion(result, cursor, stops) : null;
     } finally {
       this.statusBarItem.text = '$(sparkle) Recoder';
       this.pendingRequest = null;
     }
   }
 
+  /**
+   * Complete through the native FIM endpoint of the provider, or through a
+   * chat prompt when it has none
+   */
+  private async requestCompletion(
+    provider: AIProvider,
+    model: string,
+    prefix: string,
+    suffix: string,
+    language: string,
+    cursor: CursorShape,
+    stops: string[],
+    apiKey: string | undefined,
+    signal: AbortSignal
+  ): Promise<string | null> {
+    const fimModel = this.fimService.getFimModel(provider, model);
+    if (this.useFim && this.fimService.hasFimEndpoint(provider, fimModel)) {
+      try {
+        return await this.fimService.complete(provider, apiKey, {
+          model: fimModel,
+          prefix,
+          suffix,
+          maxTokens: cursor.multiline
+            ? MAX_TOKENS_MULTILINE
+            : MAX_TOKENS_SINGLE_LINE,
+          temperature: 0.2,
+          stop: stops,
+          signal,
+        });
+      } catch (error) {
+        if (!(error instanceof FimUnsupportedError)) {
+          throw error;
+        }
+        console.warn(`FIM unavailable, falling back to chat: ${error.message}`);
+      }
+    }
+
+    const completion = await this.makeCompletionRequest(
+      provider,
+      model,
+      this.buildPrompt(prefix, suffix, language),
+      apiKey || null,
+      signal
+    );
+    return completion ? this.cleanCompletion(completion) : null;
+  }
+
   /**
    * Make the actual API request
    */
@@ -250,17 +345,16 @@ export class GhostProvider implements vscode.InlineCompletionItemProvider {
         ],
         max_tokens: 150,
         temperature: 0.2,
-        stop: ['\n\n', '```'],
+        stop: ['```'],
       }, { signal } as any);
 
-      const completion = response.choices[0]?.message?.content?.trim();
+      const completion = response.choices[0]?.message?.content;
 
-      if (!completion || completion.length === 0) {
+      if (!completion || completion.trim().length === 0) {
         return null;
       }
 
-      // Clean up the completion
-      return this.cleanCompletion(completion);
+      return completion;
     } catch (error: any) {
       if (error.name === 'AbortError') {
         return null;
@@ -333,25 +427,98 @@ Completion:`;
   }
 
   /**
-   * Clean up AI response
+   * Clean up a chat response, which may wrap the code in a fence
    */
   private cleanCompletion(completion: string): string {
     // Remove markdown code blocks if present
-    let cleaned = completion
+    const cleaned = completion
       .replace(/^```[\w]*\n?/gm, '')
-      .replace(/```$/gm, '')
-      .trim();
+      .replace(/```$/gm, '');
+
+    // Remove leading newlines, and trailing whitespace
+    return cleaned.replace(/^\n+/, '').trimEnd();
+  }
 
-    // Remove leading/trailing newlines
-    cleaned = cleaned.replace(/^\n+/, '').replace(/\n+$/, '');
+  /**
+   * Where the cursor is: completions in the middle of a line stay on it,
+   * and completions at the end of one may span lines
+   */
+  private getCursorShape(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): CursorShape {
+    const lineText = document.lineAt(position.line).text;
+    const lineSuffix = lineText.substring(position.character);
+    let nextLine = '';
+    for (let line = position.line + 1; line < document.lineCount; line++) {
+      const text = document.lineAt(line).text;
+      if (text.trim()) {
+        nextLine = text;
+        break;
+      }
+    }
+    return {
+      linePrefix: lineText.substring(0, position.character),
+      lineSuffix,
+      nextLine,
+      // Closing brackets after the cursor still leave room for lines
+      multiline: /^[\s)\]};,]*$/.test(lineSuffix),
+    };
+  }
+
+  /**
+   * Cut a completion to what fits at the cursor: up to a stop sequence, to
+   * the rest of the line or the end of the current block, and without the
+   * text that already follows the cursor
+   */
+  private trimCompletion(
+    completion: string,
+    cursor: CursorShape,
+    stops: string[]
+  ): string | null {
+    // Not every endpoint honors stop sequences
+    let text = completion;
+    for (const stop of stops) {
+      const index = text.indexOf(stop);
+      if (index >= 0) {
+        text = text.slice(0, index);
+      }
+    }
+
+    let lines = text.split('\n');
+    if (!cursor.multiline) {
+      lines = lines.slice(0, 1);
+    } else {
+      // The block the completion continues is as indented as its first
+      // full line; a line indented less ends it
+      const indent = (line: string) => line.match(/^\s*/)![0].length;
+      const firstFullLine = cursor.linePrefix.trim()
+        ? lines.slice(1).find((line) => line.trim())
+        : cursor.linePrefix + lines[0];
+      const blockIndent = firstFullLine ? indent(firstFullLine) : 0;
+      for (let i = 1; i < lines.length; i++) {
+        const line = lines[i];
+        if (!line.trim() || indent(line) >= blockIndent) {
+          continue;
+        }
+        // Keep a closing bracket unless the code after the cursor has it
+        const closes =
+          /^[}\])]/.test(line.trim()) &&
+          line.trim() !== cursor.nextLine.trim();
+        lines = lines.slice(0, closes ? i + 1 : i);
+        break;
+      }
+      lines = lines.slice(0, this.maxLines);
+    }
+    text = lines.join('\n').trimEnd();
 
-    // Take only the first meaningful chunk (up to double newline)
-    const parts = cleaned.split(/\n\n/);
-    if (parts.length > 0) {
-      cleaned = parts[0];
+    // Models often repeat the closing brackets that follow the cursor
+    const rest = cursor.lineSuffix.trim();
+    if (rest && text.endsWith(rest)) {
+      text = text.slice(0, -rest.length).trimEnd();
     }
 
-    return cleaned;
+    return text.trim() ? text : null;
   }
 
   /**
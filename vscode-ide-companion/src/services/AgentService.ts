@@ -0,0 +1,427 @@
+/**
+ * Agent Service - The CLI's Agent Behind the Chat
+ * Runs `recoder --experimental-acp` and talks to it over the Agent Client
+ * Protocol, so chat gets the CLI's tools, settings, providers and subagents
+ */
+
+import { spawn, type ChildProcess } from 'node:child_process';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import * as readline from 'node:readline';
+import * as vscode from 'vscode';
+import type { IDEServer } from '../ide-server.js';
+
+// The parts of the Agent Client Protocol that the chat uses
+
+export type AgentContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'resource_link'; uri: string; name: string }
+  | {
+      type: 'resource';
+      resource: { uri: string; text: string; mimeType?: string };
+    };
+
+export type AgentToolCallContent =
+  | { type: 'content'; content: AgentContentBlock }
+  | { type: 'diff'; path: string; oldText: string | null; newText: string };
+
+export type AgentToolCallStatus =
+  | 'pending'
+  | 'in_progress'
+  | 'completed'
+  | 'failed';
+
+export interface AgentToolCall {
+  toolCallId: string;
+  title?: string | null;
+  kind?: string | null;
+  status?: AgentToolCallStatus | null;
+  content?: AgentToolCallContent[] | null;
+  locations?: Array<{ path: string; line?: number | null }> | null;
+}
+
+export interface AgentPlanEntry {
+  content: string;
+  status: 'pending' | 'in_progress' | 'completed';
+}
+
+export type AgentSessionUpdate =
+  | {
+      sessionUpdate:
+        | 'user_message_chunk'
+        | 'agent_message_chunk'
+        | 'agent_thought_chunk';
+      content: AgentContentBlock;
+    }
+  | ({ sessionUpdate: 'tool_call' | 'tool_call_update' } & AgentToolCall)
+  | { sessionUpdate: 'plan'; entries: AgentPlanEntry[] };
+
+export interface AgentPermissionOption {
+  optionId: string;
+  name: string;
+  kind: 'allow_once' | 'allow_always' | 'reject_once' | 'reject_always';
+}
+
+export interface AgentPermissionRequest {
+  sessionId: string;
+  options: AgentPermissionOption[];
+  toolCall: AgentToolCall;
+}
+
+export type AgentPermissionOutcome =
+  | { outcome: 'cancelled' }
+  | { outcome: 'selected'; optionId: string };
+
+export type AgentStopReason =
+  | 'end_turn'
+  | 'max_tokens'
+  | 'max_turn_requests'
+  | 'refusal'
+  | 'cancelled';
+
+interface AgentAuthMethod {
+  id: string;
+  name: string;
+  description: string | null;
+}
+
+/**
+ * What a chat session does with what the agent sends it
+ */
+export interface AgentSessionHandler {
+  onUpdate(update: AgentSessionUpdate): void;
+  requestPermission(
+    request: AgentPermissionRequest
+  ): Promise<AgentPermissionOutcome>;
+}
+
+/**
+ * An error response of the agent
+ */
+export class AgentRequestError extends Error {
+  constructor(
+    public code: number,
+    message: string,
+    public data?: unknown
+  ) {
+    super(message);
+    this.name = 'AgentRequestError';
+  }
+}
+
+const PROTOCOL_VERSION = 1;
+const AUTH_REQUIRED = -32000;
+const METHOD_NOT_FOUND = -32601;
+const INTERNAL_ERROR = -32603;
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+}
+
+export class AgentService implements vscode.Disposable {
+  private process: ChildProcess | undefined;
+  private starting: Promise<void> | undefined;
+  private nextRequestId = 0;
+  private pendingRequests = new Map<number, PendingRequest>();
+  private sessions = new Map<string, AgentSessionHandler>();
+  private authMethods: AgentAuthMethod[] = [];
+
+  constructor(
+    private log: (message: string) => void,
+    private ideServer: IDEServer
+  ) {}
+
+  /**
+   * Start a session of the agent in the workspace, starting the agent
+   * first if needed. Asks how to sign in if the CLI has not been set up.
+   */
+  async newSession(handler: AgentSessionHandler): Promise<string> {
+    await this.start();
+    const params = { cwd: this.getWorkspaceRoot(), mcpServers: [] };
+    let response: { sessionId: string };
+    try {
+      response = await this.request('session/new', params);
+    } catch (error) {
+      if (
+        !(error instanceof AgentRequestError) ||
+        error.code !== AUTH_REQUIRED ||
+        !(await this.authenticate())
+      ) {
+        throw error;
+      }
+      response = await this.request('session/new', params);
+    }
+    this.sessions.set(response.sessionId, handler);
+    return response.sessionId;
+  }
+
+  /**
+   * Whether the session is still alive; sessions end with the agent
+   */
+  hasSession(sessionId: string): boolean {
+    return this.sessions.has(sessionId);
+  }
+
+  /**
+   * Send a prompt and resolve once the agent has finished the turn,
+   * including the tool calls it made
+   */
+  async prompt(
+    sessionId: string,
+    prompt: AgentContentBlock[]
+  ): Promise<AgentStopReason> {
+    const response = await this.request<{ stopReason: AgentStopReason }>(
+      'session/prompt',
+      { sessionId, prompt }
+    );
+    return response.stopReason;
+  }
+
+  cancel(sessionId: string): void {
+    if (this.process) {
+      this.notify('session/cancel', { sessionId });
+    }
+  }
+
+  closeSession(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  dispose(): void {
+    this.process?.kill();
+    this.process = undefined;
+  }
+
+  private getWorkspaceRoot(): string {
+    return vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? os.homedir();
+  }
+
+  private start(): Promise<void> {
+    if (!this.starting) {
+      this.starting = this.spawnAgent().catch((error) => {
+        this.starting = undefined;
+        throw error;
+      });
+    }
+    return this.starting;
+  }
+
+  private async spawnAgent(): Promise<void> {
+    const command = vscode.workspace
+      .getConfiguration('recoderCode.agent')
+      .get<string>('command', 'recoder');
+    this.log(`Starting agent: ${command} --experimental-acp`);
+    const child = spawn(command, ['--experimental-acp', '--ide-mode'], {
+      cwd: this.getWorkspaceRoot(),
+      env: { ...process.env, ...this.ideServer.getConnectionEnv() },
+      // Windows finds `recoder.cmd` through the shell only
+      shell: process.platform === 'win32',
+    });
+    this.process = child;
+
+    await new Promise<void>((resolve, reject) => {
+      child.once('spawn', resolve);
+      child.once('error', (error) =>
+        reject(
+          new Error(
+            `Could not start the agent with "${command}": ${error.message}. Install the Recoder Code CLI or set recoderCode.agent.command.`
+          )
+        )
+      );
+    });
+
+    readline
+      .createInterface({ input: child.stdout! })
+      .on('line', (line) => this.handleLine(line));
+    child.stderr!.on('data', (data: Buffer) =>
+      this.log(`[agent] ${data.toString().trimEnd()}`)
+    );
+    child.on('exit', (code) => {
+      this.log(`Agent exited with code ${code}`);
+      if (this.process === child) {
+        this.process = undefined;
+        this.starting = undefined;
+      }
+      this.sessions.clear();
+      for (const pending of this.pendingRequests.values()) {
+        pending.reject(new Error('The agent stopped'));
+      }
+      this.pendingRequests.clear();
+    });
+
+    let response: { authMethods?: AgentAuthMethod[] };
+    try {
+      response = await this.request('initialize', {
+        protocolVersion: PROTOCOL_VERSION,
+        clientCapabilities: {
+          fs: { readTextFile: true, writeTextFile: true },
+        },
+      });
+    } catch (error) {
+      // The next start() spawns a new agent, so this one must not linger
+      this.process = undefined;
+      child.kill();
+      throw error;
+    }
+    this.authMethods = response.authMethods ?? [];
+  }
+
+  private async authenticate(): Promise<boolean> {
+    const picked = await vscode.window.showQuickPick(
+      this.authMethods.map((method) => ({
+        label: method.name,
+        detail: method.description ?? undefined,
+        id: method.id,
+      })),
+      { placeHolder: 'Choose how Recoder Code signs in' }
+    );
+    if (!picked) {
+      return false;
+    }
+    await this.request('authenticate', { methodId: picked.id });
+    return true;
+  }
+
+  private request<T = any>(method: string, params: unknown): Promise<T> {
+    const id = this.nextRequestId++;
+    return new Promise<T>((resolve, reject) => {
+      this.pendingRequests.set(id, { resolve, reject });
+      this.send({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  private notify(method: string, params: unknown): void {
+    this.send({ jsonrpc: '2.0', method, params });
+  }
+
+  private send(message: Record<string, unknown>): void {
+    if (!this.process?.stdin?.writable) {
+      throw new Error('The agent is not running');
+    }
+    this.process.stdin.write(JSON.stringify(message) + '\n');
+  }
+
+  private handleLine(line: string): void {
+    if (!line.trim()) {
+      return;
+    }
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      this.log(`[agent] ${line}`);
+      return;
+    }
+
+    if (message.method !== undefined && message.id !== undefined) {
+      void this.handleRequest(message.id, message.method, message.params);
+    } else if (message.method === 'session/update') {
+      const { sessionId, update } = message.params;
+      this.sessions.get(sessionId)?.onUpdate(update);
+    } else if (message.id !== undefined) {
+      const pending = this.pendingRequests.get(message.id);
+      this.pendingRequests.delete(message.id);
+      if (message.error) {
+        const { code, message: text, data } = message.error;
+        pending?.reject(
+          new AgentRequestError(code, data?.details ?? text, data)
+        );
+      } else {
+        pending?.resolve(message.result);
+      }
+    }
+  }
+
+  private async handleRequest(
+    id: number | string,
+    method: string,
+    params: any
+  ): Promise<void> {
+    try {
+      const result = await this.handleClientMethod(method, params);
+      this.send({ jsonrpc: '2.0', id, result: result ?? null });
+    } catch (error) {
+      const code =
+        error instanceof AgentRequestError ? error.code : INTERNAL_ERROR;
+      const message = error instanceof Error ? error.message : String(error);
+      this.send({ jsonrpc: '2.0', id, error: { code, message } });
+    }
+  }
+
+  private async handleClientMethod(method: string, params: any) {
+    switch (method) {
+      case 'session/request_permission': {
+        const handler = this.sessions.get(params.sessionId);
+        const outcome: AgentPermissionOutcome = handler
+          ? await handler.requestPermission(params)
+          : { outcome: 'cancelled' };
+        return { outcome };
+      }
+      case 'fs/read_text_file':
+        return { content: await this.readTextFile(params) };
+      case 'fs/write_text_file':
+        await this.writeTextFile(params.path, params.content);
+        return null;
+      default:
+        throw new AgentRequestError(METHOD_NOT_FOUND, 'Method not found');
+    }
+  }
+
+  /**
+   * Files open in the editor are read with their unsaved changes
+   */
+  private async readTextFile(params: {
+    path: string;
+    line?: number | null;
+    limit?: number | null;
+  }): Promise<string> {
+    const uri = vscode.Uri.file(params.path);
+    const document = vscode.workspace.textDocuments.find(
+      (open) => open.uri.fsPath === uri.fsPath
+    );
+    const text = document
+      ? document.getText()
+      : new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+    if (!params.line && !params.limit) {
+      return text;
+    }
+    const start = Math.max(0, (params.line ?? 1) - 1);
+    const lines = text.split('\n');
+    return lines
+      .slice(start, params.limit ? start + params.limit : undefined)
+      .join('\n');
+  }
+
+  /**
+   * Files open in the editor are changed through it, so their undo history
+   * keeps the change and no unsaved changes are overwritten
+   */
+  private async writeTextFile(filePath: string, content: string) {
+    const uri = vscode.Uri.file(filePath);
+    const document = vscode.workspace.textDocuments.find(
+      (open) => open.uri.fsPath === uri.fsPath
+    );
+    if (!document) {
+      await vscode.workspace.fs.createDirectory(
+        vscode.Uri.file(path.dirname(filePath))
+      );
+      await vscode.workspace.fs.writeFile(
+        uri,
+        new TextEncoder().encode(content)
+      );
+      return;
+    }
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(
+      uri,
+      new vscode.Range(
+        document.positionAt(0),
+        document.positionAt(document.getText().length)
+      ),
+      content
+    );
+    await vscode.workspace.applyEdit(edit);
+    await document.save();
+  }
+}
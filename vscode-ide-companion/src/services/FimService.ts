@@ -0,0 +1,272 @@
+/**
+ * FIM Service - Native Fill-in-the-Middle Completions
+ * Sends the code before and after the cursor to the infill endpoints of
+ * providers that have one, instead of wrapping them in a chat prompt
+ */
+
+import OpenAI from 'openai';
+import { AIProvider, ProviderService } from './ProviderService.js';
+
+export interface FimRequest {
+  model: string;
+  prefix: string;
+  suffix: string;
+  maxTokens: number;
+  temperature: number;
+  stop: string[];
+  signal: AbortSignal;
+}
+
+type FimEndpoint = 'ollama' | 'codestral' | 'deepseek' | 'completions';
+
+// Providers with a native infill endpoint
+const FIM_ENDPOINTS: Record<string, FimEndpoint> = {
+  ollama: 'ollama', // /api/generate with suffix
+  mistral: 'codestral', // /v1/fim/completions
+  deepseek: 'deepseek', // /beta/completions with suffix
+  lmstudio: 'completions', // OpenAI-compatible /completions with suffix
+  llamacpp: 'completions',
+  together: 'completions',
+  fireworks: 'completions',
+};
+
+// Models that can infill, for endpoints that only serve some
+const FIM_MODELS: Partial<
+  Record<FimEndpoint, { pattern: RegExp; fallback: string }>
+> = {
+  codestral: { pattern: /codestral/i, fallback: 'codestral-latest' },
+  deepseek: { pattern: /^deepseek-(chat|coder)/i, fallback: 'deepseek-chat' },
+};
+
+// Statuses of an endpoint that does not exist or cannot infill at all.
+// Other client errors, e.g. for a prompt that is too long, fail one request.
+const UNSUPPORTED_STATUSES = new Set([404, 405, 501]);
+
+interface OllamaGenerateResponse {
+  response?: string;
+}
+
+interface CodestralFimResponse {
+  choices?: Array<{ message?: { content?: string } }>;
+}
+
+interface DeepSeekCompletionResponse {
+  choices?: Array<{ text?: string }>;
+}
+
+/**
+ * An error status of an infill endpoint
+ */
+export class FimRequestError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'FimRequestError';
+  }
+}
+
+/**
+ * The endpoint refused the request as unsupported, e.g. for a model without
+ * infill support; the chat path should be used instead
+ */
+export class FimUnsupportedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FimUnsupportedError';
+  }
+}
+
+export class FimService {
+  // provider:model pairs whose endpoint turned out not to infill
+  private unsupported = new Set<string>();
+
+  constructor(private providerService: ProviderService) {}
+
+  /**
+   * The model to infill with: the given one, unless the endpoint only
+   * serves dedicated models
+   */
+  getFimModel(provider: AIProvider, model: string): string {
+    const models = FIM_MODELS[FIM_ENDPOINTS[provider.id]];
+    if (models && !models.pattern.test(model)) {
+      return models.fallback;
+    }
+    return model;
+  }
+
+  /**
+   * Whether the provider has an infill endpoint that has not refused the
+   * model before
+   */
+  hasFimEndpoint(provider: AIProvider, model: string): boolean {
+    return (
+      FIM_ENDPOINTS[provider.id] !== undefined &&
+      !this.unsupported.has(`${provider.id}:${model}`)
+    );
+  }
+
+  /**
+   * Request an infill completion. Returns null when cancelled or failed.
+   * @throws FimUnsupportedError if the endpoint cannot infill for the model
+   */
+  async complete(
+    provider: AIProvider,
+    apiKey: string | undefined,
+    request: FimRequest
+  ): Promise<string | null> {
+    try {
+      switch (FIM_ENDPOINTS[provider.id]) {
+        case 'ollama':
+          return await this.completeWithOllama(provider, request);
+        case 'codestral':
+          return await this.completeWithCodestral(provider, apiKey, request);
+        case 'deepseek':
+          return await this.completeWithDeepSeek(provider, apiKey, request);
+        case 'completions':
+          return await this.completeWithCompletions(provider, apiKey, request);
+        default:
+          throw new FimUnsupportedError(`${provider.name} has no FIM endpoint`);
+      }
+    } catch (error) {
+      if (
+        request.signal.aborted ||
+        (error instanceof Error && error.name === 'AbortError')
+      ) {
+        return null;
+      }
+      if (
+        error instanceof FimUnsupportedError ||
+        ((error instanceof FimRequestError ||
+          error instanceof OpenAI.APIError) &&
+          error.status !== undefined &&
+          UNSUPPORTED_STATUSES.has(error.status))
+      ) {
+        this.unsupported.add(`${provider.id}:${request.model}`);
+        throw error instanceof FimUnsupportedError
+          ? error
+          : new FimUnsupportedError(error.message);
+      }
+      console.error('FIM request failed:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Ollama fills in with the model's own FIM template when given a suffix
+   */
+  private async completeWithOllama(
+    provider: AIProvider,
+    request: FimRequest
+  ): Promise<string | null> {
+    const data = await this.postJson<OllamaGenerateResponse>(
+      `${provider.baseUrl}/api/generate`,
+      undefined,
+      request.signal,
+      {
+        model: request.model,
+        prompt: request.prefix,
+        suffix: request.suffix,
+        stream: false,
+        options: {
+          num_predict: request.maxTokens,
+          temperature: request.temperature,
+          stop: request.stop,
+        },
+      }
+    );
+    return data.response ?? null;
+  }
+
+  private async completeWithCodestral(
+    provider: AIProvider,
+    apiKey: string | undefined,
+    request: FimRequest
+  ): Promise<string | null> {
+    const data = await this.postJson<CodestralFimResponse>(
+      `${provider.baseUrl}/fim/completions`,
+      apiKey,
+      request.signal,
+      {
+        model: request.model,
+        prompt: request.prefix,
+        suffix: request.suffix,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        stop: request.stop,
+      }
+    );
+    return data.choices?.[0]?.message?.content ?? null;
+  }
+
+  /**
+   * DeepSeek serves FIM on its beta API only
+   */
+  private async completeWithDeepSeek(
+    provider: AIProvider,
+    apiKey: string | undefined,
+    request: FimRequest
+  ): Promise<string | null> {
+    const baseUrl = provider.baseUrl.replace(/\/v1$/, '/beta');
+    const data = await this.postJson<DeepSeekCompletionResponse>(
+      `${baseUrl}/completions`,
+      apiKey,
+      request.signal,
+      {
+        model: request.model,
+        prompt: request.prefix,
+        suffix: request.suffix,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        stop: request.stop.slice(0, 16),
+      }
+    );
+    return data.choices?.[0]?.text ?? null;
+  }
+
+  private async completeWithCompletions(
+    provider: AIProvider,
+    apiKey: string | undefined,
+    request: FimRequest
+  ): Promise<string | null> {
+    const client = this.providerService.getClient(provider, apiKey);
+    const response = await client.completions.create(
+      {
+        model: request.model,
+        prompt: request.prefix,
+        suffix: request.suffix,
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        // The OpenAI API takes up to four
+        stop: request.stop.slice(0, 4),
+      },
+      { signal: request.signal }
+    );
+    return response.choices[0]?.text ?? null;
+  }
+
+  private async postJson<T>(
+    url: string,
+    apiKey: string | undefined,
+    signal: AbortSignal,
+    body: Record<string, unknown>
+  ): Promise<T> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      throw new FimRequestError(
+        response.status,
+        `${url} responded ${response.status}: ${await response.text()}`
+      );
+    }
+    return (await response.json()) as T;
+  }
+}
@@ -1,9 +1,11 @@
 /**
  * Multi-File Refactor Service
- * Handles refactoring operations across multiple files in the workspace
+ * Handles refactoring operations across multiple files in the workspace,
+ * through the language servers of the editor where there are any
  */
 
 import * as vscode from 'vscode';
+import { computeDiffHunks } from 'recoder-code-core';
 import { ProviderService } from './ProviderService.js';
 import { RecoderAuthService } from './RecoderAuthService.js';
 
@@ -26,6 +28,15 @@ export interface RefactorResult {
   files: FileChange[];
   summary: string;
   error?: string;
+  warnings?: string[];
+}
+
+export interface SymbolOccurrences {
+  locations: vscode.Location[];
+  // 'text' when no language server knew the symbol and its name was
+  // matched as text, in comments, strings and other identifiers too
+  source: 'language-server' | 'text';
+  warnings: string[];
 }
 
 export interface RefactorOptions {
@@ -48,51 +59,91 @@ export class MultiFileRefactorService {
   ) {}
 
   /**
-   * Find all occurrences of a symbol across the workspace
+   * Find all occurrences of a symbol across the workspace: its references,
+   * found by the language server from its declaration or from `at`, an
+   * occurrence of it. Without a language server that knows the symbol, its
+   * name is matched as text, with a warning.
    */
   async findSymbolOccurrences(
     symbol: string,
-    options: Partial<RefactorOptions> = {}
-  ): Promise<vscode.Location[]> {
-    const locations: vscode.Location[] = [];
-
-    // Get files to search
-    const files = await this.getFilesToSearch(options);
-
-    for (const file of files) {
-      try {
-        const document = await vscode.workspace.openTextDocument(file);
-        const text = document.getText();
-
-        // Find all occurrences using regex
-        const regex = new RegExp(`\\b${this.escapeRegex(symbol)}\\b`, 'g');
-        let match: RegExpExecArray | null;
-
-        while ((match = regex.exec(text)) !== null) {
-          const position = document.positionAt(match.index);
-          const range = new vscode.Range(
-            position,
-            position.translate(0, symbol.length)
-          );
-          locations.push(new vscode.Location(file, range));
-        }
-      } catch (error) {
-        console.error(`Error searching file ${file.fsPath}:`, error);
-      }
-    }
-
-    return locations;
+    options: Partial<RefactorOptions> = {},
+    at?: vscode.Location
+  ): Promise<SymbolOccurrences> {
+    return this.findOccurrences(
+      symbol,
+      options,
+      at ?? (await this.findDeclaration(symbol))
+    );
   }
 
   /**
-   * Rename a symbol across all files
+   * Rename a symbol across all files. The language server's rename covers
+   * every use of the symbol and leaves comments, strings and other symbols
+   * of the same name alone. It is never cut to the options' scope, which
+   * would leave uses with the old name; a warning lists the files it
+   * changes outside the scope. The text fallback stays within the scope.
    */
   async renameSymbol(
     oldName: string,
     newName: string,
-    options: Partial<RefactorOptions> = {}
+    options: Partial<RefactorOptions> = {},
+    at?: vscode.Location
   ): Promise<RefactorResult> {
-    const locations = await this.findSymbolOccurrences(oldName, options);
+    const declaration = at ?? (await this.findDeclaration(oldName));
+    const description = `Rename "${oldName}" to "${newName}"`;
+
+    if (declaration) {
+      let edit: vscode.WorkspaceEdit | undefined;
+      try {
+        edit = await vscode.commands.executeCommand<
+          vscode.WorkspaceEdit | undefined
+        >(
+          'vscode.executeDocumentRenameProvider',
+          declaration.uri,
+          declaration.range.start,
+          newName
+        );
+      } catch (error) {
+        // The language server refused, e.g. for a symbol of a library
+        return {
+          success: false,
+          files: [],
+          summary: `"${oldName}" cannot be renamed`,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+
+      if (edit && edit.size > 0) {
+        const fileChanges = await this.toFileChanges(edit, description);
+        this.storePendingChanges(fileChanges);
+        const count = fileChanges.reduce(
+          (total, change) => total + change.changes.length,
+          0
+        );
+        const inScope = await this.filterToScope(fileChanges, options);
+        const outOfScope = fileChanges
+          .filter((change) => !inScope.includes(change))
+          .map((change) => vscode.workspace.asRelativePath(change.uri));
+        const warnings: string[] = [];
+        if (outOfScope.length > 0) {
+          const warning = `Renaming "${oldName}" also changes files outside the scope, as its uses there would break otherwise: ${outOfScope.join(', ')}`;
+          vscode.window.showWarningMessage(warning);
+          warnings.push(warning);
+        }
+        return {
+          success: true,
+          files: fileChanges,
+          summary: `Found ${count} occurrences in ${fileChanges.length} files`,
+          warnings,
+        };
+      }
+    }
+
+    const { locations, warnings } = await this.findOccurrences(
+      oldName,
+      options,
+      declaration
+    );
 
     if (locations.length === 0) {
       return {
@@ -100,6 +151,7 @@ export class MultiFileRefactorService {
         files: [],
         summary: `No occurrences of "${oldName}" found`,
         error: 'Symbol not found',
+        warnings,
       };
     }
 
@@ -141,7 +193,7 @@ export class MultiFileRefactorService {
           range: location.range,
           oldText: oldName,
           newText: newName,
-          description: `Rename "${oldName}" to "${newName}"`,
+          description,
         });
       }
 
@@ -153,20 +205,185 @@ export class MultiFileRefactorService {
       });
     }
 
-    // Store pending changes
-    for (const change of fileChanges) {
-      this.pendingChanges.set(change.uri.toString(), change);
-    }
+    this.storePendingChanges(fileChanges);
 
     return {
       success: true,
       files: fileChanges,
       summary: `Found ${locations.length} occurrences in ${fileChanges.length} files`,
+      warnings,
     };
   }
 
   /**
-   * AI-powered refactoring across multiple files
+   * The name of a symbol's declaration, from the workspace symbols of the
+   * language servers
+   */
+  private async findDeclaration(
+    symbol: string
+  ): Promise<vscode.Location | undefined> {
+    const symbols =
+      (await vscode.commands.executeCommand<
+        vscode.SymbolInformation[] | undefined
+      >('vscode.executeWorkspaceSymbolProvider', symbol)) ?? [];
+    // Some servers name functions with their parameters, e.g. `greet(name)`
+    const declaration = symbols.find(
+      (candidate) =>
+        candidate.name === symbol || candidate.name.startsWith(`${symbol}(`)
+    );
+    if (!declaration) {
+      return undefined;
+    }
+
+    // The symbol's range spans the declaration, which may not start with
+    // the name, e.g. `export function greet() {...}`
+    const { uri, range } = declaration.location;
+    const document = await vscode.workspace.openTextDocument(uri);
+    const regex = new RegExp(`\\b${this.escapeRegex(symbol)}\\b`);
+    const match = regex.exec(document.getText(range));
+    if (!match) {
+      return undefined;
+    }
+    const start = document.positionAt(
+      document.offsetAt(range.start) + match.index
+    );
+    return new vscode.Location(
+      uri,
+      new vscode.Range(start, start.translate(0, symbol.length))
+    );
+  }
+
+  private async findOccurrences(
+    symbol: string,
+    options: Partial<RefactorOptions>,
+    declaration: vscode.Location | undefined
+  ): Promise<SymbolOccurrences> {
+    if (declaration) {
+      const references = await vscode.commands.executeCommand<
+        vscode.Location[] | undefined
+      >(
+        'vscode.executeReferenceProvider',
+        declaration.uri,
+        declaration.range.start
+      );
+      if (references && references.length > 0) {
+        return {
+          locations: await this.filterToScope(references, options),
+          source: 'language-server',
+          warnings: [],
+        };
+      }
+    }
+
+    const warning = `No language server found references to "${symbol}", so its name was matched as text, also in comments, strings and unrelated identifiers. Review each change.`;
+    vscode.window.showWarningMessage(warning);
+    return {
+      locations: await this.findTextOccurrences(symbol, options),
+      source: 'text',
+      warnings: [warning],
+    };
+  }
+
+  /**
+   * References or file changes in the files of the options' scope and
+   * patterns, if set
+   */
+  private async filterToScope<T extends { uri: vscode.Uri }>(
+    items: T[],
+    options: Partial<RefactorOptions>
+  ): Promise<T[]> {
+    if (!options.scope && !options.includePattern && !options.excludePattern) {
+      return items;
+    }
+    const files = new Set(
+      (await this.getFilesToSearch(options)).map((file) => file.toString())
+    );
+    return items.filter((item) => files.has(item.uri.toString()));
+  }
+
+  /**
+   * Every match of the name as a whole word, in the files of the options
+   */
+  private async findTextOccurrences(
+    symbol: string,
+    options: Partial<RefactorOptions>
+  ): Promise<vscode.Location[]> {
+    const locations: vscode.Location[] = [];
+
+    // Get files to search
+    const files = await this.getFilesToSearch(options);
+
+    for (const file of files) {
+      try {
+        const document = await vscode.workspace.openTextDocument(file);
+        const text = document.getText();
+
+        // Find all occurrences using regex
+        const regex = new RegExp(`\\b${this.escapeRegex(symbol)}\\b`, 'g');
+        let match: RegExpExecArray | null;
+
+        while ((match = regex.exec(text)) !== null) {
+          const position = document.positionAt(match.index);
+          const range = new vscode.Range(
+            position,
+            position.translate(0, symbol.length)
+          );
+          locations.push(new vscode.Location(file, range));
+        }
+      } catch (error) {
+        console.error(`Error searching file ${file.fsPath}:`, error);
+      }
+    }
+
+    return locations;
+  }
+
+  /**
+   * The changes of a workspace edit, file by file
+   */
+  private async toFileChanges(
+    edit: vscode.WorkspaceEdit,
+    description: string
+  ): Promise<FileChange[]> {
+    const fileChanges: FileChange[] = [];
+    for (const [uri, edits] of edit.entries()) {
+      const document = await vscode.workspace.openTextDocument(uri);
+      const originalContent = document.getText();
+      let newContent = originalContent;
+      const fromLast = [...edits].sort((a, b) =>
+        b.range.start.compareTo(a.range.start)
+      );
+      for (const textEdit of fromLast) {
+        newContent =
+          newContent.substring(0, document.offsetAt(textEdit.range.start)) +
+          textEdit.newText +
+          newContent.substring(document.offsetAt(textEdit.range.end));
+      }
+      fileChanges.push({
+        uri,
+        originalContent,
+        newContent,
+        changes: fromLast.reverse().map((textEdit) => ({
+          range: textEdit.range,
+          oldText: document.getText(textEdit.range),
+          newText: textEdit.newText,
+          description,
+        })),
+      });
+    }
+    return fileChanges;
+  }
+
+  private storePendingChanges(fileChanges: FileChange[]): void {
+    for (const change of fileChanges) {
+      this.pendingChanges.set(change.uri.toString(), change);
+    }
+  }
+
+  /**
+   * AI-powered refactoring across multiple files. The suggested changes
+   * open in the refactor preview, where each can be unticked before the
+   * rest is applied.
    */
   async aiRefactor(
     prompt: string,
@@ -241,18 +458,49 @@ export class MultiFileRefactorService {
       }
     );
 
-    // Store pending changes
-    for (const change of fileChanges) {
-      this.pendingChanges.set(change.uri.toString(), change);
+    if (fileChanges.length === 0) {
+      return {
+        success: false,
+        files: [],
+        summary: `No changes suggested for ${filesToProcess.length} files`,
+      };
     }
 
+    const applied = await this.previewChanges(
+      fileChanges,
+      `AI refactoring: ${prompt}`
+    );
+
     return {
-      success: fileChanges.length > 0,
+      success: applied,
       files: fileChanges,
-      summary: `Modified ${fileChanges.length} of ${filesToProcess.length} files`,
+      summary: applied
+        ? `Modified ${fileChanges.length} of ${filesToProcess.length} files`
+        : 'The refactoring was discarded',
     };
   }
 
+  /**
+   * Show changes in VS Code's refactor preview, where each can be unticked,
+   * and apply the ones kept. False if the user discarded them.
+   */
+  async previewChanges(
+    fileChanges: FileChange[],
+    label: string
+  ): Promise<boolean> {
+    const edit = new vscode.WorkspaceEdit();
+    for (const change of fileChanges) {
+      for (const textChange of change.changes) {
+        edit.replace(change.uri, textChange.range, textChange.newText, {
+          label,
+          description: textChange.description,
+          needsConfirmation: true,
+        });
+      }
+    }
+    return vscode.workspace.applyEdit(edit, { isRefactoring: true });
+  }
+
   /**
    * Get AI refactoring suggestion for a file
    */
@@ -308,6 +556,11 @@ export class MultiFileRefactorService {
         .replace(/```$/gm, '')
         .trim();
 
+      // Keep the final newline, which trimming removed
+      if (content.endsWith('\n')) {
+        result += '\n';
+      }
+
       return result;
     } catch (error) {
       console.error('AI refactoring failed:', error);
@@ -316,61 +569,39 @@ export class MultiFileRefactorService {
   }
 
   /**
-   * Compute text changes between original and new content
+   * Compute text changes between original and new content, one per hunk
+   * of changed lines
    */
   private computeChanges(
     document: vscode.TextDocument,
     original: string,
     modified: string
   ): TextChange[] {
-    const changes: TextChange[] = [];
-    const originalLines = original.split('\n');
-    const modifiedLines = modified.split('\n');
-
-    let lineNum = 0;
-    let i = 0;
-    let j = 0;
-
-    while (i < originalLines.length || j < modifiedLines.length) {
-      if (i >= originalLines.length) {
-        // Added lines
-        changes.push({
-          range: new vscode.Range(lineNum, 0, lineNum, 0),
-          oldText: '',
-          newText: modifiedLines[j] + '\n',
-          description: 'Added line',
-        });
-        j++;
-        lineNum++;
-      } else if (j >= modifiedLines.length) {
-        // Deleted lines
-        changes.push({
-          range: new vscode.Range(lineNum, 0, lineNum + 1, 0),
-          oldText: originalLines[i] + '\n',
-          newText: '',
-          description: 'Deleted line',
-        });
-        i++;
-      } else if (originalLines[i] !== modifiedLines[j]) {
-        // Modified line
-        changes.push({
-          range: new vscode.Range(lineNum, 0, lineNum, originalLines[i].length),
-          oldText: originalLines[i],
-          newText: modifiedLines[j],
-          description: 'Modified line',
-        });
-        i++;
-        j++;
-        lineNum++;
-      } else {
-        // Unchanged
-        i++;
-        j++;
-        lineNum++;
-      }
-    }
-
-    return changes;
+    return computeDiffHunks(original, modified).map((hunk) => {
+      const startLine = hunk.oldStart - 1;
+      const range = new vscode.Range(
+        startLine,
+        0,
+        startLine + hunk.oldLines.length,
+        0
+      );
+      const lines =
+        hunk.oldLines.length > 1
+          ? `lines ${hunk.oldStart}-${startLine + hunk.oldLines.length}`
+          : `line ${hunk.oldStart}`;
+      return {
+        // Past the last line when the file has no final newline
+        range: document.validateRange(range),
+        oldText: hunk.oldLines.join(''),
+        newText: hunk.newLines.join(''),
+        description:
+          hunk.oldLines.length === 0
+            ? `Added at ${lines}`
+            : hunk.newLines.length === 0
+              ? `Deleted ${lines}`
+              : `Modified ${lines}`,
+      };
+    });
   }
 
   /**
@@ -1,21 +1,30 @@
 /**
  * Chat Panel WebView
- * Provides AI chat interface with OpenRouter
+ * Chat with the Recoder Code agent, which reads files, runs commands and
+ * edits with the CLI's tools, asking here before it does
  */
 
+import { randomBytes } from 'node:crypto';
+import * as path from 'node:path';
 import * as vscode from 'vscode';
-import { OpenRouterService } from '../services/OpenRouterService.js';
-import type { RecoderAuthService } from '../services/RecoderAuthService.js';
+import type {
+  AgentContentBlock,
+  AgentPermissionOutcome,
+  AgentPermissionRequest,
+  AgentService,
+  AgentSessionUpdate,
+  AgentToolCall,
+} from '../services/AgentService.js';
 
 interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp?: number;
-  tokens?: {
-    prompt: number;
-    completion: number;
-    total: number;
-  };
+}
+
+interface PendingPermission {
+  resolve: (outcome: AgentPermissionOutcome) => void;
+  optionIds: string[];
 }
 
 export class ChatPanel {
@@ -23,11 +32,14 @@ export class ChatPanel {
   private readonly panel: vscode.WebviewPanel;
   private disposables: vscode.Disposable[] = [];
   private conversationHistory: ChatMessage[] = [];
+  private sessionId: string | undefined;
+  private currentReply = '';
+  private pendingPermissions = new Map<string, PendingPermission>();
 
   private constructor(
     panel: vscode.WebviewPanel,
     private context: vscode.ExtensionContext,
-    private authService: RecoderAuthService
+    private agentService: AgentService
   ) {
     this.panel = panel;
 
@@ -53,6 +65,12 @@ export class ChatPanel {
           case 'sendMessage':
             await this.handleSendMessage(message.text, message.includeFile);
             break;
+          case 'permissionResponse':
+            this.answerPermission(message.toolCallId, message.optionId);
+            break;
+          case 'cancel':
+            this.cancelTurn();
+            break;
           case 'clearHistory':
             await this.clearHistory();
             break;
@@ -72,7 +90,7 @@ export class ChatPanel {
 
   public static createOrShow(
     context: vscode.ExtensionContext,
-    authService: RecoderAuthService
+    agentService: AgentService
   ): void {
     const column = vscode.window.activeTextEditor
       ? vscode.window.activeTextEditor.viewColumn
@@ -95,40 +113,20 @@ export class ChatPanel {
       }
     );
 
-    ChatPanel.currentPanel = new ChatPanel(panel, context, authService);
+    ChatPanel.currentPanel = new ChatPanel(panel, context, agentService);
   }
 
   private async handleSendMessage(userMessage: string, includeFile: boolean): Promise<void> {
-    const isAuth = await this.authService.isAuthenticated();
-    if (!isAuth) {
-      this.panel.webview.postMessage({
-        type: 'error',
-        text: 'Please login first',
-      });
-      return;
-    }
-
-    let fullMessage = userMessage;
+    const prompt: AgentContentBlock[] = [{ type: 'text', text: userMessage }];
 
     // Include current file context if requested
     if (includeFile) {
       const editor = vscode.window.activeTextEditor;
       if (editor) {
-        const document = editor.document;
-        const selection = editor.selection;
-        const selectedText = document.getText(selection);
-        const fileContext = selectedText || document.getText();
-        const fileName = document.fileName.split('/').pop();
-        const language = document.languageId;
-
-        fullMessage = `File: ${fileName} (${language})\n\n\`\`\`${language}\n${fileContext}\n\`\`\`\n\n${userMessage}`;
+        prompt.push(this.getFileContext(editor));
       }
     }
 
-    const selectedModel =
-      this.context.globalState.get<string>('recoder.selectedModel') ||
-      'anthropic/claude-3.5-sonnet';
-
     try {
       // Add user message to history
       const userMsg: ChatMessage = {
@@ -148,62 +146,31 @@ export class ChatPanel {
       // Show typing indicator
       this.panel.webview.postMessage({ type: 'typing', isTyping: true });
 
-      // Create OpenRouter service
-      const apiKey = await this.authService.getOpenRouterApiKey();
-      if (!apiKey) {
-        this.panel.webview.postMessage({
-          type: 'error',
-          text: 'No OpenRouter API key available. Please set your API key.',
+      if (!this.sessionId || !this.agentService.hasSession(this.sessionId)) {
+        this.sessionId = await this.agentService.newSession({
+          onUpdate: (update) => this.handleUpdate(update),
+          requestPermission: (request) => this.requestPermission(request),
         });
-        this.panel.webview.postMessage({ type: 'typing', isTyping: false });
-        return;
       }
-      const service = new OpenRouterService(apiKey);
-
-      // Build messages array from conversation history
-      const messages = this.conversationHistory.map((msg) => ({
-        role: msg.role,
-        content: msg.content,
-      }));
 
-      // Send request
-      const completion = await service.chat(selectedModel, messages, { stream: false });
+      // The reply streams in through handleUpdate until the turn ends
+      this.currentReply = '';
+      const stopReason = await this.agentService.prompt(this.sessionId, prompt);
 
-      // Hide typing indicator
       this.panel.webview.postMessage({ type: 'typing', isTyping: false });
+      this.panel.webview.postMessage({ type: 'turnEnded', stopReason });
 
-      // Check if it's a non-stream completion
-      if ('choices' in completion) {
-        const assistantMessage = completion.choices[0]?.message?.content || 'No response';
-
-        // Add assistant message to history
-        const assistantMsg: ChatMessage = {
+      if (this.currentReply) {
+        this.conversationHistory.push({
           role: 'assistant',
-          content: assistantMessage,
+          content: this.currentReply,
           timestamp: Date.now(),
-          tokens: completion.usage
-            ? {
-                prompt: completion.usage.prompt_tokens || 0,
-                completion: completion.usage.completion_tokens || 0,
-                total: completion.usage.total_tokens || 0,
-              }
-            : undefined,
-        };
-        this.conversationHistory.push(assistantMsg);
-
-        // Save history
-        await this.saveHistory();
-
-        // Show assistant message
-        this.panel.webview.postMessage({
-          type: 'assistantMessage',
-          text: assistantMessage,
-          model: selectedModel,
-          usage: completion.usage,
         });
       }
+      await this.saveHistory();
     } catch (error) {
       this.panel.webview.postMessage({ type: 'typing', isTyping: false });
+      this.panel.webview.postMessage({ type: 'turnEnded' });
       this.panel.webview.postMessage({
         type: 'error',
         text: `Error: ${error instanceof Error ? error.message : String(error)}`,
@@ -211,7 +178,150 @@ export class ChatPanel {
     }
   }
 
+  /**
+   * The selection is sent as is; a whole file is referenced, for the agent
+   * to read itself
+   */
+  private getFileContext(editor: vscode.TextEditor): AgentContentBlock {
+    const document = editor.document;
+    const fileUri = `file://${document.uri.fsPath}`;
+    if (editor.selection.isEmpty) {
+      return {
+        type: 'resource_link',
+        uri: fileUri,
+        name: path.basename(document.fileName),
+      };
+    }
+    return {
+      type: 'resource',
+      resource: {
+        uri: fileUri,
+        text: document.getText(editor.selection),
+      },
+    };
+  }
+
+  private handleUpdate(update: AgentSessionUpdate): void {
+    switch (update.sessionUpdate) {
+      case 'agent_message_chunk':
+        if (update.content.type === 'text') {
+          this.currentReply += update.content.text;
+          this.panel.webview.postMessage({
+            type: 'assistantChunk',
+            text: update.content.text,
+          });
+        }
+        break;
+      case 'agent_thought_chunk':
+        if (update.content.type === 'text') {
+          this.panel.webview.postMessage({
+            type: 'thoughtChunk',
+            text: update.content.text,
+          });
+        }
+        break;
+      case 'tool_call':
+      case 'tool_call_update':
+        // A change answered in its diff editor needs no answer here
+        if (update.status && update.status !== 'pending') {
+          this.settlePermission(update.toolCallId, { outcome: 'cancelled' });
+        }
+        this.panel.webview.postMessage({
+          type: 'toolCall',
+          toolCall: this.describeToolCall(update),
+        });
+        break;
+      case 'plan':
+        this.panel.webview.postMessage({
+          type: 'plan',
+          entries: update.entries,
+        });
+        break;
+    }
+  }
+
+  private requestPermission(
+    request: AgentPermissionRequest
+  ): Promise<AgentPermissionOutcome> {
+    return new Promise((resolve) => {
+      this.pendingPermissions.set(request.toolCall.toolCallId, {
+        resolve,
+        optionIds: request.options.map((option) => option.optionId),
+      });
+      this.panel.webview.postMessage({
+        type: 'toolCall',
+        toolCall: this.describeToolCall(request.toolCall),
+      });
+      this.panel.webview.postMessage({
+        type: 'permissionRequest',
+        toolCallId: request.toolCall.toolCallId,
+        options: request.options,
+      });
+    });
+  }
+
+  /**
+   * Only an option offered for an open request is taken, whatever else the
+   * webview sends
+   */
+  private answerPermission(toolCallId: unknown, optionId: unknown): void {
+    if (typeof toolCallId !== 'string' || typeof optionId !== 'string') {
+      return;
+    }
+    if (this.pendingPermissions.get(toolCallId)?.optionIds.includes(optionId)) {
+      this.settlePermission(toolCallId, { outcome: 'selected', optionId });
+    }
+  }
+
+  private settlePermission(
+    toolCallId: string,
+    outcome: AgentPermissionOutcome
+  ): void {
+    const pending = this.pendingPermissions.get(toolCallId);
+    if (pending) {
+      this.pendingPermissions.delete(toolCallId);
+      pending.resolve(outcome);
+      this.panel.webview.postMessage({ type: 'permissionSettled', toolCallId });
+    }
+  }
+
+  private cancelTurn(): void {
+    for (const toolCallId of [...this.pendingPermissions.keys()]) {
+      this.settlePermission(toolCallId, { outcome: 'cancelled' });
+    }
+    if (this.sessionId) {
+      this.agentService.cancel(this.sessionId);
+    }
+  }
+
+  /**
+   * What the webview shows of a tool call: text output as is, and the files
+   * a diff changes, as edits are reviewed in the diff editor
+   */
+  private describeToolCall(toolCall: AgentToolCall) {
+    const output = (toolCall.content ?? []).map((content) =>
+      content.type === 'diff'
+        ? `Changes ${vscode.workspace.asRelativePath(content.path)}`
+        : content.content.type === 'text'
+          ? content.content.text
+          : ''
+    );
+    return {
+      toolCallId: toolCall.toolCallId,
+      title: toolCall.title ?? undefined,
+      kind: toolCall.kind ?? undefined,
+      status: toolCall.status ?? undefined,
+      output: toolCall.content ? output.filter(Boolean).join('\n') : undefined,
+    };
+  }
+
   private async clearHistory(): Promise<void> {
+    this.cancelTurn();
+    if (this.sessionId) {
+      // The next message starts a new session with a clean context
+      this.agentService.closeSession(this.sessionId);
+      this.sessionId = undefined;
+    }
     this.conversationHistory = [];
     await this.context.workspaceState.update('recoder.chatHistory', []);
     this.panel.webview.postMessage({ type: 'historyCleared' });
@@ -221,16 +331,23 @@ export class ChatPanel {
     await this.context.workspaceState.update('recoder.chatHistory', this.conversationHistory);
   }
 
+  /**
+   * Agent output can carry HTML from files and web pages, so only the
+   * panel's own scripts may run, and rendered markdown is sanitized
+   */
   private getWebviewContent(): string {
+    const nonce = randomBytes(16).toString('base64');
     return `<!DOCTYPE html>
 <html lang="en">
 <head>
   <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src https://cdnjs.cloudflare.com 'unsafe-inline'; img-src ${this.panel.webview.cspSource} data:; script-src 'nonce-${nonce}';">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <title>Recoder Code Chat</title>
   <link rel="stylesheet" href="https://cdnjs.cloudflare.com/ajax/libs/highlight.js/11.9.0/styles/vs2015.min.css">
-  <script src="https://cdnjs.cloudflare.com/ajax/libs/highlight.js/11.9.0/highlight.min.js"></script>
-  <script src="https://cdnjs.cloudflare.com/ajax/libs/marked/11.1.1/marked.min.js"></script>
+  <script nonce="${nonce}" src="https://cdnjs.cloudflare.com/ajax/libs/highlight.js/11.9.0/highlight.min.js"></script>
+  <script nonce="${nonce}" src="https://cdnjs.cloudflare.com/ajax/libs/marked/11.1.1/marked.min.js"></script>
+  <script nonce="${nonce}" src="https://cdnjs.cloudflare.com/ajax/libs/dompurify/3.0.8/purify.min.js"></script>
   <style>
     body {
       padding: 20px;
@@ -332,11 +449,57 @@ export class ChatPanel {
     .copy-button:hover {
       opacity: 1;
     }
-    .message-meta {
-      font-size: 0.8em;
+    .thought {
+      font-style: italic;
       opacity: 0.7;
+      white-space: pre-wrap;
+      margin-bottom: 8px;
+    }
+    .tool-call {
+      margin-bottom: 12px;
+      padding: 8px 12px;
+      border-radius: 4px;
+      border: 1px solid var(--vscode-panel-border);
+      font-size: 0.9em;
+    }
+    .tool-call-title {
+      font-family: var(--vscode-editor-font-family);
+    }
+    .tool-call-status {
+      opacity: 0.7;
+      margin-left: 8px;
+    }
+    .tool-call.failed {
+      border-color: var(--vscode-errorForeground);
+    }
+    .tool-call-output {
+      margin: 8px 0 0;
+      max-height: 200px;
+      overflow: auto;
+      white-space: pre-wrap;
+      font-family: var(--vscode-editor-font-family);
+      font-size: 0.9em;
+      opacity: 0.8;
+    }
+    .permission-actions {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 8px;
       margin-top: 8px;
     }
+    .permission-actions button {
+      padding: 4px 10px;
+      font-size: 12px;
+    }
+    .plan {
+      margin: 0 0 12px;
+      padding-left: 20px;
+      font-size: 0.9em;
+    }
+    .plan .completed {
+      text-decoration: line-through;
+      opacity: 0.7;
+    }
     .typing-indicator {
       display: none;
       padding: 10px;
@@ -344,7 +507,14 @@ export class ChatPanel {
       opacity: 0.7;
     }
     .typing-indicator.active {
-      display: block;
+      display: flex;
+      align-items: center;
+      gap: 10px;
+    }
+    .typing-indicator button {
+      padding: 2px 10px;
+      font-size: 12px;
+      font-style: normal;
     }
     .input-container {
       display: flex;
@@ -397,12 +567,15 @@ export class ChatPanel {
   <div class="header">
     <h2>🤖 Recoder Code Chat</h2>
     <div class="header-actions">
-      <button class="secondary" onclick="clearHistory()">Clear History</button>
+      <button class="secondary" id="clearHistoryButton">Clear History</button>
     </div>
   </div>
 
   <div id="messages"></div>
-  <div class="typing-indicator" id="typingIndicator">AI is typing...</div>
+  <div class="typing-indicator" id="typingIndicator">
+    <span>Working...</span>
+    <button class="secondary" id="stopButton">Stop</button>
+  </div>
 
   <div class="input-container">
     <div class="checkbox-row">
@@ -413,18 +586,29 @@ export class ChatPanel {
       <textarea
         id="messageInput"
         placeholder="Type your message... (Shift+Enter for new line, Enter to send)"
-        onkeypress="handleKeyPress(event)"
       ></textarea>
-      <button onclick="sendMessage()">Send</button>
+      <button id="sendButton">Send</button>
     </div>
   </div>
 
-  <script>
+  <script nonce="${nonce}">
     const vscode = acquireVsCodeApi();
     const messagesDiv = document.getElementById('messages');
     const messageInput = document.getElementById('messageInput');
     const typingIndicator = document.getElementById('typingIndicator');
     const includeFileCheckbox = document.getElementById('includeFileCheckbox');
+    const toolCallStatuses = {
+      pending: 'waiting for approval',
+      in_progress: 'running',
+      completed: 'done',
+      failed: 'failed',
+    };
+    // The assistant message that the current turn streams into, with the
+    // text and thoughts since the last tool call
+    let reply = null;
+    let segment = null;
+    let segmentText = '';
+    let thought = null;
 
     // Configure marked for better code rendering
     marked.setOptions({
@@ -447,15 +631,47 @@ export class ChatPanel {
             if (msg.role === 'user') {
               addMessage('You', msg.content, 'user-message', msg.timestamp);
             } else if (msg.role === 'assistant') {
-              addMessage('Assistant', msg.content, 'assistant-message', msg.timestamp, msg.tokens);
+              addMessage('Assistant', msg.content, 'assistant-message', msg.timestamp);
             }
           });
           break;
         case 'userMessage':
           addMessage('You', message.text, 'user-message');
           break;
-        case 'assistantMessage':
-          addMessage('Assistant', message.text, 'assistant-message', null, message.usage);
+        case 'assistantChunk':
+          if (!segment) {
+            segment = document.createElement('div');
+            segment.className = 'message-content';
+            getReply().appendChild(segment);
+            segmentText = '';
+          }
+          segmentText += message.text;
+          renderMarkdown(segment, segmentText);
+          break;
+        case 'thoughtChunk':
+          if (!thought) {
+            thought = document.createElement('div');
+            thought.className = 'thought';
+            appendToReply(thought);
+          }
+          thought.textContent += message.text;
+          break;
+        case 'toolCall':
+          showToolCall(message.toolCall);
+          break;
+        case 'permissionRequest':
+          showPermissionRequest(message.toolCallId, message.options);
+          break;
+        case 'permissionSettled':
+          document.querySelectorAll('[data-permission="' + message.toolCallId + '"]').forEach(el => el.remove());
+          break;
+        case 'plan':
+          showPlan(message.entries);
+          break;
+        case 'turnEnded':
+          reply = null;
+          segment = null;
+          thought = null;
           break;
         case 'error':
           addMessage('Error', message.text, 'error-message');
@@ -469,7 +685,7 @@ export class ChatPanel {
       }
     });
 
-    function addMessage(sender, text, className, timestamp, usage) {
+    function addMessage(sender, text, className, timestamp) {
       const messageDiv = document.createElement('div');
       messageDiv.className = 'message ' + className;
 
@@ -492,18 +708,7 @@ export class ChatPanel {
 
       // Use marked to render markdown with syntax highlighting
       if (sender === 'Assistant') {
-        content.innerHTML = marked.parse(text);
-
-        // Add copy buttons to code blocks
-        content.querySelectorAll('pre code').forEach(block => {
-          const pre = block.parentElement;
-          const button = document.createElement('button');
-          button.className = 'copy-button';
-          button.textContent = 'Copy';
-          button.onclick = () => copyCode(block.textContent);
-          pre.style.position = 'relative';
-          pre.insertBefore(button, pre.firstChild);
-        });
+        renderMarkdown(content, text);
       } else {
         content.textContent = text;
       }
@@ -511,17 +716,108 @@ export class ChatPanel {
       messageDiv.appendChild(header);
       messageDiv.appendChild(content);
 
-      if (usage && usage.total_tokens) {
-        const meta = document.createElement('div');
-        meta.className = 'message-meta';
-        meta.textContent = \`Tokens: \${usage.total_tokens} (prompt: \${usage.prompt_tokens}, completion: \${usage.completion_tokens})\`;
-        messageDiv.appendChild(meta);
+      messagesDiv.appendChild(messageDiv);
+      messagesDiv.scrollTop = messagesDiv.scrollHeight;
+      return messageDiv;
+    }
+
+    function renderMarkdown(content, text) {
+      content.innerHTML = DOMPurify.sanitize(marked.parse(text));
+
+      // Add copy buttons to code blocks
+      content.querySelectorAll('pre code').forEach(block => {
+        const pre = block.parentElement;
+        const button = document.createElement('button');
+        button.className = 'copy-button';
+        button.textContent = 'Copy';
+        button.onclick = () => copyCode(block.textContent);
+        pre.style.position = 'relative';
+        pre.insertBefore(button, pre.firstChild);
+      });
+      messagesDiv.scrollTop = messagesDiv.scrollHeight;
+    }
+
+    function getReply() {
+      if (!reply) {
+        reply = addMessage('Assistant', '', 'assistant-message');
+        reply.querySelector('.message-content').remove();
       }
+      return reply;
+    }
 
-      messagesDiv.appendChild(messageDiv);
+    // Text after a tool call, plan or thought goes below it
+    function appendToReply(element) {
+      getReply().appendChild(element);
+      segment = null;
       messagesDiv.scrollTop = messagesDiv.scrollHeight;
     }
 
+    // Tool calls show in the reply they belong to, and update in place
+    function showToolCall(toolCall) {
+      let card = document.getElementById('tool-' + toolCall.toolCallId);
+      if (!card) {
+        card = document.createElement('div');
+        card.className = 'tool-call';
+        card.id = 'tool-' + toolCall.toolCallId;
+        card.innerHTML = '<span class="tool-call-title"></span><span class="tool-call-status"></span>';
+        appendToReply(card);
+        thought = null;
+      }
+      if (toolCall.title) {
+        card.querySelector('.tool-call-title').textContent = toolCall.title;
+      }
+      if (toolCall.status) {
+        card.querySelector('.tool-call-status').textContent = toolCallStatuses[toolCall.status] || toolCall.status;
+        card.classList.toggle('failed', toolCall.status === 'failed');
+      }
+      if (toolCall.output) {
+        let output = card.querySelector('.tool-call-output');
+        if (!output) {
+          output = document.createElement('pre');
+          output.className = 'tool-call-output';
+          card.appendChild(output);
+        }
+        output.textContent = toolCall.output;
+      }
+      messagesDiv.scrollTop = messagesDiv.scrollHeight;
+    }
+
+    function showPermissionRequest(toolCallId, options) {
+      const card = document.getElementById('tool-' + toolCallId);
+      const actions = document.createElement('div');
+      actions.className = 'permission-actions';
+      actions.dataset.permission = toolCallId;
+      options.forEach(option => {
+        const button = document.createElement('button');
+        button.textContent = option.name;
+        if (option.kind.startsWith('reject')) {
+          button.className = 'secondary';
+        }
+        button.onclick = () => {
+          vscode.postMessage({ type: 'permissionResponse', toolCallId, optionId: option.optionId });
+        };
+        actions.appendChild(button);
+      });
+      card.appendChild(actions);
+      messagesDiv.scrollTop = messagesDiv.scrollHeight;
+    }
+
+    function showPlan(entries) {
+      let plan = getReply().querySelector('.plan');
+      if (!plan) {
+        plan = document.createElement('ul');
+        plan.className = 'plan';
+        appendToReply(plan);
+      }
+      plan.innerHTML = '';
+      entries.forEach(entry => {
+        const item = document.createElement('li');
+        item.className = entry.status;
+        item.textContent = entry.content;
+        plan.appendChild(item);
+      });
+    }
+
     function copyCode(code) {
       vscode.postMessage({
         type: 'copyCode',
@@ -543,6 +839,10 @@ export class ChatPanel {
       includeFileCheckbox.checked = false;
     }
 
+    function cancelTurn() {
+      vscode.postMessage({ type: 'cancel' });
+    }
+
     function clearHistory() {
       if (confirm('Are you sure you want to clear the conversation history?')) {
         vscode.postMessage({ type: 'clearHistory' });
@@ -556,6 +856,12 @@ export class ChatPanel {
       }
     }
 
+    // Inline event handlers are blocked by the Content-Security-Policy
+    document.getElementById('clearHistoryButton').addEventListener('click', clearHistory);
+    document.getElementById('stopButton').addEventListener('click', cancelTurn);
+    document.getElementById('sendButton').addEventListener('click', sendMessage);
+    messageInput.addEventListener('keypress', handleKeyPress);
+
     // Focus input on load
     messageInput.focus();
   </script>
@@ -566,6 +872,11 @@ export class ChatPanel {
   public dispose(): void {
     ChatPanel.currentPanel = undefined;
 
+    this.cancelTurn();
+    if (this.sessionId) {
+      this.agentService.closeSession(this.sessionId);
+    }
+
     this.panel.dispose();
 
     while (this.disposables.length) {